@@ -20,8 +20,7 @@ import React, { useEffect } from 'react';
 import { AppProviders } from '@/components/layout/AppProviders.tsx';
 import { AppRoutes } from '@/components/routing/AppRoutes.tsx';
 import { useAppInitialization } from '@/hooks/useAppInitialization.ts';
-import { useOnlineStatus } from '@/hooks/useOnlineStatus.ts';
-import { OfflinePage } from '@/components/OfflinePage.tsx';
+import { OfflineQueueIndicator } from '@/components/offline/OfflineQueueIndicator.tsx';
 import { PWAInstallPrompt } from '@/components/PWAInstallPrompt.tsx';
 
 /**
@@ -32,9 +31,6 @@ const App: React.FC = () => {
   // Initialize global services and error handlers
   useAppInitialization();
 
-  // Track online/offline status
-  const isOnline = useOnlineStatus();
-
   // Register PWA service worker for auto-updates
   useEffect(() => {
     // Register service worker for PWA functionality
@@ -55,12 +51,6 @@ const App: React.FC = () => {
     }
   }, []);
 
-  // Handle retry connection attempt
-  const handleRetry = () => {
-    // The useOnlineStatus hook will automatically update when connection is restored
-    // No action needed - just provide user feedback for the retry button
-  };
-
   // Handle PocketBase password reset redirect
   useEffect(() => {
     // Check if we're on the PocketBase password reset URL format
@@ -91,10 +81,9 @@ const App: React.FC = () => {
         <AppRoutes />
         {/* Show PWA install prompt when applicable */}
         <PWAInstallPrompt />
+        {/* Show connection status and offline changes waiting to sync */}
+        <OfflineQueueIndicator />
       </AppProviders>
-
-      {/* Show offline page when user is offline */}
-      {!isOnline && <OfflinePage onRetry={handleRetry} />}
     </div>
   );
 };
@@ -0,0 +1,64 @@
+/**
+ * Image gallery of the user's projects by an artist
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ImageOff } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { getStatusColor, getStatusLabel } from '@/utils/projectStatusUtils';
+import type { ArtistProject } from '@/types/artist';
+
+export const ArtistGallery: React.FC<{ projects: ArtistProject[] }> = ({ projects }) => {
+  const withImages = projects.filter(project => project.thumbnailUrl);
+  const withoutImages = projects.length - withImages.length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Gallery</CardTitle>
+        <CardDescription>
+          {withoutImages > 0
+            ? `${withoutImages} ${withoutImages === 1 ? 'project has' : 'projects have'} no image yet`
+            : 'Your projects by this artist'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {withImages.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-8 text-center text-sm text-muted-foreground">
+            <ImageOff className="h-8 w-8" />
+            Add images to your projects to see them here.
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+            {withImages.map(project => (
+              <Link
+                key={project.id}
+                to={`/projects/${project.id}`}
+                className="group overflow-hidden rounded-md border bg-muted/30"
+              >
+                <div className="aspect-[3/2] overflow-hidden">
+                  <img
+                    src={project.thumbnailUrl}
+                    alt={project.title}
+                    loading="lazy"
+                    className="h-full w-full object-cover transition-transform group-hover:scale-105"
+                  />
+                </div>
+                <div className="space-y-1 p-2">
+                  <p className="truncate text-sm font-medium">{project.title}</p>
+                  <Badge variant="secondary" className={getStatusColor(project.status)}>
+                    {getStatusLabel(project.status)}
+                  </Badge>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,154 @@
+/**
+ * The artist's website and social links, shown and edited on the artist detail page
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useEffect, useState } from 'react';
+import { ExternalLink, Pencil } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useUpdateArtist } from '@/hooks/mutations/useArtistMutations';
+import {
+  SOCIAL_LINKS_MAX,
+  getSocialLinkLabel,
+  normalizeUrl,
+  parseSocialLinks,
+} from '@/utils/artistDetail';
+import type { ArtistDetail, ArtistLinksFormValues } from '@/types/artist';
+
+const toFormValues = (artist: ArtistDetail): ArtistLinksFormValues => ({
+  websiteUrl: artist.websiteUrl ?? '',
+  socialLinks: artist.socialLinks.join('\n'),
+});
+
+const LinkItem: React.FC<{ href: string; label: string }> = ({ href, label }) => (
+  <li>
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center gap-1 text-sm text-primary hover:underline"
+    >
+      <ExternalLink className="h-4 w-4" />
+      {label}
+    </a>
+  </li>
+);
+
+export const ArtistLinksCard: React.FC<{ artist: ArtistDetail }> = ({ artist }) => {
+  const updateArtist = useUpdateArtist();
+  const [isEditing, setIsEditing] = useState(false);
+  const [values, setValues] = useState(() => toFormValues(artist));
+  const [error, setError] = useState<string | null>(null);
+
+  const savedLinks = artist.socialLinks.join('\n');
+  useEffect(() => {
+    setValues({ websiteUrl: artist.websiteUrl ?? '', socialLinks: savedLinks });
+  }, [artist.websiteUrl, savedLinks]);
+
+  const hasLinks = !!artist.websiteUrl || artist.socialLinks.length > 0;
+
+  const handleCancel = () => {
+    setValues(toFormValues(artist));
+    setError(null);
+    setIsEditing(false);
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const websiteUrl = values.websiteUrl.trim() ? normalizeUrl(values.websiteUrl) : '';
+    if (websiteUrl === null) {
+      setError('The website must be a web address, like https://example.com');
+      return;
+    }
+
+    const { links, invalid } = parseSocialLinks(values.socialLinks);
+    if (invalid.length > 0) {
+      setError(`These aren't web addresses: ${invalid.join(', ')}`);
+      return;
+    }
+
+    setError(null);
+    updateArtist.mutate(
+      { id: artist.id, data: { website_url: websiteUrl, social_links: links } },
+      { onSuccess: () => setIsEditing(false) }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Links</CardTitle>
+          <CardDescription>Where to find more of this artist's work</CardDescription>
+        </div>
+        {!isEditing && (
+          <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Edit
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isEditing ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="artist-website-url">Website</Label>
+              <Input
+                id="artist-website-url"
+                value={values.websiteUrl}
+                onChange={e => setValues(prev => ({ ...prev, websiteUrl: e.target.value }))}
+                placeholder="https://example.com"
+                disabled={updateArtist.isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="artist-social-links">Social links</Label>
+              <Textarea
+                id="artist-social-links"
+                value={values.socialLinks}
+                onChange={e => setValues(prev => ({ ...prev, socialLinks: e.target.value }))}
+                rows={4}
+                placeholder={'instagram.com/artist\netsy.com/shop/artist'}
+                disabled={updateArtist.isPending}
+              />
+              <p className="text-xs text-muted-foreground">
+                One link per line, up to {SOCIAL_LINKS_MAX}.
+              </p>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <div className="flex gap-2">
+              <Button type="submit" disabled={updateArtist.isPending}>
+                {updateArtist.isPending ? 'Saving...' : 'Save'}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleCancel}
+                disabled={updateArtist.isPending}
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : hasLinks ? (
+          <ul className="space-y-2">
+            {artist.websiteUrl && <LinkItem href={artist.websiteUrl} label="Website" />}
+            {artist.socialLinks.map(link => (
+              <LinkItem key={link} href={link} label={getSocialLinkLabel(link)} />
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No links yet. Add the artist's website or social profiles to find them again later.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -97,7 +97,15 @@ const ArtistTable = ({ artists, loading }: ArtistTableProps) => {
         <TableBody>
           {artists.map(artist => (
             <TableRow key={artist.id}>
-              <TableCell className="font-medium">{artist.name}</TableCell>
+              <TableCell className="font-medium">
+                <Link
+                  to={`/artists/${artist.id}`}
+                  className="text-primary hover:underline"
+                  title="View artist"
+                >
+                  {artist.name}
+                </Link>
+              </TableCell>
               <TableCell>
                 <Link
                   to={`/dashboard?artist=${encodeURIComponent(artist.name)}`}
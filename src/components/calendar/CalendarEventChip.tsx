@@ -0,0 +1,35 @@
+/**
+ * A single project event on the calendar, linking through to the project
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { cn } from '@/lib/utils';
+import { CALENDAR_EVENT_COLORS, CALENDAR_EVENT_LABELS } from '@/utils/calendar';
+import type { CalendarEvent } from '@/types/calendar';
+
+interface CalendarEventChipProps {
+  event: CalendarEvent;
+  /** Show the progress note excerpt under the title (week view) */
+  showDetail?: boolean;
+}
+
+export const CalendarEventChip: React.FC<CalendarEventChipProps> = ({ event, showDetail }) => (
+  <Link
+    to={`/projects/${event.projectId}`}
+    title={`${CALENDAR_EVENT_LABELS[event.kind]}: ${event.projectTitle}`}
+    className={cn(
+      'block rounded px-1.5 py-0.5 text-xs hover:opacity-80',
+      CALENDAR_EVENT_COLORS[event.kind]
+    )}
+  >
+    <span className="block truncate">
+      <span className="font-medium">{CALENDAR_EVENT_LABELS[event.kind]}:</span> {event.projectTitle}
+    </span>
+    {showDetail && event.detail && (
+      <span className="mt-0.5 line-clamp-3 block opacity-80">{event.detail}</span>
+    )}
+  </Link>
+);
@@ -0,0 +1,101 @@
+/**
+ * Month and week grids for the calendar page
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import type { CalendarEvent, CalendarViewMode } from '@/types/calendar';
+import { CalendarEventChip } from './CalendarEventChip';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_CELL_EVENT_LIMIT = 3;
+
+interface CalendarGridProps {
+  mode: CalendarViewMode;
+  days: string[];
+  /** YYYY-MM-DD of the month being shown, to dim days from neighbouring months */
+  anchor: string;
+  today: string;
+  eventsByDate: Map<string, CalendarEvent[]>;
+}
+
+export const CalendarGrid: React.FC<CalendarGridProps> = ({
+  mode,
+  days,
+  anchor,
+  today,
+  eventsByDate,
+}) => {
+  const month = anchor.slice(0, 7);
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="grid min-w-[640px] grid-cols-7 overflow-hidden rounded-lg border">
+        {WEEKDAYS.map(weekday => (
+          <div
+            key={weekday}
+            className="border-b bg-muted/50 p-2 text-center text-xs font-medium text-muted-foreground"
+          >
+            {weekday}
+          </div>
+        ))}
+
+        {days.map(day => {
+          const events = eventsByDate.get(day) ?? [];
+          const isOtherMonth = mode === 'month' && !day.startsWith(month);
+          const visible = mode === 'month' ? events.slice(0, MONTH_CELL_EVENT_LIMIT) : events;
+          const hidden = events.length - visible.length;
+
+          return (
+            <div
+              key={day}
+              className={cn(
+                'space-y-1 border-b border-r p-1.5 [&:nth-child(7n)]:border-r-0',
+                mode === 'month' ? 'min-h-28' : 'min-h-64',
+                isOtherMonth && 'bg-muted/30 text-muted-foreground'
+              )}
+            >
+              <div
+                className={cn(
+                  'flex h-6 w-6 items-center justify-center rounded-full text-xs',
+                  day === today && 'bg-primary font-semibold text-primary-foreground'
+                )}
+              >
+                {format(parseISO(day), 'd')}
+              </div>
+
+              {visible.map(event => (
+                <CalendarEventChip key={event.id} event={event} showDetail={mode === 'week'} />
+              ))}
+
+              {hidden > 0 && (
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <button
+                      type="button"
+                      className="px-1.5 text-xs font-medium text-primary hover:underline"
+                    >
+                      +{hidden} more
+                    </button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-72 space-y-1">
+                    <p className="mb-2 text-sm font-medium">
+                      {format(parseISO(day), 'EEEE, MMMM d')}
+                    </p>
+                    {events.map(event => (
+                      <CalendarEventChip key={event.id} event={event} />
+                    ))}
+                  </PopoverContent>
+                </Popover>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+/**
+ * Dialog for logging or editing a claim: what went wrong, the colours affected, when it
+ * was reported and where it stands
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useUserTimezone } from '@/hooks/useUserTimezone';
+import { getCurrentDateInUserTimezone } from '@/utils/timezoneUtils';
+import {
+  CLAIM_DESCRIPTION_MAX_LENGTH,
+  CLAIM_ISSUE_TYPE_LABELS,
+  CLAIM_STATUS_LABELS,
+  parseClaimColours,
+} from '@/utils/claims';
+import type { Claim, ClaimFormData, ClaimIssueType, ClaimStatus } from '@/types/claim';
+
+interface ClaimFormState {
+  issueType: ClaimIssueType;
+  colours: string;
+  description: string;
+  dateReported: string;
+  status: ClaimStatus;
+}
+
+const createFormState = (claim: Claim | null, today: string): ClaimFormState => ({
+  issueType: claim?.issueType ?? 'missing_drills',
+  colours: claim?.colours.join(', ') ?? '',
+  description: claim?.description ?? '',
+  dateReported: claim?.dateReported ?? today,
+  status: claim?.status ?? 'open',
+});
+
+interface ClaimFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Claim being edited, or null to log a new one */
+  claim: Claim | null;
+  isSaving: boolean;
+  onSubmit: (data: ClaimFormData) => void;
+}
+
+export const ClaimFormDialog: React.FC<ClaimFormDialogProps> = ({
+  open,
+  onOpenChange,
+  claim,
+  isSaving,
+  onSubmit,
+}) => {
+  const today = getCurrentDateInUserTimezone(useUserTimezone());
+  const [form, setForm] = useState<ClaimFormState>(() => createFormState(claim, today));
+
+  useEffect(() => {
+    if (open) setForm(createFormState(claim, today));
+  }, [open, claim, today]);
+
+  const setField = <K extends keyof ClaimFormState>(field: K, value: ClaimFormState[K]) =>
+    setForm(current => ({ ...current, [field]: value }));
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form.dateReported) return;
+    onSubmit({
+      issueType: form.issueType,
+      colours: parseClaimColours(form.colours),
+      description: form.description,
+      dateReported: form.dateReported,
+      status: form.status,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{claim ? 'Edit claim' : 'Log a claim'}</DialogTitle>
+            <DialogDescription>
+              Keep track of problems you've reported to the shop this kit came from.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="claim-issue-type">Issue</Label>
+              <Select
+                value={form.issueType}
+                onValueChange={value => setField('issueType', value as ClaimIssueType)}
+                disabled={isSaving}
+              >
+                <SelectTrigger id="claim-issue-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CLAIM_ISSUE_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="claim-status">Status</Label>
+              <Select
+                value={form.status}
+                onValueChange={value => setField('status', value as ClaimStatus)}
+                disabled={isSaving}
+              >
+                <SelectTrigger id="claim-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CLAIM_STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="claim-date-reported">Date reported</Label>
+              <Input
+                id="claim-date-reported"
+                type="date"
+                value={form.dateReported}
+                onChange={e => setField('dateReported', e.target.value)}
+                max={today}
+                required
+                disabled={isSaving}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="claim-colours">Colours affected</Label>
+              <Input
+                id="claim-colours"
+                value={form.colours}
+                onChange={e => setField('colours', e.target.value)}
+                placeholder="310, 3865"
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="claim-description">Details</Label>
+            <Textarea
+              id="claim-description"
+              value={form.description}
+              onChange={e => setField('description', e.target.value)}
+              maxLength={CLAIM_DESCRIPTION_MAX_LENGTH}
+              placeholder="How many drills are short, who you contacted, any reference number"
+              rows={3}
+              disabled={isSaving}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !form.dateReported}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
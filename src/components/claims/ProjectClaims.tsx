@@ -0,0 +1,174 @@
+/**
+ * Claims logged for a project, with their status and a flag on those overdue a follow-up
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { MessageSquareWarning, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserTimezone } from '@/hooks/useUserTimezone';
+import { useProjectClaims } from '@/hooks/queries/useClaims';
+import {
+  useDeleteClaim,
+  useSaveClaim,
+  useUpdateClaimStatus,
+} from '@/hooks/mutations/useClaimMutations';
+import { getCurrentDateInUserTimezone } from '@/utils/timezoneUtils';
+import {
+  CLAIM_ISSUE_TYPE_LABELS,
+  CLAIM_STATUS_LABELS,
+  getClaimAgeDays,
+  getClaimReminderDays,
+  getClaimsDueForFollowUp,
+} from '@/utils/claims';
+import { ClaimFormDialog } from './ClaimFormDialog';
+import type { Claim, ClaimFormData, ClaimStatus } from '@/types/claim';
+
+const formatClaimDate = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+interface ProjectClaimsProps {
+  projectId: string;
+}
+
+export const ProjectClaims: React.FC<ProjectClaimsProps> = ({ projectId }) => {
+  const { user } = useAuth();
+  const today = getCurrentDateInUserTimezone(useUserTimezone());
+  const { data: claims = [], isLoading } = useProjectClaims(projectId);
+  const saveClaim = useSaveClaim(projectId);
+  const updateStatus = useUpdateClaimStatus();
+  const deleteClaim = useDeleteClaim();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingClaim, setEditingClaim] = useState<Claim | null>(null);
+
+  const reminderDays = getClaimReminderDays(user?.claim_reminder_days);
+  const dueIds = useMemo(
+    () => new Set(getClaimsDueForFollowUp(claims, today, reminderDays).map(claim => claim.id)),
+    [claims, today, reminderDays]
+  );
+
+  const openForm = (claim: Claim | null) => {
+    setEditingClaim(claim);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = (data: ClaimFormData) =>
+    saveClaim.mutate({ claim: editingClaim, data }, { onSuccess: () => setIsFormOpen(false) });
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquareWarning className="h-5 w-5" />
+            Claims
+          </CardTitle>
+          <CardDescription>Missing drills and other problems reported to the shop</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openForm(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Log claim
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading claims...</p>
+        ) : claims.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No claims for this kit.</p>
+        ) : (
+          <ul className="divide-y">
+            {claims.map(claim => (
+              <li key={claim.id} className="flex flex-col gap-3 py-3 sm:flex-row sm:items-start">
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{CLAIM_ISSUE_TYPE_LABELS[claim.issueType]}</span>
+                    {dueIds.has(claim.id) && (
+                      <Badge variant="destructive">
+                        Follow up · {getClaimAgeDays(claim, today)} days
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Reported {formatClaimDate(claim.dateReported)}
+                    {claim.dateClosed && ` · Closed ${formatClaimDate(claim.dateClosed)}`}
+                  </p>
+                  {claim.colours.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {claim.colours.map(colour => (
+                        <Badge key={colour} variant="outline">
+                          {colour}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {claim.description && (
+                    <p className="whitespace-pre-wrap text-sm">{claim.description}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  <Select
+                    value={claim.status}
+                    onValueChange={value =>
+                      updateStatus.mutate({ claim, status: value as ClaimStatus })
+                    }
+                    disabled={updateStatus.isPending}
+                  >
+                    <SelectTrigger className="h-8 w-44" aria-label="Claim status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CLAIM_STATUS_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    aria-label="Edit claim"
+                    onClick={() => openForm(claim)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    aria-label="Delete claim"
+                    onClick={() => deleteClaim.mutate(claim)}
+                    disabled={deleteClaim.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <ClaimFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        claim={editingClaim}
+        isSaving={saveClaim.isPending}
+        onSubmit={handleSubmit}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,108 @@
+/**
+ * Claims filed with a company: how many were resolved or refused, how long they took to
+ * close and which are still waiting
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useCompanyClaims } from '@/hooks/queries/useClaims';
+import {
+  CLAIM_ISSUE_TYPE_LABELS,
+  CLAIM_STATUS_LABELS,
+  isClaimClosed,
+  summarizeCompanyClaims,
+} from '@/utils/claims';
+import type { ClaimStatus } from '@/types/claim';
+
+interface CompanyClaimsCardProps {
+  companyId: string;
+  companyName: string;
+}
+
+export const CompanyClaimsCard: React.FC<CompanyClaimsCardProps> = ({ companyId, companyName }) => {
+  const { data: claims = [], isLoading } = useCompanyClaims(companyId);
+
+  const summary = useMemo(() => summarizeCompanyClaims(claims), [claims]);
+  const unresolved = useMemo(() => claims.filter(claim => !isClaimClosed(claim.status)), [claims]);
+
+  const stats = [
+    {
+      label: 'Resolved',
+      value: summary.resolvedRate === null ? '—' : `${Math.round(summary.resolvedRate * 100)}%`,
+    },
+    {
+      label: 'Avg. days to close',
+      value: summary.averageDaysToClose === null ? '—' : summary.averageDaysToClose,
+    },
+  ];
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader>
+        <CardTitle>Claims</CardTitle>
+        <CardDescription>
+          {summary.total === 0
+            ? 'Missing drills and other problems reported to this shop'
+            : `${summary.total} ${summary.total === 1 ? 'claim' : 'claims'} filed with ${companyName}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading claims...</p>
+        ) : summary.total === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No claims yet. Log one from a project when a kit arrives with a problem.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(CLAIM_STATUS_LABELS) as ClaimStatus[]).map(status => (
+                <Badge key={status} variant="outline">
+                  {CLAIM_STATUS_LABELS[status]}: {summary.byStatus[status]}
+                </Badge>
+              ))}
+            </div>
+
+            <dl className="grid grid-cols-2 gap-4">
+              {stats.map(stat => (
+                <div key={stat.label} className="rounded-md border p-3">
+                  <dt className="text-xs text-muted-foreground">{stat.label}</dt>
+                  <dd className="text-xl font-semibold">{stat.value}</dd>
+                </div>
+              ))}
+            </dl>
+
+            {unresolved.length > 0 && (
+              <ul className="divide-y rounded-md border">
+                {unresolved.map(claim => (
+                  <li key={claim.id} className="flex items-center justify-between gap-3 p-3">
+                    <div className="min-w-0">
+                      <Link
+                        to={`/projects/${claim.projectId}`}
+                        className="block truncate text-sm font-medium hover:underline"
+                      >
+                        {claim.projectTitle ?? 'Project'}
+                      </Link>
+                      <p className="text-xs text-muted-foreground">
+                        {CLAIM_ISSUE_TYPE_LABELS[claim.issueType]} ·{' '}
+                        {CLAIM_STATUS_LABELS[claim.status]}
+                      </p>
+                    </div>
+                    <span className="whitespace-nowrap text-sm text-muted-foreground">
+                      Reported {format(parseISO(claim.dateReported), 'MMM d, yyyy')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,77 @@
+/**
+ * The user's own quality rating and notes for a company, edited on the scorecard page
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useUpdateCompany } from '@/hooks/mutations/useCompanyMutations';
+import { QUALITY_NOTES_MAX_LENGTH } from '@/utils/companyScorecard';
+import type { CompanyDetail } from '@/types/company';
+import { QualityRating } from './QualityRating';
+
+export const CompanyQualityCard: React.FC<{ company: CompanyDetail }> = ({ company }) => {
+  const updateCompany = useUpdateCompany();
+  const [rating, setRating] = useState(company.qualityRating);
+  const [notes, setNotes] = useState(company.qualityNotes ?? '');
+
+  useEffect(() => {
+    setRating(company.qualityRating);
+    setNotes(company.qualityNotes ?? '');
+  }, [company.qualityRating, company.qualityNotes]);
+
+  const isDirty = rating !== company.qualityRating || notes !== (company.qualityNotes ?? '');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    updateCompany.mutate({
+      id: company.id,
+      // 0 clears the optional rating field in PocketBase
+      data: { quality_rating: rating ?? 0, quality_notes: notes.trim() },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Quality</CardTitle>
+        <CardDescription>
+          Your own rating of this shop's canvases, drills and packaging
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Rating</Label>
+            <div>
+              <QualityRating
+                value={rating}
+                onChange={setRating}
+                disabled={updateCompany.isPending}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="company-quality-notes">Notes</Label>
+            <Textarea
+              id="company-quality-notes"
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              maxLength={QUALITY_NOTES_MAX_LENGTH}
+              rows={4}
+              placeholder="Canvas quality, missing drills, customer service, packaging..."
+              disabled={updateCompany.isPending}
+            />
+          </div>
+          <Button type="submit" disabled={!isDirty || updateCompany.isPending}>
+            {updateCompany.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
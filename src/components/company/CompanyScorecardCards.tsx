@@ -0,0 +1,95 @@
+/**
+ * Headline figures on the company scorecard page
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React from 'react';
+import { CheckCircle2, Clock, PackageX, Ruler, ShoppingBag, Truck } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { CompanyScorecard } from '@/types/company';
+
+interface ScorecardCardProps {
+  title: string;
+  value: string;
+  detail: string;
+  icon: React.ReactNode;
+}
+
+const ScorecardCard: React.FC<ScorecardCardProps> = ({ title, value, detail, icon }) => (
+  <Card>
+    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+      <CardTitle className="text-sm font-medium">{title}</CardTitle>
+      {icon}
+    </CardHeader>
+    <CardContent>
+      <div className="text-2xl font-bold">{value}</div>
+      <p className="mt-1 text-xs text-muted-foreground">{detail}</p>
+    </CardContent>
+  </Card>
+);
+
+const pluralize = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export const CompanyScorecardCards: React.FC<{ scorecard: CompanyScorecard }> = ({ scorecard }) => {
+  const iconClass = 'h-4 w-4 text-muted-foreground';
+  const size =
+    scorecard.averageWidth !== null && scorecard.averageHeight !== null
+      ? `${scorecard.averageWidth} x ${scorecard.averageHeight} cm`
+      : '—';
+
+  return (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      <ScorecardCard
+        title="Kits bought"
+        value={String(scorecard.kitsBought)}
+        detail="Projects past the wishlist"
+        icon={<ShoppingBag className={iconClass} />}
+      />
+      <ScorecardCard
+        title="Average delivery"
+        value={
+          scorecard.averageDeliveryDays !== null
+            ? pluralize(scorecard.averageDeliveryDays, 'day')
+            : '—'
+        }
+        detail={
+          scorecard.deliverySampleSize > 0
+            ? `Purchase to receipt, from ${pluralize(scorecard.deliverySampleSize, 'kit')}`
+            : 'Add purchase and received dates to see this'
+        }
+        icon={<Truck className={iconClass} />}
+      />
+      <ScorecardCard
+        title="Completion rate"
+        value={
+          scorecard.completionRate !== null ? `${Math.round(scorecard.completionRate * 100)}%` : '—'
+        }
+        detail={`${scorecard.completedCount} of ${pluralize(scorecard.kitsBought, 'kit')} completed`}
+        icon={<CheckCircle2 className={iconClass} />}
+      />
+      <ScorecardCard
+        title="Open orders"
+        value={String(scorecard.openOrderCount)}
+        detail="Orders not yet received"
+        icon={<Clock className={iconClass} />}
+      />
+      <ScorecardCard
+        title="Overdue orders"
+        value={String(scorecard.overdueOrders.length)}
+        detail="Past their expected delivery date"
+        icon={<PackageX className={iconClass} />}
+      />
+      <ScorecardCard
+        title="Average kit size"
+        value={size}
+        detail={
+          scorecard.averageDiamonds !== null
+            ? `${scorecard.averageDiamonds.toLocaleString()} diamonds on average`
+            : 'Width and height of kits bought'
+        }
+        icon={<Ruler className={iconClass} />}
+      />
+    </div>
+  );
+};
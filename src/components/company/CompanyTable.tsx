@@ -29,6 +29,7 @@ import EditCompanyDialog from './EditCompanyDialog';
 import { Link } from 'react-router-dom';
 import { CompaniesResponse } from '@/types/pocketbase.types';
 import { useDeleteCompany } from '@/hooks/mutations/useCompanyMutations';
+import { QualityRating } from './QualityRating';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -61,7 +62,8 @@ interface CompanyTableProps {
  * Features include project count display, editing capabilities, and secure deletion.
  *
  * Key Features:
- * - Displays company name, project count, and management actions
+ * - Displays company name, quality rating, project count, and management actions
+ * - Links each company name to its scorecard page
  * - Uses secure FilterBuilder for user-scoped project counting
  * - Provides edit and delete functionality with confirmation dialogs
  * - Handles loading states and error scenarios gracefully
@@ -202,6 +204,7 @@ const CompanyTable = ({ companies, loading, onCompanyUpdated }: CompanyTableProp
         <TableHeader>
           <TableRow>
             <TableHead>Company Name</TableHead>
+            <TableHead>Rating</TableHead>
             <TableHead>Website</TableHead>
             <TableHead>Projects</TableHead>
             <TableHead className="w-24">Actions</TableHead>
@@ -210,7 +213,18 @@ const CompanyTable = ({ companies, loading, onCompanyUpdated }: CompanyTableProp
         <TableBody>
           {companies.map(company => (
             <TableRow key={company.id}>
-              <TableCell className="font-medium">{company.name}</TableCell>
+              <TableCell className="font-medium">
+                <Link
+                  to={`/companies/${company.id}`}
+                  className="text-primary hover:underline"
+                  title="View scorecard"
+                >
+                  {company.name}
+                </Link>
+              </TableCell>
+              <TableCell>
+                <QualityRating value={company.quality_rating || undefined} size="sm" />
+              </TableCell>
               <TableCell>
                 {company.website_url ? (
                   <a
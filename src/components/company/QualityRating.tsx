@@ -0,0 +1,72 @@
+/**
+ * Star rating for a company's kit quality, read-only or editable
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React from 'react';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { QUALITY_RATING_MAX } from '@/utils/companyScorecard';
+
+interface QualityRatingProps {
+  value: number | undefined;
+  /** Makes the stars clickable; clicking the current rating clears it */
+  onChange?: (value: number | undefined) => void;
+  disabled?: boolean;
+  size?: 'sm' | 'md';
+}
+
+export const QualityRating: React.FC<QualityRatingProps> = ({
+  value,
+  onChange,
+  disabled,
+  size = 'md',
+}) => {
+  const iconClass = size === 'sm' ? 'h-4 w-4' : 'h-6 w-6';
+  const stars = Array.from({ length: QUALITY_RATING_MAX }, (_, index) => index + 1);
+
+  if (!onChange) {
+    return (
+      <span
+        className="inline-flex items-center gap-0.5"
+        role="img"
+        aria-label={value ? `Rated ${value} out of ${QUALITY_RATING_MAX}` : 'Not rated'}
+      >
+        {stars.map(star => (
+          <Star
+            key={star}
+            className={cn(
+              iconClass,
+              star <= (value ?? 0) ? 'fill-amber-400 text-amber-400' : 'text-muted-foreground/40'
+            )}
+          />
+        ))}
+      </span>
+    );
+  }
+
+  return (
+    <div className="inline-flex items-center gap-1" role="radiogroup" aria-label="Quality rating">
+      {stars.map(star => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} out of ${QUALITY_RATING_MAX}`}
+          disabled={disabled}
+          onClick={() => onChange(value === star ? undefined : star)}
+          className="rounded p-0.5 transition-transform hover:scale-110 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring disabled:opacity-50"
+        >
+          <Star
+            className={cn(
+              iconClass,
+              star <= (value ?? 0) ? 'fill-amber-400 text-amber-400' : 'text-muted-foreground/40'
+            )}
+          />
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,309 @@
+/**
+ * Toolbar for dashboard multi-select mode
+ *
+ * Shows a "Select" toggle while browsing and, once selection mode is active,
+ * the batch actions for the selected projects: status change, tag add/remove,
+ * company/artist reassignment, archive/destash and delete.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useState } from 'react';
+import {
+  Archive,
+  Building2,
+  CheckSquare,
+  ChevronDown,
+  Loader2,
+  Palette,
+  PackageX,
+  Tag as TagIcon,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useProjectSelection } from '@/contexts/ProjectSelectionContext';
+import { useMetadata } from '@/contexts/MetadataContext';
+import { useProjectStatus, statusOptions } from '@/hooks/useProjectStatus';
+import { useBatchProjectActions } from '@/hooks/mutations/useBatchProjectActions';
+import type { ProjectStatus, ProjectType } from '@/types/project';
+
+interface BulkActionsToolbarProps {
+  /** Projects on the current page, used for "select all" */
+  projects: ProjectType[];
+}
+
+const MENU_LIST_CLASS = 'max-h-72 overflow-y-auto';
+
+const BulkActionsToolbarComponent: React.FC<BulkActionsToolbarProps> = ({ projects }) => {
+  const {
+    isSelectionMode,
+    selectedProjects,
+    selectedCount,
+    enterSelectionMode,
+    exitSelectionMode,
+    selectProjects,
+    deselectProjects,
+    clearSelection,
+  } = useProjectSelection();
+  const { companies, artists, tags } = useMetadata();
+  const { getStatusLabel } = useProjectStatus();
+  const { changeStatus, updateTag, reassign, deleteProjects, isProcessing } =
+    useBatchProjectActions();
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+
+  if (!isSelectionMode) {
+    return (
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={enterSelectionMode}>
+          <CheckSquare className="mr-2 h-4 w-4" />
+          Select
+        </Button>
+      </div>
+    );
+  }
+
+  const selected = [...selectedProjects.values()];
+  const selectedIds = [...selectedProjects.keys()];
+  const allOnPageSelected =
+    projects.length > 0 && projects.every(project => selectedProjects.has(project.id));
+  const disabled = selectedCount === 0 || isProcessing;
+
+  const handleStatusChange = async (newStatus: ProjectStatus) => {
+    const success = await changeStatus(selected, newStatus);
+    if (!success) return;
+
+    if (newStatus === 'archived' || newStatus === 'destashed') {
+      // Archived and destashed kits usually drop out of the current view
+      clearSelection();
+    } else {
+      selectProjects(selected.map(project => ({ ...project, status: newStatus })));
+    }
+  };
+
+  const handleDelete = () => {
+    setIsDeleteDialogOpen(false);
+    deleteProjects(selected);
+    exitSelectionMode();
+  };
+
+  return (
+    <div className="sticky top-2 z-20 flex flex-wrap items-center gap-2 rounded-lg border border-border bg-background/95 p-3 shadow-sm backdrop-blur">
+      <span className="mr-2 text-sm font-medium">
+        {selectedCount} selected
+        {isProcessing && <Loader2 className="ml-2 inline h-4 w-4 animate-spin" />}
+      </span>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() =>
+          allOnPageSelected
+            ? deselectProjects(projects.map(project => project.id))
+            : selectProjects(projects)
+        }
+        disabled={projects.length === 0}
+      >
+        {allOnPageSelected ? 'Deselect page' : 'Select page'}
+      </Button>
+      {selectedCount > 0 && (
+        <Button variant="ghost" size="sm" onClick={clearSelection}>
+          Clear
+        </Button>
+      )}
+
+      <div className="flex flex-1 flex-wrap items-center justify-end gap-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={disabled}>
+              Status
+              <ChevronDown className="ml-1 h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Move to</DropdownMenuLabel>
+            {statusOptions.map(status => (
+              <DropdownMenuItem key={status} onSelect={() => handleStatusChange(status)}>
+                {getStatusLabel(status)}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={disabled}>
+              <TagIcon className="mr-1 h-4 w-4" />
+              Tags
+              <ChevronDown className="ml-1 h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {tags.length === 0 ? (
+              <DropdownMenuItem disabled>No tags yet</DropdownMenuItem>
+            ) : (
+              <>
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>Add tag</DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className={MENU_LIST_CLASS}>
+                    {tags.map(tag => (
+                      <DropdownMenuItem
+                        key={tag.id}
+                        onSelect={() => updateTag(selectedIds, tag, 'add')}
+                      >
+                        {tag.name}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>Remove tag</DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className={MENU_LIST_CLASS}>
+                    {tags.map(tag => (
+                      <DropdownMenuItem
+                        key={tag.id}
+                        onSelect={() => updateTag(selectedIds, tag, 'remove')}
+                      >
+                        {tag.name}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={disabled}>
+              Reassign
+              <ChevronDown className="ml-1 h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Building2 className="mr-2 h-4 w-4" />
+                Company
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className={MENU_LIST_CLASS}>
+                <DropdownMenuItem onSelect={() => reassign(selectedIds, 'company', '', '')}>
+                  No company
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                {companies.map(company => (
+                  <DropdownMenuItem
+                    key={company.id}
+                    onSelect={() => reassign(selectedIds, 'company', company.id, company.name)}
+                  >
+                    {company.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Palette className="mr-2 h-4 w-4" />
+                Artist
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className={MENU_LIST_CLASS}>
+                <DropdownMenuItem onSelect={() => reassign(selectedIds, 'artist', '', '')}>
+                  No artist
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                {artists.map(artist => (
+                  <DropdownMenuItem
+                    key={artist.id}
+                    onSelect={() => reassign(selectedIds, 'artist', artist.id, artist.name)}
+                  >
+                    {artist.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => handleStatusChange('archived')}
+          disabled={disabled}
+        >
+          <Archive className="mr-1 h-4 w-4" />
+          Archive
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => handleStatusChange('destashed')}
+          disabled={disabled}
+        >
+          <PackageX className="mr-1 h-4 w-4" />
+          Destash
+        </Button>
+        <Button
+          variant="destructive"
+          size="sm"
+          onClick={() => setIsDeleteDialogOpen(true)}
+          disabled={disabled}
+        >
+          <Trash2 className="mr-1 h-4 w-4" />
+          Delete
+        </Button>
+
+        <Button variant="ghost" size="sm" onClick={exitSelectionMode} aria-label="Exit selection">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {selectedCount} project{selectedCount === 1 ? '' : 's'}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected projects, their progress notes and tag links will be permanently deleted.
+              You will have a few seconds to undo before the deletion is final.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default React.memo(BulkActionsToolbarComponent);
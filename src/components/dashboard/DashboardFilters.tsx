@@ -7,7 +7,8 @@
  *
  * Key Features:
  * - Real-time search with debounced input
- * - Company, artist, drill shape, tag, and year filters
+ * - Company, artist, drill shape, drill type, canvas type, tag, and year filters
+ * - Min/max ranges for width, height, diamond count and dates
  * - Include/exclude mini kits toggle
  * - Grid/list view toggle
  * - Dynamic sorting with field-specific direction labels
@@ -17,7 +18,7 @@
  *
  * Filter Behavior:
  * - All filters are applied server-side for performance
- * - Tag filtering supports single selection via dropdown
+ * - Tag filtering supports any-of/all-of matching plus excluded tags
  * - Sort direction labels change based on selected field
  * - Filter state persists to database on navigation
  *
@@ -28,6 +29,8 @@
 
 import React, { useMemo } from 'react';
 import FilterDropdown from '@/components/dashboard/FilterDropdown';
+import TagFilterEditor from '@/components/dashboard/TagFilterEditor';
+import RangeFilters from '@/components/dashboard/RangeFilters';
 import ViewToggle from '@/components/dashboard/ViewToggle';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -37,6 +40,7 @@ import { useFilters, useFilterHelpers } from '@/contexts/FilterContext';
 import { useAvailableYears } from '@/hooks/queries/useAvailableYears';
 import { useProjectStatus } from '@/hooks/useProjectStatus';
 import { logger } from '@/utils/logger';
+import { CANVAS_TYPE_LABELS, DRILL_TYPE_LABELS } from '@/utils/kitMaterials';
 import { DashboardValidSortField } from '@/features/dashboard/dashboard.constants'; // Import type from constants
 import { ProjectFilterStatus } from '@/types/project';
 
@@ -48,25 +52,18 @@ import { ProjectFilterStatus } from '@/types/project';
 export type DashboardFiltersProps = Record<string, never>;
 
 const DashboardFiltersComponent: React.FC<DashboardFiltersProps> = React.memo(() => {
-  const {
-    filters,
-    companies,
-    artists,
-    tags: allTags,
-    activeFilterCount,
-    setFilters,
-  } = useFilters();
+  const { filters, companies, artists, activeFilterCount, setFilters } = useFilters();
   const {
     updateCompany,
     updateArtist,
     updateDrillShape,
-    toggleTag,
+    updateDrillType,
+    updateCanvasType,
     updateYearFinished,
     updateSort,
     updateStatus,
     resetFilters,
     updateViewType,
-    updateTags,
   } = useFilterHelpers();
 
   // Transform companies data to options format
@@ -87,8 +84,16 @@ const DashboardFiltersComponent: React.FC<DashboardFiltersProps> = React.memo(()
     { label: 'Square', value: 'square' },
   ];
 
+  const drillTypeOptions = Object.entries(DRILL_TYPE_LABELS).map(([value, label]) => ({
+    label,
+    value,
+  }));
+  const canvasTypeOptions = Object.entries(CANVAS_TYPE_LABELS).map(([value, label]) => ({
+    label,
+    value,
+  }));
+
   // Helper functions for include/exclude options
-  const clearAllTags = () => updateTags([]);
   const updateIncludeMiniKits = (value: boolean) => setFilters({ includeMiniKits: value });
   const updateIncludeWishlist = (value: boolean) => setFilters({ includeWishlist: value });
   const updateIncludeDestashed = (value: boolean) => setFilters({ includeDestashed: value });
@@ -122,7 +127,8 @@ const DashboardFiltersComponent: React.FC<DashboardFiltersProps> = React.memo(()
   const selectedCompany = filters.selectedCompany;
   const selectedArtist = filters.selectedArtist;
   const selectedDrillShape = filters.selectedDrillShape;
-  const selectedTags = filters.selectedTags;
+  const selectedDrillType = filters.selectedDrillType;
+  const selectedCanvasType = filters.selectedCanvasType;
   const selectedYearFinished = filters.selectedYearFinished;
   const includeMiniKits = filters.includeMiniKits;
   const includeWishlist = filters.includeWishlist;
@@ -188,23 +194,23 @@ const DashboardFiltersComponent: React.FC<DashboardFiltersProps> = React.memo(()
         />
 
         <FilterDropdown
-          label="Tag"
-          options={allTags?.map(tag => ({ label: tag.name, value: tag.id })) || []}
-          value={selectedTags.length > 0 ? selectedTags[0] : 'all'} // Show first selected tag or "all"
-          onChange={value => {
-            if (value === 'all') {
-              // Clear all tag filters when "All Tags" is selected
-              clearAllTags();
-            } else {
-              // Clear existing tags and set the new single tag
-              // This ensures only one tag is selected at a time via the dropdown
-              clearAllTags();
-              toggleTag(value);
-            }
-          }}
-          placeholder="All tags"
+          label="Drill Type"
+          options={drillTypeOptions}
+          value={selectedDrillType}
+          onChange={updateDrillType}
+          placeholder="All drill types"
         />
 
+        <FilterDropdown
+          label="Canvas Type"
+          options={canvasTypeOptions}
+          value={selectedCanvasType}
+          onChange={updateCanvasType}
+          placeholder="All canvas types"
+        />
+
+        <TagFilterEditor />
+
         <FilterDropdown
           label="Year Finished"
           options={yearFinishedOptions}
@@ -213,6 +219,8 @@ const DashboardFiltersComponent: React.FC<DashboardFiltersProps> = React.memo(()
           placeholder="All years"
         />
 
+        <RangeFilters />
+
         <div className="rounded-lg border bg-muted/30 p-3 md:p-4">
           <h3 className="mb-3 text-sm font-semibold leading-relaxed md:mb-4">
             Kit Display Options for All Projects View
@@ -283,6 +291,8 @@ const DashboardFiltersComponent: React.FC<DashboardFiltersProps> = React.memo(()
                 { label: 'Date Finished', value: 'date_finished' },
                 { label: 'Date Started', value: 'date_started' },
                 { label: 'Date Received', value: 'date_received' },
+                { label: 'Drill Type', value: 'drill_type' },
+                { label: 'Canvas Type', value: 'canvas_type' },
               ]}
               value={currentSortField}
               onChange={value => {
@@ -295,7 +305,11 @@ const DashboardFiltersComponent: React.FC<DashboardFiltersProps> = React.memo(()
             <FilterDropdown
               label="Order"
               options={useMemo(() => {
-                if (currentSortField === 'kit_name') {
+                if (
+                  currentSortField === 'kit_name' ||
+                  currentSortField === 'drill_type' ||
+                  currentSortField === 'canvas_type'
+                ) {
                   return [
                     { label: 'Z-A', value: 'desc' },
                     { label: 'A-Z', value: 'asc' },
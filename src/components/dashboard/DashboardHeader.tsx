@@ -2,11 +2,14 @@ import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { PlusCircle } from 'lucide-react';
 import SearchProjects from '@/components/dashboard/SearchProjects';
+import SavedViewsMenu from '@/components/dashboard/SavedViewsMenu';
 import { useFilters, useFilterHelpers } from '@/contexts/FilterContext';
+import { useSearchQuery } from '@/hooks/useSearchQuery';
 
 const DashboardHeader = () => {
   const { filters } = useFilters();
-  const { updateSearch } = useFilterHelpers();
+  const { updateSearchMode } = useFilterHelpers();
+  const searchQuery = useSearchQuery();
 
   return (
     <div className="mb-8 flex flex-col gap-4">
@@ -17,6 +20,7 @@ const DashboardHeader = () => {
           <p className="mt-2 text-muted-foreground">Manage and track your collection</p>
         </div>
         <div className="flex flex-row gap-2">
+          <SavedViewsMenu />
           <Button asChild>
             <Link to="/projects/new">
               <PlusCircle className="mr-2 h-4 w-4" />
@@ -30,9 +34,15 @@ const DashboardHeader = () => {
       <div className="flex w-full justify-center md:justify-start">
         <div className="w-full max-w-md">
           <SearchProjects
-            searchTerm={filters.searchTerm}
-            onSearchChange={updateSearch}
+            searchTerm={searchQuery.query}
+            onSearchChange={searchQuery.setQuery}
             isPending={false}
+            searchMode={filters.searchMode}
+            onSearchModeChange={updateSearchMode}
+            errors={searchQuery.errors}
+            getSuggestions={searchQuery.getSuggestions}
+            onFocus={searchQuery.onFocus}
+            onBlur={searchQuery.onBlur}
           />
         </div>
       </div>
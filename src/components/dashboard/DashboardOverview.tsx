@@ -20,6 +20,7 @@
 
 import React from 'react';
 import StatusCarousel from './StatusCarousel';
+import SavedViewChips from './SavedViewChips';
 import { createLogger } from '@/utils/logger';
 
 const logger = createLogger('DashboardOverview');
@@ -38,6 +39,7 @@ const DashboardOverview: React.FC = () => {
   return (
     <div className="mb-8">
       <StatusCarousel />
+      <SavedViewChips />
     </div>
   );
 };
@@ -0,0 +1,129 @@
+/**
+ * Board view of the dashboard: one column per project status, with cards dragged
+ * between columns to change status
+ *
+ * Moves go through the optimistic status mutation, so the card lands in its new column
+ * straight away and start/completion dates are filled in the same way as elsewhere.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useFilters, useFilterHelpers } from '@/contexts/FilterContext';
+import { useProjectSelection } from '@/contexts/ProjectSelectionContext';
+import { useNavigateToProject } from '@/hooks/useNavigateToProject';
+import { useUpdateProjectStatusOptimized } from '@/hooks/mutations/useUpdateProjectStatusOptimized';
+import { getBoardStatuses, groupProjectsByStatus } from '@/utils/projectBoard';
+import type { ProjectStatus, ProjectType } from '@/types/project';
+import ProjectBoardColumn from './ProjectBoardColumn';
+
+interface ProjectBoardProps {
+  projects: ProjectType[];
+  isLoading: boolean;
+}
+
+const ProjectBoard: React.FC<ProjectBoardProps> = ({ projects, isLoading }) => {
+  const { filters } = useFilters();
+  const { resetFilters } = useFilterHelpers();
+  const { isSelectionMode, isSelected, toggleProject } = useProjectSelection();
+  const navigateToProject = useNavigateToProject();
+  const { mutate: updateStatus } = useUpdateProjectStatusOptimized();
+
+  const draggedRef = useRef<ProjectType | null>(null);
+  const [draggingFrom, setDraggingFrom] = useState<ProjectStatus | null>(null);
+
+  const { includeWishlist, includeOnHold, includeArchived, includeDestashed } = filters;
+  const statuses = useMemo(
+    () => getBoardStatuses({ includeWishlist, includeOnHold, includeArchived, includeDestashed }),
+    [includeWishlist, includeOnHold, includeArchived, includeDestashed]
+  );
+  const columns = useMemo(() => groupProjectsByStatus(projects, statuses), [projects, statuses]);
+
+  const handleMove = useCallback(
+    (project: ProjectType, status: ProjectStatus) => {
+      if (project.status === status) return;
+      updateStatus({
+        projectId: project.id,
+        newStatus: status,
+        currentStatus: project.status,
+      });
+    },
+    [updateStatus]
+  );
+
+  const handleCardClick = useCallback(
+    (project: ProjectType) => {
+      if (isSelectionMode) {
+        toggleProject(project);
+        return;
+      }
+      navigateToProject(project.id);
+    },
+    [isSelectionMode, toggleProject, navigateToProject]
+  );
+
+  const handleDragStart = useCallback((project: ProjectType) => {
+    draggedRef.current = project;
+    setDraggingFrom(project.status);
+  }, []);
+
+  const handleDragEnd = useCallback(() => {
+    draggedRef.current = null;
+    setDraggingFrom(null);
+  }, []);
+
+  const handleDrop = useCallback(
+    (status: ProjectStatus) => {
+      if (draggedRef.current) handleMove(draggedRef.current, status);
+      handleDragEnd();
+    },
+    [handleMove, handleDragEnd]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex gap-4 overflow-hidden">
+        {Array.from({ length: 4 }).map((_, index) => (
+          <Skeleton key={index} className="h-96 w-72 shrink-0 rounded-xl" />
+        ))}
+      </div>
+    );
+  }
+
+  if (projects.length === 0) {
+    return (
+      <div className="py-8 text-center">
+        <p className="text-muted-foreground">No projects match your filters.</p>
+        <Button variant="outline" onClick={() => resetFilters()} className="mt-2">
+          Clear Filters
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {statuses.map(status => (
+        <ProjectBoardColumn
+          key={status}
+          status={status}
+          projects={columns[status]}
+          statuses={statuses}
+          draggingFrom={draggingFrom}
+          isSelectionMode={isSelectionMode}
+          isSelected={isSelected}
+          onCardClick={handleCardClick}
+          onMove={handleMove}
+          onDrop={handleDrop}
+          onDragStart={handleDragStart}
+          onDragEnd={handleDragEnd}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default ProjectBoard;
@@ -0,0 +1,121 @@
+/**
+ * Compact project card for the board view. Cards drag between status columns, and the
+ * menu offers the same moves for keyboard and touch users.
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { memo } from 'react';
+import { Image as ImageIcon, MoreVertical } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import { getStatusLabel } from '@/utils/projectStatusUtils';
+import type { ProjectStatus, ProjectType } from '@/types/project';
+
+/** Card height in pixels, used by the column virtualizer */
+export const BOARD_CARD_HEIGHT = 88;
+
+interface ProjectBoardCardProps {
+  project: ProjectType;
+  statuses: ProjectStatus[];
+  isSelectionMode: boolean;
+  isSelected: boolean;
+  onClick: (project: ProjectType) => void;
+  onMove: (project: ProjectType, status: ProjectStatus) => void;
+  onDragStart: (project: ProjectType) => void;
+  onDragEnd: () => void;
+}
+
+const ProjectBoardCard = memo(function ProjectBoardCard({
+  project,
+  statuses,
+  isSelectionMode,
+  isSelected,
+  onClick,
+  onMove,
+  onDragStart,
+  onDragEnd,
+}: ProjectBoardCardProps) {
+  const handleDragStart = (event: React.DragEvent) => {
+    event.dataTransfer.setData('text/plain', project.id);
+    event.dataTransfer.effectAllowed = 'move';
+    onDragStart(project);
+  };
+
+  const subtitle = [project.company, project.artist].filter(Boolean).join(' · ');
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      draggable={!isSelectionMode}
+      onDragStart={handleDragStart}
+      onDragEnd={onDragEnd}
+      onClick={() => onClick(project)}
+      onKeyDown={event => {
+        if (event.key === 'Enter') onClick(project);
+      }}
+      style={{ height: BOARD_CARD_HEIGHT }}
+      className={cn(
+        'flex cursor-pointer items-center gap-3 rounded-lg border bg-card p-2 shadow-sm transition-colors hover:border-primary/40',
+        !isSelectionMode && 'active:cursor-grabbing',
+        isSelected && 'border-primary ring-2 ring-primary'
+      )}
+    >
+      <div className="flex h-16 w-16 shrink-0 items-center justify-center overflow-hidden rounded-md bg-muted">
+        {project.imageUrl ? (
+          <img
+            src={project.imageUrl}
+            alt=""
+            loading="lazy"
+            draggable={false}
+            className="h-full w-full object-cover"
+          />
+        ) : (
+          <ImageIcon className="h-6 w-6 text-muted-foreground" />
+        )}
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="line-clamp-2 text-sm font-medium leading-tight">{project.title}</p>
+        {subtitle && <p className="mt-1 truncate text-xs text-muted-foreground">{subtitle}</p>}
+      </div>
+      {!isSelectionMode && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={event => event.stopPropagation()}
+              onKeyDown={event => event.stopPropagation()}
+            >
+              <MoreVertical className="h-4 w-4" />
+              <span className="sr-only">Move {project.title}</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" onClick={event => event.stopPropagation()}>
+            <DropdownMenuLabel>Move to</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {statuses
+              .filter(status => status !== project.status)
+              .map(status => (
+                <DropdownMenuItem key={status} onSelect={() => onMove(project, status)}>
+                  {getStatusLabel(status)}
+                </DropdownMenuItem>
+              ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+});
+
+export default ProjectBoardCard;
@@ -0,0 +1,129 @@
+/**
+ * One status column on the board view. Cards are virtualized so large stashes stay
+ * responsive, and the column accepts cards dropped from other columns.
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useRef, useState } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { getStatusColor, getStatusLabel } from '@/utils/projectStatusUtils';
+import type { ProjectStatus, ProjectType } from '@/types/project';
+import ProjectBoardCard, { BOARD_CARD_HEIGHT } from './ProjectBoardCard';
+
+const CARD_GAP = 8;
+
+interface ProjectBoardColumnProps {
+  status: ProjectStatus;
+  projects: ProjectType[];
+  statuses: ProjectStatus[];
+  /** Status of the card being dragged, so its own column doesn't light up as a target */
+  draggingFrom: ProjectStatus | null;
+  isSelectionMode: boolean;
+  isSelected: (id: string) => boolean;
+  onCardClick: (project: ProjectType) => void;
+  onMove: (project: ProjectType, status: ProjectStatus) => void;
+  onDrop: (status: ProjectStatus) => void;
+  onDragStart: (project: ProjectType) => void;
+  onDragEnd: () => void;
+}
+
+const ProjectBoardColumn: React.FC<ProjectBoardColumnProps> = ({
+  status,
+  projects,
+  statuses,
+  draggingFrom,
+  isSelectionMode,
+  isSelected,
+  onCardClick,
+  onMove,
+  onDrop,
+  onDragStart,
+  onDragEnd,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [isOver, setIsOver] = useState(false);
+  const isDropTarget = draggingFrom !== null && draggingFrom !== status;
+
+  const virtualizer = useVirtualizer({
+    count: projects.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => BOARD_CARD_HEIGHT + CARD_GAP,
+    overscan: 5,
+  });
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!isDropTarget) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    setIsOver(true);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsOver(false);
+    if (isDropTarget) onDrop(status);
+  };
+
+  return (
+    <section
+      aria-label={getStatusLabel(status)}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={handleDrop}
+      className={cn(
+        'flex w-72 shrink-0 flex-col rounded-xl border bg-muted/40 transition-colors',
+        isDropTarget && 'border-dashed border-primary/50',
+        isOver && 'bg-primary/10'
+      )}
+    >
+      <header className="flex items-center justify-between gap-2 p-3">
+        <Badge variant="secondary" className={getStatusColor(status)}>
+          {getStatusLabel(status)}
+        </Badge>
+        <span className="text-sm text-muted-foreground">{projects.length}</span>
+      </header>
+
+      <div ref={scrollRef} className="max-h-[70vh] min-h-24 overflow-y-auto px-3 pb-3">
+        {projects.length === 0 ? (
+          <p className="py-6 text-center text-xs text-muted-foreground">
+            {isDropTarget ? 'Drop here' : 'No projects'}
+          </p>
+        ) : (
+          <div style={{ height: virtualizer.getTotalSize(), position: 'relative' }}>
+            {virtualizer.getVirtualItems().map(item => {
+              const project = projects[item.index];
+              return (
+                <div
+                  key={project.id}
+                  style={{
+                    position: 'absolute',
+                    top: 0,
+                    left: 0,
+                    width: '100%',
+                    transform: `translateY(${item.start}px)`,
+                  }}
+                >
+                  <ProjectBoardCard
+                    project={project}
+                    statuses={statuses}
+                    isSelectionMode={isSelectionMode}
+                    isSelected={isSelected(project.id)}
+                    onClick={onCardClick}
+                    onMove={onMove}
+                    onDragStart={onDragStart}
+                    onDragEnd={onDragEnd}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default ProjectBoardColumn;
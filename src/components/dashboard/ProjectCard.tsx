@@ -4,7 +4,12 @@ import { ProjectType } from '@/types/project';
 import { cn } from '@/lib/utils';
 import { useProjectStatus } from '@/hooks/useProjectStatus';
 import { useConditionalImageLoader } from '@/hooks/useConditionalImageLoader';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { formatPercent } from '@/utils/drillProgress';
 import { Loader2, RefreshCw, Image as ImageIcon } from 'lucide-react';
+import { HighlightedText, SearchMatchDetails } from '@/components/dashboard/SearchMatchDetails';
+import type { ProjectSearchMatch } from '@/types/projectSearch';
 
 interface ProjectCardProps {
   project: ProjectType;
@@ -12,6 +17,11 @@ interface ProjectCardProps {
   skipImageLoading?: boolean; // Skip image loading for faster rendering (e.g., in overview)
   isRecentlyEdited?: boolean; // Whether this project was recently edited
   viewType?: 'grid' | 'list'; // View type for different layouts
+  isSelectionMode?: boolean; // Show a selection checkbox; clicks toggle selection instead of navigating
+  isSelected?: boolean; // Whether this project is part of the current batch selection
+  progressPercent?: number; // Drill progress from the latest progress note, if recorded
+  searchTerm?: string; // Highlight matches of the active search
+  searchMatch?: ProjectSearchMatch; // Where a full-text search matched this project
 }
 
 const ProjectCardComponent = ({
@@ -20,6 +30,11 @@ const ProjectCardComponent = ({
   skipImageLoading = false,
   isRecentlyEdited = false,
   viewType = 'grid',
+  isSelectionMode = false,
+  isSelected = false,
+  progressPercent,
+  searchTerm,
+  searchMatch,
 }: ProjectCardProps) => {
   const { getStatusColor, getStatusLabel } = useProjectStatus();
   const [isImageLoaded, setIsImageLoaded] = useState(false);
@@ -87,6 +102,38 @@ const ProjectCardComponent = ({
     );
   };
 
+  // Display-only checkbox; the whole card acts as the toggle in selection mode
+  const selectionCheckbox = isSelectionMode && (
+    <div className="absolute left-2 top-2 z-10 rounded-md bg-background/90 p-1 shadow-sm">
+      <Checkbox
+        checked={isSelected}
+        aria-label={`Select ${project.title}`}
+        tabIndex={-1}
+        className="pointer-events-none"
+      />
+    </div>
+  );
+
+  const progressBar = progressPercent !== undefined && (
+    <div className="flex items-center gap-2">
+      <Progress
+        value={progressPercent}
+        className="h-1.5"
+        aria-label={`${formatPercent(progressPercent)} complete`}
+      />
+      <span className="flex-shrink-0 text-xs text-muted-foreground">
+        {formatPercent(progressPercent)}
+      </span>
+    </div>
+  );
+
+  const searchDetails = searchMatch && searchTerm && (
+    <SearchMatchDetails projectId={project.id} match={searchMatch} searchTerm={searchTerm} />
+  );
+
+  const selectedClassName =
+    isSelected && 'ring-2 ring-primary ring-offset-2 ring-offset-background';
+
   // Render different layouts based on view type
   if (viewType === 'list') {
     return (
@@ -97,11 +144,14 @@ const ProjectCardComponent = ({
           'group flex cursor-pointer overflow-hidden rounded-xl border text-diamond-900 shadow-sm transition-all duration-300 ease-out hover:shadow-md hover:shadow-black/10 dark:text-gray-100 dark:hover:shadow-white/5',
           isRecentlyEdited
             ? 'border-green-500 bg-green-50 ring-2 ring-green-500 ring-opacity-50 dark:border-green-400 dark:bg-green-950'
-            : 'border-border bg-diamond-100 hover:border-primary/20 dark:bg-gray-800 dark:hover:border-primary/30'
+            : 'border-border bg-diamond-100 hover:border-primary/20 dark:bg-gray-800 dark:hover:border-primary/30',
+          selectedClassName
         )}
+        aria-pressed={isSelectionMode ? isSelected : undefined}
       >
         {/* Square image area for list view */}
         <div className="relative h-24 w-24 flex-shrink-0 bg-gray-200 dark:bg-gray-700">
+          {selectionCheckbox}
           {renderImageContent()}
         </div>
 
@@ -110,7 +160,7 @@ const ProjectCardComponent = ({
           <div className="flex-1 space-y-1">
             {/* Project title */}
             <h3 className="line-clamp-1 text-sm font-semibold leading-tight transition-colors duration-200 group-hover:text-primary">
-              {project.title}
+              <HighlightedText text={project.title} term={searchTerm} />
             </h3>
 
             {/* Kit specifications */}
@@ -127,6 +177,9 @@ const ProjectCardComponent = ({
                 </span>
               )}
             </div>
+
+            {progressBar}
+            {searchDetails}
           </div>
 
           {/* Status badge */}
@@ -154,11 +207,14 @@ const ProjectCardComponent = ({
         'group flex cursor-pointer flex-col overflow-hidden rounded-xl border text-diamond-900 shadow-sm transition-all duration-300 ease-out hover:-translate-y-2 hover:shadow-xl hover:shadow-black/10 dark:text-gray-100 dark:hover:shadow-white/5',
         isRecentlyEdited
           ? 'border-green-500 bg-green-50 ring-2 ring-green-500 ring-opacity-50 dark:border-green-400 dark:bg-green-950'
-          : 'border-border bg-diamond-100 hover:border-primary/20 dark:bg-gray-800 dark:hover:border-primary/30'
+          : 'border-border bg-diamond-100 hover:border-primary/20 dark:bg-gray-800 dark:hover:border-primary/30',
+        selectedClassName
       )}
+      aria-pressed={isSelectionMode ? isSelected : undefined}
     >
       {/* Larger image area for better visual balance */}
       <div className="relative h-48 w-full bg-gray-200 dark:bg-gray-700 sm:h-52">
+        {selectionCheckbox}
         {renderImageContent()}
       </div>
 
@@ -168,7 +224,7 @@ const ProjectCardComponent = ({
           {/* Project title - consistent height row */}
           <div className="flex h-10 items-start">
             <h3 className="line-clamp-2 text-sm font-semibold leading-tight transition-colors duration-200 group-hover:text-primary">
-              {project.title}
+              <HighlightedText text={project.title} term={searchTerm} />
             </h3>
           </div>
 
@@ -196,6 +252,9 @@ const ProjectCardComponent = ({
               {project.status === 'purchased' ? 'Purchased' : getStatusLabel(project.status)}
             </span>
           </div>
+
+          {progressBar}
+          {searchDetails}
         </div>
       </div>
     </div>
@@ -3,17 +3,33 @@ import { logger } from '@/utils/logger';
 import { ProjectType } from '@/types/project';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useProjectStatus } from '@/hooks/useProjectStatus';
 import { useImageLoader } from '@/hooks/useImageLoader';
 import { useLazyLoad } from '@/hooks/useLazyLoad';
 import { Loader2, RefreshCw, Image as ImageIcon } from 'lucide-react';
+import { HighlightedText, SearchMatchDetails } from '@/components/dashboard/SearchMatchDetails';
+import type { ProjectSearchMatch } from '@/types/projectSearch';
 
 interface ProjectListItemProps {
   project: ProjectType;
   onClick: () => void;
+  isSelectionMode?: boolean;
+  isSelected?: boolean;
+  onSelectToggle?: () => void;
+  searchTerm?: string;
+  searchMatch?: ProjectSearchMatch;
 }
 
-const ProjectListItem: React.FC<ProjectListItemProps> = ({ project, onClick }) => {
+const ProjectListItem: React.FC<ProjectListItemProps> = ({
+  project,
+  onClick,
+  isSelectionMode = false,
+  isSelected = false,
+  onSelectToggle,
+  searchTerm,
+  searchMatch,
+}) => {
   const { getStatusColor, getStatusLabel } = useProjectStatus();
 
   // Add lazy loading
@@ -81,16 +97,25 @@ const ProjectListItem: React.FC<ProjectListItemProps> = ({ project, onClick }) =
   return (
     <div
       ref={ref}
-      className="mb-2 flex flex-col items-stretch justify-between rounded-lg border border-border bg-diamond-100 p-4 text-diamond-900 shadow-sm transition-shadow hover:shadow-md dark:bg-gray-800 dark:text-white sm:flex-row sm:items-center"
+      className={`mb-2 flex flex-col items-stretch justify-between rounded-lg border border-border bg-diamond-100 p-4 text-diamond-900 shadow-sm transition-shadow hover:shadow-md dark:bg-gray-800 dark:text-white sm:flex-row sm:items-center ${isSelected ? 'ring-2 ring-primary' : ''}`}
     >
       <div className="flex w-full flex-col items-start gap-4 sm:flex-row sm:items-center">
+        {isSelectionMode && (
+          <Checkbox
+            checked={isSelected}
+            onCheckedChange={() => onSelectToggle?.()}
+            aria-label={`Select ${project.title}`}
+          />
+        )}
         <div className="relative h-20 w-20 min-w-[5rem] overflow-hidden rounded bg-gray-200 dark:bg-gray-700">
           {renderImageContent()}
         </div>
 
         <div className="min-w-0 flex-1">
           <div className="flex flex-col justify-between gap-2 sm:flex-row sm:items-center">
-            <h3 className="truncate text-lg font-semibold">{project.title}</h3>
+            <h3 className="truncate text-lg font-semibold">
+              <HighlightedText text={project.title} term={searchTerm} />
+            </h3>
             <Badge className={`${getStatusColor(project.status)} self-start sm:self-auto`}>
               {getStatusLabel(project.status)}
             </Badge>
@@ -99,12 +124,14 @@ const ProjectListItem: React.FC<ProjectListItemProps> = ({ project, onClick }) =
           <div className="mt-2 grid grid-cols-1 gap-x-4 gap-y-1 sm:grid-cols-3">
             {project.company && (
               <p className="text-sm text-gray-600 dark:text-gray-300">
-                <span className="font-medium">Company:</span> {project.company}
+                <span className="font-medium">Company:</span>{' '}
+                <HighlightedText text={project.company} term={searchTerm} />
               </p>
             )}
             {project.artist && (
               <p className="text-sm text-gray-600 dark:text-gray-300">
-                <span className="font-medium">Artist:</span> {project.artist}
+                <span className="font-medium">Artist:</span>{' '}
+                <HighlightedText text={project.artist} term={searchTerm} />
               </p>
             )}
             {(project.width || project.height) && (
@@ -124,6 +151,15 @@ const ProjectListItem: React.FC<ProjectListItemProps> = ({ project, onClick }) =
             )}
           </div>
 
+          {searchMatch && searchTerm && (
+            <SearchMatchDetails
+              projectId={project.id}
+              match={searchMatch}
+              searchTerm={searchTerm}
+              className="mt-2"
+            />
+          )}
+
           {/* Tag display section has been removed */}
         </div>
       </div>
@@ -42,8 +42,15 @@ import { useAuth } from '@/hooks/useAuth';
 import ProjectPagination from '@/components/ui/ProjectPagination';
 import { useNavigateToProject } from '@/hooks/useNavigateToProject';
 import { useRecentlyEdited } from '@/contexts/RecentlyEditedContext';
+import { useProjectSelection } from '@/contexts/ProjectSelectionContext';
 import { logger } from '@/utils/logger';
 import { useTabAwareErrorMessage } from '@/hooks/useTabAwareErrorMessage';
+import { useLatestProjectProgressQuery } from '@/hooks/queries/useProgressNotes';
+import { getNotePercent } from '@/utils/drillProgress';
+import type { ProjectSearchMatch } from '@/types/projectSearch';
+
+// Statuses where a drill progress bar is meaningful on the card
+const PROGRESS_STATUSES = new Set<ProjectType['status']>(['progress', 'onhold']);
 
 // Interface for ProjectsGrid props - now accepts dashboard data to prevent duplicate calls
 interface ProjectsGridProps {
@@ -51,6 +58,7 @@ interface ProjectsGridProps {
     projects: ProjectType[];
     totalItems: number;
     totalPages: number;
+    searchMatches?: Record<string, ProjectSearchMatch>;
     isLoadingProjects: boolean;
     errorProjects: Error | null;
     refetchProjects: () => void;
@@ -61,6 +69,7 @@ const ProjectsGridComponent: React.FC<ProjectsGridProps> = ({ dashboardData }) =
   const navigateToProject = useNavigateToProject();
   const { user } = useAuth();
   const { recentlyEditedProjectId } = useRecentlyEdited();
+  const { isSelectionMode, isSelected, toggleProject } = useProjectSelection();
   const { filters } = useFilters();
   const { resetFilters, updatePage, updatePageSize } = useFilterHelpers();
   const debouncedSearchTerm = filters.searchTerm; // Direct access since new context handles debouncing internally
@@ -69,15 +78,37 @@ const ProjectsGridComponent: React.FC<ProjectsGridProps> = ({ dashboardData }) =
   const tabAwareErrorMessage = useTabAwareErrorMessage();
 
   // Dashboard data is now passed as prop to avoid duplicate useProjects calls
-  const { projects, isLoadingProjects: loading, totalItems, totalPages } = dashboardData;
+  const {
+    projects,
+    isLoadingProjects: loading,
+    totalItems,
+    totalPages,
+    searchMatches,
+  } = dashboardData;
 
   // Extract individual properties from filters
-  const viewType = filters.viewType;
+  // The board has its own component, so only grid and list reach this one
+  const viewType = filters.viewType === 'list' ? 'list' : 'grid';
   const searchTerm = filters.searchTerm;
   const sortField = filters.sortField;
   const currentPage = filters.currentPage;
   const pageSize = filters.pageSize;
 
+  // Latest recorded drill progress for the in-progress projects on this page
+  const progressProjectIds = React.useMemo(
+    () => projects.filter(project => PROGRESS_STATUSES.has(project.status)).map(({ id }) => id),
+    [projects]
+  );
+  const { data: latestProgress } = useLatestProjectProgressQuery(progressProjectIds);
+
+  const getProgressPercent = (project: ProjectType): number | undefined => {
+    const note = PROGRESS_STATUSES.has(project.status)
+      ? latestProgress?.get(project.id)
+      : undefined;
+    const percent = note ? getNotePercent(note, project.totalDiamonds) : null;
+    return percent ?? undefined;
+  };
+
   // Compute dynamic separator props
   const dynamicSeparatorProps = useDynamicSeparatorProps(filters.sortField, projects);
 
@@ -154,13 +185,17 @@ const ProjectsGridComponent: React.FC<ProjectsGridProps> = ({ dashboardData }) =
     countOfItemsWithoutCurrentSortDate,
   } = dynamicSeparatorProps;
 
-  // Handle project card click with simple navigation
+  // Handle project card click with simple navigation, or toggle selection in multi-select mode
   const handleProjectClick = React.useCallback(
     (project: ProjectType) => {
+      if (isSelectionMode) {
+        toggleProject(project);
+        return;
+      }
       // Simple navigation - dashboard filters will be saved automatically on navigation
       navigateToProject(project.id);
     },
-    [navigateToProject]
+    [navigateToProject, isSelectionMode, toggleProject]
   );
 
   if (loading) {
@@ -212,7 +247,9 @@ const ProjectsGridComponent: React.FC<ProjectsGridProps> = ({ dashboardData }) =
 
     // Calculate the separator position before rendering
     let separatorIndex = -1;
+    // Full-text results are ranked by relevance, not the date sort, so skip the separator
     if (
+      !searchMatches &&
       isCurrentSortDateBased &&
       currentSortDatePropertyKey &&
       currentSortDateFriendlyName &&
@@ -250,6 +287,11 @@ const ProjectsGridComponent: React.FC<ProjectsGridProps> = ({ dashboardData }) =
           onClick={() => handleProjectClick(project)}
           isRecentlyEdited={project.id === recentlyEditedProjectId}
           viewType={viewType}
+          isSelectionMode={isSelectionMode}
+          isSelected={isSelected(project.id)}
+          progressPercent={getProgressPercent(project)}
+          searchTerm={debouncedSearchTerm}
+          searchMatch={searchMatches?.[project.id]}
         />
       );
     });
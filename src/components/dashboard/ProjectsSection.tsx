@@ -1,6 +1,9 @@
 import React from 'react';
 import ProjectsGrid from '@/components/dashboard/ProjectsGrid';
+import ProjectBoard from '@/components/dashboard/ProjectBoard';
+import BulkActionsToolbar from '@/components/dashboard/BulkActionsToolbar';
 import { useDashboardData } from '@/hooks/useDashboardData';
+import { useBoardProjects } from '@/hooks/queries/useBoardProjects';
 import { useAuth } from '@/hooks/useAuth';
 import { useFilters } from '@/contexts/FilterContext';
 import { createLogger } from '@/utils/logger';
@@ -13,6 +16,7 @@ const ProjectsSectionComponent = () => {
   const { filters, isLoading } = useFilters();
   const debouncedSearchTerm = useDebounce(filters.searchTerm, 300);
   const isInitialized = !isLoading;
+  const isBoardView = filters.viewType === 'board';
 
   // Single shared dashboard data call to prevent duplicate useProjects calls
   // Only fetch data once metadata loading is complete
@@ -20,9 +24,19 @@ const ProjectsSectionComponent = () => {
     user?.id || 'guest',
     filters,
     debouncedSearchTerm,
-    isInitialized
+    isInitialized && !isBoardView
   );
 
+  // The board shows all statuses at once, so it loads its own unpaginated list
+  const boardQuery = useBoardProjects(
+    user?.id,
+    filters,
+    debouncedSearchTerm,
+    isInitialized && isBoardView
+  );
+  const boardProjects = boardQuery.data ?? [];
+  const error = isBoardView ? boardQuery.error : dashboardData.errorProjects;
+
   // Log when dashboard data is fetched
   React.useEffect(() => {
     logger.debug('ProjectsSection dashboard data updated:', {
@@ -40,14 +54,20 @@ const ProjectsSectionComponent = () => {
 
   return (
     <div className="space-y-6 lg:col-span-3">
-      {dashboardData.errorProjects && (
+      {error && (
         <div className="rounded-md border border-red-500 p-4 text-red-500">
-          <p>Error loading projects: {dashboardData.errorProjects.message}</p>
+          <p>Error loading projects: {error.message}</p>
           <p>Please try refreshing the page or contact support if the issue persists.</p>
         </div>
       )}
 
-      <ProjectsGrid dashboardData={dashboardData} />
+      <BulkActionsToolbar projects={isBoardView ? boardProjects : dashboardData.projects} />
+
+      {isBoardView ? (
+        <ProjectBoard projects={boardProjects} isLoading={!isInitialized || boardQuery.isLoading} />
+      ) : (
+        <ProjectsGrid dashboardData={dashboardData} />
+      )}
       {/* Dashboard data passed as props to avoid duplicate calls */}
     </div>
   );
@@ -0,0 +1,142 @@
+/**
+ * Min/max range filters for canvas size, diamond count and the project date fields
+ *
+ * Number inputs are committed on blur or Enter so typing does not refetch on every
+ * keystroke; date inputs are committed as soon as a full date is picked.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useFilters, useFilterHelpers } from '@/contexts/FilterContext';
+import { DATE_RANGE_FIELDS, NUMBER_RANGE_FIELDS, countActiveRanges } from '@/utils/projectRanges';
+import type { DateRange, NumberRange } from '@/types/projectFilters';
+
+interface NumberBoundInputProps {
+  value: number | undefined;
+  placeholder: string;
+  ariaLabel: string;
+  onCommit: (value: number | undefined) => void;
+}
+
+const NumberBoundInput: React.FC<NumberBoundInputProps> = ({
+  value,
+  placeholder,
+  ariaLabel,
+  onCommit,
+}) => {
+  const [draft, setDraft] = useState(value?.toString() ?? '');
+
+  useEffect(() => {
+    setDraft(value?.toString() ?? '');
+  }, [value]);
+
+  const commit = () => {
+    const parsed = draft.trim() === '' ? undefined : Number(draft);
+    if (parsed === undefined || (Number.isFinite(parsed) && parsed >= 0)) {
+      if (parsed !== value) onCommit(parsed);
+    } else {
+      setDraft(value?.toString() ?? '');
+    }
+  };
+
+  return (
+    <Input
+      type="number"
+      inputMode="numeric"
+      min={0}
+      value={draft}
+      placeholder={placeholder}
+      aria-label={ariaLabel}
+      className="h-9 bg-background"
+      onChange={event => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={event => {
+        if (event.key === 'Enter') commit();
+      }}
+    />
+  );
+};
+
+const RangeFiltersComponent: React.FC = () => {
+  const { filters } = useFilters();
+  const { updateRange, clearRanges } = useFilterHelpers();
+  const { ranges } = filters;
+  const activeCount = countActiveRanges(ranges);
+
+  const updateNumberBound = (
+    key: (typeof NUMBER_RANGE_FIELDS)[number]['key'],
+    bound: keyof NumberRange,
+    value: number | undefined
+  ) => updateRange(key, { ...ranges[key], [bound]: value });
+
+  const updateDateBound = (
+    key: (typeof DATE_RANGE_FIELDS)[number]['key'],
+    bound: keyof DateRange,
+    value: string
+  ) => updateRange(key, { ...ranges[key], [bound]: value || undefined });
+
+  return (
+    <div className="rounded-lg border bg-muted/30 p-3 md:p-4">
+      <div className="mb-3 flex items-center justify-between md:mb-4">
+        <h3 className="text-sm font-semibold">Size, Diamonds & Dates</h3>
+        {activeCount > 0 && (
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={clearRanges}>
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {NUMBER_RANGE_FIELDS.map(({ key, label }) => (
+          <div key={key} className="space-y-1">
+            <span className="text-sm font-medium">{label}</span>
+            <div className="grid grid-cols-2 gap-2">
+              <NumberBoundInput
+                value={ranges[key]?.min}
+                placeholder="Min"
+                ariaLabel={`${label} minimum`}
+                onCommit={value => updateNumberBound(key, 'min', value)}
+              />
+              <NumberBoundInput
+                value={ranges[key]?.max}
+                placeholder="Max"
+                ariaLabel={`${label} maximum`}
+                onCommit={value => updateNumberBound(key, 'max', value)}
+              />
+            </div>
+          </div>
+        ))}
+
+        {DATE_RANGE_FIELDS.map(({ key, label }) => (
+          <div key={key} className="space-y-1">
+            <span className="text-sm font-medium">{label}</span>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                type="date"
+                value={ranges[key]?.from ?? ''}
+                max={ranges[key]?.to}
+                aria-label={`${label} from`}
+                className="h-9 bg-background"
+                onChange={event => updateDateBound(key, 'from', event.target.value)}
+              />
+              <Input
+                type="date"
+                value={ranges[key]?.to ?? ''}
+                min={ranges[key]?.from}
+                aria-label={`${label} to`}
+                className="h-9 bg-background"
+                onChange={event => updateDateBound(key, 'to', event.target.value)}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default React.memo(RangeFiltersComponent);
@@ -0,0 +1,64 @@
+/**
+ * Quick-access chips for saved dashboard views, shown under the status carousel
+ * with a live project count for each view
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React from 'react';
+import { Bookmark, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useFilters } from '@/contexts/FilterContext';
+import { useSavedViewCounts, useSavedViews } from '@/hooks/queries/useSavedViews';
+import { isSavedViewActive } from '@/utils/savedViews';
+import { cn } from '@/lib/utils';
+
+const SavedViewChipsComponent: React.FC = () => {
+  const { filters, setFilters } = useFilters();
+  const { data: views = [] } = useSavedViews();
+  const counts = useSavedViewCounts(views);
+
+  if (views.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4 flex flex-wrap gap-2" aria-label="Saved views">
+      {views.map(view => {
+        const isActive = isSavedViewActive(filters, view.filters);
+        const count = counts.get(view.id) ?? 'loading';
+
+        return (
+          <Button
+            key={view.id}
+            variant={isActive ? 'default' : 'outline'}
+            size="sm"
+            className={cn('h-8 rounded-full', isActive && 'shadow-sm')}
+            onClick={() => setFilters({ ...view.filters })}
+            aria-pressed={isActive}
+          >
+            <Bookmark className="mr-1.5 h-3.5 w-3.5" />
+            <span className="max-w-[12rem] truncate">{view.name}</span>
+            <span
+              className={cn(
+                'ml-2 rounded-full px-1.5 text-xs tabular-nums',
+                isActive ? 'bg-primary-foreground/20' : 'bg-muted text-muted-foreground'
+              )}
+            >
+              {count === 'loading' ? (
+                <Loader2 className="inline h-3 w-3 animate-spin" />
+              ) : count === 'error' ? (
+                '–'
+              ) : (
+                count
+              )}
+            </span>
+          </Button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default React.memo(SavedViewChipsComponent);
@@ -0,0 +1,232 @@
+/**
+ * Saved views menu for the dashboard header
+ *
+ * Lists the user's saved views, applies them to the dashboard filters, and lets the
+ * user save the current filters as a new view, overwrite, share or delete a view.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useState } from 'react';
+import { Bookmark, ChevronDown, Link2, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useFilters } from '@/contexts/FilterContext';
+import { useToast } from '@/hooks/use-toast';
+import { useSavedViews } from '@/hooks/queries/useSavedViews';
+import {
+  useCreateSavedView,
+  useDeleteSavedView,
+  useUpdateSavedView,
+} from '@/hooks/mutations/useSavedViewMutations';
+import { buildSavedViewUrl, extractSavedViewFilters, isSavedViewActive } from '@/utils/savedViews';
+import { createLogger } from '@/utils/logger';
+import type { SavedView } from '@/types/savedView';
+
+const logger = createLogger('SavedViewsMenu');
+
+const SavedViewsMenuComponent: React.FC = () => {
+  const { filters, setFilters } = useFilters();
+  const { toast } = useToast();
+  const { data: views = [] } = useSavedViews();
+  const createView = useCreateSavedView();
+  const updateView = useUpdateSavedView();
+  const deleteView = useDeleteSavedView();
+
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+  const [viewName, setViewName] = useState('');
+  const [viewToDelete, setViewToDelete] = useState<SavedView | null>(null);
+
+  const activeView = views.find(view => isSavedViewActive(filters, view.filters));
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = viewName.trim();
+    if (!name) return;
+
+    createView.mutate(
+      { name, filters: extractSavedViewFilters(filters) },
+      {
+        onSuccess: () => {
+          setIsSaveDialogOpen(false);
+          setViewName('');
+        },
+      }
+    );
+  };
+
+  const handleCopyLink = async (view: SavedView) => {
+    try {
+      await navigator.clipboard.writeText(buildSavedViewUrl(window.location.origin, view.id));
+      toast({
+        title: 'Link copied',
+        description: `Open this link while signed in to jump straight to "${view.name}".`,
+      });
+    } catch (error) {
+      logger.error('Failed to copy saved view link:', error);
+      toast({
+        title: 'Copy failed',
+        description: 'Could not copy the link to your clipboard.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = () => {
+    if (viewToDelete) {
+      deleteView.mutate(viewToDelete);
+    }
+    setViewToDelete(null);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <Bookmark className="mr-2 h-4 w-4" />
+            <span className="max-w-[10rem] truncate">{activeView ? activeView.name : 'Views'}</span>
+            <ChevronDown className="ml-2 h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+          {views.length === 0 ? (
+            <DropdownMenuItem disabled>No saved views yet</DropdownMenuItem>
+          ) : (
+            views.map(view => (
+              <DropdownMenuSub key={view.id}>
+                <DropdownMenuSubTrigger
+                  className={view.id === activeView?.id ? 'font-semibold' : undefined}
+                >
+                  <span className="truncate">{view.name}</span>
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  <DropdownMenuItem onSelect={() => setFilters({ ...view.filters })}>
+                    <Bookmark className="mr-2 h-4 w-4" />
+                    Apply view
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => handleCopyLink(view)}>
+                    <Link2 className="mr-2 h-4 w-4" />
+                    Copy link
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={() =>
+                      updateView.mutate({
+                        id: view.id,
+                        values: { filters: extractSavedViewFilters(filters) },
+                      })
+                    }
+                    disabled={view.id === activeView?.id}
+                  >
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Update to current filters
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onSelect={() => setViewToDelete(view)}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setIsSaveDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Save current view
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isSaveDialogOpen} onOpenChange={setIsSaveDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>Save current view</DialogTitle>
+              <DialogDescription>
+                Saves the current status, filters, search and sort so you can return to them with
+                one click.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="saved-view-name">Name</Label>
+              <Input
+                id="saved-view-name"
+                value={viewName}
+                onChange={event => setViewName(event.target.value)}
+                placeholder="e.g. In progress from Diamond Art Club"
+                maxLength={100}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsSaveDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!viewName.trim() || createView.isPending}>
+                Save view
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!viewToDelete} onOpenChange={open => !open && setViewToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{viewToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The saved view and any links to it will stop working. Your projects are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default React.memo(SavedViewsMenuComponent);
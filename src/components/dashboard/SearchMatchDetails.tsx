@@ -0,0 +1,110 @@
+/**
+ * Highlighted search matches for dashboard project cards and list items
+ *
+ * Shows where a full-text search matched (notes, company, artist) with the matching
+ * text highlighted, plus the most recent matching progress note with a deep link to it.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { NotebookPen } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { splitHighlightSegments } from '@/utils/projectSearch';
+import type { ProjectSearchMatch } from '@/types/projectSearch';
+
+const SNIPPET_FIELD_LABELS: Record<NonNullable<ProjectSearchMatch['snippet']>['field'], string> = {
+  company: 'Company',
+  artist: 'Artist',
+  generalNotes: 'Notes',
+};
+
+interface HighlightedTextProps {
+  text: string;
+  term?: string;
+}
+
+/**
+ * Render text with every match of the search term highlighted
+ */
+export const HighlightedText = React.memo(({ text, term }: HighlightedTextProps) => {
+  if (!term?.trim()) return <>{text}</>;
+
+  return (
+    <>
+      {splitHighlightSegments(text, term).map((segment, index) =>
+        segment.match ? (
+          <mark
+            key={index}
+            className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-500/40"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+});
+
+// Progress note dates are stored as midnight UTC; format the date part only
+const formatNoteDate = (date: string): string => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  if (!year || !month || !day) return '';
+  return format(new Date(year, month - 1, day), 'MMM d, yyyy');
+};
+
+interface SearchMatchDetailsProps {
+  projectId: string;
+  match: ProjectSearchMatch;
+  searchTerm: string;
+  className?: string;
+}
+
+const SearchMatchDetailsComponent = ({
+  projectId,
+  match,
+  searchTerm,
+  className,
+}: SearchMatchDetailsProps) => {
+  const { snippet, progressNote, progressNoteCount } = match;
+  if (!snippet && !progressNote) return null;
+
+  return (
+    <div className={cn('space-y-1 text-xs text-muted-foreground', className)}>
+      {snippet && (
+        <p className="line-clamp-2">
+          <span className="font-medium">{SNIPPET_FIELD_LABELS[snippet.field]}:</span>{' '}
+          <HighlightedText text={snippet.text} term={searchTerm} />
+        </p>
+      )}
+      {progressNote && (
+        <Link
+          to={`/projects/${projectId}#progress-note-${progressNote.noteId}`}
+          onClick={event => event.stopPropagation()}
+          className="block rounded-md border border-dashed px-2 py-1 transition-colors hover:border-primary/40 hover:bg-muted/50"
+          aria-label={`Open the matching progress note from ${formatNoteDate(progressNote.date)}`}
+        >
+          <span className="flex items-center gap-1 font-medium text-foreground">
+            <NotebookPen className="h-3 w-3" />
+            Progress note, {formatNoteDate(progressNote.date)}
+            {progressNoteCount > 1 && (
+              <span className="font-normal text-muted-foreground">
+                (+{progressNoteCount - 1} more)
+              </span>
+            )}
+          </span>
+          <span className="line-clamp-2">
+            <HighlightedText text={progressNote.snippet} term={searchTerm} />
+          </span>
+        </Link>
+      )}
+    </div>
+  );
+};
+
+export const SearchMatchDetails = React.memo(SearchMatchDetailsComponent);
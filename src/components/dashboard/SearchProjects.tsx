@@ -1,64 +1,234 @@
 /**
  * Simplified search component using context debouncing
+ *
+ * When `getSuggestions` is passed, the box also completes structured query terms
+ * (`tag:`, `company:`, ...) and shows query errors under the input.
+ *
  * @author @serabi
  * @created 2025-07-09
  */
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
 import { Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ProjectSearchMode } from '@/types/projectSearch';
+import type { SearchQueryError, SearchQuerySuggestions } from '@/utils/searchQuery';
 
 interface SearchProjectsProps {
   searchTerm: string;
   onSearchChange: (term: string) => void;
   inputRef?: React.Ref<HTMLInputElement>;
   isPending?: boolean; // Show loading state during deferred search
+  searchMode?: ProjectSearchMode;
+  onSearchModeChange?: (mode: ProjectSearchMode) => void;
+  errors?: SearchQueryError[];
+  getSuggestions?: (query: string, cursor: number) => SearchQuerySuggestions | null;
+  onFocus?: () => void;
+  onBlur?: () => void;
 }
 
+const SEARCH_MODE_OPTIONS: { value: ProjectSearchMode; label: string }[] = [
+  { value: 'title', label: 'Titles' },
+  { value: 'full', label: 'Everything' },
+];
+
 const SearchProjects = ({
   searchTerm,
   onSearchChange,
   inputRef,
   isPending,
+  searchMode = 'title',
+  onSearchModeChange,
+  errors = [],
+  getSuggestions,
+  onFocus,
+  onBlur,
 }: SearchProjectsProps) => {
+  const isFullText = searchMode === 'full';
+  const localInputRef = useRef<HTMLInputElement | null>(null);
+  const [suggestions, setSuggestions] = useState<SearchQuerySuggestions | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const hasErrors = errors.length > 0;
+  const isSuggestionsOpen = !!suggestions && suggestions.items.length > 0;
+
+  const setRefs = (element: HTMLInputElement | null) => {
+    localInputRef.current = element;
+    if (typeof inputRef === 'function') {
+      inputRef(element);
+    } else if (inputRef) {
+      (inputRef as React.MutableRefObject<HTMLInputElement | null>).current = element;
+    }
+  };
+
+  const refreshSuggestions = (value: string, cursor: number | null) => {
+    if (!getSuggestions) return;
+    setSuggestions(getSuggestions(value, cursor ?? value.length));
+    setActiveIndex(0);
+  };
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    onSearchChange(event.target.value);
+    refreshSuggestions(event.target.value, event.target.selectionStart);
+  };
+
+  const acceptSuggestion = (index: number) => {
+    if (!suggestions) return;
+    const item = suggestions.items[index];
+    const before = searchTerm.slice(0, suggestions.start);
+    const after = searchTerm.slice(suggestions.end).trimStart();
+    // Keys like "tag:" still need a value, so only finished values get a trailing space
+    const separator = item.replacement.endsWith(':') ? '' : ' ';
+    const value = `${before}${item.replacement}${separator}${after}`;
+    const cursor = before.length + item.replacement.length + separator.length;
+
+    onSearchChange(value);
+    refreshSuggestions(value, cursor);
+    requestAnimationFrame(() => localInputRef.current?.setSelectionRange(cursor, cursor));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isSuggestionsOpen) return;
+    const count = suggestions.items.length;
+
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex(index => (index + 1) % count);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex(index => (index - 1 + count) % count);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      acceptSuggestion(activeIndex);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      setSuggestions(null);
+    }
+  };
+
+  const handleBlur = () => {
+    setSuggestions(null);
+    onBlur?.();
+  };
+
   return (
-    <div className="relative">
-      <label htmlFor="project-search" className="sr-only">
-        Search project name
-      </label>
-      <svg
-        xmlns="http://www.w3.org/2000/svg"
-        className="pointer-events-none absolute left-4 top-1/2 h-5 w-5 -translate-y-1/2 text-muted-foreground"
-        fill="none"
-        viewBox="0 0 24 24"
-        stroke="currentColor"
-        aria-hidden="true"
-      >
-        <path
-          strokeLinecap="round"
-          strokeLinejoin="round"
-          strokeWidth={2}
-          d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+    <div className="space-y-2">
+      <div className="relative">
+        <label htmlFor="project-search" className="sr-only">
+          {isFullText ? 'Search projects, notes, companies and artists' : 'Search project name'}
+        </label>
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className="pointer-events-none absolute left-4 top-1/2 h-5 w-5 -translate-y-1/2 text-muted-foreground"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          aria-hidden="true"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+          />
+        </svg>
+        <Input
+          id="project-search"
+          type="text"
+          placeholder={
+            getSuggestions
+              ? 'Search or filter, e.g. tag:animals width>40'
+              : isFullText
+                ? 'Search titles, notes, companies, artists:'
+                : 'Search project name:'
+          }
+          value={searchTerm}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onFocus={onFocus}
+          onBlur={handleBlur}
+          className={cn(
+            'h-12 w-full border-2 bg-background pl-12 pr-12 text-base transition-colors duration-200 focus:border-primary',
+            hasErrors && 'border-destructive focus:border-destructive'
+          )}
+          aria-describedby={hasErrors ? 'search-help search-errors' : 'search-help'}
+          aria-invalid={hasErrors}
+          autoComplete="off"
+          {...(getSuggestions && {
+            role: 'combobox',
+            'aria-autocomplete': 'list' as const,
+            'aria-expanded': isSuggestionsOpen,
+            'aria-controls': 'search-suggestions',
+            'aria-activedescendant': isSuggestionsOpen
+              ? `search-suggestion-${activeIndex}`
+              : undefined,
+          })}
+          ref={setRefs}
         />
-      </svg>
-      <Input
-        id="project-search"
-        type="text"
-        placeholder="Search project name:"
-        value={searchTerm}
-        onChange={e => onSearchChange(e.target.value)}
-        className="h-12 w-full border-2 bg-background pl-12 pr-12 text-base transition-colors duration-200 focus:border-primary"
-        aria-describedby="search-help"
-        ref={inputRef}
-      />
-      {isPending && (
-        <div className="absolute right-4 top-1/2 -translate-y-1/2">
-          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        {isPending && (
+          <div className="absolute right-4 top-1/2 -translate-y-1/2">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {isSuggestionsOpen && (
+          <ul
+            id="search-suggestions"
+            role="listbox"
+            className="absolute z-50 mt-1 max-h-64 w-full overflow-auto rounded-md border bg-popover p-1 text-sm text-popover-foreground shadow-md"
+          >
+            {suggestions.items.map((item, index) => (
+              <li
+                key={item.replacement}
+                id={`search-suggestion-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={cn(
+                  'cursor-pointer rounded-sm px-2 py-1.5',
+                  index === activeIndex && 'bg-accent text-accent-foreground'
+                )}
+                // Keep focus in the input while picking a suggestion
+                onMouseDown={event => event.preventDefault()}
+                onClick={() => acceptSuggestion(index)}
+              >
+                {item.label}
+              </li>
+            ))}
+          </ul>
+        )}
+        <div id="search-help" className="sr-only">
+          {isFullText
+            ? 'Search titles, general notes, progress notes, company and artist names'
+            : 'Search project names by title'}
+          {getSuggestions &&
+            '. Filter with terms like status:stash, tag:animals, -tag:animals, company:"Diamond Art Club", shape:square, width>40 or completed:2025'}
         </div>
-      )}
-      <div id="search-help" className="sr-only">
-        Search project names by title
       </div>
+      {hasErrors && (
+        <ul id="search-errors" role="alert" className="space-y-0.5 text-sm text-destructive">
+          {errors.map(error => (
+            <li key={`${error.start}-${error.message}`}>{error.message}</li>
+          ))}
+        </ul>
+      )}
+      {onSearchModeChange && (
+        <div className="flex items-center gap-1 text-sm" role="group" aria-label="Search in">
+          <span className="mr-1 text-muted-foreground">Search in:</span>
+          {SEARCH_MODE_OPTIONS.map(option => (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant={searchMode === option.value ? 'secondary' : 'ghost'}
+              className="h-7 px-2"
+              aria-pressed={searchMode === option.value}
+              onClick={() => onSearchModeChange(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
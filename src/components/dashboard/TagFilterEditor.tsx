@@ -0,0 +1,116 @@
+/**
+ * Tag filter editor for the dashboard filters
+ *
+ * Lets the user pick tags a project must have (any or all of them) and tags a project
+ * must not have. A tag can only be in one of the two lists at a time.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useMemo } from 'react';
+import MultipleSelector, { Option } from '@/components/ui/multiple-selector';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { useFilters, useFilterHelpers } from '@/contexts/FilterContext';
+import type { TagMatchMode } from '@/types/projectFilters';
+
+const MATCH_MODE_LABELS: Record<TagMatchMode, string> = {
+  any: 'Any',
+  all: 'All',
+};
+
+/**
+ * Map tag IDs to selector options, dropping IDs of tags that no longer exist
+ */
+const pickOptions = (ids: string[], options: Option[]): Option[] =>
+  ids
+    .map(id => options.find(option => option.value === id))
+    .filter((option): option is Option => !!option);
+
+const TagFilterEditor: React.FC = () => {
+  const { filters, tags } = useFilters();
+  const { updateTags, updateTagMatchMode, updateExcludedTags } = useFilterHelpers();
+  const { selectedTags, excludedTags, tagMatchMode } = filters;
+
+  const tagOptions = useMemo<Option[]>(
+    () => tags.map(tag => ({ label: tag.name, value: tag.id })),
+    [tags]
+  );
+
+  const includedOptions = useMemo(
+    () => pickOptions(selectedTags, tagOptions),
+    [selectedTags, tagOptions]
+  );
+  const excludedOptions = useMemo(
+    () => pickOptions(excludedTags, tagOptions),
+    [excludedTags, tagOptions]
+  );
+
+  const availableToInclude = useMemo(
+    () => tagOptions.filter(option => !excludedTags.includes(option.value)),
+    [tagOptions, excludedTags]
+  );
+  const availableToExclude = useMemo(
+    () => tagOptions.filter(option => !selectedTags.includes(option.value)),
+    [tagOptions, selectedTags]
+  );
+
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm font-medium">Tags</Label>
+          <div className="flex rounded-md border" role="group" aria-label="Tag match mode">
+            {(Object.keys(MATCH_MODE_LABELS) as TagMatchMode[]).map(mode => (
+              <Button
+                key={mode}
+                type="button"
+                variant={tagMatchMode === mode ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-7 rounded-none px-2 text-xs first:rounded-l-md last:rounded-r-md"
+                onClick={() => updateTagMatchMode(mode)}
+                aria-pressed={tagMatchMode === mode}
+              >
+                {MATCH_MODE_LABELS[mode]}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <MultipleSelector
+          value={includedOptions}
+          options={availableToInclude}
+          onChange={options => updateTags(options.map(option => option.value))}
+          placeholder={
+            tagMatchMode === 'all' ? 'Has all of these tags...' : 'Has any of these tags...'
+          }
+          hidePlaceholderWhenSelected
+          emptyIndicator={
+            <p className="text-center text-sm text-muted-foreground">No tags found</p>
+          }
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Exclude tags</Label>
+        <MultipleSelector
+          value={excludedOptions}
+          options={availableToExclude}
+          onChange={options => updateExcludedTags(options.map(option => option.value))}
+          placeholder="Has none of these tags..."
+          hidePlaceholderWhenSelected
+          emptyIndicator={
+            <p className="text-center text-sm text-muted-foreground">No tags found</p>
+          }
+          badgeClassName="bg-destructive/80 hover:bg-destructive"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default React.memo(TagFilterEditor);
@@ -1,8 +1,7 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { Grid, List } from 'lucide-react';
-
-type ViewType = 'grid' | 'list';
+import { Grid, Kanban, List } from 'lucide-react';
+import type { ViewType } from '@/types/project';
 
 interface ViewToggleProps {
   activeView: ViewType;
@@ -22,12 +21,20 @@ const ViewToggle = React.memo<ViewToggleProps>(({ activeView, onViewChange }) =>
       </Button>
       <Button
         variant={activeView === 'list' ? 'default' : 'outline'}
-        className={`rounded-l-none rounded-r-md px-3 py-2`}
+        className={`rounded-none px-3 py-2`}
         onClick={() => onViewChange('list')}
       >
         <List className="h-4 w-4" />
         <span className="sr-only md:not-sr-only md:ml-2">List</span>
       </Button>
+      <Button
+        variant={activeView === 'board' ? 'default' : 'outline'}
+        className={`rounded-l-none rounded-r-md px-3 py-2`}
+        onClick={() => onViewChange('board')}
+      >
+        <Kanban className="h-4 w-4" />
+        <span className="sr-only md:not-sr-only md:ml-2">Board</span>
+      </Button>
     </div>
   );
 });
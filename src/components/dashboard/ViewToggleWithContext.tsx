@@ -6,9 +6,9 @@
 
 import React from 'react';
 import { Button } from '@/components/ui/button';
-import { Grid, List } from 'lucide-react';
+import { Grid, Kanban, List } from 'lucide-react';
 import { useFilters, useFilterHelpers } from '@/contexts/FilterContext';
-import type { ViewType } from '@/contexts/UIContext';
+import type { ViewType } from '@/types/project';
 
 interface ViewToggleProps {
   activeView: ViewType;
@@ -29,12 +29,20 @@ const ViewToggle = React.memo<ViewToggleProps>(({ activeView, onViewChange }) =>
       </Button>
       <Button
         variant={activeView === 'list' ? 'default' : 'outline'}
-        className={`rounded-l-none rounded-r-md px-3 py-2`}
+        className={`rounded-none px-3 py-2`}
         onClick={() => onViewChange('list')}
       >
         <List className="h-4 w-4" />
         <span className="sr-only md:not-sr-only md:ml-2">List</span>
       </Button>
+      <Button
+        variant={activeView === 'board' ? 'default' : 'outline'}
+        className={`rounded-l-none rounded-r-md px-3 py-2`}
+        onClick={() => onViewChange('board')}
+      >
+        <Kanban className="h-4 w-4" />
+        <span className="sr-only md:not-sr-only md:ml-2">Board</span>
+      </Button>
     </div>
   );
 });
@@ -3,17 +3,30 @@ import { useVirtualizer } from '@tanstack/react-virtual';
 import { ProjectType } from '@/types/project';
 import ProjectCard from './ProjectCard';
 import ProjectListItem from './ProjectListItem';
+import type { ProjectSearchMatch } from '@/types/projectSearch';
 
 interface VirtualizedProjectsViewProps {
   projects: ProjectType[];
   viewType: 'grid' | 'list';
   onProjectClick: (id: string) => void;
+  /** Multi-select mode: clicks toggle selection through onProjectSelect instead of navigating */
+  isSelectionMode?: boolean;
+  isProjectSelected?: (id: string) => boolean;
+  onProjectSelect?: (project: ProjectType) => void;
+  /** Active search term and full-text matches, for highlighting */
+  searchTerm?: string;
+  searchMatches?: Record<string, ProjectSearchMatch>;
 }
 
 const VirtualizedProjectsView: React.FC<VirtualizedProjectsViewProps> = ({
   projects,
   viewType,
   onProjectClick,
+  isSelectionMode = false,
+  isProjectSelected,
+  onProjectSelect,
+  searchTerm,
+  searchMatches,
 }) => {
   const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
   const containerRef = React.useRef<HTMLDivElement>(null);
@@ -37,6 +50,14 @@ const VirtualizedProjectsView: React.FC<VirtualizedProjectsViewProps> = ({
     };
   }, []);
 
+  const handleProjectClick = (project: ProjectType) => {
+    if (isSelectionMode && onProjectSelect) {
+      onProjectSelect(project);
+    } else {
+      onProjectClick(project.id);
+    }
+  };
+
   // Calculate grid dimensions
   const getItemSize = () => {
     if (viewType === 'list') {
@@ -113,6 +134,11 @@ const VirtualizedProjectsView: React.FC<VirtualizedProjectsViewProps> = ({
                 <ProjectListItem
                   project={rowData as ProjectType}
                   onClick={() => onProjectClick((rowData as ProjectType).id)}
+                  isSelectionMode={isSelectionMode}
+                  isSelected={isProjectSelected?.((rowData as ProjectType).id)}
+                  onSelectToggle={() => onProjectSelect?.(rowData as ProjectType)}
+                  searchTerm={searchTerm}
+                  searchMatch={searchMatches?.[(rowData as ProjectType).id]}
                 />
               ) : (
                 // Grid view
@@ -121,7 +147,11 @@ const VirtualizedProjectsView: React.FC<VirtualizedProjectsViewProps> = ({
                     <ProjectCard
                       key={project.id}
                       project={project}
-                      onClick={() => onProjectClick(project.id)}
+                      onClick={() => handleProjectClick(project)}
+                      isSelectionMode={isSelectionMode}
+                      isSelected={isProjectSelected?.(project.id)}
+                      searchTerm={searchTerm}
+                      searchMatch={searchMatches?.[project.id]}
                     />
                   ))}
                 </div>
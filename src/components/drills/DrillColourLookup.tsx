@@ -0,0 +1,110 @@
+/**
+ * Look up a DMC colour: which kits use it and how many leftover bags of it are on hand
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Search } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useDrillColourUsage } from '@/hooks/queries/useDrills';
+import { getStatusLabel } from '@/utils/projectStatusUtils';
+import { normalizeDmcCode } from '@/utils/drills';
+import type { LeftoverDrill } from '@/types/drill';
+
+interface DrillColourLookupProps {
+  /** Colour as typed, kept in the page URL */
+  value: string;
+  onChange: (value: string) => void;
+  leftovers: LeftoverDrill[];
+}
+
+export const DrillColourLookup: React.FC<DrillColourLookupProps> = ({
+  value,
+  onChange,
+  leftovers,
+}) => {
+  const dmcCode = normalizeDmcCode(value);
+  const { data: usage = [], isLoading, isError } = useDrillColourUsage(dmcCode);
+
+  const leftoverBags = leftovers.find(leftover => leftover.dmcCode === dmcCode)?.bags ?? 0;
+  // Kits still waiting to be started first, since those are the ones the colour can help
+  const stashKits = usage.filter(entry => entry.status === 'stash');
+  const otherProjects = usage.filter(entry => entry.status !== 'stash');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Search className="h-5 w-5" />
+          Colour lookup
+        </CardTitle>
+        <CardDescription>Find the kits in your stash that use a DMC colour</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Input
+          value={value}
+          onChange={event => onChange(event.target.value)}
+          placeholder="DMC code, e.g. 310 or B5200"
+          aria-label="DMC code"
+        />
+
+        {dmcCode &&
+          (isLoading ? (
+            <p className="text-sm text-muted-foreground">Looking up DMC {dmcCode}...</p>
+          ) : isError ? (
+            <p className="text-sm text-destructive">Could not look up this colour.</p>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm">
+                <span className="font-medium">DMC {dmcCode}</span> ·{' '}
+                {leftoverBags > 0
+                  ? `${leftoverBags} leftover ${leftoverBags === 1 ? 'bag' : 'bags'} on hand`
+                  : 'no leftovers on hand'}
+              </p>
+
+              {usage.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  None of your project legends use this colour.
+                </p>
+              ) : (
+                [
+                  { title: `Stash kits (${stashKits.length})`, entries: stashKits },
+                  { title: `Other projects (${otherProjects.length})`, entries: otherProjects },
+                ]
+                  .filter(group => group.entries.length > 0)
+                  .map(group => (
+                    <section key={group.title} className="space-y-2">
+                      <h3 className="text-sm font-semibold">{group.title}</h3>
+                      <ul className="divide-y divide-border rounded-lg border">
+                        {group.entries.map(entry => (
+                          <li
+                            key={entry.projectId}
+                            className="flex items-center justify-between gap-4 px-3 py-2 text-sm"
+                          >
+                            <Link
+                              to={`/projects/${entry.projectId}`}
+                              className="truncate font-medium hover:underline"
+                            >
+                              {entry.projectTitle}
+                            </Link>
+                            <span className="flex shrink-0 items-center gap-3 text-muted-foreground">
+                              {entry.symbol && <span>Symbol {entry.symbol}</span>}
+                              <span>{entry.requiredCount.toLocaleString()} drills</span>
+                              <Badge variant="outline">{getStatusLabel(entry.status)}</Badge>
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </section>
+                  ))
+              )}
+            </div>
+          ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,161 @@
+/**
+ * Dialog for adding or editing one colour on a project's drill legend
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { DMC_CODE_MAX_LENGTH, DRILL_SYMBOL_MAX_LENGTH, normalizeDmcCode } from '@/utils/drills';
+import type { ProjectDrill, ProjectDrillFormData } from '@/types/drill';
+
+interface DrillFormState {
+  dmcCode: string;
+  symbol: string;
+  requiredCount: string;
+  bagsReceived: string;
+}
+
+const createFormState = (drill: ProjectDrill | null): DrillFormState => ({
+  dmcCode: drill?.dmcCode ?? '',
+  symbol: drill?.symbol ?? '',
+  requiredCount: drill ? String(drill.requiredCount) : '',
+  bagsReceived: drill ? String(drill.bagsReceived) : '',
+});
+
+const toCount = (value: string) => Math.max(0, Number.parseInt(value, 10) || 0);
+
+interface DrillFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Colour being edited, or null to add a new one */
+  drill: ProjectDrill | null;
+  /** DMC codes already on the legend, to stop a colour being added twice */
+  existingCodes: string[];
+  isSaving: boolean;
+  onSubmit: (data: ProjectDrillFormData) => void;
+}
+
+export const DrillFormDialog: React.FC<DrillFormDialogProps> = ({
+  open,
+  onOpenChange,
+  drill,
+  existingCodes,
+  isSaving,
+  onSubmit,
+}) => {
+  const [form, setForm] = useState<DrillFormState>(() => createFormState(drill));
+
+  useEffect(() => {
+    if (open) setForm(createFormState(drill));
+  }, [open, drill]);
+
+  const dmcCode = normalizeDmcCode(form.dmcCode);
+  const isDuplicate = dmcCode !== drill?.dmcCode && existingCodes.includes(dmcCode);
+
+  const setField = (field: keyof DrillFormState, value: string) =>
+    setForm(current => ({ ...current, [field]: value }));
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!dmcCode || isDuplicate) return;
+    onSubmit({
+      dmcCode,
+      symbol: form.symbol,
+      requiredCount: toCount(form.requiredCount),
+      bagsReceived: toCount(form.bagsReceived),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{drill ? 'Edit colour' : 'Add colour'}</DialogTitle>
+            <DialogDescription>
+              Copy the colour from the legend printed on your canvas.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="drill-dmc-code">DMC code</Label>
+              <Input
+                id="drill-dmc-code"
+                value={form.dmcCode}
+                onChange={event => setField('dmcCode', event.target.value)}
+                maxLength={DMC_CODE_MAX_LENGTH + 4}
+                placeholder="310"
+                required
+                disabled={isSaving}
+                aria-invalid={isDuplicate}
+              />
+              {isDuplicate && (
+                <p className="text-xs text-destructive">This colour is already on the legend.</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="drill-symbol">Symbol</Label>
+              <Input
+                id="drill-symbol"
+                value={form.symbol}
+                onChange={event => setField('symbol', event.target.value)}
+                maxLength={DRILL_SYMBOL_MAX_LENGTH}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="drill-required">Drills needed</Label>
+              <Input
+                id="drill-required"
+                type="number"
+                min={0}
+                inputMode="numeric"
+                value={form.requiredCount}
+                onChange={event => setField('requiredCount', event.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="drill-bags">Bags received</Label>
+              <Input
+                id="drill-bags"
+                type="number"
+                min={0}
+                inputMode="numeric"
+                value={form.bagsReceived}
+                onChange={event => setField('bagsReceived', event.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !dmcCode || isDuplicate}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,140 @@
+/**
+ * The user's leftover drills by DMC colour, counted in bags, with manual adjustments
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useState } from 'react';
+import { Minus, Package, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useAddLeftoverDrill, useUpdateLeftoverDrill } from '@/hooks/mutations/useDrillMutations';
+import { DMC_CODE_MAX_LENGTH, normalizeDmcCode } from '@/utils/drills';
+import type { LeftoverDrill } from '@/types/drill';
+
+interface LeftoverDrillsCardProps {
+  leftovers: LeftoverDrill[];
+  isLoading: boolean;
+  onSelectColour: (dmcCode: string) => void;
+}
+
+export const LeftoverDrillsCard: React.FC<LeftoverDrillsCardProps> = ({
+  leftovers,
+  isLoading,
+  onSelectColour,
+}) => {
+  const addLeftover = useAddLeftoverDrill();
+  const updateLeftover = useUpdateLeftoverDrill();
+  const [newCode, setNewCode] = useState('');
+  const [newBags, setNewBags] = useState('1');
+
+  const totalBags = leftovers.reduce((total, leftover) => total + leftover.bags, 0);
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+    const dmcCode = normalizeDmcCode(newCode);
+    const bags = Number.parseInt(newBags, 10);
+    if (!dmcCode || !(bags > 0)) return;
+    addLeftover.mutate(
+      { dmcCode, bags },
+      {
+        onSuccess: () => {
+          setNewCode('');
+          setNewBags('1');
+        },
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Package className="h-5 w-5" />
+          Leftover drills
+        </CardTitle>
+        <CardDescription>
+          {leftovers.length > 0
+            ? `${totalBags} ${totalBags === 1 ? 'bag' : 'bags'} in ${leftovers.length} ${leftovers.length === 1 ? 'colour' : 'colours'}. Bags received for completed projects are added automatically.`
+            : 'Bags received for completed projects are added here automatically.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <Input
+            value={newCode}
+            onChange={event => setNewCode(event.target.value)}
+            placeholder="DMC code"
+            aria-label="DMC code"
+            maxLength={DMC_CODE_MAX_LENGTH + 4}
+            disabled={addLeftover.isPending}
+          />
+          <Input
+            type="number"
+            min={1}
+            inputMode="numeric"
+            value={newBags}
+            onChange={event => setNewBags(event.target.value)}
+            aria-label="Bags"
+            className="w-24"
+            disabled={addLeftover.isPending}
+          />
+          <Button type="submit" disabled={addLeftover.isPending || !normalizeDmcCode(newCode)}>
+            Add
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading leftovers...</p>
+        ) : leftovers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No leftovers yet. Add a drill legend to your projects to start collecting them.
+          </p>
+        ) : (
+          <ul className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+            {leftovers.map(leftover => (
+              <li
+                key={leftover.id}
+                className="flex items-center justify-between gap-2 rounded-lg border px-3 py-2"
+              >
+                <button
+                  type="button"
+                  className="font-medium hover:underline"
+                  onClick={() => onSelectColour(leftover.dmcCode)}
+                >
+                  DMC {leftover.dmcCode}
+                </button>
+                <span className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    aria-label={`One less bag of ${leftover.dmcCode}`}
+                    onClick={() => updateLeftover.mutate({ leftover, bags: leftover.bags - 1 })}
+                    disabled={updateLeftover.isPending}
+                  >
+                    <Minus className="h-4 w-4" />
+                  </Button>
+                  <span className="w-16 text-center text-sm">
+                    {leftover.bags} {leftover.bags === 1 ? 'bag' : 'bags'}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    aria-label={`One more bag of ${leftover.dmcCode}`}
+                    onClick={() => updateLeftover.mutate({ leftover, bags: leftover.bags + 1 })}
+                    disabled={updateLeftover.isPending}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,196 @@
+/**
+ * A project's drill legend: each DMC colour with its symbol, drills needed and bags
+ * received, with CSV import
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Palette, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useProjectDrills } from '@/hooks/queries/useDrills';
+import {
+  useDeleteProjectDrill,
+  useImportDrillLegend,
+  useSaveProjectDrill,
+} from '@/hooks/mutations/useDrillMutations';
+import { parseDrillLegendCsv, summarizeDrillLegend } from '@/utils/drills';
+import { DrillFormDialog } from './DrillFormDialog';
+import type { ProjectDrill, ProjectDrillFormData } from '@/types/drill';
+
+interface ProjectDrillLegendProps {
+  projectId: string;
+}
+
+export const ProjectDrillLegend: React.FC<ProjectDrillLegendProps> = ({ projectId }) => {
+  const { toast } = useToast();
+  const { data: drills = [], isLoading } = useProjectDrills(projectId);
+  const saveDrill = useSaveProjectDrill(projectId);
+  const deleteDrill = useDeleteProjectDrill();
+  const importLegend = useImportDrillLegend(projectId);
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingDrill, setEditingDrill] = useState<ProjectDrill | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const summary = useMemo(() => summarizeDrillLegend(drills), [drills]);
+
+  const openForm = (drill: ProjectDrill | null) => {
+    setEditingDrill(drill);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = (data: ProjectDrillFormData) =>
+    saveDrill.mutate({ drill: editingDrill, data }, { onSuccess: () => setIsFormOpen(false) });
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const { rows, skipped } = parseDrillLegendCsv(await file.text());
+    if (rows.length === 0) {
+      toast({
+        title: 'Nothing to import',
+        description: 'No colours were found. The CSV needs a header row with a DMC column.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (skipped > 0) {
+      toast({
+        title: 'Some rows were skipped',
+        description: `${skipped} ${skipped === 1 ? 'row has' : 'rows have'} no DMC code.`,
+      });
+    }
+    importLegend.mutate({ existing: drills, rows });
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Palette className="h-5 w-5" />
+            Drill Legend
+          </CardTitle>
+          <CardDescription>
+            {drills.length > 0
+              ? `${summary.colourCount} colours · ${summary.requiredCount.toLocaleString()} drills · ${summary.bagsReceived} bags received`
+              : 'DMC colours used on this canvas'}
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importLegend.isPending}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            {importLegend.isPending ? 'Importing...' : 'Import CSV'}
+          </Button>
+          <Button size="sm" onClick={() => openForm(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading legend...</p>
+        ) : drills.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No colours yet. Add them from the legend on your canvas, or import a CSV with DMC,
+            Symbol, Count and Bags columns.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>DMC</TableHead>
+                <TableHead>Symbol</TableHead>
+                <TableHead className="text-right">Drills</TableHead>
+                <TableHead className="text-right">Bags</TableHead>
+                <TableHead className="sr-only">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {drills.map(drill => (
+                <TableRow key={drill.id}>
+                  <TableCell className="font-medium">
+                    <Link
+                      to={`/drills?colour=${encodeURIComponent(drill.dmcCode)}`}
+                      className="hover:underline"
+                    >
+                      {drill.dmcCode}
+                    </Link>
+                    {drill.addedToInventory && (
+                      <Badge variant="secondary" className="ml-2">
+                        In leftovers
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{drill.symbol ?? '—'}</TableCell>
+                  <TableCell className="text-right">
+                    {drill.requiredCount.toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right">{drill.bagsReceived}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      aria-label={`Edit ${drill.dmcCode}`}
+                      onClick={() => openForm(drill)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      aria-label={`Remove ${drill.dmcCode}`}
+                      onClick={() => deleteDrill.mutate(drill)}
+                      disabled={deleteDrill.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <DrillFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        drill={editingDrill}
+        existingCodes={drills.map(drill => drill.dmcCode)}
+        isSaving={saveDrill.isPending}
+        onSubmit={handleSubmit}
+      />
+    </Card>
+  );
+};
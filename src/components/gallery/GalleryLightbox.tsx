@@ -0,0 +1,141 @@
+/**
+ * Full-size lightbox for the gallery, in the same dialog as ImageGallery, stepping
+ * through images with the arrow keys or buttons
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { ChevronLeft, ChevronRight, ExternalLink } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { VisuallyHidden } from '@/components/ui/visually-hidden';
+import { ImageErrorBoundary } from '@/components/error/ComponentErrorBoundaries';
+import { ModalImage } from '@/components/ui/OptimizedImage';
+import { stepLightboxIndex } from '@/utils/gallery';
+import type { GalleryImage } from '@/types/gallery';
+
+interface GalleryLightboxProps {
+  images: GalleryImage[];
+  /** Index of the open image, or null when closed */
+  index: number | null;
+  onIndexChange: (index: number | null) => void;
+}
+
+export const GalleryLightbox: React.FC<GalleryLightboxProps> = ({
+  images,
+  index,
+  onIndexChange,
+}) => {
+  const image = index !== null ? images[index] : undefined;
+  const hasSiblings = images.length > 1;
+
+  const step = (direction: 1 | -1) => {
+    if (index !== null) {
+      onIndexChange(stepLightboxIndex(index, direction, images.length));
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    switch (event.key) {
+      case 'ArrowRight':
+        step(1);
+        break;
+      case 'ArrowLeft':
+        step(-1);
+        break;
+      case 'Home':
+        onIndexChange(0);
+        break;
+      case 'End':
+        onIndexChange(images.length - 1);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  return (
+    <Dialog open={!!image} onOpenChange={open => !open && onIndexChange(null)}>
+      <DialogContent
+        className="image-gallery-dialog max-w-4xl border-0 bg-transparent p-0 shadow-none"
+        onKeyDown={handleKeyDown}
+      >
+        <VisuallyHidden>
+          <DialogHeader>
+            <DialogTitle>{image?.projectTitle ?? 'Gallery'}</DialogTitle>
+            <DialogDescription>
+              Use the left and right arrow keys to move between images. Press Escape to close.
+            </DialogDescription>
+          </DialogHeader>
+        </VisuallyHidden>
+
+        {image && (
+          <div className="w-full rounded-lg bg-black/90 p-2">
+            <div className="relative">
+              <ImageErrorBoundary alt={image.projectTitle}>
+                <ModalImage
+                  key={image.id}
+                  record={image.record}
+                  filename={image.filename}
+                  alt={image.projectTitle}
+                />
+              </ImageErrorBoundary>
+
+              {hasSiblings && (
+                <>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full bg-background/80"
+                    onClick={() => step(-1)}
+                  >
+                    <ChevronLeft className="h-5 w-5" />
+                    <span className="sr-only">Previous image</span>
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full bg-background/80"
+                    onClick={() => step(1)}
+                  >
+                    <ChevronRight className="h-5 w-5" />
+                    <span className="sr-only">Next image</span>
+                  </Button>
+                </>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between gap-4 px-2 pb-1 pt-3 text-white">
+              <div className="min-w-0">
+                <p className="truncate font-medium">{image.projectTitle}</p>
+                <p className="text-xs text-white/70">
+                  {image.kind === 'progress'
+                    ? `Latest progress picture${image.date ? ` · ${format(parseISO(image.date), 'MMM d, yyyy')}` : ''}`
+                    : 'Project image'}
+                  {hasSiblings && ` · ${index! + 1} of ${images.length}`}
+                </p>
+              </div>
+              <Link
+                to={`/projects/${image.projectId}`}
+                className="flex shrink-0 items-center gap-1 text-sm text-white/80 hover:text-white"
+              >
+                View project
+                <ExternalLink className="h-3.5 w-3.5" />
+              </Link>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,73 @@
+/**
+ * Masonry grid of gallery images, sized to the width of its columns
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { OptimizedImage } from '@/components/ui/OptimizedImage';
+import { getGalleryThumbnailSize } from '@/utils/gallery';
+import type { GalleryImage } from '@/types/gallery';
+
+const COLUMN_GAP = 16;
+const MIN_COLUMN_WIDTH = 220;
+const MAX_COLUMNS = 4;
+
+interface GalleryMasonryProps {
+  images: GalleryImage[];
+  onSelect: (index: number) => void;
+}
+
+export const GalleryMasonry: React.FC<GalleryMasonryProps> = ({ images, onSelect }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    setWidth(element.clientWidth);
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const columns = Math.min(
+    MAX_COLUMNS,
+    Math.max(2, Math.floor((width + COLUMN_GAP) / (MIN_COLUMN_WIDTH + COLUMN_GAP)))
+  );
+  const columnWidth = (width - COLUMN_GAP * (columns - 1)) / columns;
+  const thumbnailSize = getGalleryThumbnailSize(columnWidth, window.devicePixelRatio || 1);
+
+  return (
+    <div ref={containerRef} style={{ columnCount: columns, columnGap: COLUMN_GAP }}>
+      {width > 0 &&
+        images.map((image, index) => (
+          <button
+            key={image.id}
+            type="button"
+            onClick={() => onSelect(index)}
+            className="group relative mb-4 block w-full break-inside-avoid overflow-hidden rounded-lg border bg-muted/30 text-left focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            <OptimizedImage
+              record={image.record}
+              filename={image.filename}
+              alt={image.projectTitle}
+              size={thumbnailSize}
+              context="gallery"
+              className="min-h-24 w-full transition-transform duration-300 group-hover:scale-105"
+            />
+            <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/70 to-transparent p-2 text-white opacity-0 transition-opacity group-hover:opacity-100 group-focus-visible:opacity-100">
+              <p className="truncate text-sm font-medium">{image.projectTitle}</p>
+              {image.kind === 'progress' && (
+                <p className="text-xs opacity-80">
+                  Progress{image.date ? ` · ${format(parseISO(image.date), 'MMM d, yyyy')}` : ''}
+                </p>
+              )}
+            </div>
+          </button>
+        ))}
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+import React, { useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Archive, UploadCloud, Check, AlertCircle, ArrowRight } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useAccountBackup } from '@/hooks/useAccountBackup';
+import { countBackupRecords } from '@/utils/accountBackup';
+import type { AccountBackup, BackupProgress } from '@/types/backup';
+
+const PHASE_LABELS: Record<BackupProgress['phase'], string> = {
+  companies: 'Restoring companies',
+  artists: 'Restoring artists',
+  tags: 'Restoring tags',
+  orders: 'Restoring orders',
+  projects: 'Restoring projects',
+  projectTags: 'Linking tags',
+  progressNotes: 'Restoring progress notes',
+  workSessions: 'Restoring work sessions',
+  projectDrills: 'Restoring drill legends',
+  leftoverDrills: 'Restoring leftover drills',
+  claims: 'Restoring claims',
+  randomizerSpins: 'Restoring randomizer history',
+  images: 'Processing images',
+  done: 'Finishing up',
+};
+
+const formatExportDate = (value: string): string => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : format(date, 'PPP p');
+};
+
+/**
+ * Restore flow for full-account JSON backups on the Import page
+ */
+const RestoreBackupCard = () => {
+  const [backup, setBackup] = useState<AccountBackup | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [includeImages, setIncludeImages] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const { readBackupFile, restoreBackup, restoring, progress, restoreSummary } = useAccountBackup();
+
+  const counts = backup ? countBackupRecords(backup.data) : null;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0] || null;
+    setBackup(null);
+    setFileName(selectedFile?.name ?? null);
+    if (!selectedFile) return;
+
+    const parsed = await readBackupFile(selectedFile);
+    setBackup(parsed);
+    setIncludeImages(parsed?.includesImages ?? false);
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+
+    const success = await restoreBackup(backup, { includeImages });
+    if (success) {
+      setBackup(null);
+      setFileName(null);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const progressPercent =
+    progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Archive className="mr-2 h-5 w-5 text-primary" />
+          Restore from Backup
+        </CardTitle>
+        <CardDescription>
+          Restore a full account backup created from your profile settings. Projects, progress
+          notes, work sessions, drill legends, claims, orders, tags, companies, artists and
+          randomizer history are added to your current account. Companies, artists and tags that
+          already exist with the same name are reused instead of duplicated, and leftover drills are
+          added to the bags you already have.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <input
+              type="file"
+              accept=".json,application/json"
+              id="backupFile"
+              className="hidden"
+              onChange={handleFileChange}
+              ref={fileInputRef}
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={restoring}
+            >
+              <UploadCloud className="mr-2 h-4 w-4" />
+              Select Backup File
+            </Button>
+
+            <Button onClick={handleRestore} disabled={!backup || restoring}>
+              <Archive className="mr-2 h-4 w-4" />
+              Restore Backup
+            </Button>
+          </div>
+
+          {fileName && !backup && !restoring && (
+            <p className="text-sm text-muted-foreground">
+              Selected file: <span className="font-medium">{fileName}</span>
+            </p>
+          )}
+
+          {backup && counts && (
+            <div className="space-y-3 rounded-md bg-muted p-3 text-sm">
+              <p>
+                Backup from{' '}
+                <span className="font-medium">{formatExportDate(backup.exportedAt)}</span>
+                {backup.source.username && (
+                  <>
+                    {' '}
+                    for <span className="font-medium">{backup.source.username}</span>
+                  </>
+                )}
+              </p>
+              <ul className="grid grid-cols-2 gap-1 text-muted-foreground sm:grid-cols-3">
+                <li>{counts.projects} projects</li>
+                <li>{counts.progressNotes} progress notes</li>
+                <li>{counts.tags} tags</li>
+                <li>{counts.companies} companies</li>
+                <li>{counts.artists} artists</li>
+                <li>{counts.orders} orders</li>
+                <li>{counts.workSessions} work sessions</li>
+                <li>{counts.projectDrills} legend colours</li>
+                <li>{counts.leftoverDrills} leftover colours</li>
+                <li>{counts.claims} claims</li>
+                <li>{counts.randomizerSpins} randomizer spins</li>
+              </ul>
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id="restore-include-images"
+                  checked={includeImages}
+                  onCheckedChange={checked => setIncludeImages(Boolean(checked))}
+                  disabled={!backup.includesImages || restoring}
+                />
+                <Label htmlFor="restore-include-images" className="text-sm font-normal">
+                  {backup.includesImages
+                    ? 'Restore project and progress note images'
+                    : 'This backup does not contain images'}
+                </Label>
+              </div>
+            </div>
+          )}
+
+          {restoring && (
+            <div className="space-y-2">
+              <Progress value={progressPercent} className="h-2 w-full" />
+              <p className="text-sm text-muted-foreground">
+                {progress ? PHASE_LABELS[progress.phase] : 'Starting restore'}...{' '}
+                {progress && progress.total > 1 && `${progress.completed}/${progress.total}`}
+              </p>
+            </div>
+          )}
+
+          {restoreSummary && !restoring && (
+            <Alert
+              variant="default"
+              className="border-green-200 bg-green-50 shadow-sm dark:border-green-800 dark:bg-green-950"
+            >
+              <Check className="h-4 w-4 text-green-600 dark:text-green-400" />
+              <AlertTitle className="text-green-600 dark:text-green-400">
+                Backup restored
+              </AlertTitle>
+              <AlertDescription className="space-y-2">
+                <p>
+                  Created {restoreSummary.created.projects} projects,{' '}
+                  {restoreSummary.created.progressNotes} progress notes and{' '}
+                  {restoreSummary.imagesRestored} images. Reused {restoreSummary.reused.companies}{' '}
+                  companies, {restoreSummary.reused.artists} artists and{' '}
+                  {restoreSummary.reused.tags} tags that already existed.
+                </p>
+                <Button variant="default" size="sm" asChild className="mt-2">
+                  <Link to="/dashboard" className="flex items-center">
+                    Go to your dashboard <ArrowRight className="ml-2 h-4 w-4" />
+                  </Link>
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {restoreSummary && restoreSummary.errors.length > 0 && !restoring && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Some records could not be restored</AlertTitle>
+              <AlertDescription>
+                <ul className="mt-2 list-disc space-y-1 pl-5">
+                  {restoreSummary.errors.slice(0, 5).map((error, index) => (
+                    <li key={index} className="text-sm">
+                      {error}
+                    </li>
+                  ))}
+                  {restoreSummary.errors.length > 5 && (
+                    <li className="text-sm">
+                      ...and {restoreSummary.errors.length - 5} more errors
+                    </li>
+                  )}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RestoreBackupCard;
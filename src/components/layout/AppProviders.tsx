@@ -7,7 +7,9 @@ import { Toaster } from '@/components/ui/toaster';
 
 import { AuthProvider } from '@/contexts/AuthContext/AuthProvider';
 import { MetadataProvider } from '@/contexts/MetadataContext';
+import { OfflineQueueProvider } from '@/contexts/OfflineQueueContext';
 import FeedbackDialogProvider from '@/components/FeedbackDialogProvider';
+import { QueryCachePersistence } from './QueryCachePersistence';
 
 import { queryClient } from '@/lib/queryClient';
 import { setupAutomaticCacheCleaning } from '@/utils/cacheValidation';
@@ -45,13 +47,17 @@ export const AppProviders: React.FC<AppProvidersProps> = ({ children }) => {
         <QueryClientProvider client={queryClient}>
           <CacheCleanupHandler />
           <AuthProvider>
-            <MetadataProvider>
-              <FeedbackDialogProvider />
-              <TooltipProvider>
-                {children}
-                <Toaster />
-              </TooltipProvider>
-            </MetadataProvider>
+            <QueryCachePersistence>
+              <OfflineQueueProvider>
+                <MetadataProvider>
+                  <FeedbackDialogProvider />
+                  <TooltipProvider>
+                    {children}
+                    <Toaster />
+                  </TooltipProvider>
+                </MetadataProvider>
+              </OfflineQueueProvider>
+            </QueryCachePersistence>
           </AuthProvider>
         </QueryClientProvider>
       </BrowserRouter>
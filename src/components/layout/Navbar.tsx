@@ -9,6 +9,11 @@ import {
   LogOut,
   MessageSquare,
   Shuffle,
+  BarChart3,
+  Package,
+  Palette,
+  CalendarDays,
+  Images,
 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { ThemeToggle } from '@/components/ui/theme-toggle';
@@ -182,6 +187,61 @@ const Navbar = memo(({ isAuthenticated = false }: NavbarProps) => {
                       Randomizer
                     </Link>
                   </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link
+                      to="/stats"
+                      className="flex items-center"
+                      aria-current={location.pathname === '/stats' ? 'page' : undefined}
+                      onClick={() => handleNavClick('/stats', 'Stats')}
+                    >
+                      <BarChart3 className="mr-2 h-4 w-4" />
+                      Stats
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link
+                      to="/orders"
+                      className="flex items-center"
+                      aria-current={location.pathname === '/orders' ? 'page' : undefined}
+                      onClick={() => handleNavClick('/orders', 'Orders')}
+                    >
+                      <Package className="mr-2 h-4 w-4" />
+                      Orders
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link
+                      to="/drills"
+                      className="flex items-center"
+                      aria-current={location.pathname === '/drills' ? 'page' : undefined}
+                      onClick={() => handleNavClick('/drills', 'Drills')}
+                    >
+                      <Palette className="mr-2 h-4 w-4" />
+                      Drills
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link
+                      to="/calendar"
+                      className="flex items-center"
+                      aria-current={location.pathname === '/calendar' ? 'page' : undefined}
+                      onClick={() => handleNavClick('/calendar', 'Calendar')}
+                    >
+                      <CalendarDays className="mr-2 h-4 w-4" />
+                      Calendar
+                    </Link>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link
+                      to="/gallery"
+                      className="flex items-center"
+                      aria-current={location.pathname === '/gallery' ? 'page' : undefined}
+                      onClick={() => handleNavClick('/gallery', 'Gallery')}
+                    >
+                      <Images className="mr-2 h-4 w-4" />
+                      Gallery
+                    </Link>
+                  </DropdownMenuItem>
                   <DropdownMenuItem asChild>
                     <Link
                       to="/profile"
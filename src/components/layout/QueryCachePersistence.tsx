@@ -0,0 +1,72 @@
+/**
+ * Restores the signed-in user's saved query cache before the app renders, keeps it saved
+ * while they use the app, and removes it when they sign out
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  clearPersistedQueryCache,
+  restoreQueryCache,
+  startQueryCachePersistence,
+} from '@/lib/queryPersistence';
+
+// Don't hold the app back for long if IndexedDB is slow to open
+const RESTORE_TIMEOUT = 3000;
+
+interface QueryCachePersistenceProps {
+  children: React.ReactNode;
+}
+
+export const QueryCachePersistence: React.FC<QueryCachePersistenceProps> = ({ children }) => {
+  const queryClient = useQueryClient();
+  const { user, initialCheckComplete } = useAuth();
+  const userId = user?.id ?? null;
+  const [isRestored, setIsRestored] = useState(false);
+  const previousUserIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!initialCheckComplete) return;
+
+    const previousUserId = previousUserIdRef.current;
+    previousUserIdRef.current = userId;
+
+    // A different user's data must never show, so drop everything from the last session
+    if (previousUserId && previousUserId !== userId) {
+      queryClient.clear();
+      if (!userId) {
+        void clearPersistedQueryCache(previousUserId);
+      }
+    }
+
+    if (!userId) {
+      setIsRestored(true);
+      return;
+    }
+
+    let cancelled = false;
+    let stopPersistence: (() => void) | null = null;
+    const timeout = setTimeout(() => setIsRestored(true), RESTORE_TIMEOUT);
+
+    void restoreQueryCache(queryClient, userId).then(() => {
+      if (cancelled) return;
+      clearTimeout(timeout);
+      setIsRestored(true);
+      stopPersistence = startQueryCachePersistence(queryClient, userId);
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      stopPersistence?.();
+    };
+  }, [queryClient, userId, initialCheckComplete]);
+
+  // Only the first restore holds rendering; later sign-ins restore alongside the app
+  if (!isRestored) return null;
+
+  return <>{children}</>;
+};
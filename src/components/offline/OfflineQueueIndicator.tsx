@@ -0,0 +1,167 @@
+/**
+ * Connection and sync indicator for the offline write queue, with a review dialog for
+ * queued writes and for resolving ones that couldn't be replayed
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, CloudUpload, Loader2, RefreshCw, WifiOff } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useOfflineQueue } from '@/contexts/OfflineQueueContext';
+import { describeQueuedWrite } from '@/utils/offlineQueue';
+import type { QueuedWrite } from '@/types/offlineQueue';
+
+const formatTime = (timestamp: string) => format(parseISO(timestamp), 'MMM d, h:mm a');
+
+const getWriteProblem = (write: QueuedWrite): string | undefined => {
+  if (write.status === 'conflict') {
+    return write.serverUpdated
+      ? `The project was changed elsewhere (${formatTime(write.serverUpdated.replace(' ', 'T'))}) after you made this change.`
+      : 'The project was changed elsewhere after you made this change.';
+  }
+  if (write.status === 'failed') {
+    return write.error ?? 'The server rejected this change.';
+  }
+  return undefined;
+};
+
+export const OfflineQueueIndicator: React.FC = () => {
+  const {
+    isOnline,
+    writes,
+    pendingCount,
+    attentionCount,
+    isSyncing,
+    syncNow,
+    keepQueuedWrite,
+    discardQueuedWrite,
+  } = useOfflineQueue();
+  const [open, setOpen] = useState(false);
+
+  if (isOnline && writes.length === 0) return null;
+
+  const label = !isOnline
+    ? pendingCount > 0
+      ? `Offline · ${pendingCount} waiting to sync`
+      : "You're offline"
+    : isSyncing
+      ? `Syncing ${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'}...`
+      : attentionCount > 0
+        ? `${attentionCount} ${attentionCount === 1 ? 'change needs' : 'changes need'} attention`
+        : `${pendingCount} waiting to sync`;
+
+  const Icon = !isOnline
+    ? WifiOff
+    : isSyncing
+      ? Loader2
+      : attentionCount > 0
+        ? AlertTriangle
+        : CloudUpload;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="fixed bottom-4 left-4 z-40 inline-flex items-center gap-2 rounded-full border bg-background/95 px-4 py-2 text-sm font-medium shadow-lg backdrop-blur-sm transition-colors hover:bg-accent focus:outline-none focus:ring-2 focus:ring-primary"
+        aria-live="polite"
+      >
+        <Icon
+          className={`h-4 w-4 ${isSyncing && isOnline ? 'animate-spin' : ''} ${
+            attentionCount > 0 && isOnline && !isSyncing ? 'text-destructive' : ''
+          }`}
+          aria-hidden="true"
+        />
+        {label}
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-h-[85vh] overflow-y-auto sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Offline changes</DialogTitle>
+            <DialogDescription>
+              {isOnline
+                ? 'Changes made without a connection are sent in the order you made them.'
+                : "You're offline. Changes are saved on this device and sync when you reconnect."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {writes.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              Nothing is waiting to sync.
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {writes.map(write => {
+                const problem = getWriteProblem(write);
+                return (
+                  <li key={write.sequence} className="space-y-2 py-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="truncate text-sm font-medium">
+                          {write.projectTitle ?? 'Project'}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {describeQueuedWrite(write)} · {formatTime(write.createdAt)}
+                        </p>
+                      </div>
+                      <Badge
+                        variant={write.status === 'pending' ? 'secondary' : 'destructive'}
+                        className="shrink-0"
+                      >
+                        {write.status === 'pending'
+                          ? 'Pending'
+                          : write.status === 'conflict'
+                            ? 'Conflict'
+                            : 'Failed'}
+                      </Badge>
+                    </div>
+                    {problem && <p className="text-xs text-destructive">{problem}</p>}
+                    <div className="flex gap-2">
+                      {write.status !== 'pending' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!isOnline || isSyncing}
+                          onClick={() => keepQueuedWrite(write.sequence)}
+                        >
+                          {write.status === 'conflict' ? 'Keep my change' : 'Retry'}
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-destructive"
+                        disabled={isSyncing}
+                        onClick={() => discardQueuedWrite(write.sequence)}
+                      >
+                        Discard
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {isOnline && pendingCount > 0 && (
+            <Button onClick={() => syncNow()} disabled={isSyncing}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+              {isSyncing ? 'Syncing...' : 'Sync now'}
+            </Button>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
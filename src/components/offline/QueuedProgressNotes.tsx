@@ -0,0 +1,75 @@
+/**
+ * Progress notes added offline, shown above the synced notes until they're replayed
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useEffect, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CloudUpload } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { useProjectQueuedWrites } from '@/contexts/OfflineQueueContext';
+import { stripHtml } from '@/utils/projectSearch';
+import type { QueuedProgressNote, QueuedWrite } from '@/types/offlineQueue';
+
+type QueuedNoteWrite = QueuedWrite & { payload: QueuedProgressNote };
+
+interface QueuedProgressNotesProps {
+  projectId: string;
+}
+
+export const QueuedProgressNotes: React.FC<QueuedProgressNotesProps> = ({ projectId }) => {
+  const writes = useProjectQueuedWrites(projectId);
+  const notes = useMemo(
+    () =>
+      writes.filter((write): write is QueuedNoteWrite => write.payload.kind === 'progress-note'),
+    [writes]
+  );
+
+  const imageUrls = useMemo(
+    () =>
+      new Map(
+        notes
+          .filter(note => note.payload.imageFile)
+          .map(note => [note.sequence, URL.createObjectURL(note.payload.imageFile as File)])
+      ),
+    [notes]
+  );
+
+  useEffect(() => () => imageUrls.forEach(url => URL.revokeObjectURL(url)), [imageUrls]);
+
+  if (notes.length === 0) return null;
+
+  return (
+    <ul className="space-y-3">
+      {notes.map(note => (
+        <li key={note.sequence} className="space-y-2 rounded-lg border border-dashed p-4">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm font-medium">
+              {note.payload.data.date
+                ? format(parseISO(note.payload.data.date), 'MMMM d, yyyy')
+                : 'No date'}
+            </span>
+            <Badge
+              variant={note.status === 'pending' ? 'secondary' : 'destructive'}
+              className="gap-1"
+            >
+              <CloudUpload className="h-3 w-3" aria-hidden="true" />
+              {note.status === 'pending' ? 'Waiting to sync' : 'Not synced'}
+            </Badge>
+          </div>
+          {note.payload.data.content && (
+            <p className="whitespace-pre-line text-sm">{stripHtml(note.payload.data.content)}</p>
+          )}
+          {imageUrls.has(note.sequence) && (
+            <img
+              src={imageUrls.get(note.sequence)}
+              alt="Progress picture waiting to sync"
+              className="max-h-48 rounded-md object-cover"
+            />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,132 @@
+/**
+ * One order on the orders page: its details, linked kits and receive/edit/delete actions
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { PackageCheck, Pencil, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { getStatusColor, getStatusLabel } from '@/utils/projectStatusUtils';
+import { getOrderState, getOrderTitle, getProjectsToReceive } from '@/utils/orders';
+import type { Order, OrderState } from '@/types/order';
+
+const STATE_BADGES: Record<OrderState, { label: string; className: string }> = {
+  open: {
+    label: 'Open',
+    className:
+      'border-transparent bg-flamingo-100 text-flamingo-800 dark:bg-flamingo-900/30 dark:text-flamingo-300',
+  },
+  overdue: {
+    label: 'Overdue',
+    className: 'border-transparent bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  },
+  received: {
+    label: 'Received',
+    className:
+      'border-transparent bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300',
+  },
+};
+
+const formatOrderDate = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+interface OrderCardProps {
+  order: Order;
+  /** Current date as YYYY-MM-DD in the user's timezone */
+  today: string;
+  isReceiving: boolean;
+  onMarkReceived: (order: Order) => void;
+  onEdit: (order: Order) => void;
+  onDelete: (order: Order) => void;
+}
+
+export const OrderCard: React.FC<OrderCardProps> = ({
+  order,
+  today,
+  isReceiving,
+  onMarkReceived,
+  onEdit,
+  onDelete,
+}) => {
+  const state = getOrderState(order, today);
+  const badge = STATE_BADGES[state];
+  const receivableCount = getProjectsToReceive(order).length;
+
+  const details = [
+    order.orderDate && { label: 'Ordered', value: formatOrderDate(order.orderDate) },
+    order.expectedDelivery && {
+      label: 'Expected',
+      value: formatOrderDate(order.expectedDelivery),
+    },
+    order.dateReceived && { label: 'Received', value: formatOrderDate(order.dateReceived) },
+  ].filter((detail): detail is { label: string; value: string } => !!detail);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="min-w-0 space-y-1">
+          <CardTitle className="truncate text-lg">{getOrderTitle(order)}</CardTitle>
+          {details.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {details.map(detail => `${detail.label} ${detail.value}`).join(' · ')}
+            </p>
+          )}
+        </div>
+        <Badge className={badge.className}>{badge.label}</Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {order.trackingNote && <p className="whitespace-pre-line text-sm">{order.trackingNote}</p>}
+
+        {order.projects.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No kits linked to this order yet.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {order.projects.map(project => (
+              <li key={project.id} className="flex items-center justify-between gap-3 p-2">
+                <Link
+                  to={`/projects/${project.id}`}
+                  className="truncate text-sm font-medium hover:underline"
+                >
+                  {project.title}
+                </Link>
+                <Badge variant="outline" className={getStatusColor(project.status)}>
+                  {getStatusLabel(project.status)}
+                </Badge>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {state !== 'received' && (
+            <Button size="sm" onClick={() => onMarkReceived(order)} disabled={isReceiving}>
+              <PackageCheck className="mr-2 h-4 w-4" />
+              {isReceiving
+                ? 'Receiving...'
+                : receivableCount > 0
+                  ? `Mark received (${receivableCount} to stash)`
+                  : 'Mark received'}
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={() => onEdit(order)}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Edit
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-destructive hover:text-destructive"
+            onClick={() => onDelete(order)}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
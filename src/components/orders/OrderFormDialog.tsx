@@ -0,0 +1,248 @@
+/**
+ * Dialog for adding or editing an order: company, order number, dates, tracking note
+ * and the kits that were bought in it
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useOrderableProjects } from '@/hooks/queries/useOrders';
+import { allCompaniesOptions } from '@/hooks/queries/shared/queryOptionsFactory';
+import { getStatusLabel } from '@/utils/projectStatusUtils';
+import { ORDER_NUMBER_MAX_LENGTH, TRACKING_NOTE_MAX_LENGTH } from '@/utils/orders';
+import type { Order, OrderFormData, OrderProject } from '@/types/order';
+
+const NO_COMPANY = '__none__';
+
+const createFormData = (order: Order | null): OrderFormData => ({
+  companyId: order?.companyId ?? '',
+  orderNumber: order?.orderNumber ?? '',
+  orderDate: order?.orderDate ?? '',
+  expectedDelivery: order?.expectedDelivery ?? '',
+  trackingNote: order?.trackingNote ?? '',
+  projectIds: order?.projects.map(project => project.id) ?? [],
+});
+
+interface OrderFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Order being edited, or null to add a new one */
+  order: Order | null;
+  isSaving: boolean;
+  onSubmit: (data: OrderFormData) => void;
+}
+
+export const OrderFormDialog: React.FC<OrderFormDialogProps> = ({
+  open,
+  onOpenChange,
+  order,
+  isSaving,
+  onSubmit,
+}) => {
+  const { user } = useAuth();
+  const { data: companies = [] } = useQuery(allCompaniesOptions(user?.id || ''));
+  const { data: orderableProjects = [], isLoading: isLoadingProjects } = useOrderableProjects(open);
+
+  const [formData, setFormData] = useState<OrderFormData>(() => createFormData(order));
+  const [projectSearch, setProjectSearch] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setFormData(createFormData(order));
+      setProjectSearch('');
+    }
+  }, [open, order]);
+
+  // Kits already on this order stay selectable even once they've left the stash
+  const projectOptions = useMemo(() => {
+    const options = new Map<string, OrderProject>();
+    order?.projects.forEach(project => options.set(project.id, project));
+    orderableProjects
+      .filter(project => !project.orderId || project.orderId === order?.id)
+      .forEach(project => options.set(project.id, project));
+
+    const search = projectSearch.trim().toLowerCase();
+    return [...options.values()]
+      .filter(project => !search || project.title.toLowerCase().includes(search))
+      .sort((a, b) => a.title.localeCompare(b.title));
+  }, [order, orderableProjects, projectSearch]);
+
+  const setField = <K extends keyof OrderFormData>(field: K, value: OrderFormData[K]) =>
+    setFormData(current => ({ ...current, [field]: value }));
+
+  const toggleProject = (projectId: string, checked: boolean) =>
+    setField(
+      'projectIds',
+      checked
+        ? [...formData.projectIds, projectId]
+        : formData.projectIds.filter(id => id !== projectId)
+    );
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onSubmit(formData);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{order ? 'Edit order' : 'Add order'}</DialogTitle>
+            <DialogDescription>
+              Group kits bought together so you can receive them all at once.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="order-company">Company</Label>
+              <Select
+                value={formData.companyId || NO_COMPANY}
+                onValueChange={value => setField('companyId', value === NO_COMPANY ? '' : value)}
+                disabled={isSaving}
+              >
+                <SelectTrigger id="order-company">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_COMPANY}>No company</SelectItem>
+                  {companies.map(company => (
+                    <SelectItem key={company.id} value={company.id}>
+                      {company.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="order-number">Order number</Label>
+              <Input
+                id="order-number"
+                value={formData.orderNumber}
+                onChange={e => setField('orderNumber', e.target.value)}
+                maxLength={ORDER_NUMBER_MAX_LENGTH}
+                disabled={isSaving}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="order-date">Order date</Label>
+              <Input
+                id="order-date"
+                type="date"
+                value={formData.orderDate}
+                onChange={e => setField('orderDate', e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="order-expected-delivery">Expected delivery</Label>
+              <Input
+                id="order-expected-delivery"
+                type="date"
+                value={formData.expectedDelivery}
+                min={formData.orderDate || undefined}
+                onChange={e => setField('expectedDelivery', e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="order-tracking-note">Tracking note</Label>
+            <Textarea
+              id="order-tracking-note"
+              value={formData.trackingNote}
+              onChange={e => setField('trackingNote', e.target.value)}
+              maxLength={TRACKING_NOTE_MAX_LENGTH}
+              placeholder="Carrier, tracking number or anything else about the delivery"
+              rows={2}
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="order-project-search">
+              Kits in this order ({formData.projectIds.length})
+            </Label>
+            <Input
+              id="order-project-search"
+              type="search"
+              value={projectSearch}
+              onChange={e => setProjectSearch(e.target.value)}
+              placeholder="Search purchased and stash projects"
+              disabled={isSaving}
+            />
+            <div className="max-h-56 space-y-1 overflow-y-auto rounded-md border p-2">
+              {isLoadingProjects ? (
+                <p className="p-2 text-sm text-muted-foreground">Loading projects...</p>
+              ) : projectOptions.length === 0 ? (
+                <p className="p-2 text-sm text-muted-foreground">
+                  {projectSearch
+                    ? 'No projects match your search.'
+                    : 'No purchased or stash projects without an order.'}
+                </p>
+              ) : (
+                projectOptions.map(project => (
+                  <label
+                    key={project.id}
+                    className="flex cursor-pointer items-center gap-3 rounded p-2 hover:bg-muted"
+                  >
+                    <Checkbox
+                      checked={formData.projectIds.includes(project.id)}
+                      onCheckedChange={checked => toggleProject(project.id, checked === true)}
+                      disabled={isSaving}
+                    />
+                    <span className="flex-1 truncate text-sm">{project.title}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {getStatusLabel(project.status)}
+                    </span>
+                  </label>
+                ))
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : order ? 'Save changes' : 'Add order'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
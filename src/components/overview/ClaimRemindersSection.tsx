@@ -0,0 +1,119 @@
+/**
+ * Reminders for claims that have gone unresolved for too long, with the number of days
+ * before a claim is flagged. Hidden while the user has no open claims.
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { BellRing } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserTimezone } from '@/hooks/useUserTimezone';
+import { useUnresolvedClaims } from '@/hooks/queries/useClaims';
+import { useSaveClaimReminderDays } from '@/hooks/mutations/useClaimMutations';
+import { getCurrentDateInUserTimezone } from '@/utils/timezoneUtils';
+import {
+  CLAIM_ISSUE_TYPE_LABELS,
+  CLAIM_REMINDER_DAY_OPTIONS,
+  CLAIM_STATUS_LABELS,
+  getClaimAgeDays,
+  getClaimReminderDays,
+  getClaimsDueForFollowUp,
+} from '@/utils/claims';
+
+export function ClaimRemindersSection() {
+  const { user } = useAuth();
+  const today = getCurrentDateInUserTimezone(useUserTimezone());
+  const { data: claims = [] } = useUnresolvedClaims();
+  const saveReminderDays = useSaveClaimReminderDays();
+
+  const reminderDays = getClaimReminderDays(user?.claim_reminder_days);
+  const dueClaims = useMemo(
+    () => getClaimsDueForFollowUp(claims, today, reminderDays),
+    [claims, today, reminderDays]
+  );
+
+  if (claims.length === 0) return null;
+
+  return (
+    <section>
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-2xl font-semibold">
+          <span className="bg-gradient-to-r from-primary to-flamingo-400 bg-clip-text text-transparent">
+            Claims to Follow Up
+          </span>
+        </h2>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="claim-reminder-days" className="text-sm text-muted-foreground">
+            Remind me after
+          </Label>
+          <Select
+            value={String(reminderDays)}
+            onValueChange={value => saveReminderDays.mutate(Number(value))}
+            disabled={saveReminderDays.isPending}
+          >
+            <SelectTrigger id="claim-reminder-days" className="h-8 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CLAIM_REMINDER_DAY_OPTIONS.map(days => (
+                <SelectItem key={days} value={String(days)}>
+                  {days} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {dueClaims.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">
+              You have {claims.length} open {claims.length === 1 ? 'claim' : 'claims'}, none older
+              than {reminderDays} days.
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {dueClaims.map(claim => (
+                <li key={claim.id} className="flex items-center justify-between gap-3 p-4">
+                  <div className="flex min-w-0 items-center gap-3">
+                    <BellRing className="h-5 w-5 shrink-0 text-amber-500" />
+                    <div className="min-w-0">
+                      <Link
+                        to={`/projects/${claim.projectId}`}
+                        className="block truncate font-medium hover:underline"
+                      >
+                        {claim.projectTitle ?? 'Project'}
+                      </Link>
+                      <p className="text-sm text-muted-foreground">
+                        {CLAIM_ISSUE_TYPE_LABELS[claim.issueType]}
+                        {claim.companyName && ` · ${claim.companyName}`} ·{' '}
+                        {CLAIM_STATUS_LABELS[claim.status]}
+                      </p>
+                    </div>
+                  </div>
+                  <span className="whitespace-nowrap text-sm text-muted-foreground">
+                    {getClaimAgeDays(claim, today)} days since{' '}
+                    {format(parseISO(claim.dateReported), 'MMM d')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </section>
+  );
+}
@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Calendar } from 'lucide-react';
 import { ProjectType } from '@/types/project';
 import ProjectCardLite from '@/components/dashboard/ProjectCardLite';
+import SessionTimer from '@/components/projects/SessionTimer';
 import { queryKeys } from '@/hooks/queries/queryKeys';
 
 const logger = createLogger('InProgressSection');
@@ -80,7 +81,10 @@ const InProgressSectionComponent = ({ inProgressProjects, isLoading }: InProgres
         <>
           <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
             {inProgressProjects.slice(0, 8).map((project: ProjectType) => (
-              <ProjectCardLite key={project.id} project={project} onClick={handleProjectClick} />
+              <div key={project.id} className="space-y-2">
+                <ProjectCardLite project={project} onClick={handleProjectClick} />
+                <SessionTimer projectId={project.id} compact />
+              </div>
             ))}
           </div>
           {inProgressProjects.length > 8 && (
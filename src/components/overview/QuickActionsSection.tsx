@@ -1,6 +1,6 @@
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { Heart, Package, Trophy } from 'lucide-react';
+import { BarChart3, Heart, Package, Trophy } from 'lucide-react';
 
 /**
  * Created 2025-05-26 while refactoring Overview.tsx
@@ -16,7 +16,7 @@ export function QuickActionsSection() {
           Quick Actions
         </span>
       </h2>
-      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 md:grid-cols-3">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 md:grid-cols-4">
         <Button
           className="flex h-20 flex-col justify-center gap-2 transition-transform hover:scale-105 hover:bg-muted"
           onClick={() => navigate('/dashboard?status=wishlist')}
@@ -41,6 +41,14 @@ export function QuickActionsSection() {
           <Trophy className="h-5 w-5 text-amber-500" />
           <span>See Completed</span>
         </Button>
+        <Button
+          className="flex h-20 flex-col justify-center gap-2 transition-transform hover:scale-105 hover:bg-muted"
+          onClick={() => navigate('/stats')}
+          variant="outline"
+        >
+          <BarChart3 className="h-5 w-5 text-emerald-500" />
+          <span>View Stats</span>
+        </Button>
       </div>
     </section>
   );
@@ -2,7 +2,7 @@
  * @fileoverview Account Settings Component
  *
  * Provides user account management functionality including email updates,
- * username changes, password management, and account deletion.
+ * username changes, password management, public sharing, and account deletion.
  * Uses secure FilterBuilder utility for PocketBase queries to prevent SQL injection.
  *
  * @author @serabi
@@ -30,6 +30,8 @@ import {
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { logger } from '@/utils/logger';
+import { syncPublicProfileUsername } from '@/services/pocketbase/sharing.service';
+import { PublicSharingSettings } from './PublicSharingSettings';
 
 /**
  * Props interface for the AccountSettings component
@@ -56,6 +58,7 @@ interface AccountSettingsProps {
  * - Update their username with secure duplicate validation
  * - Change their email address
  * - Update their password
+ * - Make their profile public and revoke share links
  * - Delete their account
  *
  * Security Features:
@@ -172,6 +175,20 @@ const AccountSettings = ({
       setName(newUsername);
       setIsUsernameDialogOpen(false);
 
+      // The username change has already been saved, so a failed profile sync gets its own message
+      try {
+        await syncPublicProfileUsername(userId, newUsername);
+      } catch (syncError) {
+        logger.error('Error updating public profile username:', syncError);
+        toast({
+          title: 'Username updated',
+          description:
+            'Your public profile address could not be updated. Save your public profile again to retry.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
       toast({
         title: 'Success',
         description: 'Your username has been updated',
@@ -315,6 +332,8 @@ const AccountSettings = ({
               </div>
             </div>
           </div>
+
+          <PublicSharingSettings username={name} />
         </div>
       </div>
     </div>
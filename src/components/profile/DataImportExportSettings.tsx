@@ -1,7 +1,10 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import { useProjectExport } from '@/hooks/useProjectExport';
-import { FileText, FileInput, ArrowRight } from 'lucide-react';
+import { useAccountBackup } from '@/hooks/useAccountBackup';
+import { FileText, FileInput, ArrowRight, Archive } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { logger } from '@/utils/logger';
 
@@ -11,6 +14,8 @@ interface DataImportExportSettingsProps {
 
 const DataImportExportSettings = ({ profileLoading }: DataImportExportSettingsProps) => {
   const { exportProjectsToCsv, loading: exportLoading } = useProjectExport();
+  const { exportBackup, exporting: backupLoading, progress: backupProgress } = useAccountBackup();
+  const [includeImages, setIncludeImages] = useState(true);
 
   // Track component load
   React.useEffect(() => {
@@ -34,6 +39,10 @@ const DataImportExportSettings = ({ profileLoading }: DataImportExportSettingsPr
     }
   };
 
+  const handleBackup = async () => {
+    await exportBackup({ includeImages });
+  };
+
   return (
     <div className="dark:glass-card mt-8 rounded-lg border border-border bg-card text-card-foreground shadow">
       <div className="border-b border-border p-6">
@@ -99,6 +108,52 @@ const DataImportExportSettings = ({ profileLoading }: DataImportExportSettingsPr
               </div>
             </div>
           </div>
+
+          {/* Full Backup Section */}
+          <div className="rounded-lg border border-border bg-background/50 p-6 shadow-sm">
+            <div className="flex flex-col gap-4">
+              <div>
+                <h3 className="mb-2 flex items-center text-lg font-medium">
+                  <Archive className="mr-2 h-5 w-5 text-primary" />
+                  Full Account Backup
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                  Download everything in your account - projects, progress notes, work sessions,
+                  drill legends and leftovers, claims, orders, tags, companies, artists and
+                  randomizer history - as a single backup file. Backups can be restored from the
+                  Import page, including into a different account.
+                </p>
+              </div>
+
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                <div className="flex items-center space-x-3">
+                  <Checkbox
+                    id="backup-include-images"
+                    checked={includeImages}
+                    onCheckedChange={checked => setIncludeImages(Boolean(checked))}
+                    disabled={backupLoading}
+                  />
+                  <Label htmlFor="backup-include-images" className="text-sm font-normal">
+                    Include images (larger file)
+                  </Label>
+                </div>
+
+                <Button
+                  size="sm"
+                  className="shrink-0"
+                  onClick={handleBackup}
+                  disabled={profileLoading || backupLoading}
+                >
+                  {backupLoading
+                    ? backupProgress?.phase === 'images'
+                      ? `Downloading images ${backupProgress.completed}/${backupProgress.total}...`
+                      : 'Preparing...'
+                    : 'Download Backup'}{' '}
+                  <ArrowRight className="ml-2 h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
         </div>
       </div>
     </div>
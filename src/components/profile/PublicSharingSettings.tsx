@@ -0,0 +1,273 @@
+/**
+ * Public sharing part of the account settings: the public profile privacy toggle and
+ * the list of active share links, each revocable
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Copy, ExternalLink, Globe, Link2Off, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useOwnPublicProfile, useUserShares } from '@/hooks/queries/useSharing';
+import {
+  useRevokeAllShares,
+  useRevokeProjectShare,
+  useSavePublicProfile,
+} from '@/hooks/mutations/useSharingMutations';
+import { useToast } from '@/hooks/use-toast';
+import { createLogger } from '@/utils/logger';
+import {
+  PROFILE_BIO_MAX_LENGTH,
+  PROFILE_DISPLAY_NAME_MAX_LENGTH,
+  getProfileUrl,
+  getShareUrl,
+} from '@/utils/sharing';
+
+const logger = createLogger('PublicSharingSettings');
+
+interface PublicSharingSettingsProps {
+  username: string;
+}
+
+export const PublicSharingSettings: React.FC<PublicSharingSettingsProps> = ({ username }) => {
+  const { toast } = useToast();
+  const { data: profile, isLoading: profileLoading } = useOwnPublicProfile();
+  const { data: shares = [], isLoading: sharesLoading } = useUserShares();
+  const saveProfile = useSavePublicProfile();
+  const revokeShare = useRevokeProjectShare();
+  const revokeAll = useRevokeAllShares();
+
+  const [enabled, setEnabled] = useState(false);
+  const [displayName, setDisplayName] = useState('');
+  const [bio, setBio] = useState('');
+
+  useEffect(() => {
+    setEnabled(profile?.enabled ?? false);
+    setDisplayName(profile?.displayName ?? '');
+    setBio(profile?.bio ?? '');
+  }, [profile]);
+
+  const profileUrl = getProfileUrl(window.location.origin, username);
+  const listedCount = shares.filter(share => share.showOnProfile).length;
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: 'Link copied', description: 'Anyone with this link can open it.' });
+    } catch (error) {
+      logger.error('Failed to copy link:', error);
+      toast({
+        title: 'Copy failed',
+        description: 'Could not copy the link to your clipboard.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleSaveProfile = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveProfile.mutate({
+      username,
+      settings: { enabled, displayName, bio },
+      existing: profile ?? null,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="mb-1 flex items-center text-lg font-medium">
+          <Globe className="mr-2 h-5 w-5 text-primary" />
+          Public Sharing
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Everything is private unless you share it. Shared pages are read-only and show only the
+          details you choose.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+        <form
+          onSubmit={handleSaveProfile}
+          className="space-y-4 rounded-lg border border-border bg-background/50 p-6 shadow-sm"
+        >
+          <h4 className="font-medium">Public profile</h4>
+          {profileLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : (
+            <>
+              <div className="flex items-start space-x-3">
+                <Checkbox
+                  id="public-profile-enabled"
+                  checked={enabled}
+                  onCheckedChange={checked => setEnabled(checked === true)}
+                />
+                <div className="grid gap-1 leading-none">
+                  <Label htmlFor="public-profile-enabled">Make my profile public</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Lists the completed projects you marked for your profile ({listedCount} right
+                    now) at{' '}
+                    <span className="break-all font-medium text-foreground">{profileUrl}</span>
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="public-display-name">Display name</Label>
+                <Input
+                  id="public-display-name"
+                  value={displayName}
+                  maxLength={PROFILE_DISPLAY_NAME_MAX_LENGTH}
+                  onChange={e => setDisplayName(e.target.value)}
+                  placeholder={username}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="public-bio">About you</Label>
+                <Textarea
+                  id="public-bio"
+                  value={bio}
+                  maxLength={PROFILE_BIO_MAX_LENGTH}
+                  onChange={e => setBio(e.target.value)}
+                  placeholder="A line or two for visitors (optional)"
+                  rows={3}
+                />
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button type="submit" size="sm" disabled={saveProfile.isPending}>
+                  {saveProfile.isPending ? 'Saving...' : 'Save profile'}
+                </Button>
+                {profile?.enabled && (
+                  <>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => copyLink(profileUrl)}
+                    >
+                      <Copy className="mr-2 h-4 w-4" />
+                      Copy link
+                    </Button>
+                    <Button type="button" variant="outline" size="sm" asChild>
+                      <Link to={`/u/${encodeURIComponent(username)}`}>
+                        <ExternalLink className="mr-2 h-4 w-4" />
+                        View
+                      </Link>
+                    </Button>
+                  </>
+                )}
+              </div>
+            </>
+          )}
+        </form>
+
+        <div className="space-y-4 rounded-lg border border-border bg-background/50 p-6 shadow-sm">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h4 className="font-medium">Share links</h4>
+              <p className="text-xs text-muted-foreground">
+                Create links from the Share button on any project.
+              </p>
+            </div>
+            {shares.length > 0 && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" size="sm" className="shrink-0 text-destructive">
+                    Revoke all
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Revoke every share link?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      All {shares.length} links stop working straight away and your public profile
+                      will list no projects. This cannot be undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => revokeAll.mutate()}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      Revoke all
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+
+          {sharesLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : shares.length === 0 ? (
+            <p className="text-sm text-muted-foreground">You haven't shared any projects.</p>
+          ) : (
+            <ul className="divide-y">
+              {shares.map(share => (
+                <li key={share.id} className="flex items-center justify-between gap-2 py-2">
+                  <div className="min-w-0">
+                    <Link
+                      to={`/projects/${share.projectId}`}
+                      className="block truncate text-sm font-medium hover:underline"
+                    >
+                      {share.snapshot.title}
+                    </Link>
+                    <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                      Updated {format(parseISO(share.updated), 'MMM d, yyyy')}
+                      {share.showOnProfile && (
+                        <Badge variant="secondary" className="text-[10px]">
+                          On profile
+                        </Badge>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => copyLink(getShareUrl(window.location.origin, share.token))}
+                    >
+                      <Copy className="h-4 w-4" />
+                      <span className="sr-only">Copy link for {share.snapshot.title}</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive"
+                      disabled={revokeShare.isPending}
+                      onClick={() => revokeShare.mutate(share)}
+                    >
+                      <Link2Off className="h-4 w-4" />
+                      <span className="sr-only">Revoke link for {share.snapshot.title}</span>
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
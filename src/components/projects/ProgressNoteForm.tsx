@@ -8,14 +8,22 @@ import {
   DateInput,
   ImageUpload,
   ContentTextarea,
+  ProgressInput,
   ProgressNoteFormProps,
 } from './ProgressNoteForm/index'; // Explicitly point to the index file
 
-const ProgressNoteForm = ({ onSubmit, onSuccess, disabled = false }: ProgressNoteFormProps) => {
+const ProgressNoteForm = ({
+  onSubmit,
+  onSuccess,
+  disabled = false,
+  totalDiamonds,
+}: ProgressNoteFormProps) => {
   const {
     date,
     content,
     imageFile,
+    progressMode,
+    progressValue,
     errors, // Destructure errors from the hook
     isSubmitting,
     isCompressing,
@@ -24,10 +32,12 @@ const ProgressNoteForm = ({ onSubmit, onSuccess, disabled = false }: ProgressNot
     handleImageChange, // The image change handler from the hook
     handleDateChange, // The date change handler from the hook
     handleContentChange, // The content change handler from the hook
+    handleProgressChange,
+    handleProgressModeChange,
     handleClearImage, // The clear image handler from the hook
     isFormDisabled, // This is for the submit button
     areInputsDisabled, // This is for the input fields
-  } = useProgressNoteForm({ onSubmit, onSuccess, disabled });
+  } = useProgressNoteForm({ onSubmit, onSuccess, disabled, totalDiamonds });
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
@@ -48,6 +58,16 @@ const ProgressNoteForm = ({ onSubmit, onSuccess, disabled = false }: ProgressNot
         error={errors.image} // Pass image error
       />
 
+      <ProgressInput
+        mode={progressMode}
+        value={progressValue}
+        totalDiamonds={totalDiamonds}
+        onModeChange={handleProgressModeChange}
+        onChange={handleProgressChange}
+        disabled={areInputsDisabled}
+        error={errors.progress}
+      />
+
       <ContentTextarea
         value={content}
         onChange={handleContentChange} // Directly use the handler from the hook
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { formatPercent } from '@/utils/drillProgress';
+import { ProgressEntryMode } from './types';
+
+interface ProgressInputProps {
+  /** Input id, unique per form on the page */
+  id?: string;
+  mode: ProgressEntryMode;
+  value: string;
+  totalDiamonds?: number;
+  disabled: boolean;
+  onModeChange: (mode: ProgressEntryMode) => void;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  error?: string;
+}
+
+/**
+ * ProgressInput component for the ProgressNoteForm.
+ * Records drills placed or percent complete for the note; both are optional.
+ * Drills placed is only offered when the project has a total diamond count to measure against.
+ */
+export const ProgressInput: React.FC<ProgressInputProps> = ({
+  id = 'note-progress',
+  mode,
+  value,
+  totalDiamonds,
+  disabled,
+  onModeChange,
+  onChange,
+  error,
+}) => {
+  const hasTotal = !!totalDiamonds && totalDiamonds > 0;
+  const errorId = `${id}-error`;
+  const drills = Number(value);
+  const showDerivedPercent =
+    mode === 'drills' && hasTotal && value.trim() !== '' && Number.isFinite(drills);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={id}>Progress (optional)</Label>
+        {hasTotal && (
+          <div className="flex gap-1" role="group" aria-label="Progress entry type">
+            {(['drills', 'percent'] as const).map(option => (
+              <Button
+                key={option}
+                type="button"
+                size="sm"
+                variant={mode === option ? 'secondary' : 'ghost'}
+                className="h-7 px-2 text-xs"
+                aria-pressed={mode === option}
+                disabled={disabled}
+                onClick={() => onModeChange(option)}
+              >
+                {option === 'drills' ? 'Drills placed' : 'Percent'}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+      <Input
+        id={id}
+        type="number"
+        inputMode="numeric"
+        min={0}
+        max={mode === 'percent' ? 100 : totalDiamonds}
+        step={mode === 'percent' ? 'any' : 1}
+        placeholder={
+          mode === 'drills'
+            ? `Drills placed out of ${totalDiamonds?.toLocaleString()}`
+            : 'Percent or area complete (0-100)'
+        }
+        value={value}
+        onChange={onChange}
+        disabled={disabled}
+        className={cn('mt-1', error && 'border-red-500')}
+        aria-invalid={error ? 'true' : 'false'}
+        aria-describedby={error ? errorId : undefined}
+      />
+      {showDerivedPercent && !error && (
+        <p className="mt-1 text-xs text-muted-foreground">
+          {formatPercent(Math.min(100, (drills / totalDiamonds!) * 100))} complete
+        </p>
+      )}
+      {error && (
+        <p id={errorId} className="mt-1 text-sm text-red-500">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
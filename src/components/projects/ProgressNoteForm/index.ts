@@ -1,6 +1,7 @@
 export * from './ContentTextarea';
 export * from './DateInput';
 export * from './ImageUpload';
+export * from './ProgressInput';
 export * from './constants';
 export * from './types';
 export * from './validation';
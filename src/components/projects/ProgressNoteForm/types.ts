@@ -1,9 +1,29 @@
+export interface ProgressNoteSubmitData {
+  date: string;
+  content: string;
+  imageFile?: File;
+  drillsPlaced?: number;
+  percentComplete?: number;
+}
+
+/** An edited note; progress set to null clears it */
+export interface ProgressNoteUpdateData {
+  content: string;
+  drillsPlaced: number | null;
+  percentComplete: number | null;
+}
+
 export interface ProgressNoteFormProps {
-  onSubmit: (note: { date: string; content: string; imageFile?: File }) => Promise<void>;
+  onSubmit: (note: ProgressNoteSubmitData) => Promise<void>;
   onSuccess?: () => void;
   disabled?: boolean;
+  /** Project total diamonds, used to validate drills placed and show the resulting percent */
+  totalDiamonds?: number;
 }
 
+/** How progress is entered on a note: drills placed or percent/area complete */
+export type ProgressEntryMode = 'drills' | 'percent';
+
 export interface CompressionProgress {
   percentage: number;
   status: string;
@@ -21,5 +41,6 @@ export interface ProgressNoteFormErrors {
   date?: string;
   content?: string;
   image?: string;
+  progress?: string;
   form?: string; // Added for general form errors
 }
@@ -1,4 +1,5 @@
 import { PROGRESS_NOTE_CONSTANTS } from './constants';
+import { ProgressEntryMode } from './types';
 
 export interface ProgressNoteValidationResult {
   isValid: boolean;
@@ -63,3 +64,41 @@ export function validateImageFile(file: File): { isValid: boolean; error?: strin
 
   return { isValid: true };
 }
+
+/**
+ * Parses and validates the optional progress value of a note.
+ * @param value - The raw input value; empty means no progress was recorded.
+ * @param mode - Whether the value is drills placed or percent complete.
+ * @param totalDiamonds - The project's total diamond count, if known.
+ * @returns The parsed drills placed or percent complete, or an error message.
+ */
+export function parseProgressValue(
+  value: string,
+  mode: ProgressEntryMode,
+  totalDiamonds?: number
+): { drillsPlaced?: number; percentComplete?: number; error?: string } {
+  if (value.trim() === '') {
+    return {};
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    return { error: 'Progress must be a positive number.' };
+  }
+
+  if (mode === 'percent') {
+    return parsed > 100
+      ? { error: 'Percent complete must be between 0 and 100.' }
+      : { percentComplete: parsed };
+  }
+
+  if (!Number.isInteger(parsed)) {
+    return { error: 'Drills placed must be a whole number.' };
+  }
+  if (totalDiamonds && parsed > totalDiamonds) {
+    return {
+      error: `Drills placed cannot exceed the project total of ${totalDiamonds.toLocaleString()}.`,
+    };
+  }
+  return { drillsPlaced: parsed };
+}
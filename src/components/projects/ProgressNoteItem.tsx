@@ -3,8 +3,13 @@ import { logger } from '@/utils/logger';
 import { ProgressNote } from '@/types/project';
 import { format, parseISO } from 'date-fns';
 import { createLogger } from '@/utils/logger';
+import { formatPercent, getNotePercent } from '@/utils/drillProgress';
+import { ProgressInput } from './ProgressNoteForm/ProgressInput';
+import { parseProgressValue } from './ProgressNoteForm/validation';
+import { ProgressEntryMode, ProgressNoteUpdateData } from './ProgressNoteForm/types';
 import ImageGallery from './ImageGallery';
 import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Check, Pencil, X, Trash2, Brush } from 'lucide-react';
 import {
@@ -23,10 +28,14 @@ const displayLogger = createLogger('ProgressNoteItem');
 
 interface ProgressNoteItemProps {
   note: ProgressNote;
-  onUpdateNote?: (noteId: string, content: string) => Promise<void>;
+  onUpdateNote?: (noteId: string, update: ProgressNoteUpdateData) => Promise<void>;
   onDeleteNote?: (noteId: string) => Promise<void>;
   onDeleteImage?: (noteId: string) => Promise<void>;
   disabled?: boolean;
+  /** Project total diamonds, used to show drills placed as a percentage */
+  totalDiamonds?: number;
+  /** Outline the note, e.g. when opened from a search result */
+  isHighlighted?: boolean;
 }
 
 // Use React.memo to prevent unnecessary rerenders
@@ -37,9 +46,14 @@ const ProgressNoteItem = React.memo(
     onDeleteNote,
     onDeleteImage,
     disabled = false,
+    totalDiamonds,
+    isHighlighted = false,
   }: ProgressNoteItemProps) => {
     const [isEditing, setIsEditing] = useState(false);
     const [editableContent, setEditableContent] = useState(note.content);
+    const [progressMode, setProgressMode] = useState<ProgressEntryMode>('percent');
+    const [progressValue, setProgressValue] = useState('');
+    const [progressError, setProgressError] = useState<string>();
     const [isSaving, setIsSaving] = useState(false);
     const [isHoveringImage, setIsHoveringImage] = useState(false);
 
@@ -105,12 +119,30 @@ const ProgressNoteItem = React.memo(
 
     // Handle both imageUrl and image_url fields
     const imageUrl = note.imageUrl;
+    const notePercent = getNotePercent(note, totalDiamonds);
 
     const handleEdit = () => {
       setEditableContent(note.content);
+      // Start from the progress the note was saved with; drills placed needs a total unless already recorded
+      if (note.drillsPlaced != null) {
+        setProgressMode('drills');
+        setProgressValue(String(note.drillsPlaced));
+      } else {
+        setProgressMode(
+          note.percentComplete == null && totalDiamonds && totalDiamonds > 0 ? 'drills' : 'percent'
+        );
+        setProgressValue(note.percentComplete != null ? String(note.percentComplete) : '');
+      }
+      setProgressError(undefined);
       setIsEditing(true);
     };
 
+    const handleProgressModeChange = (mode: ProgressEntryMode) => {
+      setProgressMode(mode);
+      setProgressValue('');
+      setProgressError(undefined);
+    };
+
     const handleCancel = () => {
       setIsEditing(false);
       setEditableContent(note.content);
@@ -118,9 +150,18 @@ const ProgressNoteItem = React.memo(
 
     const handleSave = async () => {
       if (!onUpdateNote) return;
+      const progress = parseProgressValue(progressValue, progressMode, totalDiamonds);
+      if (progress.error) {
+        setProgressError(progress.error);
+        return;
+      }
       setIsSaving(true);
       try {
-        await onUpdateNote(note.id, editableContent);
+        await onUpdateNote(note.id, {
+          content: editableContent,
+          drillsPlaced: progress.drillsPlaced ?? null,
+          percentComplete: progress.percentComplete ?? null,
+        });
         setIsEditing(false);
       } catch (error) {
         logger.error('Failed to update note:', error);
@@ -140,7 +181,13 @@ const ProgressNoteItem = React.memo(
     };
 
     return (
-      <div className="mb-6 overflow-hidden rounded-lg border bg-white shadow-sm dark:border-muted dark:bg-card">
+      <div
+        id={`progress-note-${note.id}`}
+        className={cn(
+          'mb-6 scroll-mt-24 overflow-hidden rounded-lg border bg-white shadow-sm dark:border-muted dark:bg-card',
+          isHighlighted && 'ring-2 ring-primary ring-offset-2 ring-offset-background'
+        )}
+      >
         {/* Instagram-like header with date and username */}
         <div className="flex items-center justify-between border-b p-3 dark:border-muted">
           <div className="flex items-center">
@@ -148,6 +195,12 @@ const ProgressNoteItem = React.memo(
               <Brush className="h-4 w-4" />
             </div>
             <span className="ml-2 font-medium">{formattedDate}</span>
+            {notePercent !== null && (
+              <span className="ml-2 rounded-md bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+                {formatPercent(notePercent)}
+                {note.drillsPlaced != null && ` · ${note.drillsPlaced.toLocaleString()} drills`}
+              </span>
+            )}
           </div>
           <div className="flex gap-2">
             {onUpdateNote && !isEditing && (
@@ -234,6 +287,19 @@ const ProgressNoteItem = React.memo(
                 className="dark:border-muted"
                 disabled={disabled}
               />
+              <ProgressInput
+                id={`note-progress-${note.id}`}
+                mode={progressMode}
+                value={progressValue}
+                totalDiamonds={totalDiamonds}
+                disabled={disabled || isSaving}
+                onModeChange={handleProgressModeChange}
+                onChange={e => {
+                  setProgressValue(e.target.value);
+                  setProgressError(undefined);
+                }}
+                error={progressError}
+              />
               <div className="flex justify-end space-x-2">
                 <Button
                   variant="outline"
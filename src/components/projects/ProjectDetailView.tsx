@@ -5,6 +5,8 @@
  * - Project images and details
  * - Notable dates (purchased, received, started, completed)
  * - Project notes and progress tracking
+ * - Drill progress percentage and estimated completion date
+ * - DMC colour legend with CSV import
  * - Back to Dashboard navigation
  *
  * Key features:
@@ -19,12 +21,20 @@
 
 // Functional components don't need to import React with modern JSX transform
 import { Link } from 'react-router-dom';
+import { CloudUpload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { ProjectType, ProjectStatus, ProgressNote } from '@/types/project';
 import ImageGallery from '@/components/projects/ImageGallery';
 import ProjectDetails from '@/components/projects/ProjectDetails';
 import ProjectNotes from '@/components/projects/form/ProjectNotes';
 import ProjectProgressNotes from '@/components/projects/ProjectProgressNotes';
+import ProjectProgressSummary from '@/components/projects/ProjectProgressSummary';
+import ProjectWorkSessions from '@/components/projects/ProjectWorkSessions';
+import { ProjectDrillLegend } from '@/components/drills/ProjectDrillLegend';
+import { ProjectClaims } from '@/components/claims/ProjectClaims';
+import { ProjectShareDialog } from '@/components/sharing/ProjectShareDialog';
+import { useProjectQueuedWrites } from '@/contexts/OfflineQueueContext';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -101,6 +111,8 @@ const ProjectDetailView = ({
   isSubmitting = false,
   user: _user,
 }: ProjectDetailViewProps) => {
+  const queuedWrites = useProjectQueuedWrites(project.id);
+
   // Helper function to format dates consistently using user's timezone
   const formatProjectDate = (dateString: string | null | undefined): string => {
     if (!dateString) return 'Not specified';
@@ -133,6 +145,13 @@ const ProjectDetailView = ({
           </div>
           <h1 className="text-2xl font-bold">{project.title || 'Untitled Project'}</h1>
           {!project.title && <p className="text-red-500">Warning: Project title is missing</p>}
+          {queuedWrites.length > 0 && (
+            <Badge variant="secondary" className="mt-2 gap-1">
+              <CloudUpload className="h-3 w-3" aria-hidden="true" />
+              {queuedWrites.length} {queuedWrites.length === 1 ? 'change' : 'changes'} not synced
+              yet
+            </Badge>
+          )}
         </div>
 
         {isMobile ? (
@@ -140,6 +159,12 @@ const ProjectDetailView = ({
             <Button variant="outline" size="sm" onClick={navigateToEdit} disabled={isSubmitting}>
               Edit
             </Button>
+            <ProjectShareDialog
+              projectId={project.id}
+              status={project.status}
+              size="sm"
+              disabled={isSubmitting}
+            />
             <Button variant="secondary" size="sm" onClick={onArchive} disabled={isSubmitting}>
               Archive
             </Button>
@@ -173,6 +198,11 @@ const ProjectDetailView = ({
             <Button variant="outline" onClick={navigateToEdit} disabled={isSubmitting}>
               Edit Project
             </Button>
+            <ProjectShareDialog
+              projectId={project.id}
+              status={project.status}
+              disabled={isSubmitting}
+            />
             <Button variant="secondary" onClick={onArchive} disabled={isSubmitting}>
               Archive
             </Button>
@@ -271,6 +301,18 @@ const ProjectDetailView = ({
             </div>
           </div>
 
+          {/* Session timer and time spent on the project */}
+          <ProjectWorkSessions project={project} key={`sessions-${project.id}`} />
+
+          {/* Drill progress derived from progress notes */}
+          <ProjectProgressSummary project={project} key={`progress-${project.id}`} />
+
+          {/* DMC colour legend */}
+          <ProjectDrillLegend projectId={project.id} key={`drills-${project.id}`} />
+
+          {/* Claims filed with the shop */}
+          <ProjectClaims projectId={project.id} key={`claims-${project.id}`} />
+
           {/* Progress Notes */}
           <ProjectProgressNotes
             project={project}
@@ -2,6 +2,8 @@ import { ProjectType, ProjectStatus } from '@/types/project';
 import StatusDropdown from './StatusDropdown';
 import RichUrlComponent from './RichUrlComponent';
 import { TagBadge } from '@/components/tags/TagBadge';
+import { formatCurrency, getTotalCost, normalizeCurrency } from '@/utils/purchaseCost';
+import { getCanvasTypeLabel, getDrillTypeLabel } from '@/utils/kitMaterials';
 
 interface ProjectDetailsProps {
   project: ProjectType;
@@ -26,7 +28,31 @@ const getDisplayName = (name: string | undefined, fallbackLabel: string): string
   return fallbackLabel;
 };
 
+/**
+ * "$52.00 ($45.00 + $12.00 shipping - $5.00 discount)" for the project's purchase
+ */
+const getPurchaseSummary = (project: ProjectType): string | null => {
+  const total = getTotalCost(project);
+  if (total === null) return null;
+
+  const currency = normalizeCurrency(project.currency);
+  const parts = [
+    project.price ? formatCurrency(project.price, currency) : null,
+    project.shippingCost ? `${formatCurrency(project.shippingCost, currency)} shipping` : null,
+  ].filter(Boolean);
+  const breakdown =
+    parts.length > 1 || project.discount
+      ? ` (${parts.join(' + ')}${
+          project.discount ? ` - ${formatCurrency(project.discount, currency)} discount` : ''
+        })`
+      : '';
+
+  return `${formatCurrency(total, currency)}${breakdown}`;
+};
+
 const ProjectDetails = ({ project, onStatusChange }: ProjectDetailsProps) => {
+  const purchaseSummary = getPurchaseSummary(project);
+
   return (
     <div className="space-y-5">
       {onStatusChange && (
@@ -67,6 +93,18 @@ const ProjectDetails = ({ project, onStatusChange }: ProjectDetailsProps) => {
             {project.drillShape || 'Not specified'}
           </p>
         </div>
+        <div>
+          <h3 className="text-sm font-medium text-muted-foreground">Drill Type</h3>
+          <p className="font-medium text-foreground">
+            {project.drillType ? getDrillTypeLabel(project.drillType) : 'Not specified'}
+          </p>
+        </div>
+        <div>
+          <h3 className="text-sm font-medium text-muted-foreground">Canvas Type</h3>
+          <p className="font-medium text-foreground">
+            {project.canvasType ? getCanvasTypeLabel(project.canvasType) : 'Not specified'}
+          </p>
+        </div>
         <div>
           <h3 className="text-sm font-medium text-muted-foreground">Type of Kit</h3>
           <p className="font-medium text-foreground">
@@ -83,6 +121,18 @@ const ProjectDetails = ({ project, onStatusChange }: ProjectDetailsProps) => {
             {project.totalDiamonds?.toLocaleString() || 'Not specified'}
           </p>
         </div>
+        {purchaseSummary && (
+          <div>
+            <h3 className="text-sm font-medium text-muted-foreground">Cost</h3>
+            <p className="font-medium text-foreground">{purchaseSummary}</p>
+          </div>
+        )}
+        {project.orderReference && (
+          <div>
+            <h3 className="text-sm font-medium text-muted-foreground">Order Reference</h3>
+            <p className="break-all font-medium text-foreground">{project.orderReference}</p>
+          </div>
+        )}
         {project.tags && project.tags.length > 0 && (
           <div>
             <h3 className="mb-2 text-sm font-medium text-muted-foreground">Tags</h3>
@@ -120,6 +120,8 @@ const ProjectForm = forwardRef<ProjectFormRef, ProjectFormProps>(
               width={String(formLogic.currentWatchedData.width ?? '')}
               height={String(formLogic.currentWatchedData.height ?? '')}
               drillShape={formLogic.currentWatchedData.drillShape ?? ''}
+              drillType={formLogic.currentWatchedData.drillType ?? ''}
+              canvasType={formLogic.currentWatchedData.canvasType ?? ''}
               sourceUrl={formLogic.currentWatchedData.sourceUrl ?? ''}
               totalDiamonds={
                 formLogic.currentWatchedData.totalDiamonds
@@ -131,6 +133,8 @@ const ProjectForm = forwardRef<ProjectFormRef, ProjectFormProps>(
               onWidthChange={handlers.genericHandleChange}
               onHeightChange={handlers.genericHandleChange}
               onDrillShapeChange={value => handlers.genericHandleSelectChange('drillShape', value)}
+              onDrillTypeChange={value => handlers.genericHandleSelectChange('drillType', value)}
+              onCanvasTypeChange={value => handlers.genericHandleSelectChange('canvasType', value)}
               onSourceUrlChange={handlers.genericHandleChange}
               setValue={formLogic.setValue}
               onKitCategoryChange={value => {
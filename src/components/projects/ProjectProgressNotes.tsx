@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useLocation } from 'react-router-dom';
 import { logger } from '@/utils/logger';
 import {
   useProgressNotesQuery,
@@ -11,14 +12,19 @@ import { useUserTimezone } from '@/hooks/useUserTimezone';
 import { ProjectType } from '@/types/project';
 import ProgressNotesList from './timeline/ProgressNotesList';
 import ProgressNoteForm from './ProgressNoteForm';
+import { ProgressNoteSubmitData, ProgressNoteUpdateData } from './ProgressNoteForm/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Skeleton } from '@/components/ui/skeleton';
+import { QueuedProgressNotes } from '@/components/offline/QueuedProgressNotes';
 
 interface ProjectProgressNotesProps {
   project: ProjectType;
 }
 
+// Deep links to a single note (e.g. from search results) use #progress-note-<id>
+const NOTE_HASH_PREFIX = '#progress-note-';
+
 const ProjectProgressNotes: React.FC<ProjectProgressNotesProps> = ({ project }) => {
   const [activeTab, setActiveTab] = useState('notes');
 
@@ -29,9 +35,28 @@ const ProjectProgressNotes: React.FC<ProjectProgressNotesProps> = ({ project })
   const deleteProgressNoteMutation = useDeleteProgressNoteMutation(project?.id || '');
   const deleteProgressNoteImageMutation = useDeleteProgressNoteImageMutation(project?.id || '');
   const userTimezone = useUserTimezone();
+  const { hash } = useLocation();
+  const [highlightedNoteId, setHighlightedNoteId] = useState<string | null>(null);
+
+  // Scroll to a deep-linked note once the notes have loaded
+  useEffect(() => {
+    if (!hash.startsWith(NOTE_HASH_PREFIX) || progressNotes.length === 0) return;
+
+    const noteId = hash.slice(NOTE_HASH_PREFIX.length);
+    if (!progressNotes.some(note => note.id === noteId)) return;
+
+    setActiveTab('notes');
+    setHighlightedNoteId(noteId);
+    const frame = requestAnimationFrame(() => {
+      document
+        .getElementById(`progress-note-${noteId}`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [hash, progressNotes]);
 
   // Handler for adding a new progress note
-  const handleAddNote = async (noteData: { date: string; content: string; imageFile?: File }) => {
+  const handleAddNote = async (noteData: ProgressNoteSubmitData) => {
     if (!project?.id) return;
 
     try {
@@ -52,11 +77,16 @@ const ProjectProgressNotes: React.FC<ProjectProgressNotesProps> = ({ project })
   };
 
   // Handler for updating a progress note
-  const handleUpdateNote = async (noteId: string, content: string) => {
+  const handleUpdateNote = async (noteId: string, update: ProgressNoteUpdateData) => {
     if (!project?.id) return;
 
     try {
-      await updateProgressNoteMutation.mutateAsync({ noteId, newContent: content });
+      await updateProgressNoteMutation.mutateAsync({
+        noteId,
+        newContent: update.content,
+        drillsPlaced: update.drillsPlaced,
+        percentComplete: update.percentComplete,
+      });
     } catch (error) {
       logger.error('Error updating progress note:', error);
     }
@@ -102,6 +132,7 @@ const ProjectProgressNotes: React.FC<ProjectProgressNotesProps> = ({ project })
           </TabsList>
 
           <TabsContent value="notes" className="space-y-4">
+            <QueuedProgressNotes projectId={project.id} />
             {isLoading ? (
               <div className="space-y-4">
                 {/* Skeleton loader for better perceived performance */}
@@ -130,6 +161,8 @@ const ProjectProgressNotes: React.FC<ProjectProgressNotesProps> = ({ project })
                 onUpdateProgressNote={handleUpdateNote}
                 onDeleteProgressNote={handleDeleteNote}
                 onDeleteProgressNoteImage={handleDeleteNoteImage}
+                totalDiamonds={project.totalDiamonds}
+                highlightedNoteId={highlightedNoteId}
                 disabled={
                   updateProgressNoteMutation.isPending ||
                   deleteProgressNoteMutation.isPending ||
@@ -144,6 +177,7 @@ const ProjectProgressNotes: React.FC<ProjectProgressNotesProps> = ({ project })
               onSubmit={handleAddNote}
               onSuccess={handleFormSuccess}
               disabled={addProgressNoteMutation.isPending}
+              totalDiamonds={project.totalDiamonds}
             />
           </TabsContent>
         </Tabs>
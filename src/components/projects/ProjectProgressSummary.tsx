@@ -0,0 +1,77 @@
+import React, { useMemo } from 'react';
+import { format } from 'date-fns';
+import { useProgressNotesQuery } from '@/hooks/queries/useProgressNotes';
+import { ProjectType } from '@/types/project';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import ProgressBurnUpChart from './timeline/ProgressBurnUpChart';
+import { estimateCompletionDate, formatPercent, getProgressPoints } from '@/utils/drillProgress';
+
+interface ProjectProgressSummaryProps {
+  project: ProjectType;
+}
+
+const formatEstimateDate = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return format(new Date(year, month - 1, date), 'MMMM d, yyyy');
+};
+
+/**
+ * Percent complete, drills placed and the estimated completion date derived from
+ * the project's progress notes. Hidden until a note records progress.
+ */
+const ProjectProgressSummary: React.FC<ProjectProgressSummaryProps> = ({ project }) => {
+  const { data: progressNotes = [] } = useProgressNotesQuery(project.id || null);
+
+  const points = useMemo(
+    () => getProgressPoints(progressNotes, project.totalDiamonds),
+    [progressNotes, project.totalDiamonds]
+  );
+  const latest = points.length > 0 ? points[points.length - 1] : null;
+  const isCompleted = project.status === 'completed';
+  const estimate = useMemo(
+    () => (isCompleted ? null : estimateCompletionDate(points, project.dateStarted)),
+    [isCompleted, points, project.dateStarted]
+  );
+
+  if (!latest) {
+    return null;
+  }
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Drill Progress</CardTitle>
+        <CardDescription>Based on the progress recorded in your notes</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-baseline justify-between">
+            <span className="text-3xl font-bold">{formatPercent(latest.percent)}</span>
+            {latest.drillsPlaced != null && project.totalDiamonds ? (
+              <span className="text-sm text-muted-foreground">
+                {latest.drillsPlaced.toLocaleString()} of {project.totalDiamonds.toLocaleString()}{' '}
+                drills
+              </span>
+            ) : null}
+          </div>
+          <Progress value={latest.percent} className="h-3" aria-label="Percent complete" />
+        </div>
+
+        {!isCompleted && (
+          <p className="text-sm text-muted-foreground">
+            {estimate
+              ? `At ${formatPercent(estimate.percentPerDay)} per day, you'll finish around ${formatEstimateDate(estimate.date)}.`
+              : 'Record progress on another day to estimate a completion date.'}
+          </p>
+        )}
+
+        {(points.length > 1 || estimate) && (
+          <ProgressBurnUpChart points={points} estimate={estimate} />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProjectProgressSummary;
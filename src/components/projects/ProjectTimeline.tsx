@@ -3,11 +3,14 @@ import { ProjectType, ProgressNote } from '@/types/project';
 import TimelineEvents, { TimelineEvent } from './timeline/TimelineEvents';
 import ProgressNotesList from './timeline/ProgressNotesList';
 import AddProgressNote from './timeline/AddProgressNote';
+import ProgressBurnUpChart from './timeline/ProgressBurnUpChart';
+import { ProgressNoteSubmitData, ProgressNoteUpdateData } from './ProgressNoteForm/types';
+import { estimateCompletionDate, getProgressPoints } from '@/utils/drillProgress';
 
 interface ProjectTimelineProps {
   project: ProjectType;
-  onAddProgressNote?: (note: { date: string; content: string; imageFile?: File }) => Promise<void>;
-  onUpdateProgressNote?: (noteId: string, content: string) => Promise<void>;
+  onAddProgressNote?: (note: ProgressNoteSubmitData) => Promise<void>;
+  onUpdateProgressNote?: (noteId: string, update: ProgressNoteUpdateData) => Promise<void>;
   onDeleteProgressNote?: (noteId: string) => Promise<void>;
   onDeleteProgressNoteImage?: (noteId: string) => Promise<void>;
 }
@@ -43,6 +46,19 @@ const ProjectTimeline: React.FC<ProjectTimelineProps> = ({
     return project.progressNotes || [];
   }, [project.progressNotes]);
 
+  // Burn-up of drill progress recorded on the notes
+  const progressPoints = React.useMemo(
+    () => getProgressPoints(progressNotes, project.totalDiamonds),
+    [progressNotes, project.totalDiamonds]
+  );
+  const completionEstimate = React.useMemo(
+    () =>
+      project.status === 'completed'
+        ? null
+        : estimateCompletionDate(progressPoints, project.dateStarted),
+    [progressPoints, project.status, project.dateStarted]
+  );
+
   const hasProgressNotes = progressNotes.length > 0;
   const hasTimelineEvents = timelineEvents.length > 0 || hasProgressNotes;
 
@@ -50,7 +66,12 @@ const ProjectTimeline: React.FC<ProjectTimelineProps> = ({
     <div className="rounded-lg border border-border bg-card p-6 shadow-md dark:border-muted">
       <div className="mb-4 flex items-center justify-between">
         <h2 className="text-lg font-semibold">Progress Pictures</h2>
-        {onAddProgressNote && <AddProgressNote onAddProgressNote={onAddProgressNote} />}
+        {onAddProgressNote && (
+          <AddProgressNote
+            onAddProgressNote={onAddProgressNote}
+            totalDiamonds={project.totalDiamonds}
+          />
+        )}
       </div>
 
       {!hasTimelineEvents ? (
@@ -61,10 +82,16 @@ const ProjectTimeline: React.FC<ProjectTimelineProps> = ({
         </div>
       ) : (
         <div className="space-y-6">
+          {/* Burn-up chart once progress has been recorded */}
+          {progressPoints.length > 0 && (
+            <ProgressBurnUpChart points={progressPoints} estimate={completionEstimate} />
+          )}
+
           {/* Display progress notes */}
           {hasProgressNotes && (
             <ProgressNotesList
               progressNotes={progressNotes}
+              totalDiamonds={project.totalDiamonds}
               onUpdateProgressNote={onUpdateProgressNote}
               onDeleteProgressNote={onDeleteProgressNote}
               onDeleteProgressNoteImage={onDeleteProgressNoteImage}
@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import { format } from 'date-fns';
+import { Timer, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useProjectWorkSessions } from '@/hooks/queries/useWorkSessions';
+import { useDeleteWorkSession } from '@/hooks/mutations/useWorkSessionMutations';
+import { formatDuration, summarizeWorkSessions } from '@/utils/workSessions';
+import { ProjectType } from '@/types/project';
+import SessionTimer from './SessionTimer';
+
+interface ProjectWorkSessionsProps {
+  project: ProjectType;
+}
+
+const RECENT_SESSION_LIMIT = 5;
+
+/**
+ * Session timer with total hours, drills per hour and the most recent sessions
+ * recorded on the project
+ */
+const ProjectWorkSessions: React.FC<ProjectWorkSessionsProps> = ({ project }) => {
+  const { data: sessions = [] } = useProjectWorkSessions(project.id);
+  const deleteSession = useDeleteWorkSession();
+
+  const finishedSessions = useMemo(() => sessions.filter(session => session.endedAt), [sessions]);
+  const summary = useMemo(() => summarizeWorkSessions(finishedSessions), [finishedSessions]);
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Timer className="h-5 w-5" />
+            Work Sessions
+          </CardTitle>
+          <CardDescription>Time spent on this canvas</CardDescription>
+        </div>
+        <SessionTimer projectId={project.id} />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4">
+          <div className="rounded bg-secondary p-3 dark:bg-muted">
+            <h4 className="text-sm font-medium text-muted-foreground">Total Time</h4>
+            <p className="text-lg font-semibold">{formatDuration(summary.totalSeconds)}</p>
+          </div>
+          <div className="rounded bg-secondary p-3 dark:bg-muted">
+            <h4 className="text-sm font-medium text-muted-foreground">Sessions</h4>
+            <p className="text-lg font-semibold">{summary.sessionCount}</p>
+          </div>
+          <div className="rounded bg-secondary p-3 dark:bg-muted">
+            <h4 className="text-sm font-medium text-muted-foreground">Drills / Hour</h4>
+            <p className="text-lg font-semibold">
+              {summary.drillsPerHour != null ? summary.drillsPerHour.toLocaleString() : '—'}
+            </p>
+          </div>
+        </div>
+
+        {finishedSessions.length > 0 ? (
+          <ul className="divide-y divide-border">
+            {finishedSessions.slice(0, RECENT_SESSION_LIMIT).map(session => (
+              <li key={session.id} className="flex items-center justify-between py-2 text-sm">
+                <span>{format(new Date(session.startedAt), 'MMM d, yyyy h:mm a')}</span>
+                <span className="flex items-center gap-3">
+                  <span className="font-medium">{formatDuration(session.durationSeconds)}</span>
+                  {session.drillsPlaced != null && (
+                    <span className="text-muted-foreground">
+                      {session.drillsPlaced.toLocaleString()} drills
+                    </span>
+                  )}
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        aria-label="Delete session"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete session</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          This removes the session from your totals. This action cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => deleteSession.mutate(session)}
+                          disabled={deleteSession.isPending}
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No sessions yet. Start the timer when you sit down to work on this canvas.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProjectWorkSessions;
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Play, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { useActiveWorkSession } from '@/hooks/queries/useWorkSessions';
+import { useStartWorkSession, useStopWorkSession } from '@/hooks/mutations/useWorkSessionMutations';
+import { formatClock, getSessionElapsedSeconds } from '@/utils/workSessions';
+import type { WorkSession } from '@/types/workSession';
+
+interface SessionTimerProps {
+  projectId: string;
+  /** Compact layout for project cards */
+  compact?: boolean;
+  className?: string;
+}
+
+const useElapsedSeconds = (session: WorkSession | null | undefined): number => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!session) return;
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [session]);
+
+  return session ? getSessionElapsedSeconds(session, now) : 0;
+};
+
+/**
+ * Start/stop timer that records a work session on a project. Only one session runs
+ * at a time, so starting here stops a timer running on another project. Stopping
+ * asks for an optional count of drills placed during the session.
+ */
+const SessionTimer: React.FC<SessionTimerProps> = ({ projectId, compact = false, className }) => {
+  const { data: activeSession, isLoading } = useActiveWorkSession();
+  const startSession = useStartWorkSession();
+  const stopSession = useStopWorkSession();
+  const [isStopDialogOpen, setIsStopDialogOpen] = useState(false);
+  const [drillsInput, setDrillsInput] = useState('');
+
+  const runningHere = activeSession?.projectId === projectId ? activeSession : null;
+  const runningElsewhere = !!activeSession && !runningHere;
+  const elapsed = useElapsedSeconds(runningHere);
+  const isBusy = isLoading || startSession.isPending || stopSession.isPending;
+
+  const drills = drillsInput.trim() === '' ? undefined : Number(drillsInput);
+  const drillsInvalid = drills !== undefined && (!Number.isInteger(drills) || drills < 0);
+
+  const handleStart = (event: React.MouseEvent) => {
+    event.stopPropagation();
+    startSession.mutate(projectId);
+  };
+
+  const handleOpenStop = (event: React.MouseEvent) => {
+    event.stopPropagation();
+    setDrillsInput('');
+    setIsStopDialogOpen(true);
+  };
+
+  const handleStop = () => {
+    if (!runningHere || drillsInvalid) return;
+    stopSession.mutate(
+      { session: runningHere, drillsPlaced: drills || undefined },
+      { onSuccess: () => setIsStopDialogOpen(false) }
+    );
+  };
+
+  return (
+    <div
+      className={cn('flex items-center gap-2', compact && 'justify-between', className)}
+      onClick={event => event.stopPropagation()}
+    >
+      {runningHere ? (
+        <>
+          <span
+            className={cn('font-mono tabular-nums', compact ? 'text-sm' : 'text-2xl font-semibold')}
+            aria-live="off"
+          >
+            {formatClock(elapsed)}
+          </span>
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={handleOpenStop}
+            disabled={isBusy}
+            aria-label="Stop timer"
+          >
+            <Square className="h-4 w-4" />
+            {!compact && <span className="ml-1">Stop</span>}
+          </Button>
+        </>
+      ) : (
+        <>
+          {!compact && runningElsewhere && (
+            <span className="text-xs text-muted-foreground">
+              Starting here stops your other timer
+            </span>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleStart}
+            disabled={isBusy}
+            className={cn(compact && 'w-full')}
+            title={runningElsewhere ? 'Stops the timer running on another project' : undefined}
+          >
+            {startSession.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Play className="h-4 w-4" />
+            )}
+            <span className="ml-1">{compact ? 'Start' : 'Start Session'}</span>
+          </Button>
+        </>
+      )}
+
+      <Dialog open={isStopDialogOpen} onOpenChange={setIsStopDialogOpen}>
+        <DialogContent onClick={event => event.stopPropagation()}>
+          <DialogHeader>
+            <DialogTitle>Stop session</DialogTitle>
+            <DialogDescription>
+              You worked for {formatClock(elapsed)}. Add the drills you placed to track your drills
+              per hour.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`session-drills-${projectId}`}>Drills placed (optional)</Label>
+            <Input
+              id={`session-drills-${projectId}`}
+              type="number"
+              inputMode="numeric"
+              min={0}
+              step={1}
+              value={drillsInput}
+              onChange={event => setDrillsInput(event.target.value)}
+              placeholder="e.g. 1200"
+            />
+            {drillsInvalid && (
+              <p className="text-sm text-destructive">Enter a whole number of drills.</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsStopDialogOpen(false)}>
+              Keep Going
+            </Button>
+            <Button onClick={handleStop} disabled={drillsInvalid || stopSession.isPending}>
+              {stopSession.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Session
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default SessionTimer;
@@ -0,0 +1,90 @@
+/**
+ * Drill type and canvas type selects for the project forms. Renders two fields for the
+ * caller to place in its own grid.
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import FormField from './FormField';
+import { CANVAS_TYPE_LABELS, DRILL_TYPE_LABELS } from '@/utils/kitMaterials';
+
+const NOT_SPECIFIED = '__none__';
+
+interface KitMaterialFieldsProps {
+  drillType?: string | null;
+  canvasType?: string | null;
+  /** Receives '' when the field is cleared */
+  onDrillTypeChange: (value: string) => void;
+  onCanvasTypeChange: (value: string) => void;
+  isSubmitting?: boolean;
+}
+
+const MaterialSelect = ({
+  id,
+  label,
+  labels,
+  value,
+  onChange,
+  isSubmitting,
+}: {
+  id: string;
+  label: string;
+  labels: Record<string, string>;
+  value?: string | null;
+  onChange: (value: string) => void;
+  isSubmitting: boolean;
+}) => (
+  <FormField id={id} label={label}>
+    <Select
+      value={value || NOT_SPECIFIED}
+      onValueChange={next => onChange(next === NOT_SPECIFIED ? '' : next)}
+      disabled={isSubmitting}
+    >
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NOT_SPECIFIED}>Not specified</SelectItem>
+        {Object.entries(labels).map(([option, optionLabel]) => (
+          <SelectItem key={option} value={option}>
+            {optionLabel}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </FormField>
+);
+
+export const KitMaterialFields = ({
+  drillType,
+  canvasType,
+  onDrillTypeChange,
+  onCanvasTypeChange,
+  isSubmitting = false,
+}: KitMaterialFieldsProps) => (
+  <>
+    <MaterialSelect
+      id="drillType"
+      label="Drill Type"
+      labels={DRILL_TYPE_LABELS}
+      value={drillType}
+      onChange={onDrillTypeChange}
+      isSubmitting={isSubmitting}
+    />
+    <MaterialSelect
+      id="canvasType"
+      label="Canvas Type"
+      labels={CANVAS_TYPE_LABELS}
+      value={canvasType}
+      onChange={onCanvasTypeChange}
+      isSubmitting={isSubmitting}
+    />
+  </>
+);
@@ -8,6 +8,7 @@ import {
 } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import FormField from './FormField';
+import { KitMaterialFields } from './KitMaterialFields';
 import { createLogger } from '@/utils/logger';
 
 interface ProjectSpecsProps {
@@ -17,6 +18,10 @@ interface ProjectSpecsProps {
   onHeightChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   drillShape: string;
   onDrillShapeChange: (value: string) => void;
+  drillType?: string;
+  onDrillTypeChange: (value: string) => void;
+  canvasType?: string;
+  onCanvasTypeChange: (value: string) => void;
   sourceUrl?: string;
   onSourceUrlChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   totalDiamonds?: string;
@@ -39,6 +44,10 @@ const ProjectSpecs = ({
   onHeightChange,
   drillShape,
   onDrillShapeChange,
+  drillType = '',
+  onDrillTypeChange,
+  canvasType = '',
+  onCanvasTypeChange,
   sourceUrl = '',
   onSourceUrlChange,
   totalDiamonds = '',
@@ -91,6 +100,16 @@ const ProjectSpecs = ({
         </FormField>
       </div>
 
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <KitMaterialFields
+          drillType={drillType}
+          canvasType={canvasType}
+          onDrillTypeChange={onDrillTypeChange}
+          onCanvasTypeChange={onCanvasTypeChange}
+          isSubmitting={isSubmitting}
+        />
+      </div>
+
       <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
         <FormField id="totalDiamonds" label="Total Diamonds">
           <Input
@@ -0,0 +1,123 @@
+/**
+ * Purchase cost fields for the project form: price, shipping, discount, currency and
+ * the seller's order reference, with the resulting total
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ProjectFormValues } from '@/types/project';
+import {
+  CURRENCY_OPTIONS,
+  DEFAULT_CURRENCY,
+  formatCurrency,
+  getTotalCost,
+  normalizeCurrency,
+  ORDER_REFERENCE_MAX_LENGTH,
+  parseMoney,
+} from '@/utils/purchaseCost';
+
+type PurchaseField = 'price' | 'shippingCost' | 'discount' | 'currency' | 'orderReference';
+
+interface PurchaseDetailsFieldsProps {
+  formData: Pick<ProjectFormValues, PurchaseField>;
+  isSubmitting: boolean;
+  onFieldChange: (field: PurchaseField, value: string) => void;
+}
+
+const AMOUNT_FIELDS: { field: 'price' | 'shippingCost' | 'discount'; label: string }[] = [
+  { field: 'price', label: 'Price' },
+  { field: 'shippingCost', label: 'Shipping' },
+  { field: 'discount', label: 'Discount / Coupon' },
+];
+
+export const PurchaseDetailsFields = ({
+  formData,
+  isSubmitting,
+  onFieldChange,
+}: PurchaseDetailsFieldsProps) => {
+  const currency = normalizeCurrency(formData.currency);
+  const currencyOptions: string[] = [...CURRENCY_OPTIONS];
+  if (formData.currency && !currencyOptions.includes(currency)) {
+    currencyOptions.push(currency);
+  }
+
+  const total = getTotalCost({
+    price: parseMoney(formData.price),
+    shippingCost: parseMoney(formData.shippingCost),
+    discount: parseMoney(formData.discount),
+  });
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <h3 className="mb-4 text-lg font-semibold">Purchase Details</h3>
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+          {AMOUNT_FIELDS.map(({ field, label }) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={field}>{label}</Label>
+              <Input
+                id={field}
+                type="number"
+                min="0"
+                step="0.01"
+                inputMode="decimal"
+                value={formData[field] ?? ''}
+                onChange={e => onFieldChange(field, e.target.value)}
+                placeholder="0.00"
+                disabled={isSubmitting}
+              />
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <Label htmlFor="currency">Currency</Label>
+            <Select
+              value={formData.currency || DEFAULT_CURRENCY}
+              onValueChange={value => onFieldChange('currency', value)}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger id="currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {currencyOptions.map(code => (
+                  <SelectItem key={code} value={code}>
+                    {code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="orderReference">Order Reference</Label>
+            <Input
+              id="orderReference"
+              value={formData.orderReference || ''}
+              onChange={e => onFieldChange('orderReference', e.target.value)}
+              maxLength={ORDER_REFERENCE_MAX_LENGTH}
+              placeholder="Order or invoice number"
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+
+        {total !== null && (
+          <p className="mt-4 text-sm text-muted-foreground">
+            Total paid: <span className="font-medium">{formatCurrency(total, currency)}</span>
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
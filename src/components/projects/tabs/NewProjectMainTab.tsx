@@ -17,6 +17,7 @@ import { ProjectImageSection } from '@/components/projects/form-sections/Project
 import { useImageUpload } from '@/hooks/useImageUpload';
 import ArtistSelect from '@/components/projects/form/ArtistSelect';
 import CompanySelect from '@/components/projects/form/CompanySelect';
+import { KitMaterialFields } from '@/components/projects/form/KitMaterialFields';
 
 // Type-safe status options that match ProjectStatus type
 const STATUS_OPTIONS: Record<ProjectStatus, string> = {
@@ -221,6 +222,14 @@ export const NewProjectMainTab = ({
                 disabled={isSubmitting}
               />
             </div>
+
+            <KitMaterialFields
+              drillType={formData.drillType}
+              canvasType={formData.canvasType}
+              onDrillTypeChange={value => handleInputChange('drillType', value)}
+              onCanvasTypeChange={value => handleInputChange('canvasType', value)}
+              isSubmitting={isSubmitting}
+            />
           </div>
         </CardContent>
       </Card>
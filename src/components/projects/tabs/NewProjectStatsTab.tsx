@@ -3,6 +3,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useNumberInput } from '@/hooks/useNumberInput';
+import { PurchaseDetailsFields } from '@/components/projects/form/PurchaseDetailsFields';
 
 interface NewProjectStatsTabProps {
   formData: ProjectFormValues;
@@ -136,6 +137,12 @@ export const NewProjectStatsTab = ({
           </div>
         </CardContent>
       </Card>
+
+      <PurchaseDetailsFields
+        formData={formData}
+        isSubmitting={isSubmitting}
+        onFieldChange={handleInputChange}
+      />
     </div>
   );
 };
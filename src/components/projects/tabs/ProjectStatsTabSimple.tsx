@@ -11,6 +11,8 @@ import {
 import { Label } from '@/components/ui/label';
 import { toUserDateString, detectUserTimezone } from '@/utils/timezoneUtils';
 import { useNumberInput } from '@/hooks/useNumberInput';
+import { PurchaseDetailsFields } from '@/components/projects/form/PurchaseDetailsFields';
+import { KitMaterialFields } from '@/components/projects/form/KitMaterialFields';
 
 interface ProjectStatsTabSimpleProps {
   formData: ProjectFormValues | null;
@@ -186,10 +188,24 @@ export const ProjectStatsTabSimple = ({
                 disabled={isSubmitting}
               />
             </div>
+
+            <KitMaterialFields
+              drillType={formData.drillType}
+              canvasType={formData.canvasType}
+              onDrillTypeChange={value => handleInputChange('drillType', value)}
+              onCanvasTypeChange={value => handleInputChange('canvasType', value)}
+              isSubmitting={isSubmitting}
+            />
           </div>
         </CardContent>
       </Card>
 
+      <PurchaseDetailsFields
+        formData={formData}
+        isSubmitting={isSubmitting}
+        onFieldChange={handleInputChange}
+      />
+
       {/* Source Information */}
       <Card>
         <CardContent className="pt-6">
@@ -1,15 +1,17 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import ProgressNoteForm from '../ProgressNoteForm';
+import { ProgressNoteSubmitData } from '../ProgressNoteForm/types';
 
 interface AddProgressNoteProps {
-  onAddProgressNote: (note: { date: string; content: string; imageFile?: File }) => Promise<void>;
+  onAddProgressNote: (note: ProgressNoteSubmitData) => Promise<void>;
+  totalDiamonds?: number;
 }
 
-const AddProgressNote = ({ onAddProgressNote }: AddProgressNoteProps) => {
+const AddProgressNote = ({ onAddProgressNote, totalDiamonds }: AddProgressNoteProps) => {
   const [isAddingNote, setIsAddingNote] = useState(false);
 
-  const handleSubmit = async (noteData: { date: string; content: string; imageFile?: File }) => {
+  const handleSubmit = async (noteData: ProgressNoteSubmitData) => {
     await onAddProgressNote(noteData);
     setIsAddingNote(false);
   };
@@ -30,7 +32,7 @@ const AddProgressNote = ({ onAddProgressNote }: AddProgressNoteProps) => {
           Cancel
         </Button>
       </div>
-      <ProgressNoteForm onSubmit={handleSubmit} />
+      <ProgressNoteForm onSubmit={handleSubmit} totalDiamonds={totalDiamonds} />
     </div>
   );
 };
@@ -0,0 +1,80 @@
+import React, { useMemo } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { format } from 'date-fns';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import type { ChartConfig } from '@/components/ui/chart-types';
+import type { CompletionEstimate, ProgressPoint } from '@/utils/drillProgress';
+
+interface ProgressBurnUpChartProps {
+  points: ProgressPoint[];
+  estimate?: CompletionEstimate | null;
+}
+
+const chartConfig = {
+  percent: { label: 'Complete', color: 'hsl(var(--primary))' },
+  projected: { label: 'Projected', color: '#f97316' },
+} satisfies ChartConfig;
+
+const formatDay = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return format(new Date(year, month - 1, date), 'MMM d');
+};
+
+/**
+ * Burn-up chart of percent complete over time, with a dashed projection to the
+ * estimated completion date when one is available
+ */
+const ProgressBurnUpChart = ({ points, estimate }: ProgressBurnUpChartProps) => {
+  const data = useMemo(() => {
+    const rows: Array<{ day: string; percent?: number; projected?: number }> = points.map(
+      point => ({ day: formatDay(point.date), percent: Math.round(point.percent * 10) / 10 })
+    );
+
+    if (estimate && rows.length > 0) {
+      const last = rows[rows.length - 1];
+      last.projected = last.percent;
+      rows.push({ day: formatDay(estimate.date), projected: 100 });
+    }
+    return rows;
+  }, [points, estimate]);
+
+  if (points.length === 0) {
+    return null;
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="h-[220px] w-full">
+      <LineChart data={data} margin={{ left: -16, right: 8, top: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="day" tickLine={false} axisLine={false} />
+        <YAxis
+          domain={[0, 100]}
+          ticks={[0, 25, 50, 75, 100]}
+          tickLine={false}
+          axisLine={false}
+          tickFormatter={(value: number) => `${value}%`}
+        />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Line
+          dataKey="percent"
+          type="monotone"
+          stroke="var(--color-percent)"
+          strokeWidth={2}
+          dot={{ r: 3 }}
+          connectNulls
+        />
+        <Line
+          dataKey="projected"
+          type="linear"
+          stroke="var(--color-projected)"
+          strokeWidth={2}
+          strokeDasharray="4 4"
+          dot={false}
+          connectNulls
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+export default React.memo(ProgressBurnUpChart);
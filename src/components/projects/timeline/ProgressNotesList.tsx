@@ -1,13 +1,17 @@
 import React from 'react';
 import { ProgressNote } from '@/types/project';
+import { ProgressNoteUpdateData } from '../ProgressNoteForm/types';
 import ProgressNoteItem from '../ProgressNoteItem';
 
 interface ProgressNotesListProps {
   progressNotes: ProgressNote[];
-  onUpdateProgressNote?: (noteId: string, content: string) => Promise<void>;
+  onUpdateProgressNote?: (noteId: string, update: ProgressNoteUpdateData) => Promise<void>;
   onDeleteProgressNote?: (noteId: string) => Promise<void>;
   onDeleteProgressNoteImage?: (noteId: string) => Promise<void>;
   disabled?: boolean;
+  totalDiamonds?: number;
+  /** Note to highlight, e.g. when opened from a search result */
+  highlightedNoteId?: string | null;
 }
 
 // Use React.memo to prevent unnecessary rerenders
@@ -18,6 +22,8 @@ const ProgressNotesList = React.memo(
     onDeleteProgressNote,
     onDeleteProgressNoteImage,
     disabled = false,
+    totalDiamonds,
+    highlightedNoteId,
   }: ProgressNotesListProps) => {
     if (!progressNotes || progressNotes.length === 0) {
       return null;
@@ -33,6 +39,8 @@ const ProgressNotesList = React.memo(
             onDeleteNote={onDeleteProgressNote}
             onDeleteImage={onDeleteProgressNoteImage}
             disabled={disabled}
+            totalDiamonds={totalDiamonds}
+            isHighlighted={note.id === highlightedNoteId}
           />
         ))}
       </div>
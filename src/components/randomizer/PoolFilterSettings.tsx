@@ -0,0 +1,368 @@
+/**
+ * @fileoverview Filter-based Pool Settings for the Randomizer
+ *
+ * Defines the wheel's pool with a project filter (status, tags, company, drill shape
+ * and kit size) instead of hand-picked projects, and lets users save, update and
+ * delete named pools. The pool's projects come from the live project query, so they
+ * follow the stash as it changes.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useState } from 'react';
+import { Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/hooks/useAuth';
+import { useTags } from '@/hooks/queries/useTags';
+import { useAllCompanies } from '@/hooks/queries/useCompanies';
+import {
+  useCreateRandomizerPool,
+  useDeleteRandomizerPool,
+  useUpdateRandomizerPool,
+} from '@/hooks/mutations/useRandomizerPoolMutations';
+import { ProjectsDrillShapeOptions } from '@/types/pocketbase.types';
+import type { ProjectFilterStatus } from '@/types/projectFilters';
+import type { RandomizerPool, RandomizerPoolFilters } from '@/types/randomizerPool';
+import { getStatusLabel } from '@/utils/projectStatusUtils';
+import { POOL_STATUSES } from '@/utils/randomizerPools';
+
+interface PoolFilterSettingsProps {
+  filters: RandomizerPoolFilters;
+  onChange: (filters: Partial<RandomizerPoolFilters>) => void;
+  savedPools: RandomizerPool[];
+  activePool: RandomizerPool | null;
+  isModified: boolean;
+  onLoadPool: (pool: RandomizerPool | null) => void;
+  projectCount: number;
+  isLoading?: boolean;
+}
+
+const NO_POOL = 'none';
+
+const getPoolStatusLabel = (status: ProjectFilterStatus): string => {
+  if (status === 'active') return 'Active (purchased, stash, in progress, on hold)';
+  if (status === 'everything') return 'All projects';
+  return getStatusLabel(status);
+};
+
+export const PoolFilterSettings: React.FC<PoolFilterSettingsProps> = ({
+  filters,
+  onChange,
+  savedPools,
+  activePool,
+  isModified,
+  onLoadPool,
+  projectCount,
+  isLoading = false,
+}) => {
+  const { user } = useAuth();
+  const { data: tags = [] } = useTags();
+  const { data: companies = [] } = useAllCompanies(user?.id);
+  const createPool = useCreateRandomizerPool();
+  const updatePool = useUpdateRandomizerPool();
+  const deletePool = useDeleteRandomizerPool();
+
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+  const [poolName, setPoolName] = useState('');
+  const [poolToDelete, setPoolToDelete] = useState<RandomizerPool | null>(null);
+
+  const drillShapes = Object.values(ProjectsDrillShapeOptions);
+
+  const toggleTag = (tagId: string) => {
+    const selected = filters.selectedTags.includes(tagId);
+    onChange({
+      selectedTags: selected
+        ? filters.selectedTags.filter(id => id !== tagId)
+        : [...filters.selectedTags, tagId],
+    });
+  };
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!poolName.trim()) return;
+
+    createPool.mutate(
+      { name: poolName, filters },
+      {
+        onSuccess: pool => {
+          setIsSaveDialogOpen(false);
+          setPoolName('');
+          onLoadPool(pool);
+        },
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!poolToDelete) return;
+    const pool = poolToDelete;
+    deletePool.mutate(pool, {
+      onSuccess: () => {
+        if (activePool?.id === pool.id) onLoadPool(null);
+      },
+    });
+    setPoolToDelete(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Saved pools */}
+      <div className="space-y-2">
+        <Label htmlFor="randomizer-saved-pool">Saved pool</Label>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={activePool?.id ?? NO_POOL}
+            onValueChange={value => onLoadPool(savedPools.find(pool => pool.id === value) ?? null)}
+          >
+            <SelectTrigger id="randomizer-saved-pool" className="sm:w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_POOL}>Unsaved filter</SelectItem>
+              {savedPools.map(pool => (
+                <SelectItem key={pool.id} value={pool.id}>
+                  {pool.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {activePool && isModified && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updatePool.mutate({ id: activePool.id, values: { filters } })}
+              disabled={updatePool.isPending}
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Update pool
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={() => setIsSaveDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Save as pool
+          </Button>
+          {activePool && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setPoolToDelete(activePool)}
+              aria-label={`Delete ${activePool.name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Filter fields */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="randomizer-pool-status">Status</Label>
+          <Select
+            value={filters.status}
+            onValueChange={value => onChange({ status: value as ProjectFilterStatus })}
+          >
+            <SelectTrigger id="randomizer-pool-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {POOL_STATUSES.map(status => (
+                <SelectItem key={status} value={status}>
+                  {getPoolStatusLabel(status)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="randomizer-pool-company">Company</Label>
+          <Select value={filters.company} onValueChange={value => onChange({ company: value })}>
+            <SelectTrigger id="randomizer-pool-company">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All companies</SelectItem>
+              {companies.map(company => (
+                <SelectItem key={company.id} value={company.id}>
+                  {company.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="randomizer-pool-drill-shape">Drill shape</Label>
+          <Select
+            value={filters.drillShape}
+            onValueChange={value => onChange({ drillShape: value })}
+          >
+            <SelectTrigger id="randomizer-pool-drill-shape">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All shapes</SelectItem>
+              {drillShapes.map(shape => (
+                <SelectItem key={shape} value={shape}>
+                  {shape.charAt(0).toUpperCase() + shape.slice(1)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="randomizer-pool-kit-category">Kit size</Label>
+          <Select
+            value={filters.kitCategory}
+            onValueChange={value =>
+              onChange({ kitCategory: value as RandomizerPoolFilters['kitCategory'] })
+            }
+          >
+            <SelectTrigger id="randomizer-pool-kit-category">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All sizes</SelectItem>
+              <SelectItem value="full">Full sized</SelectItem>
+              <SelectItem value="mini">Mini</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Tags</Label>
+            {filters.selectedTags.length > 1 && (
+              <Select
+                value={filters.tagMatchMode}
+                onValueChange={value => onChange({ tagMatchMode: value as 'any' | 'all' })}
+              >
+                <SelectTrigger className="h-8 w-36" aria-label="Tag match mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Match any</SelectItem>
+                  <SelectItem value="all">Match all</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {tags.map(tag => {
+              const selected = filters.selectedTags.includes(tag.id);
+              return (
+                <button
+                  key={tag.id}
+                  type="button"
+                  onClick={() => toggleTag(tag.id)}
+                  aria-pressed={selected}
+                >
+                  <Badge
+                    variant={selected ? 'default' : 'outline'}
+                    className={cn('cursor-pointer', !selected && 'opacity-70')}
+                  >
+                    {tag.name}
+                  </Badge>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <p className="text-sm text-muted-foreground">
+        {isLoading
+          ? 'Finding matching projects...'
+          : `${projectCount} project${projectCount === 1 ? '' : 's'} match this pool.`}
+      </p>
+
+      <Dialog open={isSaveDialogOpen} onOpenChange={setIsSaveDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSave}>
+            <DialogHeader>
+              <DialogTitle>Save pool</DialogTitle>
+              <DialogDescription>
+                Saves this filter so you can spin the same pool again. Projects that start or stop
+                matching are picked up automatically.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="randomizer-pool-name">Name</Label>
+              <Input
+                id="randomizer-pool-name"
+                value={poolName}
+                onChange={event => setPoolName(event.target.value)}
+                placeholder="e.g. Mini kits in my stash"
+                maxLength={100}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsSaveDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!poolName.trim() || createPool.isPending}>
+                Save pool
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!poolToDelete} onOpenChange={open => !open && setPoolToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{poolToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The saved pool will be removed. Your projects and spin history are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -69,6 +69,12 @@ interface RandomizerWheelProps {
   onSpinComplete: (selectedProject: Project) => void;
   /** Whether the wheel should be disabled (optional) */
   disabled?: boolean;
+  /**
+   * Chooses the winner before the wheel spins (optional). The wheel then lands on that
+   * project, which lets weighted selection modes drive the result. Without it every
+   * segment is equally likely.
+   */
+  pickWinner?: (projects: Project[]) => Project | null;
 }
 
 /**
@@ -129,6 +135,7 @@ export const RandomizerWheel: React.FC<RandomizerWheelProps> = ({
   projects,
   onSpinComplete,
   disabled = false,
+  pickWinner,
 }) => {
   /** Whether the wheel is currently spinning */
   const [isSpinning, setIsSpinning] = useState(false);
@@ -199,13 +206,24 @@ export const RandomizerWheel: React.FC<RandomizerWheelProps> = ({
 
     // Calculate random rotation (multiple full rotations + random angle)
     const baseRotation = prefersReducedMotion ? 0 : 1800; // No spin if reduced motion
-    const randomRotation = Math.random() * 360;
+    const segmentAngle = 360 / projects.length;
+    let randomRotation = Math.random() * 360;
+
+    // When the winner is chosen up front, land the arrow inside the winner's segment
+    const winner = pickWinner?.(projects);
+    const winnerIndex = winner ? projects.indexOf(winner) : -1;
+    if (winnerIndex >= 0) {
+      const targetArrow = (winnerIndex + 0.15 + Math.random() * 0.7) * segmentAngle;
+      const targetFinal = (((270 - targetArrow) % 360) + 360) % 360;
+      const currentFinal = (((rotation + baseRotation) % 360) + 360) % 360;
+      randomRotation = (targetFinal - currentFinal + 360) % 360;
+    }
+
     const totalRotation = rotation + baseRotation + randomRotation;
 
     setRotation(totalRotation);
 
     // Calculate which project was selected
-    const segmentAngle = 360 / projects.length;
     // The wheel rotates clockwise, and the arrow points down (at 270 degrees from 0)
     // We need to find which segment the arrow (fixed at top) points to after rotation
     const finalRotation = totalRotation % 360;
@@ -252,6 +270,7 @@ export const RandomizerWheel: React.FC<RandomizerWheelProps> = ({
     isSpinning,
     projects,
     rotation,
+    pickWinner,
     onSpinComplete,
     announceSpinStart,
     announceSpinResult,
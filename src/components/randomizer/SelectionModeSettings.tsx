@@ -0,0 +1,176 @@
+/**
+ * @fileoverview Selection Mode Settings for the Randomizer
+ *
+ * Lets users choose how the wheel picks a winner (uniform, by stash age, by tag,
+ * by kit size or favouring projects that have not won recently) and how many recent
+ * winners to leave off the wheel. Settings are saved in the persisted randomizer
+ * preferences.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useTags } from '@/hooks/queries/useTags';
+import type { RandomizerPreferences, RandomizerSelectionMode } from '@/stores/randomizerStore';
+import { MAX_EXCLUDED_RECENT_WINNERS } from '@/stores/randomizerUtils';
+
+interface SelectionModeSettingsProps {
+  preferences: RandomizerPreferences;
+  onChange: (preferences: Partial<RandomizerPreferences>) => void;
+  disabled?: boolean;
+}
+
+const MODE_OPTIONS: { value: RandomizerSelectionMode; label: string; description: string }[] = [
+  { value: 'uniform', label: 'Equal chance', description: 'Every project is equally likely.' },
+  {
+    value: 'stash_age',
+    label: 'Oldest in stash',
+    description: 'Kits received longer ago are more likely to win.',
+  },
+  {
+    value: 'tag',
+    label: 'Favour tags',
+    description: 'Projects with any of the chosen tags are three times as likely.',
+  },
+  {
+    value: 'kit_size',
+    label: 'Favour kit size',
+    description: 'Projects of the chosen kit size are three times as likely.',
+  },
+  {
+    value: 'not_recent',
+    label: 'Not picked recently',
+    description: "Projects that haven't won in a while are more likely.",
+  },
+];
+
+const EXCLUDE_OPTIONS = [0, 1, 2, 3, 5, MAX_EXCLUDED_RECENT_WINNERS];
+
+export const SelectionModeSettings: React.FC<SelectionModeSettingsProps> = ({
+  preferences,
+  onChange,
+  disabled = false,
+}) => {
+  const { data: tags = [] } = useTags();
+  const activeMode = MODE_OPTIONS.find(option => option.value === preferences.selectionMode);
+
+  const toggleTag = (tagId: string) => {
+    const selected = preferences.weightedTagIds.includes(tagId);
+    onChange({
+      weightedTagIds: selected
+        ? preferences.weightedTagIds.filter(id => id !== tagId)
+        : [...preferences.weightedTagIds, tagId],
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="randomizer-selection-mode">Selection mode</Label>
+          <Select
+            value={preferences.selectionMode}
+            onValueChange={value => onChange({ selectionMode: value as RandomizerSelectionMode })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="randomizer-selection-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MODE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="randomizer-exclude-recent">Skip recent winners</Label>
+          <Select
+            value={String(preferences.excludeRecentWinners)}
+            onValueChange={value => onChange({ excludeRecentWinners: Number(value) })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="randomizer-exclude-recent">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXCLUDE_OPTIONS.map(count => (
+                <SelectItem key={count} value={String(count)}>
+                  {count === 0 ? "Don't skip" : `Last ${count} winner${count === 1 ? '' : 's'}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {activeMode && <p className="text-sm text-muted-foreground">{activeMode.description}</p>}
+
+      {preferences.selectionMode === 'kit_size' && (
+        <div className="space-y-2">
+          <Label htmlFor="randomizer-kit-size">Kit size</Label>
+          <Select
+            value={preferences.preferredKitSize}
+            onValueChange={value => onChange({ preferredKitSize: value as 'full' | 'mini' })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="randomizer-kit-size" className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="full">Full sized</SelectItem>
+              <SelectItem value="mini">Mini</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {preferences.selectionMode === 'tag' && (
+        <div className="space-y-2">
+          <Label>Tags</Label>
+          {tags.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              You don't have any tags yet. Add tags to your projects to use this mode.
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {tags.map(tag => {
+                const selected = preferences.weightedTagIds.includes(tag.id);
+                return (
+                  <button
+                    key={tag.id}
+                    type="button"
+                    onClick={() => toggleTag(tag.id)}
+                    disabled={disabled}
+                    aria-pressed={selected}
+                  >
+                    <Badge
+                      variant={selected ? 'default' : 'outline'}
+                      className={cn('cursor-pointer', !selected && 'opacity-70')}
+                    >
+                      {tag.name}
+                    </Badge>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -8,3 +8,5 @@ export { RandomizerWheel } from './RandomizerWheel';
 export { OptimizedWheel } from './OptimizedWheel';
 export { ProjectSelector } from './ProjectSelector';
 export { SpinHistory } from './SpinHistory';
+export { SelectionModeSettings } from './SelectionModeSettings';
+export { PoolFilterSettings } from './PoolFilterSettings';
@@ -107,7 +107,9 @@ const EditProject = createLazyComponent(() => import('@/pages/EditProject'), 'Ed
 
 // Lazy load data management pages
 const CompanyList = lazy(() => import('@/pages/CompanyList'));
+const CompanyDetail = lazy(() => import('@/pages/CompanyDetail'));
 const ArtistList = lazy(() => import('@/pages/ArtistList'));
+const ArtistDetail = lazy(() => import('@/pages/ArtistDetail'));
 const TagList = lazy(() => import('@/pages/TagList'));
 const Import = lazy(() => import('@/pages/Import'));
 
@@ -118,6 +120,16 @@ const ProjectRandomizer = createLazyComponent(
   () => import('@/pages/ProjectRandomizer'),
   'ProjectRandomizer'
 );
+const Stats = createLazyComponent(() => import('@/pages/Stats'), 'Stats');
+const Orders = createLazyComponent(() => import('@/pages/Orders'), 'Orders');
+const Drills = createLazyComponent(() => import('@/pages/Drills'), 'Drills');
+const Calendar = createLazyComponent(() => import('@/pages/Calendar'), 'Calendar');
+const SharedProject = createLazyComponent(() => import('@/pages/SharedProject'), 'SharedProject');
+const PublicProfile = createLazyComponent(() => import('@/pages/PublicProfile'), 'PublicProfile');
+const CompletedGallery = createLazyComponent(
+  () => import('@/pages/CompletedGallery'),
+  'CompletedGallery'
+);
 
 // Debug wrapper for ProjectDetail route
 const ProjectDetailWrapper: React.FC = () => {
@@ -288,6 +300,17 @@ export const AppRoutes: React.FC = () => {
         }
       />
 
+      <Route
+        path="/companies/:companyId"
+        element={
+          <ProtectedRoute>
+            <Suspense fallback={<PageLoading />}>
+              <CompanyDetail />
+            </Suspense>
+          </ProtectedRoute>
+        }
+      />
+
       <Route
         path="/artists"
         element={
@@ -299,6 +322,17 @@ export const AppRoutes: React.FC = () => {
         }
       />
 
+      <Route
+        path="/artists/:artistId"
+        element={
+          <ProtectedRoute>
+            <Suspense fallback={<PageLoading />}>
+              <ArtistDetail />
+            </Suspense>
+          </ProtectedRoute>
+        }
+      />
+
       <Route
         path="/tags"
         element={
@@ -345,11 +379,89 @@ export const AppRoutes: React.FC = () => {
         }
       />
 
+      {/* Yearly stats route */}
+      <Route
+        path="/stats"
+        element={
+          <ProtectedRoute>
+            <Suspense fallback={<PageLoading />}>
+              <Stats />
+            </Suspense>
+          </ProtectedRoute>
+        }
+      />
+
+      {/* Orders route */}
+      <Route
+        path="/orders"
+        element={
+          <ProtectedRoute>
+            <Suspense fallback={<PageLoading />}>
+              <Orders />
+            </Suspense>
+          </ProtectedRoute>
+        }
+      />
+
+      {/* Drills route */}
+      <Route
+        path="/drills"
+        element={
+          <ProtectedRoute>
+            <Suspense fallback={<PageLoading />}>
+              <Drills />
+            </Suspense>
+          </ProtectedRoute>
+        }
+      />
+
+      {/* Calendar route */}
+      <Route
+        path="/calendar"
+        element={
+          <ProtectedRoute>
+            <Suspense fallback={<PageLoading />}>
+              <Calendar />
+            </Suspense>
+          </ProtectedRoute>
+        }
+      />
+
+      {/* Completed gallery route */}
+      <Route
+        path="/gallery"
+        element={
+          <ProtectedRoute>
+            <Suspense fallback={<PageLoading />}>
+              <CompletedGallery />
+            </Suspense>
+          </ProtectedRoute>
+        }
+      />
+
       {/* Public information routes */}
       <Route path="/about" element={<About />} />
       <Route path="/privacy" element={<Privacy />} />
       <Route path="/terms" element={<Terms />} />
       <Route path="/links" element={<LinksPage />} />
+
+      {/* Public share routes, readable without signing in */}
+      <Route
+        path="/share/:token"
+        element={
+          <Suspense fallback={<PageLoading />}>
+            <SharedProject />
+          </Suspense>
+        }
+      />
+      <Route
+        path="/u/:username"
+        element={
+          <Suspense fallback={<PageLoading />}>
+            <PublicProfile />
+          </Suspense>
+        }
+      />
       <Route path="/changelog" element={<Changelog />} />
 
       {/* 404 catch-all route */}
@@ -0,0 +1,242 @@
+/**
+ * Share dialog on the project detail page: choose what visitors see, create or update
+ * the read-only link, copy it or revoke it
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Copy, Loader2, Share2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useProjectShare } from '@/hooks/queries/useSharing';
+import { useRevokeProjectShare, useSaveProjectShare } from '@/hooks/mutations/useSharingMutations';
+import { useToast } from '@/hooks/use-toast';
+import { createLogger } from '@/utils/logger';
+import { DEFAULT_SHARE_FIELDS, SHARE_FIELD_OPTIONS, getShareUrl } from '@/utils/sharing';
+import type { ProjectStatus } from '@/types/project';
+import type { ShareField } from '@/types/sharing';
+
+const logger = createLogger('ProjectShareDialog');
+
+interface ProjectShareDialogProps {
+  projectId: string;
+  status: ProjectStatus;
+  size?: 'sm' | 'default';
+  disabled?: boolean;
+}
+
+export const ProjectShareDialog: React.FC<ProjectShareDialogProps> = ({
+  projectId,
+  status,
+  size = 'default',
+  disabled,
+}) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [fields, setFields] = useState<ShareField[]>(DEFAULT_SHARE_FIELDS);
+  const [showOnProfile, setShowOnProfile] = useState(false);
+
+  const { data: share, isLoading } = useProjectShare(projectId, open);
+  const saveShare = useSaveProjectShare();
+  const revokeShare = useRevokeProjectShare();
+
+  const isCompleted = status === 'completed';
+  const shareUrl = share ? getShareUrl(window.location.origin, share.token) : '';
+
+  // Start from the saved choices each time the dialog opens or the share changes
+  useEffect(() => {
+    if (!open || share === undefined) return;
+    setFields(share ? share.fields : DEFAULT_SHARE_FIELDS);
+    setShowOnProfile(share?.showOnProfile ?? false);
+  }, [open, share]);
+
+  const toggleField = (field: ShareField, checked: boolean) => {
+    setFields(current =>
+      checked ? [...current, field] : current.filter(existing => existing !== field)
+    );
+  };
+
+  const handleSave = () => {
+    saveShare.mutate({
+      projectId,
+      settings: { fields, showOnProfile },
+      existing: share ?? null,
+    });
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      toast({ title: 'Link copied', description: 'Anyone with this link can view the project.' });
+    } catch (error) {
+      logger.error('Failed to copy share link:', error);
+      toast({
+        title: 'Copy failed',
+        description: 'Could not copy the link to your clipboard.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size={size} disabled={disabled}>
+          <Share2 className="mr-2 h-4 w-4" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share project</DialogTitle>
+          <DialogDescription>
+            Anyone with the link sees a read-only copy with the title, status, project image and the
+            details you tick below. Saving again updates the copy.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-5">
+            {share && (
+              <div className="space-y-2">
+                <Label htmlFor="share-link">Share link</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="share-link"
+                    value={shareUrl}
+                    readOnly
+                    onFocus={e => e.target.select()}
+                  />
+                  <Button variant="outline" size="icon" onClick={handleCopy}>
+                    <Copy className="h-4 w-4" />
+                    <span className="sr-only">Copy link</span>
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <fieldset className="space-y-3">
+              <legend className="mb-2 text-sm font-medium">Show visitors</legend>
+              {SHARE_FIELD_OPTIONS.map(option => {
+                const needsProgress =
+                  option.field === 'progressText' && !fields.includes('progress');
+                return (
+                  <div key={option.field} className="flex items-start space-x-3">
+                    <Checkbox
+                      id={`share-field-${option.field}`}
+                      checked={fields.includes(option.field) && !needsProgress}
+                      disabled={needsProgress}
+                      onCheckedChange={checked => toggleField(option.field, checked === true)}
+                    />
+                    <div className="grid gap-0.5 leading-none">
+                      <Label
+                        htmlFor={`share-field-${option.field}`}
+                        className="flex items-center gap-2"
+                      >
+                        {option.label}
+                        {option.private && (
+                          <Badge variant="outline" className="text-[10px] font-normal">
+                            Private by default
+                          </Badge>
+                        )}
+                      </Label>
+                      <p className="text-xs text-muted-foreground">{option.description}</p>
+                    </div>
+                  </div>
+                );
+              })}
+            </fieldset>
+
+            <div className="flex items-start space-x-3 rounded-md border p-3">
+              <Checkbox
+                id="share-on-profile"
+                checked={showOnProfile && isCompleted}
+                disabled={!isCompleted}
+                onCheckedChange={checked => setShowOnProfile(checked === true)}
+              />
+              <div className="grid gap-0.5 leading-none">
+                <Label htmlFor="share-on-profile">List on my public profile</Label>
+                <p className="text-xs text-muted-foreground">
+                  {isCompleted
+                    ? 'Shown on your profile page while it is public. '
+                    : 'Only completed projects can be listed. '}
+                  <Link to="/profile" className="underline">
+                    Profile settings
+                  </Link>
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {share ? (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="ghost"
+                  className="text-destructive"
+                  disabled={revokeShare.isPending}
+                >
+                  Revoke link
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Revoke this link?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    The link stops working straight away and the project is removed from your public
+                    profile. Sharing again creates a new link.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => revokeShare.mutate(share)}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Revoke
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          ) : (
+            <span />
+          )}
+          <Button onClick={handleSave} disabled={isLoading || saveShare.isPending}>
+            {saveShare.isPending ? 'Saving...' : share ? 'Update shared copy' : 'Create link'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
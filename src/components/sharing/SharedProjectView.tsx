@@ -0,0 +1,141 @@
+/**
+ * Read-only view of a shared project, showing only what its snapshot holds
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import ImageGallery from '@/components/projects/ImageGallery';
+import { ImageService } from '@/services/ImageService';
+import { getStatusColor, getStatusLabel } from '@/utils/projectStatusUtils';
+import { formatCurrency } from '@/utils/purchaseCost';
+import type { SharedFile, SharedProjectSnapshot } from '@/types/sharing';
+
+const formatDate = (date: string) => format(parseISO(date), 'MMMM d, yyyy');
+
+const getFileUrl = (file: SharedFile) => ImageService.getOptimizedUrl(file, file.filename, 'large');
+
+const getSizeLabel = ({ width, height }: SharedProjectSnapshot): string | undefined => {
+  if (width && height) return `${width} x ${height} cm`;
+  if (width) return `${width} cm (width)`;
+  if (height) return `${height} cm (height)`;
+  return undefined;
+};
+
+const getKitLabel = (kitCategory?: string): string | undefined =>
+  kitCategory === 'full' ? 'Full Sized Kit' : kitCategory === 'mini' ? 'Mini Kit' : undefined;
+
+export const SharedProjectView: React.FC<{ snapshot: SharedProjectSnapshot }> = ({ snapshot }) => {
+  const details: Array<[string, string | undefined]> = [
+    ['Artist', snapshot.artist],
+    ['Company', snapshot.company],
+    ['Size', getSizeLabel(snapshot)],
+    [
+      'Drill Shape',
+      snapshot.drillShape && snapshot.drillShape.replace(/^\w/, c => c.toUpperCase()),
+    ],
+    ['Type of Kit', getKitLabel(snapshot.kitCategory)],
+    ['Total Diamonds', snapshot.totalDiamonds?.toLocaleString()],
+    ['Started', snapshot.dateStarted && formatDate(snapshot.dateStarted)],
+    ['Completed', snapshot.dateCompleted && formatDate(snapshot.dateCompleted)],
+    [
+      'Price',
+      snapshot.price !== undefined ? formatCurrency(snapshot.price, snapshot.currency) : undefined,
+    ],
+  ];
+  const shownDetails = details.filter((entry): entry is [string, string] => !!entry[1]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <h1 className="text-3xl font-bold">{snapshot.title}</h1>
+        <Badge variant="secondary" className={getStatusColor(snapshot.status)}>
+          {getStatusLabel(snapshot.status)}
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-12">
+        <div className="lg:col-span-7">
+          {snapshot.image ? (
+            <div className="rounded-lg border bg-card p-4 shadow-sm">
+              <ImageGallery
+                imageUrl={getFileUrl(snapshot.image)}
+                alt={snapshot.title}
+                size="large"
+              />
+            </div>
+          ) : (
+            <div className="flex h-64 items-center justify-center rounded-lg border bg-muted text-sm text-muted-foreground">
+              No image
+            </div>
+          )}
+        </div>
+
+        {(shownDetails.length > 0 || snapshot.notes) && (
+          <Card className="lg:col-span-5">
+            <CardHeader>
+              <CardTitle>Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {shownDetails.length > 0 && (
+                <dl className="grid grid-cols-2 gap-4">
+                  {shownDetails.map(([label, value]) => (
+                    <div key={label}>
+                      <dt className="text-sm font-medium text-muted-foreground">{label}</dt>
+                      <dd className="font-medium">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+              {snapshot.notes && (
+                <div>
+                  <h3 className="text-sm font-medium text-muted-foreground">Notes</h3>
+                  <p className="whitespace-pre-line">{snapshot.notes}</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {snapshot.progress && snapshot.progress.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Progress</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className="space-y-6 border-l pl-6">
+              {snapshot.progress.map((entry, index) => (
+                <li key={`${entry.date}-${index}`} className="relative space-y-2">
+                  <span className="absolute -left-[1.95rem] top-1.5 h-3 w-3 rounded-full border-2 border-background bg-primary" />
+                  <p className="text-sm font-medium">
+                    {formatDate(entry.date)}
+                    {entry.percentComplete !== undefined && (
+                      <span className="ml-2 text-muted-foreground">
+                        {entry.percentComplete}% complete
+                      </span>
+                    )}
+                  </p>
+                  {entry.text && <p className="text-sm">{entry.text}</p>}
+                  {entry.image && (
+                    <div className="max-w-sm">
+                      <ImageGallery
+                        imageUrl={getFileUrl(entry.image)}
+                        alt={`Progress picture from ${formatDate(entry.date)}`}
+                        instagramStyle
+                        size="medium"
+                      />
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+/**
+ * Diamonds placed in completed projects for every year with activity
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import type { ChartConfig } from '@/components/ui/chart-types';
+import type { YearTotals } from '@/types/dashboard-stats';
+
+const chartConfig = {
+  diamonds: { label: 'Diamonds', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+interface DiamondsPerYearChartProps {
+  totals: YearTotals[];
+}
+
+export const DiamondsPerYearChart: React.FC<DiamondsPerYearChartProps> = ({ totals }) => {
+  // Oldest year first so the chart reads left to right
+  const data = useMemo(
+    () => [...totals].reverse().map(({ year, diamonds }) => ({ year: String(year), diamonds })),
+    [totals]
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Diamonds Placed per Year</CardTitle>
+        <CardDescription>Total diamonds across projects completed in each year</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">
+            Complete a project to start tracking diamonds placed.
+          </p>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-[260px] w-full">
+            <BarChart data={data} margin={{ left: 8, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="year" tickLine={false} axisLine={false} />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(value: number) => value.toLocaleString()}
+              />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="diamonds" fill="var(--color-diamonds)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,89 @@
+/**
+ * Completions vs. new stash additions per month, with the running stash change
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useMemo } from 'react';
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import type { ChartConfig } from '@/components/ui/chart-types';
+import { getCumulativeStashGrowth } from '@/utils/yearlyInsights';
+import type { YearlyInsights } from '@/types/dashboard-stats';
+
+const MONTH_LABELS = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+];
+
+const chartConfig = {
+  completed: { label: 'Completed', color: 'hsl(var(--primary))' },
+  acquired: { label: 'Added to stash', color: '#f43f5e' },
+  stashChange: { label: 'Stash change', color: '#f97316' },
+} satisfies ChartConfig;
+
+interface MonthlyActivityChartProps {
+  year: number;
+  insights: YearlyInsights;
+}
+
+export const MonthlyActivityChart: React.FC<MonthlyActivityChartProps> = ({ year, insights }) => {
+  const data = useMemo(() => {
+    const stashGrowth = getCumulativeStashGrowth(insights);
+    return MONTH_LABELS.map((month, index) => ({
+      month,
+      completed: insights.completions_by_month[index],
+      acquired: insights.acquisitions_by_month[index],
+      stashChange: stashGrowth[index],
+    }));
+  }, [insights]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Completions vs. Stash Growth</CardTitle>
+        <CardDescription>
+          Projects finished and added to your stash each month in {year}. The line shows how much
+          your stash has grown or shrunk so far this year.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig} className="h-[300px] w-full">
+          <ComposedChart data={data} margin={{ left: -16, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="month" tickLine={false} axisLine={false} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="completed" fill="var(--color-completed)" radius={4} />
+            <Bar dataKey="acquired" fill="var(--color-acquired)" radius={4} />
+            <Line
+              dataKey="stashChange"
+              type="monotone"
+              stroke="var(--color-stashChange)"
+              strokeWidth={2}
+              dot={false}
+            />
+          </ComposedChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+};
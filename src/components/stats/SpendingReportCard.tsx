@@ -0,0 +1,177 @@
+/**
+ * Money spent on kits acquired in the selected year, by month, company and status,
+ * plus the current value of the unstarted stash. One report per currency.
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import type { ChartConfig } from '@/components/ui/chart-types';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { CurrencySpending, SpendingEntry } from '@/types/dashboard-stats';
+import { formatCurrency } from '@/utils/purchaseCost';
+
+const MONTH_LABELS = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+];
+
+const chartConfig = {
+  spent: { label: 'Spent', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+interface SpendingReportCardProps {
+  year: number;
+  spending: CurrencySpending[];
+}
+
+const SpendingBreakdown: React.FC<{
+  title: string;
+  entries: SpendingEntry[];
+  currency: string;
+}> = ({ title, entries, currency }) => {
+  const maxAmount = entries[0]?.amount ?? 0;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium text-muted-foreground">{title}</h3>
+      <ol className="space-y-3">
+        {entries.map(entry => (
+          <li key={entry.key} className="space-y-1">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate font-medium">{entry.name}</span>
+              <span className="whitespace-nowrap text-muted-foreground">
+                {formatCurrency(entry.amount, currency)} · {entry.count}{' '}
+                {entry.count === 1 ? 'kit' : 'kits'}
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-muted">
+              <div
+                className="h-2 rounded-full bg-primary"
+                style={{ width: maxAmount > 0 ? `${(entry.amount / maxAmount) * 100}%` : 0 }}
+              />
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export const SpendingReportCard: React.FC<SpendingReportCardProps> = ({ year, spending }) => {
+  const [selectedCurrency, setSelectedCurrency] = useState<string | null>(null);
+  const report = spending.find(entry => entry.currency === selectedCurrency) ?? spending[0];
+
+  const data = useMemo(
+    () => MONTH_LABELS.map((month, index) => ({ month, spent: report?.by_month[index] ?? 0 })),
+    [report]
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 space-y-0 sm:flex-row sm:items-start sm:justify-between">
+        <div className="space-y-1.5">
+          <CardTitle>Spending</CardTitle>
+          <CardDescription>
+            What you paid for kits acquired in {year}, including shipping and minus discounts.
+          </CardDescription>
+        </div>
+        {spending.length > 1 && report && (
+          <Select value={report.currency} onValueChange={setSelectedCurrency}>
+            <SelectTrigger className="w-full sm:w-28" aria-label="Select currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {spending.map(entry => (
+                <SelectItem key={entry.currency} value={entry.currency}>
+                  {entry.currency}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardHeader>
+      <CardContent>
+        {!report ? (
+          <p className="text-sm text-muted-foreground">
+            Add a price to your projects to see what you spend on kits.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <dl className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div className="rounded-lg border p-4">
+                <dt className="text-sm text-muted-foreground">Spent in {year}</dt>
+                <dd className="text-2xl font-bold">
+                  {formatCurrency(report.total, report.currency)}
+                </dd>
+                <dd className="text-xs text-muted-foreground">
+                  {report.kit_count} {report.kit_count === 1 ? 'kit' : 'kits'}
+                </dd>
+              </div>
+              <div className="rounded-lg border p-4">
+                <dt className="text-sm text-muted-foreground">Stash value</dt>
+                <dd className="text-2xl font-bold">
+                  {formatCurrency(report.stash_value, report.currency)}
+                </dd>
+                <dd className="text-xs text-muted-foreground">
+                  {report.stash_count} unstarted {report.stash_count === 1 ? 'kit' : 'kits'}, all
+                  years
+                </dd>
+              </div>
+            </dl>
+
+            <ChartContainer config={chartConfig} className="h-[260px] w-full">
+              <BarChart data={data} margin={{ left: 0, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={56} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      formatter={value => formatCurrency(Number(value), report.currency)}
+                    />
+                  }
+                />
+                <Bar dataKey="spent" fill="var(--color-spent)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+
+            {report.kit_count > 0 && (
+              <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+                <SpendingBreakdown
+                  title="By company"
+                  entries={report.by_company}
+                  currency={report.currency}
+                />
+                <SpendingBreakdown
+                  title="By current status"
+                  entries={report.by_status}
+                  currency={report.currency}
+                />
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,147 @@
+/**
+ * Headline numbers for the selected year with the change from the previous year
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React from 'react';
+import {
+  ArrowDownRight,
+  ArrowUpRight,
+  CalendarClock,
+  Gauge,
+  Gem,
+  PackagePlus,
+  Timer,
+  Trophy,
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { getPercentChange } from '@/utils/yearlyInsights';
+import type { YearlyStatsEntry } from '@/types/dashboard-stats';
+
+interface StatsSummaryCardsProps {
+  current: YearlyStatsEntry;
+  previous: YearlyStatsEntry;
+}
+
+interface SummaryCardProps {
+  title: string;
+  value: string;
+  icon: React.ReactNode;
+  change: number | null;
+  previousLabel: string;
+  /** Which direction of change is good; neutral changes are not coloured */
+  better?: 'higher' | 'lower' | 'neutral';
+}
+
+const SummaryCard: React.FC<SummaryCardProps> = ({
+  title,
+  value,
+  icon,
+  change,
+  previousLabel,
+  better = 'higher',
+}) => {
+  const direction = better === 'lower' ? -1 : 1;
+  const isPositive = change !== null && better !== 'neutral' && change * direction > 0;
+  const isNegative = change !== null && better !== 'neutral' && change * direction < 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        {icon}
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">{value}</div>
+        <p
+          className={cn(
+            'mt-1 flex items-center gap-1 text-xs text-muted-foreground',
+            isPositive && 'text-emerald-600 dark:text-emerald-400',
+            isNegative && 'text-rose-600 dark:text-rose-400'
+          )}
+        >
+          {change !== null && change > 0 && <ArrowUpRight className="h-3 w-3" />}
+          {change !== null && change < 0 && <ArrowDownRight className="h-3 w-3" />}
+          {change === null
+            ? previousLabel
+            : `${change > 0 ? '+' : ''}${change}% · ${previousLabel}`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export const StatsSummaryCards: React.FC<StatsSummaryCardsProps> = ({ current, previous }) => {
+  const currentDays = current.insights.average_days_to_complete;
+  const previousDays = previous.insights.average_days_to_complete;
+  const previousYear = previous.year;
+  const currentRate = current.insights.drills_per_hour;
+  const previousRate = previous.insights.drills_per_hour;
+
+  return (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      <SummaryCard
+        title="Completed"
+        value={current.completed_count.toLocaleString()}
+        icon={<Trophy className="h-4 w-4 text-amber-500" />}
+        change={getPercentChange(current.completed_count, previous.completed_count)}
+        previousLabel={`${previous.completed_count.toLocaleString()} in ${previousYear}`}
+      />
+      <SummaryCard
+        title="Diamonds Placed"
+        value={current.total_diamonds.toLocaleString()}
+        icon={<Gem className="h-4 w-4 text-primary" />}
+        change={getPercentChange(current.total_diamonds, previous.total_diamonds)}
+        previousLabel={`${previous.total_diamonds.toLocaleString()} in ${previousYear}`}
+      />
+      <SummaryCard
+        title="Avg. Days to Complete"
+        value={currentDays === null ? '—' : currentDays.toLocaleString()}
+        icon={<CalendarClock className="h-4 w-4 text-blue-500" />}
+        change={
+          currentDays === null || previousDays === null
+            ? null
+            : getPercentChange(currentDays, previousDays)
+        }
+        previousLabel={
+          previousDays === null
+            ? `No data for ${previousYear}`
+            : `${previousDays} in ${previousYear}`
+        }
+        better="lower"
+      />
+      <SummaryCard
+        title="Added to Stash"
+        value={current.insights.acquired_count.toLocaleString()}
+        icon={<PackagePlus className="h-4 w-4 text-pink-500" />}
+        change={getPercentChange(current.insights.acquired_count, previous.insights.acquired_count)}
+        previousLabel={`${previous.insights.acquired_count.toLocaleString()} in ${previousYear}`}
+        better="neutral"
+      />
+      <SummaryCard
+        title="Hours Worked"
+        value={current.insights.hours_worked.toLocaleString()}
+        icon={<Timer className="h-4 w-4 text-emerald-500" />}
+        change={getPercentChange(current.insights.hours_worked, previous.insights.hours_worked)}
+        previousLabel={`${previous.insights.hours_worked.toLocaleString()} in ${previousYear}`}
+      />
+      <SummaryCard
+        title="Drills per Hour"
+        value={currentRate === null ? '—' : currentRate.toLocaleString()}
+        icon={<Gauge className="h-4 w-4 text-violet-500" />}
+        change={
+          currentRate === null || previousRate === null
+            ? null
+            : getPercentChange(currentRate, previousRate)
+        }
+        previousLabel={
+          previousRate === null
+            ? `No data for ${previousYear}`
+            : `${previousRate.toLocaleString()} in ${previousYear}`
+        }
+      />
+    </div>
+  );
+};
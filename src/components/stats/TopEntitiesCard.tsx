@@ -0,0 +1,55 @@
+/**
+ * Companies or artists ranked by projects completed in the selected year
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { RankedEntity } from '@/types/dashboard-stats';
+
+interface TopEntitiesCardProps {
+  title: string;
+  entities: RankedEntity[];
+  emptyMessage: string;
+}
+
+export const TopEntitiesCard: React.FC<TopEntitiesCardProps> = ({
+  title,
+  entities,
+  emptyMessage,
+}) => {
+  const maxCount = entities[0]?.count ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entities.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{emptyMessage}</p>
+        ) : (
+          <ol className="space-y-3">
+            {entities.map(entity => (
+              <li key={entity.id} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="truncate font-medium">{entity.name}</span>
+                  <span className="text-muted-foreground">
+                    {entity.count} {entity.count === 1 ? 'project' : 'projects'}
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-muted">
+                  <div
+                    className="h-2 rounded-full bg-primary"
+                    style={{ width: `${(entity.count / maxCount) * 100}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,87 @@
+/**
+ * Year-over-year totals for completions, diamonds and stash additions
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { getPercentChange } from '@/utils/yearlyInsights';
+import type { YearTotals } from '@/types/dashboard-stats';
+
+interface YearComparisonTableProps {
+  totals: YearTotals[];
+  selectedYear: number;
+}
+
+const formatChange = (change: number | null) =>
+  change === null ? '—' : `${change > 0 ? '+' : ''}${change}%`;
+
+export const YearComparisonTable: React.FC<YearComparisonTableProps> = ({
+  totals,
+  selectedYear,
+}) => (
+  <Card>
+    <CardHeader>
+      <CardTitle className="text-lg">Year over Year</CardTitle>
+    </CardHeader>
+    <CardContent>
+      {totals.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Add purchase or completion dates to your projects to compare years.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Year</TableHead>
+              <TableHead className="text-right">Completed</TableHead>
+              <TableHead className="text-right">Change</TableHead>
+              <TableHead className="text-right">Diamonds</TableHead>
+              <TableHead className="text-right">Added to Stash</TableHead>
+              <TableHead className="text-right">Stash Change</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {totals.map((row, index) => {
+              // Totals are sorted newest first, so the previous year is the next row
+              const previous = totals[index + 1];
+              const change =
+                previous?.year === row.year - 1
+                  ? getPercentChange(row.completed, previous.completed)
+                  : null;
+              const stashChange = row.acquired - row.completed;
+
+              return (
+                <TableRow
+                  key={row.year}
+                  className={cn(row.year === selectedYear && 'bg-muted/50 font-medium')}
+                >
+                  <TableCell>{row.year}</TableCell>
+                  <TableCell className="text-right">{row.completed.toLocaleString()}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {formatChange(change)}
+                  </TableCell>
+                  <TableCell className="text-right">{row.diamonds.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{row.acquired.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">
+                    {stashChange > 0 ? `+${stashChange}` : stashChange}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </CardContent>
+  </Card>
+);
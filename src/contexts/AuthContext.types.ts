@@ -7,6 +7,7 @@ export interface PocketBaseUser {
   avatar?: string;
   beta_tester?: boolean;
   timezone?: string;
+  claim_reminder_days?: number;
   created: string;
   updated: string;
   verified?: boolean;
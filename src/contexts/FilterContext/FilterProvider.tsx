@@ -12,6 +12,7 @@ import useDebounce from '@/hooks/useDebounce';
 import { FilterState, getDefaultFilters } from './types';
 import { FilterContext, FilterContextType } from './context';
 import { createLogger } from '@/utils/logger';
+import { countActiveRanges } from '@/utils/projectRanges';
 
 const logger = createLogger('FilterProvider');
 
@@ -37,6 +38,12 @@ const deepEqual = (obj1: FilterState, obj2: FilterState): boolean => {
       continue;
     }
 
+    // Handle plain objects (for ranges)
+    if (val1 && val2 && typeof val1 === 'object' && typeof val2 === 'object') {
+      if (JSON.stringify(val1) !== JSON.stringify(val2)) return false;
+      continue;
+    }
+
     // Handle primitive values
     if (val1 !== val2) return false;
   }
@@ -118,6 +125,8 @@ export const FilterProvider: React.FC<FilterProviderProps> = ({ children, user }
               company: debouncedFilters.selectedCompany,
               artist: debouncedFilters.selectedArtist,
               drillShape: debouncedFilters.selectedDrillShape,
+              drillType: debouncedFilters.selectedDrillType,
+              canvasType: debouncedFilters.selectedCanvasType,
               yearFinished: debouncedFilters.selectedYearFinished,
               includeMiniKits: debouncedFilters.includeMiniKits,
               includeDestashed: debouncedFilters.includeDestashed,
@@ -125,7 +134,11 @@ export const FilterProvider: React.FC<FilterProviderProps> = ({ children, user }
               includeWishlist: debouncedFilters.includeWishlist,
               includeOnHold: debouncedFilters.includeOnHold,
               searchTerm: debouncedFilters.searchTerm,
+              searchMode: debouncedFilters.searchMode,
               selectedTags: debouncedFilters.selectedTags,
+              tagMatchMode: debouncedFilters.tagMatchMode,
+              excludedTags: debouncedFilters.excludedTags,
+              ranges: debouncedFilters.ranges,
             },
             sortField: debouncedFilters.sortField,
             sortDirection: debouncedFilters.sortDirection,
@@ -168,6 +181,8 @@ export const FilterProvider: React.FC<FilterProviderProps> = ({ children, user }
     if (filters.selectedCompany !== 'all') count++;
     if (filters.selectedArtist !== 'all') count++;
     if (filters.selectedDrillShape !== 'all') count++;
+    if (filters.selectedDrillType !== 'all') count++;
+    if (filters.selectedCanvasType !== 'all') count++;
     if (filters.selectedYearFinished !== 'all') count++;
     if (!filters.includeMiniKits) count++;
     if (!filters.includeDestashed) count++;
@@ -175,6 +190,8 @@ export const FilterProvider: React.FC<FilterProviderProps> = ({ children, user }
     if (!filters.includeOnHold) count++;
     if (filters.searchTerm) count++;
     if (filters.selectedTags.length > 0) count++;
+    if (filters.excludedTags.length > 0) count++;
+    count += countActiveRanges(filters.ranges);
     return count;
   }, [filters]);
 
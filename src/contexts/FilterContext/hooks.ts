@@ -7,7 +7,15 @@
 import { useContext, useMemo } from 'react';
 import { FilterContext } from './context';
 import { getDefaultFilters } from './types';
-import { ProjectFilterStatus } from '@/types/project';
+import { normalizeProjectRanges } from '@/utils/projectRanges';
+import { ProjectFilterStatus, ViewType } from '@/types/project';
+import type {
+  DateRange,
+  NumberRange,
+  ProjectRangeFilters,
+  TagMatchMode,
+} from '@/types/projectFilters';
+import type { ProjectSearchMode } from '@/types/projectSearch';
 import { DashboardValidSortField } from '@/features/dashboard/dashboard.constants';
 
 /**
@@ -33,9 +41,19 @@ export const useFilterHelpers = () => {
       updateCompany: (company: string) => setFilters({ selectedCompany: company }),
       updateArtist: (artist: string) => setFilters({ selectedArtist: artist }),
       updateDrillShape: (shape: string) => setFilters({ selectedDrillShape: shape }),
+      updateDrillType: (type: string) => setFilters({ selectedDrillType: type }),
+      updateCanvasType: (type: string) => setFilters({ selectedCanvasType: type }),
       updateYearFinished: (year: string) => setFilters({ selectedYearFinished: year }),
       updateSearch: (searchTerm: string) => setFilters({ searchTerm }),
+      updateSearchMode: (searchMode: ProjectSearchMode) => setFilters({ searchMode }),
       updateTags: (selectedTags: string[]) => setFilters({ selectedTags }),
+      updateTagMatchMode: (tagMatchMode: TagMatchMode) => setFilters({ tagMatchMode }),
+      updateExcludedTags: (excludedTags: string[]) => setFilters({ excludedTags }),
+      updateRange: (field: keyof ProjectRangeFilters, range: NumberRange | DateRange | undefined) =>
+        setFilters(current => ({
+          ranges: normalizeProjectRanges({ ...current.ranges, [field]: range }),
+        })),
+      clearRanges: () => setFilters({ ranges: {} }),
       toggleTag: (tagId: string) => {
         setFilters(current => {
           const currentTags = current.selectedTags;
@@ -49,7 +67,7 @@ export const useFilterHelpers = () => {
         setFilters({ sortField, sortDirection }),
       updatePage: (currentPage: number) => setFilters({ currentPage }),
       updatePageSize: (pageSize: number) => setFilters({ pageSize }),
-      updateViewType: (viewType: 'grid' | 'list') => setFilters({ viewType }),
+      updateViewType: (viewType: ViewType) => setFilters({ viewType }),
       resetFilters: () => setFilters(getDefaultFilters()),
     }),
     [setFilters]
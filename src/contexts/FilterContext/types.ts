@@ -5,7 +5,9 @@
  */
 
 import { DashboardValidSortField } from '@/features/dashboard/dashboard.constants';
-import { ProjectFilterStatus } from '@/types/project';
+import { ProjectFilterStatus, ViewType } from '@/types/project';
+import type { ProjectRangeFilters, TagMatchMode } from '@/types/projectFilters';
+import type { ProjectSearchMode } from '@/types/projectSearch';
 
 /**
  * Core filter state
@@ -16,6 +18,8 @@ export interface FilterState {
   selectedCompany: string;
   selectedArtist: string;
   selectedDrillShape: string;
+  selectedDrillType: string;
+  selectedCanvasType: string;
   selectedYearFinished: string;
   includeMiniKits: boolean;
   includeDestashed: boolean;
@@ -23,7 +27,11 @@ export interface FilterState {
   includeWishlist: boolean;
   includeOnHold: boolean;
   searchTerm: string;
+  searchMode: ProjectSearchMode;
   selectedTags: string[];
+  tagMatchMode: TagMatchMode;
+  excludedTags: string[];
+  ranges: ProjectRangeFilters;
 
   // Sorting
   sortField: DashboardValidSortField;
@@ -34,7 +42,7 @@ export interface FilterState {
   pageSize: number;
 
   // View
-  viewType: 'grid' | 'list';
+  viewType: ViewType;
 }
 
 /**
@@ -45,6 +53,8 @@ export const getDefaultFilters = (isMobilePhone = false): FilterState => ({
   selectedCompany: 'all',
   selectedArtist: 'all',
   selectedDrillShape: 'all',
+  selectedDrillType: 'all',
+  selectedCanvasType: 'all',
   selectedYearFinished: 'all',
   includeMiniKits: true,
   includeDestashed: false,
@@ -52,7 +62,11 @@ export const getDefaultFilters = (isMobilePhone = false): FilterState => ({
   includeWishlist: false,
   includeOnHold: true,
   searchTerm: '',
+  searchMode: 'title',
   selectedTags: [],
+  tagMatchMode: 'any',
+  excludedTags: [],
+  ranges: {},
   sortField: 'last_updated',
   sortDirection: 'desc',
   currentPage: 1,
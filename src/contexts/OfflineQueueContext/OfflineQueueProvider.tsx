@@ -0,0 +1,173 @@
+/**
+ * Offline Queue Provider Component
+ * @author @serabi
+ * @created 2026-10-18
+ *
+ * Keeps the signed-in user's offline write queue in React state and replays it when
+ * the connection comes back, when the app starts online with writes still queued, and
+ * when a write is queued while online (e.g. behind an earlier write to the same project).
+ * Query caches are refreshed after a replay so views show the server's state.
+ */
+
+import React, { ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { OfflineQueueContext } from './context';
+import type { OfflineQueueContextType } from './types';
+import { useAuth } from '@/hooks/useAuth';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useToast } from '@/hooks/use-toast';
+import { queryKeys } from '@/hooks/queries/queryKeys';
+import {
+  getQueuedWrites,
+  removeQueuedWrite,
+  saveQueuedWrite,
+  subscribeToOfflineQueue,
+  withOfflineQueueLock,
+} from '@/lib/offlineQueue';
+import { replayOfflineQueue } from '@/services/pocketbase/offlineSync.service';
+import { createLogger } from '@/utils/logger';
+import type { QueuedWrite } from '@/types/offlineQueue';
+
+const logger = createLogger('OfflineQueueProvider');
+
+interface OfflineQueueProviderProps {
+  children: ReactNode;
+}
+
+export const OfflineQueueProvider: React.FC<OfflineQueueProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const isOnline = useOnlineStatus();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const [writes, setWrites] = useState<QueuedWrite[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  // A write queued mid-replay isn't in that run, so replay once more afterwards
+  const resyncRef = useRef(false);
+
+  const loadWrites = useCallback(async () => {
+    if (!userId) {
+      setWrites([]);
+      return;
+    }
+    try {
+      setWrites(await getQueuedWrites(userId));
+    } catch (error) {
+      logger.error('Failed to read the offline queue:', error);
+    }
+  }, [userId]);
+
+  const refreshQueries = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.projects.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.progressNotes.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.stats.all });
+  }, [queryClient]);
+
+  const syncNow = useCallback(async () => {
+    if (!userId || !navigator.onLine) return;
+    if (syncingRef.current) {
+      resyncRef.current = true;
+      return;
+    }
+
+    syncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const result = await withOfflineQueueLock(() => replayOfflineQueue(userId));
+      if (!result) return;
+
+      if (result.synced > 0) {
+        refreshQueries();
+        toast({
+          title: 'Changes synced',
+          description: `${result.synced} offline ${result.synced === 1 ? 'change was' : 'changes were'} saved.`,
+        });
+      }
+      const held = result.conflicts + result.failed;
+      if (held > 0) {
+        toast({
+          title: 'Some changes need your attention',
+          description: `${held} offline ${held === 1 ? 'change' : 'changes'} couldn't be saved. Review them from the sync indicator.`,
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to sync the offline queue:', error);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+
+    if (resyncRef.current) {
+      resyncRef.current = false;
+      await syncNow();
+    }
+  }, [userId, refreshQueries, toast]);
+
+  useEffect(() => {
+    loadWrites();
+  }, [loadWrites]);
+
+  useEffect(
+    () =>
+      subscribeToOfflineQueue(change => {
+        loadWrites();
+        if (change === 'enqueued' && navigator.onLine) {
+          syncNow();
+        }
+      }),
+    [loadWrites, syncNow]
+  );
+
+  // Replay on reconnect, and on start-up if writes were left queued
+  useEffect(() => {
+    if (isOnline && userId) {
+      syncNow();
+    }
+  }, [isOnline, userId, syncNow]);
+
+  const keepQueuedWrite = useCallback(
+    async (sequence: number) => {
+      const write = writes.find(entry => entry.sequence === sequence);
+      if (!write) return;
+
+      await saveQueuedWrite({
+        ...write,
+        status: 'pending',
+        overwrite: write.overwrite || write.status === 'conflict',
+        error: undefined,
+      });
+      await syncNow();
+    },
+    [writes, syncNow]
+  );
+
+  const discardQueuedWrite = useCallback(
+    async (sequence: number) => {
+      await removeQueuedWrite(sequence);
+      // Drop the optimistic state the discarded write left behind
+      refreshQueries();
+    },
+    [refreshQueries]
+  );
+
+  const contextValue: OfflineQueueContextType = useMemo(
+    () => ({
+      isOnline,
+      writes,
+      pendingCount: writes.filter(write => write.status === 'pending').length,
+      attentionCount: writes.filter(write => write.status !== 'pending').length,
+      isSyncing,
+      syncNow,
+      keepQueuedWrite,
+      discardQueuedWrite,
+    }),
+    [isOnline, writes, isSyncing, syncNow, keepQueuedWrite, discardQueuedWrite]
+  );
+
+  return (
+    <OfflineQueueContext.Provider value={contextValue}>{children}</OfflineQueueContext.Provider>
+  );
+};
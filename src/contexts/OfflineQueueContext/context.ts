@@ -0,0 +1,13 @@
+/**
+ * Offline Queue Context Definition
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { createContext } from 'react';
+import type { OfflineQueueContextType } from './types';
+
+export const OfflineQueueContext = createContext<OfflineQueueContextType | null>(null);
+
+// Re-export types for convenience
+export type { OfflineQueueContextType } from './types';
@@ -0,0 +1,35 @@
+/**
+ * Offline Queue Context Hooks
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useContext, useMemo } from 'react';
+import { OfflineQueueContext, OfflineQueueContextType } from './context';
+
+/**
+ * Main offline queue hook
+ * @returns Full offline queue context with state and actions
+ * @throws Error if used outside of OfflineQueueProvider
+ */
+export const useOfflineQueue = (): OfflineQueueContextType => {
+  const context = useContext(OfflineQueueContext);
+  if (!context) {
+    throw new Error('useOfflineQueue must be used within an OfflineQueueProvider');
+  }
+  return context;
+};
+
+/**
+ * Queued writes for a single project, oldest first
+ *
+ * @param projectId - Project ID to filter by
+ */
+export const useProjectQueuedWrites = (projectId: string | undefined) => {
+  const { writes } = useOfflineQueue();
+
+  return useMemo(
+    () => (projectId ? writes.filter(write => write.projectId === projectId) : []),
+    [writes, projectId]
+  );
+};
@@ -0,0 +1,17 @@
+/**
+ * Offline Queue Context - Unified exports
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+// Export types
+export * from './types';
+
+// Export context
+export * from './context';
+
+// Export provider
+export * from './OfflineQueueProvider';
+
+// Export hooks
+export * from './hooks';
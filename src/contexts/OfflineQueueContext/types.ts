@@ -0,0 +1,45 @@
+/**
+ * Offline Queue Context Types
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { QueuedWrite } from '@/types/offlineQueue';
+
+/**
+ * Offline write queue state for the signed-in user, plus actions for syncing it and
+ * resolving writes that couldn't be replayed
+ */
+export interface OfflineQueueContextType {
+  /** Browser connection status */
+  isOnline: boolean;
+
+  /** The user's queued writes, oldest first */
+  writes: QueuedWrite[];
+
+  /** Writes still waiting to sync */
+  pendingCount: number;
+
+  /** Writes held back by a conflict or a server error */
+  attentionCount: number;
+
+  /** Whether the queue is being replayed right now */
+  isSyncing: boolean;
+
+  /** Replay pending writes now, if online */
+  syncNow: () => Promise<void>;
+
+  /**
+   * Send a held-back write again; a conflicting write then overwrites the server change
+   *
+   * @param sequence - Queue sequence of the write
+   */
+  keepQueuedWrite: (sequence: number) => Promise<void>;
+
+  /**
+   * Drop a queued write without sending it
+   *
+   * @param sequence - Queue sequence of the write
+   */
+  discardQueuedWrite: (sequence: number) => Promise<void>;
+}
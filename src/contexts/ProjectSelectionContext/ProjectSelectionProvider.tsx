@@ -0,0 +1,112 @@
+/**
+ * Project Selection Provider Component
+ * @author @serabi
+ * @created 2026-10-18
+ *
+ * Holds the dashboard's multi-select state for batch actions (status changes,
+ * tagging, company/artist reassignment and deletion). Kept separate from the
+ * filter context so toggling a checkbox does not re-render the filter sidebar.
+ */
+
+import React, { useState, useMemo, useCallback, ReactNode } from 'react';
+import { ProjectSelectionContext } from './context';
+import type { ProjectSelectionContextType } from './types';
+import type { ProjectType } from '@/types/project';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('ProjectSelectionProvider');
+
+/**
+ * Props interface for ProjectSelectionProvider component
+ */
+interface ProjectSelectionProviderProps {
+  children: ReactNode;
+}
+
+export const ProjectSelectionProvider: React.FC<ProjectSelectionProviderProps> = ({ children }) => {
+  const [isSelectionMode, setIsSelectionMode] = useState(false);
+  const [selectedProjects, setSelectedProjects] = useState<Map<string, ProjectType>>(
+    () => new Map()
+  );
+
+  const enterSelectionMode = useCallback(() => {
+    logger.debug('Entering selection mode');
+    setIsSelectionMode(true);
+  }, []);
+
+  const exitSelectionMode = useCallback(() => {
+    logger.debug('Exiting selection mode');
+    setIsSelectionMode(false);
+    setSelectedProjects(new Map());
+  }, []);
+
+  const toggleProject = useCallback((project: ProjectType) => {
+    setSelectedProjects(prev => {
+      const next = new Map(prev);
+      if (next.has(project.id)) {
+        next.delete(project.id);
+      } else {
+        next.set(project.id, project);
+      }
+      return next;
+    });
+  }, []);
+
+  const selectProjects = useCallback((projects: ProjectType[]) => {
+    setSelectedProjects(prev => {
+      const next = new Map(prev);
+      projects.forEach(project => next.set(project.id, project));
+      return next;
+    });
+  }, []);
+
+  const deselectProjects = useCallback((projectIds: string[]) => {
+    setSelectedProjects(prev => {
+      const next = new Map(prev);
+      projectIds.forEach(id => next.delete(id));
+      return next;
+    });
+  }, []);
+
+  const clearSelection = useCallback(() => {
+    setSelectedProjects(new Map());
+  }, []);
+
+  const isSelected = useCallback(
+    (projectId: string): boolean => selectedProjects.has(projectId),
+    [selectedProjects]
+  );
+
+  // Memoized context value to prevent unnecessary re-renders
+  const contextValue: ProjectSelectionContextType = useMemo(
+    () => ({
+      isSelectionMode,
+      selectedProjects,
+      selectedCount: selectedProjects.size,
+      enterSelectionMode,
+      exitSelectionMode,
+      toggleProject,
+      selectProjects,
+      deselectProjects,
+      clearSelection,
+      isSelected,
+    }),
+    [
+      isSelectionMode,
+      selectedProjects,
+      enterSelectionMode,
+      exitSelectionMode,
+      toggleProject,
+      selectProjects,
+      deselectProjects,
+      clearSelection,
+      isSelected,
+    ]
+  );
+
+  return (
+    <ProjectSelectionContext.Provider value={contextValue}>
+      {children}
+    </ProjectSelectionContext.Provider>
+  );
+};
@@ -0,0 +1,13 @@
+/**
+ * Project Selection Context Definition
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { createContext } from 'react';
+import type { ProjectSelectionContextType } from './types';
+
+export const ProjectSelectionContext = createContext<ProjectSelectionContextType | null>(null);
+
+// Re-export types for convenience
+export type { ProjectSelectionContextType } from './types';
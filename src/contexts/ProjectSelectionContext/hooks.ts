@@ -0,0 +1,21 @@
+/**
+ * Project Selection Context Hooks
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useContext } from 'react';
+import { ProjectSelectionContext, ProjectSelectionContextType } from './context';
+
+/**
+ * Main project selection hook
+ * @returns Full project selection context with all data and functions
+ * @throws Error if used outside of ProjectSelectionProvider
+ */
+export const useProjectSelection = (): ProjectSelectionContextType => {
+  const context = useContext(ProjectSelectionContext);
+  if (!context) {
+    throw new Error('useProjectSelection must be used within a ProjectSelectionProvider');
+  }
+  return context;
+};
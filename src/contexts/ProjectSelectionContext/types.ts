@@ -0,0 +1,63 @@
+/**
+ * Project Selection Context Types
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { ProjectType } from '@/types/project';
+
+/**
+ * Core project selection context type definition
+ *
+ * Tracks the dashboard's multi-select mode and the projects picked for batch actions.
+ * Selected projects are kept by ID with their last known data so selections survive
+ * paging and batch actions can read titles and current statuses.
+ */
+export interface ProjectSelectionContextType {
+  /** Whether the dashboard is in multi-select mode */
+  isSelectionMode: boolean;
+
+  /** Selected projects keyed by project ID */
+  selectedProjects: ReadonlyMap<string, ProjectType>;
+
+  /** Number of selected projects */
+  selectedCount: number;
+
+  /** Enter multi-select mode */
+  enterSelectionMode: () => void;
+
+  /** Leave multi-select mode and clear the selection */
+  exitSelectionMode: () => void;
+
+  /**
+   * Add or remove a project from the selection
+   *
+   * @param project - Project to toggle
+   */
+  toggleProject: (project: ProjectType) => void;
+
+  /**
+   * Add every given project to the selection
+   *
+   * @param projects - Projects to select, typically the current page
+   */
+  selectProjects: (projects: ProjectType[]) => void;
+
+  /**
+   * Remove the given project IDs from the selection
+   *
+   * @param projectIds - Project IDs to deselect
+   */
+  deselectProjects: (projectIds: string[]) => void;
+
+  /** Clear the selection while staying in multi-select mode */
+  clearSelection: () => void;
+
+  /**
+   * Check if a specific project is selected
+   *
+   * @param projectId - Project ID to check
+   * @returns True if the project is selected
+   */
+  isSelected: (projectId: string) => boolean;
+}
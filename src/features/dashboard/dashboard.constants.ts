@@ -14,7 +14,9 @@ export type DashboardValidSortField =
   | 'width'
   | 'height'
   | 'kit_category'
-  | 'drill_shape';
+  | 'drill_shape'
+  | 'drill_type'
+  | 'canvas_type';
 
 export const DATE_SORT_FIELDS: DashboardValidSortField[] = [
   'date_purchased',
@@ -46,4 +48,6 @@ export const SORT_FIELD_TO_FRIENDLY_NAME: Partial<Record<DashboardValidSortField
   height: 'Height',
   kit_category: 'Type',
   drill_shape: 'Shape',
+  drill_type: 'Drill Type',
+  canvas_type: 'Canvas Type',
 };
@@ -0,0 +1,357 @@
+/**
+ * Batch actions for projects selected on the dashboard
+ *
+ * Status changes reuse the optimized single-project status mutation so completion
+ * dates and optimistic stats updates behave exactly like a single status change.
+ * Tagging, company/artist reassignment and deletion use PocketBase batch requests.
+ * Deletion is deferred for a short undo window: projects disappear from the dashboard
+ * immediately and are only removed on the server once the window has passed. A pending
+ * deletion is kept in localStorage and sent early when the page is hidden; one left over
+ * from a closed or reloaded tab is sent the next time the dashboard loads.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from '@/hooks/queries/queryKeys';
+import { useUpdateProjectStatusOptimized } from '@/hooks/mutations/useUpdateProjectStatusOptimized';
+import { ToastAction } from '@/components/ui/toast';
+import { projectsService } from '@/services/pocketbase/projects.service';
+import { TagService } from '@/lib/tags';
+import { chunkForBatch } from '@/utils/batchRequests';
+import { getPendingDeletes, removePendingDelete, savePendingDelete } from '@/utils/pendingDeletes';
+import { createLogger } from '@/utils/logger';
+import type { ProjectStatus, ProjectType } from '@/types/project';
+import type { Tag } from '@/types/tag';
+
+const logger = createLogger('useBatchProjectActions');
+
+/**
+ * How long a batch deletion can be undone before it is sent to the server
+ */
+export const BATCH_DELETE_UNDO_MS = 8000;
+
+/**
+ * Number of status updates sent in parallel, keeps large batches under the rate limit
+ */
+const STATUS_UPDATE_CONCURRENCY = 10;
+
+/**
+ * Pending deletions whose undo window is running in this page, so they aren't also sent
+ * as leftovers from a closed tab
+ */
+const activePendingDeletes = new Set<string>();
+
+interface ProjectListCache {
+  projects: Array<{ id: string }>;
+  totalItems?: number;
+}
+
+const isProjectListCache = (data: unknown): data is ProjectListCache =>
+  !!data && typeof data === 'object' && 'projects' in data;
+
+const pluralizeProjects = (count: number) => `${count} project${count === 1 ? '' : 's'}`;
+
+export const useBatchProjectActions = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const updateStatus = useUpdateProjectStatusOptimized();
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const refreshProjectData = useCallback(async () => {
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects.all }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags.all }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.stats.all }),
+    ]);
+  }, [queryClient]);
+
+  /**
+   * Change the status of every given project
+   * @returns True when all projects were updated
+   */
+  const changeStatus = useCallback(
+    async (projects: ProjectType[], newStatus: ProjectStatus): Promise<boolean> => {
+      const toUpdate = projects.filter(project => project.status !== newStatus);
+      if (toUpdate.length === 0) return true;
+
+      setIsProcessing(true);
+      let failed = 0;
+      try {
+        for (const group of chunkForBatch(toUpdate, STATUS_UPDATE_CONCURRENCY)) {
+          const results = await Promise.allSettled(
+            group.map(project =>
+              updateStatus.mutateAsync({
+                projectId: project.id,
+                newStatus,
+                currentStatus: project.status,
+                silent: true,
+              })
+            )
+          );
+          failed += results.filter(result => result.status === 'rejected').length;
+        }
+
+        if (failed > 0) {
+          logger.error('Some batch status updates failed', { failed, total: toUpdate.length });
+          toast({
+            title: 'Some projects were not updated',
+            description: `${pluralizeProjects(failed)} could not be changed. Please try again.`,
+            variant: 'destructive',
+          });
+        } else {
+          toast({
+            title: 'Projects updated',
+            description: `${pluralizeProjects(toUpdate.length)} moved to ${newStatus}`,
+          });
+        }
+        return failed === 0;
+      } finally {
+        await refreshProjectData();
+        setIsProcessing(false);
+      }
+    },
+    [updateStatus, toast, refreshProjectData]
+  );
+
+  /**
+   * Add a tag to, or remove it from, every given project
+   * @returns True when the tag links were updated
+   */
+  const updateTag = useCallback(
+    async (projectIds: string[], tag: Tag, action: 'add' | 'remove'): Promise<boolean> => {
+      setIsProcessing(true);
+      try {
+        const response =
+          action === 'add'
+            ? await TagService.addTagToProjects(projectIds, tag.id)
+            : await TagService.removeTagFromProjects(projectIds, tag.id);
+
+        if (response.status === 'error') {
+          throw response.error ?? new Error('Failed to update tags');
+        }
+
+        toast({
+          title: action === 'add' ? 'Tag added' : 'Tag removed',
+          description:
+            action === 'add'
+              ? `"${tag.name}" added to ${pluralizeProjects(response.data)}`
+              : `"${tag.name}" removed from ${pluralizeProjects(response.data)}`,
+        });
+        return true;
+      } catch (error) {
+        logger.error('Batch tag update failed:', error);
+        toast({
+          title: 'Error updating tags',
+          description: error instanceof Error ? error.message : 'Please try again.',
+          variant: 'destructive',
+        });
+        return false;
+      } finally {
+        await refreshProjectData();
+        setIsProcessing(false);
+      }
+    },
+    [toast, refreshProjectData]
+  );
+
+  /**
+   * Assign a company or artist to every given project; an empty ID clears it
+   * @returns True when all projects were updated
+   */
+  const reassign = useCallback(
+    async (
+      projectIds: string[],
+      field: 'company' | 'artist',
+      recordId: string,
+      displayName: string
+    ): Promise<boolean> => {
+      setIsProcessing(true);
+      try {
+        await projectsService.batchUpdateProjects(projectIds, { [field]: recordId });
+
+        toast({
+          title: 'Projects updated',
+          description: recordId
+            ? `${pluralizeProjects(projectIds.length)} assigned to ${displayName}`
+            : `${field === 'company' ? 'Company' : 'Artist'} cleared on ${pluralizeProjects(projectIds.length)}`,
+        });
+        return true;
+      } catch (error) {
+        logger.error(`Batch ${field} reassignment failed:`, error);
+        toast({
+          title: 'Error updating projects',
+          description: error instanceof Error ? error.message : 'Please try again.',
+          variant: 'destructive',
+        });
+        return false;
+      } finally {
+        await refreshProjectData();
+        setIsProcessing(false);
+      }
+    },
+    [toast, refreshProjectData]
+  );
+
+  /**
+   * Hide the given projects immediately and delete them once the undo window has passed
+   */
+  const deleteProjects = useCallback(
+    (projects: ProjectType[]) => {
+      const ids = new Set(projects.map(project => project.id));
+      const count = projects.length;
+
+      // Snapshot every project list so undo and failures can restore them
+      const snapshots = queryClient.getQueriesData({ queryKey: queryKeys.projects.lists() });
+      const forStatsKey = user?.id ? queryKeys.projects.forStats(user.id) : null;
+      const previousForStats = forStatsKey ? queryClient.getQueryData(forStatsKey) : undefined;
+
+      const restore = () => {
+        snapshots.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+        if (forStatsKey && previousForStats) {
+          queryClient.setQueryData(forStatsKey, previousForStats);
+        }
+      };
+
+      queryClient.setQueriesData({ queryKey: queryKeys.projects.lists() }, (oldData: unknown) => {
+        if (!isProjectListCache(oldData)) return oldData;
+        const remaining = oldData.projects.filter(project => !ids.has(project.id));
+        return {
+          ...oldData,
+          projects: remaining,
+          totalItems: Math.max(
+            0,
+            (oldData.totalItems || 0) - (oldData.projects.length - remaining.length)
+          ),
+        };
+      });
+      if (forStatsKey) {
+        queryClient.setQueryData<Array<{ id: string }>>(forStatsKey, old =>
+          old ? old.filter(project => !ids.has(project.id)) : old
+        );
+      }
+
+      const pendingKey = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      if (user?.id) {
+        savePendingDelete({
+          key: pendingKey,
+          userId: user.id,
+          projectIds: [...ids],
+          commitAt: Date.now() + BATCH_DELETE_UNDO_MS,
+        });
+        activePendingDeletes.add(pendingKey);
+      }
+
+      let settled = false;
+      const settle = () => {
+        if (settled) return false;
+        settled = true;
+        clearTimeout(timer);
+        window.removeEventListener('pagehide', commit);
+        return true;
+      };
+
+      const commit = async () => {
+        if (!settle()) return;
+        setIsProcessing(true);
+        try {
+          await projectsService.batchDeleteProjects([...ids]);
+          removePendingDelete(pendingKey);
+          logger.info('Batch deletion completed', { count });
+        } catch (error) {
+          logger.error('Batch deletion failed:', error);
+          removePendingDelete(pendingKey);
+          restore();
+          toast({
+            title: 'Error deleting projects',
+            description: error instanceof Error ? error.message : 'Please try again.',
+            variant: 'destructive',
+          });
+        } finally {
+          activePendingDeletes.delete(pendingKey);
+          await refreshProjectData();
+          setIsProcessing(false);
+        }
+      };
+
+      const timer = setTimeout(commit, BATCH_DELETE_UNDO_MS);
+      // Closing or reloading the tab ends the undo window early
+      window.addEventListener('pagehide', commit);
+
+      const undo = () => {
+        if (!settle()) return;
+        removePendingDelete(pendingKey);
+        activePendingDeletes.delete(pendingKey);
+        restore();
+        logger.debug('Batch deletion undone', { count });
+        toast({
+          title: 'Deletion undone',
+          description: `${pluralizeProjects(count)} restored.`,
+        });
+      };
+
+      toast({
+        title: 'Projects deleted',
+        description: `${pluralizeProjects(count)} will be permanently deleted.`,
+        duration: BATCH_DELETE_UNDO_MS,
+        action: (
+          <ToastAction altText="Undo deletion" onClick={undo}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    },
+    [queryClient, user?.id, toast, refreshProjectData]
+  );
+
+  // Send deletions left pending by a tab that was closed or reloaded during its undo
+  // window, once that window has passed
+  useEffect(() => {
+    const userId = user?.id;
+    if (!userId) return;
+
+    const flush = async () => {
+      const due = getPendingDeletes(userId).filter(
+        entry => !activePendingDeletes.has(entry.key) && entry.commitAt <= Date.now()
+      );
+      if (due.length === 0) return;
+
+      for (const entry of due) {
+        activePendingDeletes.add(entry.key);
+        try {
+          await projectsService.batchDeleteProjects(entry.projectIds);
+          removePendingDelete(entry.key);
+          logger.info('Sent a pending batch deletion', { count: entry.projectIds.length });
+        } catch (error) {
+          // Left in storage to retry on the next load
+          logger.error('Pending batch deletion failed:', error);
+        } finally {
+          activePendingDeletes.delete(entry.key);
+        }
+      }
+      await refreshProjectData();
+    };
+
+    flush();
+
+    // Another tab's deletion may still be in its undo window; check again once it ends
+    const waiting = getPendingDeletes(userId).filter(entry => entry.commitAt > Date.now());
+    const timers = waiting.map(entry =>
+      setTimeout(flush, entry.commitAt - Date.now() + BATCH_DELETE_UNDO_MS)
+    );
+    return () => timers.forEach(clearTimeout);
+  }, [user?.id, refreshProjectData]);
+
+  return {
+    changeStatus,
+    updateTag,
+    reassign,
+    deleteProjects,
+    isProcessing,
+  };
+};
@@ -0,0 +1,125 @@
+/**
+ * Mutations for filing, editing, resolving and deleting kit claims
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '../queries/queryKeys';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useUserTimezone } from '@/hooks/useUserTimezone';
+import { requireAuthenticatedUser } from '@/utils/authGuards';
+import { createLogger } from '@/utils/logger';
+import { getCurrentDateInUserTimezone } from '@/utils/timezoneUtils';
+import { CLAIM_STATUS_LABELS } from '@/utils/claims';
+import {
+  createClaim,
+  deleteClaim,
+  saveClaimReminderDays,
+  updateClaim,
+  updateClaimStatus,
+} from '@/services/pocketbase/claims.service';
+import type { Claim, ClaimFormData, ClaimStatus } from '@/types/claim';
+
+const logger = createLogger('useClaimMutations');
+
+const useInvalidateClaims = () => {
+  const queryClient = useQueryClient();
+  return () => queryClient.invalidateQueries({ queryKey: queryKeys.claims.all });
+};
+
+export function useSaveClaim(projectId: string) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const userTimezone = useUserTimezone();
+  const invalidate = useInvalidateClaims();
+
+  return useMutation({
+    mutationFn: ({ claim, data }: { claim: Claim | null; data: ClaimFormData }) => {
+      const today = getCurrentDateInUserTimezone(userTimezone);
+      if (claim) return updateClaim(claim, data, today);
+      const userId = requireAuthenticatedUser(user);
+      return createClaim(userId, projectId, data, today);
+    },
+    onSuccess: (_, { claim }) => {
+      invalidate();
+      toast({
+        title: claim ? 'Claim updated' : 'Claim logged',
+        description: claim ? 'Your changes have been saved.' : 'The claim has been added.',
+      });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error saving claim:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not save this claim. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useUpdateClaimStatus() {
+  const { toast } = useToast();
+  const userTimezone = useUserTimezone();
+  const invalidate = useInvalidateClaims();
+
+  return useMutation({
+    mutationFn: ({ claim, status }: { claim: Claim; status: ClaimStatus }) =>
+      updateClaimStatus(claim, status, getCurrentDateInUserTimezone(userTimezone)),
+    onSuccess: (_, { status }) => {
+      invalidate();
+      toast({ title: 'Claim updated', description: `Marked as ${CLAIM_STATUS_LABELS[status]}.` });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error changing claim status:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not update this claim. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useDeleteClaim() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateClaims();
+
+  return useMutation({
+    mutationFn: (claim: Claim) => deleteClaim(claim),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: 'Claim deleted', description: 'The claim was removed.' });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error deleting claim:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not delete this claim. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useSaveClaimReminderDays() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: (days: number) => {
+      const userId = requireAuthenticatedUser(user);
+      return saveClaimReminderDays(userId, days);
+    },
+    onError: (error: unknown) => {
+      logger.error('Error saving claim reminder days:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not save your reminder setting. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
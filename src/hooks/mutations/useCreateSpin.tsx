@@ -24,6 +24,7 @@ import { useToast } from '@/hooks/use-toast';
 import { createLogger } from '@/utils/logger';
 import type { RandomizerSpinsResponse } from '@/types/pocketbase.types';
 import { Collections } from '@/types/pocketbase.types';
+import type { RandomizerSelectionMode } from '@/stores/randomizerStore';
 
 const logger = createLogger('useCreateSpin');
 
@@ -50,6 +51,14 @@ export interface CreateSpinMutationParams {
     spinMethod: 'click' | 'keyboard' | 'touch';
     userAgent?: string;
   };
+  /** How the winner was chosen, recorded in the spin metadata (optional) */
+  selection?: {
+    selectionMode: RandomizerSelectionMode;
+    excludeRecentWinners: number;
+    /** Saved pool the wheel was built from, when spinning a filter pool */
+    poolId?: string;
+    poolName?: string;
+  };
 }
 
 /**
@@ -231,13 +240,15 @@ export const useCreateSpin = () => {
       };
 
       // Enhance parameters with complete metadata
+      const { selection, ...spinParams } = params;
       const enhancedParams: EnhancedCreateSpinParams = {
-        ...params,
+        ...spinParams,
         metadata: {
           selectionTime: metadata.selectionTime,
           deviceType: metadata.deviceType || detectDeviceType(navigator.userAgent),
           spinMethod: metadata.spinMethod,
           userAgent: metadata.userAgent || navigator.userAgent,
+          ...selection,
         },
       };
 
@@ -0,0 +1,168 @@
+/**
+ * Mutations for project drill legends and leftover drills
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '../queries/queryKeys';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { requireAuthenticatedUser } from '@/utils/authGuards';
+import { createLogger } from '@/utils/logger';
+import {
+  addLeftoverDrill,
+  collectLeftoverDrillsAfterWrite,
+  createProjectDrill,
+  deleteLeftoverDrill,
+  deleteProjectDrill,
+  importProjectDrillLegend,
+  updateLeftoverDrill,
+  updateProjectDrill,
+} from '@/services/pocketbase/drills.service';
+import type { LeftoverDrill, ProjectDrill, ProjectDrillFormData } from '@/types/drill';
+
+const logger = createLogger('useDrillMutations');
+
+/**
+ * Legend changes show up in colour lookups and, for completed projects, in the leftovers
+ */
+const useInvalidateDrills = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.drills.all });
+    if (user?.id) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.drills.leftovers(user.id) });
+    }
+  };
+};
+
+export function useSaveProjectDrill(projectId: string) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const invalidate = useInvalidateDrills();
+
+  return useMutation({
+    mutationFn: async ({
+      drill,
+      data,
+    }: {
+      drill: ProjectDrill | null;
+      data: ProjectDrillFormData;
+    }) => {
+      const userId = requireAuthenticatedUser(user);
+      if (drill) {
+        await updateProjectDrill(drill.id, data);
+      } else {
+        await createProjectDrill(userId, projectId, data);
+      }
+      await collectLeftoverDrillsAfterWrite(userId);
+    },
+    onSuccess: invalidate,
+    onError: (error: unknown) => {
+      logger.error('Error saving legend colour:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not save this colour. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useDeleteProjectDrill() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateDrills();
+
+  return useMutation({
+    mutationFn: (drill: ProjectDrill) => deleteProjectDrill(drill.id),
+    onSuccess: invalidate,
+    onError: (error: unknown) => {
+      logger.error('Error deleting legend colour:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not remove this colour. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useImportDrillLegend(projectId: string) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const invalidate = useInvalidateDrills();
+
+  return useMutation({
+    mutationFn: async ({
+      existing,
+      rows,
+    }: {
+      existing: ProjectDrill[];
+      rows: ProjectDrillFormData[];
+    }) => {
+      const userId = requireAuthenticatedUser(user);
+      const result = await importProjectDrillLegend(userId, projectId, existing, rows);
+      await collectLeftoverDrillsAfterWrite(userId);
+      return result;
+    },
+    onSuccess: ({ created, updated }) => {
+      invalidate();
+      toast({
+        title: 'Legend imported',
+        description: `${created} ${created === 1 ? 'colour' : 'colours'} added, ${updated} updated.`,
+      });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error importing drill legend:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not import this legend. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useAddLeftoverDrill() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const invalidate = useInvalidateDrills();
+
+  return useMutation({
+    mutationFn: ({ dmcCode, bags }: { dmcCode: string; bags: number }) => {
+      const userId = requireAuthenticatedUser(user);
+      return addLeftoverDrill(userId, dmcCode, bags);
+    },
+    onSuccess: invalidate,
+    onError: (error: unknown) => {
+      logger.error('Error adding leftover drills:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not add these leftovers. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useUpdateLeftoverDrill() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateDrills();
+
+  return useMutation({
+    mutationFn: ({ leftover, bags }: { leftover: LeftoverDrill; bags: number }) =>
+      bags > 0 ? updateLeftoverDrill(leftover.id, bags) : deleteLeftoverDrill(leftover.id),
+    onSuccess: invalidate,
+    onError: (error: unknown) => {
+      logger.error('Error updating leftover drills:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not update these leftovers. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,136 @@
+/**
+ * Mutations for creating, editing, deleting and receiving orders
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '../queries/queryKeys';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { requireAuthenticatedUser } from '@/utils/authGuards';
+import { createLogger } from '@/utils/logger';
+import { getOrderTitle } from '@/utils/orders';
+import {
+  createOrder,
+  deleteOrder,
+  markOrderReceived,
+  updateOrder,
+} from '@/services/pocketbase/orders.service';
+import type { Order, OrderFormData } from '@/types/order';
+
+const logger = createLogger('useOrderMutations');
+
+/**
+ * Orders change project links and statuses, so project lists, company scorecards and
+ * stats are refreshed too
+ */
+const useInvalidateOrders = () => {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.orders.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.companies.details() });
+    queryClient.invalidateQueries({ queryKey: queryKeys.projects.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.stats.all });
+  };
+};
+
+export function useCreateOrder() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const invalidate = useInvalidateOrders();
+
+  return useMutation({
+    mutationFn: (data: OrderFormData) => {
+      const userId = requireAuthenticatedUser(user);
+      return createOrder(userId, data);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: 'Order added', description: 'Your order has been saved.' });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error creating order:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not save this order. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useUpdateOrder() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateOrders();
+
+  return useMutation({
+    mutationFn: ({ order, data }: { order: Order; data: OrderFormData }) =>
+      updateOrder(order, data),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: 'Order updated', description: 'Your changes have been saved.' });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error updating order:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not update this order. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useDeleteOrder() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateOrders();
+
+  return useMutation({
+    mutationFn: (order: Order) => deleteOrder(order),
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: 'Order deleted',
+        description: 'The order was removed. Its projects were kept.',
+      });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error deleting order:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not delete this order. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useMarkOrderReceived() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateOrders();
+
+  return useMutation({
+    mutationFn: ({ order, dateReceived }: { order: Order; dateReceived: string }) =>
+      markOrderReceived(order, dateReceived),
+    onSuccess: (movedCount, { order }) => {
+      invalidate();
+      toast({
+        title: 'Order received',
+        description:
+          movedCount > 0
+            ? `${getOrderTitle(order)}: ${movedCount} ${movedCount === 1 ? 'kit' : 'kits'} moved to your stash.`
+            : `${getOrderTitle(order)} marked as received.`,
+      });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error marking order received:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not mark this order as received. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
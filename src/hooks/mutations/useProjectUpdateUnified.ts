@@ -4,21 +4,23 @@
  */
 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { pb } from '@/lib/pocketbase';
-import { Collections, ProjectsResponse } from '@/types/pocketbase.types';
+import { runOrQueueWrite } from '@/lib/offlineQueue';
+import { ProjectsResponse } from '@/types/pocketbase.types';
 import { queryKeys } from '../queries/queryKeys';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { createLogger } from '@/utils/logger';
 import { useUserTimezone } from '@/hooks/useUserTimezone';
 import { ClientResponseError } from 'pocketbase';
-import type { ProjectUpdatePayload, ProjectFormWithFile } from '@/types/file-upload';
-import { mapFormDataToPocketBase, resolveCompanyAndArtistIds } from '@/utils/field-mapping';
-import {
-  buildFormDataForUpdate,
-  validateFormDataForUpdate,
-  logFormData,
-} from '@/utils/formdata-builder';
+import type {
+  ProjectUpdatePayload,
+  ProjectFormWithFile,
+  ProjectUpdateData,
+} from '@/types/file-upload';
+import { mapFormDataToPocketBase } from '@/utils/field-mapping';
+import { getQueuedWriteContext } from '@/utils/offlineQueue';
+import { requireAuthenticatedUser } from '@/utils/authGuards';
+import { updateProjectRecord } from '@/services/pocketbase/projectWrites.service';
 import {
   updateProjectStatusOptimistic,
   rollbackProjectsOptimistic,
@@ -38,20 +40,23 @@ export const useProjectUpdateUnified = () => {
   const userTimezone = useUserTimezone();
 
   return useMutation({
+    // Run while offline too, so the write can be queued instead of paused in memory
+    networkMode: 'always',
     mutationFn: async (
       payload: ProjectUpdatePayload | ProjectFormWithFile
-    ): Promise<ProjectsResponse> => {
+    ): Promise<ProjectsResponse | null> => {
       let projectId: string;
-      let formData: FormData;
+      let data: ProjectUpdateData;
+      let imageFile: File | undefined;
+      let resolveRelations = false;
 
       // Handle different payload types
       if ('id' in payload && 'data' in payload) {
         // ProjectUpdatePayload format
-        const { id, data, fileUpload } = payload as ProjectUpdatePayload;
+        const { id, data: updateData, fileUpload } = payload as ProjectUpdatePayload;
         projectId = id;
-
-        // Use the new FormData builder
-        formData = buildFormDataForUpdate(data, fileUpload?.file);
+        data = updateData;
+        imageFile = fileUpload?.file;
       } else {
         // ProjectFormWithFile format (legacy compatibility)
         const formPayload = payload as ProjectFormWithFile;
@@ -71,93 +76,27 @@ export const useProjectUpdateUnified = () => {
           logger.debug('Auto-setting date_completed for completed project');
         }
 
-        // CRITICAL FIX: Resolve company and artist names to IDs
-        // This fixes the issue where artist/company names weren't being saved
-        if (user?.id && (mappedData.company || mappedData.artist)) {
-          logger.debug('Resolving company and artist names to IDs', {
-            company: mappedData.company,
-            artist: mappedData.artist,
-            userId: user.id,
-          });
-
-          const { companyId, artistId } = await resolveCompanyAndArtistIds(
-            mappedData.company as string,
-            mappedData.artist as string,
-            user.id
-          );
-
-          // Update mappedData with resolved IDs
-          if (companyId) {
-            mappedData.company = companyId;
-            logger.debug('Resolved company to ID', { companyId });
-          } else {
-            delete mappedData.company; // Remove if not found
-            logger.debug('Company not found, removing from update');
-          }
-
-          if (artistId) {
-            mappedData.artist = artistId;
-            logger.debug('Resolved artist to ID', { artistId });
-          } else {
-            delete mappedData.artist; // Remove if not found
-            logger.debug('Artist not found, removing from update');
-          }
-        }
-
-        // Use the new FormData builder with proper type handling
-        formData = buildFormDataForUpdate(mappedData, formPayload.imageFile || undefined);
+        // CRITICAL FIX: Company and artist come from the form as names and must be
+        // resolved to IDs, or they aren't saved. That needs the server, so it happens
+        // when the update is sent, which may be a replay from the offline queue.
+        data = mappedData;
+        imageFile = formPayload.imageFile || undefined;
+        resolveRelations = true;
       }
 
-      // Validate FormData before sending
-      const validation = validateFormDataForUpdate(formData, ['title']); // title is required
-      if (!validation.isValid) {
-        const errorMessage = `Validation failed: ${validation.errors.join(', ')}`;
-        logger.error(errorMessage);
-        throw new Error(errorMessage);
-      }
-
-      // Log FormData for debugging in development
-      logFormData(formData, `Project Update: ${projectId}`);
-
+      const userId = requireAuthenticatedUser(user);
       logger.debug('Updating project with unified mutation:', { projectId });
 
-      try {
-        const result = await pb.collection(Collections.Projects).update(projectId, formData);
-        logger.info('Project updated successfully:', result.id);
-        return result as ProjectsResponse;
-      } catch (error) {
-        // Enhanced error logging for 400 errors
-        if (error instanceof ClientResponseError && error.status === 400) {
-          logger.error('PocketBase 400 Error Details:', {
-            status: error.status,
-            message: error.message,
-            data: error.data,
-            response: error.response,
-            url: error.url,
-          });
-
-          // Log the specific validation errors if available
-          if (error.data) {
-            logger.error(
-              'PocketBase Validation Errors (detailed):',
-              JSON.stringify(error.data, null, 2)
-            );
-          }
-
-          // Log the FormData being sent for debugging
-          logger.error(
-            'FormData being sent:',
-            Array.from(formData.entries()).map(([key, value]) => ({
-              key,
-              value:
-                value instanceof File
-                  ? `[File: ${value.name}, ${value.size} bytes, ${value.type}]`
-                  : value,
-            }))
-          );
-        }
-        throw error;
-      }
+      // Without a connection the edit is queued and replayed later; the optimistic update stays
+      return runOrQueueWrite(
+        {
+          userId,
+          projectId,
+          ...getQueuedWriteContext(queryClient, projectId),
+          payload: { kind: 'project-update', data, imageFile, resolveRelations },
+        },
+        () => updateProjectRecord(projectId, data, imageFile, resolveRelations ? userId : undefined)
+      );
     },
 
     onMutate: async variables => {
@@ -234,6 +173,14 @@ export const useProjectUpdateUnified = () => {
     },
 
     onSuccess: async (data, _variables, context) => {
+      if (!data) {
+        toast({
+          title: 'Saved offline',
+          description: 'Your changes will sync when you are back online.',
+        });
+        return;
+      }
+
       const projectId = context?.projectId || data.id;
 
       logger.info('🎉 Project update mutation succeeded', {
@@ -344,7 +291,10 @@ export const useProjectUpdateUnified = () => {
       });
     },
 
-    onSettled: (_, __, variables, context) => {
+    onSettled: (data, __, variables, context) => {
+      // A queued edit keeps its optimistic state until the offline queue replays it
+      if (data === null) return;
+
       const projectId =
         context?.projectId ||
         ('id' in variables && 'data' in variables
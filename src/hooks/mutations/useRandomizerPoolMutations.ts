@@ -0,0 +1,97 @@
+/**
+ * Mutations for creating, updating and deleting randomizer pools
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '../queries/queryKeys';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { requireAuthenticatedUser } from '@/utils/authGuards';
+import { createLogger } from '@/utils/logger';
+import {
+  createRandomizerPool,
+  deleteRandomizerPool,
+  updateRandomizerPool,
+} from '@/services/pocketbase/randomizerPools.service';
+import type { RandomizerPool, RandomizerPoolFormValues } from '@/types/randomizerPool';
+
+const logger = createLogger('useRandomizerPoolMutations');
+
+export function useCreateRandomizerPool() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (values: RandomizerPoolFormValues) => {
+      const userId = requireAuthenticatedUser(user);
+      return createRandomizerPool(userId, values);
+    },
+    onSuccess: pool => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.randomizerPools.lists() });
+      toast({
+        title: 'Pool saved',
+        description: `"${pool.name}" is now available on the randomizer.`,
+      });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error creating randomizer pool:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not save this pool. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useUpdateRandomizerPool() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, values }: { id: string; values: Partial<RandomizerPoolFormValues> }) =>
+      updateRandomizerPool(id, values),
+    onSuccess: pool => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.randomizerPools.lists() });
+      toast({
+        title: 'Pool updated',
+        description: `"${pool.name}" has been updated.`,
+      });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error updating randomizer pool:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not update this pool. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useDeleteRandomizerPool() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (pool: RandomizerPool) => deleteRandomizerPool(pool.id),
+    onSuccess: (_, pool) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.randomizerPools.lists() });
+      toast({
+        title: 'Pool deleted',
+        description: `"${pool.name}" has been removed.`,
+      });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error deleting randomizer pool:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not delete this pool. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
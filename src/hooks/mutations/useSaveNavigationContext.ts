@@ -12,6 +12,8 @@ import { useMutation } from '@tanstack/react-query';
 import { pb } from '@/lib/pocketbase';
 import { createLogger } from '@/utils/logger';
 import { UserDashboardSettingsResponse } from '@/types/pocketbase.types';
+import type { ProjectRangeFilters, TagMatchMode } from '@/types/projectFilters';
+import type { ProjectSearchMode } from '@/types/projectSearch';
 // Dashboard filter context for persistence
 export interface DashboardFilterContext {
   filters: {
@@ -19,6 +21,8 @@ export interface DashboardFilterContext {
     company: string;
     artist: string;
     drillShape: string;
+    drillType?: string;
+    canvasType?: string;
     yearFinished: string;
     includeMiniKits: boolean;
     includeDestashed: boolean;
@@ -26,7 +30,11 @@ export interface DashboardFilterContext {
     includeWishlist: boolean;
     includeOnHold: boolean;
     searchTerm: string;
+    searchMode?: ProjectSearchMode;
     selectedTags: string[];
+    tagMatchMode?: TagMatchMode;
+    excludedTags?: string[];
+    ranges?: ProjectRangeFilters;
   };
   sortField: string;
   sortDirection: string;
@@ -0,0 +1,97 @@
+/**
+ * Mutations for creating, updating and deleting saved dashboard views
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '../queries/queryKeys';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { requireAuthenticatedUser } from '@/utils/authGuards';
+import { createLogger } from '@/utils/logger';
+import {
+  createSavedView,
+  deleteSavedView,
+  updateSavedView,
+} from '@/services/pocketbase/savedViews.service';
+import type { SavedView, SavedViewFormValues } from '@/types/savedView';
+
+const logger = createLogger('useSavedViewMutations');
+
+export function useCreateSavedView() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (values: SavedViewFormValues) => {
+      const userId = requireAuthenticatedUser(user);
+      return createSavedView(userId, values);
+    },
+    onSuccess: view => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedViews.lists() });
+      toast({
+        title: 'View saved',
+        description: `"${view.name}" is now available from the dashboard.`,
+      });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error creating saved view:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not save this view. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useUpdateSavedView() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, values }: { id: string; values: Partial<SavedViewFormValues> }) =>
+      updateSavedView(id, values),
+    onSuccess: view => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedViews.lists() });
+      toast({
+        title: 'View updated',
+        description: `"${view.name}" has been updated.`,
+      });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error updating saved view:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not update this view. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useDeleteSavedView() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (view: SavedView) => deleteSavedView(view.id),
+    onSuccess: (_, view) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.savedViews.lists() });
+      toast({
+        title: 'View deleted',
+        description: `"${view.name}" has been removed.`,
+      });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error deleting saved view:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not delete this view. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -0,0 +1,152 @@
+/**
+ * Mutations for share links and the public profile
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '../queries/queryKeys';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { requireAuthenticatedUser } from '@/utils/authGuards';
+import { createLogger } from '@/utils/logger';
+import {
+  revokeAllShares,
+  revokeProjectShare,
+  saveProjectShare,
+  savePublicProfile,
+} from '@/services/pocketbase/sharing.service';
+import type {
+  ProjectShare,
+  ProjectShareSettings,
+  PublicProfile,
+  PublicProfileSettings,
+} from '@/types/sharing';
+
+const logger = createLogger('useSharingMutations');
+
+export function useSaveProjectShare() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      projectId,
+      settings,
+      existing,
+    }: {
+      projectId: string;
+      settings: ProjectShareSettings;
+      existing: ProjectShare | null;
+    }) => {
+      const userId = requireAuthenticatedUser(user);
+      return saveProjectShare(userId, projectId, settings, existing);
+    },
+    onSuccess: (share, { existing }) => {
+      queryClient.setQueryData(queryKeys.sharing.project(share.projectId), share);
+      queryClient.invalidateQueries({ queryKey: queryKeys.sharing.all });
+      toast({
+        title: existing ? 'Shared copy updated' : 'Share link created',
+        description: existing
+          ? 'Visitors now see the latest details you chose.'
+          : 'Anyone with the link can view the details you chose.',
+      });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error saving project share:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not save this share link. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useRevokeProjectShare() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (share: ProjectShare) => revokeProjectShare(share.id),
+    onSuccess: (_, share) => {
+      queryClient.setQueryData(queryKeys.sharing.project(share.projectId), null);
+      queryClient.invalidateQueries({ queryKey: queryKeys.sharing.all });
+      toast({ title: 'Link revoked', description: 'The share link no longer works.' });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error revoking project share:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not revoke this link. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useRevokeAllShares() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => revokeAllShares(requireAuthenticatedUser(user)),
+    onSuccess: count => {
+      queryClient.removeQueries({ queryKey: [...queryKeys.sharing.all, 'project'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.sharing.all });
+      toast({
+        title: 'Links revoked',
+        description: `${count} share ${count === 1 ? 'link' : 'links'} no longer work.`,
+      });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error revoking all shares:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not revoke your links. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useSavePublicProfile() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      username,
+      settings,
+      existing,
+    }: {
+      username: string;
+      settings: PublicProfileSettings;
+      existing: PublicProfile | null;
+    }) => {
+      const userId = requireAuthenticatedUser(user);
+      return savePublicProfile(userId, username, settings, existing);
+    },
+    onSuccess: profile => {
+      queryClient.setQueryData(queryKeys.sharing.ownProfile(profile.userId), profile);
+      queryClient.invalidateQueries({ queryKey: queryKeys.sharing.all });
+      toast({
+        title: profile.enabled ? 'Public profile saved' : 'Public profile hidden',
+        description: profile.enabled
+          ? 'Projects you list on your profile are visible to anyone.'
+          : 'Your profile page is no longer visible. Share links still work until revoked.',
+      });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error saving public profile:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not save your public profile. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
@@ -39,6 +39,8 @@ interface UpdateProjectData {
   status?: string;
   kit_category?: string;
   drill_shape?: string;
+  drill_type?: string;
+  canvas_type?: string;
   date_purchased?: string;
   date_started?: string;
   date_completed?: string;
@@ -46,6 +48,11 @@ interface UpdateProjectData {
   width?: number;
   height?: number;
   total_diamonds?: number;
+  price?: number;
+  shipping_cost?: number;
+  discount?: number;
+  currency?: string;
+  order_reference?: string;
   general_notes?: string;
   image?: File;
   source_url?: string;
@@ -7,6 +7,8 @@
 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { pb } from '@/lib/pocketbase';
+import { runOrQueueWrite } from '@/lib/offlineQueue';
+import { collectLeftoverDrillsAfterWrite } from '@/services/pocketbase/drills.service';
 import { Collections, ProjectsResponse } from '@/types/pocketbase.types';
 import { queryKeys } from '../queries/queryKeys';
 import { useToast } from '@/hooks/use-toast';
@@ -15,6 +17,8 @@ import { createLogger } from '@/utils/logger';
 import { ClientResponseError } from 'pocketbase';
 import { getCurrentDateString } from '@/utils/dateHelpers';
 import { useUserTimezone } from '@/hooks/useUserTimezone';
+import { getQueuedWriteContext } from '@/utils/offlineQueue';
+import { requireAuthenticatedUser } from '@/utils/authGuards';
 import {
   updateProjectStatusOptimistic,
   rollbackProjectsOptimistic,
@@ -40,52 +44,76 @@ export const useUpdateProjectStatus = () => {
   const userTimezone = useUserTimezone();
   const { user } = useAuth();
 
-  return useMutation<ProjectsResponse, Error, UpdateProjectStatusData, MutationContext>({
-    mutationFn: async (data: UpdateProjectStatusData): Promise<ProjectsResponse> => {
-      const { projectId, newStatus } = data;
+  return useMutation<ProjectsResponse | null, Error, UpdateProjectStatusData, MutationContext>({
+    // Run while offline too, so the write can be queued instead of paused in memory
+    networkMode: 'always',
+    mutationFn: async (data: UpdateProjectStatusData): Promise<ProjectsResponse | null> => {
+      const { projectId, newStatus, currentStatus } = data;
       logger.debug('Updating project status:', { projectId, newStatus });
 
-      // Get current project data to check existing date_started
-      const currentProject = await pb.collection(Collections.Projects).getOne(projectId);
+      // Without a connection the change is queued and replayed later; the optimistic update stays
+      return runOrQueueWrite(
+        {
+          userId: requireAuthenticatedUser(user),
+          projectId,
+          ...getQueuedWriteContext(queryClient, projectId),
+          payload: {
+            kind: 'project-status',
+            newStatus,
+            currentStatus,
+            today: getCurrentDateString(userTimezone),
+          },
+        },
+        async () => {
+          // Get current project data to check existing date_started
+          const currentProject = await pb.collection(Collections.Projects).getOne(projectId);
+
+          // Prepare update data
+          const updateData: {
+            status: string;
+            date_completed?: string | null;
+            date_started?: string;
+          } = {
+            status: newStatus,
+          };
+
+          // Auto-set date_started when status changes to 'in-progress' (only if not already set)
+          if (newStatus === 'in-progress' && !currentProject.date_started) {
+            updateData.date_started = getCurrentDateString(userTimezone);
+            logger.debug(
+              'Auto-setting date_started for in-progress project:',
+              updateData.date_started
+            );
+          }
 
-      // Prepare update data
-      const updateData: {
-        status: string;
-        date_completed?: string | null;
-        date_started?: string;
-      } = {
-        status: newStatus,
-      };
+          // Auto-set date_completed when status changes to 'completed' (only if not already set)
+          // Clear date_completed when status changes away from 'completed'
+          // Note: date_started should be preserved for all active statuses
+          if (newStatus === 'completed') {
+            if (!currentProject.date_completed) {
+              updateData.date_completed = getCurrentDateString(userTimezone);
+              logger.debug(
+                'Auto-setting date_completed for completed project:',
+                updateData.date_completed
+              );
+            } else {
+              logger.debug('Preserving existing date_completed:', currentProject.date_completed);
+            }
+          } else {
+            updateData.date_completed = null;
+            logger.debug('Clearing date_completed for non-completed project');
+          }
 
-      // Auto-set date_started when status changes to 'in-progress' (only if not already set)
-      if (newStatus === 'in-progress' && !currentProject.date_started) {
-        updateData.date_started = getCurrentDateString(userTimezone);
-        logger.debug('Auto-setting date_started for in-progress project:', updateData.date_started);
-      }
+          // Update the project
+          const result = await pb.collection(Collections.Projects).update(projectId, updateData);
+          logger.info('Project status updated successfully:', { projectId: result.id, newStatus });
+          if (newStatus === 'completed') {
+            await collectLeftoverDrillsAfterWrite(result.user);
+          }
 
-      // Auto-set date_completed when status changes to 'completed' (only if not already set)
-      // Clear date_completed when status changes away from 'completed'
-      // Note: date_started should be preserved for all active statuses
-      if (newStatus === 'completed') {
-        if (!currentProject.date_completed) {
-          updateData.date_completed = getCurrentDateString(userTimezone);
-          logger.debug(
-            'Auto-setting date_completed for completed project:',
-            updateData.date_completed
-          );
-        } else {
-          logger.debug('Preserving existing date_completed:', currentProject.date_completed);
+          return result as ProjectsResponse;
         }
-      } else {
-        updateData.date_completed = null;
-        logger.debug('Clearing date_completed for non-completed project');
-      }
-
-      // Update the project
-      const result = await pb.collection(Collections.Projects).update(projectId, updateData);
-      logger.info('Project status updated successfully:', { projectId: result.id, newStatus });
-
-      return result as ProjectsResponse;
+      );
     },
 
     onMutate: async variables => {
@@ -168,6 +196,14 @@ export const useUpdateProjectStatus = () => {
 
       if (!user?.id) return;
 
+      if (!data) {
+        toast({
+          title: 'Saved offline',
+          description: 'The status change will sync when you are back online.',
+        });
+        return;
+      }
+
       // Update the project detail in cache with real data
       queryClient.setQueryData(queryKeys.projects.detail(data.id), data);
 
@@ -224,8 +260,9 @@ export const useUpdateProjectStatus = () => {
       }
     },
 
-    onSettled: () => {
-      if (!user?.id) return;
+    onSettled: data => {
+      // A queued change keeps its optimistic state until the offline queue replays it
+      if (!user?.id || data === null) return;
 
       logger.debug('🔄 [OPTIMIZED] Ensuring eventual consistency');
 
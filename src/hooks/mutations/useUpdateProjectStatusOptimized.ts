@@ -12,8 +12,8 @@
  */
 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { pb } from '@/lib/pocketbase';
-import { Collections, ProjectsResponse } from '@/types/pocketbase.types';
+import { runOrQueueWrite } from '@/lib/offlineQueue';
+import { ProjectsResponse } from '@/types/pocketbase.types';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { createLogger } from '@/utils/logger';
@@ -22,10 +22,16 @@ import { getCurrentDateString } from '@/utils/dateHelpers';
 import { useUserTimezone } from '@/hooks/useUserTimezone';
 import {
   updateProjectStatusOptimistic,
+  updateBoardProjectStatusOptimistic,
   rollbackProjectsOptimistic,
+  rollbackBoardsOptimistic,
   invalidateProjectsCache,
   OptimisticProjectsContext,
 } from '@/utils/optimisticUpdatesOptimized';
+import { getQueuedWriteContext } from '@/utils/offlineQueue';
+import { requireAuthenticatedUser } from '@/utils/authGuards';
+import { updateProjectStatusRecord } from '@/services/pocketbase/projectWrites.service';
+import { queryKeys } from '@/hooks/queries/queryKeys';
 
 const logger = createLogger('useUpdateProjectStatusOptimized');
 
@@ -33,6 +39,8 @@ interface UpdateProjectStatusData {
   projectId: string;
   newStatus: string;
   currentStatus?: string;
+  /** Skip per-project toasts, e.g. when the caller reports a batch result itself */
+  silent?: boolean;
 }
 
 /**
@@ -50,31 +58,37 @@ export const useUpdateProjectStatusOptimized = () => {
   const userTimezone = useUserTimezone();
   const { user } = useAuth();
 
-  return useMutation<ProjectsResponse, Error, UpdateProjectStatusData, OptimisticProjectsContext>({
-    mutationFn: async (data: UpdateProjectStatusData): Promise<ProjectsResponse> => {
-      const { projectId, newStatus } = data;
+  return useMutation<
+    ProjectsResponse | null,
+    Error,
+    UpdateProjectStatusData,
+    OptimisticProjectsContext
+  >({
+    // Run while offline too, so the write can be queued instead of paused in memory
+    networkMode: 'always',
 
-      logger.debug('🚀 [OPTIMIZED] Updating project status', { projectId, newStatus });
+    mutationFn: async (data: UpdateProjectStatusData): Promise<ProjectsResponse | null> => {
+      const { projectId, newStatus, currentStatus } = data;
 
-      // Prepare update data
-      const updateData: { status: string; date_completed?: string | null } = {
-        status: newStatus,
-      };
-
-      // Set completion date for completed status
-      if (newStatus === 'completed') {
-        updateData.date_completed = getCurrentDateString(userTimezone);
-      } else if (data.currentStatus === 'completed' && newStatus !== 'completed') {
-        // Clear completion date when moving away from completed
-        updateData.date_completed = null;
-      }
+      logger.debug('🚀 [OPTIMIZED] Updating project status', { projectId, newStatus });
 
-      const result = await pb.collection(Collections.Projects).update(projectId, updateData);
+      const today = getCurrentDateString(userTimezone);
+
+      // Without a connection the change is queued and replayed later; the optimistic update stays
+      const result = await runOrQueueWrite(
+        {
+          userId: requireAuthenticatedUser(user),
+          projectId,
+          ...getQueuedWriteContext(queryClient, projectId),
+          payload: { kind: 'project-status', newStatus, currentStatus, today },
+        },
+        () => updateProjectStatusRecord(projectId, newStatus, currentStatus, today)
+      );
 
       logger.debug('✅ [OPTIMIZED] Project status updated successfully', {
         projectId,
         newStatus,
-        duration: 'Sub-second response expected',
+        queuedOffline: !result,
       });
 
       return result;
@@ -93,6 +107,7 @@ export const useUpdateProjectStatusOptimized = () => {
       await queryClient.cancelQueries({
         queryKey: ['projects', 'for-stats', user.id],
       });
+      await queryClient.cancelQueries({ queryKey: queryKeys.projects.boards(user.id) });
 
       // Optimistically update projects cache (stats will recalculate automatically)
       const previousProjects = updateProjectStatusOptimistic(
@@ -102,12 +117,21 @@ export const useUpdateProjectStatusOptimized = () => {
         data.newStatus
       );
 
-      return { previousProjects };
+      // Move the card on any open board view as well
+      const previousBoards = updateBoardProjectStatusOptimistic(
+        queryClient,
+        user.id,
+        data.projectId,
+        data.newStatus,
+        getCurrentDateString(userTimezone)
+      );
+
+      return { previousProjects, previousBoards };
     },
 
     // Rollback on error
     onError: (error, data, context) => {
-      if (!user?.id || !context?.previousProjects) return;
+      if (!user?.id || !context) return;
 
       logger.error('❌ [OPTIMIZED] Mutation failed, rolling back', {
         error: error.message,
@@ -116,9 +140,10 @@ export const useUpdateProjectStatusOptimized = () => {
 
       // Rollback optimistic updates
       rollbackProjectsOptimistic(queryClient, user.id, context.previousProjects);
+      rollbackBoardsOptimistic(queryClient, context.previousBoards);
 
       // Show error toast
-      if (error instanceof ClientResponseError) {
+      if (error instanceof ClientResponseError && !data.silent) {
         toast({
           title: 'Failed to update project status',
           description: error.message || 'Please try again.',
@@ -128,14 +153,16 @@ export const useUpdateProjectStatusOptimized = () => {
     },
 
     // Ensure eventual consistency
-    onSettled: () => {
-      if (!user?.id) return;
+    onSettled: data => {
+      // A queued change keeps its optimistic state until the offline queue replays it
+      if (!user?.id || data === null) return;
 
       logger.debug('🔄 [OPTIMIZED] Ensuring eventual consistency');
 
       // Invalidate projects cache to sync with server state
       // Stats will be recalculated automatically from fresh data
       invalidateProjectsCache(queryClient, user.id);
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects.boards(user.id) });
     },
 
     onSuccess: (data, variables) => {
@@ -146,10 +173,19 @@ export const useUpdateProjectStatusOptimized = () => {
         architecture: 'Single source of truth with optimistic updates',
       });
 
-      toast({
-        title: 'Project updated',
-        description: `Status changed to ${variables.newStatus}`,
-      });
+      if (variables.silent) return;
+
+      toast(
+        data
+          ? {
+              title: 'Project updated',
+              description: `Status changed to ${variables.newStatus}`,
+            }
+          : {
+              title: 'Saved offline',
+              description: 'The status change will sync when you are back online.',
+            }
+      );
     },
   });
 };
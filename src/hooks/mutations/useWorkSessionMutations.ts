@@ -0,0 +1,101 @@
+/**
+ * Mutations for starting, stopping and deleting work sessions
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '../queries/queryKeys';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { requireAuthenticatedUser } from '@/utils/authGuards';
+import { createLogger } from '@/utils/logger';
+import { formatDuration } from '@/utils/workSessions';
+import {
+  deleteWorkSession,
+  startWorkSession,
+  stopWorkSession,
+} from '@/services/pocketbase/workSessions.service';
+import type { WorkSession } from '@/types/workSession';
+
+const logger = createLogger('useWorkSessionMutations');
+
+const useInvalidateWorkSessions = () => {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.workSessions.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.stats.all });
+  };
+};
+
+export function useStartWorkSession() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const invalidate = useInvalidateWorkSessions();
+
+  return useMutation({
+    mutationFn: (projectId: string) => {
+      const userId = requireAuthenticatedUser(user);
+      return startWorkSession(userId, projectId);
+    },
+    onSuccess: invalidate,
+    onError: (error: unknown) => {
+      logger.error('Error starting work session:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not start the timer. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useStopWorkSession() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateWorkSessions();
+
+  return useMutation({
+    mutationFn: ({ session, drillsPlaced }: { session: WorkSession; drillsPlaced?: number }) =>
+      stopWorkSession(session, drillsPlaced),
+    onSuccess: session => {
+      invalidate();
+      toast({
+        title: 'Session saved',
+        description: `Logged ${formatDuration(session.durationSeconds)} of work.`,
+      });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error stopping work session:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not stop the timer. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
+
+export function useDeleteWorkSession() {
+  const { toast } = useToast();
+  const invalidate = useInvalidateWorkSessions();
+
+  return useMutation({
+    mutationFn: (session: WorkSession) => deleteWorkSession(session.id),
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: 'Session deleted',
+        description: 'The work session has been removed.',
+      });
+    },
+    onError: (error: unknown) => {
+      logger.error('Error deleting work session:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not delete this session. Please try again.',
+        variant: 'destructive',
+      });
+    },
+  });
+}
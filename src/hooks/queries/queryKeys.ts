@@ -105,6 +105,16 @@ export interface ProjectQueryParams {
   [key: string]: unknown;
 }
 
+/**
+ * Parameters for the board view: every status at once, so no status filter or pagination
+ */
+export interface ProjectBoardQueryParams {
+  filters: ServerFilters;
+  sortField: DashboardValidSortField;
+  sortDirection: 'asc' | 'desc';
+  [key: string]: unknown;
+}
+
 /**
  * Parameters for company list queries
  * Used to create unique cache keys for different pagination combinations
@@ -137,6 +147,12 @@ export const queryKeys = {
     /** Specific project list with user and parameters - uses stable serialization */
     list: (userId: string, params: ProjectQueryParams) =>
       [...queryKeys.projects.lists(), createUserKeyHash(userId), createStableKey(params)] as const,
+    /** Base key for a user's board view queries, used for optimistic status moves */
+    boards: (userId: string) =>
+      [...queryKeys.projects.all, 'board', createUserKeyHash(userId)] as const,
+    /** Board view with its filters and sort */
+    board: (userId: string, params: ProjectBoardQueryParams) =>
+      [...queryKeys.projects.boards(userId), createStableKey(params)] as const,
     /** Base key for project detail queries */
     details: () => [...queryKeys.projects.all, 'detail'] as const,
     /** Specific project detail by ID */
@@ -150,6 +166,22 @@ export const queryKeys = {
     /** Navigation context fallback for direct URL access */
     navigationContext: (userId: string) =>
       [...queryKeys.projects.all, 'navigation-context', createUserKeyHash(userId)] as const,
+    /** Every project in a randomizer filter pool - lives under projects so project changes refresh it */
+    randomizerPool: (userId: string, filters: Record<string, unknown>) =>
+      [
+        ...queryKeys.projects.all,
+        'randomizer-pool',
+        createUserKeyHash(userId),
+        createStableKey(filters),
+      ] as const,
+    /** Status counts for a saved view's filters - lives under projects so project changes refresh it */
+    savedViewCounts: (userId: string, filters: Record<string, unknown>) =>
+      [
+        ...queryKeys.projects.all,
+        'saved-view-counts',
+        createUserKeyHash(userId),
+        createStableKey(filters),
+      ] as const,
   },
 
   // Company-related keys
@@ -192,6 +224,9 @@ export const queryKeys = {
     list: (projectId: string) => [...queryKeys.progressNotes.lists(), projectId] as const,
     details: () => [...queryKeys.progressNotes.all, 'detail'] as const,
     detail: (id: string) => [...queryKeys.progressNotes.details(), id] as const,
+    latestProgressAll: () => [...queryKeys.progressNotes.all, 'latest-progress'] as const,
+    latestProgress: (projectIds: string[]) =>
+      [...queryKeys.progressNotes.latestProgressAll(), [...projectIds].sort().join(',')] as const,
   },
 
   // User-related keys
@@ -216,6 +251,86 @@ export const queryKeys = {
       [...queryKeys.stats.all, 'analytics', createUserKeyHash(userId)] as const,
     availableYears: (userId: string) =>
       [...queryKeys.stats.all, 'availableYears', createUserKeyHash(userId)] as const,
+    yearly: (userId: string, year: number) =>
+      [...queryKeys.stats.all, 'yearly', createUserKeyHash(userId), year] as const,
+  },
+
+  // Saved dashboard view keys
+  savedViews: {
+    all: ['savedViews'] as const,
+    lists: () => [...queryKeys.savedViews.all, 'list'] as const,
+    list: (userId: string) => [...queryKeys.savedViews.lists(), createUserKeyHash(userId)] as const,
+  },
+
+  // Randomizer pool keys
+  randomizerPools: {
+    all: ['randomizerPools'] as const,
+    lists: () => [...queryKeys.randomizerPools.all, 'list'] as const,
+    list: (userId: string) =>
+      [...queryKeys.randomizerPools.lists(), createUserKeyHash(userId)] as const,
+  },
+
+  // Work session (timer) keys
+  workSessions: {
+    all: ['workSessions'] as const,
+    project: (projectId: string) => [...queryKeys.workSessions.all, 'project', projectId] as const,
+    active: (userId: string) =>
+      [...queryKeys.workSessions.all, 'active', createUserKeyHash(userId)] as const,
+    user: (userId: string) =>
+      [...queryKeys.workSessions.all, 'user', createUserKeyHash(userId)] as const,
+  },
+
+  // Order keys
+  orders: {
+    all: ['orders'] as const,
+    list: (userId: string) => [...queryKeys.orders.all, 'list', createUserKeyHash(userId)] as const,
+    orderableProjects: (userId: string) =>
+      [...queryKeys.orders.all, 'orderableProjects', createUserKeyHash(userId)] as const,
+  },
+
+  // Drill legends and leftovers
+  drills: {
+    all: ['drills'] as const,
+    project: (projectId: string) => [...queryKeys.drills.all, 'project', projectId] as const,
+    /** Under projects, so completing a project refreshes the leftovers */
+    leftovers: (userId: string) =>
+      [...queryKeys.projects.all, 'leftover-drills', createUserKeyHash(userId)] as const,
+    usage: (userId: string, dmcCode: string) =>
+      [...queryKeys.drills.all, 'usage', createUserKeyHash(userId), dmcCode] as const,
+  },
+
+  // Claims filed with companies for kit problems
+  claims: {
+    all: ['claims'] as const,
+    project: (projectId: string) => [...queryKeys.claims.all, 'project', projectId] as const,
+    company: (companyId: string) => [...queryKeys.claims.all, 'company', companyId] as const,
+    unresolved: (userId: string) =>
+      [...queryKeys.claims.all, 'unresolved', createUserKeyHash(userId)] as const,
+  },
+
+  // Calendar of project dates and progress notes; under projects so project edits refresh it
+  calendar: {
+    events: (userId: string) =>
+      [...queryKeys.projects.all, 'calendar', createUserKeyHash(userId)] as const,
+  },
+
+  // Completed-projects gallery; under projects so project edits refresh it
+  gallery: {
+    completed: (userId: string) =>
+      [...queryKeys.projects.all, 'gallery', createUserKeyHash(userId)] as const,
+  },
+
+  // Public sharing keys: the owner's share settings and what visitors see
+  sharing: {
+    all: ['sharing'] as const,
+    project: (projectId: string) => [...queryKeys.sharing.all, 'project', projectId] as const,
+    list: (userId: string) =>
+      [...queryKeys.sharing.all, 'list', createUserKeyHash(userId)] as const,
+    ownProfile: (userId: string) =>
+      [...queryKeys.sharing.all, 'ownProfile', createUserKeyHash(userId)] as const,
+    publicProfile: (username: string) =>
+      [...queryKeys.sharing.all, 'publicProfile', username] as const,
+    sharedProject: (token: string) => [...queryKeys.sharing.all, 'sharedProject', token] as const,
   },
 
   // Dashboard filter state keys (for optimistic updates)
@@ -71,7 +71,7 @@ async function fetchAllCompanies(userId: string): Promise<CompaniesResponse[]> {
   const resultList = await pb.collection(Collections.Companies).getList(1, 500, {
     filter: `user = "${userId}"`,
     sort: 'name',
-    fields: 'id,name', // Only fetch needed fields for better performance
+    fields: 'id,name,quality_rating', // Only fetch needed fields for better performance
     requestKey,
   });
 
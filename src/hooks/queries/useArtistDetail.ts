@@ -0,0 +1,26 @@
+/**
+ * React Query hook for the artist detail page
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from './queryKeys';
+import { getArtistDetail } from '@/services/pocketbase/artists.service';
+
+/**
+ * Fetch an artist with the user's projects by them. Kept fresh for a minute only, since
+ * project edits elsewhere change the gallery without touching the artist itself.
+ */
+export function useArtistDetail(artistId: string | undefined) {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+
+  return useQuery({
+    queryKey: queryKeys.artists.detail(artistId || ''),
+    queryFn: () => getArtistDetail(userId, artistId!),
+    enabled: !!userId && !!artistId,
+    staleTime: 60 * 1000,
+  });
+}
@@ -0,0 +1,100 @@
+/**
+ * Projects for the dashboard board view
+ *
+ * The board shows every status as a column, so it loads all projects matching the
+ * current filters apart from the status tab, in one unpaginated list.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useMetadata } from '@/contexts/MetadataContext';
+import type { FilterState } from '@/contexts/FilterContext';
+import { projectsService } from '@/services/pocketbase/projects.service';
+import { queryKeys, type ProjectBoardQueryParams } from './queryKeys';
+import type { ServerFilters } from './useProjects';
+
+export const useBoardProjects = (
+  userId: string | undefined,
+  filters: FilterState,
+  debouncedSearchTerm: string,
+  enabled: boolean
+) => {
+  const { companies, artists } = useMetadata();
+
+  const params: ProjectBoardQueryParams = useMemo(() => {
+    const serverFilters: ServerFilters = {
+      status: 'everything',
+      company: filters.selectedCompany,
+      artist: filters.selectedArtist,
+      drillShape: filters.selectedDrillShape,
+      drillType: filters.selectedDrillType,
+      canvasType: filters.selectedCanvasType,
+      yearFinished: filters.selectedYearFinished,
+      includeMiniKits: filters.includeMiniKits,
+      includeDestashed: filters.includeDestashed,
+      includeArchived: filters.includeArchived,
+      includeWishlist: filters.includeWishlist,
+      includeOnHold: filters.includeOnHold,
+      searchTerm: debouncedSearchTerm,
+      searchMode: filters.searchMode,
+      selectedTags: filters.selectedTags,
+      tagMatchMode: filters.tagMatchMode,
+      excludedTags: filters.excludedTags,
+      ranges: filters.ranges,
+    };
+    return {
+      filters: serverFilters,
+      sortField: filters.sortField,
+      sortDirection: filters.sortDirection,
+    };
+  }, [
+    filters.selectedCompany,
+    filters.selectedArtist,
+    filters.selectedDrillShape,
+    filters.selectedDrillType,
+    filters.selectedCanvasType,
+    filters.selectedYearFinished,
+    filters.includeMiniKits,
+    filters.includeDestashed,
+    filters.includeArchived,
+    filters.includeWishlist,
+    filters.includeOnHold,
+    debouncedSearchTerm,
+    filters.searchMode,
+    filters.selectedTags,
+    filters.tagMatchMode,
+    filters.excludedTags,
+    filters.ranges,
+    filters.sortField,
+    filters.sortDirection,
+  ]);
+
+  // Company and artist names are resolved from metadata, so refetch when it changes
+  const metadataSignature = useMemo(
+    () =>
+      [
+        (companies ?? []).map(company => company.id).join(','),
+        (artists ?? []).map(artist => artist.id).join(','),
+      ].join('|'),
+    [companies, artists]
+  );
+
+  return useQuery({
+    queryKey: [...queryKeys.projects.board(userId || '', params), metadataSignature],
+    queryFn: () =>
+      projectsService.getAllProjects(
+        {
+          filters: { userId: userId!, ...params.filters },
+          sort: { field: params.sortField, direction: params.sortDirection },
+          expand: { tags: true, company: false, artist: false, user: false },
+        },
+        new Map((companies ?? []).map(company => [company.id, company.name])),
+        new Map((artists ?? []).map(artist => [artist.id, artist.name]))
+      ),
+    enabled: !!userId && enabled,
+    staleTime: 2 * 60 * 1000,
+  });
+};
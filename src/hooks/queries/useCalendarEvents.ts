@@ -0,0 +1,26 @@
+/**
+ * React Query hook for the calendar page
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from './queryKeys';
+import { getCalendarEvents } from '@/services/pocketbase/calendar.service';
+
+/**
+ * Fetch every project milestone and progress note date for the current user. Kept fresh
+ * for a minute only, since progress note edits don't refresh project queries.
+ */
+export function useCalendarEvents() {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+
+  return useQuery({
+    queryKey: queryKeys.calendar.events(userId),
+    queryFn: () => getCalendarEvents(userId),
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+  });
+}
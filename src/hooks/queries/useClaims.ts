@@ -0,0 +1,56 @@
+/**
+ * React Query hooks for kit claims
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from './queryKeys';
+import {
+  getCompanyClaims,
+  getProjectClaims,
+  getUnresolvedClaims,
+} from '@/services/pocketbase/claims.service';
+
+/**
+ * Fetch the claims filed for a project
+ */
+export function useProjectClaims(projectId: string) {
+  return useQuery({
+    queryKey: queryKeys.claims.project(projectId),
+    queryFn: () => getProjectClaims(projectId),
+    enabled: !!projectId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Fetch the claims filed with a company
+ */
+export function useCompanyClaims(companyId: string | undefined) {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+
+  return useQuery({
+    queryKey: queryKeys.claims.company(companyId || ''),
+    queryFn: () => getCompanyClaims(userId, companyId!),
+    enabled: !!userId && !!companyId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Fetch the current user's open claims and those waiting on a replacement
+ */
+export function useUnresolvedClaims() {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+
+  return useQuery({
+    queryKey: queryKeys.claims.unresolved(userId),
+    queryFn: () => getUnresolvedClaims(userId),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
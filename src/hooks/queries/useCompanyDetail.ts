@@ -0,0 +1,26 @@
+/**
+ * React Query hook for the company scorecard page
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from './queryKeys';
+import { getCompanyDetail } from '@/services/pocketbase/companies.service';
+
+/**
+ * Fetch a company with its projects and orders. Kept fresh for a minute only, since
+ * project edits elsewhere change the scorecard without touching the company itself.
+ */
+export function useCompanyDetail(companyId: string | undefined) {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+
+  return useQuery({
+    queryKey: queryKeys.companies.detail(companyId || ''),
+    queryFn: () => getCompanyDetail(userId, companyId!),
+    enabled: !!userId && !!companyId,
+    staleTime: 60 * 1000,
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * React Query hook for the completed-projects gallery
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from './queryKeys';
+import { getCompletedGallery } from '@/services/pocketbase/gallery.service';
+
+/**
+ * Fetch the user's completed projects with their images. Kept fresh for a minute only,
+ * since new progress pictures don't refresh project queries.
+ */
+export function useCompletedGallery() {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+
+  return useQuery({
+    queryKey: queryKeys.gallery.completed(userId),
+    queryFn: () => getCompletedGallery(userId),
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+  });
+}
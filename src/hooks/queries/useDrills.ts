@@ -0,0 +1,57 @@
+/**
+ * React Query hooks for project drill legends, leftover drills and colour lookups
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from './queryKeys';
+import {
+  getDrillColourUsage,
+  getLeftoverDrills,
+  getProjectDrills,
+} from '@/services/pocketbase/drills.service';
+
+/**
+ * Fetch a project's drill legend
+ */
+export function useProjectDrills(projectId: string) {
+  return useQuery({
+    queryKey: queryKeys.drills.project(projectId),
+    queryFn: () => getProjectDrills(projectId),
+    enabled: !!projectId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Fetch the current user's leftover drills
+ */
+export function useLeftoverDrills() {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+
+  return useQuery({
+    queryKey: queryKeys.drills.leftovers(userId),
+    queryFn: () => getLeftoverDrills(userId),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Find the current user's projects that use a colour
+ * @param dmcCode - Normalized DMC code; the query is idle while it's empty
+ */
+export function useDrillColourUsage(dmcCode: string) {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+
+  return useQuery({
+    queryKey: queryKeys.drills.usage(userId, dmcCode),
+    queryFn: () => getDrillColourUsage(userId, dmcCode),
+    enabled: !!userId && !!dmcCode,
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * React Query hooks for orders and the projects that can be put on them
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from './queryKeys';
+import { getOrderableProjects, getUserOrders } from '@/services/pocketbase/orders.service';
+
+/**
+ * Fetch the current user's orders with their linked projects
+ */
+export function useOrders() {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+
+  return useQuery({
+    queryKey: queryKeys.orders.list(userId),
+    queryFn: () => getUserOrders(userId),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Fetch the purchased and stash projects offered in the order form
+ */
+export function useOrderableProjects(enabled: boolean = true) {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+
+  return useQuery({
+    queryKey: queryKeys.orders.orderableProjects(userId),
+    queryFn: () => getOrderableProjects(userId),
+    enabled: enabled && !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
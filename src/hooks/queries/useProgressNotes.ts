@@ -1,23 +1,29 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
 import { ProgressNote } from '@/types/project';
+import { ProgressNotesRecord, ProgressNotesResponse } from '@/types/pocketbase.types';
+import type { ProgressNoteSubmitData } from '@/components/projects/ProgressNoteForm/types';
+import type { QueuedProgressNote } from '@/types/offlineQueue';
 import { pb } from '@/lib/pocketbase';
+import { runOrQueueWrite } from '@/lib/offlineQueue';
+import { createProgressNoteRecord } from '@/services/pocketbase/projectWrites.service';
 import { queryKeys } from './queryKeys';
-import { requireValidAuthStore } from '@/utils/authGuards';
+import { requireAuthenticatedUser, requireValidAuthStore } from '@/utils/authGuards';
+import { getQueuedWriteContext } from '@/utils/offlineQueue';
 import { formatDateForStorage } from '@/utils/dateFormatting';
 import { createLogger } from '@/utils/logger';
 
 const logger = createLogger('useProgressNotes');
 
-interface AddProgressNoteData {
-  date: string;
-  content: string;
-  imageFile?: File;
-}
+type AddProgressNoteData = ProgressNoteSubmitData;
 
 interface UpdateProgressNoteData {
   noteId: string;
   newContent: string;
+  /** Null clears the recorded progress; undefined leaves it unchanged */
+  drillsPlaced?: number | null;
+  percentComplete?: number | null;
 }
 
 interface DeleteProgressNoteData {
@@ -32,6 +38,39 @@ interface UpdateGeneralNotesData {
   newNotes: string;
 }
 
+/**
+ * Transform a PocketBase record to the ProgressNote format
+ */
+function toProgressNote(record: ProgressNotesResponse): ProgressNote {
+  return {
+    id: record.id,
+    projectId: record.project,
+    content: record.content,
+    date: record.date,
+    imageUrl: record.image ? pb.files.getURL(record, record.image) : undefined,
+    // PocketBase returns 0 for unset number fields
+    drillsPlaced: record.drills_placed || undefined,
+    percentComplete: record.percent_complete || undefined,
+    createdAt: record.created,
+    updatedAt: record.updated,
+  };
+}
+
+/**
+ * Invalidate every cached view of a project's progress notes
+ */
+function invalidateProgressNoteQueries(
+  queryClient: ReturnType<typeof useQueryClient>,
+  projectId: string
+) {
+  queryClient.invalidateQueries({
+    queryKey: queryKeys.progressNotes.list(projectId),
+  });
+  queryClient.invalidateQueries({
+    queryKey: queryKeys.progressNotes.latestProgressAll(),
+  });
+}
+
 /**
  * Query hook to fetch progress notes for a project
  */
@@ -51,17 +90,7 @@ export function useProgressNotesQuery(projectId: string | null) {
       });
 
       // Transform PocketBase records to ProgressNote format
-      const progressNotes: ProgressNote[] = notes.map(note => ({
-        id: note.id,
-        projectId: note.project,
-        content: note.content,
-        date: note.date,
-        imageUrl: note.image ? pb.files.getURL(note, note.image) : undefined,
-        createdAt: note.created,
-        updatedAt: note.updated,
-      }));
-
-      return progressNotes;
+      return notes.map(toProgressNote);
     },
     enabled: !!projectId,
     staleTime: 5 * 60 * 1000, // 5 minutes
@@ -74,17 +103,53 @@ export function useProgressNotesQuery(projectId: string | null) {
   });
 }
 
+/**
+ * Query hook to fetch the most recent progress-bearing note for each project, keyed by project ID.
+ * Uses one request for the whole page of projects instead of one per card.
+ */
+export function useLatestProjectProgressQuery(projectIds: string[]) {
+  return useQuery({
+    queryKey: queryKeys.progressNotes.latestProgress(projectIds),
+    queryFn: async (): Promise<Map<string, ProgressNote>> => {
+      const projectFilter = projectIds
+        .map((projectId, index) =>
+          pb.filter(`project = {:projectId${index}}`, { [`projectId${index}`]: projectId })
+        )
+        .join(' || ');
+      const notes = await pb.collection('progress_notes').getFullList({
+        filter: `(${projectFilter}) && (drills_placed > 0 || percent_complete > 0)`,
+        sort: '-date,-created',
+        fields: 'id,project,date,drills_placed,percent_complete,created,updated',
+        requestKey: 'latest-project-progress',
+      });
+
+      const latest = new Map<string, ProgressNote>();
+      notes.forEach(note => {
+        if (!latest.has(note.project)) {
+          latest.set(note.project, toProgressNote(note));
+        }
+      });
+      return latest;
+    },
+    enabled: projectIds.length > 0,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
 /**
  * Mutation hook to add a progress note
  */
 export function useAddProgressNoteMutation(projectId: string) {
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user } = useAuth();
 
   return useMutation({
+    // Run while offline too, so the note can be queued instead of paused in memory
+    networkMode: 'always',
     mutationFn: async (
       noteData: AddProgressNoteData & { userTimezone?: string }
-    ): Promise<ProgressNote> => {
+    ): Promise<ProgressNote | null> => {
       // Check authentication
       requireValidAuthStore();
 
@@ -100,49 +165,60 @@ export function useAddProgressNoteMutation(projectId: string) {
       });
 
       // Prepare data for PocketBase
-      const data: Record<string, unknown> = {
-        project: projectId,
+      const data: QueuedProgressNote['data'] = {
         content: noteData.content,
         date: convertedDate || '',
       };
 
-      // Add image file if provided
-      if (noteData.imageFile) {
-        data.image = noteData.imageFile;
+      // Add drill progress if provided
+      if (noteData.drillsPlaced !== undefined) {
+        data.drills_placed = noteData.drillsPlaced;
+      }
+      if (noteData.percentComplete !== undefined) {
+        data.percent_complete = noteData.percentComplete;
       }
 
-      const record = await pb.collection('progress_notes').create(data);
-
-      // Log what PocketBase actually saved to the database
-      logger.debug('💾 Progress note saved to database', {
-        savedId: record.id,
-        savedDate: record.date,
-        savedDateType: typeof record.date,
-        originalInputDate: noteData.date,
-        convertedDate,
-        dateComparison: {
-          input: noteData.date,
-          converted: convertedDate,
-          saved: record.date,
-          inputEqualsSaved: noteData.date === record.date,
-          convertedEqualsSaved: convertedDate === record.date,
+      // Without a connection the note (and its compressed picture) is queued and replayed later
+      return runOrQueueWrite(
+        {
+          userId: requireAuthenticatedUser(user),
+          projectId,
+          ...getQueuedWriteContext(queryClient, projectId),
+          payload: { kind: 'progress-note', data, imageFile: noteData.imageFile },
         },
-      });
-
-      // Transform the created record to ProgressNote format
-      const progressNote: ProgressNote = {
-        id: record.id,
-        projectId: record.project,
-        content: record.content,
-        date: record.date,
-        imageUrl: record.image ? pb.files.getURL(record, record.image) : undefined,
-        createdAt: record.created,
-        updatedAt: record.updated,
-      };
-
-      return progressNote;
+        async () => {
+          const record = await createProgressNoteRecord(projectId, data, noteData.imageFile);
+
+          // Log what PocketBase actually saved to the database
+          logger.debug('💾 Progress note saved to database', {
+            savedId: record.id,
+            savedDate: record.date,
+            savedDateType: typeof record.date,
+            originalInputDate: noteData.date,
+            convertedDate,
+            dateComparison: {
+              input: noteData.date,
+              converted: convertedDate,
+              saved: record.date,
+              inputEqualsSaved: noteData.date === record.date,
+              convertedEqualsSaved: convertedDate === record.date,
+            },
+          });
+
+          // Transform the created record to ProgressNote format
+          return toProgressNote(record);
+        }
+      );
     },
-    onSuccess: () => {
+    onSuccess: note => {
+      if (!note) {
+        toast({
+          title: 'Saved offline',
+          description: 'Your progress note will sync when you are back online.',
+        });
+        return;
+      }
+
       // Show success toast
       toast({
         title: 'Success',
@@ -150,9 +226,7 @@ export function useAddProgressNoteMutation(projectId: string) {
       });
 
       // Invalidate and refetch progress notes for this project
-      queryClient.invalidateQueries({
-        queryKey: queryKeys.progressNotes.list(projectId),
-      });
+      invalidateProgressNoteQueries(queryClient, projectId);
 
       // Also invalidate the project detail query as it may contain progress note data
       queryClient.invalidateQueries({
@@ -177,26 +251,29 @@ export function useUpdateProgressNoteMutation(projectId: string) {
   const { toast } = useToast();
 
   return useMutation({
-    mutationFn: async ({ noteId, newContent }: UpdateProgressNoteData): Promise<ProgressNote> => {
+    mutationFn: async ({
+      noteId,
+      newContent,
+      drillsPlaced,
+      percentComplete,
+    }: UpdateProgressNoteData): Promise<ProgressNote> => {
       // Check authentication
       requireValidAuthStore();
 
-      const record = await pb.collection('progress_notes').update(noteId, {
-        content: newContent,
-      });
+      const data: Partial<ProgressNotesRecord> = { content: newContent };
 
-      // Transform the updated record to ProgressNote format
-      const progressNote: ProgressNote = {
-        id: record.id,
-        projectId: record.project,
-        content: record.content,
-        date: record.date,
-        imageUrl: record.image ? pb.files.getURL(record, record.image) : undefined,
-        createdAt: record.created,
-        updatedAt: record.updated,
-      };
+      // PocketBase stores a cleared number field as 0, which reads back as no progress
+      if (drillsPlaced !== undefined) {
+        data.drills_placed = drillsPlaced ?? 0;
+      }
+      if (percentComplete !== undefined) {
+        data.percent_complete = percentComplete ?? 0;
+      }
 
-      return progressNote;
+      const record = await pb.collection('progress_notes').update(noteId, data);
+
+      // Transform the updated record to ProgressNote format
+      return toProgressNote(record);
     },
     onSuccess: () => {
       // Show success toast
@@ -206,9 +283,7 @@ export function useUpdateProgressNoteMutation(projectId: string) {
       });
 
       // Invalidate and refetch progress notes for this project
-      queryClient.invalidateQueries({
-        queryKey: queryKeys.progressNotes.list(projectId),
-      });
+      invalidateProgressNoteQueries(queryClient, projectId);
     },
     onError: (error: Error) => {
       toast({
@@ -242,9 +317,7 @@ export function useDeleteProgressNoteMutation(projectId: string) {
       });
 
       // Invalidate and refetch progress notes for this project
-      queryClient.invalidateQueries({
-        queryKey: queryKeys.progressNotes.list(projectId),
-      });
+      invalidateProgressNoteQueries(queryClient, projectId);
     },
     onError: (error: Error) => {
       toast({
@@ -274,17 +347,7 @@ export function useDeleteProgressNoteImageMutation(projectId: string) {
       });
 
       // Transform the updated record to ProgressNote format
-      const progressNote: ProgressNote = {
-        id: record.id,
-        projectId: record.project,
-        content: record.content,
-        date: record.date,
-        imageUrl: record.image ? pb.files.getURL(record, record.image) : undefined,
-        createdAt: record.created,
-        updatedAt: record.updated,
-      };
-
-      return progressNote;
+      return toProgressNote(record);
     },
     onSuccess: () => {
       // Show success toast
@@ -294,9 +357,7 @@ export function useDeleteProgressNoteImageMutation(projectId: string) {
       });
 
       // Invalidate and refetch progress notes for this project
-      queryClient.invalidateQueries({
-        queryKey: queryKeys.progressNotes.list(projectId),
-      });
+      invalidateProgressNoteQueries(queryClient, projectId);
     },
     onError: (error: Error) => {
       toast({
@@ -225,6 +225,8 @@ const fetchProjectDetail = async (
     width: projectRecord.width || undefined,
     height: projectRecord.height || undefined,
     drillShape: projectRecord.drill_shape || undefined,
+    drillType: projectRecord.drill_type || undefined,
+    canvasType: projectRecord.canvas_type || undefined,
     status: projectRecord.status as ProjectStatus,
     kit_category: projectRecord.kit_category || undefined,
     datePurchased: convertDatabaseDateToUserTimezone(projectRecord.date_purchased, userTimezone),
@@ -237,6 +239,11 @@ const fetchProjectDetail = async (
       : undefined,
     sourceUrl: projectRecord.source_url || undefined,
     totalDiamonds: projectRecord.total_diamonds || undefined,
+    price: projectRecord.price || undefined,
+    shippingCost: projectRecord.shipping_cost || undefined,
+    discount: projectRecord.discount || undefined,
+    currency: projectRecord.currency || undefined,
+    orderReference: projectRecord.order_reference || undefined,
     progressNotes: [], // Now fetched separately
     tags: tags,
     createdAt: projectRecord.created,
@@ -14,8 +14,15 @@ import { queryKeys, ProjectQueryParams } from './queryKeys';
 import { useRenderGuard, useThrottledLogger } from '@/utils/renderGuards';
 import { projectsService } from '@/services/pocketbase/projects.service';
 import { CompaniesResponse, ArtistsResponse } from '@/types/pocketbase.types';
-import { ProjectFilters, ProjectQueryOptions } from '@/types/projectFilters';
+import {
+  ProjectFilters,
+  ProjectQueryOptions,
+  ProjectRangeFilters,
+  TagMatchMode,
+} from '@/types/projectFilters';
+import { serializeRanges } from '@/utils/projectRanges';
 import { Project, ProjectFilterStatus } from '@/types/project';
+import type { ProjectSearchMatch, ProjectSearchMode } from '@/types/projectSearch';
 import { getStatusCountQueryConfig } from './shared/queryUtils';
 
 // Re-export for backward compatibility
@@ -24,14 +31,21 @@ export interface ServerFilters {
   company?: string;
   artist?: string;
   drillShape?: string;
+  drillType?: string;
+  canvasType?: string;
   yearFinished?: string;
   includeMiniKits?: boolean;
+  kitCategory?: 'full' | 'mini';
   includeDestashed?: boolean;
   includeArchived?: boolean;
   includeWishlist?: boolean;
   includeOnHold?: boolean;
   searchTerm?: string;
+  searchMode?: ProjectSearchMode;
   selectedTags?: string[];
+  tagMatchMode?: TagMatchMode;
+  excludedTags?: string[];
+  ranges?: ProjectRangeFilters;
 }
 
 export interface UseProjectsParams {
@@ -49,6 +63,8 @@ export interface ProjectsResult {
   totalItems: number;
   totalPages: number;
   statusCounts: StatusBreakdown;
+  /** Why each project matched, keyed by project ID (full-text search only) */
+  searchMatches?: Record<string, ProjectSearchMatch>;
 }
 
 const logger = createLogger('useProjects');
@@ -63,14 +79,21 @@ const transformFilters = (userId: string, serverFilters: ServerFilters): Project
     company: serverFilters.company,
     artist: serverFilters.artist,
     drillShape: serverFilters.drillShape,
+    drillType: serverFilters.drillType,
+    canvasType: serverFilters.canvasType,
     yearFinished: serverFilters.yearFinished,
     includeMiniKits: serverFilters.includeMiniKits,
+    kitCategory: serverFilters.kitCategory,
     includeDestashed: serverFilters.includeDestashed,
     includeArchived: serverFilters.includeArchived,
     includeWishlist: serverFilters.includeWishlist,
     includeOnHold: serverFilters.includeOnHold,
     searchTerm: serverFilters.searchTerm,
+    searchMode: serverFilters.searchMode,
     selectedTags: serverFilters.selectedTags,
+    tagMatchMode: serverFilters.tagMatchMode,
+    excludedTags: serverFilters.excludedTags,
+    ranges: serverFilters.ranges,
   };
 };
 
@@ -150,6 +173,7 @@ const fetchProjects = async (
     projects: result.projects,
     totalItems: result.totalItems,
     totalPages: result.totalPages,
+    searchMatches: result.searchMatches,
     statusCounts: result.statusCounts || {
       wishlist: 0,
       purchased: 0,
@@ -191,14 +215,21 @@ export const useProjects = (
       company: filters.company,
       artist: filters.artist,
       drillShape: filters.drillShape,
+      drillType: filters.drillType,
+      canvasType: filters.canvasType,
       yearFinished: filters.yearFinished,
       includeMiniKits: filters.includeMiniKits,
+      kitCategory: filters.kitCategory,
       includeDestashed: filters.includeDestashed,
       includeArchived: filters.includeArchived,
       includeWishlist: filters.includeWishlist,
       includeOnHold: filters.includeOnHold,
       searchTerm: filters.searchTerm,
+      searchMode: filters.searchMode,
       selectedTags: filters.selectedTags?.sort().join(',') || '',
+      tagMatchMode: filters.tagMatchMode,
+      excludedTags: [...(filters.excludedTags ?? [])].sort().join(','),
+      ranges: serializeRanges(filters.ranges ?? {}),
     });
   }, [filters]);
 
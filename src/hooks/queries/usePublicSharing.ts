@@ -0,0 +1,42 @@
+/**
+ * React Query hooks for the public share pages, which work without signing in
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { queryKeys } from './queryKeys';
+import {
+  getPublicProfile,
+  getPublicProfileProjects,
+  getSharedProject,
+} from '@/services/pocketbase/sharing.service';
+
+/**
+ * Fetch a public profile with its listed projects; the profile is null when it doesn't
+ * exist or has been made private
+ */
+export function usePublicProfile(username: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.sharing.publicProfile(username || ''),
+    queryFn: async () => {
+      const profile = await getPublicProfile(username!);
+      const projects = profile ? await getPublicProfileProjects(profile.userId) : [];
+      return { profile, projects };
+    },
+    enabled: !!username,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Fetch a shared project by link token; null when the link was revoked
+ */
+export function useSharedProject(token: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.sharing.sharedProject(token || ''),
+    queryFn: () => getSharedProject(token!),
+    enabled: !!token,
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,55 @@
+/**
+ * React Query hooks for saved randomizer pools and the projects a filter pool selects
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { useMetadata } from '@/contexts/MetadataContext';
+import { queryKeys } from './queryKeys';
+import { getRandomizerPools } from '@/services/pocketbase/randomizerPools.service';
+import { projectsService } from '@/services/pocketbase/projects.service';
+import { toPoolServerFilters } from '@/utils/randomizerPools';
+import type { RandomizerPoolFilters } from '@/types/randomizerPool';
+
+/**
+ * Fetch the current user's randomizer pools
+ */
+export function useRandomizerPools() {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+
+  return useQuery({
+    queryKey: queryKeys.randomizerPools.list(userId),
+    queryFn: () => getRandomizerPools(userId),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Fetch every project a filter pool selects, most recently updated first. Loads the whole
+ * match set so no kit is left out of the draw however large the stash is.
+ */
+export function useRandomizerPoolProjects(filters: RandomizerPoolFilters, enabled: boolean) {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+  const { companies, artists } = useMetadata();
+
+  return useQuery({
+    queryKey: queryKeys.projects.randomizerPool(userId, { ...filters }),
+    queryFn: () =>
+      projectsService.getAllProjects(
+        {
+          filters: { userId, ...toPoolServerFilters(filters) },
+          sort: { field: 'last_updated', direction: 'desc' },
+          expand: { tags: true, company: false, artist: false, user: false },
+        },
+        new Map((companies ?? []).map(company => [company.id, company.name])),
+        new Map((artists ?? []).map(artist => [artist.id, artist.name]))
+      ),
+    enabled: !!userId && enabled,
+    staleTime: 2 * 60 * 1000,
+  });
+}
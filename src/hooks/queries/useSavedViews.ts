@@ -0,0 +1,75 @@
+/**
+ * React Query hooks for saved dashboard views and their live counts
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useMemo } from 'react';
+import { useQuery, useQueries } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from './queryKeys';
+import { getSavedViews } from '@/services/pocketbase/savedViews.service';
+import { projectsService } from '@/services/pocketbase/projects.service';
+import { getSavedViewCount, toProjectFilters } from '@/utils/savedViews';
+import type { SavedView } from '@/types/savedView';
+
+export type SavedViewCount = number | 'loading' | 'error';
+
+/**
+ * Fetch the current user's saved views
+ */
+export function useSavedViews() {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+
+  return useQuery({
+    queryKey: queryKeys.savedViews.list(userId),
+    queryFn: () => getSavedViews(userId),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Live project counts for each saved view, keyed by view ID
+ *
+ * Each view runs one status-count query for its non-status filters and the count is
+ * derived from the breakdown, so views that only differ by status share a cached query.
+ */
+export function useSavedViewCounts(views: SavedView[]): Map<string, SavedViewCount> {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+
+  const queries = useQueries({
+    queries: views.map(view => {
+      const projectFilters = toProjectFilters(userId, view.filters);
+      // Status is applied client-side from the breakdown, so leave it out of the key
+      const { status: _status, ...countFilters } = projectFilters;
+
+      return {
+        queryKey: queryKeys.projects.savedViewCounts(userId, countFilters),
+        queryFn: async () => {
+          const result = await projectsService.getOptimizedStatusCounts(countFilters, {
+            requestKey: `saved-view-counts-${view.id}`,
+          });
+          return result.counts;
+        },
+        enabled: !!userId,
+        staleTime: 60 * 1000,
+      };
+    }),
+  });
+
+  return useMemo(() => {
+    const counts = new Map<string, SavedViewCount>();
+    views.forEach((view, index) => {
+      const query = queries[index];
+      if (query?.data) {
+        counts.set(view.id, getSavedViewCount(query.data, view.filters));
+      } else {
+        counts.set(view.id, query?.isError ? 'error' : 'loading');
+      }
+    });
+    return counts;
+  }, [views, queries]);
+}
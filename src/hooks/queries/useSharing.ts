@@ -0,0 +1,58 @@
+/**
+ * React Query hooks for the owner's share links and public profile settings
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from './queryKeys';
+import {
+  getOwnPublicProfile,
+  getProjectShare,
+  getUserShares,
+} from '@/services/pocketbase/sharing.service';
+
+/**
+ * Fetch the share for one project, or null if it isn't shared
+ */
+export function useProjectShare(projectId: string | undefined, enabled: boolean = true) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.sharing.project(projectId || ''),
+    queryFn: () => getProjectShare(projectId!),
+    enabled: enabled && !!user?.id && !!projectId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Fetch every project the current user has shared
+ */
+export function useUserShares() {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+
+  return useQuery({
+    queryKey: queryKeys.sharing.list(userId),
+    queryFn: () => getUserShares(userId),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Fetch the current user's public profile settings, or null if never set up
+ */
+export function useOwnPublicProfile() {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+
+  return useQuery({
+    queryKey: queryKeys.sharing.ownProfile(userId),
+    queryFn: () => getOwnPublicProfile(userId),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * React Query hooks for work sessions recorded by the session timer
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from './queryKeys';
+import {
+  getActiveWorkSessions,
+  getProjectWorkSessions,
+} from '@/services/pocketbase/workSessions.service';
+
+/**
+ * Fetch every session recorded on a project, newest first
+ */
+export function useProjectWorkSessions(projectId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.workSessions.project(projectId || ''),
+    queryFn: () => getProjectWorkSessions(projectId!),
+    enabled: !!projectId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * The current user's running session, or null when no timer is running
+ */
+export function useActiveWorkSession() {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+
+  return useQuery({
+    queryKey: queryKeys.workSessions.active(userId),
+    queryFn: async () => {
+      const sessions = await getActiveWorkSessions(userId);
+      return sessions[0] ?? null;
+    },
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
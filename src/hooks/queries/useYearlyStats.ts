@@ -0,0 +1,23 @@
+/**
+ * React Query hook for the stats page: a year's stats alongside the previous year
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from './queryKeys';
+import { getYearlyStatsComparison } from '@/services/statsService';
+
+export function useYearlyStats(year: number) {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+
+  return useQuery({
+    queryKey: queryKeys.stats.yearly(userId, year),
+    queryFn: () => getYearlyStatsComparison(userId, year),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+    placeholderData: keepPreviousData,
+  });
+}
@@ -0,0 +1,166 @@
+/**
+ * Hook for creating and restoring full-account backups
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useState, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserTimezone } from '@/hooks/useUserTimezone';
+import { queryKeys } from '@/hooks/queries/queryKeys';
+import { randomizerQueryKeys } from '@/hooks/queries/useSpinHistory';
+import { createLogger } from '@/utils/logger';
+import { getCurrentDateInUserTimezone } from '@/utils/timezoneUtils';
+import { createAccountBackup, restoreAccountBackup } from '@/services/pocketbase/backup.service';
+import {
+  countBackupRecords,
+  downloadAccountBackup,
+  getBackupFilename,
+  parseAccountBackup,
+} from '@/utils/accountBackup';
+import type { AccountBackup, BackupProgress, RestoreSummary } from '@/types/backup';
+
+const logger = createLogger('useAccountBackup');
+
+export const useAccountBackup = () => {
+  const [exporting, setExporting] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [progress, setProgress] = useState<BackupProgress | null>(null);
+  const [restoreSummary, setRestoreSummary] = useState<RestoreSummary | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const userTimezone = useUserTimezone();
+
+  const exportBackup = useCallback(
+    async (options: { includeImages: boolean }): Promise<boolean> => {
+      if (!user) {
+        toast({
+          title: 'Authentication error',
+          description: 'You must be logged in to create a backup',
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      setExporting(true);
+      setProgress(null);
+      try {
+        const backup = await createAccountBackup(
+          {
+            id: user.id,
+            username: user.username,
+            claim_reminder_days: user.claim_reminder_days,
+          },
+          { includeImages: options.includeImages, onProgress: setProgress }
+        );
+
+        const filename = getBackupFilename(getCurrentDateInUserTimezone(userTimezone));
+        downloadAccountBackup(backup, filename);
+
+        const counts = countBackupRecords(backup.data);
+        toast({
+          title: 'Backup complete',
+          description: `${counts.projects} projects and ${counts.progressNotes} progress notes saved to ${filename}`,
+        });
+        return true;
+      } catch (error) {
+        logger.error('Error creating account backup:', error);
+        toast({
+          title: 'Backup failed',
+          description: error instanceof Error ? error.message : 'Failed to create backup',
+          variant: 'destructive',
+        });
+        return false;
+      } finally {
+        setExporting(false);
+        setProgress(null);
+      }
+    },
+    [user, toast, userTimezone]
+  );
+
+  /**
+   * Read and validate a backup file without restoring it, so it can be previewed
+   */
+  const readBackupFile = useCallback(
+    async (file: File): Promise<AccountBackup | null> => {
+      try {
+        return parseAccountBackup(await file.text());
+      } catch (error) {
+        toast({
+          title: 'Invalid backup file',
+          description: error instanceof Error ? error.message : 'Failed to read backup file',
+          variant: 'destructive',
+        });
+        return null;
+      }
+    },
+    [toast]
+  );
+
+  const restoreBackup = useCallback(
+    async (backup: AccountBackup, options: { includeImages: boolean }): Promise<boolean> => {
+      if (!user) {
+        toast({
+          title: 'Authentication error',
+          description: 'Please log in to restore a backup',
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      setRestoring(true);
+      setProgress(null);
+      setRestoreSummary(null);
+      try {
+        const summary = await restoreAccountBackup(user.id, backup, {
+          includeImages: options.includeImages,
+          onProgress: setProgress,
+        });
+        setRestoreSummary(summary);
+
+        await Promise.all([
+          queryClient.invalidateQueries({ queryKey: queryKeys.projects.all }),
+          queryClient.invalidateQueries({ queryKey: queryKeys.companies.all }),
+          queryClient.invalidateQueries({ queryKey: queryKeys.artists.all }),
+          queryClient.invalidateQueries({ queryKey: queryKeys.tags.all }),
+          queryClient.invalidateQueries({ queryKey: queryKeys.progressNotes.all }),
+          queryClient.invalidateQueries({ queryKey: queryKeys.stats.all }),
+          queryClient.invalidateQueries({ queryKey: randomizerQueryKeys.all }),
+        ]);
+
+        toast({
+          title: 'Restore complete',
+          description: `Restored ${summary.created.projects} projects and ${summary.created.progressNotes} progress notes.`,
+          variant: summary.errors.length > 0 ? 'warning' : 'default',
+        });
+        return true;
+      } catch (error) {
+        logger.error('Error restoring account backup:', error);
+        toast({
+          title: 'Restore failed',
+          description: error instanceof Error ? error.message : 'Failed to restore backup',
+          variant: 'destructive',
+        });
+        return false;
+      } finally {
+        setRestoring(false);
+        setProgress(null);
+      }
+    },
+    [user, toast, queryClient]
+  );
+
+  return {
+    exportBackup,
+    readBackupFile,
+    restoreBackup,
+    exporting,
+    restoring,
+    progress,
+    restoreSummary,
+  };
+};
@@ -60,8 +60,13 @@ export const useDashboardData = (
 
   // Stabilize selectedTags array with content-based signature
   const selectedTagsSignature = useMemo(
-    () => filters.selectedTags?.sort().join(',') || '',
-    [filters.selectedTags]
+    () =>
+      [
+        filters.selectedTags?.sort().join(',') || '',
+        filters.tagMatchMode,
+        [...filters.excludedTags].sort().join(','),
+      ].join('|'),
+    [filters.selectedTags, filters.tagMatchMode, filters.excludedTags]
   );
 
   // Properly memoize server filters with stable object reference
@@ -71,6 +76,8 @@ export const useDashboardData = (
       company: filters.selectedCompany,
       artist: filters.selectedArtist,
       drillShape: filters.selectedDrillShape,
+      drillType: filters.selectedDrillType,
+      canvasType: filters.selectedCanvasType,
       yearFinished: filters.selectedYearFinished,
       includeMiniKits: filters.includeMiniKits,
       includeDestashed: filters.includeDestashed,
@@ -78,13 +85,19 @@ export const useDashboardData = (
       includeWishlist: filters.includeWishlist,
       includeOnHold: filters.includeOnHold,
       searchTerm: debouncedSearchTerm,
+      searchMode: filters.searchMode,
       selectedTags: filters.selectedTags,
+      tagMatchMode: filters.tagMatchMode,
+      excludedTags: filters.excludedTags,
+      ranges: filters.ranges,
     }),
     [
       filters.activeStatus,
       filters.selectedCompany,
       filters.selectedArtist,
       filters.selectedDrillShape,
+      filters.selectedDrillType,
+      filters.selectedCanvasType,
       filters.selectedYearFinished,
       filters.includeMiniKits,
       filters.includeDestashed,
@@ -92,7 +105,11 @@ export const useDashboardData = (
       filters.includeWishlist,
       filters.includeOnHold,
       debouncedSearchTerm,
+      filters.searchMode,
       filters.selectedTags, // Direct dependency since used in computation
+      filters.tagMatchMode,
+      filters.excludedTags,
+      filters.ranges,
     ]
   );
 
@@ -202,6 +219,7 @@ export const useDashboardData = (
     projects: projectsQuery.data?.projects || [],
     totalItems: projectsQuery.data?.totalItems || 0,
     totalPages: projectsQuery.data?.totalPages || 0,
+    searchMatches: projectsQuery.data?.searchMatches,
     statusCounts: projectsQuery.data?.statusCounts, // Enhanced status counts from useProjects - single source of truth
     isLoadingProjects: projectsQuery.isLoading,
     errorProjects: projectsQuery.error,
@@ -43,7 +43,7 @@ export const useDashboardPersistence = () => {
 
   const getInitialViewType = useCallback((): ViewType => {
     const storedViewType = initialFilters.viewType;
-    if (storedViewType === 'grid' || storedViewType === 'list') {
+    if (storedViewType === 'grid' || storedViewType === 'list' || storedViewType === 'board') {
       return storedViewType;
     }
     return 'grid'; // Default
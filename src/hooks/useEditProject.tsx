@@ -49,6 +49,8 @@ const prepareFormInitialData = (project: ProjectType): ProjectFormValues => {
     status: project.status || 'wishlist',
     kit_category: project.kit_category || undefined,
     drillShape: project.drillShape || '',
+    drillType: project.drillType || '',
+    canvasType: project.canvasType || '',
     datePurchased: project.datePurchased || '',
     dateStarted: project.dateStarted || '',
     dateCompleted: project.dateCompleted || '',
@@ -56,6 +58,11 @@ const prepareFormInitialData = (project: ProjectType): ProjectFormValues => {
     width: project.width?.toString() || '',
     height: project.height?.toString() || '',
     totalDiamonds: project.totalDiamonds || 0,
+    price: project.price?.toString() || '',
+    shippingCost: project.shippingCost?.toString() || '',
+    discount: project.discount?.toString() || '',
+    currency: project.currency || '',
+    orderReference: project.orderReference || '',
     generalNotes: project.generalNotes || '',
     sourceUrl: project.sourceUrl || '',
     tags: project.tags || [],
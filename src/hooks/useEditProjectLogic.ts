@@ -174,7 +174,14 @@ const prepareFormInitialData = (project: ProjectType): ProjectFormValues => {
     company: project.company || '',
     artist: project.artist || '',
     drillShape: project.drillShape || '',
+    drillType: project.drillType || '',
+    canvasType: project.canvasType || '',
     totalDiamonds: project.totalDiamonds || 0,
+    price: project.price?.toString() || '',
+    shippingCost: project.shippingCost?.toString() || '',
+    discount: project.discount?.toString() || '',
+    currency: project.currency || '',
+    orderReference: project.orderReference || '',
     generalNotes: project.generalNotes || '',
     sourceUrl: project.sourceUrl || '',
     imageUrl: project.imageUrl || '',
@@ -82,6 +82,8 @@ const transformProject = (record: ProjectWithExpand): ProjectType => {
     status: record.status as ProjectType['status'],
     kit_category: record.kit_category || undefined,
     drillShape: record.drill_shape || undefined,
+    drillType: record.drill_type || undefined,
+    canvasType: record.canvas_type || undefined,
     datePurchased: extractDateOnly(record.date_purchased),
     dateStarted: extractDateOnly(record.date_started),
     dateCompleted: extractDateOnly(record.date_completed),
@@ -89,6 +91,11 @@ const transformProject = (record: ProjectWithExpand): ProjectType => {
     width: record.width || undefined,
     height: record.height || undefined,
     totalDiamonds: record.total_diamonds || undefined,
+    price: record.price || undefined,
+    shippingCost: record.shipping_cost || undefined,
+    discount: record.discount || undefined,
+    currency: record.currency || undefined,
+    orderReference: record.order_reference || undefined,
     generalNotes: record.general_notes || '',
     imageUrl: record.image ? pb.files.getURL(record, record.image) : undefined,
     sourceUrl: record.source_url || undefined,
@@ -150,7 +157,14 @@ const prepareFormInitialData = (project: ProjectType): ProjectFormValues => {
     company: project.company || '',
     artist: project.artist || '',
     drillShape: project.drillShape || '',
+    drillType: project.drillType || '',
+    canvasType: project.canvasType || '',
     totalDiamonds: project.totalDiamonds || 0,
+    price: project.price?.toString() || '',
+    shippingCost: project.shippingCost?.toString() || '',
+    discount: project.discount?.toString() || '',
+    currency: project.currency || '',
+    orderReference: project.orderReference || '',
     generalNotes: project.generalNotes || '',
     sourceUrl: project.sourceUrl || '',
     imageUrl: project.imageUrl || '',
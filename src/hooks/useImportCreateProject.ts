@@ -46,6 +46,8 @@ export const useImportCreateProject = () => {
         width: data.width || null,
         height: data.height || null,
         drill_shape: data.drillShape || null,
+        drill_type: data.drillType || null,
+        canvas_type: data.canvasType || null,
         status: data.status || 'wishlist',
         date_purchased: data.datePurchased || null,
         date_received: data.dateReceived || null,
@@ -55,6 +57,11 @@ export const useImportCreateProject = () => {
         image: data.imageUrl || null,
         source_url: data.sourceUrl || null,
         total_diamonds: data.totalDiamonds ? Number(data.totalDiamonds) : null,
+        price: data.price ?? null,
+        shipping_cost: data.shippingCost ?? null,
+        discount: data.discount ?? null,
+        currency: data.currency || null,
+        order_reference: data.orderReference || null,
         kit_category: data.kit_category || 'full',
       };
 
@@ -7,14 +7,11 @@ import { logger } from '@/utils/logger';
 import {
   ProgressNoteFormProps as UseProgressNoteFormProps,
   ProgressNoteFormErrors,
+  ProgressEntryMode,
+  ProgressNoteSubmitData,
 } from '@/components/projects/ProgressNoteForm/types';
 import { PROGRESS_NOTE_CONSTANTS } from '@/components/projects/ProgressNoteForm/constants';
-
-interface SubmitProgressNoteData {
-  date: string;
-  content: string;
-  imageFile?: File;
-}
+import { parseProgressValue } from '@/components/projects/ProgressNoteForm/validation';
 
 /**
  * Custom hook to manage the state, validation, and submission logic for the progress note form.
@@ -27,11 +24,19 @@ export const useProgressNoteForm = ({
   onSubmit,
   onSuccess,
   disabled = false,
+  totalDiamonds,
 }: UseProgressNoteFormProps) => {
   const userTimezone = useUserTimezone();
+  const hasTotalDiamonds = !!totalDiamonds && totalDiamonds > 0;
   const [date, setDate] = useState<string>(getCurrentDateInUserTimezone(userTimezone));
   const [content, setContent] = useState('');
   const [imageFile, setImageFile] = useState<File | null>(null);
+  const [progressMode, setProgressMode] = useState<ProgressEntryMode>(
+    hasTotalDiamonds ? 'drills' : 'percent'
+  );
+  const [progressValue, setProgressValue] = useState('');
+  // Drills placed needs a total to measure against
+  const effectiveProgressMode: ProgressEntryMode = hasTotalDiamonds ? progressMode : 'percent';
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<ProgressNoteFormErrors>({});
 
@@ -41,6 +46,7 @@ export const useProgressNoteForm = ({
   const resetForm = useCallback(() => {
     setContent('');
     setImageFile(null);
+    setProgressValue('');
     setDate(getCurrentDateInUserTimezone(userTimezone));
     setErrors({});
     resetCompressionState();
@@ -58,6 +64,10 @@ export const useProgressNoteForm = ({
         // Preserve existing image error from handleImageChange
         currentValidationErrors.image = errors.image;
       }
+      const progress = parseProgressValue(progressValue, effectiveProgressMode, totalDiamonds);
+      if (progress.error) {
+        currentValidationErrors.progress = progress.error;
+      }
 
       if (Object.keys(currentValidationErrors).length > 0) {
         setErrors(currentValidationErrors);
@@ -69,10 +79,12 @@ export const useProgressNoteForm = ({
 
       setIsSubmitting(true);
       try {
-        const noteDataToSubmit: SubmitProgressNoteData = {
+        const noteDataToSubmit: ProgressNoteSubmitData = {
           date: date,
           content: content.trim(),
           imageFile: imageFile || undefined,
+          drillsPlaced: progress.drillsPlaced,
+          percentComplete: progress.percentComplete,
         };
 
         await onSubmit(noteDataToSubmit);
@@ -89,7 +101,18 @@ export const useProgressNoteForm = ({
         setIsSubmitting(false);
       }
     },
-    [date, content, imageFile, onSubmit, onSuccess, resetForm, errors.image]
+    [
+      date,
+      content,
+      imageFile,
+      progressValue,
+      effectiveProgressMode,
+      totalDiamonds,
+      onSubmit,
+      onSuccess,
+      resetForm,
+      errors.image,
+    ]
   );
 
   const handleImageChange = useCallback(
@@ -171,6 +194,26 @@ export const useProgressNoteForm = ({
     [errors.content, errors.form]
   );
 
+  const handleProgressChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setProgressValue(e.target.value);
+      if (errors.progress || errors.form) {
+        setErrors((prev: ProgressNoteFormErrors) => ({
+          ...prev,
+          progress: undefined,
+          form: undefined,
+        }));
+      }
+    },
+    [errors.progress, errors.form]
+  );
+
+  const handleProgressModeChange = useCallback((mode: ProgressEntryMode) => {
+    setProgressMode(mode);
+    setProgressValue('');
+    setErrors((prev: ProgressNoteFormErrors) => ({ ...prev, progress: undefined }));
+  }, []);
+
   const handleClearImage = useCallback(() => {
     setImageFile(null);
     setErrors((prev: ProgressNoteFormErrors) => ({ ...prev, image: undefined, form: undefined }));
@@ -187,6 +230,8 @@ export const useProgressNoteForm = ({
     date,
     content,
     imageFile,
+    progressMode: effectiveProgressMode,
+    progressValue,
     errors,
     isSubmitting,
     isCompressing,
@@ -195,6 +240,8 @@ export const useProgressNoteForm = ({
     handleImageChange,
     handleDateChange,
     handleContentChange,
+    handleProgressChange,
+    handleProgressModeChange,
     handleClearImage,
     isFormDisabled: shouldDisableSubmit, // Keep isFormDisabled for the submit button, maps to shouldDisableSubmit
     areInputsDisabled, // Add this for input fields
@@ -118,6 +118,8 @@ export const useProjectDetail = (projectId: string | undefined) => {
         width: projectRecord.width || undefined,
         height: projectRecord.height || undefined,
         drillShape: projectRecord.drill_shape || undefined,
+        drillType: projectRecord.drill_type || undefined,
+        canvasType: projectRecord.canvas_type || undefined,
         status: projectRecord.status as ProjectStatus,
         kit_category: projectRecord.kit_category || undefined,
         datePurchased: projectRecord.date_purchased || undefined,
@@ -130,6 +132,11 @@ export const useProjectDetail = (projectId: string | undefined) => {
           : undefined,
         sourceUrl: projectRecord.source_url || undefined,
         totalDiamonds: projectRecord.total_diamonds || undefined,
+        price: projectRecord.price || undefined,
+        shippingCost: projectRecord.shipping_cost || undefined,
+        discount: projectRecord.discount || undefined,
+        currency: projectRecord.currency || undefined,
+        orderReference: projectRecord.order_reference || undefined,
         progressNotes: progressNotes,
         tags: tags,
         createdAt: projectRecord.created,
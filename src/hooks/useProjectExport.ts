@@ -7,6 +7,8 @@ import { projectsToCsv, downloadCsv } from '@/utils/csvExport';
 import { logger } from '@/utils/logger';
 import { useUserTimezone } from '@/hooks/useUserTimezone';
 import { getCurrentDateInUserTimezone } from '@/utils/timezoneUtils';
+import { summarizeWorkSessionsByProject } from '@/utils/workSessions';
+import { getUserWorkSessions } from '@/services/pocketbase/workSessions.service';
 
 /**
  * Validate and normalize the kit category field
@@ -110,6 +112,8 @@ export const useProjectExport = () => {
           width: (record.width as number) || undefined,
           height: (record.height as number) || undefined,
           drillShape: (record.drill_shape as string) || undefined,
+          drillType: (record.drill_type as string) || undefined,
+          canvasType: (record.canvas_type as string) || undefined,
           status: record.status as ProjectStatus,
           datePurchased: (record.date_purchased as string) || undefined,
           dateReceived: (record.date_received as string) || undefined,
@@ -122,6 +126,11 @@ export const useProjectExport = () => {
               : undefined,
           sourceUrl: (record.source_url as string) || undefined,
           totalDiamonds: (record.total_diamonds as number) || undefined,
+          price: (record.price as number) || undefined,
+          shippingCost: (record.shipping_cost as number) || undefined,
+          discount: (record.discount as number) || undefined,
+          currency: (record.currency as string) || undefined,
+          orderReference: (record.order_reference as string) || undefined,
           kit_category: validateKitCategory(record.kit_category as string),
           tags: tags,
           progressNotes: [], // Will be populated separately if needed
@@ -131,8 +140,14 @@ export const useProjectExport = () => {
         };
       });
 
+      // Roll work sessions up into per-project hours; export without them if they fail to load
+      const sessions = await getUserWorkSessions(user.id).catch(error => {
+        logger.warn('Failed to load work sessions for export:', error);
+        return [];
+      });
+
       // Generate CSV from projects
-      const csvData = projectsToCsv(formattedProjects);
+      const csvData = projectsToCsv(formattedProjects, summarizeWorkSessionsByProject(sessions));
 
       // Download the CSV file
       const filename = `diamond-projects-${getCurrentDateInUserTimezone(userTimezone)}.csv`;
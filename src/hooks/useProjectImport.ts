@@ -305,6 +305,8 @@ export const useProjectImport = () => {
           const projectValidation = validateProjectData({
             title: parsedProject.title,
             drillShape: parsedProject.drillShape,
+            drillType: parsedProject.drillType,
+            canvasType: parsedProject.canvasType,
             status: parsedProject.status,
             kit_category: parsedProject.kit_category,
             datePurchased: parsedProject.datePurchased,
@@ -313,6 +315,7 @@ export const useProjectImport = () => {
             dateCompleted: parsedProject.dateCompleted,
             generalNotes: parsedProject.generalNotes,
             sourceUrl: parsedProject.sourceUrl,
+            orderReference: parsedProject.orderReference,
           });
 
           // Add validation issues to our tracking
@@ -332,6 +335,8 @@ export const useProjectImport = () => {
             company: parsedProject.company,
             artist: parsedProject.artist,
             drillShape: projectValidation.correctedData.drillShape,
+            drillType: projectValidation.correctedData.drillType || undefined,
+            canvasType: projectValidation.correctedData.canvasType || undefined,
             width: parsedProject.width,
             height: parsedProject.height,
             status: projectValidation.correctedData.status,
@@ -343,6 +348,11 @@ export const useProjectImport = () => {
             imageUrl: parsedProject.imageUrl,
             sourceUrl: projectValidation.correctedData.sourceUrl,
             totalDiamonds: parsedProject.totalDiamonds,
+            price: parsedProject.price,
+            shippingCost: parsedProject.shippingCost,
+            discount: parsedProject.discount,
+            currency: parsedProject.currency,
+            orderReference: projectValidation.correctedData.orderReference || undefined,
             kit_category: projectValidation.correctedData.kit_category,
             tagIds: projectTagIds, // Pass resolved tag IDs
           };
@@ -15,11 +15,25 @@ import { Project } from '@/types/project';
 import { useProjects } from '@/hooks/queries/useProjects';
 import { useCreateSpin } from '@/hooks/mutations/useCreateSpin';
 import { useSpinHistoryCount } from '@/hooks/queries/useSpinHistoryCount';
+import { useSpinHistory } from '@/hooks/queries/useSpinHistory';
+import { useRandomizerPoolProjects, useRandomizerPools } from '@/hooks/queries/useRandomizerPools';
+import { useRandomizerActions, useRandomizerPreferences } from '@/stores/randomizerStore';
+import { pickWeightedProject, type WeightedSelectionOptions } from '@/stores/randomizerUtils';
 import { useAuth } from '@/hooks/useAuth';
 import { createLogger } from '@/utils/logger';
+import { arePoolFiltersEqual, DEFAULT_POOL_FILTERS } from '@/utils/randomizerPools';
+import type { RandomizerPool, RandomizerPoolFilters } from '@/types/randomizerPool';
 
 const logger = createLogger('useRandomizer');
 
+/** Spins loaded for history-based weighting and recent-winner exclusion */
+const WEIGHTING_HISTORY_LIMIT = 50;
+
+/**
+ * How the wheel is filled: hand-picked projects or every project matching a filter
+ */
+export type RandomizerPoolMode = 'manual' | 'filter';
+
 /**
  * Main randomizer hook providing state management and business logic
  *
@@ -66,8 +80,11 @@ const logger = createLogger('useRandomizer');
  *
  * **Data:**
  * - `availableProjects: Project[]` - All in-progress projects available for selection
- * - `selectedProjects: Project[]` - Currently selected projects for the wheel
+ * - `selectedProjects: Project[]` - Projects on the wheel (hand-picked, or the filter pool)
  * - `selectedProjectIds: Set<string>` - Set of selected project IDs for efficient lookup
+ * - `poolMode: RandomizerPoolMode` - Whether the wheel uses hand-picked projects or a filter
+ * - `poolFilters: RandomizerPoolFilters` - Filter defining the pool in filter mode
+ * - `activePool: RandomizerPool | null` - Saved pool currently loaded, if any
  * - `lastSpinResult: Project | null` - Most recent spin result
  * - `stats: Object` - Statistics about project counts and spin eligibility
  *
@@ -86,6 +103,11 @@ const logger = createLogger('useRandomizer');
  * - `selectNoProjects: () => void` - Deselect all projects
  * - `handleSpinComplete: (project: Project) => Promise<void>` - Handle spin completion
  * - `clearLastResult: () => void` - Clear the last spin result
+ * - `pickWinner: (projects: Project[]) => Project | null` - Weighted winner for the wheel
+ * - `updatePreferences: (prefs: Partial<RandomizerPreferences>) => void` - Save selection mode settings
+ * - `setPoolMode: (mode: RandomizerPoolMode) => void` - Switch between manual and filter pools
+ * - `updatePoolFilters: (filters: Partial<RandomizerPoolFilters>) => void` - Edit the pool filter
+ * - `loadPool: (pool: RandomizerPool | null) => void` - Load a saved pool, or clear it
  *
  * **Utilities:**
  * - `formatProjectsForWheel: () => Project[]` - Get formatted projects for wheel display
@@ -97,7 +119,8 @@ const logger = createLogger('useRandomizer');
  * - Minimal re-renders through optimized dependencies
  *
  * @businesslogic
- * - Only fetches in-progress projects (status: 'progress')
+ * - Manual mode offers in-progress projects (status: 'progress')
+ * - Filter mode fills the wheel from projectsService.getProjects, so the pool follows the stash
  * - Requires minimum 2 projects for spinning
  * - Automatically records spin results to database
  * - Provides comprehensive statistics for UI decisions
@@ -111,6 +134,11 @@ export const useRandomizer = () => {
   /** The most recent spin result for display purposes */
   const [lastSpinResult, setLastSpinResult] = useState<Project | null>(null);
 
+  /** Filter-based pool state */
+  const [poolMode, setPoolModeState] = useState<RandomizerPoolMode>('manual');
+  const [poolFilters, setPoolFilters] = useState<RandomizerPoolFilters>(DEFAULT_POOL_FILTERS);
+  const [activePoolId, setActivePoolId] = useState<string | null>(null);
+
   // Fetch in-progress projects
   const {
     data: projectsData,
@@ -125,12 +153,37 @@ export const useRandomizer = () => {
     pageSize: 100, // Get all in-progress projects
   });
 
+  // Fetch the whole filter pool; it lives under the project queries, so it stays live
+  const {
+    data: poolProjectsData,
+    isLoading: isLoadingPool,
+    error: poolError,
+  } = useRandomizerPoolProjects(poolFilters, poolMode === 'filter');
+
+  const { data: savedPools = [] } = useRandomizerPools();
+  const activePool = useMemo(
+    () => savedPools.find(pool => pool.id === activePoolId) ?? null,
+    [savedPools, activePoolId]
+  );
+
   // Fetch spin history count for stats (efficient count-only query)
   const { data: totalSpinCount = 0 } = useSpinHistoryCount({
     userId: user?.id,
     enabled: !!user?.id,
   });
 
+  // Recent spins drive the 'not_recent' mode and recent-winner exclusion
+  const preferences = useRandomizerPreferences();
+  const { updatePreferences } = useRandomizerActions();
+  const needsSpinHistory =
+    preferences.selectionMode === 'not_recent' || preferences.excludeRecentWinners > 0;
+  const { data: weightingHistory = [] } = useSpinHistory({
+    userId: user?.id,
+    limit: WEIGHTING_HISTORY_LIMIT,
+    enabled: !!user?.id && needsSpinHistory,
+    enablePrefetch: false,
+  });
+
   // Create spin mutation
   const createSpinMutation = useCreateSpin();
 
@@ -139,10 +192,21 @@ export const useRandomizer = () => {
     return projectsData?.projects || [];
   }, [projectsData?.projects]);
 
-  const selectedProjects = useMemo(() => {
+  const manualProjects = useMemo(() => {
     return availableProjects.filter(project => selectedProjectIds.has(project.id));
   }, [availableProjects, selectedProjectIds]);
 
+  const poolProjects = useMemo(() => {
+    return poolProjectsData || [];
+  }, [poolProjectsData]);
+
+  // Projects on the wheel for the active pool mode
+  const selectedProjects = poolMode === 'filter' ? poolProjects : manualProjects;
+  const wheelProjectIds = useMemo(
+    () => new Set(selectedProjects.map(project => project.id)),
+    [selectedProjects]
+  );
+
   // URL parameter handling for deep linking
   const updateUrlParams = useCallback((projectIds: Set<string>) => {
     const url = new URL(window.location.href);
@@ -154,6 +218,30 @@ export const useRandomizer = () => {
     window.history.replaceState({}, '', url.toString());
   }, []);
 
+  const updatePoolUrlParam = useCallback((poolId: string | null) => {
+    const url = new URL(window.location.href);
+    if (poolId) {
+      url.searchParams.set('pool', poolId);
+    } else {
+      url.searchParams.delete('pool');
+    }
+    window.history.replaceState({}, '', url.toString());
+  }, []);
+
+  // Load a saved pool from the URL once pools are available
+  useEffect(() => {
+    if (savedPools.length === 0 || activePoolId) return;
+
+    const poolParam = new URLSearchParams(window.location.search).get('pool');
+    const pool = poolParam ? savedPools.find(p => p.id === poolParam) : undefined;
+    if (pool) {
+      setPoolFilters(pool.filters);
+      setActivePoolId(pool.id);
+      setPoolModeState('filter');
+      logger.debug('Loaded randomizer pool from URL', { poolId: pool.id });
+    }
+  }, [savedPools, activePoolId]);
+
   // Initialize selected projects from URL parameters
   useEffect(() => {
     if (availableProjects.length === 0) return;
@@ -211,6 +299,33 @@ export const useRandomizer = () => {
     logger.debug('All projects deselected');
   }, [updateUrlParams]);
 
+  // Pool handlers
+  const setPoolMode = useCallback(
+    (mode: RandomizerPoolMode) => {
+      setPoolModeState(mode);
+      updatePoolUrlParam(mode === 'filter' ? activePoolId : null);
+      logger.debug('Pool mode changed', { mode });
+    },
+    [activePoolId, updatePoolUrlParam]
+  );
+
+  const updatePoolFilters = useCallback((filters: Partial<RandomizerPoolFilters>) => {
+    setPoolFilters(prev => ({ ...prev, ...filters }));
+  }, []);
+
+  const loadPool = useCallback(
+    (pool: RandomizerPool | null) => {
+      setActivePoolId(pool?.id ?? null);
+      setPoolFilters(pool?.filters ?? DEFAULT_POOL_FILTERS);
+      updatePoolUrlParam(pool?.id ?? null);
+      logger.debug('Randomizer pool loaded', { poolId: pool?.id ?? null });
+    },
+    [updatePoolUrlParam]
+  );
+
+  /** True when the loaded pool's filter has been edited without saving */
+  const isPoolModified = !!activePool && !arePoolFiltersEqual(activePool.filters, poolFilters);
+
   // Spin handler
   const handleSpinComplete = useCallback(
     async (selectedProject: Project) => {
@@ -227,13 +342,21 @@ export const useRandomizer = () => {
           user: user.id,
           project: selectedProject.id,
           project_title: selectedProject.title,
-          selected_projects: Array.from(selectedProjectIds),
+          selected_projects: Array.from(wheelProjectIds),
+          selection: {
+            selectionMode: preferences.selectionMode,
+            excludeRecentWinners: preferences.excludeRecentWinners,
+            ...(poolMode === 'filter' &&
+              activePool && { poolId: activePool.id, poolName: activePool.name }),
+          },
         });
 
         logger.info('Spin completed and recorded', {
           selectedProjectId: selectedProject.id,
           selectedProjectTitle: selectedProject.title,
-          optionsCount: selectedProjectIds.size,
+          optionsCount: wheelProjectIds.size,
+          selectionMode: preferences.selectionMode,
+          poolMode,
         });
       } catch (error) {
         logger.error('Failed to record spin', {
@@ -242,7 +365,32 @@ export const useRandomizer = () => {
         });
       }
     },
-    [user?.id, selectedProjectIds, createSpinMutation]
+    [
+      user?.id,
+      wheelProjectIds,
+      createSpinMutation,
+      preferences.selectionMode,
+      preferences.excludeRecentWinners,
+      poolMode,
+      activePool,
+    ]
+  );
+
+  // Winner picker for the wheel, weighted by the saved selection mode
+  const selectionOptions = useMemo<WeightedSelectionOptions>(
+    () => ({
+      mode: preferences.selectionMode,
+      weightedTagIds: preferences.weightedTagIds,
+      preferredKitSize: preferences.preferredKitSize,
+      excludeRecentWinners: preferences.excludeRecentWinners,
+      spinHistory: weightingHistory,
+    }),
+    [preferences, weightingHistory]
+  );
+
+  const pickWinner = useCallback(
+    (projects: Project[]) => pickWeightedProject(projects, selectionOptions),
+    [selectionOptions]
   );
 
   // Clear last result
@@ -254,7 +402,7 @@ export const useRandomizer = () => {
   // Statistics
   const stats = useMemo(() => {
     const totalProjects = availableProjects.length;
-    const selectedCount = selectedProjectIds.size;
+    const selectedCount = wheelProjectIds.size;
     const canSpin = selectedCount >= 2; // Need at least 2 projects for randomization
 
     return {
@@ -265,11 +413,11 @@ export const useRandomizer = () => {
       hasProjects: totalProjects > 0,
       hasSelection: selectedCount > 0,
     };
-  }, [availableProjects.length, selectedProjectIds.size, totalSpinCount]);
+  }, [availableProjects.length, wheelProjectIds.size, totalSpinCount]);
 
   // Loading and error states
-  const isLoading = isLoadingProjects;
-  const error = projectsError;
+  const isLoading = isLoadingProjects || (poolMode === 'filter' && isLoadingPool);
+  const error = projectsError || (poolMode === 'filter' ? poolError : null);
 
   return {
     // Data
@@ -279,9 +427,18 @@ export const useRandomizer = () => {
     lastSpinResult,
     stats,
 
+    // Filter-based pool
+    poolMode,
+    poolFilters,
+    poolProjects,
+    savedPools,
+    activePool,
+    isPoolModified,
+
     // Loading states
     isLoading,
     isLoadingProjects,
+    isLoadingPool: poolMode === 'filter' && isLoadingPool,
     isCreatingSpin: createSpinMutation.isPending,
 
     // Error states
@@ -294,6 +451,16 @@ export const useRandomizer = () => {
     selectNoProjects,
     handleSpinComplete,
     clearLastResult,
+    pickWinner,
+
+    // Selection mode preferences (persisted)
+    preferences,
+    updatePreferences,
+
+    // Pool actions
+    setPoolMode,
+    updatePoolFilters,
+    loadPool,
 
     // Utilities
     formatProjectsForWheel: useCallback(() => {
@@ -308,7 +475,12 @@ export const useRandomizer = () => {
       } else {
         url.searchParams.delete('projects');
       }
+      if (poolMode === 'filter' && activePoolId) {
+        url.searchParams.set('pool', activePoolId);
+      } else {
+        url.searchParams.delete('pool');
+      }
       return url.toString();
-    }, [selectedProjectIds]),
+    }, [selectedProjectIds, poolMode, activePoolId]),
   };
 };
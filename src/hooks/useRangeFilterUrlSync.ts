@@ -0,0 +1,51 @@
+/**
+ * Keeps dashboard range filters in the URL so filtered views can be bookmarked and shared
+ *
+ * On first render range parameters in the URL (e.g. ?width_min=40&purchased_from=2025-03-01)
+ * are applied to the filters. Afterwards every range change is written back to the URL
+ * with a replace navigation, leaving other search parameters and location state untouched.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useEffect, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useFilters } from '@/contexts/FilterContext';
+import {
+  applyRangeSearchParams,
+  countActiveRanges,
+  parseRangeSearchParams,
+} from '@/utils/projectRanges';
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('useRangeFilterUrlSync');
+
+export const useRangeFilterUrlSync = () => {
+  const { filters, setFilters } = useFilters();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const hasHydratedRef = useRef(false);
+
+  useEffect(() => {
+    const params = new URLSearchParams(location.search);
+
+    if (!hasHydratedRef.current) {
+      hasHydratedRef.current = true;
+      const urlRanges = parseRangeSearchParams(params);
+      if (countActiveRanges(urlRanges) > 0) {
+        logger.debug('Applying range filters from URL', urlRanges);
+        setFilters({ ranges: urlRanges });
+        return;
+      }
+    }
+
+    const nextSearch = applyRangeSearchParams(params, filters.ranges).toString();
+    if (nextSearch !== params.toString()) {
+      navigate(
+        { pathname: location.pathname, search: nextSearch ? `?${nextSearch}` : '' },
+        { replace: true, state: location.state }
+      );
+    }
+  }, [filters.ranges, setFilters, navigate, location.pathname, location.search, location.state]);
+};
@@ -0,0 +1,81 @@
+/**
+ * Connects the dashboard search box to the structured search query language
+ *
+ * Holds the text the user is typing, applies it to the dashboard filters whenever it
+ * parses cleanly, and rewrites the text from the filters when they change elsewhere
+ * (dropdowns, saved views, reset) while the search box isn't focused.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useFilters } from '@/contexts/FilterContext';
+import {
+  areSearchQueryFiltersEqual,
+  filtersToSearchQuery,
+  getSearchQuerySuggestions,
+  parseSearchQuery,
+  pickSearchQueryFilters,
+  type SearchQueryError,
+  type SearchQueryMetadata,
+  type SearchQuerySuggestions,
+} from '@/utils/searchQuery';
+
+export interface UseSearchQueryResult {
+  query: string;
+  errors: SearchQueryError[];
+  setQuery: (query: string) => void;
+  getSuggestions: (query: string, cursor: number) => SearchQuerySuggestions | null;
+  onFocus: () => void;
+  onBlur: () => void;
+}
+
+export const useSearchQuery = (): UseSearchQueryResult => {
+  const { filters, setFilters, companies, artists, tags } = useFilters();
+  const [isEditing, setIsEditing] = useState(false);
+
+  const metadata = useMemo<SearchQueryMetadata>(
+    () => ({ tags, companies, artists }),
+    [tags, companies, artists]
+  );
+  const activeFilters = useMemo(() => pickSearchQueryFilters(filters), [filters]);
+
+  const [query, setQueryText] = useState(() => filtersToSearchQuery(activeFilters, metadata));
+  const parsed = useMemo(() => parseSearchQuery(query, metadata), [query, metadata]);
+
+  // Show filter changes made outside the search box, but never rewrite text mid-edit
+  useEffect(() => {
+    if (isEditing || areSearchQueryFiltersEqual(parsed.filters, activeFilters)) return;
+    setQueryText(filtersToSearchQuery(activeFilters, metadata));
+  }, [activeFilters, isEditing, metadata, parsed.filters]);
+
+  const setQuery = useCallback(
+    (text: string) => {
+      setQueryText(text);
+      const result = parseSearchQuery(text, metadata);
+      if (result.errors.length === 0) {
+        setFilters(current =>
+          areSearchQueryFiltersEqual(pickSearchQueryFilters(current), result.filters)
+            ? { currentPage: current.currentPage }
+            : result.filters
+        );
+      }
+    },
+    [metadata, setFilters]
+  );
+
+  const getSuggestions = useCallback(
+    (text: string, cursor: number) => getSearchQuerySuggestions(text, cursor, metadata),
+    [metadata]
+  );
+
+  return {
+    query,
+    errors: parsed.errors,
+    setQuery,
+    getSuggestions,
+    onFocus: useCallback(() => setIsEditing(true), []),
+    onBlur: useCallback(() => setIsEditing(false), []),
+  };
+};
@@ -0,0 +1,87 @@
+/**
+ * Tests for adding a tag to, and removing it from, many projects at once
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+type BatchOperation = { collection: string; action: string; id?: string; data?: unknown };
+
+const { batches, fullList, getOne } = vi.hoisted(() => ({
+  batches: [] as BatchOperation[][],
+  fullList: vi.fn(),
+  getOne: vi.fn(),
+}));
+
+vi.mock('@/lib/pocketbase', () => ({
+  pb: {
+    filter: (expression: string, params: Record<string, unknown>) =>
+      expression.replace(/\{:(\w+)\}/g, (_, key: string) => `'${params[key]}'`),
+    collection: (name: string) => ({
+      getOne: (id: string) => getOne(name, id),
+      getFullList: () => fullList(name),
+    }),
+    createBatch: () => {
+      const operations: BatchOperation[] = [];
+      return {
+        collection: (collection: string) => ({
+          create: (data: unknown) => operations.push({ collection, action: 'create', data }),
+          delete: (id: string) => operations.push({ collection, action: 'delete', id }),
+        }),
+        send: async () => {
+          batches.push(operations);
+          return [];
+        },
+      };
+    },
+  },
+}));
+
+vi.mock('@/lib/tagAuth', () => ({
+  withAuthentication: <T>(operation: (userId: string) => Promise<T>) => operation('user-1'),
+}));
+
+const { TagService } = await import('../tags');
+
+describe('TagService batch tagging', () => {
+  beforeEach(() => {
+    batches.length = 0;
+    vi.clearAllMocks();
+    getOne.mockResolvedValue({ id: 'tag-1', user: 'user-1' });
+    fullList.mockResolvedValue([
+      { id: 'link-1', project: 'p1' },
+      { id: 'link-2', project: 'p4' },
+    ]);
+  });
+
+  it('adds the tag only to projects that do not have it yet', async () => {
+    const response = await TagService.addTagToProjects(['p1', 'p2', 'p3'], 'tag-1');
+
+    expect(response).toMatchObject({ status: 'success', data: 2 });
+    expect(batches).toEqual([
+      [
+        { collection: 'project_tags', action: 'create', data: { project: 'p2', tag: 'tag-1' } },
+        { collection: 'project_tags', action: 'create', data: { project: 'p3', tag: 'tag-1' } },
+      ],
+    ]);
+  });
+
+  it('removes the tag only from the selected projects', async () => {
+    const response = await TagService.removeTagFromProjects(['p1', 'p2'], 'tag-1');
+
+    expect(response).toMatchObject({ status: 'success', data: 1 });
+    expect(batches).toEqual([[{ collection: 'project_tags', action: 'delete', id: 'link-1' }]]);
+  });
+
+  it("refuses another user's tag without writing anything", async () => {
+    getOne.mockResolvedValue({ id: 'tag-1', user: 'someone-else' });
+
+    const added = await TagService.addTagToProjects(['p2'], 'tag-1');
+    const removed = await TagService.removeTagFromProjects(['p1'], 'tag-1');
+
+    expect(added.status).toBe('error');
+    expect(removed.status).toBe('error');
+    expect(batches).toEqual([]);
+  });
+});
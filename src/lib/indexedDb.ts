@@ -0,0 +1,65 @@
+/**
+ * Minimal promise wrapper around an IndexedDB object store, for the data the app keeps
+ * on the device between visits
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+export interface IndexedDbStore {
+  /**
+   * Run one request against the store in its own transaction
+   * @returns The request's result once the transaction has committed
+   */
+  run<T>(
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T>;
+}
+
+interface IndexedDbStoreConfig {
+  dbName: string;
+  version: number;
+  storeName: string;
+  /** Create the store and its indexes when the database is new or its version changes */
+  upgrade: (database: IDBDatabase) => void;
+}
+
+/**
+ * Open an object store lazily; the database connection is shared by every request
+ */
+export function createIndexedDbStore({
+  dbName,
+  version,
+  storeName,
+  upgrade,
+}: IndexedDbStoreConfig): IndexedDbStore {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+      databasePromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          databasePromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return databasePromise;
+  };
+
+  return {
+    async run(mode, createRequest) {
+      const database = await openDatabase();
+      return new Promise((resolve, reject) => {
+        const transaction = database.transaction(storeName, mode);
+        const request = createRequest(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+    },
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Durable queue of project and progress-note writes made without a connection.
+ * Writes are kept in IndexedDB, so they survive reloads and closed tabs, and are
+ * replayed in order by the offline sync service once the app is back online.
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { createIndexedDbStore } from '@/lib/indexedDb';
+import { createLogger } from '@/utils/logger';
+import { isNetworkError } from '@/utils/offlineQueue';
+import type { NewQueuedWrite, QueuedWrite } from '@/types/offlineQueue';
+
+const logger = createLogger('OfflineQueue');
+
+const DB_NAME = 'organized-glitter-offline';
+
+const writesStore = createIndexedDbStore({
+  dbName: DB_NAME,
+  version: 1,
+  storeName: 'writes',
+  upgrade: database => {
+    const store = database.createObjectStore('writes', {
+      keyPath: 'sequence',
+      autoIncrement: true,
+    });
+    store.createIndex('userId', 'userId');
+  },
+});
+
+export type OfflineQueueChange = 'enqueued' | 'updated';
+
+const listeners = new Set<(change: OfflineQueueChange) => void>();
+
+function notify(change: OfflineQueueChange) {
+  listeners.forEach(listener => listener(change));
+}
+
+/**
+ * Listen for writes being queued, replayed, held back or discarded
+ * @returns Unsubscribe function
+ */
+export function subscribeToOfflineQueue(listener: (change: OfflineQueueChange) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Get the user's queued writes in the order they were made
+ */
+export async function getQueuedWrites(userId: string): Promise<QueuedWrite[]> {
+  return writesStore.run('readonly', store =>
+    store.index('userId').getAll(IDBKeyRange.only(userId))
+  ) as Promise<QueuedWrite[]>;
+}
+
+/**
+ * Add a write to the end of the queue
+ */
+export async function enqueueWrite(write: NewQueuedWrite): Promise<void> {
+  const record: Omit<QueuedWrite, 'sequence'> = {
+    ...write,
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+  };
+  const sequence = await writesStore.run('readwrite', store => store.add(record));
+  logger.info('Queued offline write', {
+    sequence,
+    kind: write.payload.kind,
+    projectId: write.projectId,
+  });
+  notify('enqueued');
+}
+
+/**
+ * Save changes to a queued write, e.g. marking it as conflicting
+ */
+export async function saveQueuedWrite(write: QueuedWrite): Promise<void> {
+  await writesStore.run('readwrite', store => store.put(write));
+  notify('updated');
+}
+
+/**
+ * Remove a write from the queue once it has synced or the user discards it
+ */
+export async function removeQueuedWrite(sequence: number): Promise<void> {
+  await writesStore.run('readwrite', store => store.delete(sequence));
+  notify('updated');
+}
+
+/**
+ * Run a queue replay unless another tab is already replaying, so no write is sent twice
+ * @returns The replay's result, or null if another tab holds the lock
+ */
+export async function withOfflineQueueLock<T>(replay: () => Promise<T>): Promise<T | null> {
+  if (!navigator.locks) return replay();
+  return navigator.locks.request(`${DB_NAME}-sync`, { ifAvailable: true }, lock =>
+    lock ? replay() : null
+  );
+}
+
+/**
+ * Run a write now, or queue it for later when there's no connection. Writes to a
+ * project that already has queued writes are queued behind them to keep their order.
+ * @returns The write's result, or null if it was queued
+ */
+export async function runOrQueueWrite<T>(
+  write: NewQueuedWrite,
+  run: () => Promise<T>
+): Promise<T | null> {
+  if (!navigator.onLine) {
+    await enqueueWrite(write);
+    return null;
+  }
+
+  const queued = await getQueuedWrites(write.userId).catch(error => {
+    logger.warn('Could not read the offline queue, writing directly', error);
+    return [];
+  });
+  if (queued.some(existing => existing.projectId === write.projectId)) {
+    await enqueueWrite(write);
+    return null;
+  }
+
+  try {
+    return await run();
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    logger.warn('Connection lost during write, queueing it', { kind: write.payload.kind });
+    await enqueueWrite(write);
+    return null;
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Keeps the user's projects, progress notes and metadata from the React Query cache in
+ * IndexedDB, so the app can show them when it's opened without a connection. Each user
+ * has their own saved cache, which is removed when they sign out.
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { dehydrate, hydrate } from '@tanstack/react-query';
+import { createIndexedDbStore } from '@/lib/indexedDb';
+import { createLogger } from '@/utils/logger';
+import {
+  QUERY_CACHE_VERSION,
+  isPersistedQueryFresh,
+  mergePersistedQueries,
+  shouldPersistQuery,
+  toPersistedQuery,
+} from '@/utils/queryPersistence';
+import type { DehydratedState, QueryClient } from '@tanstack/react-query';
+
+const logger = createLogger('QueryPersistence');
+
+/** Service worker cache for project thumbnails, configured in vite.config.ts */
+const THUMBNAIL_CACHE_NAME = 'pocketbase-thumbnails';
+
+const SAVE_DELAY = 1000;
+
+interface PersistedQueryCache {
+  userId: string;
+  version: number;
+  savedAt: number;
+  queries: DehydratedState['queries'];
+}
+
+const cacheStore = createIndexedDbStore({
+  dbName: 'organized-glitter-cache',
+  version: 1,
+  storeName: 'queries',
+  upgrade: database => {
+    database.createObjectStore('queries', { keyPath: 'userId' });
+  },
+});
+
+async function readPersistedQueries(userId: string): Promise<DehydratedState['queries']> {
+  const saved = (await cacheStore.run('readonly', store => store.get(userId))) as
+    | PersistedQueryCache
+    | undefined;
+  return saved?.version === QUERY_CACHE_VERSION ? saved.queries : [];
+}
+
+/**
+ * Load the user's saved queries into the cache. Anything already fetched this session
+ * and newer than the saved copy is left alone.
+ */
+export async function restoreQueryCache(queryClient: QueryClient, userId: string): Promise<void> {
+  try {
+    const now = Date.now();
+    const queries = (await readPersistedQueries(userId)).filter(query =>
+      isPersistedQueryFresh(query, now)
+    );
+    hydrate(queryClient, { mutations: [], queries });
+    logger.debug('Restored saved queries', { count: queries.length });
+  } catch (error) {
+    logger.warn('Could not restore the saved query cache', error);
+  }
+}
+
+/**
+ * Save the user's persisted queries whenever the cache changes, batched so a burst of
+ * updates is written once
+ * @returns Stop function, which cancels any pending save
+ */
+export function startQueryCachePersistence(queryClient: QueryClient, userId: string): () => void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const save = async () => {
+    timer = null;
+    try {
+      const current = dehydrate(queryClient, { shouldDehydrateQuery: shouldPersistQuery });
+      const saved = await readPersistedQueries(userId);
+      if (stopped) return;
+
+      const record: PersistedQueryCache = {
+        userId,
+        version: QUERY_CACHE_VERSION,
+        savedAt: Date.now(),
+        queries: mergePersistedQueries(saved, current.queries.map(toPersistedQuery), Date.now()),
+      };
+      await cacheStore.run('readwrite', store => store.put(record));
+    } catch (error) {
+      logger.warn('Could not save the query cache', error);
+    }
+  };
+
+  const unsubscribe = queryClient.getQueryCache().subscribe(event => {
+    if (stopped || timer || event.type === 'observerAdded' || event.type === 'observerRemoved') {
+      return;
+    }
+    timer = setTimeout(save, SAVE_DELAY);
+  });
+
+  return () => {
+    stopped = true;
+    unsubscribe();
+    if (timer) clearTimeout(timer);
+  };
+}
+
+/**
+ * Remove the user's saved queries and the cached thumbnails, e.g. on sign-out
+ */
+export async function clearPersistedQueryCache(userId: string): Promise<void> {
+  try {
+    await cacheStore.run('readwrite', store => store.delete(userId));
+    if ('caches' in window) {
+      await caches.delete(THUMBNAIL_CACHE_NAME);
+    }
+    logger.debug('Cleared the saved query cache');
+  } catch (error) {
+    logger.warn('Could not clear the saved query cache', error);
+  }
+}
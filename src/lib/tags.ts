@@ -25,6 +25,7 @@ import { withAuthentication } from '@/lib/tagAuth';
 import { createFilter } from '@/utils/filterBuilder';
 import { createLogger } from '@/utils/logger';
 import { generateSlug } from '@/utils/slugify';
+import { chunkForBatch } from '@/utils/batchRequests';
 
 const logger = createLogger('TagService');
 
@@ -393,6 +394,83 @@ export class TagService {
     });
   }
 
+  /**
+   * Add a tag to many projects at once, skipping projects that already have it
+   *
+   * @returns Number of projects the tag was newly added to
+   */
+  static async addTagToProjects(
+    projectIds: string[],
+    tagId: string
+  ): Promise<ServiceResponse<number>> {
+    return withAuthentication(async (userId: string) => {
+      try {
+        const tag = await pb.collection(Collections.Tags).getOne(tagId, { fields: 'id,user' });
+        if (tag.user !== userId) {
+          return createErrorResponse(new Error('Unauthorized access'));
+        }
+
+        const existing = await pb.collection(Collections.ProjectTags).getFullList({
+          filter: pb.filter('tag = {:tagId} && project.user = {:userId}', { tagId, userId }),
+          fields: 'project',
+        });
+        const alreadyTagged = new Set(existing.map(pt => pt.project));
+        const toTag = projectIds.filter(projectId => !alreadyTagged.has(projectId));
+
+        // The project_tags create rule verifies project ownership server-side
+        for (const projectChunk of chunkForBatch(toTag)) {
+          const batch = pb.createBatch();
+          projectChunk.forEach(projectId =>
+            batch.collection(Collections.ProjectTags).create({ project: projectId, tag: tagId })
+          );
+          await batch.send();
+        }
+
+        return createSuccessResponse(toTag.length);
+      } catch (error) {
+        logger.error('Error adding tag to projects:', error);
+        return createErrorResponse(error as Error);
+      }
+    });
+  }
+
+  /**
+   * Remove a tag from many projects at once
+   *
+   * @returns Number of projects the tag was removed from
+   */
+  static async removeTagFromProjects(
+    projectIds: string[],
+    tagId: string
+  ): Promise<ServiceResponse<number>> {
+    return withAuthentication(async (userId: string) => {
+      try {
+        const tag = await pb.collection(Collections.Tags).getOne(tagId, { fields: 'id,user' });
+        if (tag.user !== userId) {
+          return createErrorResponse(new Error('Unauthorized access'));
+        }
+
+        const selected = new Set(projectIds);
+        const existing = await pb.collection(Collections.ProjectTags).getFullList({
+          filter: pb.filter('tag = {:tagId} && project.user = {:userId}', { tagId, userId }),
+          fields: 'id,project',
+        });
+        const toRemove = existing.filter(pt => selected.has(pt.project));
+
+        for (const linkChunk of chunkForBatch(toRemove)) {
+          const batch = pb.createBatch();
+          linkChunk.forEach(pt => batch.collection(Collections.ProjectTags).delete(pt.id));
+          await batch.send();
+        }
+
+        return createSuccessResponse(toRemove.length);
+      } catch (error) {
+        logger.error('Error removing tag from projects:', error);
+        return createErrorResponse(error as Error);
+      }
+    });
+  }
+
   /**
    * Get tag statistics including project count
    */
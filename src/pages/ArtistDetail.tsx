@@ -0,0 +1,168 @@
+/**
+ * Artist detail page
+ *
+ * Shows the user's projects by one artist as an image gallery, with a status breakdown,
+ * completed count and the artist's links, plus a jump to the dashboard filtered by them.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { CheckCircle2, FileText, Home, Layers } from 'lucide-react';
+import MainLayout from '@/components/layout/MainLayout';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { ArtistGallery } from '@/components/artist/ArtistGallery';
+import { ArtistLinksCard } from '@/components/artist/ArtistLinksCard';
+import { useArtistDetail } from '@/hooks/queries/useArtistDetail';
+import { getArtistDashboardPath, getStatusBreakdown } from '@/utils/artistDetail';
+import { getStatusColor } from '@/utils/projectStatusUtils';
+
+const ArtistDetail = () => {
+  const { artistId } = useParams<{ artistId: string }>();
+  const { data: artist, isLoading, isError, refetch, isFetching } = useArtistDetail(artistId);
+
+  const breakdown = useMemo(() => (artist ? getStatusBreakdown(artist.projects) : []), [artist]);
+  const completedCount = breakdown.find(entry => entry.status === 'completed')?.count ?? 0;
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto max-w-6xl px-3 pb-4 pt-4 sm:px-4">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <Link to="/dashboard" className="flex items-center gap-1">
+                  <Home className="h-4 w-4" />
+                  Dashboard
+                </Link>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <Link to="/artists">Artists</Link>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage>{artist?.name ?? 'Artist'}</BreadcrumbPage>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+      </div>
+
+      <div className="container mx-auto max-w-6xl space-y-6 px-3 pb-8 sm:px-4">
+        {isLoading ? (
+          <div className="space-y-6">
+            <Skeleton className="h-10 w-72" />
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <Skeleton className="h-28 w-full" />
+              <Skeleton className="h-28 w-full" />
+            </div>
+            <Skeleton className="h-64 w-full" />
+          </div>
+        ) : isError || !artist ? (
+          <Alert variant="destructive">
+            <AlertDescription className="flex items-center justify-between gap-4">
+              This artist could not be loaded. They may have been deleted.
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                  Try again
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <Link to="/artists">All artists</Link>
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+              <h1 className="text-3xl font-bold">{artist.name}</h1>
+              <Button variant="outline" asChild>
+                <Link to={getArtistDashboardPath(artist.name)}>
+                  <FileText className="mr-2 h-4 w-4" />
+                  View on dashboard
+                </Link>
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">Projects</CardTitle>
+                  <Layers className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{artist.projects.length}</div>
+                  <p className="mt-1 text-xs text-muted-foreground">By this artist, any status</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">Completed</CardTitle>
+                  <CheckCircle2 className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{completedCount}</div>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    Finished projects by this artist
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Status breakdown</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {breakdown.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No projects by {artist.name} yet.
+                    </p>
+                  ) : (
+                    <ul className="divide-y rounded-md border">
+                      {breakdown.map(entry => (
+                        <li
+                          key={entry.status}
+                          className="flex items-center justify-between gap-3 p-3"
+                        >
+                          <Badge variant="secondary" className={getStatusColor(entry.status)}>
+                            {entry.label}
+                          </Badge>
+                          <span className="text-sm font-medium">{entry.count}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+
+              <ArtistLinksCard artist={artist} />
+            </div>
+
+            <ArtistGallery projects={artist.projects} />
+          </>
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default ArtistDetail;
@@ -0,0 +1,224 @@
+/**
+ * Calendar page
+ *
+ * Shows purchase, receipt, start and completion dates and progress notes across all
+ * projects in month or week views, and exports the same events as an .ics file for
+ * personal calendar apps.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { ChevronLeft, ChevronRight, Download, Home } from 'lucide-react';
+import MainLayout from '@/components/layout/MainLayout';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { CalendarGrid } from '@/components/calendar/CalendarGrid';
+import { useCalendarEvents } from '@/hooks/queries/useCalendarEvents';
+import { useUserTimezone } from '@/hooks/useUserTimezone';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  CALENDAR_EVENT_COLORS,
+  CALENDAR_EVENT_LABELS,
+  buildIcsCalendar,
+  downloadIcsCalendar,
+  getCalendarDays,
+  getIcsFilename,
+  groupEventsByDate,
+  shiftCalendarAnchor,
+} from '@/utils/calendar';
+import { getCurrentDateInUserTimezone } from '@/utils/timezoneUtils';
+import type { CalendarEventKind, CalendarViewMode } from '@/types/calendar';
+
+const EVENT_KINDS = Object.keys(CALENDAR_EVENT_LABELS) as CalendarEventKind[];
+
+const Calendar = () => {
+  const { toast } = useToast();
+  const userTimezone = useUserTimezone();
+  const today = getCurrentDateInUserTimezone(userTimezone);
+
+  const { data: events = [], isLoading, isError, refetch, isFetching } = useCalendarEvents();
+
+  const [mode, setMode] = useState<CalendarViewMode>('month');
+  const [anchor, setAnchor] = useState(today);
+  const [hiddenKinds, setHiddenKinds] = useState<Set<CalendarEventKind>>(new Set());
+
+  const visibleEvents = useMemo(
+    () => events.filter(event => !hiddenKinds.has(event.kind)),
+    [events, hiddenKinds]
+  );
+  const eventsByDate = useMemo(() => groupEventsByDate(visibleEvents), [visibleEvents]);
+  const days = useMemo(() => getCalendarDays(anchor, mode), [anchor, mode]);
+
+  const title =
+    mode === 'month'
+      ? format(parseISO(anchor), 'MMMM yyyy')
+      : `${format(parseISO(days[0]), 'MMM d')} – ${format(parseISO(days[days.length - 1]), 'MMM d, yyyy')}`;
+
+  const toggleKind = (kind: CalendarEventKind) => {
+    setHiddenKinds(current => {
+      const next = new Set(current);
+      if (next.has(kind)) {
+        next.delete(kind);
+      } else {
+        next.add(kind);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    const content = buildIcsCalendar(visibleEvents, new Date(), window.location.origin);
+    downloadIcsCalendar(content, getIcsFilename(today));
+    toast({
+      title: 'Calendar exported',
+      description: `${visibleEvents.length} ${visibleEvents.length === 1 ? 'event' : 'events'} saved. Import the file into your calendar app.`,
+    });
+  };
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto max-w-6xl px-3 pb-4 pt-4 sm:px-4">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <Link to="/dashboard" className="flex items-center gap-1">
+                  <Home className="h-4 w-4" />
+                  Dashboard
+                </Link>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage>Calendar</BreadcrumbPage>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+      </div>
+
+      <div className="container mx-auto max-w-6xl space-y-4 px-3 pb-8 sm:px-4">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Calendar</h1>
+            <p className="text-muted-foreground">Project milestones and progress notes by date</p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleExport}
+            disabled={isLoading || visibleEvents.length === 0}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Export .ics
+          </Button>
+        </div>
+
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setAnchor(shiftCalendarAnchor(anchor, mode, -1))}
+            >
+              <ChevronLeft className="h-4 w-4" />
+              <span className="sr-only">Previous {mode}</span>
+            </Button>
+            <Button variant="outline" onClick={() => setAnchor(today)}>
+              Today
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setAnchor(shiftCalendarAnchor(anchor, mode, 1))}
+            >
+              <ChevronRight className="h-4 w-4" />
+              <span className="sr-only">Next {mode}</span>
+            </Button>
+            <h2 className="ml-2 text-lg font-semibold">{title}</h2>
+          </div>
+
+          <div className="flex rounded-md shadow-sm">
+            <Button
+              variant={mode === 'month' ? 'default' : 'outline'}
+              className="rounded-l-md rounded-r-none"
+              onClick={() => setMode('month')}
+            >
+              Month
+            </Button>
+            <Button
+              variant={mode === 'week' ? 'default' : 'outline'}
+              className="rounded-l-none rounded-r-md"
+              onClick={() => setMode('week')}
+            >
+              Week
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {EVENT_KINDS.map(kind => (
+            <div key={kind} className="flex items-center space-x-2">
+              <Checkbox
+                id={`calendar-kind-${kind}`}
+                checked={!hiddenKinds.has(kind)}
+                onCheckedChange={() => toggleKind(kind)}
+              />
+              <Label
+                htmlFor={`calendar-kind-${kind}`}
+                className={cn('rounded px-1.5 py-0.5 text-xs', CALENDAR_EVENT_COLORS[kind])}
+              >
+                {CALENDAR_EVENT_LABELS[kind]}
+              </Label>
+            </div>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-[600px] w-full" />
+        ) : isError ? (
+          <Alert variant="destructive">
+            <AlertDescription className="flex items-center justify-between gap-4">
+              Your calendar could not be loaded.
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                Try again
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            {events.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Add purchase, received, start or completion dates to your projects, or write
+                progress notes, to see them here.
+              </p>
+            )}
+            <CalendarGrid
+              mode={mode}
+              days={days}
+              anchor={anchor}
+              today={today}
+              eventsByDate={eventsByDate}
+            />
+          </>
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default Calendar;
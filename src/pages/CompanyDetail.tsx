@@ -0,0 +1,178 @@
+/**
+ * Company scorecard page
+ *
+ * Shows how a shop has worked out: kits bought, average delivery time, completion
+ * rate, open and overdue orders and average kit size, next to the user's own quality
+ * rating and notes and the claims filed with the shop.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { ExternalLink, FileText, Home } from 'lucide-react';
+import MainLayout from '@/components/layout/MainLayout';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { CompanyScorecardCards } from '@/components/company/CompanyScorecardCards';
+import { CompanyQualityCard } from '@/components/company/CompanyQualityCard';
+import { CompanyClaimsCard } from '@/components/company/CompanyClaimsCard';
+import { QualityRating } from '@/components/company/QualityRating';
+import { useCompanyDetail } from '@/hooks/queries/useCompanyDetail';
+import { useUserTimezone } from '@/hooks/useUserTimezone';
+import { computeCompanyScorecard } from '@/utils/companyScorecard';
+import { getOrderTitle } from '@/utils/orders';
+import { getCurrentDateInUserTimezone } from '@/utils/timezoneUtils';
+
+const CompanyDetail = () => {
+  const { companyId } = useParams<{ companyId: string }>();
+  const userTimezone = useUserTimezone();
+  const today = getCurrentDateInUserTimezone(userTimezone);
+
+  const { data: company, isLoading, isError, refetch, isFetching } = useCompanyDetail(companyId);
+  const scorecard = useMemo(
+    () => (company ? computeCompanyScorecard(company, today) : null),
+    [company, today]
+  );
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto max-w-6xl px-3 pb-4 pt-4 sm:px-4">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <Link to="/dashboard" className="flex items-center gap-1">
+                  <Home className="h-4 w-4" />
+                  Dashboard
+                </Link>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <Link to="/companies">Companies</Link>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage>{company?.name ?? 'Company'}</BreadcrumbPage>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+      </div>
+
+      <div className="container mx-auto max-w-6xl space-y-6 px-3 pb-8 sm:px-4">
+        {isLoading ? (
+          <div className="space-y-6">
+            <Skeleton className="h-16 w-72" />
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {Array.from({ length: 6 }).map((_, index) => (
+                <Skeleton key={index} className="h-28 w-full" />
+              ))}
+            </div>
+          </div>
+        ) : isError || !company || !scorecard ? (
+          <Alert variant="destructive">
+            <AlertDescription className="flex items-center justify-between gap-4">
+              This company could not be loaded. It may have been deleted.
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                  Try again
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <Link to="/companies">All companies</Link>
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+              <div className="space-y-2">
+                <h1 className="text-3xl font-bold">{company.name}</h1>
+                <div className="flex flex-wrap items-center gap-4 text-sm">
+                  <QualityRating value={company.qualityRating} size="sm" />
+                  {company.websiteUrl && (
+                    <a
+                      href={company.websiteUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-primary hover:underline"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                      Website
+                    </a>
+                  )}
+                </div>
+              </div>
+              <Button variant="outline" asChild>
+                <Link to={`/dashboard?company=${encodeURIComponent(company.name)}`}>
+                  <FileText className="mr-2 h-4 w-4" />
+                  View {company.projects.length}{' '}
+                  {company.projects.length === 1 ? 'project' : 'projects'}
+                </Link>
+              </Button>
+            </div>
+
+            <CompanyScorecardCards scorecard={scorecard} />
+
+            <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+              <CompanyQualityCard company={company} />
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Overdue orders</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {scorecard.overdueOrders.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No orders from {company.name} are past their expected delivery date.
+                    </p>
+                  ) : (
+                    <ul className="divide-y rounded-md border">
+                      {scorecard.overdueOrders.map(order => (
+                        <li key={order.id} className="flex items-center justify-between gap-3 p-3">
+                          <div className="min-w-0">
+                            <p className="truncate text-sm font-medium">{getOrderTitle(order)}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {order.projects.length} {order.projects.length === 1 ? 'kit' : 'kits'}
+                            </p>
+                          </div>
+                          {order.expectedDelivery && (
+                            <span className="whitespace-nowrap text-sm text-rose-600 dark:text-rose-400">
+                              Expected {format(parseISO(order.expectedDelivery), 'MMM d, yyyy')}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <Button variant="link" className="mt-2 px-0" asChild>
+                    <Link to="/orders">Go to orders</Link>
+                  </Button>
+                </CardContent>
+              </Card>
+
+              <CompanyClaimsCard companyId={company.id} companyName={company.name} />
+            </div>
+          </>
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default CompanyDetail;
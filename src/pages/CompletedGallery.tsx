@@ -0,0 +1,196 @@
+/**
+ * Completed gallery page
+ *
+ * A masonry portfolio of finished projects and their latest progress pictures, filterable
+ * by completion year, tag and artist, with a lightbox for browsing images full size.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Home, ImageOff } from 'lucide-react';
+import MainLayout from '@/components/layout/MainLayout';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GalleryLightbox } from '@/components/gallery/GalleryLightbox';
+import { GalleryMasonry } from '@/components/gallery/GalleryMasonry';
+import { useCompletedGallery } from '@/hooks/queries/useCompletedGallery';
+import {
+  EMPTY_GALLERY_FILTERS,
+  GALLERY_UNDATED,
+  filterGalleryProjects,
+  getGalleryFilterOptions,
+  getGalleryImages,
+} from '@/utils/gallery';
+import type { GalleryFilters } from '@/types/gallery';
+
+// Radix Select items can't use an empty value, so "any" is stored as '' and shown as 'all'
+const ALL = 'all';
+
+const CompletedGallery = () => {
+  const { data: projects = [], isLoading, isError, refetch, isFetching } = useCompletedGallery();
+
+  const [filters, setFilters] = useState<GalleryFilters>(EMPTY_GALLERY_FILTERS);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  const options = useMemo(() => getGalleryFilterOptions(projects), [projects]);
+  const filteredProjects = useMemo(
+    () => filterGalleryProjects(projects, filters),
+    [projects, filters]
+  );
+  const images = useMemo(() => getGalleryImages(filteredProjects), [filteredProjects]);
+
+  const hasFilters = filters.year !== '' || filters.tagId !== '' || filters.artistId !== '';
+
+  const updateFilter = (key: keyof GalleryFilters, value: string) => {
+    setFilters(current => ({ ...current, [key]: value === ALL ? '' : value }));
+    setLightboxIndex(null);
+  };
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto max-w-7xl px-3 pb-4 pt-4 sm:px-4">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <Link to="/dashboard" className="flex items-center gap-1">
+                  <Home className="h-4 w-4" />
+                  Dashboard
+                </Link>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage>Gallery</BreadcrumbPage>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+      </div>
+
+      <div className="container mx-auto max-w-7xl space-y-6 px-3 pb-8 sm:px-4">
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Gallery</h1>
+            <p className="text-muted-foreground">
+              {isLoading
+                ? 'Your finished diamond paintings'
+                : `${filteredProjects.length} completed ${filteredProjects.length === 1 ? 'project' : 'projects'} · ${images.length} ${images.length === 1 ? 'image' : 'images'}`}
+            </p>
+          </div>
+
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+            <Select
+              value={filters.year || ALL}
+              onValueChange={value => updateFilter('year', value)}
+            >
+              <SelectTrigger className="w-full sm:w-36" aria-label="Filter by year">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All years</SelectItem>
+                {options.years.map(year => (
+                  <SelectItem key={year} value={year}>
+                    {year}
+                  </SelectItem>
+                ))}
+                {options.hasUndated && <SelectItem value={GALLERY_UNDATED}>Undated</SelectItem>}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.tagId || ALL}
+              onValueChange={value => updateFilter('tagId', value)}
+            >
+              <SelectTrigger className="w-full sm:w-44" aria-label="Filter by tag">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All tags</SelectItem>
+                {options.tags.map(tag => (
+                  <SelectItem key={tag.id} value={tag.id}>
+                    {tag.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.artistId || ALL}
+              onValueChange={value => updateFilter('artistId', value)}
+            >
+              <SelectTrigger className="w-full sm:w-44" aria-label="Filter by artist">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All artists</SelectItem>
+                {options.artists.map(artist => (
+                  <SelectItem key={artist.id} value={artist.id}>
+                    {artist.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+            {Array.from({ length: 8 }, (_, i) => (
+              <Skeleton key={i} className={i % 3 === 0 ? 'h-64' : 'h-44'} />
+            ))}
+          </div>
+        ) : isError ? (
+          <Alert variant="destructive">
+            <AlertDescription className="flex items-center justify-between gap-4">
+              Your gallery could not be loaded.
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                Try again
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : images.length === 0 ? (
+          <div className="flex flex-col items-center gap-3 rounded-lg border border-dashed py-16 text-center text-sm text-muted-foreground">
+            <ImageOff className="h-8 w-8" />
+            {hasFilters ? (
+              <>
+                No completed projects match these filters.
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFilters(EMPTY_GALLERY_FILTERS)}
+                >
+                  Clear filters
+                </Button>
+              </>
+            ) : (
+              'Finish a project with an image or progress picture to start your gallery.'
+            )}
+          </div>
+        ) : (
+          <GalleryMasonry images={images} onSelect={setLightboxIndex} />
+        )}
+      </div>
+
+      <GalleryLightbox images={images} index={lightboxIndex} onIndexChange={setLightboxIndex} />
+    </MainLayout>
+  );
+};
+
+export default CompletedGallery;
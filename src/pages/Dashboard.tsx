@@ -11,6 +11,9 @@
  * - Smooth position restoration after project editing
  * - Recently edited project visual highlighting
  * - Mobile-responsive layout with adaptive filter sections
+ * - Saved views can be opened from a shared link (?view=<id>)
+ * - Artist pages link to the dashboard filtered by that artist (?artist=<name>)
+ * - Range filters (size, diamonds, dates) are mirrored in the URL for bookmarking
  *
  * State Management:
  * - All filter/sort/search state handled by DashboardFiltersContext
@@ -34,11 +37,16 @@ import { useIsMobile } from '@/hooks/use-mobile';
 import { useAuth } from '@/hooks/useAuth';
 import { useRecentlyEdited, RecentlyEditedProvider } from '@/contexts/RecentlyEditedContext';
 import { StatsProvider } from '@/contexts/StatsContext';
-import { FilterProvider } from '@/contexts/FilterContext';
+import { FilterProvider, useFilters } from '@/contexts/FilterContext';
 import { UIProvider } from '@/contexts/UIContext';
+import { ProjectSelectionProvider } from '@/contexts/ProjectSelectionContext';
 import { DashboardFilterContext } from '@/hooks/mutations/useSaveNavigationContext';
 import { createLogger } from '@/utils/logger';
 import { useToast } from '@/hooks/use-toast';
+import { useSavedViews } from '@/hooks/queries/useSavedViews';
+import { useRangeFilterUrlSync } from '@/hooks/useRangeFilterUrlSync';
+import { SAVED_VIEW_URL_PARAM } from '@/utils/savedViews';
+import { ARTIST_URL_PARAM } from '@/utils/artistDetail';
 
 // RecentlyEdited context moved to DashboardFiltersContext for better architecture
 
@@ -52,6 +60,9 @@ const DashboardInternal: React.FC = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { setRecentlyEditedProjectId } = useRecentlyEdited();
+  const { setFilters } = useFilters();
+  const { data: savedViews, isError: savedViewsError } = useSavedViews();
+  useRangeFilterUrlSync();
 
   // Check for edit return state in location
   const editReturnState = location.state as {
@@ -117,6 +128,59 @@ const DashboardInternal: React.FC = () => {
     }
   }, [editReturnState, navigate, location.pathname, toast, setRecentlyEditedProjectId]);
 
+  // Apply a saved view opened via a shared link (/dashboard?view=<id>), then drop the param
+  const requestedViewId = new URLSearchParams(location.search).get(SAVED_VIEW_URL_PARAM);
+  useEffect(() => {
+    if (!requestedViewId || (!savedViews && !savedViewsError)) return;
+
+    const view = savedViews?.find(candidate => candidate.id === requestedViewId);
+    if (view) {
+      logger.info('Applying saved view from URL', { viewId: view.id });
+      setFilters({ ...view.filters });
+    } else {
+      toast({
+        title: 'View not found',
+        description: 'This saved view no longer exists or belongs to another account.',
+        variant: 'destructive',
+      });
+    }
+
+    const params = new URLSearchParams(location.search);
+    params.delete(SAVED_VIEW_URL_PARAM);
+    const search = params.toString();
+    navigate(
+      { pathname: location.pathname, search: search ? `?${search}` : '' },
+      { replace: true, state: location.state }
+    );
+  }, [
+    requestedViewId,
+    savedViews,
+    savedViewsError,
+    setFilters,
+    toast,
+    navigate,
+    location.pathname,
+    location.search,
+    location.state,
+  ]);
+
+  // Filter by the artist linked from an artist page (/dashboard?artist=<name>), then drop the param
+  const requestedArtist = new URLSearchParams(location.search).get(ARTIST_URL_PARAM);
+  useEffect(() => {
+    if (!requestedArtist) return;
+
+    logger.info('Filtering by artist from URL', { artist: requestedArtist });
+    setFilters({ selectedArtist: requestedArtist });
+
+    const params = new URLSearchParams(location.search);
+    params.delete(ARTIST_URL_PARAM);
+    const search = params.toString();
+    navigate(
+      { pathname: location.pathname, search: search ? `?${search}` : '' },
+      { replace: true, state: location.state }
+    );
+  }, [requestedArtist, setFilters, navigate, location.pathname, location.search, location.state]);
+
   return (
     <MainLayout>
       <div className="container mx-auto px-4 py-8">
@@ -154,7 +218,9 @@ const Dashboard: React.FC = () => {
       <StatsProvider>
         <UIProvider>
           <RecentlyEditedProvider>
-            <DashboardInternal />
+            <ProjectSelectionProvider>
+              <DashboardInternal />
+            </ProjectSelectionProvider>
           </RecentlyEditedProvider>
         </UIProvider>
       </StatsProvider>
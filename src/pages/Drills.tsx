@@ -0,0 +1,103 @@
+/**
+ * Drills page
+ *
+ * Leftover drills by DMC colour and a colour lookup showing which kits use a colour.
+ * The looked-up colour is kept in the `colour` URL parameter so legends can link to it.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { Link, useSearchParams } from 'react-router-dom';
+import { Home, Palette } from 'lucide-react';
+import MainLayout from '@/components/layout/MainLayout';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { DrillColourLookup } from '@/components/drills/DrillColourLookup';
+import { LeftoverDrillsCard } from '@/components/drills/LeftoverDrillsCard';
+import { useLeftoverDrills } from '@/hooks/queries/useDrills';
+
+const Drills = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const colour = searchParams.get('colour') ?? '';
+
+  const { data: leftovers = [], isLoading, isError, refetch, isFetching } = useLeftoverDrills();
+
+  const setColour = (value: string) =>
+    setSearchParams(
+      current => {
+        const next = new URLSearchParams(current);
+        if (value) {
+          next.set('colour', value);
+        } else {
+          next.delete('colour');
+        }
+        return next;
+      },
+      { replace: true }
+    );
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto max-w-5xl px-3 pb-4 pt-4 sm:px-4">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <Link to="/dashboard" className="flex items-center gap-1">
+                  <Home className="h-4 w-4" />
+                  Dashboard
+                </Link>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage className="flex items-center gap-1">
+                <Palette className="h-4 w-4" />
+                Drills
+              </BreadcrumbPage>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+      </div>
+
+      <div className="container mx-auto max-w-5xl space-y-6 px-3 pb-8 sm:px-4">
+        <div>
+          <h1 className="text-3xl font-bold">Drills</h1>
+          <p className="text-muted-foreground">
+            Your leftover drills by DMC colour, and the kits that use each colour
+          </p>
+        </div>
+
+        <DrillColourLookup value={colour} onChange={setColour} leftovers={leftovers} />
+
+        {isError ? (
+          <Alert variant="destructive">
+            <AlertDescription className="flex items-center justify-between gap-4">
+              Failed to load your leftover drills.
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                Try again
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <LeftoverDrillsCard
+            leftovers={leftovers}
+            isLoading={isLoading}
+            onSelectColour={setColour}
+          />
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default Drills;
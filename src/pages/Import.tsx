@@ -9,6 +9,7 @@ import { useProjectImport } from '@/hooks/useProjectImport';
 import { downloadCSVTemplate } from '@/utils/csvTemplateGenerator';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import RestoreBackupCard from '@/components/import/RestoreBackupCard';
 
 const Import = () => {
   const [file, setFile] = useState<File | null>(null);
@@ -92,7 +93,8 @@ const Import = () => {
                   </div>
                   <p className="mt-1 text-sm text-muted-foreground">
                     Note: The "General Notes" column is for general notes about the kit, not
-                    progress notes. At this time, it is not possible to import progress notes.
+                    progress notes. To move progress notes, use a full account backup and the
+                    Restore from Backup section below.
                   </p>
                 </div>
 
@@ -407,6 +409,8 @@ const Import = () => {
               </div>
             </CardContent>
           </Card>
+
+          <RestoreBackupCard />
         </div>
       </div>
     </MainLayout>
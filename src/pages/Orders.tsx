@@ -0,0 +1,220 @@
+/**
+ * Orders page
+ *
+ * Lists the user's open orders, soonest expected delivery first, with received orders
+ * below. Marking an order received moves all of its purchased kits to the stash at once.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Home, Package, Plus } from 'lucide-react';
+import MainLayout from '@/components/layout/MainLayout';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { OrderCard } from '@/components/orders/OrderCard';
+import { OrderFormDialog } from '@/components/orders/OrderFormDialog';
+import { useOrders } from '@/hooks/queries/useOrders';
+import {
+  useCreateOrder,
+  useDeleteOrder,
+  useMarkOrderReceived,
+  useUpdateOrder,
+} from '@/hooks/mutations/useOrderMutations';
+import { useUserTimezone } from '@/hooks/useUserTimezone';
+import { getCurrentDateInUserTimezone } from '@/utils/timezoneUtils';
+import { getOrderTitle, splitOrders } from '@/utils/orders';
+import type { Order, OrderFormData } from '@/types/order';
+
+const Orders = () => {
+  const userTimezone = useUserTimezone();
+  const today = getCurrentDateInUserTimezone(userTimezone);
+
+  const { data: orders = [], isLoading, isError, refetch, isFetching } = useOrders();
+  const createOrder = useCreateOrder();
+  const updateOrder = useUpdateOrder();
+  const deleteOrder = useDeleteOrder();
+  const markReceived = useMarkOrderReceived();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<Order | null>(null);
+  const [orderToDelete, setOrderToDelete] = useState<Order | null>(null);
+  const [showReceived, setShowReceived] = useState(false);
+
+  const { open, received } = splitOrders(orders);
+
+  const openForm = (order: Order | null) => {
+    setEditingOrder(order);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = (data: OrderFormData) => {
+    const options = { onSuccess: () => setIsFormOpen(false) };
+    if (editingOrder) {
+      updateOrder.mutate({ order: editingOrder, data }, options);
+    } else {
+      createOrder.mutate(data, options);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!orderToDelete) return;
+    deleteOrder.mutate(orderToDelete, { onSettled: () => setOrderToDelete(null) });
+  };
+
+  const renderOrder = (order: Order) => (
+    <OrderCard
+      key={order.id}
+      order={order}
+      today={today}
+      isReceiving={markReceived.isPending && markReceived.variables?.order.id === order.id}
+      onMarkReceived={target => markReceived.mutate({ order: target, dateReceived: today })}
+      onEdit={openForm}
+      onDelete={setOrderToDelete}
+    />
+  );
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto max-w-5xl px-3 pb-4 pt-4 sm:px-4">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <Link to="/dashboard" className="flex items-center gap-1">
+                  <Home className="h-4 w-4" />
+                  Dashboard
+                </Link>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage className="flex items-center gap-1">
+                <Package className="h-4 w-4" />
+                Orders
+              </BreadcrumbPage>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+      </div>
+
+      <div className="container mx-auto max-w-5xl space-y-6 px-3 pb-8 sm:px-4">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Orders</h1>
+            <p className="text-muted-foreground">
+              Track kits on their way and move a whole order to your stash when it arrives
+            </p>
+          </div>
+          <Button onClick={() => openForm(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add order
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 3 }).map((_, index) => (
+              <Skeleton key={index} className="h-48 w-full" />
+            ))}
+          </div>
+        ) : isError ? (
+          <Alert variant="destructive">
+            <AlertDescription className="flex items-center justify-between gap-4">
+              Failed to load your orders.
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                Try again
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <section className="space-y-4" aria-labelledby="open-orders-heading">
+              <h2 id="open-orders-heading" className="text-xl font-semibold">
+                Open orders ({open.length})
+              </h2>
+              {open.length === 0 ? (
+                <p className="rounded-lg border border-dashed p-8 text-center text-muted-foreground">
+                  No orders on the way. Add an order to group kits you bought together.
+                </p>
+              ) : (
+                open.map(renderOrder)
+              )}
+            </section>
+
+            {received.length > 0 && (
+              <section className="space-y-4" aria-labelledby="received-orders-heading">
+                <div className="flex items-center justify-between gap-4">
+                  <h2 id="received-orders-heading" className="text-xl font-semibold">
+                    Received orders ({received.length})
+                  </h2>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowReceived(current => !current)}
+                    aria-expanded={showReceived}
+                  >
+                    {showReceived ? 'Hide' : 'Show'}
+                  </Button>
+                </div>
+                {showReceived && received.map(renderOrder)}
+              </section>
+            )}
+          </>
+        )}
+      </div>
+
+      <OrderFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        order={editingOrder}
+        isSaving={createOrder.isPending || updateOrder.isPending}
+        onSubmit={handleSubmit}
+      />
+
+      <AlertDialog
+        open={!!orderToDelete}
+        onOpenChange={isOpen => !isOpen && setOrderToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete order?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {orderToDelete && getOrderTitle(orderToDelete)} will be deleted. The kits in it stay
+              in your collection.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteOrder.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={deleteOrder.isPending}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </MainLayout>
+  );
+};
+
+export default Orders;
@@ -14,12 +14,13 @@ import { WelcomeSection } from '@/components/overview/WelcomeSection';
 import { InProgressSection } from '@/components/overview/InProgressSection';
 import { QuickActionsSection } from '@/components/overview/QuickActionsSection';
 import { ThankYouMessage } from '@/components/overview/ThankYouMessage';
+import { ClaimRemindersSection } from '@/components/overview/ClaimRemindersSection';
 import { Skeleton } from '@/components/ui/skeleton';
 import { OverviewErrorBoundary } from '@/components/error/ComponentErrorBoundaries';
 
 /**
  * Overview Page - Simplified to show welcome section and in-progress projects only
- * Stats have been removed as part of caching simplification - will re-add later via a dashboard SWM
+ * Yearly stats live on the dedicated /stats page, linked from Quick Actions
  */
 const Overview = () => {
   // Performance monitoring
@@ -212,6 +213,9 @@ const Overview = () => {
             </>
           )}
 
+          {/* Claim follow-up reminders - Only shown with open claims */}
+          <ClaimRemindersSection />
+
           {/* Quick Actions - Always visible */}
           <QuickActionsSection />
         </div>
@@ -26,9 +26,12 @@ import {
   BreadcrumbSeparator,
 } from '@/components/ui/breadcrumb';
 import { RandomizerWheel } from '@/components/randomizer/RandomizerWheel';
+import { SelectionModeSettings } from '@/components/randomizer/SelectionModeSettings';
+import { PoolFilterSettings } from '@/components/randomizer/PoolFilterSettings';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ProjectSelector } from '@/components/randomizer/ProjectSelector';
 import { SpinHistory } from '@/components/randomizer/SpinHistory';
-import { useRandomizer } from '@/hooks/useRandomizer';
+import { useRandomizer, type RandomizerPoolMode } from '@/hooks/useRandomizer';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { Shuffle, ExternalLink, Lightbulb, Home, Share2 } from 'lucide-react';
@@ -58,14 +61,15 @@ const logger = createLogger('ProjectRandomizer');
  *
  * @layout
  * 1. **Hero Section**: Large randomizer wheel at the top
- * 2. **Statistics**: 4-card grid showing key metrics
- * 3. **Two-Column Layout**:
- *    - Left: Project selection interface
+ * 2. **Selection Mode**: How the winner is weighted and which recent winners to skip
+ * 3. **Statistics**: 4-card grid showing key metrics
+ * 4. **Two-Column Layout**:
+ *    - Left: Project selection, hand-picked or defined by a saved filter pool
  *    - Right: Spin history and management
  *
  * @userflow
  * 1. User sees their in-progress projects in the selection area
- * 2. User selects 2+ projects they want to include in randomization
+ * 2. User selects 2+ projects, or builds a pool from filters (optionally saved by name)
  * 3. User clicks "Spin the Wheel!" to randomly select a project
  * 4. Result is displayed with link to go work on that project
  * 5. Spin is automatically saved to history for future reference
@@ -96,6 +100,19 @@ const ProjectRandomizer: React.FC = () => {
     selectNoProjects,
     handleSpinComplete,
     clearLastResult,
+    pickWinner,
+    preferences,
+    updatePreferences,
+    poolMode,
+    poolFilters,
+    poolProjects,
+    savedPools,
+    activePool,
+    isPoolModified,
+    isLoadingPool,
+    setPoolMode,
+    updatePoolFilters,
+    loadPool,
     getShareableUrl,
   } = useRandomizer();
 
@@ -239,7 +256,9 @@ const ProjectRandomizer: React.FC = () => {
         <Card className="mb-6 md:mb-8">
           <CardHeader className="text-center">
             <CardDescription className="text-sm sm:text-base md:text-lg">
-              Select your in-progress projects below, then come back to spin the wheel!
+              {poolMode === 'filter'
+                ? `Spinning ${activePool ? `"${activePool.name}"` : 'your filter pool'}: every matching project is on the wheel.`
+                : 'Select your in-progress projects below, then come back to spin the wheel!'}
             </CardDescription>
           </CardHeader>
           <CardContent className="flex flex-col items-center py-4 sm:py-6 md:py-8">
@@ -247,6 +266,7 @@ const ProjectRandomizer: React.FC = () => {
               projects={selectedProjects}
               onSpinComplete={handleSpinComplete}
               disabled={!stats.canSpin || isCreatingSpin}
+              pickWinner={pickWinner}
             />
 
             {/* Spin Result - Enhanced Mobile Layout */}
@@ -317,6 +337,17 @@ const ProjectRandomizer: React.FC = () => {
           </CardContent>
         </Card>
 
+        {/* Selection Mode - how the winner is weighted */}
+        <Card className="mb-6 md:mb-8">
+          <CardHeader>
+            <CardTitle>Selection Mode</CardTitle>
+            <CardDescription>Choose how the wheel picks your next project</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SelectionModeSettings preferences={preferences} onChange={updatePreferences} />
+          </CardContent>
+        </Card>
+
         {/* Stats Summary - Enhanced Mobile-First Design */}
         <div className="mb-6 grid grid-cols-2 gap-3 sm:gap-4 md:mb-8 md:grid-cols-4">
           <Card>
@@ -354,18 +385,41 @@ const ProjectRandomizer: React.FC = () => {
             <CardHeader>
               <CardTitle>Choose Your Projects</CardTitle>
               <CardDescription>
-                Select which in-progress projects to include in the randomizer
+                Pick in-progress projects by hand, or fill the wheel from a filter
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <ProjectSelector
-                projects={availableProjects}
-                selectedProjects={selectedProjectIds}
-                onProjectToggle={toggleProject}
-                onSelectAll={selectAllProjects}
-                onSelectNone={selectNoProjects}
-                isLoading={isLoadingProjects}
-              />
+              <Tabs
+                value={poolMode}
+                onValueChange={value => setPoolMode(value as RandomizerPoolMode)}
+              >
+                <TabsList className="mb-4 grid w-full grid-cols-2">
+                  <TabsTrigger value="manual">Pick projects</TabsTrigger>
+                  <TabsTrigger value="filter">Use a filter</TabsTrigger>
+                </TabsList>
+                <TabsContent value="manual">
+                  <ProjectSelector
+                    projects={availableProjects}
+                    selectedProjects={selectedProjectIds}
+                    onProjectToggle={toggleProject}
+                    onSelectAll={selectAllProjects}
+                    onSelectNone={selectNoProjects}
+                    isLoading={isLoadingProjects}
+                  />
+                </TabsContent>
+                <TabsContent value="filter">
+                  <PoolFilterSettings
+                    filters={poolFilters}
+                    onChange={updatePoolFilters}
+                    savedPools={savedPools}
+                    activePool={activePool}
+                    isModified={isPoolModified}
+                    onLoadPool={loadPool}
+                    projectCount={poolProjects.length}
+                    isLoading={isLoadingPool}
+                  />
+                </TabsContent>
+              </Tabs>
             </CardContent>
           </Card>
 
@@ -0,0 +1,110 @@
+/**
+ * Public profile page
+ *
+ * Lists the completed projects a user chose to show on their profile, each linking to its
+ * read-only share page. Works without signing in; private or unknown profiles show a
+ * not-found message.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { Link, useParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { ImageOff, UserX } from 'lucide-react';
+import MainLayout from '@/components/layout/MainLayout';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { usePublicProfile } from '@/hooks/queries/usePublicSharing';
+import { ImageService } from '@/services/ImageService';
+
+const PublicProfile = () => {
+  const { username } = useParams<{ username: string }>();
+  const { data, isLoading, isError, refetch, isFetching } = usePublicProfile(username);
+  const profile = data?.profile;
+  const projects = data?.projects ?? [];
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto max-w-6xl space-y-6 px-3 py-6 sm:px-4">
+        {isLoading ? (
+          <div className="space-y-6">
+            <Skeleton className="h-10 w-64" />
+            <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+              {Array.from({ length: 4 }, (_, i) => (
+                <Skeleton key={i} className="h-48" />
+              ))}
+            </div>
+          </div>
+        ) : isError ? (
+          <Alert variant="destructive">
+            <AlertDescription className="flex items-center justify-between gap-4">
+              This profile could not be loaded.
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                Try again
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : !profile ? (
+          <div className="flex flex-col items-center gap-3 py-16 text-center">
+            <UserX className="h-10 w-10 text-muted-foreground" />
+            <h1 className="text-2xl font-semibold">Profile not found</h1>
+            <p className="text-muted-foreground">This profile doesn't exist or isn't public.</p>
+          </div>
+        ) : (
+          <>
+            <div>
+              <h1 className="text-3xl font-bold">{profile.displayName || profile.username}</h1>
+              {profile.displayName && <p className="text-muted-foreground">@{profile.username}</p>}
+              {profile.bio && <p className="mt-3 max-w-2xl whitespace-pre-line">{profile.bio}</p>}
+            </div>
+
+            {projects.length === 0 ? (
+              <p className="text-muted-foreground">No projects shared yet.</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4">
+                {projects.map(({ token, snapshot }) => (
+                  <Link
+                    key={token}
+                    to={`/share/${token}`}
+                    className="group overflow-hidden rounded-lg border bg-card"
+                  >
+                    <div className="aspect-[3/2] overflow-hidden bg-muted/30">
+                      {snapshot.image ? (
+                        <img
+                          src={ImageService.getOptimizedUrl(
+                            snapshot.image,
+                            snapshot.image.filename,
+                            'card'
+                          )}
+                          alt={snapshot.title}
+                          loading="lazy"
+                          className="h-full w-full object-cover transition-transform group-hover:scale-105"
+                        />
+                      ) : (
+                        <div className="flex h-full items-center justify-center text-muted-foreground">
+                          <ImageOff className="h-8 w-8" />
+                        </div>
+                      )}
+                    </div>
+                    <div className="p-3">
+                      <p className="truncate font-medium">{snapshot.title}</p>
+                      {snapshot.dateCompleted && (
+                        <p className="text-xs text-muted-foreground">
+                          Completed {format(parseISO(snapshot.dateCompleted), 'MMM yyyy')}
+                        </p>
+                      )}
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default PublicProfile;
@@ -0,0 +1,65 @@
+/**
+ * Shared project page
+ *
+ * Public, read-only view of a project opened from a share link. Works without signing
+ * in and shows only the fields the owner chose when sharing.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { Link, useParams } from 'react-router-dom';
+import { Link2Off } from 'lucide-react';
+import MainLayout from '@/components/layout/MainLayout';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { SharedProjectView } from '@/components/sharing/SharedProjectView';
+import { useSharedProject } from '@/hooks/queries/usePublicSharing';
+
+const SharedProject = () => {
+  const { token } = useParams<{ token: string }>();
+  const { data: shared, isLoading, isError, refetch, isFetching } = useSharedProject(token);
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto max-w-6xl px-3 py-6 sm:px-4">
+        {isLoading ? (
+          <div className="space-y-6">
+            <Skeleton className="h-10 w-72" />
+            <Skeleton className="h-96 w-full" />
+          </div>
+        ) : isError ? (
+          <Alert variant="destructive">
+            <AlertDescription className="flex items-center justify-between gap-4">
+              This project could not be loaded.
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                Try again
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : !shared ? (
+          <div className="flex flex-col items-center gap-3 py-16 text-center">
+            <Link2Off className="h-10 w-10 text-muted-foreground" />
+            <h1 className="text-2xl font-semibold">This link isn't available</h1>
+            <p className="text-muted-foreground">
+              The owner may have stopped sharing this project.
+            </p>
+          </div>
+        ) : (
+          <SharedProjectView snapshot={shared.snapshot} />
+        )}
+
+        <p className="mt-10 text-center text-sm text-muted-foreground">
+          Shared from{' '}
+          <Link to="/" className="underline">
+            Organized Glitter
+          </Link>
+          , a diamond painting tracker.
+        </p>
+      </div>
+    </MainLayout>
+  );
+};
+
+export default SharedProject;
@@ -0,0 +1,178 @@
+/**
+ * Yearly stats page
+ *
+ * Shows completions per month, diamonds placed per year, average days from start to
+ * completion, hours worked and drills per hour from work sessions, stash growth against
+ * completions, top companies and artists, spending on kits, and a year-over-year
+ * comparison. Stats are served from the user_yearly_stats cache when it is still current
+ * and recalculated by the stats service otherwise.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { BarChart3, Home } from 'lucide-react';
+import MainLayout from '@/components/layout/MainLayout';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { StatsSummaryCards } from '@/components/stats/StatsSummaryCards';
+import { MonthlyActivityChart } from '@/components/stats/MonthlyActivityChart';
+import { DiamondsPerYearChart } from '@/components/stats/DiamondsPerYearChart';
+import { TopEntitiesCard } from '@/components/stats/TopEntitiesCard';
+import { YearComparisonTable } from '@/components/stats/YearComparisonTable';
+import { SpendingReportCard } from '@/components/stats/SpendingReportCard';
+import { useYearlyStats } from '@/hooks/queries/useYearlyStats';
+
+const parseYearParam = (value: string | null, fallback: number): number => {
+  const year = Number(value);
+  return Number.isInteger(year) && year >= 1900 && year <= 2100 ? year : fallback;
+};
+
+const StatsLoading = () => (
+  <div className="space-y-6">
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      {Array.from({ length: 6 }).map((_, index) => (
+        <Skeleton key={index} className="h-28 w-full" />
+      ))}
+    </div>
+    <Skeleton className="h-[380px] w-full" />
+  </div>
+);
+
+const Stats = () => {
+  const currentYear = new Date().getFullYear();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedYear = parseYearParam(searchParams.get('year'), currentYear);
+
+  const { data, isLoading, isError, refetch, isFetching } = useYearlyStats(selectedYear);
+
+  const yearOptions = useMemo(() => {
+    const years = new Set([
+      currentYear,
+      selectedYear,
+      ...(data?.current.insights.available_years ?? []),
+    ]);
+    return [...years].sort((a, b) => b - a);
+  }, [currentYear, selectedYear, data]);
+
+  const handleYearChange = (value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (Number(value) === currentYear) {
+      next.delete('year');
+    } else {
+      next.set('year', value);
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto max-w-7xl px-3 pb-4 pt-4 sm:px-4">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <Link to="/dashboard" className="flex items-center gap-1">
+                  <Home className="h-4 w-4" />
+                  Dashboard
+                </Link>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage className="flex items-center gap-1">
+                <BarChart3 className="h-4 w-4" />
+                Stats
+              </BreadcrumbPage>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+      </div>
+
+      <div className="container mx-auto max-w-7xl space-y-6 px-3 pb-8 sm:px-4">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Your Stats</h1>
+            <p className="text-muted-foreground">
+              How your diamond painting year compares to the one before
+            </p>
+          </div>
+          <Select value={String(selectedYear)} onValueChange={handleYearChange}>
+            <SelectTrigger className="w-full sm:w-36" aria-label="Select year">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {yearOptions.map(year => (
+                <SelectItem key={year} value={String(year)}>
+                  {year}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <StatsLoading />
+        ) : isError || !data ? (
+          <Alert variant="destructive">
+            <AlertDescription className="flex items-center justify-between gap-4">
+              Failed to load your stats.
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                Try again
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="space-y-6">
+            <StatsSummaryCards current={data.current} previous={data.previous} />
+
+            <MonthlyActivityChart year={selectedYear} insights={data.current.insights} />
+
+            <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+              <TopEntitiesCard
+                title={`Top Companies in ${selectedYear}`}
+                entities={data.current.insights.top_companies}
+                emptyMessage="No completed projects with a company this year."
+              />
+              <TopEntitiesCard
+                title={`Top Artists in ${selectedYear}`}
+                entities={data.current.insights.top_artists}
+                emptyMessage="No completed projects with an artist this year."
+              />
+            </div>
+
+            <SpendingReportCard year={selectedYear} spending={data.current.insights.spending} />
+
+            <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+              <DiamondsPerYearChart totals={data.current.insights.yearly_totals} />
+              <YearComparisonTable
+                totals={data.current.insights.yearly_totals}
+                selectedYear={selectedYear}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default Stats;
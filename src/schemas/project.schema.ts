@@ -12,12 +12,32 @@ const ProjectStatusEnum = z.enum([
   'destashed',
 ]);
 const DrillShapeEnum = z.enum(['round', 'square']);
+const DrillTypeEnum = z.enum([
+  'standard',
+  'ab',
+  'fairy_dust',
+  'glow_in_dark',
+  'special_shaped',
+  'mixed',
+]);
+const CanvasTypeEnum = z.enum(['canvas', 'linen', 'mixed']);
 const KitCategoryEnum = z.enum(['full', 'mini']);
 
 // File validation constants
 const MAX_FILE_SIZE_BYTES = 50 * 1024 * 1024; // 50MB
 const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif']; // Common defaults
 
+// Optional non-negative amount entered as text or number
+const moneyField = (label: string) =>
+  z.preprocess(
+    val => (val === '' || val === undefined || val === null ? undefined : Number(val)),
+    z
+      .number({ invalid_type_error: `${label} must be a number` })
+      .min(0, `${label} cannot be negative`)
+      .optional()
+      .nullable()
+  );
+
 // Define the base object schema first
 export const BaseProjectFormObjectSchema = z.object({
   id: z
@@ -38,6 +58,8 @@ export const BaseProjectFormObjectSchema = z.object({
   company: z.string().max(100, 'Company must be 100 characters or less').optional().nullable(),
   artist: z.string().max(100, 'Artist must be 100 characters or less').optional().nullable(),
   drillShape: DrillShapeEnum.optional().nullable(),
+  drillType: DrillTypeEnum.optional().nullable().or(z.literal('')),
+  canvasType: CanvasTypeEnum.optional().nullable().or(z.literal('')),
   width: z.preprocess(
     val => (val === '' || val === undefined || val === null ? undefined : Number(val)),
     z
@@ -185,6 +207,20 @@ export const BaseProjectFormObjectSchema = z.object({
       .optional()
       .nullable()
   ),
+  price: moneyField('Price'),
+  shippingCost: moneyField('Shipping cost'),
+  discount: moneyField('Discount'),
+  currency: z
+    .string()
+    .regex(/^[A-Z]{3}$/, 'Currency must be a three-letter code such as USD')
+    .optional()
+    .nullable()
+    .or(z.literal('')),
+  orderReference: z
+    .string()
+    .max(100, 'Order reference must be 100 characters or less')
+    .optional()
+    .nullable(),
   kit_category: KitCategoryEnum.optional().nullable(),
   imageFile: z
     .instanceof(File)
@@ -0,0 +1,122 @@
+/**
+ * Tests for batch project updates and deletions
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+type BatchOperation = { collection: string; action: string; id?: string; data?: unknown };
+
+const { batches, fullList, sendBatch } = vi.hoisted(() => ({
+  batches: [] as BatchOperation[][],
+  fullList: vi.fn(),
+  sendBatch: vi.fn(),
+}));
+
+vi.mock('@/lib/pocketbase', () => ({
+  pb: {
+    filter: (expression: string, params: Record<string, unknown>) =>
+      expression.replace(/\{:(\w+)\}/g, (_, key: string) => `'${params[key]}'`),
+    collection: (name: string) => ({
+      getFullList: (options?: { filter?: string }) => fullList(name, options?.filter ?? ''),
+    }),
+    createBatch: () => {
+      const operations: BatchOperation[] = [];
+      return {
+        collection: (collection: string) => ({
+          create: (data: unknown) => operations.push({ collection, action: 'create', data }),
+          update: (id: string, data: unknown) =>
+            operations.push({ collection, action: 'update', id, data }),
+          delete: (id: string) => operations.push({ collection, action: 'delete', id }),
+        }),
+        send: async () => {
+          await sendBatch(operations);
+          batches.push(operations);
+          return [];
+        },
+      };
+    },
+  },
+}));
+
+const { projectsService } = await import('../projects.service');
+
+/** Records of a collection whose id or project is named in the filter */
+const matching = (records: Array<{ id: string; project?: string }>, filter: string) =>
+  records
+    .filter(
+      record =>
+        filter.includes(`'${record.id}'`) ||
+        (record.project !== undefined && filter.includes(`'${record.project}'`))
+    )
+    .map(({ id }) => ({ id }));
+
+describe('projectsService.batchUpdateProjects', () => {
+  beforeEach(() => {
+    batches.length = 0;
+    vi.clearAllMocks();
+  });
+
+  it('sends the same change to every project, at most 50 per batch', async () => {
+    const ids = Array.from({ length: 120 }, (_, index) => `p${index}`);
+
+    await projectsService.batchUpdateProjects(ids, { company: 'c1' });
+
+    expect(batches.map(batch => batch.length)).toEqual([50, 50, 20]);
+    expect(batches.flat().map(operation => operation.id)).toEqual(ids);
+    expect(batches[0][0]).toEqual({
+      collection: 'projects',
+      action: 'update',
+      id: 'p0',
+      data: { company: 'c1' },
+    });
+  });
+
+  it('throws when a batch is rejected', async () => {
+    sendBatch.mockRejectedValueOnce(new Error('rejected'));
+
+    await expect(projectsService.batchUpdateProjects(['p1'], { artist: '' })).rejects.toThrow();
+  });
+});
+
+describe('projectsService.batchDeleteProjects', () => {
+  const records: Record<string, Array<{ id: string; project?: string }>> = {
+    projects: [{ id: 'p1' }, { id: 'p2' }],
+    progress_notes: [{ id: 'n1', project: 'p1' }],
+    project_tags: [{ id: 't1', project: 'p2' }],
+  };
+
+  beforeEach(() => {
+    batches.length = 0;
+    vi.clearAllMocks();
+    fullList.mockImplementation(async (collection: string, filter: string) =>
+      matching(records[collection] ?? [], filter)
+    );
+  });
+
+  it('deletes progress notes and tag links before the projects', async () => {
+    await projectsService.batchDeleteProjects(['p1', 'p2']);
+
+    expect(batches).toEqual([
+      [
+        { collection: 'progress_notes', action: 'delete', id: 'n1' },
+        { collection: 'project_tags', action: 'delete', id: 't1' },
+      ],
+      [
+        { collection: 'projects', action: 'delete', id: 'p1' },
+        { collection: 'projects', action: 'delete', id: 'p2' },
+      ],
+    ]);
+  });
+
+  it('skips projects that were already deleted, so an interrupted deletion can be resent', async () => {
+    await projectsService.batchDeleteProjects(['p1', 'gone']);
+
+    expect(batches.at(-1)).toEqual([{ collection: 'projects', action: 'delete', id: 'p1' }]);
+
+    batches.length = 0;
+    await projectsService.batchDeleteProjects(['gone']);
+    expect(batches).toEqual([]);
+  });
+});
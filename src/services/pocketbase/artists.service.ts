@@ -0,0 +1,60 @@
+/**
+ * Artists service
+ *
+ * Loads the artist detail page: the artist record with its links and the user's
+ * projects by that artist, with gallery thumbnail URLs. Creating, renaming and deleting
+ * artists stays with the shared entity CRUD hooks.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { pb } from '@/lib/pocketbase';
+import { createLogger } from '@/utils/logger';
+import { ImageService } from '@/services/ImageService';
+import { Collections, type ArtistsResponse, type ProjectsResponse } from '@/types/pocketbase.types';
+import type { ArtistDetail, ArtistProject } from '@/types/artist';
+import type { ProjectStatus } from '@/types/project';
+
+const logger = createLogger('ArtistsService');
+
+// collectionId and collectionName are needed to build file URLs
+const GALLERY_PROJECT_FIELDS = 'id,title,status,image,collectionId,collectionName';
+
+type GalleryProjectRecord = Pick<
+  ProjectsResponse,
+  'id' | 'title' | 'status' | 'image' | 'collectionId' | 'collectionName'
+>;
+
+const transformGalleryProject = (record: GalleryProjectRecord): ArtistProject => ({
+  id: record.id,
+  title: record.title,
+  status: record.status as ProjectStatus,
+  thumbnailUrl: record.image
+    ? ImageService.getOptimizedUrl(record, record.image, 'card') || undefined
+    : undefined,
+});
+
+/**
+ * Get an artist with the user's projects by them for the artist detail page
+ */
+export async function getArtistDetail(userId: string, artistId: string): Promise<ArtistDetail> {
+  const [artist, projects] = await Promise.all([
+    pb.collection(Collections.Artists).getOne<ArtistsResponse<string[]>>(artistId),
+    pb.collection(Collections.Projects).getFullList<GalleryProjectRecord>({
+      filter: pb.filter('user = {:userId} && artist = {:artistId}', { userId, artistId }),
+      sort: '-updated',
+      fields: GALLERY_PROJECT_FIELDS,
+    }),
+  ]);
+
+  logger.debug('Fetched artist detail', { artistId, projects: projects.length });
+
+  return {
+    id: artist.id,
+    name: artist.name,
+    websiteUrl: artist.website_url || undefined,
+    socialLinks: Array.isArray(artist.social_links) ? artist.social_links : [],
+    projects: projects.map(transformGalleryProject),
+  };
+}
@@ -0,0 +1,676 @@
+/**
+ * Full-account backup and restore service
+ *
+ * Produces a versioned JSON document containing every user-owned collection
+ * (projects, progress notes, tags, project tags, companies, artists, orders,
+ * work sessions, drill legends, leftover drills, claims and randomizer spins) and the
+ * account's settings, optionally with embedded images, and restores such a
+ * document into the signed-in account with ID remapping.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { pb } from '@/lib/pocketbase';
+import { createLogger } from '@/utils/logger';
+import { projectsService } from '@/services/pocketbase/projects.service';
+import { addLeftoverDrill } from '@/services/pocketbase/drills.service';
+import { saveClaimReminderDays } from '@/services/pocketbase/claims.service';
+import { generateUniqueSlug } from '@/utils/slugify';
+import { parseCanvasType, parseDrillType } from '@/utils/kitMaterials';
+import { TAG_COLOR_PALETTE } from '@/utils/tagColors';
+import {
+  ACCOUNT_BACKUP_FORMAT,
+  ACCOUNT_BACKUP_VERSION,
+  blobToDataUrl,
+  createEmptyBackupCounts,
+  dataUrlToFile,
+  getFilenameFromUrl,
+  getOriginalFileUrl,
+  remapIds,
+} from '@/utils/accountBackup';
+import type {
+  AccountBackup,
+  BackupFileRef,
+  BackupProgress,
+  BackupProject,
+  RestoreSummary,
+} from '@/types/backup';
+import type { ClaimIssueType, ClaimStatus } from '@/types/claim';
+
+const logger = createLogger('BackupService');
+
+export interface CreateBackupOptions {
+  /** Embed project and progress note images as data URLs */
+  includeImages: boolean;
+  onProgress?: (progress: BackupProgress) => void;
+}
+
+export interface RestoreBackupOptions {
+  /** Upload embedded images when the backup contains them */
+  includeImages: boolean;
+  onProgress?: (progress: BackupProgress) => void;
+}
+
+/**
+ * Download a file and wrap it as a backup file reference
+ */
+async function fetchFileRef(fileUrl: string, includeImages: boolean): Promise<BackupFileRef> {
+  const originalUrl = getOriginalFileUrl(fileUrl);
+  const ref: BackupFileRef = { filename: getFilenameFromUrl(originalUrl) };
+
+  if (!includeImages) return ref;
+
+  try {
+    const response = await fetch(originalUrl);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    ref.dataUrl = await blobToDataUrl(await response.blob());
+  } catch (error) {
+    logger.warn('Failed to download file for backup, keeping reference only', {
+      filename: ref.filename,
+      error,
+    });
+  }
+
+  return ref;
+}
+
+/**
+ * Build a complete backup of the given user's data
+ */
+export async function createAccountBackup(
+  user: { id: string; username?: string; claim_reminder_days?: number },
+  options: CreateBackupOptions
+): Promise<AccountBackup> {
+  const { includeImages, onProgress } = options;
+  const userFilter = pb.filter('user = {:userId}', { userId: user.id });
+  const projectOwnerFilter = pb.filter('project.user = {:userId}', { userId: user.id });
+
+  logger.debug('Creating account backup', { includeImages });
+
+  const [
+    companies,
+    artists,
+    tags,
+    orders,
+    projectOrders,
+    projectTags,
+    progressNotes,
+    workSessions,
+    projectDrills,
+    leftoverDrills,
+    claims,
+    spins,
+  ] = await Promise.all([
+    pb.collection('companies').getFullList({ filter: userFilter, sort: 'name' }),
+    pb.collection('artists').getFullList({ filter: userFilter, sort: 'name' }),
+    pb.collection('tags').getFullList({ filter: userFilter, sort: 'name' }),
+    pb.collection('orders').getFullList({ filter: userFilter, sort: 'order_date,created' }),
+    // Exported projects don't carry their order, so the links are read on their own
+    pb
+      .collection('projects')
+      .getFullList({ filter: `${userFilter} && order != ""`, fields: 'id,order' }),
+    pb
+      .collection('project_tags')
+      .getFullList({ filter: projectOwnerFilter, fields: 'project,tag' }),
+    pb
+      .collection('progress_notes')
+      .getFullList({ filter: projectOwnerFilter, sort: 'date,created' }),
+    pb
+      .collection('work_sessions')
+      .getFullList({ filter: `${userFilter} && ended_at != ""`, sort: 'started_at' }),
+    pb.collection('project_drills').getFullList({ filter: userFilter, sort: 'project,dmc_code' }),
+    pb.collection('leftover_drills').getFullList({ filter: userFilter, sort: 'dmc_code' }),
+    pb.collection('claims').getFullList({ filter: userFilter, sort: 'date_reported,created' }),
+    pb.collection('randomizer_spins').getFullList({ filter: userFilter, sort: 'spun_at' }),
+  ]);
+
+  // Identity maps keep company and artist IDs on the exported projects so they can be remapped
+  const companyIds = new Map(companies.map(company => [company.id, company.id]));
+  const artistIds = new Map(artists.map(artist => [artist.id, artist.id]));
+  const orderIdsByProject = new Map(projectOrders.map(project => [project.id, project.order]));
+  const projects = await projectsService.getProjectsForExport(
+    {
+      userId: user.id,
+      status: 'everything',
+      includeArchived: true,
+      includeDestashed: true,
+    },
+    companyIds,
+    artistIds
+  );
+
+  const imageTotal =
+    projects.filter(project => project.imageUrl).length +
+    progressNotes.filter(note => note.image).length;
+  let imagesDone = 0;
+  const reportImage = () => {
+    imagesDone++;
+    onProgress?.({ phase: 'images', completed: imagesDone, total: imageTotal });
+  };
+
+  const backupProjects: BackupProject[] = [];
+  for (const project of projects) {
+    let image: BackupFileRef | undefined;
+    if (project.imageUrl) {
+      image = await fetchFileRef(project.imageUrl, includeImages);
+      reportImage();
+    }
+
+    backupProjects.push({
+      id: project.id,
+      title: project.title,
+      status: project.status,
+      company: project.company,
+      artist: project.artist,
+      order: orderIdsByProject.get(project.id),
+      kit_category: project.kit_category,
+      drillShape: project.drillShape,
+      drillType: project.drillType,
+      canvasType: project.canvasType,
+      width: project.width,
+      height: project.height,
+      totalDiamonds: project.totalDiamonds,
+      price: project.price,
+      shippingCost: project.shippingCost,
+      discount: project.discount,
+      currency: project.currency,
+      orderReference: project.orderReference,
+      datePurchased: project.datePurchased,
+      dateReceived: project.dateReceived,
+      dateStarted: project.dateStarted,
+      dateCompleted: project.dateCompleted,
+      generalNotes: project.generalNotes,
+      sourceUrl: project.sourceUrl,
+      image,
+      createdAt: project.createdAt,
+      updatedAt: project.updatedAt,
+    });
+  }
+
+  const backupNotes: AccountBackup['data']['progressNotes'] = [];
+  for (const note of progressNotes) {
+    let image: BackupFileRef | undefined;
+    if (note.image) {
+      image = await fetchFileRef(pb.files.getURL(note, note.image), includeImages);
+      reportImage();
+    }
+
+    backupNotes.push({
+      id: note.id,
+      project: note.project,
+      content: note.content || '',
+      date: note.date,
+      image,
+      ...(note.drills_placed && { drillsPlaced: note.drills_placed }),
+      ...(note.percent_complete && { percentComplete: note.percent_complete }),
+      createdAt: note.created || '',
+    });
+  }
+
+  onProgress?.({ phase: 'done', completed: 1, total: 1 });
+
+  return {
+    format: ACCOUNT_BACKUP_FORMAT,
+    version: ACCOUNT_BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: { url: pb.baseURL, username: user.username },
+    includesImages: includeImages,
+    settings: { claim_reminder_days: user.claim_reminder_days || undefined },
+    data: {
+      companies: companies.map(company => ({
+        id: company.id,
+        name: company.name,
+        website_url: company.website_url || undefined,
+        quality_rating: company.quality_rating || undefined,
+        quality_notes: company.quality_notes || undefined,
+      })),
+      artists: artists.map(artist => ({
+        id: artist.id,
+        name: artist.name,
+        website_url: artist.website_url || undefined,
+        social_links: Array.isArray(artist.social_links) ? artist.social_links : undefined,
+      })),
+      tags: tags.map(tag => ({ id: tag.id, name: tag.name, slug: tag.slug, color: tag.color })),
+      orders: orders.map(order => ({
+        id: order.id,
+        company: order.company || undefined,
+        order_number: order.order_number || undefined,
+        order_date: order.order_date || undefined,
+        expected_delivery: order.expected_delivery || undefined,
+        tracking_note: order.tracking_note || undefined,
+        date_received: order.date_received || undefined,
+      })),
+      projects: backupProjects,
+      projectTags: projectTags.map(pt => ({ project: pt.project, tag: pt.tag })),
+      progressNotes: backupNotes,
+      workSessions: workSessions.map(session => ({
+        project: session.project,
+        started_at: session.started_at,
+        ended_at: session.ended_at,
+        duration_seconds: session.duration_seconds || undefined,
+        drills_placed: session.drills_placed || undefined,
+      })),
+      projectDrills: projectDrills.map(drill => ({
+        project: drill.project,
+        dmc_code: drill.dmc_code,
+        symbol: drill.symbol || undefined,
+        required_count: drill.required_count || undefined,
+        bags_received: drill.bags_received || undefined,
+        added_to_inventory: !!drill.added_to_inventory,
+      })),
+      leftoverDrills: leftoverDrills.map(drill => ({
+        dmc_code: drill.dmc_code,
+        bags: drill.bags || 0,
+      })),
+      claims: claims.map(claim => ({
+        project: claim.project,
+        issue_type: claim.issue_type as ClaimIssueType,
+        colours: Array.isArray(claim.colours) ? (claim.colours as string[]) : [],
+        description: claim.description || undefined,
+        date_reported: claim.date_reported,
+        status: claim.status as ClaimStatus,
+        date_closed: claim.date_closed || undefined,
+      })),
+      randomizerSpins: spins.map(spin => ({
+        project: spin.project || undefined,
+        project_title: spin.project_title,
+        project_company: spin.project_company || undefined,
+        project_artist: spin.project_artist || undefined,
+        selected_projects: Array.isArray(spin.selected_projects)
+          ? (spin.selected_projects as string[])
+          : [],
+        selected_count: spin.selected_count || undefined,
+        metadata: (spin.metadata as Record<string, unknown> | null) ?? null,
+        spun_at: spin.spun_at,
+      })),
+    },
+  };
+}
+
+/**
+ * Restore a backup into the given account.
+ *
+ * Every order, project, progress note, project tag, work session, legend colour, claim
+ * and spin is created as a new record, and the backup's settings replace the account's. Leftover drills are added to the bags of the same colour
+ * already in the account.
+ * Companies, artists and tags are matched by name (case-insensitive) and reused
+ * when they already exist, so restoring into a non-empty account does not create duplicates.
+ * Individual record failures are collected in `errors` and do not stop the restore.
+ */
+export async function restoreAccountBackup(
+  userId: string,
+  backup: AccountBackup,
+  options: RestoreBackupOptions
+): Promise<RestoreSummary> {
+  const { onProgress } = options;
+  const includeImages = options.includeImages && backup.includesImages;
+  const { data } = backup;
+  const userFilter = pb.filter('user = {:userId}', { userId });
+
+  const summary: RestoreSummary = {
+    created: createEmptyBackupCounts(),
+    reused: { companies: 0, artists: 0, tags: 0 },
+    imagesRestored: 0,
+    errors: [],
+  };
+
+  const companyIds = new Map<string, string>();
+  const artistIds = new Map<string, string>();
+  const tagIds = new Map<string, string>();
+  const orderIds = new Map<string, string>();
+  const projectIds = new Map<string, string>();
+
+  const recordError = (context: string, error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Restore failed for ${context}`, error);
+    summary.errors.push(`${context}: ${message}`);
+  };
+
+  const toFile = (ref: BackupFileRef | undefined): File | undefined => {
+    if (!includeImages || !ref?.dataUrl) return undefined;
+    try {
+      const file = dataUrlToFile(ref.dataUrl, ref.filename);
+      summary.imagesRestored++;
+      return file;
+    } catch (error) {
+      recordError(`image "${ref.filename}"`, error);
+      return undefined;
+    }
+  };
+
+  logger.debug('Restoring account backup', {
+    version: backup.version,
+    exportedAt: backup.exportedAt,
+    includeImages,
+  });
+
+  // Companies
+  const existingCompanies = await pb.collection('companies').getFullList({ filter: userFilter });
+  const companiesByName = new Map(existingCompanies.map(c => [c.name.toLowerCase(), c.id]));
+  for (const [index, company] of data.companies.entries()) {
+    const existingId = companiesByName.get(company.name.toLowerCase());
+    if (existingId) {
+      companyIds.set(company.id, existingId);
+      summary.reused.companies++;
+    } else {
+      try {
+        const created = await pb.collection('companies').create({
+          name: company.name,
+          website_url: company.website_url || '',
+          quality_rating: company.quality_rating ?? 0,
+          quality_notes: company.quality_notes || '',
+          user: userId,
+        });
+        companyIds.set(company.id, created.id);
+        companiesByName.set(company.name.toLowerCase(), created.id);
+        summary.created.companies++;
+      } catch (error) {
+        recordError(`company "${company.name}"`, error);
+      }
+    }
+    onProgress?.({ phase: 'companies', completed: index + 1, total: data.companies.length });
+  }
+
+  // Artists
+  const existingArtists = await pb.collection('artists').getFullList({ filter: userFilter });
+  const artistsByName = new Map(existingArtists.map(a => [a.name.toLowerCase(), a.id]));
+  for (const [index, artist] of data.artists.entries()) {
+    const existingId = artistsByName.get(artist.name.toLowerCase());
+    if (existingId) {
+      artistIds.set(artist.id, existingId);
+      summary.reused.artists++;
+    } else {
+      try {
+        const created = await pb.collection('artists').create({
+          name: artist.name,
+          website_url: artist.website_url || '',
+          social_links: artist.social_links ?? [],
+          user: userId,
+        });
+        artistIds.set(artist.id, created.id);
+        artistsByName.set(artist.name.toLowerCase(), created.id);
+        summary.created.artists++;
+      } catch (error) {
+        recordError(`artist "${artist.name}"`, error);
+      }
+    }
+    onProgress?.({ phase: 'artists', completed: index + 1, total: data.artists.length });
+  }
+
+  // Tags
+  const existingTags = await pb.collection('tags').getFullList({ filter: userFilter });
+  const tagsByName = new Map(existingTags.map(t => [t.name.toLowerCase(), t.id]));
+  const usedSlugs = new Set(existingTags.map(t => t.slug));
+  for (const [index, tag] of data.tags.entries()) {
+    const existingId = tagsByName.get(tag.name.toLowerCase());
+    if (existingId) {
+      tagIds.set(tag.id, existingId);
+      summary.reused.tags++;
+    } else {
+      try {
+        const slug = await generateUniqueSlug(tag.slug || tag.name, async candidate =>
+          usedSlugs.has(candidate)
+        );
+        const created = await pb.collection('tags').create({
+          name: tag.name,
+          slug,
+          color: tag.color || TAG_COLOR_PALETTE[0].hex,
+          user: userId,
+        });
+        usedSlugs.add(slug);
+        tagIds.set(tag.id, created.id);
+        tagsByName.set(tag.name.toLowerCase(), created.id);
+        summary.created.tags++;
+      } catch (error) {
+        recordError(`tag "${tag.name}"`, error);
+      }
+    }
+    onProgress?.({ phase: 'tags', completed: index + 1, total: data.tags.length });
+  }
+
+  // Orders
+  for (const [index, order] of data.orders.entries()) {
+    try {
+      const created = await pb.collection('orders').create({
+        user: userId,
+        company: (order.company && companyIds.get(order.company)) || '',
+        order_number: order.order_number || '',
+        order_date: order.order_date || '',
+        expected_delivery: order.expected_delivery || '',
+        tracking_note: order.tracking_note || '',
+        date_received: order.date_received || '',
+      });
+      orderIds.set(order.id, created.id);
+      summary.created.orders++;
+    } catch (error) {
+      recordError(`order ${order.order_number || order.id}`, error);
+    }
+    onProgress?.({ phase: 'orders', completed: index + 1, total: data.orders.length });
+  }
+
+  // Projects
+  for (const [index, project] of data.projects.entries()) {
+    try {
+      const record: Record<string, unknown> = {
+        user: userId,
+        title: project.title,
+        status: project.status,
+        kit_category: project.kit_category || 'full',
+        company: (project.company && companyIds.get(project.company)) || '',
+        artist: (project.artist && artistIds.get(project.artist)) || '',
+        order: (project.order && orderIds.get(project.order)) || '',
+        drill_shape: project.drillShape || '',
+        drill_type: parseDrillType(project.drillType) || '',
+        canvas_type: parseCanvasType(project.canvasType) || '',
+        width: project.width ?? null,
+        height: project.height ?? null,
+        total_diamonds: project.totalDiamonds ?? null,
+        price: project.price ?? null,
+        shipping_cost: project.shippingCost ?? null,
+        discount: project.discount ?? null,
+        currency: project.currency || '',
+        order_reference: project.orderReference || '',
+        date_purchased: project.datePurchased || '',
+        date_received: project.dateReceived || '',
+        date_started: project.dateStarted || '',
+        date_completed: project.dateCompleted || '',
+        general_notes: project.generalNotes || '',
+        source_url: project.sourceUrl || '',
+      };
+
+      const image = toFile(project.image);
+      if (image) {
+        record.image = image;
+      }
+
+      const created = await pb.collection('projects').create(record);
+      projectIds.set(project.id, created.id);
+      summary.created.projects++;
+    } catch (error) {
+      recordError(`project "${project.title}"`, error);
+    }
+    onProgress?.({ phase: 'projects', completed: index + 1, total: data.projects.length });
+  }
+
+  // Project tags
+  for (const [index, projectTag] of data.projectTags.entries()) {
+    const project = projectIds.get(projectTag.project);
+    const tag = tagIds.get(projectTag.tag);
+    if (project && tag) {
+      try {
+        await pb.collection('project_tags').create({ project, tag });
+        summary.created.projectTags++;
+      } catch (error) {
+        recordError('project tag link', error);
+      }
+    }
+    onProgress?.({ phase: 'projectTags', completed: index + 1, total: data.projectTags.length });
+  }
+
+  // Progress notes
+  for (const [index, note] of data.progressNotes.entries()) {
+    const project = projectIds.get(note.project);
+    if (project) {
+      try {
+        const record: Record<string, unknown> = {
+          project,
+          content: note.content,
+          date: note.date,
+          ...(note.drillsPlaced !== undefined && { drills_placed: note.drillsPlaced }),
+          ...(note.percentComplete !== undefined && { percent_complete: note.percentComplete }),
+        };
+        const image = toFile(note.image);
+        if (image) {
+          record.image = image;
+        }
+        await pb.collection('progress_notes').create(record);
+        summary.created.progressNotes++;
+      } catch (error) {
+        recordError(`progress note from ${note.date}`, error);
+      }
+    }
+    onProgress?.({
+      phase: 'progressNotes',
+      completed: index + 1,
+      total: data.progressNotes.length,
+    });
+  }
+
+  // Work sessions
+  for (const [index, session] of data.workSessions.entries()) {
+    const project = projectIds.get(session.project);
+    if (project) {
+      try {
+        await pb.collection('work_sessions').create({
+          user: userId,
+          project,
+          started_at: session.started_at,
+          ended_at: session.ended_at,
+          duration_seconds: session.duration_seconds ?? 0,
+          drills_placed: session.drills_placed ?? null,
+        });
+        summary.created.workSessions++;
+      } catch (error) {
+        recordError(`work session from ${session.started_at}`, error);
+      }
+    }
+    onProgress?.({
+      phase: 'workSessions',
+      completed: index + 1,
+      total: data.workSessions.length,
+    });
+  }
+
+  // Drill legends - legend rows keep `added_to_inventory`, so their bags are not collected twice
+  for (const [index, drill] of data.projectDrills.entries()) {
+    const project = projectIds.get(drill.project);
+    if (project) {
+      try {
+        await pb.collection('project_drills').create({
+          user: userId,
+          project,
+          dmc_code: drill.dmc_code,
+          symbol: drill.symbol || '',
+          required_count: drill.required_count ?? 0,
+          bags_received: drill.bags_received ?? 0,
+          added_to_inventory: drill.added_to_inventory,
+        });
+        summary.created.projectDrills++;
+      } catch (error) {
+        recordError(`drill legend colour ${drill.dmc_code}`, error);
+      }
+    }
+    onProgress?.({
+      phase: 'projectDrills',
+      completed: index + 1,
+      total: data.projectDrills.length,
+    });
+  }
+
+  // Leftover drills
+  for (const [index, drill] of data.leftoverDrills.entries()) {
+    try {
+      await addLeftoverDrill(userId, drill.dmc_code, drill.bags);
+      summary.created.leftoverDrills++;
+    } catch (error) {
+      recordError(`leftover drills ${drill.dmc_code}`, error);
+    }
+    onProgress?.({
+      phase: 'leftoverDrills',
+      completed: index + 1,
+      total: data.leftoverDrills.length,
+    });
+  }
+
+  // Claims
+  for (const [index, claim] of data.claims.entries()) {
+    const project = projectIds.get(claim.project);
+    if (project) {
+      try {
+        await pb.collection('claims').create({
+          user: userId,
+          project,
+          issue_type: claim.issue_type,
+          colours: claim.colours,
+          description: claim.description || '',
+          date_reported: claim.date_reported,
+          status: claim.status,
+          date_closed: claim.date_closed || '',
+        });
+        summary.created.claims++;
+      } catch (error) {
+        recordError(`claim from ${claim.date_reported}`, error);
+      }
+    }
+    onProgress?.({ phase: 'claims', completed: index + 1, total: data.claims.length });
+  }
+
+  // Randomizer spins - kept even when the winning project was not restored, like deleted projects
+  for (const [index, spin] of data.randomizerSpins.entries()) {
+    try {
+      const selectedProjects = remapIds(spin.selected_projects, projectIds);
+      await pb.collection('randomizer_spins').create({
+        user: userId,
+        project: (spin.project && projectIds.get(spin.project)) || '',
+        project_title: spin.project_title,
+        project_company: spin.project_company || '',
+        project_artist: spin.project_artist || '',
+        selected_projects: selectedProjects,
+        selected_count: spin.selected_count ?? selectedProjects.length,
+        metadata: spin.metadata ?? null,
+        spun_at: spin.spun_at,
+      });
+      summary.created.randomizerSpins++;
+    } catch (error) {
+      recordError(`randomizer spin "${spin.project_title}"`, error);
+    }
+    onProgress?.({
+      phase: 'randomizerSpins',
+      completed: index + 1,
+      total: data.randomizerSpins.length,
+    });
+  }
+
+  // Settings
+  if (backup.settings?.claim_reminder_days !== undefined) {
+    try {
+      await saveClaimReminderDays(userId, backup.settings.claim_reminder_days);
+    } catch (error) {
+      recordError('claim reminder setting', error);
+    }
+  }
+
+  onProgress?.({ phase: 'done', completed: 1, total: 1 });
+
+  logger.info('Account backup restored', {
+    created: summary.created,
+    reused: summary.reused,
+    imagesRestored: summary.imagesRestored,
+    errorCount: summary.errors.length,
+  });
+
+  return summary;
+}
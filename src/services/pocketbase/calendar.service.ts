@@ -0,0 +1,70 @@
+/**
+ * Calendar service
+ *
+ * Loads the dates shown on the calendar: purchase, receipt, start and completion dates
+ * from the user's projects, and the dates of their progress notes.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { pb } from '@/lib/pocketbase';
+import { createLogger } from '@/utils/logger';
+import { buildCalendarEvents } from '@/utils/calendar';
+import {
+  Collections,
+  type ProgressNotesResponse,
+  type ProjectsResponse,
+} from '@/types/pocketbase.types';
+import type { CalendarEvent } from '@/types/calendar';
+
+const logger = createLogger('CalendarService');
+
+const CALENDAR_PROJECT_FIELDS = 'id,title,date_purchased,date_received,date_started,date_completed';
+const CALENDAR_NOTE_FIELDS = 'id,project,date,content,percent_complete';
+
+type CalendarProjectRecord = Pick<
+  ProjectsResponse,
+  'id' | 'title' | 'date_purchased' | 'date_received' | 'date_started' | 'date_completed'
+>;
+
+type CalendarNoteRecord = Pick<
+  ProgressNotesResponse,
+  'id' | 'project' | 'date' | 'content' | 'percent_complete'
+>;
+
+/**
+ * Get every dated event across the user's projects, sorted by date
+ */
+export async function getCalendarEvents(userId: string): Promise<CalendarEvent[]> {
+  const [projects, notes] = await Promise.all([
+    pb.collection(Collections.Projects).getFullList<CalendarProjectRecord>({
+      filter: pb.filter('user = {:userId}', { userId }),
+      fields: CALENDAR_PROJECT_FIELDS,
+    }),
+    pb.collection(Collections.ProgressNotes).getFullList<CalendarNoteRecord>({
+      filter: pb.filter('project.user = {:userId}', { userId }),
+      fields: CALENDAR_NOTE_FIELDS,
+    }),
+  ]);
+
+  logger.debug('Fetched calendar data', { projects: projects.length, notes: notes.length });
+
+  return buildCalendarEvents(
+    projects.map(record => ({
+      id: record.id,
+      title: record.title,
+      datePurchased: record.date_purchased || undefined,
+      dateReceived: record.date_received || undefined,
+      dateStarted: record.date_started || undefined,
+      dateCompleted: record.date_completed || undefined,
+    })),
+    notes.map(record => ({
+      id: record.id,
+      projectId: record.project,
+      date: record.date,
+      content: record.content || undefined,
+      percentComplete: record.percent_complete || undefined,
+    }))
+  );
+}
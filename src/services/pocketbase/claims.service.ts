@@ -0,0 +1,158 @@
+/**
+ * Claims service
+ *
+ * Claims for missing drills, damaged canvases and other kit problems, in the user-owned
+ * `claims` collection. A claim belongs to a project and is filed with the project's
+ * company, so company listings go through the `project.company` relation.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { pb } from '@/lib/pocketbase';
+import { createLogger } from '@/utils/logger';
+import { toDateOnly } from '@/utils/orders';
+import { getClaimDateClosed } from '@/utils/claims';
+import {
+  Collections,
+  type ClaimsResponse,
+  type CompaniesResponse,
+  type ProjectsResponse,
+} from '@/types/pocketbase.types';
+import type { Claim, ClaimFormData, ClaimIssueType, ClaimStatus } from '@/types/claim';
+
+const logger = createLogger('ClaimsService');
+
+type ClaimRecord = Omit<ClaimsResponse<string[]>, 'expand'> & {
+  expand?: {
+    project?: Pick<ProjectsResponse, 'id' | 'title' | 'company'> & {
+      expand?: { company?: Pick<CompaniesResponse, 'id' | 'name'> };
+    };
+  };
+};
+
+const CLAIM_EXPAND = 'project,project.company';
+
+const transformClaim = (record: ClaimRecord): Claim => {
+  const project = record.expand?.project;
+  return {
+    id: record.id,
+    projectId: record.project,
+    projectTitle: project?.title || undefined,
+    companyId: project?.company || undefined,
+    companyName: project?.expand?.company?.name || undefined,
+    issueType: record.issue_type as ClaimIssueType,
+    colours: Array.isArray(record.colours) ? record.colours : [],
+    description: record.description || undefined,
+    dateReported: toDateOnly(record.date_reported) ?? '',
+    status: record.status as ClaimStatus,
+    dateClosed: toDateOnly(record.date_closed),
+    createdAt: record.created,
+    updatedAt: record.updated,
+  };
+};
+
+async function getClaims(filter: string): Promise<Claim[]> {
+  const records = await pb.collection(Collections.Claims).getFullList<ClaimRecord>({
+    filter,
+    sort: '-date_reported,-created',
+    expand: CLAIM_EXPAND,
+  });
+  return records.map(transformClaim);
+}
+
+/**
+ * Get the claims filed for a project, newest first
+ */
+export async function getProjectClaims(projectId: string): Promise<Claim[]> {
+  return getClaims(pb.filter('project = {:projectId}', { projectId }));
+}
+
+/**
+ * Get the claims filed with a company across all of the user's projects
+ */
+export async function getCompanyClaims(userId: string, companyId: string): Promise<Claim[]> {
+  return getClaims(
+    pb.filter('user = {:userId} && project.company = {:companyId}', { userId, companyId })
+  );
+}
+
+/**
+ * Get the user's claims that are still open or waiting on a replacement
+ */
+export async function getUnresolvedClaims(userId: string): Promise<Claim[]> {
+  return getClaims(
+    pb.filter('user = {:userId} && (status = "open" || status = "replacement_shipped")', {
+      userId,
+    })
+  );
+}
+
+/**
+ * File a claim for a project
+ * @param today - YYYY-MM-DD in the user's timezone, used as the close date for a claim
+ * logged as already resolved or refused
+ */
+export async function createClaim(
+  userId: string,
+  projectId: string,
+  data: ClaimFormData,
+  today: string
+): Promise<void> {
+  const record = await pb.collection(Collections.Claims).create<ClaimsResponse>({
+    user: userId,
+    project: projectId,
+    issue_type: data.issueType,
+    colours: data.colours,
+    description: data.description.trim(),
+    date_reported: data.dateReported,
+    status: data.status,
+    date_closed: getClaimDateClosed(data.status, undefined, today),
+  });
+
+  logger.info('Created claim', { id: record.id, projectId, issueType: data.issueType });
+}
+
+/**
+ * Save claim details, setting or clearing its close date when the status changes
+ */
+export async function updateClaim(claim: Claim, data: ClaimFormData, today: string): Promise<void> {
+  await pb.collection(Collections.Claims).update(claim.id, {
+    issue_type: data.issueType,
+    colours: data.colours,
+    description: data.description.trim(),
+    date_reported: data.dateReported,
+    status: data.status,
+    date_closed: getClaimDateClosed(data.status, claim.dateClosed, today),
+  });
+
+  logger.info('Updated claim', { id: claim.id, status: data.status });
+}
+
+/**
+ * Move a claim to another status
+ */
+export async function updateClaimStatus(
+  claim: Claim,
+  status: ClaimStatus,
+  today: string
+): Promise<void> {
+  await pb.collection(Collections.Claims).update(claim.id, {
+    status,
+    date_closed: getClaimDateClosed(status, claim.dateClosed, today),
+  });
+
+  logger.info('Changed claim status', { id: claim.id, status });
+}
+
+export async function deleteClaim(claim: Claim): Promise<void> {
+  await pb.collection(Collections.Claims).delete(claim.id);
+  logger.info('Deleted claim', { id: claim.id });
+}
+
+/**
+ * Save how many days a claim can stay unresolved before it's flagged for a follow-up
+ */
+export async function saveClaimReminderDays(userId: string, days: number): Promise<void> {
+  await pb.collection(Collections.Users).update(userId, { claim_reminder_days: days });
+}
@@ -0,0 +1,80 @@
+/**
+ * Companies service
+ *
+ * Loads everything the company scorecard page needs in one go: the company record,
+ * its projects and its orders. Creating, renaming and deleting companies stays with
+ * the shared entity CRUD hooks.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { pb } from '@/lib/pocketbase';
+import { createLogger } from '@/utils/logger';
+import { getUserOrders } from './orders.service';
+import {
+  Collections,
+  type CompaniesResponse,
+  type ProjectsResponse,
+} from '@/types/pocketbase.types';
+import type { CompanyDetail, CompanyScorecardProject } from '@/types/company';
+import type { ProjectStatus } from '@/types/project';
+
+const logger = createLogger('CompaniesService');
+
+const SCORECARD_PROJECT_FIELDS =
+  'id,title,status,date_purchased,date_received,width,height,total_diamonds';
+
+type ScorecardProjectRecord = Pick<
+  ProjectsResponse,
+  | 'id'
+  | 'title'
+  | 'status'
+  | 'date_purchased'
+  | 'date_received'
+  | 'width'
+  | 'height'
+  | 'total_diamonds'
+>;
+
+const transformScorecardProject = (record: ScorecardProjectRecord): CompanyScorecardProject => ({
+  id: record.id,
+  title: record.title,
+  status: record.status as ProjectStatus,
+  datePurchased: record.date_purchased || undefined,
+  dateReceived: record.date_received || undefined,
+  width: record.width || undefined,
+  height: record.height || undefined,
+  totalDiamonds: record.total_diamonds || undefined,
+});
+
+/**
+ * Get a company with its projects and orders for the scorecard page
+ */
+export async function getCompanyDetail(userId: string, companyId: string): Promise<CompanyDetail> {
+  const [company, projects, orders] = await Promise.all([
+    pb.collection(Collections.Companies).getOne<CompaniesResponse>(companyId),
+    pb.collection(Collections.Projects).getFullList<ScorecardProjectRecord>({
+      filter: pb.filter('user = {:userId} && company = {:companyId}', { userId, companyId }),
+      sort: 'title',
+      fields: SCORECARD_PROJECT_FIELDS,
+    }),
+    getUserOrders(userId, companyId),
+  ]);
+
+  logger.debug('Fetched company detail', {
+    companyId,
+    projects: projects.length,
+    orders: orders.length,
+  });
+
+  return {
+    id: company.id,
+    name: company.name,
+    websiteUrl: company.website_url || undefined,
+    qualityRating: company.quality_rating || undefined,
+    qualityNotes: company.quality_notes || undefined,
+    projects: projects.map(transformScorecardProject),
+    orders,
+  };
+}
@@ -0,0 +1,324 @@
+/**
+ * Drills service
+ *
+ * Project colour legends in `project_drills` and the user's leftover drills in
+ * `leftover_drills`. When a project is completed, the bags received for each colour on
+ * its legend are added to the leftovers once; each legend row is flagged when counted,
+ * in the same batch request as the leftover change it made.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { pb } from '@/lib/pocketbase';
+import { createLogger } from '@/utils/logger';
+import { BATCH_REQUEST_LIMIT, chunkForBatch, packForBatch } from '@/utils/batchRequests';
+import { compareDmcCodes, getLeftoverChanges, getLegendImportChanges } from '@/utils/drills';
+import {
+  Collections,
+  type LeftoverDrillsResponse,
+  type ProjectDrillsResponse,
+  type ProjectsResponse,
+} from '@/types/pocketbase.types';
+import type {
+  DrillColourUsage,
+  LeftoverDrill,
+  ProjectDrill,
+  ProjectDrillFormData,
+} from '@/types/drill';
+import type { ProjectStatus } from '@/types/project';
+
+const logger = createLogger('DrillsService');
+
+type DrillUsageRecord = Omit<ProjectDrillsResponse, 'expand'> & {
+  expand?: { project?: Pick<ProjectsResponse, 'id' | 'title' | 'status'> };
+};
+
+type BatchWrite =
+  | { collection: Collections; action: 'create'; data: Record<string, unknown> }
+  | { collection: Collections; action: 'update'; id: string; data: Record<string, unknown> };
+
+const transformProjectDrill = (record: ProjectDrillsResponse): ProjectDrill => ({
+  id: record.id,
+  projectId: record.project,
+  dmcCode: record.dmc_code,
+  symbol: record.symbol || undefined,
+  requiredCount: record.required_count || 0,
+  bagsReceived: record.bags_received || 0,
+  addedToInventory: !!record.added_to_inventory,
+});
+
+const transformLeftoverDrill = (record: LeftoverDrillsResponse): LeftoverDrill => ({
+  id: record.id,
+  dmcCode: record.dmc_code,
+  bags: record.bags || 0,
+  updatedAt: record.updated,
+});
+
+const toProjectDrillRecordData = (data: ProjectDrillFormData) => ({
+  dmc_code: data.dmcCode,
+  symbol: data.symbol.trim(),
+  required_count: data.requiredCount,
+  ...(data.bagsReceived !== undefined && { bags_received: data.bagsReceived }),
+});
+
+const LEFTOVER_COLLECTION_LOCK = 'organized-glitter-leftover-drills';
+
+async function sendBatch(writes: BatchWrite[]): Promise<void> {
+  const batch = pb.createBatch();
+  writes.forEach(write => {
+    if (write.action === 'create') {
+      batch.collection(write.collection).create(write.data);
+    } else {
+      batch.collection(write.collection).update(write.id, write.data);
+    }
+  });
+  await batch.send();
+}
+
+/**
+ * Send creates and updates in as few batch requests as PocketBase allows
+ */
+async function sendBatchWrites(writes: BatchWrite[]): Promise<void> {
+  for (const writeChunk of chunkForBatch(writes)) {
+    await sendBatch(writeChunk);
+  }
+}
+
+/**
+ * Send groups of writes that must succeed or fail together, never splitting a group
+ * across batch requests
+ */
+async function sendBatchGroups(groups: BatchWrite[][]): Promise<void> {
+  for (const writeChunk of packForBatch(groups)) {
+    await sendBatch(writeChunk);
+  }
+}
+
+/**
+ * Get a project's legend, in DMC order
+ */
+export async function getProjectDrills(projectId: string): Promise<ProjectDrill[]> {
+  const records = await pb.collection(Collections.ProjectDrills).getFullList({
+    filter: pb.filter('project = {:projectId}', { projectId }),
+  });
+
+  return records.map(transformProjectDrill).sort((a, b) => compareDmcCodes(a.dmcCode, b.dmcCode));
+}
+
+/**
+ * Add a colour to a project's legend
+ */
+export async function createProjectDrill(
+  userId: string,
+  projectId: string,
+  data: ProjectDrillFormData
+): Promise<void> {
+  await pb.collection(Collections.ProjectDrills).create({
+    user: userId,
+    project: projectId,
+    ...toProjectDrillRecordData(data),
+  });
+}
+
+export async function updateProjectDrill(id: string, data: ProjectDrillFormData): Promise<void> {
+  await pb.collection(Collections.ProjectDrills).update(id, toProjectDrillRecordData(data));
+}
+
+export async function deleteProjectDrill(id: string): Promise<void> {
+  await pb.collection(Collections.ProjectDrills).delete(id);
+}
+
+/**
+ * Import legend rows into a project, overwriting colours it already has
+ * @returns Number of colours added and updated
+ */
+export async function importProjectDrillLegend(
+  userId: string,
+  projectId: string,
+  existing: ProjectDrill[],
+  rows: ProjectDrillFormData[]
+): Promise<{ created: number; updated: number }> {
+  const { create, update } = getLegendImportChanges(existing, rows);
+
+  await sendBatchWrites([
+    ...create.map(
+      (data): BatchWrite => ({
+        collection: Collections.ProjectDrills,
+        action: 'create',
+        data: { user: userId, project: projectId, ...toProjectDrillRecordData(data) },
+      })
+    ),
+    ...update.map(
+      ({ id, data }): BatchWrite => ({
+        collection: Collections.ProjectDrills,
+        action: 'update',
+        id,
+        data: toProjectDrillRecordData(data),
+      })
+    ),
+  ]);
+
+  logger.info('Imported drill legend', {
+    projectId,
+    created: create.length,
+    updated: update.length,
+  });
+  return { created: create.length, updated: update.length };
+}
+
+/**
+ * Get the user's leftover drills, in DMC order
+ */
+export async function getLeftoverDrills(userId: string): Promise<LeftoverDrill[]> {
+  const records = await pb.collection(Collections.LeftoverDrills).getFullList({
+    filter: pb.filter('user = {:userId}', { userId }),
+  });
+
+  return records.map(transformLeftoverDrill).sort((a, b) => compareDmcCodes(a.dmcCode, b.dmcCode));
+}
+
+/**
+ * Add the bags received for every completed project's colours that haven't been counted
+ * yet to the leftover drills. Called after a project is completed or a completed
+ * project's legend changes; rows left uncounted by a failed run are picked up by the next.
+ * @returns Number of legend rows counted
+ */
+async function collectLeftoverDrills(userId: string): Promise<number> {
+  // One collection at a time across tabs; a waiting run re-reads what's still uncounted
+  if (!navigator.locks) return collectUncountedDrills(userId);
+  return navigator.locks.request(LEFTOVER_COLLECTION_LOCK, () => collectUncountedDrills(userId));
+}
+
+/**
+ * Collect after a write that completed a project or changed a completed project's legend.
+ * The write is already saved, so a failure is only logged.
+ */
+export async function collectLeftoverDrillsAfterWrite(userId: string): Promise<void> {
+  try {
+    await collectLeftoverDrills(userId);
+  } catch (error) {
+    logger.error('Could not collect leftover drills', error);
+  }
+}
+
+async function collectUncountedDrills(userId: string): Promise<number> {
+  const records = await pb.collection(Collections.ProjectDrills).getFullList({
+    filter: pb.filter(
+      'user = {:userId} && added_to_inventory = false && project.status = "completed"',
+      { userId }
+    ),
+  });
+  if (records.length === 0) return 0;
+
+  // A colour's leftover change and all the rows it counts must fit in one batch; rows past
+  // that are counted by a further run
+  const perCode = new Map<string, number>();
+  const drills = records.map(transformProjectDrill).filter(drill => {
+    if (drill.bagsReceived <= 0) return true;
+    const count = (perCode.get(drill.dmcCode) ?? 0) + 1;
+    perCode.set(drill.dmcCode, count);
+    return count < BATCH_REQUEST_LIMIT;
+  });
+  const deferred = records.length - drills.length;
+  const inventory = await getLeftoverDrills(userId);
+  const { create, update } = getLeftoverChanges(inventory, drills);
+
+  const flagWrite = (drill: ProjectDrill): BatchWrite => ({
+    collection: Collections.ProjectDrills,
+    action: 'update',
+    id: drill.id,
+    data: { added_to_inventory: true },
+  });
+  const flagsFor = (dmcCode: string) =>
+    drills.filter(drill => drill.dmcCode === dmcCode && drill.bagsReceived > 0).map(flagWrite);
+  const codeById = new Map(inventory.map(entry => [entry.id, entry.dmcCode]));
+
+  // Each colour's leftover change goes in the same batch as the rows it counts, so a
+  // failed batch leaves both uncounted
+  await sendBatchGroups([
+    ...create.map(({ dmcCode, bags }): BatchWrite[] => [
+      {
+        collection: Collections.LeftoverDrills,
+        action: 'create',
+        data: { user: userId, dmc_code: dmcCode, bags },
+      },
+      ...flagsFor(dmcCode),
+    ]),
+    ...update.map(({ id, bags }): BatchWrite[] => [
+      { collection: Collections.LeftoverDrills, action: 'update', id, data: { bags } },
+      ...flagsFor(codeById.get(id) ?? ''),
+    ]),
+    ...drills.filter(drill => drill.bagsReceived <= 0).map(drill => [flagWrite(drill)]),
+  ]);
+
+  logger.info('Collected leftover drills from completed projects', {
+    rows: drills.length,
+    colours: create.length + update.length,
+    deferred,
+  });
+  return drills.length + (deferred > 0 ? await collectUncountedDrills(userId) : 0);
+}
+
+/**
+ * Add bags of a colour to the leftovers, creating the entry if it's new
+ */
+export async function addLeftoverDrill(
+  userId: string,
+  dmcCode: string,
+  bags: number
+): Promise<void> {
+  const {
+    items: [existing],
+  } = await pb.collection(Collections.LeftoverDrills).getList(1, 1, {
+    filter: pb.filter('user = {:userId} && dmc_code = {:dmcCode}', { userId, dmcCode }),
+  });
+
+  if (existing) {
+    await pb
+      .collection(Collections.LeftoverDrills)
+      .update(existing.id, { bags: (existing.bags || 0) + bags });
+  } else {
+    await pb
+      .collection(Collections.LeftoverDrills)
+      .create({ user: userId, dmc_code: dmcCode, bags });
+  }
+}
+
+export async function updateLeftoverDrill(id: string, bags: number): Promise<void> {
+  await pb.collection(Collections.LeftoverDrills).update(id, { bags });
+}
+
+export async function deleteLeftoverDrill(id: string): Promise<void> {
+  await pb.collection(Collections.LeftoverDrills).delete(id);
+}
+
+/**
+ * Find the user's projects whose legend uses a colour
+ */
+export async function getDrillColourUsage(
+  userId: string,
+  dmcCode: string
+): Promise<DrillColourUsage[]> {
+  const records = await pb.collection(Collections.ProjectDrills).getFullList<DrillUsageRecord>({
+    filter: pb.filter('user = {:userId} && dmc_code = {:dmcCode}', { userId, dmcCode }),
+    expand: 'project',
+    fields:
+      'id,symbol,required_count,bags_received,expand.project.id,expand.project.title,expand.project.status',
+  });
+
+  return records.flatMap(record => {
+    const project = record.expand?.project;
+    if (!project) return [];
+    return [
+      {
+        projectId: project.id,
+        projectTitle: project.title,
+        status: project.status as ProjectStatus,
+        symbol: record.symbol || undefined,
+        requiredCount: record.required_count || 0,
+        bagsReceived: record.bags_received || 0,
+      },
+    ];
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * Gallery service
+ *
+ * Loads the completed-projects gallery: every completed project with its artist and tags,
+ * plus the latest progress note image for each one.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { pb } from '@/lib/pocketbase';
+import { createLogger } from '@/utils/logger';
+import {
+  Collections,
+  type ArtistsResponse,
+  type ProgressNotesResponse,
+  type ProjectsResponse,
+  type TagsResponse,
+} from '@/types/pocketbase.types';
+import type { GalleryImage, GalleryProject } from '@/types/gallery';
+
+const logger = createLogger('GalleryService');
+
+// collectionId and collectionName are needed to build file URLs
+const GALLERY_PROJECT_FIELDS =
+  'id,title,image,date_completed,artist,collectionId,collectionName,expand.artist.name,' +
+  'expand.project_tags_via_project.expand.tag.id,expand.project_tags_via_project.expand.tag.name';
+const GALLERY_NOTE_FIELDS = 'id,project,date,image,collectionId,collectionName';
+
+type GalleryProjectRecord = Pick<
+  ProjectsResponse,
+  'id' | 'title' | 'image' | 'date_completed' | 'artist' | 'collectionId' | 'collectionName'
+> & {
+  expand?: {
+    artist?: Pick<ArtistsResponse, 'name'>;
+    project_tags_via_project?: Array<{
+      expand?: { tag?: Pick<TagsResponse, 'id' | 'name'> };
+    }>;
+  };
+};
+
+type GalleryNoteRecord = Pick<
+  ProgressNotesResponse,
+  'id' | 'project' | 'date' | 'image' | 'collectionId' | 'collectionName'
+>;
+
+const toProgressImage = (note: GalleryNoteRecord, projectTitle: string): GalleryImage => ({
+  id: note.id,
+  kind: 'progress',
+  record: { id: note.id, collectionId: note.collectionId, collectionName: note.collectionName },
+  filename: note.image,
+  projectId: note.project,
+  projectTitle,
+  date: note.date ? note.date.slice(0, 10) : undefined,
+});
+
+const transformGalleryProject = (
+  record: GalleryProjectRecord,
+  latestNote?: GalleryNoteRecord
+): GalleryProject => {
+  const images: GalleryImage[] = [];
+  if (record.image) {
+    images.push({
+      id: `${record.id}-image`,
+      kind: 'project',
+      record: {
+        id: record.id,
+        collectionId: record.collectionId,
+        collectionName: record.collectionName,
+      },
+      filename: record.image,
+      projectId: record.id,
+      projectTitle: record.title,
+    });
+  }
+  if (latestNote) {
+    images.push(toProgressImage(latestNote, record.title));
+  }
+
+  const tags = (record.expand?.project_tags_via_project ?? [])
+    .map(projectTag => projectTag.expand?.tag)
+    .filter((tag): tag is Pick<TagsResponse, 'id' | 'name'> => !!tag)
+    .map(tag => ({ id: tag.id, name: tag.name }));
+
+  return {
+    id: record.id,
+    title: record.title,
+    dateCompleted: record.date_completed ? record.date_completed.slice(0, 10) : undefined,
+    artistId: record.artist || undefined,
+    artistName: record.expand?.artist?.name || undefined,
+    tags,
+    images,
+  };
+};
+
+/**
+ * Get the user's completed projects that have at least one image, most recently
+ * completed first
+ */
+export async function getCompletedGallery(userId: string): Promise<GalleryProject[]> {
+  const [projects, notes] = await Promise.all([
+    pb.collection(Collections.Projects).getFullList<GalleryProjectRecord>({
+      filter: pb.filter('user = {:userId} && status = "completed"', { userId }),
+      sort: '-date_completed,-updated',
+      expand: 'artist,project_tags_via_project.tag',
+      fields: GALLERY_PROJECT_FIELDS,
+    }),
+    pb.collection(Collections.ProgressNotes).getFullList<GalleryNoteRecord>({
+      filter: pb.filter('project.user = {:userId} && project.status = "completed" && image != ""', {
+        userId,
+      }),
+      sort: '-date,-created',
+      fields: GALLERY_NOTE_FIELDS,
+    }),
+  ]);
+
+  // Notes are sorted newest first, so the first one seen per project is its latest
+  const latestNotes = new Map<string, GalleryNoteRecord>();
+  for (const note of notes) {
+    if (!latestNotes.has(note.project)) {
+      latestNotes.set(note.project, note);
+    }
+  }
+
+  logger.debug('Fetched completed gallery', { projects: projects.length, notes: notes.length });
+
+  return projects
+    .map(record => transformGalleryProject(record, latestNotes.get(record.id)))
+    .filter(project => project.images.length > 0);
+}
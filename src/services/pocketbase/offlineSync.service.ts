@@ -0,0 +1,141 @@
+/**
+ * Offline sync service
+ *
+ * Replays the offline write queue in the order the writes were made. Before a queued
+ * project edit or status change is sent, the project's `updated` timestamp is compared
+ * with the one the user saw; if it differs the write is held as a conflict for the user
+ * to keep or discard. A conflicting or rejected write holds back the later writes to the
+ * same project, and a lost connection stops the run with the rest still queued.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { ClientResponseError } from 'pocketbase';
+import { pb } from '@/lib/pocketbase';
+import { getQueuedWrites, removeQueuedWrite, saveQueuedWrite } from '@/lib/offlineQueue';
+import { createLogger } from '@/utils/logger';
+import {
+  getBlockedProjectIds,
+  hasServerConflict,
+  isNetworkError,
+  rebaseQueuedWrites,
+} from '@/utils/offlineQueue';
+import {
+  createProgressNoteRecord,
+  updateProjectRecord,
+  updateProjectStatusRecord,
+} from './projectWrites.service';
+import { Collections } from '@/types/pocketbase.types';
+import type { OfflineSyncResult, QueuedWrite } from '@/types/offlineQueue';
+
+const logger = createLogger('OfflineSyncService');
+
+type ReplayOutcome =
+  | { type: 'synced'; updated?: string }
+  | { type: 'conflict'; serverUpdated: string };
+
+async function replayQueuedWrite(write: QueuedWrite): Promise<ReplayOutcome> {
+  const { payload, projectId } = write;
+
+  if (payload.kind === 'progress-note') {
+    await createProgressNoteRecord(projectId, payload.data, payload.imageFile);
+    return { type: 'synced' };
+  }
+
+  const current = await pb.collection(Collections.Projects).getOne(projectId, {
+    fields: 'id,updated',
+  });
+  if (hasServerConflict(write, current.updated)) {
+    return { type: 'conflict', serverUpdated: current.updated };
+  }
+
+  const record =
+    payload.kind === 'project-status'
+      ? await updateProjectStatusRecord(
+          projectId,
+          payload.newStatus,
+          payload.currentStatus,
+          payload.today
+        )
+      : await updateProjectRecord(
+          projectId,
+          payload.data,
+          payload.imageFile,
+          payload.resolveRelations ? write.userId : undefined
+        );
+
+  return { type: 'synced', updated: record.updated };
+}
+
+const getErrorMessage = (error: unknown): string => {
+  if (error instanceof ClientResponseError && error.status === 404) {
+    return 'The project no longer exists.';
+  }
+  return error instanceof Error && error.message
+    ? error.message
+    : 'The server rejected this change.';
+};
+
+/**
+ * Replay the user's pending queued writes in order
+ */
+export async function replayOfflineQueue(userId: string): Promise<OfflineSyncResult> {
+  const writes = await getQueuedWrites(userId);
+  const blocked = getBlockedProjectIds(writes);
+  const result: OfflineSyncResult = { synced: 0, conflicts: 0, failed: 0, interrupted: false };
+
+  for (let index = 0; index < writes.length; index++) {
+    const write = writes[index];
+    if (write.status !== 'pending' || blocked.has(write.projectId)) continue;
+
+    try {
+      const outcome = await replayQueuedWrite(write);
+
+      if (outcome.type === 'conflict') {
+        logger.warn('Queued write conflicts with a server change', {
+          sequence: write.sequence,
+          projectId: write.projectId,
+        });
+        await saveQueuedWrite({
+          ...write,
+          status: 'conflict',
+          serverUpdated: outcome.serverUpdated,
+        });
+        blocked.add(write.projectId);
+        result.conflicts++;
+        continue;
+      }
+
+      await removeQueuedWrite(write.sequence);
+      result.synced++;
+
+      if (write.baseUpdated && outcome.updated) {
+        const later = writes.slice(index + 1);
+        for (const rebased of rebaseQueuedWrites(
+          later,
+          write.projectId,
+          write.baseUpdated,
+          outcome.updated
+        )) {
+          await saveQueuedWrite(rebased);
+          writes[writes.findIndex(entry => entry.sequence === rebased.sequence)] = rebased;
+        }
+      }
+    } catch (error) {
+      if (isNetworkError(error)) {
+        logger.warn('Connection lost while syncing, stopping', { sequence: write.sequence });
+        result.interrupted = true;
+        break;
+      }
+
+      logger.error('Queued write was rejected', { sequence: write.sequence, error });
+      await saveQueuedWrite({ ...write, status: 'failed', error: getErrorMessage(error) });
+      blocked.add(write.projectId);
+      result.failed++;
+    }
+  }
+
+  logger.info('Offline queue replayed', result);
+  return result;
+}
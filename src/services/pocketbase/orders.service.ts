@@ -0,0 +1,196 @@
+/**
+ * Orders service
+ *
+ * Create, edit, delete and receive orders in the user-owned `orders` collection.
+ * Projects belong to an order through their own `order` relation, so linking and
+ * receiving kits updates the project records in PocketBase batch requests.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { pb } from '@/lib/pocketbase';
+import { createLogger } from '@/utils/logger';
+import { chunkForBatch } from '@/utils/batchRequests';
+import { getOrderLinkChanges, getProjectsToReceive, toDateOnly } from '@/utils/orders';
+import {
+  Collections,
+  type CompaniesResponse,
+  type OrdersResponse,
+  type ProjectsResponse,
+} from '@/types/pocketbase.types';
+import type { Order, OrderFormData, OrderProject } from '@/types/order';
+import type { ProjectStatus } from '@/types/project';
+
+const logger = createLogger('OrdersService');
+
+const ORDER_PROJECT_FIELDS = 'id,title,status,order';
+
+// Required so the generated ExpandType keeps the shape; PocketBase omits it without a company
+type OrderRecord = OrdersResponse<{ company: CompaniesResponse }>;
+
+type OrderProjectRecord = Pick<ProjectsResponse, 'id' | 'title' | 'status' | 'order'>;
+
+const transformOrderProject = (record: OrderProjectRecord): OrderProject => ({
+  id: record.id,
+  title: record.title,
+  status: record.status as ProjectStatus,
+  orderId: record.order || undefined,
+});
+
+const transformOrder = (record: OrderRecord, projects: OrderProject[]): Order => ({
+  id: record.id,
+  userId: record.user,
+  companyId: record.company || undefined,
+  companyName: record.expand?.company?.name || undefined,
+  orderNumber: record.order_number || undefined,
+  orderDate: toDateOnly(record.order_date),
+  expectedDelivery: toDateOnly(record.expected_delivery),
+  trackingNote: record.tracking_note || undefined,
+  dateReceived: toDateOnly(record.date_received),
+  projects,
+  createdAt: record.created,
+  updatedAt: record.updated,
+});
+
+const toOrderRecordData = (data: OrderFormData) => ({
+  company: data.companyId,
+  order_number: data.orderNumber.trim(),
+  order_date: data.orderDate,
+  expected_delivery: data.expectedDelivery,
+  tracking_note: data.trackingNote.trim(),
+});
+
+/**
+ * Set or clear the order link on projects
+ */
+async function setProjectsOrder(projectIds: string[], orderId: string): Promise<void> {
+  for (const idChunk of chunkForBatch(projectIds)) {
+    const batch = pb.createBatch();
+    idChunk.forEach(id => batch.collection(Collections.Projects).update(id, { order: orderId }));
+    await batch.send();
+  }
+}
+
+/**
+ * Get every order the user has placed, each with its linked projects
+ * @param companyId - Only return orders from this company
+ */
+export async function getUserOrders(userId: string, companyId?: string): Promise<Order[]> {
+  const [records, linkedProjects] = await Promise.all([
+    pb.collection(Collections.Orders).getFullList<OrderRecord>({
+      filter: companyId
+        ? pb.filter('user = {:userId} && company = {:companyId}', { userId, companyId })
+        : pb.filter('user = {:userId}', { userId }),
+      sort: '-order_date,-created',
+      expand: 'company',
+    }),
+    pb.collection(Collections.Projects).getFullList<OrderProjectRecord>({
+      filter: companyId
+        ? pb.filter('user = {:userId} && order.company = {:companyId}', { userId, companyId })
+        : pb.filter('user = {:userId} && order != ""', { userId }),
+      sort: 'title',
+      fields: ORDER_PROJECT_FIELDS,
+    }),
+  ]);
+
+  const projectsByOrder = new Map<string, OrderProject[]>();
+  linkedProjects.forEach(record => {
+    const projects = projectsByOrder.get(record.order) ?? [];
+    projects.push(transformOrderProject(record));
+    projectsByOrder.set(record.order, projects);
+  });
+
+  logger.debug('Fetched orders', { count: records.length, projects: linkedProjects.length });
+  return records.map(record => transformOrder(record, projectsByOrder.get(record.id) ?? []));
+}
+
+/**
+ * Get the projects that can be put on an order: kits that are purchased or in the stash
+ */
+export async function getOrderableProjects(userId: string): Promise<OrderProject[]> {
+  const records = await pb.collection(Collections.Projects).getFullList<OrderProjectRecord>({
+    filter: pb.filter('user = {:userId} && (status = "purchased" || status = "stash")', {
+      userId,
+    }),
+    sort: 'title',
+    fields: ORDER_PROJECT_FIELDS,
+  });
+
+  return records.map(transformOrderProject);
+}
+
+/**
+ * Create an order and link the selected projects to it
+ */
+export async function createOrder(userId: string, data: OrderFormData): Promise<void> {
+  const record = await pb.collection(Collections.Orders).create<OrdersResponse>({
+    user: userId,
+    ...toOrderRecordData(data),
+  });
+  await setProjectsOrder(data.projectIds, record.id);
+
+  logger.info('Created order', { id: record.id, projects: data.projectIds.length });
+}
+
+/**
+ * Save order details and update which projects are linked to it
+ */
+export async function updateOrder(order: Order, data: OrderFormData): Promise<void> {
+  await pb.collection(Collections.Orders).update(order.id, toOrderRecordData(data));
+
+  const { link, unlink } = getOrderLinkChanges(
+    order.projects.map(project => project.id),
+    data.projectIds
+  );
+  await setProjectsOrder(link, order.id);
+  await setProjectsOrder(unlink, '');
+
+  logger.info('Updated order', { id: order.id, linked: link.length, unlinked: unlink.length });
+}
+
+/**
+ * Delete an order, keeping its projects but clearing their order link
+ */
+export async function deleteOrder(order: Order): Promise<void> {
+  await setProjectsOrder(
+    order.projects.map(project => project.id),
+    ''
+  );
+  await pb.collection(Collections.Orders).delete(order.id);
+
+  logger.info('Deleted order', { id: order.id });
+}
+
+/**
+ * Mark an order received: set its receipt date and move every linked purchased project
+ * to the stash with the same date received. The order itself is updated in the last
+ * batch, so it only shows as received once all of its projects have moved.
+ * @param dateReceived - YYYY-MM-DD
+ * @returns Number of projects moved to the stash
+ */
+export async function markOrderReceived(order: Order, dateReceived: string): Promise<number> {
+  const projects = getProjectsToReceive(order);
+  const requests = [
+    ...projects.map(project => ({ collection: Collections.Projects, id: project.id })),
+    { collection: Collections.Orders, id: order.id },
+  ];
+
+  for (const requestChunk of chunkForBatch(requests)) {
+    const batch = pb.createBatch();
+    requestChunk.forEach(({ collection, id }) =>
+      batch
+        .collection(collection)
+        .update(
+          id,
+          collection === Collections.Projects
+            ? { status: 'stash', date_received: dateReceived }
+            : { date_received: dateReceived }
+        )
+    );
+    await batch.send();
+  }
+
+  logger.info('Marked order received', { id: order.id, projects: projects.length });
+  return projects.length;
+}
@@ -0,0 +1,173 @@
+/**
+ * Project and progress-note writes shared by the mutation hooks and the offline sync
+ * service, so a write replayed from the offline queue does exactly what it would have
+ * done online
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { ClientResponseError } from 'pocketbase';
+import { pb } from '@/lib/pocketbase';
+import { createLogger } from '@/utils/logger';
+import { getStatusChangeDates } from '@/utils/projectBoard';
+import { resolveCompanyAndArtistIds } from '@/utils/field-mapping';
+import { collectLeftoverDrillsAfterWrite } from './drills.service';
+import {
+  buildFormDataForUpdate,
+  validateFormDataForUpdate,
+  logFormData,
+} from '@/utils/formdata-builder';
+import {
+  Collections,
+  type ProgressNotesResponse,
+  type ProjectsResponse,
+} from '@/types/pocketbase.types';
+import type { ProjectUpdateData } from '@/types/file-upload';
+import type { QueuedProgressNote } from '@/types/offlineQueue';
+
+const logger = createLogger('ProjectWritesService');
+
+/**
+ * Change a project's status, filling in or clearing its start and completion dates
+ * @param today - YYYY-MM-DD in the user's timezone when the change was made
+ */
+export async function updateProjectStatusRecord(
+  projectId: string,
+  newStatus: string,
+  currentStatus: string | undefined,
+  today: string
+): Promise<ProjectsResponse> {
+  // Starting a project fills in its start date only if it doesn't have one yet
+  const current =
+    newStatus === 'progress'
+      ? await pb
+          .collection(Collections.Projects)
+          .getOne<ProjectsResponse>(projectId, { fields: 'date_started' })
+      : undefined;
+
+  const dates = getStatusChangeDates(
+    { status: currentStatus, dateStarted: current?.date_started || undefined },
+    newStatus,
+    today
+  );
+
+  const updateData: {
+    status: string;
+    date_started?: string;
+    date_completed?: string | null;
+  } = {
+    status: newStatus,
+  };
+  if (dates.dateStarted) {
+    updateData.date_started = dates.dateStarted;
+  }
+  if (dates.dateCompleted !== undefined) {
+    updateData.date_completed = dates.dateCompleted;
+  }
+
+  const record = await pb
+    .collection(Collections.Projects)
+    .update<ProjectsResponse>(projectId, updateData);
+  if (record.status === 'completed') {
+    await collectLeftoverDrillsAfterWrite(record.user);
+  }
+  return record;
+}
+
+/**
+ * Save a project edit, optionally with a new image
+ * @param relationsUserId - When set, company and artist in `data` are names to resolve
+ * to the user's records; either one that can't be resolved is left unchanged
+ */
+export async function updateProjectRecord(
+  projectId: string,
+  data: ProjectUpdateData,
+  imageFile?: File,
+  relationsUserId?: string
+): Promise<ProjectsResponse> {
+  const updateData = { ...data };
+
+  if (relationsUserId && (updateData.company || updateData.artist)) {
+    logger.debug('Resolving company and artist names to IDs', {
+      company: updateData.company,
+      artist: updateData.artist,
+    });
+
+    const { companyId, artistId } = await resolveCompanyAndArtistIds(
+      updateData.company,
+      updateData.artist,
+      relationsUserId
+    );
+
+    if (companyId) {
+      updateData.company = companyId;
+    } else {
+      delete updateData.company;
+      logger.debug('Company not found, removing from update');
+    }
+
+    if (artistId) {
+      updateData.artist = artistId;
+    } else {
+      delete updateData.artist;
+      logger.debug('Artist not found, removing from update');
+    }
+  }
+
+  const formData = buildFormDataForUpdate(updateData, imageFile);
+
+  const validation = validateFormDataForUpdate(formData, ['title']); // title is required
+  if (!validation.isValid) {
+    const errorMessage = `Validation failed: ${validation.errors.join(', ')}`;
+    logger.error(errorMessage);
+    throw new Error(errorMessage);
+  }
+
+  logFormData(formData, `Project Update: ${projectId}`);
+
+  try {
+    const result = await pb
+      .collection(Collections.Projects)
+      .update<ProjectsResponse>(projectId, formData);
+    logger.info('Project updated successfully:', result.id);
+    if (result.status === 'completed') {
+      await collectLeftoverDrillsAfterWrite(result.user);
+    }
+    return result;
+  } catch (error) {
+    if (error instanceof ClientResponseError && error.status === 400) {
+      logger.error('PocketBase 400 Error Details:', {
+        status: error.status,
+        message: error.message,
+        data: error.data,
+        url: error.url,
+      });
+      logger.error(
+        'FormData being sent:',
+        Array.from(formData.entries()).map(([key, value]) => ({
+          key,
+          value:
+            value instanceof File
+              ? `[File: ${value.name}, ${value.size} bytes, ${value.type}]`
+              : value,
+        }))
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Add a progress note to a project
+ */
+export async function createProgressNoteRecord(
+  projectId: string,
+  data: QueuedProgressNote['data'],
+  imageFile?: File
+): Promise<ProgressNotesResponse> {
+  return pb.collection(Collections.ProgressNotes).create<ProgressNotesResponse>({
+    ...data,
+    project: projectId,
+    ...(imageFile && { image: imageFile }),
+  });
+}
@@ -6,6 +6,8 @@
 
 import { pb } from '@/lib/pocketbase';
 import { createLogger, batchApiLogger } from '@/utils/logger';
+import { chunkForBatch } from '@/utils/batchRequests';
+import { createFilter } from '@/utils/filterBuilder';
 import {
   BaseService,
   ErrorHandler,
@@ -13,7 +15,9 @@ import {
   createBaseService,
   commonServiceConfigs,
 } from '@/services/pocketbase/base.service';
-import { ProjectsResponse } from '@/types/pocketbase.types';
+import { Collections, ProjectsResponse } from '@/types/pocketbase.types';
+import type { SearchableProgressNote } from '@/types/projectSearch';
+import { rankProjectSearchResults } from '@/utils/projectSearch';
 import { Project, ProjectStatus } from '@/types/project';
 import { DashboardValidSortField } from '@/features/dashboard/dashboard.constants';
 import {
@@ -48,6 +52,8 @@ const POCKETBASE_SORT_MAP: Record<DashboardValidSortField, string> = {
   height: 'height',
   kit_category: 'kit_category',
   drill_shape: 'drill_shape',
+  drill_type: 'drill_type',
+  canvas_type: 'canvas_type',
 };
 
 /**
@@ -83,10 +89,14 @@ export class ProjectsService {
       dateStarted: 'date_started',
       dateCompleted: 'date_completed',
       totalDiamonds: 'total_diamonds',
+      shippingCost: 'shipping_cost',
+      orderReference: 'order_reference',
       generalNotes: 'general_notes',
       sourceUrl: 'source_url',
       kitCategory: 'kit_category',
       drillShape: 'drill_shape',
+      drillType: 'drill_type',
+      canvasType: 'canvas_type',
     });
   }
 
@@ -124,6 +134,16 @@ export class ProjectsService {
       logger.debug('💎 Added drill shape filter:', filters.drillShape);
     }
 
+    // Drill and canvas type filters
+    if (filters.drillType && filters.drillType !== 'all') {
+      conditions.push(pb.filter('drill_type = {:drillType}', { drillType: filters.drillType }));
+      logger.debug('💎 Added drill type filter:', filters.drillType);
+    }
+    if (filters.canvasType && filters.canvasType !== 'all') {
+      conditions.push(pb.filter('canvas_type = {:canvasType}', { canvasType: filters.canvasType }));
+      logger.debug('🧵 Added canvas type filter:', filters.canvasType);
+    }
+
     // Year finished filter
     if (filters.yearFinished && filters.yearFinished !== 'all') {
       const year = parseInt(filters.yearFinished, 10);
@@ -141,27 +161,38 @@ export class ProjectsService {
       conditions.push(`kit_category != "mini"`);
       logger.debug('📦 Added mini kits exclusion filter');
     }
+    if (filters.kitCategory) {
+      conditions.push(
+        filters.kitCategory === 'mini' ? `kit_category = "mini"` : `kit_category != "mini"`
+      );
+      logger.debug('📦 Added kit category filter:', filters.kitCategory);
+    }
 
-    // Search term filtering - project title only
-    if (filters.searchTerm && filters.searchTerm.trim()) {
-      const searchTerm = this.sanitizeSearchTerm(filters.searchTerm);
-      conditions.push(pb.filter('title ~ {:searchTerm}', { searchTerm }));
-      logger.debug('🔍 Added title search filter:', {
+    // Search term filtering - title only, or full text
+    const searchCondition = this.buildSearchCondition(filters);
+    if (searchCondition) {
+      conditions.push(searchCondition);
+      logger.debug('🔍 Added search filter:', {
         originalTerm: filters.searchTerm,
-        escapedTerm: searchTerm,
-        field: 'title',
+        mode: filters.searchMode ?? 'title',
       });
     }
 
+    // Range filtering (size, diamond count, dates)
+    const rangeFilter = this.buildRangeFilter(filters);
+    if (rangeFilter) {
+      conditions.push(rangeFilter);
+      logger.debug('📏 Added range filters:', filters.ranges);
+    }
+
     // Tag filtering
-    if (filters.selectedTags && filters.selectedTags.length > 0) {
-      const tagConditions = filters.selectedTags.map(
-        tagId => `project_tags_via_project.tag ?= "${tagId}"`
-      );
-      conditions.push(`(${tagConditions.join(' || ')})`);
+    const tagFilter = this.buildTagFilter(filters);
+    if (tagFilter) {
+      conditions.push(tagFilter);
       logger.debug('🏷️ Added tag filters:', {
-        tagCount: filters.selectedTags.length,
         tags: filters.selectedTags,
+        tagMatchMode: filters.tagMatchMode ?? 'any',
+        excludedTags: filters.excludedTags,
       });
     }
 
@@ -259,6 +290,14 @@ export class ProjectsService {
       conditions.push(`drill_shape = "${filters.drillShape}"`);
     }
 
+    // Drill and canvas type filters
+    if (filters.drillType && filters.drillType !== 'all') {
+      conditions.push(pb.filter('drill_type = {:drillType}', { drillType: filters.drillType }));
+    }
+    if (filters.canvasType && filters.canvasType !== 'all') {
+      conditions.push(pb.filter('canvas_type = {:canvasType}', { canvasType: filters.canvasType }));
+    }
+
     // Year finished filter
     if (filters.yearFinished && filters.yearFinished !== 'all') {
       const year = parseInt(filters.yearFinished, 10);
@@ -272,6 +311,11 @@ export class ProjectsService {
     if (filters.includeMiniKits === false) {
       conditions.push(`kit_category != "mini"`);
     }
+    if (filters.kitCategory) {
+      conditions.push(
+        filters.kitCategory === 'mini' ? `kit_category = "mini"` : `kit_category != "mini"`
+      );
+    }
 
     // Smart Boolean filter application - for main queries use status filter, for counting use excludeStatus parameter
     // Skip checkbox filters when counting individual status tabs to show true counts
@@ -310,23 +354,44 @@ export class ProjectsService {
       }
     }
 
-    // Search term filtering - project title only
-    if (filters.searchTerm && filters.searchTerm.trim()) {
-      const searchTerm = this.sanitizeSearchTerm(filters.searchTerm);
-      conditions.push(pb.filter('title ~ {:searchTerm}', { searchTerm }));
+    // Search term filtering - title only, or full text
+    const searchCondition = this.buildSearchCondition(filters);
+    if (searchCondition) {
+      conditions.push(searchCondition);
+    }
+
+    // Range filtering (size, diamond count, dates)
+    const rangeFilter = this.buildRangeFilter(filters);
+    if (rangeFilter) {
+      conditions.push(rangeFilter);
     }
 
     // Tag filtering
-    if (filters.selectedTags && filters.selectedTags.length > 0) {
-      const tagConditions = filters.selectedTags.map(
-        tagId => `project_tags_via_project.tag ?= "${tagId}"`
-      );
-      conditions.push(`(${tagConditions.join(' || ')})`);
+    const tagFilter = this.buildTagFilter(filters);
+    if (tagFilter) {
+      conditions.push(tagFilter);
     }
 
     return conditions.join(' && ');
   }
 
+  /**
+   * Build the include/exclude tag conditions shared by list and count queries
+   */
+  private buildTagFilter(filters: ProjectFilters): string {
+    return createFilter()
+      .tags(filters.selectedTags ?? [], filters.tagMatchMode)
+      .excludeTags(filters.excludedTags ?? [])
+      .build();
+  }
+
+  /**
+   * Build the size, diamond count and date range conditions shared by list and count queries
+   */
+  private buildRangeFilter(filters: ProjectFilters): string {
+    return createFilter().projectRanges(filters.ranges).build();
+  }
+
   /**
    * Sanitize search term consistently (trim + escape double quotes)
    */
@@ -334,6 +399,28 @@ export class ProjectsService {
     return term.trim().replace(/"/g, '\\"');
   }
 
+  /**
+   * Build the search condition. Full-text mode also matches general notes, company and
+   * artist names, and the content of any of the project's progress notes.
+   */
+  private buildSearchCondition(filters: ProjectFilters): string | null {
+    if (!filters.searchTerm || !filters.searchTerm.trim()) return null;
+
+    const searchTerm = this.sanitizeSearchTerm(filters.searchTerm);
+    if (filters.searchMode !== 'full') {
+      return pb.filter('title ~ {:searchTerm}', { searchTerm });
+    }
+
+    return pb.filter(
+      '(title ~ {:searchTerm} || general_notes ~ {:searchTerm} || company.name ~ {:searchTerm} || artist.name ~ {:searchTerm} || progress_notes_via_project.content ?~ {:searchTerm})',
+      { searchTerm }
+    );
+  }
+
+  private isFullTextSearch(filters: ProjectFilters): boolean {
+    return filters.searchMode === 'full' && !!filters.searchTerm?.trim();
+  }
+
   /**
    * Build expand string from expand options
    */
@@ -362,7 +449,7 @@ export class ProjectsService {
   /**
    * Build complete filter configuration
    */
-  private buildFilterConfig(options: ProjectQueryOptions): {
+  private buildFilterConfig(options: Pick<ProjectQueryOptions, 'filters' | 'sort' | 'expand'>): {
     filter: string;
     sort: string;
     expand?: string;
@@ -423,6 +510,8 @@ export class ProjectsService {
       status: (record.status as ProjectStatus) || 'wishlist',
       kit_category: record.kit_category || undefined,
       drillShape: record.drill_shape || undefined,
+      drillType: record.drill_type || undefined,
+      canvasType: record.canvas_type || undefined,
       datePurchased: record.date_purchased || undefined,
       dateReceived: record.date_received || undefined,
       dateStarted: record.date_started || undefined,
@@ -430,6 +519,11 @@ export class ProjectsService {
       width: record.width || undefined,
       height: record.height || undefined,
       totalDiamonds: record.total_diamonds || undefined,
+      price: record.price || undefined,
+      shippingCost: record.shipping_cost || undefined,
+      discount: record.discount || undefined,
+      currency: record.currency || undefined,
+      orderReference: record.order_reference || undefined,
       generalNotes: record.general_notes || '',
       imageUrl: record.image
         ? pb.files.getURL({ ...record, collectionName: 'projects' }, record.image, {
@@ -454,6 +548,10 @@ export class ProjectsService {
     const startTime = this.config.enablePerformanceLogging ? performance.now() : 0;
 
     try {
+      if (this.isFullTextSearch(options.filters)) {
+        return await this.getFullTextSearchResults(options, companyMap, artistMap);
+      }
+
       const { filter, sort, expand } = this.buildFilterConfig(options);
       const { page, pageSize } = options;
 
@@ -540,6 +638,91 @@ export class ProjectsService {
     }
   }
 
+  /**
+   * Full-text search: load every matching project and progress note, rank the projects by
+   * where the term matched, then paginate the ranked list
+   */
+  private async getFullTextSearchResults(
+    options: ProjectQueryOptions,
+    companyMap?: Map<string, string>,
+    artistMap?: Map<string, string>
+  ): Promise<ProjectQueryResult> {
+    const { page, pageSize, filters } = options;
+    const ranked = await this.rankFullTextSearch(options, companyMap, artistMap);
+
+    const start = (page - 1) * pageSize;
+    const projects = ranked.projects.slice(start, start + pageSize);
+    const searchMatches = Object.fromEntries(
+      projects.filter(project => ranked.matches[project.id]).map(p => [p.id, ranked.matches[p.id]])
+    );
+
+    const statusCounts = options.includeStatusCounts
+      ? (await this.getBatchStatusCounts(filters)).counts
+      : undefined;
+
+    return {
+      projects,
+      totalItems: ranked.projects.length,
+      totalPages: Math.ceil(ranked.projects.length / pageSize),
+      currentPage: page,
+      pageSize,
+      statusCounts,
+      searchMatches,
+    };
+  }
+
+  /**
+   * Load every project and progress note matching a full-text search and rank the
+   * projects. Ranking happens client-side, so the whole match set is paged through first;
+   * otherwise matches past the first page would be dropped without notice.
+   */
+  private async rankFullTextSearch(
+    options: Pick<ProjectQueryOptions, 'filters' | 'sort' | 'expand'>,
+    companyMap?: Map<string, string>,
+    artistMap?: Map<string, string>
+  ): Promise<ReturnType<typeof rankProjectSearchResults>> {
+    const { filter, sort, expand } = this.buildFilterConfig(options);
+    const { filters } = options;
+    const rawTerm = filters.searchTerm?.trim() ?? '';
+    const searchTerm = this.sanitizeSearchTerm(rawTerm);
+
+    const [records, progressNotes] = await Promise.all([
+      ErrorHandler.handleAsync(async () => {
+        return await pb.collection('projects').getFullList({ filter, sort, expand });
+      }, 'Project full-text search'),
+      pb
+        .collection(Collections.ProgressNotes)
+        .getFullList<SearchableProgressNote>({
+          filter: pb.filter('project.user = {:userId} && content ~ {:searchTerm}', {
+            userId: filters.userId,
+            searchTerm,
+          }),
+          fields: 'id,project,content,date',
+          sort: '-date',
+        })
+        .catch(error => {
+          // Projects still match on the server; only the note snippets are lost
+          logger.warn('Failed to load matching progress notes for search', error);
+          return [] as SearchableProgressNote[];
+        }),
+    ]);
+
+    const ranked = rankProjectSearchResults(
+      records.map((record: ProjectsResponse) =>
+        this.transformRecord(record, companyMap, artistMap)
+      ),
+      progressNotes,
+      rawTerm
+    );
+
+    logger.debug('Full-text search completed', {
+      matchedProjects: records.length,
+      matchedNotes: progressNotes.length,
+    });
+
+    return ranked;
+  }
+
   /**
    * Get batch status counts using single optimized query approach
    * Uses getList with page size instead of getFullList for better performance control
@@ -679,7 +862,10 @@ export class ProjectsService {
    * Enhanced status counting with performance optimizations
    * Includes automatic fallback strategies and improved error handling
    */
-  async getOptimizedStatusCounts(baseFilters: ProjectFilters): Promise<BatchStatusCountResult> {
+  async getOptimizedStatusCounts(
+    baseFilters: ProjectFilters,
+    options: { requestKey?: string } = {}
+  ): Promise<BatchStatusCountResult> {
     const startTime = this.config.enablePerformanceLogging ? performance.now() : 0;
     const batchId = batchApiLogger.startBatchOperation(
       'status-counts-optimized',
@@ -713,7 +899,9 @@ export class ProjectsService {
         fields: 'status', // Minimal field selection
         requestKey: `status-count-optimized-${baseFilters.userId || 'unknown'}`,
         skipTotal: true, // Skip expensive total calculation
-        $cancelKey: 'status-counting-optimized', // Request cancellation support
+        // Request cancellation support; the SDK lets $cancelKey override requestKey, so callers
+        // running several count queries at once pass distinct keys to avoid cancelling each other
+        $cancelKey: options.requestKey ?? 'status-counting-optimized',
         sort: '', // No sorting needed for counting
       });
 
@@ -997,6 +1185,36 @@ export class ProjectsService {
     }
   }
 
+  /**
+   * Get every project matching the filters in one list, for the board view.
+   * Full-text searches keep their relevance ranking.
+   */
+  async getAllProjects(
+    options: Pick<ProjectQueryOptions, 'filters' | 'sort' | 'expand'>,
+    companyMap?: Map<string, string>,
+    artistMap?: Map<string, string>
+  ): Promise<Project[]> {
+    try {
+      if (this.isFullTextSearch(options.filters)) {
+        const ranked = await this.rankFullTextSearch(options, companyMap, artistMap);
+        return ranked.projects;
+      }
+
+      const { filter, sort, expand } = this.buildFilterConfig(options);
+
+      const records = await pb.collection('projects').getFullList({ filter, sort, expand });
+
+      logger.debug('Fetched all matching projects', { count: records.length });
+
+      return records.map((record: ProjectsResponse) =>
+        this.transformRecord(record, companyMap, artistMap)
+      );
+    } catch (error) {
+      logger.error('Failed to fetch all projects', error);
+      throw ErrorHandler.handleError(error, 'Project query');
+    }
+  }
+
   /**
    * Get projects for export with all data
    */
@@ -1025,6 +1243,76 @@ export class ProjectsService {
       throw ErrorHandler.handleError(error, 'Project export query');
     }
   }
+
+  /**
+   * Apply the same field changes to many projects using PocketBase batch requests
+   */
+  async batchUpdateProjects(ids: string[], data: ProjectUpdateData): Promise<void> {
+    try {
+      logger.debug('Batch updating projects', { count: ids.length, fields: Object.keys(data) });
+
+      const backendData = this.fieldMapper.toBackend(data);
+      for (const idChunk of chunkForBatch(ids)) {
+        const batch = pb.createBatch();
+        idChunk.forEach(id => batch.collection('projects').update(id, backendData));
+        await batch.send();
+      }
+    } catch (error) {
+      logger.error('Failed to batch update projects', error);
+      throw ErrorHandler.handleError(error, 'Project batch update');
+    }
+  }
+
+  /**
+   * Delete many projects together with their progress notes and tag links. Projects that
+   * no longer exist are skipped, so a deletion interrupted part-way can be sent again.
+   */
+  async batchDeleteProjects(ids: string[]): Promise<void> {
+    try {
+      logger.debug('Batch deleting projects', { count: ids.length });
+
+      for (const idChunk of chunkForBatch(ids)) {
+        const params = Object.fromEntries(idChunk.map((id, index) => [`id${index}`, id]));
+        const projectFilter = idChunk.map((_, index) => `project = {:id${index}}`).join(' || ');
+
+        const idFilter = idChunk.map((_, index) => `id = {:id${index}}`).join(' || ');
+
+        const [existingProjects, progressNotes, projectTags] = await Promise.all([
+          pb.collection('projects').getFullList({
+            filter: pb.filter(idFilter, params),
+            fields: 'id',
+          }),
+          pb.collection('progress_notes').getFullList({
+            filter: pb.filter(projectFilter, params),
+            fields: 'id',
+          }),
+          pb.collection('project_tags').getFullList({
+            filter: pb.filter(projectFilter, params),
+            fields: 'id',
+          }),
+        ]);
+
+        // Related records first so the project deletions never hit relation constraints
+        const relatedDeletes = [
+          ...progressNotes.map(note => ({ collection: 'progress_notes', id: note.id })),
+          ...projectTags.map(tag => ({ collection: 'project_tags', id: tag.id })),
+        ];
+        for (const deleteChunk of chunkForBatch(relatedDeletes)) {
+          const batch = pb.createBatch();
+          deleteChunk.forEach(({ collection, id }) => batch.collection(collection).delete(id));
+          await batch.send();
+        }
+
+        if (existingProjects.length === 0) continue;
+        const batch = pb.createBatch();
+        existingProjects.forEach(project => batch.collection('projects').delete(project.id));
+        await batch.send();
+      }
+    } catch (error) {
+      logger.error('Failed to batch delete projects', error);
+      throw ErrorHandler.handleError(error, 'Project batch deletion');
+    }
+  }
 }
 
 // Create and export default service instance
@@ -0,0 +1,93 @@
+/**
+ * Randomizer pools service
+ *
+ * CRUD for the user-owned `randomizer_pools` collection. A pool stores a project
+ * filter rather than a list of project IDs, so the wheel follows the stash as it
+ * changes.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { pb } from '@/lib/pocketbase';
+import { createLogger } from '@/utils/logger';
+import { Collections, type RandomizerPoolsResponse } from '@/types/pocketbase.types';
+import type {
+  RandomizerPool,
+  RandomizerPoolFilters,
+  RandomizerPoolFormValues,
+} from '@/types/randomizerPool';
+import { normalizePoolFilters } from '@/utils/randomizerPools';
+
+const logger = createLogger('RandomizerPoolsService');
+
+const transformRandomizerPool = (
+  record: RandomizerPoolsResponse<Partial<RandomizerPoolFilters>>
+): RandomizerPool => ({
+  id: record.id,
+  userId: record.user,
+  name: record.name,
+  filters: normalizePoolFilters(record.filters),
+  createdAt: record.created,
+  updatedAt: record.updated,
+});
+
+/**
+ * Get all randomizer pools for a user, sorted by name
+ */
+export async function getRandomizerPools(userId: string): Promise<RandomizerPool[]> {
+  const records = await pb
+    .collection(Collections.RandomizerPools)
+    .getFullList<RandomizerPoolsResponse<Partial<RandomizerPoolFilters>>>({
+      filter: pb.filter('user = {:userId}', { userId }),
+      sort: 'name',
+    });
+
+  logger.debug('Fetched randomizer pools', { count: records.length });
+  return records.map(transformRandomizerPool);
+}
+
+/**
+ * Create a randomizer pool for the given user
+ */
+export async function createRandomizerPool(
+  userId: string,
+  values: RandomizerPoolFormValues
+): Promise<RandomizerPool> {
+  const record = await pb
+    .collection(Collections.RandomizerPools)
+    .create<RandomizerPoolsResponse<Partial<RandomizerPoolFilters>>>({
+      user: userId,
+      name: values.name.trim(),
+      filters: values.filters,
+    });
+
+  logger.info('Created randomizer pool', { id: record.id });
+  return transformRandomizerPool(record);
+}
+
+/**
+ * Rename a randomizer pool and/or replace its filters
+ */
+export async function updateRandomizerPool(
+  id: string,
+  values: Partial<RandomizerPoolFormValues>
+): Promise<RandomizerPool> {
+  const record = await pb
+    .collection(Collections.RandomizerPools)
+    .update<RandomizerPoolsResponse<Partial<RandomizerPoolFilters>>>(id, {
+      ...(values.name !== undefined && { name: values.name.trim() }),
+      ...(values.filters !== undefined && { filters: values.filters }),
+    });
+
+  logger.info('Updated randomizer pool', { id });
+  return transformRandomizerPool(record);
+}
+
+/**
+ * Delete a randomizer pool
+ */
+export async function deleteRandomizerPool(id: string): Promise<void> {
+  await pb.collection(Collections.RandomizerPools).delete(id);
+  logger.info('Deleted randomizer pool', { id });
+}
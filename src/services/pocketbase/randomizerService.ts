@@ -30,6 +30,7 @@ import type {
 } from '@/types/pocketbase.types';
 import { Collections } from '@/types/pocketbase.types';
 import type { PocketBaseError } from '@/types/pocketbase-common';
+import type { RandomizerSelectionMode } from '@/stores/randomizerStore';
 
 const logger = createLogger('RandomizerService');
 
@@ -178,6 +179,10 @@ export interface EnhancedCreateSpinParams {
     deviceType: 'mobile' | 'tablet' | 'desktop';
     spinMethod: 'click' | 'keyboard' | 'touch';
     userAgent?: string;
+    selectionMode?: RandomizerSelectionMode; // How the winner was weighted
+    excludeRecentWinners?: number; // Number of recent winners left off the wheel
+    poolId?: string; // Saved randomizer pool the wheel was built from
+    poolName?: string;
   };
 }
 
@@ -0,0 +1,87 @@
+/**
+ * Saved dashboard views service
+ *
+ * CRUD for the user-owned `saved_views` collection. Filters are stored as JSON and
+ * merged over the default filter state on read so views saved before a new filter
+ * was added keep working.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { pb } from '@/lib/pocketbase';
+import { createLogger } from '@/utils/logger';
+import { Collections, type SavedViewsResponse } from '@/types/pocketbase.types';
+import type { SavedView, SavedViewFilters, SavedViewFormValues } from '@/types/savedView';
+import { normalizeSavedViewFilters } from '@/utils/savedViews';
+
+const logger = createLogger('SavedViewsService');
+
+const transformSavedView = (record: SavedViewsResponse<Partial<SavedViewFilters>>): SavedView => ({
+  id: record.id,
+  userId: record.user,
+  name: record.name,
+  filters: normalizeSavedViewFilters(record.filters),
+  createdAt: record.created,
+  updatedAt: record.updated,
+});
+
+/**
+ * Get all saved views for a user, sorted by name
+ */
+export async function getSavedViews(userId: string): Promise<SavedView[]> {
+  const records = await pb
+    .collection(Collections.SavedViews)
+    .getFullList<SavedViewsResponse<Partial<SavedViewFilters>>>({
+      filter: pb.filter('user = {:userId}', { userId }),
+      sort: 'name',
+    });
+
+  logger.debug('Fetched saved views', { count: records.length });
+  return records.map(transformSavedView);
+}
+
+/**
+ * Create a saved view for the given user
+ */
+export async function createSavedView(
+  userId: string,
+  values: SavedViewFormValues
+): Promise<SavedView> {
+  const record = await pb
+    .collection(Collections.SavedViews)
+    .create<SavedViewsResponse<Partial<SavedViewFilters>>>({
+      user: userId,
+      name: values.name.trim(),
+      filters: values.filters,
+    });
+
+  logger.info('Created saved view', { id: record.id });
+  return transformSavedView(record);
+}
+
+/**
+ * Rename a saved view and/or replace its filters
+ */
+export async function updateSavedView(
+  id: string,
+  values: Partial<SavedViewFormValues>
+): Promise<SavedView> {
+  const record = await pb
+    .collection(Collections.SavedViews)
+    .update<SavedViewsResponse<Partial<SavedViewFilters>>>(id, {
+      ...(values.name !== undefined && { name: values.name.trim() }),
+      ...(values.filters !== undefined && { filters: values.filters }),
+    });
+
+  logger.info('Updated saved view', { id });
+  return transformSavedView(record);
+}
+
+/**
+ * Delete a saved view
+ */
+export async function deleteSavedView(id: string): Promise<void> {
+  await pb.collection(Collections.SavedViews).delete(id);
+  logger.info('Deleted saved view', { id });
+}
@@ -0,0 +1,311 @@
+/**
+ * Sharing service
+ *
+ * Public read-only sharing through two collections. `project_shares` holds a share token
+ * and a snapshot of only the fields the owner chose, so visitors never read the
+ * `projects` collection itself. `public_profiles` opts a user into a profile page listing
+ * the shares they marked for it. Visitors send the token in the `X-Share-Token` header,
+ * which the collection rules check; revoking a link deletes its share record.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { pb } from '@/lib/pocketbase';
+import { createLogger } from '@/utils/logger';
+import { chunkForBatch } from '@/utils/batchRequests';
+import { buildShareSnapshot, generateShareToken, normalizeShareFields } from '@/utils/sharing';
+import {
+  Collections,
+  type ArtistsResponse,
+  type CompaniesResponse,
+  type ProgressNotesResponse,
+  type ProjectSharesResponse,
+  type ProjectsResponse,
+  type PublicProfilesResponse,
+} from '@/types/pocketbase.types';
+import type { ProjectStatus } from '@/types/project';
+import type {
+  ProjectShare,
+  ProjectShareSettings,
+  PublicProfile,
+  PublicProfileSettings,
+  PublicSharedProject,
+  SharedFile,
+  SharedProjectSnapshot,
+} from '@/types/sharing';
+
+const logger = createLogger('SharingService');
+
+export const SHARE_TOKEN_HEADER = 'X-Share-Token';
+
+// collectionId and collectionName are needed to build file URLs
+const SHARE_SOURCE_FIELDS =
+  'id,title,status,image,width,height,drill_shape,kit_category,total_diamonds,date_started,' +
+  'date_completed,price,shipping_cost,discount,currency,general_notes,collectionId,' +
+  'collectionName,expand.artist.name,expand.company.name';
+const SHARE_NOTE_FIELDS = 'id,date,content,percent_complete,image,collectionId,collectionName';
+const PUBLIC_SHARE_FIELDS = 'token,snapshot,updated';
+
+type ShareRecord = ProjectSharesResponse<unknown, SharedProjectSnapshot>;
+
+type ShareSourceRecord = Omit<ProjectsResponse, 'expand'> & {
+  expand?: {
+    artist?: Pick<ArtistsResponse, 'name'>;
+    company?: Pick<CompaniesResponse, 'name'>;
+  };
+};
+
+type ShareNoteRecord = Pick<
+  ProgressNotesResponse,
+  'id' | 'date' | 'content' | 'percent_complete' | 'image' | 'collectionId' | 'collectionName'
+>;
+
+const toSharedFile = (
+  record: { id: string; collectionId: string; collectionName: string },
+  filename: string
+): SharedFile | undefined =>
+  filename
+    ? {
+        id: record.id,
+        collectionId: record.collectionId,
+        collectionName: record.collectionName,
+        filename,
+      }
+    : undefined;
+
+const transformShare = (record: ShareRecord): ProjectShare => ({
+  id: record.id,
+  projectId: record.project,
+  token: record.token,
+  fields: normalizeShareFields(record.fields),
+  showOnProfile: !!record.show_on_profile,
+  snapshot: record.snapshot as SharedProjectSnapshot,
+  updated: record.updated,
+});
+
+const transformPublicShare = (
+  record: Pick<ShareRecord, 'token' | 'snapshot' | 'updated'>
+): PublicSharedProject => ({
+  token: record.token,
+  snapshot: record.snapshot as SharedProjectSnapshot,
+  updated: record.updated,
+});
+
+const transformProfile = (record: PublicProfilesResponse): PublicProfile => ({
+  id: record.id,
+  userId: record.user,
+  username: record.username,
+  displayName: record.display_name || undefined,
+  bio: record.bio || undefined,
+  enabled: !!record.enabled,
+});
+
+/**
+ * Build a fresh public snapshot of a project from its current record and progress notes
+ */
+async function buildProjectSnapshot(
+  projectId: string,
+  settings: ProjectShareSettings
+): Promise<SharedProjectSnapshot> {
+  const [project, notes] = await Promise.all([
+    pb.collection(Collections.Projects).getOne<ShareSourceRecord>(projectId, {
+      expand: 'artist,company',
+      fields: SHARE_SOURCE_FIELDS,
+    }),
+    settings.fields.includes('progress')
+      ? pb.collection(Collections.ProgressNotes).getFullList<ShareNoteRecord>({
+          filter: pb.filter('project = {:projectId}', { projectId }),
+          fields: SHARE_NOTE_FIELDS,
+        })
+      : Promise.resolve([]),
+  ]);
+
+  return buildShareSnapshot(
+    {
+      title: project.title,
+      status: project.status as ProjectStatus,
+      image: toSharedFile(project, project.image),
+      artist: project.expand?.artist?.name,
+      company: project.expand?.company?.name,
+      width: project.width || undefined,
+      height: project.height || undefined,
+      drillShape: project.drill_shape || undefined,
+      kitCategory: project.kit_category || undefined,
+      totalDiamonds: project.total_diamonds || undefined,
+      dateStarted: project.date_started || undefined,
+      dateCompleted: project.date_completed || undefined,
+      price: project.price || undefined,
+      shippingCost: project.shipping_cost || undefined,
+      discount: project.discount || undefined,
+      currency: project.currency || undefined,
+      generalNotes: project.general_notes || undefined,
+      progressNotes: notes.map(note => ({
+        date: note.date,
+        content: note.content || undefined,
+        percentComplete: note.percent_complete || undefined,
+        image: toSharedFile(note, note.image),
+      })),
+    },
+    settings.fields
+  );
+}
+
+/**
+ * Get the share for one of the user's projects, or null if it isn't shared
+ */
+export async function getProjectShare(projectId: string): Promise<ProjectShare | null> {
+  const result = await pb.collection(Collections.ProjectShares).getList<ShareRecord>(1, 1, {
+    filter: pb.filter('project = {:projectId}', { projectId }),
+  });
+  return result.items[0] ? transformShare(result.items[0]) : null;
+}
+
+/**
+ * Create or update a project's share with a fresh snapshot. Only completed projects can
+ * be listed on the public profile.
+ */
+export async function saveProjectShare(
+  userId: string,
+  projectId: string,
+  settings: ProjectShareSettings,
+  existing: ProjectShare | null
+): Promise<ProjectShare> {
+  const fields = normalizeShareFields(settings.fields);
+  const snapshot = await buildProjectSnapshot(projectId, { ...settings, fields });
+  const data = {
+    fields,
+    show_on_profile: settings.showOnProfile && snapshot.status === 'completed',
+    snapshot,
+  };
+
+  const record = existing
+    ? await pb.collection(Collections.ProjectShares).update<ShareRecord>(existing.id, data)
+    : await pb.collection(Collections.ProjectShares).create<ShareRecord>({
+        ...data,
+        user: userId,
+        project: projectId,
+        token: generateShareToken(),
+      });
+
+  logger.debug('Saved project share', { projectId, created: !existing, fields });
+  return transformShare(record);
+}
+
+/**
+ * Revoke a share link. The old link stops working at once; sharing again creates a new one.
+ */
+export async function revokeProjectShare(shareId: string): Promise<void> {
+  await pb.collection(Collections.ProjectShares).delete(shareId);
+  logger.debug('Revoked project share', { shareId });
+}
+
+/**
+ * Get every project the user has shared, most recently updated first
+ */
+export async function getUserShares(userId: string): Promise<ProjectShare[]> {
+  const records = await pb.collection(Collections.ProjectShares).getFullList<ShareRecord>({
+    filter: pb.filter('user = {:userId}', { userId }),
+    sort: '-updated',
+  });
+  return records.map(transformShare);
+}
+
+/**
+ * Revoke every share link the user has
+ * @returns The number of links revoked
+ */
+export async function revokeAllShares(userId: string): Promise<number> {
+  const records = await pb.collection(Collections.ProjectShares).getFullList({
+    filter: pb.filter('user = {:userId}', { userId }),
+    fields: 'id',
+  });
+
+  for (const chunk of chunkForBatch(records)) {
+    const batch = pb.createBatch();
+    chunk.forEach(record => batch.collection(Collections.ProjectShares).delete(record.id));
+    await batch.send();
+  }
+
+  logger.debug('Revoked all project shares', { count: records.length });
+  return records.length;
+}
+
+/**
+ * Get the user's own public profile settings, or null if they never set one up
+ */
+export async function getOwnPublicProfile(userId: string): Promise<PublicProfile | null> {
+  const result = await pb.collection(Collections.PublicProfiles).getList(1, 1, {
+    filter: pb.filter('user = {:userId}', { userId }),
+  });
+  return result.items[0] ? transformProfile(result.items[0]) : null;
+}
+
+/**
+ * Create or update the user's public profile
+ */
+export async function savePublicProfile(
+  userId: string,
+  username: string,
+  settings: PublicProfileSettings,
+  existing: PublicProfile | null
+): Promise<PublicProfile> {
+  const data = {
+    username,
+    enabled: settings.enabled,
+    display_name: settings.displayName.trim(),
+    bio: settings.bio.trim(),
+  };
+
+  const record = existing
+    ? await pb.collection(Collections.PublicProfiles).update(existing.id, data)
+    : await pb.collection(Collections.PublicProfiles).create({ ...data, user: userId });
+
+  logger.debug('Saved public profile', { enabled: settings.enabled });
+  return transformProfile(record);
+}
+
+/**
+ * Keep the public profile address in step after the user changes their username
+ */
+export async function syncPublicProfileUsername(userId: string, username: string): Promise<void> {
+  const profile = await getOwnPublicProfile(userId);
+  if (profile && profile.username !== username) {
+    await pb.collection(Collections.PublicProfiles).update(profile.id, { username });
+  }
+}
+
+/**
+ * Get an enabled public profile by username, or null if there is none
+ */
+export async function getPublicProfile(username: string): Promise<PublicProfile | null> {
+  const result = await pb.collection(Collections.PublicProfiles).getList(1, 1, {
+    filter: pb.filter('username = {:username} && enabled = true', { username }),
+    fields: 'id,user,username,display_name,bio,enabled',
+  });
+  return result.items[0] ? transformProfile(result.items[0] as PublicProfilesResponse) : null;
+}
+
+/**
+ * Get the shares a profile owner chose to list, most recently updated first
+ */
+export async function getPublicProfileProjects(userId: string): Promise<PublicSharedProject[]> {
+  const records = await pb.collection(Collections.ProjectShares).getFullList<ShareRecord>({
+    filter: pb.filter('user = {:userId} && show_on_profile = true', { userId }),
+    sort: '-updated',
+    fields: PUBLIC_SHARE_FIELDS,
+  });
+  return records.map(transformPublicShare);
+}
+
+/**
+ * Get a shared project by its link token, or null if the link was revoked
+ */
+export async function getSharedProject(token: string): Promise<PublicSharedProject | null> {
+  const result = await pb.collection(Collections.ProjectShares).getList<ShareRecord>(1, 1, {
+    filter: pb.filter('token = {:token}', { token }),
+    fields: PUBLIC_SHARE_FIELDS,
+    headers: { [SHARE_TOKEN_HEADER]: token },
+  });
+  return result.items[0] ? transformPublicShare(result.items[0]) : null;
+}
@@ -0,0 +1,116 @@
+/**
+ * Work sessions service
+ *
+ * Start, stop and list timed work sessions in the user-owned `work_sessions`
+ * collection. A running session has no `ended_at`; only one session per user runs
+ * at a time, so starting a timer stops any other running session first.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { pb } from '@/lib/pocketbase';
+import { createLogger } from '@/utils/logger';
+import { Collections, type WorkSessionsResponse } from '@/types/pocketbase.types';
+import type { WorkSession } from '@/types/workSession';
+import { getSessionElapsedSeconds } from '@/utils/workSessions';
+
+const logger = createLogger('WorkSessionsService');
+
+const transformWorkSession = (record: WorkSessionsResponse): WorkSession => ({
+  id: record.id,
+  userId: record.user,
+  projectId: record.project,
+  startedAt: record.started_at,
+  endedAt: record.ended_at || undefined,
+  durationSeconds: record.duration_seconds || 0,
+  drillsPlaced: record.drills_placed || undefined,
+  createdAt: record.created,
+  updatedAt: record.updated,
+});
+
+/**
+ * Get all sessions recorded on a project, newest first
+ */
+export async function getProjectWorkSessions(projectId: string): Promise<WorkSession[]> {
+  const records = await pb.collection(Collections.WorkSessions).getFullList<WorkSessionsResponse>({
+    filter: pb.filter('project = {:projectId}', { projectId }),
+    sort: '-started_at',
+  });
+
+  logger.debug('Fetched project work sessions', { projectId, count: records.length });
+  return records.map(transformWorkSession);
+}
+
+/**
+ * Get every session the user has recorded, newest first
+ */
+export async function getUserWorkSessions(userId: string): Promise<WorkSession[]> {
+  const records = await pb.collection(Collections.WorkSessions).getFullList<WorkSessionsResponse>({
+    filter: pb.filter('user = {:userId}', { userId }),
+    sort: '-started_at',
+  });
+
+  logger.debug('Fetched user work sessions', { count: records.length });
+  return records.map(transformWorkSession);
+}
+
+/**
+ * Get the user's running sessions (normally zero or one)
+ */
+export async function getActiveWorkSessions(userId: string): Promise<WorkSession[]> {
+  const records = await pb.collection(Collections.WorkSessions).getFullList<WorkSessionsResponse>({
+    filter: pb.filter('user = {:userId} && ended_at = ""', { userId }),
+    sort: '-started_at',
+  });
+
+  return records.map(transformWorkSession);
+}
+
+/**
+ * Stop a running session, recording its duration and optional drill count
+ */
+export async function stopWorkSession(
+  session: WorkSession,
+  drillsPlaced?: number
+): Promise<WorkSession> {
+  const endedAt = new Date();
+  const record = await pb
+    .collection(Collections.WorkSessions)
+    .update<WorkSessionsResponse>(session.id, {
+      ended_at: endedAt.toISOString(),
+      duration_seconds: getSessionElapsedSeconds(session, endedAt),
+      ...(drillsPlaced != null && { drills_placed: drillsPlaced }),
+    });
+
+  logger.info('Stopped work session', { id: session.id, projectId: session.projectId });
+  return transformWorkSession(record);
+}
+
+/**
+ * Start a session on a project, stopping any other session the user has running
+ */
+export async function startWorkSession(userId: string, projectId: string): Promise<WorkSession> {
+  const running = await getActiveWorkSessions(userId);
+  for (const session of running) {
+    await stopWorkSession(session);
+  }
+
+  const record = await pb.collection(Collections.WorkSessions).create<WorkSessionsResponse>({
+    user: userId,
+    project: projectId,
+    started_at: new Date().toISOString(),
+    duration_seconds: 0,
+  });
+
+  logger.info('Started work session', { id: record.id, projectId, stopped: running.length });
+  return transformWorkSession(record);
+}
+
+/**
+ * Delete a session
+ */
+export async function deleteWorkSession(id: string): Promise<void> {
+  await pb.collection(Collections.WorkSessions).delete(id);
+  logger.info('Deleted work session', { id });
+}
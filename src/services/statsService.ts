@@ -1,7 +1,18 @@
 import { pb } from '@/lib/pocketbase';
-import { Collections } from '@/types/pocketbase.types';
+import { Collections, UserYearlyStatsStatsTypeOptions } from '@/types/pocketbase.types';
 import { createLogger } from '@/utils/logger';
 import { DashboardStats, StatusBreakdown } from '@/types/dashboard';
+import {
+  CachedInsightsRecordSchema,
+  YearlyStatsComparison,
+  YearlyStatsEntry,
+} from '@/types/dashboard-stats';
+import type { ProjectStatus } from '@/types/project';
+import {
+  computeYearlyStatsEntry,
+  type StatsProjectRow,
+  type StatsSessionRow,
+} from '@/utils/yearlyInsights';
 
 const logger = createLogger('statsService');
 
@@ -184,3 +195,245 @@ export async function calculateDashboardStats(
     throw error;
   }
 }
+
+/**
+ * Bump when the shape or meaning of cached insights changes so old records are recalculated
+ */
+export const STATS_CACHE_SCHEMA_VERSION = 'v4';
+
+const MIN_CACHED_YEAR = 2020;
+const MAX_CACHED_YEAR = 2050;
+
+const STATS_PROJECT_FIELDS = [
+  'id',
+  'status',
+  'company',
+  'artist',
+  'total_diamonds',
+  'price',
+  'shipping_cost',
+  'discount',
+  'currency',
+  'date_purchased',
+  'date_received',
+  'date_started',
+  'date_completed',
+  'expand.company.name',
+  'expand.artist.name',
+].join(',');
+
+interface StatsProjectRecord extends Omit<StatsProjectRow, 'companyName' | 'artistName'> {
+  expand?: {
+    company?: { name?: string };
+    artist?: { name?: string };
+  };
+}
+
+interface CachedYear {
+  id: string;
+  entry: YearlyStatsEntry | null;
+}
+
+const isCacheableYear = (year: number) => year >= MIN_CACHED_YEAR && year <= MAX_CACHED_YEAR;
+
+/**
+ * Compact form of an update timestamp so the fingerprint fits in cache_version (50 chars)
+ */
+const toVersionStamp = (updated: string | undefined): string => {
+  const time = updated ? Date.parse(updated.replace(' ', 'T')) : NaN;
+  return isNaN(time) ? 'none' : time.toString(36);
+};
+
+/**
+ * Fingerprint of the user's projects and work sessions. Any create, update or delete
+ * changes either a count or a latest update time, which invalidates cached yearly stats.
+ */
+async function getStatsCacheVersion(userId: string): Promise<string> {
+  const [latest, latestSession] = await Promise.all([
+    pb.collection(Collections.Projects).getList(1, 1, {
+      filter: pb.filter('user = {:userId}', { userId }),
+      sort: '-updated',
+      fields: 'updated',
+      requestKey: `stats-cache-version-${userId}`,
+    }),
+    pb.collection(Collections.WorkSessions).getList(1, 1, {
+      filter: pb.filter('user = {:userId}', { userId }),
+      sort: '-updated',
+      fields: 'updated',
+      requestKey: `stats-cache-version-sessions-${userId}`,
+    }),
+  ]);
+  return [
+    STATS_CACHE_SCHEMA_VERSION,
+    latest.totalItems,
+    toVersionStamp(latest.items[0]?.updated),
+    latestSession.totalItems,
+    toVersionStamp(latestSession.items[0]?.updated),
+  ].join(':');
+}
+
+async function fetchStatsProjectRows(userId: string): Promise<StatsProjectRow[]> {
+  const records = await pb.collection(Collections.Projects).getFullList<StatsProjectRecord>({
+    filter: pb.filter('user = {:userId}', { userId }),
+    fields: STATS_PROJECT_FIELDS,
+    expand: 'company,artist',
+    requestKey: `stats-projects-${userId}`,
+  });
+
+  return records.map(({ expand, ...record }) => ({
+    ...record,
+    status: record.status as ProjectStatus,
+    companyName: expand?.company?.name,
+    artistName: expand?.artist?.name,
+  }));
+}
+
+async function fetchStatsSessionRows(userId: string): Promise<StatsSessionRow[]> {
+  const records = await pb.collection(Collections.WorkSessions).getFullList({
+    filter: pb.filter('user = {:userId} && ended_at != ""', { userId }),
+    fields: 'started_at,duration_seconds,drills_placed',
+    requestKey: `stats-sessions-${userId}`,
+  });
+
+  return records.map(record => ({
+    startedAt: record.started_at,
+    durationSeconds: record.duration_seconds || 0,
+    drillsPlaced: record.drills_placed || undefined,
+  }));
+}
+
+/**
+ * Read cached records for the given years. Entries are null when the cache is stale or
+ * does not include insights, but the record id is kept so it can be updated in place.
+ */
+async function readCachedYears(
+  userId: string,
+  years: number[],
+  cacheVersion: string
+): Promise<Map<number, CachedYear>> {
+  const cached = new Map<number, CachedYear>();
+  const cacheableYears = years.filter(isCacheableYear);
+  if (cacheableYears.length === 0) return cached;
+
+  const yearFilter = cacheableYears.map(year => `year = ${year}`).join(' || ');
+  const records = await pb.collection(Collections.UserYearlyStats).getFullList({
+    filter: `${pb.filter('user = {:userId} && stats_type = "yearly"', { userId })} && (${yearFilter})`,
+    requestKey: `stats-cache-${userId}-${cacheableYears.join('-')}`,
+  });
+
+  records.forEach(record => {
+    const parsed = CachedInsightsRecordSchema.safeParse(record);
+    const isFresh = parsed.success && parsed.data.cache_version === cacheVersion;
+    cached.set(record.year, {
+      id: record.id,
+      entry: isFresh
+        ? {
+            year: parsed.data.year,
+            completed_count: parsed.data.completed_count,
+            started_count: parsed.data.started_count,
+            in_progress_count: parsed.data.in_progress_count,
+            total_diamonds: parsed.data.total_diamonds,
+            status_breakdown: parsed.data.status_breakdown,
+            insights: parsed.data.insights,
+          }
+        : null,
+    });
+  });
+
+  return cached;
+}
+
+async function writeCachedYear(
+  userId: string,
+  entry: YearlyStatsEntry,
+  existingId: string | undefined,
+  meta: { cacheVersion: string; durationMs: number; projectCount: number }
+): Promise<void> {
+  const data = {
+    user: userId,
+    year: entry.year,
+    stats_type: UserYearlyStatsStatsTypeOptions.yearly,
+    completed_count: entry.completed_count,
+    started_count: entry.started_count,
+    in_progress_count: entry.in_progress_count,
+    total_diamonds: entry.total_diamonds,
+    estimated_drills: entry.total_diamonds,
+    status_breakdown: entry.status_breakdown,
+    insights: entry.insights,
+    projects_included: meta.projectCount,
+    calculation_duration_ms: meta.durationMs,
+    last_calculated: new Date().toISOString(),
+    cache_version: meta.cacheVersion,
+  };
+
+  if (existingId) {
+    await pb.collection(Collections.UserYearlyStats).update(existingId, data);
+  } else {
+    await pb.collection(Collections.UserYearlyStats).create(data);
+  }
+}
+
+/**
+ * Stats for a year and the year before it, served from user_yearly_stats when the cached
+ * cache_version still matches the user's projects and recalculated otherwise.
+ */
+export async function getYearlyStatsComparison(
+  userId: string,
+  year: number
+): Promise<YearlyStatsComparison> {
+  const years = [year, year - 1];
+
+  try {
+    const cacheVersion = await getStatsCacheVersion(userId);
+    const cached = await readCachedYears(userId, years, cacheVersion).catch(error => {
+      logger.warn('Failed to read cached yearly stats, recalculating', error);
+      return new Map<number, CachedYear>();
+    });
+
+    const [currentCached, previousCached] = years.map(y => cached.get(y)?.entry);
+    if (currentCached && previousCached) {
+      logger.debug(`Serving yearly stats for ${year} from cache`);
+      return {
+        current: currentCached,
+        previous: previousCached,
+        source: 'cache',
+        calculated_at: new Date().toISOString(),
+      };
+    }
+
+    const startTime = performance.now();
+    const [rows, sessions] = await Promise.all([
+      fetchStatsProjectRows(userId),
+      fetchStatsSessionRows(userId),
+    ]);
+    const [current, previous] = years.map(y => computeYearlyStatsEntry(rows, y, sessions));
+    const durationMs = Math.round(performance.now() - startTime);
+
+    const writes = [current, previous]
+      .filter(entry => isCacheableYear(entry.year))
+      .map(entry =>
+        writeCachedYear(userId, entry, cached.get(entry.year)?.id, {
+          cacheVersion,
+          durationMs,
+          projectCount: rows.length,
+        })
+      );
+    const results = await Promise.allSettled(writes);
+    results.forEach(result => {
+      if (result.status === 'rejected') {
+        logger.warn('Failed to cache yearly stats', result.reason);
+      }
+    });
+
+    logger.debug(`Calculated yearly stats for ${year} in ${durationMs}ms`);
+    return {
+      current,
+      previous,
+      source: 'realtime',
+      calculated_at: new Date().toISOString(),
+    };
+  } catch (error) {
+    logger.error('Failed to load yearly stats:', error);
+    throw error;
+  }
+}
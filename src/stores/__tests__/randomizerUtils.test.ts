@@ -0,0 +1,144 @@
+/**
+ * Tests for weighted and rule-based randomizer selection
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  generateRandomSelection,
+  getEligibleProjects,
+  getRecentWinnerIds,
+  getSelectionWeight,
+  pickWeightedProject,
+  validatePreferences,
+  type SpinWinnerRecord,
+} from '../randomizerUtils';
+import type { Project } from '@/types/project';
+
+const createProject = (overrides: Partial<Project>): Project => ({
+  id: overrides.id ?? 'p1',
+  userId: 'u1',
+  title: overrides.title ?? 'Project',
+  status: 'progress',
+  createdAt: '2025-01-01 00:00:00.000Z',
+  updatedAt: '2025-01-01 00:00:00.000Z',
+  ...overrides,
+});
+
+const now = new Date('2025-06-01T00:00:00.000Z');
+
+const spins: SpinWinnerRecord[] = [
+  { project: 'p1', spun_at: '2025-05-31 12:00:00.000Z' },
+  { project: 'p2', spun_at: '2025-05-20 12:00:00.000Z' },
+  { project: 'p1', spun_at: '2025-04-01 12:00:00.000Z' },
+];
+
+describe('getRecentWinnerIds', () => {
+  it('returns the last N winners, newest first', () => {
+    expect([...getRecentWinnerIds(spins, 1)]).toEqual(['p1']);
+    expect([...getRecentWinnerIds(spins, 2)]).toEqual(['p1', 'p2']);
+    expect(getRecentWinnerIds(spins, 0).size).toBe(0);
+  });
+});
+
+describe('getEligibleProjects', () => {
+  const projects = [createProject({ id: 'p1' }), createProject({ id: 'p2' })];
+
+  it('leaves recent winners off the wheel', () => {
+    const eligible = getEligibleProjects(projects, { spinHistory: spins, excludeRecentWinners: 1 });
+    expect(eligible.map(p => p.id)).toEqual(['p2']);
+  });
+
+  it('keeps every project when exclusion would leave none', () => {
+    const eligible = getEligibleProjects(projects, { spinHistory: spins, excludeRecentWinners: 2 });
+    expect(eligible).toHaveLength(2);
+  });
+});
+
+describe('getSelectionWeight', () => {
+  it('weights by months since the kit was received', () => {
+    const project = createProject({ dateReceived: '2025-03-03 00:00:00.000Z' });
+    expect(getSelectionWeight(project, { mode: 'stash_age', now })).toBeCloseTo(4);
+    expect(getSelectionWeight(createProject({}), { mode: 'stash_age', now })).toBe(1);
+  });
+
+  it('favours preferred tags and kit sizes', () => {
+    const project = createProject({
+      kit_category: 'mini',
+      tags: [
+        {
+          id: 't1',
+          userId: 'u1',
+          name: 'Cats',
+          slug: 'cats',
+          color: '#000000',
+          createdAt: '2025-01-01 00:00:00.000Z',
+          updatedAt: '2025-01-01 00:00:00.000Z',
+        },
+      ],
+    });
+    expect(getSelectionWeight(project, { mode: 'tag', weightedTagIds: ['t1'] })).toBe(3);
+    expect(getSelectionWeight(project, { mode: 'tag', weightedTagIds: ['t2'] })).toBe(1);
+    expect(getSelectionWeight(project, { mode: 'kit_size', preferredKitSize: 'mini' })).toBe(3);
+  });
+
+  it('favours projects that have not won recently', () => {
+    const options = { mode: 'not_recent' as const, spinHistory: spins, now };
+    const recent = getSelectionWeight(createProject({ id: 'p1' }), options);
+    const older = getSelectionWeight(createProject({ id: 'p2' }), options);
+    const never = getSelectionWeight(createProject({ id: 'p3' }), options);
+
+    expect(recent).toBeLessThan(older);
+    expect(older).toBeLessThan(never);
+  });
+});
+
+describe('pickWeightedProject', () => {
+  const projects = [
+    createProject({ id: 'p1', kit_category: 'full' }),
+    createProject({ id: 'p2', kit_category: 'mini' }),
+  ];
+
+  it('maps the random draw onto cumulative weights', () => {
+    const options = { mode: 'kit_size' as const, preferredKitSize: 'mini' as const };
+    // Weights are 1 and 3, so draws below 0.25 land on p1
+    expect(pickWeightedProject(projects, options, () => 0.2)?.id).toBe('p1');
+    expect(pickWeightedProject(projects, options, () => 0.3)?.id).toBe('p2');
+  });
+
+  it('returns null without projects', () => {
+    expect(pickWeightedProject([], { mode: 'uniform' })).toBeNull();
+  });
+});
+
+describe('generateRandomSelection', () => {
+  it('picks distinct projects in weighted modes', () => {
+    const projects = ['p1', 'p2', 'p3', 'p4'].map(id => createProject({ id }));
+    const selection = generateRandomSelection(projects, 3, {
+      mode: 'not_recent',
+      spinHistory: spins,
+    });
+    expect(selection.size).toBe(3);
+  });
+});
+
+describe('validatePreferences', () => {
+  it('keeps valid selection settings and drops invalid ones', () => {
+    const valid = validatePreferences({
+      selectionMode: 'tag',
+      weightedTagIds: ['t1'],
+      excludeRecentWinners: 3,
+    });
+    expect(valid.selectionMode).toBe('tag');
+    expect(valid.weightedTagIds).toEqual(['t1']);
+    expect(valid.excludeRecentWinners).toBe(3);
+
+    const invalid = validatePreferences({
+      selectionMode: 'sometimes' as never,
+      excludeRecentWinners: -1,
+    });
+    expect(invalid.selectionMode).toBe('uniform');
+    expect(invalid.excludeRecentWinners).toBe(0);
+  });
+});
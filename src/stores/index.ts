@@ -27,6 +27,7 @@ export type {
   RandomizerState,
   RandomizerError,
   RandomizerPreferences,
+  RandomizerSelectionMode,
   WheelRenderMode,
   DeviceType,
   SpinMethod,
@@ -42,6 +43,10 @@ export {
   validatePreferences,
   calculateStats,
   generateRandomSelection,
+  getRecentWinnerIds,
+  getEligibleProjects,
+  getSelectionWeight,
+  pickWeightedProject,
   isOptimalSelection,
   createStandardError,
   isRecoverableError,
@@ -59,6 +59,16 @@ export type DeviceType = 'mobile' | 'tablet' | 'desktop';
  */
 export type SpinMethod = 'click' | 'keyboard' | 'touch';
 
+/**
+ * How the winner is chosen from the selected projects
+ * - uniform: every project has the same chance
+ * - stash_age: projects received longer ago are more likely
+ * - tag: projects with a preferred tag are more likely
+ * - kit_size: projects of the preferred kit size are more likely
+ * - not_recent: projects that have not won in a while are more likely
+ */
+export type RandomizerSelectionMode = 'uniform' | 'stash_age' | 'tag' | 'kit_size' | 'not_recent';
+
 /**
  * User preferences that should be persisted
  */
@@ -75,6 +85,14 @@ export interface RandomizerPreferences {
   wheelSize: 'small' | 'medium' | 'large';
   /** Whether to show project images on wheel */
   showProjectImages: boolean;
+  /** How the winner is weighted */
+  selectionMode: RandomizerSelectionMode;
+  /** Tags favoured by the 'tag' selection mode */
+  weightedTagIds: string[];
+  /** Kit size favoured by the 'kit_size' selection mode */
+  preferredKitSize: 'full' | 'mini';
+  /** Leave the last N winners off the wheel (0 disables) */
+  excludeRecentWinners: number;
 }
 
 /**
@@ -209,6 +227,10 @@ const defaultPreferences: RandomizerPreferences = {
   autoClearResults: false,
   wheelSize: 'medium',
   showProjectImages: true,
+  selectionMode: 'uniform',
+  weightedTagIds: [],
+  preferredKitSize: 'full',
+  excludeRecentWinners: 0,
 };
 
 /**
@@ -618,6 +640,14 @@ export const useRandomizerStore = create<RandomizerState>()(
       partialize: state => ({
         preferences: state.preferences,
       }),
+      // Fill in preferences added since they were persisted
+      merge: (persisted, current) => ({
+        ...current,
+        preferences: {
+          ...defaultPreferences,
+          ...(persisted as Partial<Pick<RandomizerState, 'preferences'>> | undefined)?.preferences,
+        },
+      }),
       // Merge persisted preferences back into state
       onRehydrateStorage: () => state => {
         if (state?.preferences) {
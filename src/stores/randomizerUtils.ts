@@ -11,7 +11,13 @@
  */
 
 import type { Project } from '@/types/project';
-import { RandomizerError, RandomizerErrorType, RandomizerPreferences } from './randomizerStore';
+import type { RandomizerSpinsResponse } from '@/types/pocketbase.types';
+import {
+  RandomizerError,
+  RandomizerErrorType,
+  RandomizerPreferences,
+  RandomizerSelectionMode,
+} from './randomizerStore';
 import { createLogger } from '@/utils/logger';
 
 const logger = createLogger('RandomizerUtils');
@@ -147,6 +153,10 @@ export function validatePreferences(
     autoClearResults: false,
     wheelSize: 'medium',
     showProjectImages: true,
+    selectionMode: 'uniform',
+    weightedTagIds: [],
+    preferredKitSize: 'full',
+    excludeRecentWinners: 0,
   };
 
   const sanitized: RandomizerPreferences = { ...defaultPreferences };
@@ -181,6 +191,33 @@ export function validatePreferences(
     sanitized.showProjectImages = preferences.showProjectImages;
   }
 
+  // Validate selectionMode
+  if (preferences.selectionMode && SELECTION_MODES.includes(preferences.selectionMode)) {
+    sanitized.selectionMode = preferences.selectionMode;
+  }
+
+  // Validate weightedTagIds
+  if (Array.isArray(preferences.weightedTagIds)) {
+    sanitized.weightedTagIds = preferences.weightedTagIds.filter(
+      (id): id is string => typeof id === 'string' && id.length > 0
+    );
+  }
+
+  // Validate preferredKitSize
+  if (preferences.preferredKitSize && ['full', 'mini'].includes(preferences.preferredKitSize)) {
+    sanitized.preferredKitSize = preferences.preferredKitSize;
+  }
+
+  // Validate excludeRecentWinners
+  if (
+    typeof preferences.excludeRecentWinners === 'number' &&
+    Number.isInteger(preferences.excludeRecentWinners) &&
+    preferences.excludeRecentWinners >= 0 &&
+    preferences.excludeRecentWinners <= MAX_EXCLUDED_RECENT_WINNERS
+  ) {
+    sanitized.excludeRecentWinners = preferences.excludeRecentWinners;
+  }
+
   return sanitized;
 }
 
@@ -206,19 +243,163 @@ export function calculateStats(
   };
 }
 
+export const SELECTION_MODES: RandomizerSelectionMode[] = [
+  'uniform',
+  'stash_age',
+  'tag',
+  'kit_size',
+  'not_recent',
+];
+
+export const MAX_EXCLUDED_RECENT_WINNERS = 10;
+
+/** Weight multiplier for projects matching a preferred tag or kit size */
+const PREFERRED_MATCH_WEIGHT = 3;
+
+/** Cap on days counted towards 'not_recent' weighting, also used for projects that never won */
+const NOT_RECENT_MAX_DAYS = 90;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Spin fields needed for history-based weighting
+ */
+export type SpinWinnerRecord = Pick<RandomizerSpinsResponse, 'project' | 'spun_at'>;
+
 /**
- * Generates a random selection from available projects
+ * Options for weighted winner selection
+ */
+export interface WeightedSelectionOptions {
+  mode: RandomizerSelectionMode;
+  weightedTagIds?: string[];
+  preferredKitSize?: 'full' | 'mini';
+  /** Past spins, in any order */
+  spinHistory?: SpinWinnerRecord[];
+  excludeRecentWinners?: number;
+  now?: Date;
+}
+
+const daysSince = (value: string | undefined, now: Date): number | null => {
+  if (!value) return null;
+  const time = Date.parse(value.replace(' ', 'T'));
+  return isNaN(time) ? null : Math.max(0, (now.getTime() - time) / MS_PER_DAY);
+};
+
+/**
+ * IDs of the last N winning projects, newest first
+ */
+export function getRecentWinnerIds(spinHistory: SpinWinnerRecord[], count: number): Set<string> {
+  if (count <= 0) return new Set();
+
+  const winners = [...spinHistory]
+    .filter(spin => spin.project)
+    .sort((a, b) => b.spun_at.localeCompare(a.spun_at))
+    .slice(0, count)
+    .map(spin => spin.project);
+  return new Set(winners);
+}
+
+/**
+ * Projects that can win: recent winners are left out unless that would leave none
+ */
+export function getEligibleProjects(
+  projects: Project[],
+  options: Pick<WeightedSelectionOptions, 'spinHistory' | 'excludeRecentWinners'>
+): Project[] {
+  const recentWinners = getRecentWinnerIds(
+    options.spinHistory ?? [],
+    options.excludeRecentWinners ?? 0
+  );
+  const eligible = projects.filter(project => !recentWinners.has(project.id));
+  return eligible.length > 0 ? eligible : projects;
+}
+
+/**
+ * Relative chance of a project winning under the selected mode (always at least 1)
+ */
+export function getSelectionWeight(project: Project, options: WeightedSelectionOptions): number {
+  const now = options.now ?? new Date();
+
+  switch (options.mode) {
+    case 'stash_age': {
+      // One extra share per month since the kit arrived
+      const days = daysSince(project.dateReceived, now);
+      return days === null ? 1 : 1 + days / 30;
+    }
+    case 'tag': {
+      const preferred = new Set(options.weightedTagIds ?? []);
+      const matches = project.tags?.some(tag => preferred.has(tag.id));
+      return matches ? PREFERRED_MATCH_WEIGHT : 1;
+    }
+    case 'kit_size':
+      return options.preferredKitSize && project.kit_category === options.preferredKitSize
+        ? PREFERRED_MATCH_WEIGHT
+        : 1;
+    case 'not_recent': {
+      // One extra share per week since the last win, capped so old wins stop mattering
+      const lastWin = (options.spinHistory ?? [])
+        .filter(spin => spin.project === project.id)
+        .reduce<
+          string | undefined
+        >((latest, spin) => (!latest || spin.spun_at > latest ? spin.spun_at : latest), undefined);
+      const days = daysSince(lastWin, now) ?? NOT_RECENT_MAX_DAYS;
+      return 1 + Math.min(days, NOT_RECENT_MAX_DAYS) / 7;
+    }
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Pick a winner using the selection mode's weights and recent-winner exclusion
+ */
+export function pickWeightedProject(
+  projects: Project[],
+  options: WeightedSelectionOptions,
+  random: () => number = Math.random
+): Project | null {
+  const eligible = getEligibleProjects(projects, options);
+  if (eligible.length === 0) return null;
+
+  const weights = eligible.map(project => getSelectionWeight(project, options));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let target = random() * total;
+  for (let index = 0; index < eligible.length; index++) {
+    target -= weights[index];
+    if (target < 0) return eligible[index];
+  }
+  return eligible[eligible.length - 1];
+}
+
+/**
+ * Generates a random selection from available projects, weighted by the selection
+ * mode when options are given
  */
 export function generateRandomSelection(
   availableProjects: Project[],
-  count: number = 3
+  count: number = 3,
+  options?: WeightedSelectionOptions
 ): Set<string> {
   if (availableProjects.length <= count) {
     return new Set(availableProjects.map(p => p.id));
   }
 
-  const shuffled = [...availableProjects].sort(() => Math.random() - 0.5);
-  return new Set(shuffled.slice(0, count).map(p => p.id));
+  if (!options || options.mode === 'uniform') {
+    const shuffled = [...availableProjects].sort(() => Math.random() - 0.5);
+    return new Set(shuffled.slice(0, count).map(p => p.id));
+  }
+
+  // Weighted sampling without replacement: draw one at a time from what is left
+  const remaining = [...availableProjects];
+  const selected = new Set<string>();
+  while (selected.size < count && remaining.length > 0) {
+    const pick = pickWeightedProject(remaining, { ...options, excludeRecentWinners: 0 });
+    if (!pick) break;
+    selected.add(pick.id);
+    remaining.splice(remaining.indexOf(pick), 1);
+  }
+  return selected;
 }
 
 /**
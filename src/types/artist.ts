@@ -0,0 +1,38 @@
+/**
+ * Artist detail types: the artist's links and the user's projects by them
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { ProjectStatus } from './project';
+
+/**
+ * A project by the artist, with its thumbnail URL for the gallery
+ */
+export interface ArtistProject {
+  id: string;
+  title: string;
+  status: ProjectStatus;
+  /** Gallery thumbnail, unset when the project has no image */
+  thumbnailUrl?: string;
+}
+
+export interface ArtistDetail {
+  id: string;
+  name: string;
+  websiteUrl?: string;
+  socialLinks: string[];
+  projects: ArtistProject[];
+}
+
+export interface ArtistLinksFormValues {
+  websiteUrl: string;
+  /** One URL per line */
+  socialLinks: string;
+}
+
+export interface StatusBreakdownEntry {
+  status: ProjectStatus;
+  label: string;
+  count: number;
+}
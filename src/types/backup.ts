@@ -0,0 +1,211 @@
+/**
+ * Full-account backup format types
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { ProjectStatus } from './project-status';
+import type { ClaimIssueType, ClaimStatus } from './claim';
+
+/**
+ * Reference to a file attached to a backed-up record.
+ * `dataUrl` is only present when the backup was created with images included.
+ */
+export interface BackupFileRef {
+  filename: string;
+  dataUrl?: string;
+}
+
+export interface BackupCompany {
+  id: string;
+  name: string;
+  website_url?: string;
+  quality_rating?: number;
+  quality_notes?: string;
+}
+
+export interface BackupArtist {
+  id: string;
+  name: string;
+  website_url?: string;
+  social_links?: string[];
+}
+
+export interface BackupTag {
+  id: string;
+  name: string;
+  slug: string;
+  color: string;
+}
+
+export interface BackupProjectTag {
+  project: string;
+  tag: string;
+}
+
+export interface BackupOrder {
+  id: string;
+  company?: string;
+  order_number?: string;
+  order_date?: string;
+  expected_delivery?: string;
+  tracking_note?: string;
+  date_received?: string;
+}
+
+/**
+ * Project as stored in a backup. `company`, `artist` and `order` hold the record IDs
+ * from the source account so they can be remapped on restore.
+ */
+export interface BackupProject {
+  id: string;
+  title: string;
+  status: ProjectStatus;
+  company?: string;
+  artist?: string;
+  order?: string;
+  kit_category?: 'full' | 'mini';
+  drillShape?: string;
+  drillType?: string;
+  canvasType?: string;
+  width?: number;
+  height?: number;
+  totalDiamonds?: number;
+  price?: number;
+  shippingCost?: number;
+  discount?: number;
+  currency?: string;
+  orderReference?: string;
+  datePurchased?: string;
+  dateReceived?: string;
+  dateStarted?: string;
+  dateCompleted?: string;
+  generalNotes?: string;
+  sourceUrl?: string;
+  image?: BackupFileRef;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BackupProgressNote {
+  id: string;
+  project: string;
+  content: string;
+  date: string;
+  image?: BackupFileRef;
+  drillsPlaced?: number;
+  percentComplete?: number;
+  createdAt: string;
+}
+
+/**
+ * One colour of a project's drill legend. `added_to_inventory` is kept so bags already
+ * counted in the leftovers are not counted again after a restore.
+ */
+export interface BackupProjectDrill {
+  project: string;
+  dmc_code: string;
+  symbol?: string;
+  required_count?: number;
+  bags_received?: number;
+  added_to_inventory: boolean;
+}
+
+export interface BackupLeftoverDrill {
+  dmc_code: string;
+  bags: number;
+}
+
+export interface BackupClaim {
+  project: string;
+  issue_type: ClaimIssueType;
+  colours: string[];
+  description?: string;
+  date_reported: string;
+  status: ClaimStatus;
+  date_closed?: string;
+}
+
+/**
+ * A finished timer session; sessions still running are not backed up
+ */
+export interface BackupWorkSession {
+  project: string;
+  started_at: string;
+  ended_at: string;
+  duration_seconds?: number;
+  drills_placed?: number;
+}
+
+export interface BackupRandomizerSpin {
+  project?: string;
+  project_title: string;
+  project_company?: string;
+  project_artist?: string;
+  selected_projects: string[];
+  selected_count?: number;
+  metadata?: Record<string, unknown> | null;
+  spun_at: string;
+}
+
+export interface AccountBackupData {
+  companies: BackupCompany[];
+  artists: BackupArtist[];
+  tags: BackupTag[];
+  orders: BackupOrder[];
+  projects: BackupProject[];
+  projectTags: BackupProjectTag[];
+  progressNotes: BackupProgressNote[];
+  workSessions: BackupWorkSession[];
+  projectDrills: BackupProjectDrill[];
+  leftoverDrills: BackupLeftoverDrill[];
+  claims: BackupClaim[];
+  randomizerSpins: BackupRandomizerSpin[];
+}
+
+/**
+ * Account settings stored on the user record
+ */
+export interface BackupSettings {
+  claim_reminder_days?: number;
+}
+
+/**
+ * Top-level backup document written to disk
+ */
+export interface AccountBackup {
+  format: 'organized-glitter-backup';
+  version: number;
+  exportedAt: string;
+  source: {
+    url: string;
+    username?: string;
+  };
+  includesImages: boolean;
+  settings?: BackupSettings;
+  data: AccountBackupData;
+}
+
+export type BackupCollectionKey = keyof AccountBackupData;
+
+export type BackupCounts = Record<BackupCollectionKey, number>;
+
+/**
+ * Progress callback payload for long-running backup and restore operations
+ */
+export interface BackupProgress {
+  phase: BackupCollectionKey | 'images' | 'done';
+  completed: number;
+  total: number;
+}
+
+/**
+ * Result of restoring a backup into the current account
+ */
+export interface RestoreSummary {
+  created: BackupCounts;
+  /** Companies, artists and tags that already existed and were reused by name */
+  reused: Pick<BackupCounts, 'companies' | 'artists' | 'tags'>;
+  imagesRestored: number;
+  errors: string[];
+}
@@ -0,0 +1,40 @@
+/**
+ * Calendar types: project milestones and progress notes placed on their dates
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+export type CalendarEventKind = 'purchased' | 'received' | 'started' | 'completed' | 'progress';
+
+export interface CalendarEvent {
+  /** Stable across loads, used as the .ics UID */
+  id: string;
+  kind: CalendarEventKind;
+  /** YYYY-MM-DD */
+  date: string;
+  projectId: string;
+  projectTitle: string;
+  /** Progress note excerpt, for progress events only */
+  detail?: string;
+}
+
+export type CalendarViewMode = 'month' | 'week';
+
+/** Project dates used to build milestone events */
+export interface CalendarProject {
+  id: string;
+  title: string;
+  datePurchased?: string;
+  dateReceived?: string;
+  dateStarted?: string;
+  dateCompleted?: string;
+}
+
+/** Progress note fields used to build progress events */
+export interface CalendarProgressNote {
+  id: string;
+  projectId: string;
+  date: string;
+  content?: string;
+  percentComplete?: number;
+}
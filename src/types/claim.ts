@@ -0,0 +1,60 @@
+/**
+ * Claim types: problems with a kit reported to the shop it came from, such as missing
+ * drills or a damaged canvas
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+export type ClaimIssueType =
+  | 'missing_drills'
+  | 'wrong_colours'
+  | 'damaged_canvas'
+  | 'wrong_size'
+  | 'other';
+
+export type ClaimStatus = 'open' | 'replacement_shipped' | 'resolved' | 'refused';
+
+export interface Claim {
+  id: string;
+  projectId: string;
+  projectTitle?: string;
+  /** The project's company, which the claim is filed with */
+  companyId?: string;
+  companyName?: string;
+  issueType: ClaimIssueType;
+  /** Normalized DMC codes of the colours affected */
+  colours: string[];
+  description?: string;
+  /** YYYY-MM-DD */
+  dateReported: string;
+  status: ClaimStatus;
+  /** YYYY-MM-DD; set when the claim is resolved or refused */
+  dateClosed?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Claim fields edited in the claim form
+ */
+export interface ClaimFormData {
+  issueType: ClaimIssueType;
+  colours: string[];
+  description: string;
+  /** YYYY-MM-DD */
+  dateReported: string;
+  status: ClaimStatus;
+}
+
+/**
+ * How a company has handled the claims filed with it
+ */
+export interface CompanyClaimSummary {
+  total: number;
+  byStatus: Record<ClaimStatus, number>;
+  byIssueType: Record<ClaimIssueType, number>;
+  /** Share of closed claims that were resolved rather than refused; null with none closed */
+  resolvedRate: number | null;
+  /** Average days from report to close, over closed claims; null with none closed */
+  averageDaysToClose: number | null;
+}
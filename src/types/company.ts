@@ -0,0 +1,51 @@
+/**
+ * Company scorecard types: what the user's own projects and orders say about a shop
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { Order } from './order';
+import type { ProjectStatus } from './project';
+
+/**
+ * A project from the company, with the fields the scorecard is worked out from
+ */
+export interface CompanyScorecardProject {
+  id: string;
+  title: string;
+  status: ProjectStatus;
+  datePurchased?: string;
+  dateReceived?: string;
+  width?: number;
+  height?: number;
+  totalDiamonds?: number;
+}
+
+export interface CompanyDetail {
+  id: string;
+  name: string;
+  websiteUrl?: string;
+  /** 1-5, set by the user */
+  qualityRating?: number;
+  qualityNotes?: string;
+  projects: CompanyScorecardProject[];
+  orders: Order[];
+}
+
+export interface CompanyScorecard {
+  /** Projects past the wishlist, i.e. kits actually bought */
+  kitsBought: number;
+  /** Average days from date purchased to date received, null without any dated kits */
+  averageDeliveryDays: number | null;
+  /** Number of kits with both dates, the sample behind the delivery average */
+  deliverySampleSize: number;
+  completedCount: number;
+  /** Completed kits as a share of kits bought (0-1), null when nothing was bought */
+  completionRate: number | null;
+  openOrderCount: number;
+  overdueOrders: Order[];
+  /** Average dimensions in cm over kits with both width and height recorded */
+  averageWidth: number | null;
+  averageHeight: number | null;
+  averageDiamonds: number | null;
+}
@@ -53,6 +53,93 @@ export const CachedStatsRecordSchema = YearlyStatsSchema.extend({
 
 export type CachedStatsRecord = z.infer<typeof CachedStatsRecordSchema>;
 
+// Company or artist ranked by completed projects
+export const RankedEntitySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  count: z.number().min(0).int(),
+});
+
+export type RankedEntity = z.infer<typeof RankedEntitySchema>;
+
+// Per-year totals used for the year-over-year charts
+export const YearTotalsSchema = z.object({
+  year: z.number().int(),
+  completed: z.number().min(0).int(),
+  diamonds: z.number().min(0).int(),
+  acquired: z.number().min(0).int(),
+});
+
+export type YearTotals = z.infer<typeof YearTotalsSchema>;
+
+// Money spent with one company or in one status, in a single currency
+export const SpendingEntrySchema = z.object({
+  key: z.string(),
+  name: z.string(),
+  amount: z.number().min(0),
+  count: z.number().min(0).int(),
+});
+
+export type SpendingEntry = z.infer<typeof SpendingEntrySchema>;
+
+// Spending report for one currency. Amounts are price + shipping - discount.
+export const CurrencySpendingSchema = z.object({
+  currency: z.string(),
+  // Kits acquired in the year
+  total: z.number().min(0),
+  kit_count: z.number().min(0).int(),
+  by_month: z.array(z.number().min(0)).length(12),
+  by_company: z.array(SpendingEntrySchema),
+  by_status: z.array(SpendingEntrySchema),
+  // User-wide: cost of purchased and stashed kits that haven't been started
+  stash_value: z.number().min(0),
+  stash_count: z.number().min(0).int(),
+});
+
+export type CurrencySpending = z.infer<typeof CurrencySpendingSchema>;
+
+// Insights for the stats page, stored in the `insights` JSON field of user_yearly_stats
+export const YearlyInsightsSchema = z.object({
+  completions_by_month: z.array(z.number().min(0).int()).length(12),
+  acquisitions_by_month: z.array(z.number().min(0).int()).length(12),
+  acquired_count: z.number().min(0).int(),
+  average_days_to_complete: z.number().min(0).nullable(),
+  // Work sessions started in the year
+  hours_worked: z.number().min(0),
+  session_count: z.number().min(0).int(),
+  drills_per_hour: z.number().min(0).nullable(),
+  top_companies: z.array(RankedEntitySchema),
+  top_artists: z.array(RankedEntitySchema),
+  // One report per currency used, most used currency first
+  spending: z.array(CurrencySpendingSchema),
+  // User-wide values, kept on every yearly record so any cached year can render the page
+  yearly_totals: z.array(YearTotalsSchema),
+  available_years: z.array(z.number().int()),
+});
+
+export type YearlyInsights = z.infer<typeof YearlyInsightsSchema>;
+
+// Cached yearly record including insights
+export const CachedInsightsRecordSchema = CachedStatsRecordSchema.extend({
+  started_count: z.number().min(0).int(),
+  insights: YearlyInsightsSchema,
+});
+
+// Stats for a single year as shown on the stats page
+export interface YearlyStatsEntry extends YearlyStats {
+  year: number;
+  started_count: number;
+  insights: YearlyInsights;
+}
+
+// Stats page data: the selected year and the year before it for comparison
+export interface YearlyStatsComparison {
+  current: YearlyStatsEntry;
+  previous: YearlyStatsEntry;
+  source: 'cache' | 'realtime';
+  calculated_at: string;
+}
+
 // Stats result with source information
 export const StatsResultSchema = z.object({
   stats: YearlyStatsSchema,
@@ -25,6 +25,11 @@ export interface DbProject {
   image_url?: string | null;
   source_url?: string | null;
   total_diamonds?: number | null;
+  price?: number | null;
+  shipping_cost?: number | null;
+  discount?: number | null;
+  currency?: string | null;
+  order_reference?: string | null;
   deleted_at?: string | null;
   kit_category?: 'full' | 'mini' | null; // Added kit_category
   created_at: string;
@@ -0,0 +1,64 @@
+/**
+ * Drill types: a project's colour legend and the user's leftover drills, both keyed by
+ * DMC colour code
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { ProjectStatus } from './project';
+
+/**
+ * One colour on a project's legend
+ */
+export interface ProjectDrill {
+  id: string;
+  projectId: string;
+  /** Normalized DMC code, e.g. `310`, `B5200`, `ECRU` */
+  dmcCode: string;
+  /** Symbol printed on the canvas for this colour */
+  symbol?: string;
+  /** Drills the canvas needs in this colour */
+  requiredCount: number;
+  bagsReceived: number;
+  /** Set once the colour's bags have been counted into the leftover drills */
+  addedToInventory: boolean;
+}
+
+/**
+ * Legend fields edited in the drill form or read from an imported legend
+ */
+export interface ProjectDrillFormData {
+  dmcCode: string;
+  symbol: string;
+  requiredCount: number;
+  /** Unset when an imported legend has no bag counts, so existing counts are kept */
+  bagsReceived?: number;
+}
+
+/**
+ * Leftover drills of one colour, counted in bags
+ */
+export interface LeftoverDrill {
+  id: string;
+  dmcCode: string;
+  bags: number;
+  updatedAt: string;
+}
+
+/**
+ * A project whose legend uses a given colour
+ */
+export interface DrillColourUsage {
+  projectId: string;
+  projectTitle: string;
+  status: ProjectStatus;
+  symbol?: string;
+  requiredCount: number;
+  bagsReceived: number;
+}
+
+export interface DrillLegendImport {
+  rows: ProjectDrillFormData[];
+  /** Rows without a usable DMC code */
+  skipped: number;
+}
@@ -41,6 +41,8 @@ export interface ProjectUpdateData {
   status?: string;
   kit_category?: string;
   drill_shape?: string;
+  drill_type?: string;
+  canvas_type?: string;
   date_purchased?: string | null;
   date_started?: string | null;
   date_completed?: string | null;
@@ -48,6 +50,11 @@ export interface ProjectUpdateData {
   width?: number | null;
   height?: number | null;
   total_diamonds?: number | null;
+  price?: number | null;
+  shipping_cost?: number | null;
+  discount?: number | null;
+  currency?: string;
+  order_reference?: string;
   general_notes?: string;
   source_url?: string;
   // Image field - will be handled separately in file upload
@@ -0,0 +1,59 @@
+/**
+ * Completed-projects gallery types
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+/** The parts of a PocketBase record needed to build file URLs */
+export type GalleryFileRecord = {
+  id: string;
+  collectionId: string;
+  collectionName: string;
+};
+
+export type GalleryImageKind = 'project' | 'progress';
+
+export interface GalleryImage {
+  id: string;
+  kind: GalleryImageKind;
+  /** Project or progress note record the file belongs to */
+  record: GalleryFileRecord;
+  filename: string;
+  projectId: string;
+  projectTitle: string;
+  /** YYYY-MM-DD of the progress note, for progress images only */
+  date?: string;
+}
+
+export interface GalleryTag {
+  id: string;
+  name: string;
+}
+
+export interface GalleryProject {
+  id: string;
+  title: string;
+  /** YYYY-MM-DD */
+  dateCompleted?: string;
+  artistId?: string;
+  artistName?: string;
+  tags: GalleryTag[];
+  /** The project image first, then the latest progress image */
+  images: GalleryImage[];
+}
+
+/** Empty strings mean "any" */
+export interface GalleryFilters {
+  year: string;
+  tagId: string;
+  artistId: string;
+}
+
+export interface GalleryFilterOptions {
+  /** Newest first */
+  years: string[];
+  tags: GalleryTag[];
+  artists: Array<{ id: string; name: string }>;
+  /** Whether any project has no completion date, so "Undated" can be offered */
+  hasUndated: boolean;
+}
@@ -0,0 +1,72 @@
+/**
+ * Type definitions for the offline write queue
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { ProjectUpdateData } from './file-upload';
+
+/** Where a queued write stands: waiting to replay, or held back until the user decides */
+export type QueuedWriteStatus = 'pending' | 'conflict' | 'failed';
+
+/** A status change, dated when it was made rather than when it syncs */
+export interface QueuedStatusChange {
+  kind: 'project-status';
+  newStatus: string;
+  currentStatus?: string;
+  /** YYYY-MM-DD in the user's timezone at the time of the change */
+  today: string;
+}
+
+/** A project edit from the edit form, with company and artist still as names if `resolveRelations` */
+export interface QueuedProjectUpdate {
+  kind: 'project-update';
+  data: ProjectUpdateData;
+  imageFile?: File;
+  resolveRelations: boolean;
+}
+
+/** A new progress note, with its already-compressed picture */
+export interface QueuedProgressNote {
+  kind: 'progress-note';
+  data: {
+    content: string;
+    date: string;
+    drills_placed?: number;
+    percent_complete?: number;
+  };
+  imageFile?: File;
+}
+
+export type QueuedWritePayload = QueuedStatusChange | QueuedProjectUpdate | QueuedProgressNote;
+
+export interface QueuedWrite {
+  /** Assigned by IndexedDB; writes replay in this order */
+  sequence: number;
+  userId: string;
+  projectId: string;
+  projectTitle?: string;
+  /** The project's `updated` timestamp the user was looking at; a different server value is a conflict */
+  baseUpdated?: string;
+  payload: QueuedWritePayload;
+  status: QueuedWriteStatus;
+  /** Replay over a conflicting server change instead of stopping */
+  overwrite?: boolean;
+  /** Server `updated` timestamp found when the conflict was detected */
+  serverUpdated?: string;
+  error?: string;
+  createdAt: string;
+}
+
+export type NewQueuedWrite = Pick<
+  QueuedWrite,
+  'userId' | 'projectId' | 'projectTitle' | 'baseUpdated' | 'payload'
+>;
+
+export interface OfflineSyncResult {
+  synced: number;
+  conflicts: number;
+  failed: number;
+  /** The connection dropped again before the queue was through */
+  interrupted: boolean;
+}
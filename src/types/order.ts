@@ -0,0 +1,51 @@
+/**
+ * Order types: one purchase from a company, shipped together and containing several kits
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { ProjectStatus } from './project';
+
+/**
+ * A kit on an order, or one that can be added to an order, with just enough detail
+ * to list it on the orders page
+ */
+export interface OrderProject {
+  id: string;
+  title: string;
+  status: ProjectStatus;
+  /** Unset when the kit isn't on any order */
+  orderId?: string;
+}
+
+export interface Order {
+  id: string;
+  userId: string;
+  companyId?: string;
+  companyName?: string;
+  orderNumber?: string;
+  /** YYYY-MM-DD */
+  orderDate?: string;
+  /** YYYY-MM-DD */
+  expectedDelivery?: string;
+  trackingNote?: string;
+  /** YYYY-MM-DD; unset while the order is open */
+  dateReceived?: string;
+  projects: OrderProject[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Order fields edited in the order form. Empty strings clear a field.
+ */
+export interface OrderFormData {
+  companyId: string;
+  orderNumber: string;
+  orderDate: string;
+  expectedDelivery: string;
+  trackingNote: string;
+  projectIds: string[];
+}
+
+export type OrderState = 'open' | 'overdue' | 'received';
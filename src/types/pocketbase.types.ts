@@ -13,16 +13,25 @@ export enum Collections {
 	Superusers = "_superusers",
 	AccountDeletions = "account_deletions",
 	Artists = "artists",
+	Claims = "claims",
 	Companies = "companies",
+	LeftoverDrills = "leftover_drills",
+	Orders = "orders",
 	ProgressNotes = "progress_notes",
+	ProjectDrills = "project_drills",
+	ProjectShares = "project_shares",
 	ProjectTags = "project_tags",
 	Projects = "projects",
+	PublicProfiles = "public_profiles",
+	RandomizerPools = "randomizer_pools",
 	RandomizerSpins = "randomizer_spins",
+	SavedViews = "saved_views",
 	Tags = "tags",
 	UserDashboardSettings = "user_dashboard_settings",
 	UserDashboardStats = "user_dashboard_stats",
 	UserYearlyStats = "user_yearly_stats",
 	Users = "users",
+	WorkSessions = "work_sessions",
 }
 
 // Alias types for improved usability
@@ -111,10 +120,40 @@ export type AccountDeletionsRecord = {
 	user_id: string
 }
 
-export type ArtistsRecord = {
+export type ArtistsRecord<Tsocial_links = unknown> = {
 	created?: IsoDateString
 	id: string
 	name: string
+	social_links?: null | Tsocial_links
+	updated?: IsoDateString
+	user: RecordIdString
+	website_url?: string
+}
+
+export enum ClaimsIssueTypeOptions {
+	"missing_drills" = "missing_drills",
+	"wrong_colours" = "wrong_colours",
+	"damaged_canvas" = "damaged_canvas",
+	"wrong_size" = "wrong_size",
+	"other" = "other",
+}
+
+export enum ClaimsStatusOptions {
+	"open" = "open",
+	"replacement_shipped" = "replacement_shipped",
+	"resolved" = "resolved",
+	"refused" = "refused",
+}
+export type ClaimsRecord<Tcolours = unknown> = {
+	colours?: null | Tcolours
+	created?: IsoDateString
+	date_closed?: IsoDateString
+	date_reported: IsoDateString
+	description?: string
+	id: string
+	issue_type: ClaimsIssueTypeOptions
+	project: RecordIdString
+	status: ClaimsStatusOptions
 	updated?: IsoDateString
 	user: RecordIdString
 }
@@ -123,19 +162,70 @@ export type CompaniesRecord = {
 	created?: IsoDateString
 	id: string
 	name: string
+	quality_notes?: string
+	quality_rating?: number
 	updated?: IsoDateString
 	user: RecordIdString
 	website_url?: string
 }
 
+export type LeftoverDrillsRecord = {
+	bags?: number
+	created?: IsoDateString
+	dmc_code: string
+	id: string
+	updated?: IsoDateString
+	user: RecordIdString
+}
+
+export type OrdersRecord = {
+	company?: RecordIdString
+	created?: IsoDateString
+	date_received?: IsoDateString
+	expected_delivery?: IsoDateString
+	id: string
+	order_date?: IsoDateString
+	order_number?: string
+	tracking_note?: string
+	updated?: IsoDateString
+	user: RecordIdString
+}
+
 export type ProgressNotesRecord = {
 	content?: HTMLString
 	created?: IsoDateString
 	date: IsoDateString
+	drills_placed?: number
 	id: string
 	image?: string
+	percent_complete?: number
+	project: RecordIdString
+	updated?: IsoDateString
+}
+
+export type ProjectDrillsRecord = {
+	added_to_inventory?: boolean
+	bags_received?: number
+	created?: IsoDateString
+	dmc_code: string
+	id: string
 	project: RecordIdString
+	required_count?: number
+	symbol?: string
 	updated?: IsoDateString
+	user: RecordIdString
+}
+
+export type ProjectSharesRecord<Tfields = unknown, Tsnapshot = unknown> = {
+	created?: IsoDateString
+	fields?: null | Tfields
+	id: string
+	project: RecordIdString
+	show_on_profile?: boolean
+	snapshot?: null | Tsnapshot
+	token: string
+	updated?: IsoDateString
+	user: RecordIdString
 }
 
 export type ProjectTagsRecord = {
@@ -166,20 +256,43 @@ export enum ProjectsDrillShapeOptions {
 	"round" = "round",
 	"square" = "square",
 }
+
+export enum ProjectsDrillTypeOptions {
+	"standard" = "standard",
+	"ab" = "ab",
+	"fairy_dust" = "fairy_dust",
+	"glow_in_dark" = "glow_in_dark",
+	"special_shaped" = "special_shaped",
+	"mixed" = "mixed",
+}
+
+export enum ProjectsCanvasTypeOptions {
+	"canvas" = "canvas",
+	"linen" = "linen",
+	"mixed" = "mixed",
+}
 export type ProjectsRecord = {
 	artist?: RecordIdString
+	canvas_type?: ProjectsCanvasTypeOptions
 	company?: RecordIdString
 	created?: IsoDateString
+	currency?: string
 	date_completed?: IsoDateString
 	date_purchased?: IsoDateString
 	date_received?: IsoDateString
 	date_started?: IsoDateString
+	discount?: number
 	drill_shape?: ProjectsDrillShapeOptions
+	drill_type?: ProjectsDrillTypeOptions
 	general_notes?: HTMLString
 	height?: number
 	id: string
 	image?: string
 	kit_category: ProjectsKitCategoryOptions
+	order?: RecordIdString
+	order_reference?: string
+	price?: number
+	shipping_cost?: number
 	source_url?: string
 	status: ProjectsStatusOptions
 	title: string
@@ -189,6 +302,26 @@ export type ProjectsRecord = {
 	width?: number
 }
 
+export type PublicProfilesRecord = {
+	bio?: string
+	created?: IsoDateString
+	display_name?: string
+	enabled?: boolean
+	id: string
+	updated?: IsoDateString
+	user: RecordIdString
+	username: string
+}
+
+export type RandomizerPoolsRecord<Tfilters = unknown> = {
+	created?: IsoDateString
+	filters: null | Tfilters
+	id: string
+	name: string
+	updated?: IsoDateString
+	user: RecordIdString
+}
+
 export type RandomizerSpinsRecord<Tmetadata = unknown, Tselected_projects = unknown> = {
 	created?: IsoDateString
 	id: string
@@ -204,6 +337,15 @@ export type RandomizerSpinsRecord<Tmetadata = unknown, Tselected_projects = unkn
 	user: RecordIdString
 }
 
+export type SavedViewsRecord<Tfilters = unknown> = {
+	created?: IsoDateString
+	filters: null | Tfilters
+	id: string
+	name: string
+	updated?: IsoDateString
+	user: RecordIdString
+}
+
 export type TagsRecord = {
 	color: string
 	created?: IsoDateString
@@ -242,7 +384,7 @@ export type UserDashboardStatsRecord = {
 export enum UserYearlyStatsStatsTypeOptions {
 	"yearly" = "yearly",
 }
-export type UserYearlyStatsRecord<Tstatus_breakdown = unknown> = {
+export type UserYearlyStatsRecord<Tstatus_breakdown = unknown, Tinsights = unknown> = {
 	cache_version?: string
 	calculation_duration_ms?: number
 	completed_count?: number
@@ -250,6 +392,7 @@ export type UserYearlyStatsRecord<Tstatus_breakdown = unknown> = {
 	estimated_drills?: number
 	id: string
 	in_progress_count?: number
+	insights?: null | Tinsights
 	last_calculated: IsoDateString
 	projects_included?: number
 	started_count?: number
@@ -264,6 +407,7 @@ export type UserYearlyStatsRecord<Tstatus_breakdown = unknown> = {
 export type UsersRecord = {
 	avatar?: string
 	beta_tester?: boolean
+	claim_reminder_days?: number
 	created?: IsoDateString
 	email: string
 	emailVisibility?: boolean
@@ -276,6 +420,18 @@ export type UsersRecord = {
 	verified?: boolean
 }
 
+export type WorkSessionsRecord = {
+	created?: IsoDateString
+	drills_placed?: number
+	duration_seconds?: number
+	ended_at?: IsoDateString
+	id: string
+	project: RecordIdString
+	started_at: IsoDateString
+	updated?: IsoDateString
+	user: RecordIdString
+}
+
 // Response types include system fields and match responses from the PocketBase API
 export type AuthoriginsResponse<Texpand = unknown> = Required<AuthoriginsRecord> & BaseSystemFields<Texpand>
 export type ExternalauthsResponse<Texpand = unknown> = Required<ExternalauthsRecord> & BaseSystemFields<Texpand>
@@ -283,17 +439,26 @@ export type MfasResponse<Texpand = unknown> = Required<MfasRecord> & BaseSystemF
 export type OtpsResponse<Texpand = unknown> = Required<OtpsRecord> & BaseSystemFields<Texpand>
 export type SuperusersResponse<Texpand = unknown> = Required<SuperusersRecord> & AuthSystemFields<Texpand>
 export type AccountDeletionsResponse<Texpand = unknown> = Required<AccountDeletionsRecord> & BaseSystemFields<Texpand>
-export type ArtistsResponse<Texpand = unknown> = Required<ArtistsRecord> & BaseSystemFields<Texpand>
+export type ArtistsResponse<Tsocial_links = unknown, Texpand = unknown> = Required<ArtistsRecord<Tsocial_links>> & BaseSystemFields<Texpand>
+export type ClaimsResponse<Tcolours = unknown, Texpand = unknown> = Required<ClaimsRecord<Tcolours>> & BaseSystemFields<Texpand>
 export type CompaniesResponse<Texpand = unknown> = Required<CompaniesRecord> & BaseSystemFields<Texpand>
+export type LeftoverDrillsResponse<Texpand = unknown> = Required<LeftoverDrillsRecord> & BaseSystemFields<Texpand>
+export type OrdersResponse<Texpand = unknown> = Required<OrdersRecord> & BaseSystemFields<Texpand>
 export type ProgressNotesResponse<Texpand = unknown> = Required<ProgressNotesRecord> & BaseSystemFields<Texpand>
+export type ProjectDrillsResponse<Texpand = unknown> = Required<ProjectDrillsRecord> & BaseSystemFields<Texpand>
+export type ProjectSharesResponse<Tfields = unknown, Tsnapshot = unknown, Texpand = unknown> = Required<ProjectSharesRecord<Tfields, Tsnapshot>> & BaseSystemFields<Texpand>
 export type ProjectTagsResponse<Texpand = unknown> = Required<ProjectTagsRecord> & BaseSystemFields<Texpand>
 export type ProjectsResponse<Texpand = unknown> = Required<ProjectsRecord> & BaseSystemFields<Texpand>
+export type PublicProfilesResponse<Texpand = unknown> = Required<PublicProfilesRecord> & BaseSystemFields<Texpand>
+export type RandomizerPoolsResponse<Tfilters = unknown, Texpand = unknown> = Required<RandomizerPoolsRecord<Tfilters>> & BaseSystemFields<Texpand>
 export type RandomizerSpinsResponse<Tmetadata = unknown, Tselected_projects = unknown, Texpand = unknown> = Required<RandomizerSpinsRecord<Tmetadata, Tselected_projects>> & BaseSystemFields<Texpand>
+export type SavedViewsResponse<Tfilters = unknown, Texpand = unknown> = Required<SavedViewsRecord<Tfilters>> & BaseSystemFields<Texpand>
 export type TagsResponse<Texpand = unknown> = Required<TagsRecord> & BaseSystemFields<Texpand>
 export type UserDashboardSettingsResponse<Tnavigation_context = unknown, Texpand = unknown> = Required<UserDashboardSettingsRecord<Tnavigation_context>> & BaseSystemFields<Texpand>
 export type UserDashboardStatsResponse<Texpand = unknown> = Required<UserDashboardStatsRecord> & BaseSystemFields<Texpand>
-export type UserYearlyStatsResponse<Tstatus_breakdown = unknown, Texpand = unknown> = Required<UserYearlyStatsRecord<Tstatus_breakdown>> & BaseSystemFields<Texpand>
+export type UserYearlyStatsResponse<Tstatus_breakdown = unknown, Tinsights = unknown, Texpand = unknown> = Required<UserYearlyStatsRecord<Tstatus_breakdown, Tinsights>> & BaseSystemFields<Texpand>
 export type UsersResponse<Texpand = unknown> = Required<UsersRecord> & AuthSystemFields<Texpand>
+export type WorkSessionsResponse<Texpand = unknown> = Required<WorkSessionsRecord> & BaseSystemFields<Texpand>
 
 // Types containing all Records and Responses, useful for creating typing helper functions
 
@@ -305,16 +470,25 @@ export type CollectionRecords = {
 	_superusers: SuperusersRecord
 	account_deletions: AccountDeletionsRecord
 	artists: ArtistsRecord
+	claims: ClaimsRecord
 	companies: CompaniesRecord
+	leftover_drills: LeftoverDrillsRecord
+	orders: OrdersRecord
 	progress_notes: ProgressNotesRecord
+	project_drills: ProjectDrillsRecord
+	project_shares: ProjectSharesRecord
 	project_tags: ProjectTagsRecord
 	projects: ProjectsRecord
+	public_profiles: PublicProfilesRecord
+	randomizer_pools: RandomizerPoolsRecord
 	randomizer_spins: RandomizerSpinsRecord
+	saved_views: SavedViewsRecord
 	tags: TagsRecord
 	user_dashboard_settings: UserDashboardSettingsRecord
 	user_dashboard_stats: UserDashboardStatsRecord
 	user_yearly_stats: UserYearlyStatsRecord
 	users: UsersRecord
+	work_sessions: WorkSessionsRecord
 }
 
 export type CollectionResponses = {
@@ -325,16 +499,25 @@ export type CollectionResponses = {
 	_superusers: SuperusersResponse
 	account_deletions: AccountDeletionsResponse
 	artists: ArtistsResponse
+	claims: ClaimsResponse
 	companies: CompaniesResponse
+	leftover_drills: LeftoverDrillsResponse
+	orders: OrdersResponse
 	progress_notes: ProgressNotesResponse
+	project_drills: ProjectDrillsResponse
+	project_shares: ProjectSharesResponse
 	project_tags: ProjectTagsResponse
 	projects: ProjectsResponse
+	public_profiles: PublicProfilesResponse
+	randomizer_pools: RandomizerPoolsResponse
 	randomizer_spins: RandomizerSpinsResponse
+	saved_views: SavedViewsResponse
 	tags: TagsResponse
 	user_dashboard_settings: UserDashboardSettingsResponse
 	user_dashboard_stats: UserDashboardStatsResponse
 	user_yearly_stats: UserYearlyStatsResponse
 	users: UsersResponse
+	work_sessions: WorkSessionsResponse
 }
 
 // Type for usage with type asserted PocketBase instance
@@ -348,14 +531,23 @@ export type TypedPocketBase = PocketBase & {
 	collection(idOrName: '_superusers'): RecordService<SuperusersResponse>
 	collection(idOrName: 'account_deletions'): RecordService<AccountDeletionsResponse>
 	collection(idOrName: 'artists'): RecordService<ArtistsResponse>
+	collection(idOrName: 'claims'): RecordService<ClaimsResponse>
 	collection(idOrName: 'companies'): RecordService<CompaniesResponse>
+	collection(idOrName: 'leftover_drills'): RecordService<LeftoverDrillsResponse>
+	collection(idOrName: 'orders'): RecordService<OrdersResponse>
 	collection(idOrName: 'progress_notes'): RecordService<ProgressNotesResponse>
+	collection(idOrName: 'project_drills'): RecordService<ProjectDrillsResponse>
+	collection(idOrName: 'project_shares'): RecordService<ProjectSharesResponse>
 	collection(idOrName: 'project_tags'): RecordService<ProjectTagsResponse>
 	collection(idOrName: 'projects'): RecordService<ProjectsResponse>
+	collection(idOrName: 'public_profiles'): RecordService<PublicProfilesResponse>
+	collection(idOrName: 'randomizer_pools'): RecordService<RandomizerPoolsResponse>
 	collection(idOrName: 'randomizer_spins'): RecordService<RandomizerSpinsResponse>
+	collection(idOrName: 'saved_views'): RecordService<SavedViewsResponse>
 	collection(idOrName: 'tags'): RecordService<TagsResponse>
 	collection(idOrName: 'user_dashboard_settings'): RecordService<UserDashboardSettingsResponse>
 	collection(idOrName: 'user_dashboard_stats'): RecordService<UserDashboardStatsResponse>
 	collection(idOrName: 'user_yearly_stats'): RecordService<UserYearlyStatsResponse>
 	collection(idOrName: 'users'): RecordService<UsersResponse>
+	collection(idOrName: 'work_sessions'): RecordService<WorkSessionsResponse>
 }
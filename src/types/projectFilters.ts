@@ -6,6 +6,7 @@
 
 import { ProjectStatus, Project } from './project';
 import { DashboardValidSortField } from '@/features/dashboard/dashboard.constants';
+import type { ProjectSearchMatch, ProjectSearchMode } from './projectSearch';
 
 /**
  * Main project filter interface - replaces manual filter string building
@@ -19,10 +20,16 @@ export interface ProjectFilters {
   artist?: string;
   /** Filter by drill shape */
   drillShape?: string;
+  /** Filter by drill type */
+  drillType?: string;
+  /** Filter by canvas type */
+  canvasType?: string;
   /** Filter by year finished */
   yearFinished?: string;
   /** Include mini kits in results */
   includeMiniKits?: boolean;
+  /** Only projects of this kit size; kits without a size count as full */
+  kitCategory?: 'full' | 'mini';
   /** Include destashed projects */
   includeDestashed?: boolean;
   /** Include archived projects */
@@ -33,12 +40,59 @@ export interface ProjectFilters {
   includeOnHold?: boolean;
   /** Search term for title and notes */
   searchTerm?: string;
+  /** Search titles only (default) or full text: notes, progress notes, company and artist */
+  searchMode?: ProjectSearchMode;
   /** Selected tag IDs */
   selectedTags?: string[];
+  /** Whether projects need any or all of the selected tags (defaults to any) */
+  tagMatchMode?: TagMatchMode;
+  /** Tag IDs a project must not have */
+  excludedTags?: string[];
+  /** Min/max ranges for size, diamond count and date fields */
+  ranges?: ProjectRangeFilters;
   /** User ID for data isolation */
   userId: string;
 }
 
+/**
+ * Inclusive numeric range, either bound may be omitted
+ */
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Inclusive date range as YYYY-MM-DD strings, either bound may be omitted
+ */
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Range filters for project size, diamond count and dates.
+ * Projects without a value for a filtered field never match that range.
+ */
+export interface ProjectRangeFilters {
+  width?: NumberRange;
+  height?: NumberRange;
+  totalDiamonds?: NumberRange;
+  datePurchased?: DateRange;
+  dateReceived?: DateRange;
+  dateStarted?: DateRange;
+  dateCompleted?: DateRange;
+}
+
+export type NumberRangeField = 'width' | 'height' | 'totalDiamonds';
+export type DateRangeField = 'datePurchased' | 'dateReceived' | 'dateStarted' | 'dateCompleted';
+
+/**
+ * How selected tags are combined: 'any' matches projects with at least one of the tags,
+ * 'all' only projects that have every selected tag
+ */
+export type TagMatchMode = 'any' | 'all';
+
 /**
  * Project filter status type - includes 'active' and 'everything' for aggregate filtering
  */
@@ -102,6 +156,8 @@ export interface ProjectQueryResult {
   pageSize: number;
   /** Status breakdown counts */
   statusCounts?: StatusBreakdown;
+  /** Why each project matched, keyed by project ID (full-text search only) */
+  searchMatches?: Record<string, ProjectSearchMatch>;
 }
 
 /**
@@ -188,6 +244,10 @@ export interface ProjectUpdateData {
   kit_category?: string;
   /** Drill shape */
   drill_shape?: string;
+  /** Drill type, such as AB or fairy dust */
+  drill_type?: string;
+  /** Canvas type, such as linen */
+  canvas_type?: string;
   /** Date purchased */
   date_purchased?: string;
   /** Date received */
@@ -202,6 +262,16 @@ export interface ProjectUpdateData {
   height?: number;
   /** Total diamonds */
   total_diamonds?: number;
+  /** Kit price */
+  price?: number;
+  /** Shipping cost */
+  shipping_cost?: number;
+  /** Discount or coupon amount */
+  discount?: number;
+  /** ISO 4217 currency code */
+  currency?: string;
+  /** Seller's order reference */
+  order_reference?: string;
   /** General notes */
   general_notes?: string;
   /** Source URL */
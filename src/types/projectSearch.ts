@@ -0,0 +1,46 @@
+/**
+ * Project search types for title-only and full-text search
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+/**
+ * 'title' matches project titles only; 'full' also searches general notes,
+ * progress notes, company and artist names
+ */
+export type ProjectSearchMode = 'title' | 'full';
+
+export type ProjectSearchField = 'title' | 'company' | 'artist' | 'generalNotes' | 'progressNote';
+
+/**
+ * Progress note that matched a full-text search
+ */
+export interface ProgressNoteSearchMatch {
+  noteId: string;
+  date: string;
+  snippet: string;
+}
+
+/**
+ * Why a project matched a full-text search, used for ranking and highlighting
+ */
+export interface ProjectSearchMatch {
+  score: number;
+  fields: ProjectSearchField[];
+  /** Best snippet from a field other than the title, if any */
+  snippet?: { field: Exclude<ProjectSearchField, 'title' | 'progressNote'>; text: string };
+  /** Most recent progress note that matched */
+  progressNote?: ProgressNoteSearchMatch;
+  /** Number of progress notes that matched */
+  progressNoteCount: number;
+}
+
+/**
+ * Progress note fields needed to score a search
+ */
+export interface SearchableProgressNote {
+  id: string;
+  project: string;
+  content?: string;
+  date: string;
+}
@@ -0,0 +1,34 @@
+/**
+ * Randomizer pool types: a filter that decides which projects go on the wheel
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { ProjectFilterStatus, TagMatchMode } from '@/types/projectFilters';
+
+/**
+ * Filter stored with a pool. 'all' leaves a field unfiltered.
+ */
+export interface RandomizerPoolFilters {
+  status: ProjectFilterStatus;
+  selectedTags: string[];
+  tagMatchMode: TagMatchMode;
+  /** Company ID */
+  company: string;
+  drillShape: string;
+  kitCategory: 'all' | 'full' | 'mini';
+}
+
+export interface RandomizerPool {
+  id: string;
+  userId: string;
+  name: string;
+  filters: RandomizerPoolFilters;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RandomizerPoolFormValues {
+  name: string;
+  filters: RandomizerPoolFilters;
+}
@@ -0,0 +1,49 @@
+/**
+ * Saved dashboard view ("smart view") types
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { FilterState } from '@/contexts/FilterContext/types';
+
+/**
+ * Filter, search and sort state stored with a saved view.
+ * Pagination and layout (page, page size, grid/list) are deliberately not part of a view.
+ */
+export type SavedViewFilters = Pick<
+  FilterState,
+  | 'activeStatus'
+  | 'selectedCompany'
+  | 'selectedArtist'
+  | 'selectedDrillShape'
+  | 'selectedDrillType'
+  | 'selectedCanvasType'
+  | 'selectedYearFinished'
+  | 'includeMiniKits'
+  | 'includeDestashed'
+  | 'includeArchived'
+  | 'includeWishlist'
+  | 'includeOnHold'
+  | 'searchTerm'
+  | 'searchMode'
+  | 'selectedTags'
+  | 'tagMatchMode'
+  | 'excludedTags'
+  | 'ranges'
+  | 'sortField'
+  | 'sortDirection'
+>;
+
+export interface SavedView {
+  id: string;
+  userId: string;
+  name: string;
+  filters: SavedViewFilters;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedViewFormValues {
+  name: string;
+  filters: SavedViewFilters;
+}
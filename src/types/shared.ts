@@ -13,7 +13,7 @@ export type { ProjectStatus, ProjectFilterStatus, Tag }; // Added Tag here
 // Re-export DbProject from the dedicated file
 export type { DbProject } from './db-project';
 
-export type ViewType = 'grid' | 'list';
+export type ViewType = 'grid' | 'list' | 'board';
 
 /**
  * Project interface for the frontend application
@@ -39,6 +39,11 @@ export interface Project {
   imageUrl?: string;
   sourceUrl?: string;
   totalDiamonds?: number;
+  price?: number;
+  shippingCost?: number;
+  discount?: number;
+  currency?: string; // ISO 4217 code, e.g. 'USD'
+  orderReference?: string;
   kit_category?: 'full' | 'mini'; // Added kit_category
   progressNotes?: ProgressNote[];
   progressImages?: string[];
@@ -54,6 +59,10 @@ export interface ProgressNote {
   content: string;
   date: string;
   imageUrl?: string;
+  /** Drills placed so far, converted to a percentage using the project's total diamonds */
+  drillsPlaced?: number;
+  /** Percent (or area) complete, used when drills placed is not recorded */
+  percentComplete?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -72,6 +81,9 @@ export interface ProjectFormValues
     | 'width'
     | 'height'
     | 'totalDiamonds'
+    | 'price'
+    | 'shippingCost'
+    | 'discount'
   > {
   id?: string;
   imageFile?: File | null;
@@ -79,6 +91,9 @@ export interface ProjectFormValues
   width?: string; // Keep as string for form input
   height?: string; // Keep as string for form input
   totalDiamonds?: string | number; // Allow both string (from form) and number (converted)
+  price?: string | number;
+  shippingCost?: string | number;
+  discount?: string | number;
   kit_category?: 'full' | 'mini'; // Added kit_category
   tagIds?: string[]; // Add tagIds for form compatibility
 }
@@ -99,6 +114,8 @@ export interface ProjectCreateDTO {
   company?: string;
   artist?: string;
   drillShape?: string;
+  drillType?: string;
+  canvasType?: string;
   width?: number; // Change to number for DTO
   height?: number; // Change to number for DTO
   status?: ProjectStatus;
@@ -111,9 +128,11 @@ export interface ProjectCreateDTO {
   imageUrl?: string;
   sourceUrl?: string;
   totalDiamonds?: number;
-  // Optional fields that exist in database but not commonly used in imports yet:
-  drillType?: string;
-  canvasType?: string;
+  price?: number;
+  shippingCost?: number;
+  discount?: number;
+  currency?: string;
+  orderReference?: string;
   kit_category?: 'full' | 'mini'; // Added kit_category
   tagIds?: string[]; // Changed from tagNames to tagIds for import optimization
 }
@@ -0,0 +1,128 @@
+/**
+ * Public sharing types: read-only project share links and public profiles
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { ProjectStatus } from '@/types/project';
+
+/**
+ * Optional parts of a project the owner can choose to show. The title, status and
+ * project image are always shared.
+ */
+export type ShareField =
+  | 'artist'
+  | 'company'
+  | 'details'
+  | 'dates'
+  | 'progress'
+  | 'progressText'
+  | 'price'
+  | 'notes';
+
+/** A file on a PocketBase record, enough to build its URL */
+export type SharedFile = {
+  id: string;
+  collectionId: string;
+  collectionName: string;
+  filename: string;
+};
+
+export interface SharedProgressEntry {
+  /** YYYY-MM-DD */
+  date: string;
+  percentComplete?: number;
+  /** Plain-text note, only with the progressText field */
+  text?: string;
+  image?: SharedFile;
+}
+
+/**
+ * The public copy of a project, holding only the fields the owner chose. Built when the
+ * share is saved, so later edits to the project aren't public until it's saved again.
+ */
+export interface SharedProjectSnapshot {
+  title: string;
+  status: ProjectStatus;
+  image?: SharedFile;
+  artist?: string;
+  company?: string;
+  width?: number;
+  height?: number;
+  drillShape?: string;
+  kitCategory?: string;
+  totalDiamonds?: number;
+  dateStarted?: string;
+  dateCompleted?: string;
+  /** Total paid: price plus shipping minus discount */
+  price?: number;
+  currency?: string;
+  /** Plain-text general notes */
+  notes?: string;
+  /** Oldest first */
+  progress?: SharedProgressEntry[];
+}
+
+/** Everything a snapshot can be built from, before the field choices are applied */
+export interface ShareSource {
+  title: string;
+  status: ProjectStatus;
+  image?: SharedFile;
+  artist?: string;
+  company?: string;
+  width?: number;
+  height?: number;
+  drillShape?: string;
+  kitCategory?: string;
+  totalDiamonds?: number;
+  dateStarted?: string;
+  dateCompleted?: string;
+  price?: number;
+  shippingCost?: number;
+  discount?: number;
+  currency?: string;
+  generalNotes?: string;
+  progressNotes: Array<{
+    date: string;
+    content?: string;
+    percentComplete?: number;
+    image?: SharedFile;
+  }>;
+}
+
+export interface ProjectShare {
+  id: string;
+  projectId: string;
+  token: string;
+  fields: ShareField[];
+  showOnProfile: boolean;
+  snapshot: SharedProjectSnapshot;
+  updated: string;
+}
+
+export interface ProjectShareSettings {
+  fields: ShareField[];
+  showOnProfile: boolean;
+}
+
+/** A share as seen by visitors: no owner or project ids */
+export interface PublicSharedProject {
+  token: string;
+  snapshot: SharedProjectSnapshot;
+  updated: string;
+}
+
+export interface PublicProfile {
+  id: string;
+  userId: string;
+  username: string;
+  displayName?: string;
+  bio?: string;
+  enabled: boolean;
+}
+
+export interface PublicProfileSettings {
+  enabled: boolean;
+  displayName: string;
+  bio: string;
+}
@@ -0,0 +1,32 @@
+/**
+ * Work session (time tracking) types
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+export interface WorkSession {
+  id: string;
+  userId: string;
+  projectId: string;
+  startedAt: string;
+  /** Unset while the timer is running */
+  endedAt?: string;
+  /** Length of a finished session; 0 while the timer is running */
+  durationSeconds: number;
+  /** Drills placed during the session, if recorded */
+  drillsPlaced?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Time and drill totals across a set of work sessions
+ */
+export interface WorkSessionSummary {
+  sessionCount: number;
+  totalSeconds: number;
+  /** Drills placed across sessions that recorded a drill count */
+  drillsPlaced: number;
+  /** Drills per hour over the sessions that recorded a drill count, null without any */
+  drillsPerHour: number | null;
+}
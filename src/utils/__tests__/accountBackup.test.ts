@@ -0,0 +1,221 @@
+/**
+ * Tests for full-account backup helpers
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ACCOUNT_BACKUP_FORMAT,
+  ACCOUNT_BACKUP_VERSION,
+  BackupValidationError,
+  countBackupRecords,
+  dataUrlToFile,
+  getFilenameFromUrl,
+  getOriginalFileUrl,
+  parseAccountBackup,
+  remapIds,
+} from '../accountBackup';
+import type { AccountBackup } from '@/types/backup';
+
+const createBackup = (overrides: Partial<AccountBackup> = {}): AccountBackup => ({
+  format: ACCOUNT_BACKUP_FORMAT,
+  version: ACCOUNT_BACKUP_VERSION,
+  exportedAt: '2025-01-31T10:00:00.000Z',
+  source: { url: 'https://data.example.com', username: 'glitter' },
+  includesImages: false,
+  settings: { claim_reminder_days: 21 },
+  data: {
+    companies: [{ id: 'c1', name: 'Diamond Art Club', website_url: 'https://dac.example.com' }],
+    artists: [{ id: 'a1', name: 'Jane Smith' }],
+    tags: [{ id: 't1', name: 'Animals', slug: 'animals', color: '#ff0000' }],
+    orders: [{ id: 'o1', company: 'c1', order_number: 'DAC-1001' }],
+    projects: [
+      {
+        id: 'p1',
+        title: 'Purple Sunset',
+        status: 'progress',
+        company: 'c1',
+        artist: 'a1',
+        order: 'o1',
+        kit_category: 'full',
+        width: 40,
+        height: 50,
+        image: { filename: 'sunset_abc.jpg' },
+        createdAt: '2025-01-01 00:00:00.000Z',
+        updatedAt: '2025-01-02 00:00:00.000Z',
+      },
+    ],
+    projectTags: [{ project: 'p1', tag: 't1' }],
+    progressNotes: [
+      {
+        id: 'n1',
+        project: 'p1',
+        content: '<p>Finished the sky</p>',
+        date: '2025-01-15 00:00:00.000Z',
+        createdAt: '2025-01-15 00:00:00.000Z',
+      },
+    ],
+    workSessions: [
+      {
+        project: 'p1',
+        started_at: '2025-01-14 18:00:00.000Z',
+        ended_at: '2025-01-14 19:30:00.000Z',
+        duration_seconds: 5400,
+        drills_placed: 1200,
+      },
+    ],
+    projectDrills: [
+      {
+        project: 'p1',
+        dmc_code: '310',
+        symbol: 'A',
+        required_count: 4200,
+        bags_received: 2,
+        added_to_inventory: true,
+      },
+    ],
+    leftoverDrills: [{ dmc_code: '310', bags: 2 }],
+    claims: [
+      {
+        project: 'p1',
+        issue_type: 'missing_drills',
+        colours: ['310'],
+        date_reported: '2025-01-12 00:00:00.000Z',
+        status: 'open',
+      },
+    ],
+    randomizerSpins: [
+      {
+        project: 'p1',
+        project_title: 'Purple Sunset',
+        selected_projects: ['p1', 'p2'],
+        selected_count: 2,
+        metadata: { mode: 'uniform' },
+        spun_at: '2025-01-10 00:00:00.000Z',
+      },
+    ],
+  },
+  ...overrides,
+});
+
+describe('parseAccountBackup', () => {
+  it('accepts a valid backup and preserves its data', () => {
+    const backup = createBackup();
+    const parsed = parseAccountBackup(JSON.stringify(backup));
+
+    expect(parsed.data.projects[0].title).toBe('Purple Sunset');
+    expect(parsed.data.randomizerSpins[0].selected_projects).toEqual(['p1', 'p2']);
+    expect(parsed.data.claims[0].colours).toEqual(['310']);
+    expect(parsed.settings?.claim_reminder_days).toBe(21);
+    expect(countBackupRecords(parsed.data)).toEqual({
+      companies: 1,
+      artists: 1,
+      tags: 1,
+      orders: 1,
+      projects: 1,
+      projectTags: 1,
+      progressNotes: 1,
+      workSessions: 1,
+      projectDrills: 1,
+      leftoverDrills: 1,
+      claims: 1,
+      randomizerSpins: 1,
+    });
+  });
+
+  it('normalizes null optional fields written by older exports', () => {
+    const backup = createBackup();
+    const raw = JSON.parse(JSON.stringify(backup));
+    raw.data.projects[0].company = null;
+    raw.data.projects[0].width = null;
+
+    const parsed = parseAccountBackup(JSON.stringify(raw));
+
+    expect(parsed.data.projects[0].company).toBeUndefined();
+    expect(parsed.data.projects[0].width).toBeUndefined();
+  });
+
+  it('reads backups made before orders, work sessions, drills and claims were included', () => {
+    const raw = JSON.parse(JSON.stringify(createBackup()));
+    delete raw.data.orders;
+    delete raw.data.projects[0].order;
+    delete raw.data.workSessions;
+    delete raw.data.projectDrills;
+    delete raw.data.leftoverDrills;
+    delete raw.data.claims;
+    delete raw.settings;
+
+    const parsed = parseAccountBackup(JSON.stringify(raw));
+
+    expect(parsed.data.orders).toEqual([]);
+    expect(parsed.data.workSessions).toEqual([]);
+    expect(parsed.data.projectDrills).toEqual([]);
+    expect(parsed.data.leftoverDrills).toEqual([]);
+    expect(parsed.data.claims).toEqual([]);
+    expect(parsed.settings).toBeUndefined();
+    expect(parsed.data.projects[0].order).toBeUndefined();
+  });
+
+  it('rejects non-JSON content', () => {
+    expect(() => parseAccountBackup('Title,Status\nFoo,stash')).toThrow(BackupValidationError);
+  });
+
+  it('rejects JSON that is not a backup', () => {
+    expect(() => parseAccountBackup(JSON.stringify({ projects: [] }))).toThrow(
+      'not an Organized Glitter backup'
+    );
+  });
+
+  it('rejects backups from a newer format version', () => {
+    const backup = createBackup({ version: ACCOUNT_BACKUP_VERSION + 1 });
+    expect(() => parseAccountBackup(JSON.stringify(backup))).toThrow('newer version');
+  });
+
+  it('reports the path of invalid records', () => {
+    const raw = JSON.parse(JSON.stringify(createBackup()));
+    raw.data.projects[0].status = 'finished';
+
+    expect(() => parseAccountBackup(JSON.stringify(raw))).toThrow('data.projects.0.status');
+  });
+});
+
+describe('remapIds', () => {
+  it('maps known IDs and drops IDs that were not restored', () => {
+    const idMap = new Map([
+      ['p1', 'new1'],
+      ['p3', 'new3'],
+    ]);
+
+    expect(remapIds(['p1', 'p2', 'p3'], idMap)).toEqual(['new1', 'new3']);
+  });
+});
+
+describe('file URL helpers', () => {
+  const thumbUrl =
+    'https://data.example.com/api/files/projects/abc123/sunset_x1y2.jpg?thumb=300x200f';
+
+  it('strips thumbnail parameters', () => {
+    expect(getOriginalFileUrl(thumbUrl)).toBe(
+      'https://data.example.com/api/files/projects/abc123/sunset_x1y2.jpg'
+    );
+  });
+
+  it('extracts the stored filename', () => {
+    expect(getFilenameFromUrl(thumbUrl)).toBe('sunset_x1y2.jpg');
+  });
+});
+
+describe('dataUrlToFile', () => {
+  it('decodes base64 data URLs into files', () => {
+    const file = dataUrlToFile('data:text/plain;base64,aGVsbG8=', 'note.txt');
+
+    expect(file.name).toBe('note.txt');
+    expect(file.type).toBe('text/plain');
+    expect(file.size).toBe('hello'.length);
+  });
+
+  it('throws for malformed data URLs', () => {
+    expect(() => dataUrlToFile('not-a-data-url', 'broken.jpg')).toThrow(BackupValidationError);
+  });
+});
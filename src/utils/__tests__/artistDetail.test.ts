@@ -0,0 +1,83 @@
+/**
+ * Tests for artist detail helpers
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ARTIST_URL_PARAM,
+  SOCIAL_LINKS_MAX,
+  getArtistDashboardPath,
+  getSocialLinkLabel,
+  getStatusBreakdown,
+  normalizeUrl,
+  parseSocialLinks,
+} from '../artistDetail';
+import type { ProjectStatus } from '@/types/project';
+
+describe('getStatusBreakdown', () => {
+  it('counts projects per status in status order, skipping empty statuses', () => {
+    const statuses: ProjectStatus[] = ['completed', 'stash', 'completed', 'wishlist'];
+
+    expect(getStatusBreakdown(statuses.map(status => ({ status })))).toEqual([
+      { status: 'wishlist', label: 'Wishlist', count: 1 },
+      { status: 'stash', label: 'In Stash', count: 1 },
+      { status: 'completed', label: 'Completed', count: 2 },
+    ]);
+  });
+
+  it('returns nothing for an artist without projects', () => {
+    expect(getStatusBreakdown([])).toEqual([]);
+  });
+});
+
+describe('getArtistDashboardPath', () => {
+  it('links to the dashboard with the artist name the dashboard reads back', () => {
+    const path = getArtistDashboardPath('Anna & Co / Studio');
+    const url = new URL(path, 'https://example.com');
+
+    expect(url.pathname).toBe('/dashboard');
+    expect(url.searchParams.get(ARTIST_URL_PARAM)).toBe('Anna & Co / Studio');
+  });
+});
+
+describe('normalizeUrl', () => {
+  it('adds https:// when the scheme is missing', () => {
+    expect(normalizeUrl(' instagram.com/artist ')).toBe('https://instagram.com/artist');
+    expect(normalizeUrl('http://example.com')).toBe('http://example.com/');
+  });
+
+  it('rejects non-web URLs and bare words', () => {
+    expect(normalizeUrl('javascript:alert(1)')).toBeNull();
+    expect(normalizeUrl('not a link')).toBeNull();
+    expect(normalizeUrl('   ')).toBeNull();
+  });
+});
+
+describe('parseSocialLinks', () => {
+  it('parses one link per line, dropping blanks and duplicates', () => {
+    const result = parseSocialLinks('instagram.com/a\n\nhttps://instagram.com/a\netsy.com/shop/a');
+
+    expect(result.links).toEqual(['https://instagram.com/a', 'https://etsy.com/shop/a']);
+    expect(result.invalid).toEqual([]);
+  });
+
+  it('reports invalid entries separately', () => {
+    expect(parseSocialLinks(['etsy.com/a', 'my instagram']).invalid).toEqual(['my instagram']);
+  });
+
+  it('keeps at most the maximum number of links', () => {
+    const input = Array.from({ length: 15 }, (_, index) => `example.com/${index}`);
+
+    expect(parseSocialLinks(input).links).toHaveLength(SOCIAL_LINKS_MAX);
+  });
+});
+
+describe('getSocialLinkLabel', () => {
+  it('names well-known sites and falls back to the domain', () => {
+    expect(getSocialLinkLabel('https://www.instagram.com/artist')).toBe('Instagram');
+    expect(getSocialLinkLabel('https://shop.etsy.com/a')).toBe('Etsy');
+    expect(getSocialLinkLabel('https://www.artist-portfolio.net/')).toBe('artist-portfolio.net');
+  });
+});
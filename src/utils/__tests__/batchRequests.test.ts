@@ -0,0 +1,55 @@
+/**
+ * Tests for splitting and packing writes into PocketBase batch requests
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BATCH_REQUEST_LIMIT, chunkForBatch, packForBatch } from '../batchRequests';
+
+describe('chunkForBatch', () => {
+  it('splits a list into chunks of the batch limit, keeping order', () => {
+    const items = Array.from({ length: BATCH_REQUEST_LIMIT * 2 + 1 }, (_, index) => index);
+    const chunks = chunkForBatch(items);
+
+    expect(chunks.map(chunk => chunk.length)).toEqual([
+      BATCH_REQUEST_LIMIT,
+      BATCH_REQUEST_LIMIT,
+      1,
+    ]);
+    expect(chunks.flat()).toEqual(items);
+  });
+
+  it('returns no chunks for an empty list', () => {
+    expect(chunkForBatch([], 3)).toEqual([]);
+  });
+});
+
+describe('packForBatch', () => {
+  it('fills each batch with whole groups', () => {
+    expect(packForBatch([[1, 2], [3], [4, 5], [6]], 3)).toEqual([
+      [1, 2, 3],
+      [4, 5, 6],
+    ]);
+  });
+
+  it('starts a new batch rather than splitting a group across two', () => {
+    expect(
+      packForBatch(
+        [
+          [1, 2],
+          [3, 4],
+        ],
+        3
+      )
+    ).toEqual([
+      [1, 2],
+      [3, 4],
+    ]);
+    expect(packForBatch([], 3)).toEqual([]);
+  });
+
+  it('rejects a group too large for one batch', () => {
+    expect(() => packForBatch([[1, 2, 3, 4]], 3)).toThrow();
+  });
+});
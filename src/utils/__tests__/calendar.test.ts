@@ -0,0 +1,133 @@
+/**
+ * Tests for calendar events, grids and .ics export
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildCalendarEvents,
+  buildIcsCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  getCalendarDays,
+  groupEventsByDate,
+  shiftCalendarAnchor,
+} from '../calendar';
+import type { CalendarEvent } from '@/types/calendar';
+
+describe('buildCalendarEvents', () => {
+  it('creates milestone and progress note events sorted by date', () => {
+    const events = buildCalendarEvents(
+      [
+        {
+          id: 'p1',
+          title: 'Sunset',
+          datePurchased: '2025-01-05 00:00:00.000Z',
+          dateStarted: '2025-02-01',
+          dateCompleted: '2025-03-01',
+        },
+        { id: 'p2', title: 'Owl', dateReceived: '2025-02-01' },
+      ],
+      [
+        {
+          id: 'n1',
+          projectId: 'p1',
+          date: '2025-02-10',
+          content: '<p>Sky done</p>',
+          percentComplete: 40,
+        },
+        { id: 'n2', projectId: 'deleted', date: '2025-02-11' },
+      ]
+    );
+
+    expect(events.map(event => [event.date, event.kind, event.projectTitle])).toEqual([
+      ['2025-01-05', 'purchased', 'Sunset'],
+      ['2025-02-01', 'received', 'Owl'],
+      ['2025-02-01', 'started', 'Sunset'],
+      ['2025-02-10', 'progress', 'Sunset'],
+      ['2025-03-01', 'completed', 'Sunset'],
+    ]);
+    expect(events[3]).toMatchObject({ id: 'note-n1', detail: '40% complete · Sky done' });
+  });
+});
+
+describe('groupEventsByDate', () => {
+  it('groups events under their date', () => {
+    const events = buildCalendarEvents(
+      [{ id: 'p1', title: 'A', datePurchased: '2025-01-01', dateReceived: '2025-01-01' }],
+      []
+    );
+
+    expect(groupEventsByDate(events).get('2025-01-01')).toHaveLength(2);
+  });
+});
+
+describe('getCalendarDays', () => {
+  it('covers the month in whole weeks starting on Sunday', () => {
+    const days = getCalendarDays('2025-02-14', 'month');
+
+    expect(days[0]).toBe('2025-01-26');
+    expect(days[days.length - 1]).toBe('2025-03-01');
+    expect(days).toHaveLength(35);
+  });
+
+  it('returns the seven days of the week in week view', () => {
+    expect(getCalendarDays('2025-02-14', 'week')).toEqual([
+      '2025-02-09',
+      '2025-02-10',
+      '2025-02-11',
+      '2025-02-12',
+      '2025-02-13',
+      '2025-02-14',
+      '2025-02-15',
+    ]);
+  });
+});
+
+describe('shiftCalendarAnchor', () => {
+  it('moves by a month or a week', () => {
+    expect(shiftCalendarAnchor('2025-01-31', 'month', 1)).toBe('2025-02-28');
+    expect(shiftCalendarAnchor('2025-01-03', 'week', -1)).toBe('2024-12-27');
+  });
+});
+
+describe('.ics export', () => {
+  const event: CalendarEvent = {
+    id: 'p1-completed',
+    kind: 'completed',
+    date: '2025-12-31',
+    projectId: 'p1',
+    projectTitle: 'Cats, Dogs; and More',
+  };
+
+  it('escapes special characters', () => {
+    expect(escapeIcsText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+
+  it('folds long lines at 75 octets', () => {
+    const folded = foldIcsLine(`SUMMARY:${'x'.repeat(100)}`);
+    const lines = folded.split('\r\n');
+
+    expect(lines[0]).toHaveLength(75);
+    expect(lines[1].startsWith(' ')).toBe(true);
+    expect(lines.join('').replace(/ /g, '')).toBe(`SUMMARY:${'x'.repeat(100)}`);
+  });
+
+  it('writes all-day events with links back to the project', () => {
+    const ics = buildIcsCalendar(
+      [event],
+      new Date('2025-06-01T12:30:00.000Z'),
+      'https://example.com'
+    );
+
+    expect(ics).toContain('BEGIN:VCALENDAR\r\n');
+    expect(ics).toContain('UID:p1-completed@organizedglitter\r\n');
+    expect(ics).toContain('DTSTAMP:20250601T123000Z\r\n');
+    expect(ics).toContain('DTSTART;VALUE=DATE:20251231\r\n');
+    expect(ics).toContain('DTEND;VALUE=DATE:20260101\r\n');
+    expect(ics).toContain('SUMMARY:Completed: Cats\\, Dogs\\; and More\r\n');
+    expect(ics).toContain('URL:https://example.com/projects/p1\r\n');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for claim colours, close dates, follow-up reminders and company summaries
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getClaimDateClosed,
+  getClaimReminderDays,
+  getClaimsDueForFollowUp,
+  parseClaimColours,
+  summarizeCompanyClaims,
+} from '../claims';
+import type { ClaimIssueType, ClaimStatus } from '@/types/claim';
+
+describe('parseClaimColours', () => {
+  it('splits on commas and spaces, normalizes codes and drops repeats', () => {
+    expect(parseClaimColours('DMC 310, 3865;b5200  310,,')).toEqual(['310', '3865', 'B5200']);
+    expect(parseClaimColours('  ')).toEqual([]);
+  });
+});
+
+describe('getClaimDateClosed', () => {
+  it('sets the close date on closing, keeps it while closed and clears it on reopening', () => {
+    expect(getClaimDateClosed('resolved', undefined, '2026-10-18')).toBe('2026-10-18');
+    expect(getClaimDateClosed('refused', '2026-10-01', '2026-10-18')).toBe('2026-10-01');
+    expect(getClaimDateClosed('open', '2026-10-01', '2026-10-18')).toBe('');
+    expect(getClaimDateClosed('replacement_shipped', undefined, '2026-10-18')).toBe('');
+  });
+});
+
+describe('getClaimsDueForFollowUp', () => {
+  it('returns unresolved claims at least the reminder age, oldest first', () => {
+    const claims: { id: string; status: ClaimStatus; dateReported: string }[] = [
+      { id: 'recent', status: 'open', dateReported: '2026-10-10' },
+      { id: 'shipped', status: 'replacement_shipped', dateReported: '2026-09-20' },
+      { id: 'exact', status: 'open', dateReported: '2026-10-04' },
+      { id: 'resolved', status: 'resolved', dateReported: '2026-08-01' },
+    ];
+
+    expect(getClaimsDueForFollowUp(claims, '2026-10-18', 14).map(claim => claim.id)).toEqual([
+      'shipped',
+      'exact',
+    ]);
+  });
+
+  it('falls back to the default reminder age when the user has none set', () => {
+    expect(getClaimReminderDays(undefined)).toBe(14);
+    expect(getClaimReminderDays(0)).toBe(14);
+    expect(getClaimReminderDays(30)).toBe(30);
+  });
+});
+
+describe('summarizeCompanyClaims', () => {
+  const claim = (
+    status: ClaimStatus,
+    issueType: ClaimIssueType,
+    dateReported: string,
+    dateClosed?: string
+  ) => ({ status, issueType, dateReported, dateClosed });
+
+  it('counts claims and averages days to close over closed claims', () => {
+    const summary = summarizeCompanyClaims([
+      claim('resolved', 'missing_drills', '2026-09-01', '2026-09-11'),
+      claim('resolved', 'missing_drills', '2026-09-01', '2026-09-04'),
+      claim('refused', 'damaged_canvas', '2026-09-01', '2026-09-21'),
+      claim('open', 'wrong_colours', '2026-10-01'),
+    ]);
+
+    expect(summary.total).toBe(4);
+    expect(summary.byStatus).toEqual({
+      open: 1,
+      replacement_shipped: 0,
+      resolved: 2,
+      refused: 1,
+    });
+    expect(summary.byIssueType.missing_drills).toBe(2);
+    expect(summary.byIssueType.wrong_size).toBe(0);
+    expect(summary.resolvedRate).toBeCloseTo(2 / 3);
+    expect(summary.averageDaysToClose).toBe(11);
+  });
+
+  it('leaves the rates empty when no claim has closed', () => {
+    const summary = summarizeCompanyClaims([claim('open', 'other', '2026-10-01')]);
+    expect(summary.resolvedRate).toBeNull();
+    expect(summary.averageDaysToClose).toBeNull();
+  });
+});
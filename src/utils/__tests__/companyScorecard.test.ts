@@ -0,0 +1,98 @@
+/**
+ * Tests for company scorecard calculations
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeCompanyScorecard, getDeliveryDays } from '../companyScorecard';
+import type { CompanyScorecardProject } from '@/types/company';
+import type { Order } from '@/types/order';
+
+const createProject = (overrides: Partial<CompanyScorecardProject>): CompanyScorecardProject => ({
+  id: overrides.id ?? 'p1',
+  title: 'Kit',
+  status: 'stash',
+  ...overrides,
+});
+
+const createOrder = (overrides: Partial<Order>): Order => ({
+  id: overrides.id ?? 'o1',
+  userId: 'u1',
+  projects: [],
+  createdAt: '2025-03-01T10:00:00.000Z',
+  updatedAt: '2025-03-01T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('getDeliveryDays', () => {
+  it('counts calendar days from purchase to receipt', () => {
+    expect(getDeliveryDays('2025-03-01 00:00:00.000Z', '2025-03-15 00:00:00.000Z')).toBe(14);
+    expect(getDeliveryDays('2025-03-01', '2025-03-01')).toBe(0);
+  });
+
+  it('ignores missing or reversed dates', () => {
+    expect(getDeliveryDays('2025-03-01', undefined)).toBeNull();
+    expect(getDeliveryDays('2025-03-15', '2025-03-01')).toBeNull();
+  });
+});
+
+describe('computeCompanyScorecard', () => {
+  it('works out delivery, completion and size from kits bought', () => {
+    const projects = [
+      createProject({
+        id: 'p1',
+        status: 'completed',
+        datePurchased: '2025-01-01',
+        dateReceived: '2025-01-11',
+        width: 40,
+        height: 50,
+        totalDiamonds: 20000,
+      }),
+      createProject({
+        id: 'p2',
+        status: 'stash',
+        datePurchased: '2025-02-01',
+        dateReceived: '2025-02-16',
+        width: 30,
+        height: 40,
+      }),
+      createProject({ id: 'p3', status: 'purchased', datePurchased: '2025-03-01' }),
+      createProject({ id: 'p4', status: 'wishlist', width: 100, height: 100 }),
+    ];
+
+    const scorecard = computeCompanyScorecard({ projects, orders: [] }, '2025-04-01');
+
+    expect(scorecard.kitsBought).toBe(3);
+    expect(scorecard.averageDeliveryDays).toBe(12.5);
+    expect(scorecard.deliverySampleSize).toBe(2);
+    expect(scorecard.completedCount).toBe(1);
+    expect(scorecard.completionRate).toBeCloseTo(1 / 3);
+    expect(scorecard.averageWidth).toBe(35);
+    expect(scorecard.averageHeight).toBe(45);
+    expect(scorecard.averageDiamonds).toBe(20000);
+  });
+
+  it('lists open orders past their expected delivery as overdue', () => {
+    const orders = [
+      createOrder({ id: 'late', expectedDelivery: '2025-03-01' }),
+      createOrder({ id: 'onTime', expectedDelivery: '2025-05-01' }),
+      createOrder({ id: 'done', expectedDelivery: '2025-02-01', dateReceived: '2025-02-10' }),
+    ];
+
+    const scorecard = computeCompanyScorecard({ projects: [], orders }, '2025-04-01');
+
+    expect(scorecard.openOrderCount).toBe(2);
+    expect(scorecard.overdueOrders.map(order => order.id)).toEqual(['late']);
+  });
+
+  it('leaves averages empty without data', () => {
+    const scorecard = computeCompanyScorecard({ projects: [], orders: [] }, '2025-04-01');
+
+    expect(scorecard.kitsBought).toBe(0);
+    expect(scorecard.averageDeliveryDays).toBeNull();
+    expect(scorecard.completionRate).toBeNull();
+    expect(scorecard.averageWidth).toBeNull();
+    expect(scorecard.averageDiamonds).toBeNull();
+  });
+});
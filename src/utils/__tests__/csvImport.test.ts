@@ -0,0 +1,42 @@
+/**
+ * Tests for CSV project import parsing
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCSV } from '../csvImport';
+import { EXPECTED_COLUMNS } from '../csvColumnAnalysis';
+
+describe('parseCSV', () => {
+  it('imports purchase cost columns under every header the column preview recognises', () => {
+    const csv = [
+      'Title,Price,shipping_cost,Coupon,Currency,order_reference',
+      'Purple Sunset,"24,99 €",4.50,2,eur,DAC-1001',
+    ].join('\n');
+
+    const [project] = parseCSV(csv).projects;
+
+    expect(project).toMatchObject({
+      title: 'Purple Sunset',
+      price: 24.99,
+      shippingCost: 4.5,
+      discount: 2,
+      currency: 'EUR',
+      orderReference: 'DAC-1001',
+    });
+  });
+
+  it.each(EXPECTED_COLUMNS.shippingCost.aliases)('reads shipping cost from "%s"', header => {
+    const [project] = parseCSV(`title,${header}\nPurple Sunset,3.25`).projects;
+    expect(project.shippingCost).toBe(3.25);
+  });
+
+  it.each(EXPECTED_COLUMNS.orderReference.aliases)(
+    'reads the order reference from "%s"',
+    header => {
+      const [project] = parseCSV(`title,"${header}"\nPurple Sunset,DAC-1001`).projects;
+      expect(project.orderReference).toBe('DAC-1001');
+    }
+  );
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for drill-placement progress derived from progress notes
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  estimateCompletionDate,
+  getLatestProgress,
+  getNotePercent,
+  getProgressPoints,
+} from '../drillProgress';
+import type { ProgressNote } from '@/types/project';
+
+const createNote = (overrides: Partial<ProgressNote>): ProgressNote => ({
+  id: overrides.id ?? 'n1',
+  projectId: 'p1',
+  content: '',
+  date: '2025-03-01 00:00:00.000Z',
+  createdAt: '2025-03-01 10:00:00.000Z',
+  updatedAt: '2025-03-01 10:00:00.000Z',
+  ...overrides,
+});
+
+describe('getNotePercent', () => {
+  it('converts drills placed using the project total', () => {
+    expect(getNotePercent({ drillsPlaced: 25000 }, 100000)).toBe(25);
+  });
+
+  it('falls back to percent complete when there is no total', () => {
+    expect(getNotePercent({ drillsPlaced: 25000, percentComplete: 30 })).toBe(30);
+  });
+
+  it('caps progress at 100 percent', () => {
+    expect(getNotePercent({ drillsPlaced: 120000 }, 100000)).toBe(100);
+  });
+
+  it('returns null when the note has no progress', () => {
+    expect(getNotePercent({}, 100000)).toBeNull();
+  });
+});
+
+describe('getProgressPoints', () => {
+  const notes = [
+    createNote({ id: 'n3', date: '2025-03-10 00:00:00.000Z', drillsPlaced: 50000 }),
+    createNote({ id: 'n1', date: '2025-03-01 00:00:00.000Z', percentComplete: 10 }),
+    createNote({ id: 'n2', date: '2025-03-05 00:00:00.000Z' }),
+    createNote({
+      id: 'n4',
+      date: '2025-03-10 00:00:00.000Z',
+      createdAt: '2025-03-10 22:00:00.000Z',
+      drillsPlaced: 60000,
+    }),
+  ];
+
+  it('orders points by date, skips notes without progress and keeps the last note per day', () => {
+    expect(getProgressPoints(notes, 100000)).toEqual([
+      { date: '2025-03-01', percent: 10 },
+      { date: '2025-03-10', percent: 60, drillsPlaced: 60000 },
+    ]);
+  });
+
+  it('returns the most recent point', () => {
+    expect(getLatestProgress(notes, 100000)?.percent).toBe(60);
+    expect(getLatestProgress([], 100000)).toBeNull();
+  });
+});
+
+describe('estimateCompletionDate', () => {
+  it('projects completion from the start date at the observed pace', () => {
+    const estimate = estimateCompletionDate(
+      [{ date: '2025-03-11', percent: 50 }],
+      '2025-03-01 00:00:00.000Z'
+    );
+
+    expect(estimate).toEqual({ date: '2025-03-21', percentPerDay: 5, daysRemaining: 10 });
+  });
+
+  it('measures pace from the first note when there is no earlier start date', () => {
+    const estimate = estimateCompletionDate([
+      { date: '2025-03-01', percent: 20 },
+      { date: '2025-03-05', percent: 40 },
+    ]);
+
+    expect(estimate?.date).toBe('2025-03-17');
+  });
+
+  it('returns null without forward progress or once complete', () => {
+    expect(estimateCompletionDate([{ date: '2025-03-01', percent: 20 }])).toBeNull();
+    expect(
+      estimateCompletionDate([
+        { date: '2025-03-01', percent: 40 },
+        { date: '2025-03-05', percent: 30 },
+      ])
+    ).toBeNull();
+    expect(estimateCompletionDate([{ date: '2025-03-05', percent: 100 }], '2025-03-01')).toBeNull();
+  });
+});
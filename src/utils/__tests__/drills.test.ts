@@ -0,0 +1,109 @@
+/**
+ * Tests for DMC code handling, legend CSV import and leftover drill changes
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compareDmcCodes,
+  getLeftoverChanges,
+  getLegendImportChanges,
+  normalizeDmcCode,
+  parseDrillLegendCsv,
+  summarizeDrillLegend,
+} from '../drills';
+
+describe('normalizeDmcCode', () => {
+  it('strips the DMC prefix and spacing and upper-cases named colours', () => {
+    expect(normalizeDmcCode(' dmc 310 ')).toBe('310');
+    expect(normalizeDmcCode('DMC#3865')).toBe('3865');
+    expect(normalizeDmcCode('b5200')).toBe('B5200');
+    expect(normalizeDmcCode('Ecru')).toBe('ECRU');
+    expect(normalizeDmcCode('  ')).toBe('');
+  });
+});
+
+describe('compareDmcCodes', () => {
+  it('sorts numbered colours by number before named colours', () => {
+    expect(['B5200', '3865', '310', 'ECRU', '28'].sort(compareDmcCodes)).toEqual([
+      '28',
+      '310',
+      '3865',
+      'B5200',
+      'ECRU',
+    ]);
+  });
+});
+
+describe('parseDrillLegendCsv', () => {
+  it('reads common headers, merges repeated colours and skips rows without a code', () => {
+    const csv = [
+      'DMC Code,Symbol,Count,Bags',
+      'dmc 310,A,"1,200",2',
+      'B5200,B,300,1',
+      ',C,50,1',
+      '310,,100,1',
+    ].join('\n');
+
+    expect(parseDrillLegendCsv(csv)).toEqual({
+      rows: [
+        { dmcCode: '310', symbol: 'A', requiredCount: 1300, bagsReceived: 3 },
+        { dmcCode: 'B5200', symbol: 'B', requiredCount: 300, bagsReceived: 1 },
+      ],
+      skipped: 1,
+    });
+  });
+
+  it('leaves bags unset when the legend has no bag column', () => {
+    const { rows } = parseDrillLegendCsv('Colour,Qty\n310,80');
+
+    expect(rows).toEqual([
+      { dmcCode: '310', symbol: '', requiredCount: 80, bagsReceived: undefined },
+    ]);
+  });
+});
+
+describe('getLegendImportChanges', () => {
+  it('updates colours the legend already has and creates the rest', () => {
+    const rows = [
+      { dmcCode: '310', symbol: 'A', requiredCount: 10 },
+      { dmcCode: '321', symbol: 'B', requiredCount: 20 },
+    ];
+
+    expect(getLegendImportChanges([{ id: 'd1', dmcCode: '310' }], rows)).toEqual({
+      create: [rows[1]],
+      update: [{ id: 'd1', data: rows[0] }],
+    });
+  });
+});
+
+describe('getLeftoverChanges', () => {
+  it('tops up colours in the inventory, adds new ones and ignores colours without bags', () => {
+    const changes = getLeftoverChanges(
+      [{ id: 'l1', dmcCode: '310', bags: 2 }],
+      [
+        { dmcCode: '310', bagsReceived: 1 },
+        { dmcCode: '321', bagsReceived: 2 },
+        { dmcCode: '321', bagsReceived: 1 },
+        { dmcCode: '666', bagsReceived: 0 },
+      ]
+    );
+
+    expect(changes).toEqual({
+      create: [{ dmcCode: '321', bags: 3 }],
+      update: [{ id: 'l1', bags: 3 }],
+    });
+  });
+});
+
+describe('summarizeDrillLegend', () => {
+  it('totals colours, drills and bags', () => {
+    expect(
+      summarizeDrillLegend([
+        { requiredCount: 1200, bagsReceived: 2 },
+        { requiredCount: 300, bagsReceived: 1 },
+      ])
+    ).toEqual({ colourCount: 2, requiredCount: 1500, bagsReceived: 3 });
+  });
+});
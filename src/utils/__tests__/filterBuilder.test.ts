@@ -0,0 +1,90 @@
+/**
+ * Tests for tag and range filtering in the PocketBase filter builder
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildUserProjectFilter, createFilter } from '../filterBuilder';
+
+describe('FilterBuilder tag filters', () => {
+  it('matches any selected tag by default', () => {
+    expect(createFilter().tags(['t1', 't2']).build()).toBe(
+      "(project_tags_via_project.tag ?= 't1' || project_tags_via_project.tag ?= 't2')"
+    );
+  });
+
+  it('requires every selected tag in all mode', () => {
+    expect(createFilter().tags(['t1', 't2'], 'all').build()).toBe(
+      "((@collection.project_tags:t0.project ?= id && @collection.project_tags:t0.tag ?= 't1') && " +
+        "(@collection.project_tags:t1.project ?= id && @collection.project_tags:t1.tag ?= 't2'))"
+    );
+  });
+
+  it('gives each tag its own join in all mode so one tag row is not matched against every tag', () => {
+    const filter = createFilter().tags(['t1', 't2', 't3'], 'all').build();
+    const aliases = new Set(filter.match(/project_tags:t\d+/g));
+
+    expect(filter).not.toContain('project_tags_via_project');
+    expect(aliases.size).toBe(3);
+  });
+
+  it('excludes projects that have any excluded tag', () => {
+    expect(createFilter().excludeTags(['t3', 't4']).build()).toBe(
+      "(project_tags_via_project.tag != 't3' && project_tags_via_project.tag != 't4')"
+    );
+  });
+
+  it('skips empty tag lists', () => {
+    expect(createFilter().tags([], 'all').excludeTags([]).build()).toBe('');
+  });
+
+  it('combines include and exclude tags in project filters', () => {
+    const filter = buildUserProjectFilter('user1', {
+      selectedTags: ['t1'],
+      tagMatchMode: 'all',
+      excludedTags: ['t2'],
+    });
+
+    expect(filter).toBe(
+      "user = 'user1' && ((@collection.project_tags:t0.project ?= id && @collection.project_tags:t0.tag ?= 't1')) && " +
+        "(project_tags_via_project.tag != 't2')"
+    );
+  });
+});
+
+describe('FilterBuilder range filters', () => {
+  it('adds inclusive numeric bounds', () => {
+    expect(createFilter().numberRange('width', { min: 40, max: 60 }).build()).toBe(
+      'width >= 40 && width <= 60'
+    );
+  });
+
+  it('requires a value when only a maximum is set', () => {
+    expect(createFilter().numberRange('total_diamonds', { max: 50000 }).build()).toBe(
+      'total_diamonds > 0 && total_diamonds <= 50000'
+    );
+  });
+
+  it('covers whole days and skips projects without a date', () => {
+    expect(
+      createFilter().dateWindow('date_purchased', { from: '2025-03-01', to: '2025-06-30' }).build()
+    ).toBe(
+      "date_purchased != '' && date_purchased >= '2025-03-01 00:00:00' && date_purchased <= '2025-06-30 23:59:59'"
+    );
+  });
+
+  it('maps project range fields to their columns', () => {
+    expect(
+      createFilter()
+        .projectRanges({ totalDiamonds: { min: 50000 }, dateStarted: { to: '2025-01-31' } })
+        .build()
+    ).toBe(
+      "total_diamonds >= 50000 && date_started != '' && date_started <= '2025-01-31 23:59:59'"
+    );
+  });
+
+  it('ignores empty ranges', () => {
+    expect(createFilter().projectRanges({ width: {}, dateCompleted: {} }).build()).toBe('');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for completed-projects gallery filtering, sizing and lightbox navigation
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_GALLERY_FILTERS,
+  GALLERY_UNDATED,
+  filterGalleryProjects,
+  getGalleryFilterOptions,
+  getGalleryImages,
+  getGalleryThumbnailSize,
+  stepLightboxIndex,
+} from '../gallery';
+import type { GalleryProject } from '@/types/gallery';
+
+const record = { id: 'r', collectionId: 'c', collectionName: 'projects' };
+
+const projects: GalleryProject[] = [
+  {
+    id: 'p1',
+    title: 'Sunset',
+    dateCompleted: '2025-03-01',
+    artistId: 'a1',
+    artistName: 'Zoe',
+    tags: [{ id: 't1', name: 'Landscape' }],
+    images: [
+      {
+        id: 'p1-image',
+        kind: 'project',
+        record,
+        filename: 'a.jpg',
+        projectId: 'p1',
+        projectTitle: 'Sunset',
+      },
+      {
+        id: 'n1',
+        kind: 'progress',
+        record,
+        filename: 'b.jpg',
+        projectId: 'p1',
+        projectTitle: 'Sunset',
+        date: '2025-02-20',
+      },
+    ],
+  },
+  {
+    id: 'p2',
+    title: 'Owl',
+    dateCompleted: '2024-11-12',
+    artistId: 'a2',
+    artistName: 'Abe',
+    tags: [
+      { id: 't2', name: 'Animals' },
+      { id: 't1', name: 'Landscape' },
+    ],
+    images: [
+      {
+        id: 'p2-image',
+        kind: 'project',
+        record,
+        filename: 'c.jpg',
+        projectId: 'p2',
+        projectTitle: 'Owl',
+      },
+    ],
+  },
+  { id: 'p3', title: 'Cat', tags: [], images: [] },
+];
+
+describe('getGalleryFilterOptions', () => {
+  it('collects years newest first and sorted, de-duplicated tags and artists', () => {
+    expect(getGalleryFilterOptions(projects)).toEqual({
+      years: ['2025', '2024'],
+      tags: [
+        { id: 't2', name: 'Animals' },
+        { id: 't1', name: 'Landscape' },
+      ],
+      artists: [
+        { id: 'a2', name: 'Abe' },
+        { id: 'a1', name: 'Zoe' },
+      ],
+      hasUndated: true,
+    });
+  });
+});
+
+describe('filterGalleryProjects', () => {
+  const ids = (list: GalleryProject[]) => list.map(project => project.id);
+
+  it('returns everything without filters', () => {
+    expect(ids(filterGalleryProjects(projects, EMPTY_GALLERY_FILTERS))).toEqual(['p1', 'p2', 'p3']);
+  });
+
+  it('filters by year, including undated projects', () => {
+    expect(
+      ids(filterGalleryProjects(projects, { ...EMPTY_GALLERY_FILTERS, year: '2024' }))
+    ).toEqual(['p2']);
+    expect(
+      ids(filterGalleryProjects(projects, { ...EMPTY_GALLERY_FILTERS, year: GALLERY_UNDATED }))
+    ).toEqual(['p3']);
+  });
+
+  it('combines tag and artist filters', () => {
+    expect(ids(filterGalleryProjects(projects, { year: '', tagId: 't1', artistId: 'a2' }))).toEqual(
+      ['p2']
+    );
+  });
+});
+
+describe('getGalleryImages', () => {
+  it('keeps project order with each project image before its progress image', () => {
+    expect(getGalleryImages(projects).map(image => image.id)).toEqual([
+      'p1-image',
+      'n1',
+      'p2-image',
+    ]);
+  });
+});
+
+describe('getGalleryThumbnailSize', () => {
+  it('picks the smallest aspect-preserving size wide enough for the column', () => {
+    expect(getGalleryThumbnailSize(180)).toBe('card');
+    expect(getGalleryThumbnailSize(280, 2)).toBe('preview');
+    expect(getGalleryThumbnailSize(700)).toBe('large');
+  });
+
+  it('falls back to the largest size for very wide columns', () => {
+    expect(getGalleryThumbnailSize(1200, 2)).toBe('large');
+  });
+});
+
+describe('stepLightboxIndex', () => {
+  it('wraps around at both ends', () => {
+    expect(stepLightboxIndex(0, 1, 3)).toBe(1);
+    expect(stepLightboxIndex(2, 1, 3)).toBe(0);
+    expect(stepLightboxIndex(0, -1, 3)).toBe(2);
+    expect(stepLightboxIndex(0, 1, 0)).toBe(0);
+  });
+});
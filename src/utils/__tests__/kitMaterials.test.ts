@@ -0,0 +1,42 @@
+/**
+ * Tests for reading drill and canvas types
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getDrillTypeLabel, parseCanvasType, parseDrillType } from '../kitMaterials';
+
+describe('parseDrillType', () => {
+  it('reads common spellings regardless of case and punctuation', () => {
+    expect(parseDrillType('AB')).toBe('ab');
+    expect(parseDrillType('Aurora Borealis')).toBe('ab');
+    expect(parseDrillType('Fairy dust')).toBe('fairy_dust');
+    expect(parseDrillType('glow-in-the-dark')).toBe('glow_in_dark');
+    expect(parseDrillType('Special Shaped')).toBe('special_shaped');
+    expect(parseDrillType('regular')).toBe('standard');
+  });
+
+  it('returns null for empty or unknown values', () => {
+    expect(parseDrillType('')).toBeNull();
+    expect(parseDrillType(undefined)).toBeNull();
+    expect(parseDrillType('sparkly')).toBeNull();
+    expect(parseDrillType('constructor')).toBeNull();
+  });
+});
+
+describe('parseCanvasType', () => {
+  it('reads canvas, linen and mixed', () => {
+    expect(parseCanvasType('Canvas')).toBe('canvas');
+    expect(parseCanvasType(' LINEN ')).toBe('linen');
+    expect(parseCanvasType('mix')).toBe('mixed');
+    expect(parseCanvasType('velvet')).toBeNull();
+  });
+});
+
+describe('getDrillTypeLabel', () => {
+  it('labels known types and passes other values through', () => {
+    expect(getDrillTypeLabel('fairy_dust')).toBe('Fairy Dust');
+    expect(getDrillTypeLabel('Holographic')).toBe('Holographic');
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for offline write queue ordering, conflict checks and labels
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import { QueryClient } from '@tanstack/react-query';
+import { ClientResponseError } from 'pocketbase';
+import {
+  describeQueuedWrite,
+  getBlockedProjectIds,
+  getQueuedWriteContext,
+  hasServerConflict,
+  isNetworkError,
+  rebaseQueuedWrites,
+} from '../offlineQueue';
+import { queryKeys } from '@/hooks/queries/queryKeys';
+import type { QueuedWrite } from '@/types/offlineQueue';
+
+const makeWrite = (overrides: Partial<QueuedWrite> = {}): QueuedWrite => ({
+  sequence: 1,
+  userId: 'u1',
+  projectId: 'p1',
+  baseUpdated: '2026-10-01 10:00:00.000Z',
+  payload: { kind: 'project-status', newStatus: 'completed', today: '2026-10-18' },
+  status: 'pending',
+  createdAt: '2026-10-18T09:00:00.000Z',
+  ...overrides,
+});
+
+describe('isNetworkError', () => {
+  it('treats unreachable servers as network errors but not rejections or cancellations', () => {
+    expect(isNetworkError(new ClientResponseError({ status: 0 }))).toBe(true);
+    expect(isNetworkError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isNetworkError(new ClientResponseError({ status: 0, isAbort: true }))).toBe(false);
+    expect(isNetworkError(new ClientResponseError({ status: 400 }))).toBe(false);
+    expect(isNetworkError(new Error('Validation failed'))).toBe(false);
+  });
+});
+
+describe('getQueuedWriteContext', () => {
+  it('reads the title and last-seen timestamp from the cached project detail', () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(queryKeys.projects.detail('p1'), {
+      title: 'Sunset',
+      updatedAt: '2026-10-01 10:00:00.000Z',
+    });
+    queryClient.setQueryData(queryKeys.projects.detail('p2'), {
+      title: 'Raw record',
+      updated: '2026-10-02 10:00:00.000Z',
+    });
+
+    expect(getQueuedWriteContext(queryClient, 'p1')).toEqual({
+      projectTitle: 'Sunset',
+      baseUpdated: '2026-10-01 10:00:00.000Z',
+    });
+    expect(getQueuedWriteContext(queryClient, 'p2').baseUpdated).toBe('2026-10-02 10:00:00.000Z');
+    expect(getQueuedWriteContext(queryClient, 'missing')).toEqual({});
+  });
+});
+
+describe('getBlockedProjectIds', () => {
+  it('blocks projects with a conflicting or failed write', () => {
+    const blocked = getBlockedProjectIds([
+      makeWrite({ sequence: 1, projectId: 'p1', status: 'conflict' }),
+      makeWrite({ sequence: 2, projectId: 'p2', status: 'failed' }),
+      makeWrite({ sequence: 3, projectId: 'p3' }),
+    ]);
+
+    expect([...blocked].sort()).toEqual(['p1', 'p2']);
+  });
+});
+
+describe('hasServerConflict', () => {
+  it('flags a changed server record unless the user chose to overwrite it', () => {
+    const write = makeWrite();
+
+    expect(hasServerConflict(write, '2026-10-01 10:00:00.000Z')).toBe(false);
+    expect(hasServerConflict(write, '2026-10-05 08:00:00.000Z')).toBe(true);
+    expect(hasServerConflict({ ...write, overwrite: true }, '2026-10-05 08:00:00.000Z')).toBe(
+      false
+    );
+    expect(
+      hasServerConflict({ ...write, baseUpdated: undefined }, '2026-10-05 08:00:00.000Z')
+    ).toBe(false);
+  });
+});
+
+describe('rebaseQueuedWrites', () => {
+  it("moves the project's later pending writes onto the replayed record", () => {
+    const writes = [
+      makeWrite({ sequence: 2 }),
+      makeWrite({ sequence: 3, projectId: 'p2' }),
+      makeWrite({ sequence: 4, baseUpdated: '2026-09-01 10:00:00.000Z' }),
+      makeWrite({ sequence: 5, status: 'conflict' }),
+    ];
+
+    const rebased = rebaseQueuedWrites(
+      writes,
+      'p1',
+      '2026-10-01 10:00:00.000Z',
+      '2026-10-18 12:00:00.000Z'
+    );
+
+    expect(rebased).toHaveLength(1);
+    expect(rebased[0]).toMatchObject({ sequence: 2, baseUpdated: '2026-10-18 12:00:00.000Z' });
+    expect(writes[0].baseUpdated).toBe('2026-10-01 10:00:00.000Z');
+  });
+});
+
+describe('describeQueuedWrite', () => {
+  it('labels each kind of write', () => {
+    const image = new File(['x'], 'progress.webp', { type: 'image/webp' });
+
+    expect(describeQueuedWrite(makeWrite())).toBe('Status changed to Completed');
+    expect(
+      describeQueuedWrite(
+        makeWrite({
+          payload: {
+            kind: 'progress-note',
+            data: { content: 'Row 12', date: '2026-10-18' },
+            imageFile: image,
+          },
+        })
+      )
+    ).toBe('Progress note with picture added');
+    expect(
+      describeQueuedWrite(
+        makeWrite({
+          payload: { kind: 'project-update', data: { title: 'Sunset' }, resolveRelations: true },
+        })
+      )
+    ).toBe('Project details edited');
+  });
+});
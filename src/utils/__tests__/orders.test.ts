@@ -0,0 +1,95 @@
+/**
+ * Tests for order state, ordering and project link helpers
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getOrderLinkChanges,
+  getOrderState,
+  getOrderTitle,
+  getProjectsToReceive,
+  splitOrders,
+  toDateOnly,
+} from '../orders';
+import type { Order } from '@/types/order';
+
+const createOrder = (overrides: Partial<Order>): Order => ({
+  id: overrides.id ?? 'o1',
+  userId: 'u1',
+  projects: [],
+  createdAt: '2025-03-01T10:00:00.000Z',
+  updatedAt: '2025-03-01T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('getOrderState', () => {
+  it('is received once a receipt date is set', () => {
+    const order = createOrder({ dateReceived: '2025-03-10', expectedDelivery: '2025-03-05' });
+    expect(getOrderState(order, '2025-03-20')).toBe('received');
+  });
+
+  it('is overdue only after the expected delivery date', () => {
+    const order = createOrder({ expectedDelivery: '2025-03-05' });
+    expect(getOrderState(order, '2025-03-05')).toBe('open');
+    expect(getOrderState(order, '2025-03-06')).toBe('overdue');
+    expect(getOrderState(createOrder({}), '2025-03-06')).toBe('open');
+  });
+});
+
+describe('getOrderTitle', () => {
+  it('uses the company and order number it has', () => {
+    expect(getOrderTitle({ companyName: 'Diamond Art Club', orderNumber: '1042' })).toBe(
+      'Diamond Art Club #1042'
+    );
+    expect(getOrderTitle({ orderNumber: '1042' })).toBe('Order #1042');
+    expect(getOrderTitle({ companyName: 'Diamond Art Club' })).toBe('Diamond Art Club order');
+    expect(getOrderTitle({})).toBe('Untitled order');
+  });
+});
+
+describe('splitOrders', () => {
+  it('sorts open orders by expected delivery and received orders newest first', () => {
+    const orders = [
+      createOrder({ id: 'undated', orderDate: '2025-01-01' }),
+      createOrder({ id: 'late', expectedDelivery: '2025-04-01' }),
+      createOrder({ id: 'soon', expectedDelivery: '2025-03-01' }),
+      createOrder({ id: 'old', dateReceived: '2025-01-15' }),
+      createOrder({ id: 'recent', dateReceived: '2025-02-15' }),
+    ];
+
+    const { open, received } = splitOrders(orders);
+    expect(open.map(order => order.id)).toEqual(['soon', 'late', 'undated']);
+    expect(received.map(order => order.id)).toEqual(['recent', 'old']);
+  });
+});
+
+describe('getProjectsToReceive', () => {
+  it('only moves purchased projects', () => {
+    const order = createOrder({
+      projects: [
+        { id: 'p1', title: 'Koi', status: 'purchased', orderId: 'o1' },
+        { id: 'p2', title: 'Owl', status: 'stash', orderId: 'o1' },
+        { id: 'p3', title: 'Fox', status: 'progress', orderId: 'o1' },
+      ],
+    });
+    expect(getProjectsToReceive(order).map(project => project.id)).toEqual(['p1']);
+  });
+});
+
+describe('getOrderLinkChanges', () => {
+  it('links added projects and unlinks removed ones', () => {
+    expect(getOrderLinkChanges(['p1', 'p2'], ['p2', 'p3'])).toEqual({
+      link: ['p3'],
+      unlink: ['p1'],
+    });
+  });
+});
+
+describe('toDateOnly', () => {
+  it('keeps the date part of a PocketBase date', () => {
+    expect(toDateOnly('2025-03-01 00:00:00.000Z')).toBe('2025-03-01');
+    expect(toDateOnly('')).toBeUndefined();
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Tests for batch deletions kept in localStorage during their undo window
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getPendingDeletes, removePendingDelete, savePendingDelete } from '../pendingDeletes';
+
+const entry = (key: string, userId = 'user-1') => ({
+  key,
+  userId,
+  projectIds: ['p1', 'p2'],
+  commitAt: 1000,
+});
+
+describe('pending deletions', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("keeps each user's deletions until they are removed", () => {
+    savePendingDelete(entry('a'));
+    savePendingDelete(entry('b'));
+    savePendingDelete(entry('c', 'user-2'));
+
+    expect(getPendingDeletes('user-1').map(pending => pending.key)).toEqual(['a', 'b']);
+
+    removePendingDelete('a');
+    expect(getPendingDeletes('user-1')).toEqual([entry('b')]);
+  });
+
+  it('ignores unreadable or malformed storage', () => {
+    localStorage.setItem('organized-glitter-pending-deletes', '{not json');
+    expect(getPendingDeletes('user-1')).toEqual([]);
+
+    localStorage.setItem(
+      'organized-glitter-pending-deletes',
+      JSON.stringify([{ key: 'x', userId: 'user-1' }, entry('ok')])
+    );
+    expect(getPendingDeletes('user-1')).toEqual([entry('ok')]);
+  });
+});
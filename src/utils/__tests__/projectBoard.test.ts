@@ -0,0 +1,89 @@
+/**
+ * Tests for board view helpers
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getBoardStatuses, getStatusChangeDates, groupProjectsByStatus } from '../projectBoard';
+import type { ProjectStatus } from '@/types/project';
+
+const allIncluded = {
+  includeWishlist: true,
+  includeOnHold: true,
+  includeArchived: true,
+  includeDestashed: true,
+};
+
+describe('getBoardStatuses', () => {
+  it('shows every status when all include toggles are on', () => {
+    expect(getBoardStatuses(allIncluded)).toEqual([
+      'wishlist',
+      'purchased',
+      'stash',
+      'progress',
+      'onhold',
+      'completed',
+      'archived',
+      'destashed',
+    ]);
+  });
+
+  it('hides columns for excluded statuses', () => {
+    expect(
+      getBoardStatuses({
+        includeWishlist: false,
+        includeOnHold: true,
+        includeArchived: false,
+        includeDestashed: false,
+      })
+    ).toEqual(['purchased', 'stash', 'progress', 'onhold', 'completed']);
+  });
+});
+
+describe('groupProjectsByStatus', () => {
+  it('groups projects by status in their original order, skipping hidden columns', () => {
+    const projects: { id: string; status: ProjectStatus }[] = [
+      { id: 'a', status: 'stash' },
+      { id: 'b', status: 'progress' },
+      { id: 'c', status: 'stash' },
+      { id: 'd', status: 'archived' },
+    ];
+
+    const columns = groupProjectsByStatus(projects, ['stash', 'progress']);
+
+    expect(columns.stash.map(project => project.id)).toEqual(['a', 'c']);
+    expect(columns.progress.map(project => project.id)).toEqual(['b']);
+    expect(columns.archived).toEqual([]);
+    expect(columns.wishlist).toEqual([]);
+  });
+});
+
+describe('getStatusChangeDates', () => {
+  const today = '2025-06-01';
+
+  it('sets the start date when a project without one goes in progress', () => {
+    expect(getStatusChangeDates({ status: 'stash' }, 'progress', today)).toEqual({
+      dateStarted: today,
+    });
+    expect(
+      getStatusChangeDates({ status: 'onhold', dateStarted: '2025-01-01' }, 'progress', today)
+    ).toEqual({});
+  });
+
+  it('sets the completion date on completion and clears it when moving away', () => {
+    expect(getStatusChangeDates({ status: 'progress' }, 'completed', today)).toEqual({
+      dateCompleted: today,
+    });
+    expect(getStatusChangeDates({ status: 'completed' }, 'archived', today)).toEqual({
+      dateCompleted: null,
+    });
+  });
+
+  it('changes both dates when a completed project is started again', () => {
+    expect(getStatusChangeDates({ status: 'completed' }, 'progress', today)).toEqual({
+      dateStarted: today,
+      dateCompleted: null,
+    });
+  });
+});
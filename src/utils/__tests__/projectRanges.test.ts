@@ -0,0 +1,90 @@
+/**
+ * Tests for project range filter helpers
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyRangeSearchParams,
+  areRangesEqual,
+  countActiveRanges,
+  normalizeProjectRanges,
+  parseRangeSearchParams,
+} from '../projectRanges';
+
+describe('projectRanges', () => {
+  describe('normalizeProjectRanges', () => {
+    it('drops empty, negative and invalid bounds', () => {
+      expect(
+        normalizeProjectRanges({
+          width: { min: 40, max: undefined },
+          height: { min: -5 },
+          totalDiamonds: {},
+          datePurchased: { from: '2025-03-01', to: 'not a date' },
+          dateCompleted: { from: '' },
+          unknownField: { min: 1 },
+        })
+      ).toEqual({
+        width: { min: 40 },
+        datePurchased: { from: '2025-03-01' },
+      });
+    });
+
+    it('returns an empty object for non-object input', () => {
+      expect(normalizeProjectRanges(null)).toEqual({});
+      expect(normalizeProjectRanges('width')).toEqual({});
+    });
+  });
+
+  it('counts fields with an active bound', () => {
+    expect(
+      countActiveRanges({ width: { min: 40 }, height: {}, dateStarted: { to: '2025-06-30' } })
+    ).toBe(2);
+  });
+
+  it('compares ranges regardless of empty fields and key order', () => {
+    expect(
+      areRangesEqual({ width: { max: 60, min: 40 }, height: {} }, { width: { min: 40, max: 60 } })
+    ).toBe(true);
+    expect(areRangesEqual({ width: { min: 40 } }, { width: { min: 41 } })).toBe(false);
+  });
+
+  describe('URL search parameters', () => {
+    it('parses range parameters', () => {
+      const params = new URLSearchParams(
+        'width_min=40&diamonds_min=50000&purchased_from=2025-03-01&purchased_to=2025-06-30&height_max=abc'
+      );
+
+      expect(parseRangeSearchParams(params)).toEqual({
+        width: { min: 40 },
+        totalDiamonds: { min: 50000 },
+        datePurchased: { from: '2025-03-01', to: '2025-06-30' },
+      });
+    });
+
+    it('replaces range parameters and keeps unrelated ones', () => {
+      const params = new URLSearchParams('view=abc&width_min=10&height_max=30');
+      const next = applyRangeSearchParams(params, {
+        width: { min: 40 },
+        dateCompleted: { to: '2025-12-31' },
+      });
+
+      expect(next.get('view')).toBe('abc');
+      expect(next.get('width_min')).toBe('40');
+      expect(next.has('height_max')).toBe(false);
+      expect(next.get('completed_to')).toBe('2025-12-31');
+      expect(params.get('width_min')).toBe('10');
+    });
+
+    it('round-trips through the URL', () => {
+      const ranges = {
+        height: { min: 20, max: 50 },
+        dateReceived: { from: '2025-01-01' },
+      };
+      const params = applyRangeSearchParams(new URLSearchParams(), ranges);
+
+      expect(parseRangeSearchParams(params)).toEqual(ranges);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for full-text project search ranking and snippets
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildSearchSnippet,
+  matchProject,
+  rankProjectSearchResults,
+  splitHighlightSegments,
+  stripHtml,
+} from '../projectSearch';
+import type { Project } from '@/types/project';
+
+const createProject = (overrides: Partial<Project>): Project => ({
+  id: overrides.id ?? 'p1',
+  userId: 'u1',
+  title: overrides.title ?? 'Project',
+  status: 'progress',
+  createdAt: '2025-01-01 00:00:00.000Z',
+  updatedAt: '2025-01-01 00:00:00.000Z',
+  ...overrides,
+});
+
+describe('stripHtml', () => {
+  it('removes tags and decodes common entities', () => {
+    expect(stripHtml('<p>Cats &amp; <strong>dogs</strong></p>')).toBe('Cats & dogs');
+  });
+});
+
+describe('buildSearchSnippet', () => {
+  it('cuts text around the match with ellipses', () => {
+    const text = `${'a'.repeat(60)} sunflower ${'b'.repeat(60)}`;
+    const snippet = buildSearchSnippet(text, 'SUNFLOWER', 10);
+    expect(snippet).toBe(`…${'a'.repeat(9)} sunflower ${'b'.repeat(9)}…`);
+  });
+
+  it('returns null without a match', () => {
+    expect(buildSearchSnippet('nothing here', 'cat')).toBeNull();
+  });
+});
+
+describe('splitHighlightSegments', () => {
+  it('marks every case-insensitive match', () => {
+    expect(splitHighlightSegments('Cat and cat', 'cat')).toEqual([
+      { text: 'Cat', match: true },
+      { text: ' and ', match: false },
+      { text: 'cat', match: true },
+    ]);
+  });
+});
+
+describe('matchProject', () => {
+  it('reports matched fields, snippet and the first matching progress note', () => {
+    const project = createProject({
+      title: 'Garden',
+      company: 'Diamond Art Club',
+      generalNotes: 'Bought at the club sale',
+    });
+    const match = matchProject(project, 'club', [
+      { id: 'n2', project: 'p1', content: '<p>Finished the club logo</p>', date: '2025-02-01' },
+      { id: 'n1', project: 'p1', content: '<p>Started</p>', date: '2025-01-01' },
+    ]);
+
+    expect(match?.fields).toEqual(['company', 'generalNotes', 'progressNote']);
+    expect(match?.snippet).toEqual({ field: 'company', text: 'Diamond Art Club' });
+    expect(match?.progressNote).toEqual({
+      noteId: 'n2',
+      date: '2025-02-01',
+      snippet: 'Finished the club logo',
+    });
+    expect(match?.progressNoteCount).toBe(1);
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(matchProject(createProject({}), 'owl')).toBeNull();
+  });
+});
+
+describe('rankProjectSearchResults', () => {
+  it('ranks title matches above note matches and keeps ties in order', () => {
+    const projects = [
+      createProject({ id: 'notes', generalNotes: 'An owl in the moonlight' }),
+      createProject({ id: 'title', title: 'Snowy Owl' }),
+      createProject({ id: 'prefix', title: 'Owl family' }),
+      createProject({ id: 'notes2', generalNotes: 'Owl again' }),
+    ];
+
+    const { projects: ranked, matches } = rankProjectSearchResults(projects, [], 'owl');
+
+    expect(ranked.map(p => p.id)).toEqual(['prefix', 'title', 'notes', 'notes2']);
+    expect(matches.prefix.score).toBeGreaterThan(matches.title.score);
+  });
+});
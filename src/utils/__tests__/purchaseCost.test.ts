@@ -0,0 +1,63 @@
+/**
+ * Tests for purchase cost helpers
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getTotalCost, normalizeCurrency, parseMoney } from '../purchaseCost';
+
+describe('getTotalCost', () => {
+  it('adds shipping and takes off the discount', () => {
+    expect(getTotalCost({ price: 45.5, shippingCost: 6.99, discount: 10 })).toBe(42.49);
+  });
+
+  it('never goes below zero', () => {
+    expect(getTotalCost({ price: 5, discount: 20 })).toBe(0);
+  });
+
+  it('returns null when no price or shipping was recorded', () => {
+    expect(getTotalCost({ discount: 5 })).toBeNull();
+    expect(getTotalCost({})).toBeNull();
+  });
+});
+
+describe('normalizeCurrency', () => {
+  it('uppercases valid codes and falls back to the default', () => {
+    expect(normalizeCurrency(' eur ')).toBe('EUR');
+    expect(normalizeCurrency('')).toBe('USD');
+    expect(normalizeCurrency('dollars')).toBe('USD');
+  });
+});
+
+describe('parseMoney', () => {
+  it('strips currency symbols and thousands separators', () => {
+    expect(parseMoney('$1,234.50')).toBe(1234.5);
+    expect(parseMoney('15')).toBe(15);
+  });
+
+  it('reads a decimal comma', () => {
+    expect(parseMoney('12,99 €')).toBe(12.99);
+    expect(parseMoney('12,5')).toBe(12.5);
+  });
+
+  it('treats the last separator as the decimal point when both appear', () => {
+    expect(parseMoney('1.234,50 €')).toBe(1234.5);
+    expect(parseMoney('1,234.5')).toBe(1234.5);
+    expect(parseMoney('€ 1.234.567,89')).toBe(1234567.89);
+  });
+
+  it('reads repeated or three-digit groups as thousands separators', () => {
+    expect(parseMoney('1,234')).toBe(1234);
+    expect(parseMoney('1.234.567')).toBe(1234567);
+    expect(parseMoney('1.234')).toBe(1234);
+    expect(parseMoney('€1.234')).toBe(1234);
+    expect(parseMoney('1.234 €')).toBe(1234);
+  });
+
+  it('rejects empty and negative amounts', () => {
+    expect(parseMoney('')).toBeUndefined();
+    expect(parseMoney('free')).toBeUndefined();
+    expect(parseMoney('-5')).toBeUndefined();
+  });
+});
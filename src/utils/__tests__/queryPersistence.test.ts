@@ -0,0 +1,94 @@
+/**
+ * Tests for which cached queries are kept offline and for how long
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import { QueryClient, dehydrate } from '@tanstack/react-query';
+import {
+  getQueryMaxAge,
+  mergePersistedQueries,
+  shouldPersistQuery,
+  toPersistedQuery,
+} from '../queryPersistence';
+import { queryKeys } from '@/hooks/queries/queryKeys';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-10-18T12:00:00.000Z');
+
+const makeQuery = (queryKey: readonly unknown[], dataUpdatedAt: number, data: unknown = {}) => {
+  const queryClient = new QueryClient();
+  queryClient.setQueryData(queryKey, data, { updatedAt: dataUpdatedAt });
+  return dehydrate(queryClient).queries[0];
+};
+
+describe('getQueryMaxAge', () => {
+  it('keeps projects for a week, metadata for a month and everything else not at all', () => {
+    expect(getQueryMaxAge(queryKeys.projects.detail('p1'))).toBe(7 * DAY);
+    expect(getQueryMaxAge(queryKeys.progressNotes.list('p1'))).toBe(7 * DAY);
+    expect(getQueryMaxAge(queryKeys.tags.list('u1'))).toBe(30 * DAY);
+    expect(getQueryMaxAge(queryKeys.companies.allForUser('u1'))).toBe(30 * DAY);
+    expect(getQueryMaxAge(queryKeys.projects.navigationContext('u1'))).toBeUndefined();
+    expect(getQueryMaxAge(queryKeys.user.all)).toBeUndefined();
+  });
+});
+
+describe('shouldPersistQuery', () => {
+  it('only saves persisted queries that have data', () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(queryKeys.projects.detail('p1'), { id: 'p1' });
+    queryClient.setQueryData(queryKeys.user.all, { id: 'u1' });
+    queryClient.getQueryCache().build(queryClient, { queryKey: queryKeys.projects.detail('p2') });
+
+    const saved = queryClient
+      .getQueryCache()
+      .getAll()
+      .filter(shouldPersistQuery)
+      .map(query => query.queryKey);
+
+    expect(saved).toEqual([queryKeys.projects.detail('p1')]);
+  });
+});
+
+describe('toPersistedQuery', () => {
+  it('keeps the data and fetch time but drops errors', () => {
+    const query = makeQuery(queryKeys.projects.detail('p1'), NOW, { id: 'p1' });
+    const persisted = toPersistedQuery({
+      ...query,
+      state: { ...query.state, status: 'error', error: new Error('Offline'), fetchFailureCount: 2 },
+    });
+
+    expect(persisted.state).toMatchObject({
+      data: { id: 'p1' },
+      dataUpdatedAt: NOW,
+      status: 'success',
+      fetchStatus: 'idle',
+      error: null,
+      fetchFailureCount: 0,
+    });
+  });
+});
+
+describe('mergePersistedQueries', () => {
+  it('keeps earlier queries until they expire and prefers the newer copy', () => {
+    const oldDetail = makeQuery(queryKeys.projects.detail('p1'), NOW - DAY, { title: 'Old' });
+    const newDetail = makeQuery(queryKeys.projects.detail('p1'), NOW, { title: 'New' });
+    const browsedEarlier = makeQuery(queryKeys.projects.detail('p2'), NOW - 2 * DAY);
+    const expired = makeQuery(queryKeys.projects.detail('p3'), NOW - 8 * DAY);
+    const tags = makeQuery(queryKeys.tags.list('u1'), NOW - 8 * DAY);
+
+    const merged = mergePersistedQueries(
+      [oldDetail, browsedEarlier, expired, tags],
+      [newDetail],
+      NOW
+    );
+
+    expect(merged.map(query => query.queryHash)).toEqual([
+      newDetail.queryHash,
+      browsedEarlier.queryHash,
+      tags.queryHash,
+    ]);
+    expect(merged[0].state.data).toEqual({ title: 'New' });
+  });
+});
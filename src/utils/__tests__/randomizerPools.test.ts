@@ -0,0 +1,78 @@
+/**
+ * Tests for filter-based randomizer pool helpers
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  arePoolFiltersEqual,
+  DEFAULT_POOL_FILTERS,
+  normalizePoolFilters,
+  toPoolServerFilters,
+} from '../randomizerPools';
+
+describe('normalizePoolFilters', () => {
+  it('returns the default pool for missing filters', () => {
+    expect(normalizePoolFilters(null)).toEqual(DEFAULT_POOL_FILTERS);
+  });
+
+  it('keeps valid values and replaces invalid ones', () => {
+    expect(
+      normalizePoolFilters({
+        status: 'stash',
+        selectedTags: ['t1', 3 as never],
+        tagMatchMode: 'all',
+        company: '',
+        kitCategory: 'huge' as never,
+      })
+    ).toEqual({
+      status: 'stash',
+      selectedTags: ['t1'],
+      tagMatchMode: 'all',
+      company: 'all',
+      drillShape: 'all',
+      kitCategory: 'all',
+    });
+  });
+});
+
+describe('toPoolServerFilters', () => {
+  it('only sends the fields a pool filters on', () => {
+    expect(toPoolServerFilters(DEFAULT_POOL_FILTERS)).toEqual({ status: 'progress' });
+  });
+
+  it('maps company, drill shape, kit size and tags', () => {
+    expect(
+      toPoolServerFilters({
+        status: 'active',
+        selectedTags: ['t1', 't2'],
+        tagMatchMode: 'all',
+        company: 'c1',
+        drillShape: 'square',
+        kitCategory: 'mini',
+      })
+    ).toEqual({
+      status: 'active',
+      company: 'c1',
+      drillShape: 'square',
+      kitCategory: 'mini',
+      selectedTags: ['t1', 't2'],
+      tagMatchMode: 'all',
+    });
+  });
+});
+
+describe('arePoolFiltersEqual', () => {
+  it('ignores tag order', () => {
+    expect(
+      arePoolFiltersEqual(
+        { ...DEFAULT_POOL_FILTERS, selectedTags: ['a', 'b'] },
+        { ...DEFAULT_POOL_FILTERS, selectedTags: ['b', 'a'] }
+      )
+    ).toBe(true);
+    expect(
+      arePoolFiltersEqual(DEFAULT_POOL_FILTERS, { ...DEFAULT_POOL_FILTERS, status: 'stash' })
+    ).toBe(false);
+  });
+});
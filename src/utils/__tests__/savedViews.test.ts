@@ -0,0 +1,130 @@
+/**
+ * Tests for saved dashboard view helpers
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildSavedViewUrl,
+  extractSavedViewFilters,
+  getSavedViewCount,
+  isSavedViewActive,
+  normalizeSavedViewFilters,
+} from '../savedViews';
+import { getDefaultFilters } from '@/contexts/FilterContext/types';
+import type { StatusBreakdown } from '@/types/projectFilters';
+
+const counts: StatusBreakdown = {
+  wishlist: 1,
+  purchased: 2,
+  stash: 4,
+  progress: 8,
+  onhold: 16,
+  completed: 32,
+  archived: 64,
+  destashed: 128,
+};
+
+describe('savedViews', () => {
+  describe('extractSavedViewFilters', () => {
+    it('drops pagination and layout state', () => {
+      const viewFilters = extractSavedViewFilters({
+        ...getDefaultFilters(),
+        currentPage: 4,
+        selectedTags: ['t1'],
+      });
+
+      expect(viewFilters).not.toHaveProperty('currentPage');
+      expect(viewFilters).not.toHaveProperty('pageSize');
+      expect(viewFilters).not.toHaveProperty('viewType');
+      expect(viewFilters.selectedTags).toEqual(['t1']);
+    });
+  });
+
+  describe('normalizeSavedViewFilters', () => {
+    it('returns defaults for missing data', () => {
+      expect(normalizeSavedViewFilters(null)).toEqual(extractSavedViewFilters(getDefaultFilters()));
+    });
+
+    it('keeps valid values and replaces mistyped ones', () => {
+      const normalized = normalizeSavedViewFilters({
+        activeStatus: 'progress',
+        includeMiniKits: 'yes' as unknown as boolean,
+        selectedTags: ['t1', 42 as unknown as string],
+      });
+
+      expect(normalized.activeStatus).toBe('progress');
+      expect(normalized.includeMiniKits).toBe(getDefaultFilters().includeMiniKits);
+      expect(normalized.selectedTags).toEqual(['t1']);
+    });
+
+    it('only accepts known tag match modes', () => {
+      expect(normalizeSavedViewFilters({ tagMatchMode: 'all' }).tagMatchMode).toBe('all');
+      expect(
+        normalizeSavedViewFilters({ tagMatchMode: 'none' as unknown as 'any' }).tagMatchMode
+      ).toBe('any');
+    });
+  });
+
+  describe('isSavedViewActive', () => {
+    it('ignores tag order and non-view state', () => {
+      const filters = { ...getDefaultFilters(), selectedTags: ['b', 'a'], currentPage: 3 };
+      const viewFilters = extractSavedViewFilters({ ...filters, selectedTags: ['a', 'b'] });
+
+      expect(isSavedViewActive(filters, viewFilters)).toBe(true);
+    });
+
+    it('detects differing filters', () => {
+      const filters = getDefaultFilters();
+      const viewFilters = extractSavedViewFilters({ ...filters, searchTerm: 'cat' });
+
+      expect(isSavedViewActive(filters, viewFilters)).toBe(false);
+    });
+  });
+
+  describe('getSavedViewCount', () => {
+    const base = extractSavedViewFilters(getDefaultFilters());
+
+    it('counts a single status', () => {
+      expect(getSavedViewCount(counts, { ...base, activeStatus: 'completed' })).toBe(32);
+    });
+
+    it('applies the on-hold flag to active projects', () => {
+      expect(
+        getSavedViewCount(counts, { ...base, activeStatus: 'active', includeOnHold: true })
+      ).toBe(30);
+      expect(
+        getSavedViewCount(counts, { ...base, activeStatus: 'active', includeOnHold: false })
+      ).toBe(14);
+    });
+
+    it('applies every include flag to everything', () => {
+      const none = {
+        ...base,
+        activeStatus: 'everything' as const,
+        includeOnHold: false,
+        includeWishlist: false,
+        includeArchived: false,
+        includeDestashed: false,
+      };
+
+      expect(getSavedViewCount(counts, none)).toBe(46);
+      expect(
+        getSavedViewCount(counts, {
+          ...none,
+          includeOnHold: true,
+          includeWishlist: true,
+          includeArchived: true,
+          includeDestashed: true,
+        })
+      ).toBe(255);
+    });
+  });
+
+  it('builds a dashboard link for a view', () => {
+    expect(buildSavedViewUrl('https://app.example.com', 'abc 1')).toBe(
+      'https://app.example.com/dashboard?view=abc%201'
+    );
+  });
+});
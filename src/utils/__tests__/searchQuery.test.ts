@@ -0,0 +1,149 @@
+/**
+ * Tests for the dashboard search query language
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getDefaultFilters } from '@/contexts/FilterContext/types';
+import {
+  areSearchQueryFiltersEqual,
+  filtersToSearchQuery,
+  getSearchQuerySuggestions,
+  parseSearchQuery,
+  pickSearchQueryFilters,
+  type SearchQueryMetadata,
+} from '../searchQuery';
+
+const metadata: SearchQueryMetadata = {
+  tags: [
+    { id: 't1', name: 'Animals' },
+    { id: 't2', name: 'Sea Life' },
+  ],
+  companies: [{ name: 'Diamond Art Club' }, { name: 'Dreamer Designs' }],
+  artists: [{ name: 'Thomas Kinkade' }],
+};
+
+const defaults = pickSearchQueryFilters(getDefaultFilters());
+
+describe('parseSearchQuery', () => {
+  it('parses the example query from the search box', () => {
+    const { filters, errors } = parseSearchQuery(
+      'status:stash tag:animals shape:square width>40 company:"Diamond Art Club"',
+      metadata
+    );
+
+    expect(errors).toEqual([]);
+    expect(filters).toEqual({
+      ...defaults,
+      activeStatus: 'stash',
+      selectedTags: ['t1'],
+      selectedDrillShape: 'square',
+      selectedCompany: 'Diamond Art Club',
+      ranges: { width: { min: 40 } },
+    });
+  });
+
+  it('keeps plain words as the search term', () => {
+    const { filters } = parseSearchQuery('sunset tag:"sea life" beach Cats:', metadata);
+    expect(filters.searchTerm).toBe('sunset beach Cats:');
+    expect(filters.selectedTags).toEqual(['t2']);
+  });
+
+  it('reads excluded tags, match mode and status aliases', () => {
+    const { filters } = parseSearchQuery('-tag:animals match:all status:done', metadata);
+    expect(filters.excludedTags).toEqual(['t1']);
+    expect(filters.tagMatchMode).toBe('all');
+    expect(filters.activeStatus).toBe('completed');
+  });
+
+  it('reads number and date ranges', () => {
+    const { filters, errors } = parseSearchQuery(
+      'height:30..50 diamonds<=20000 completed:2025 purchased>=2024-06-01',
+      metadata
+    );
+    expect(errors).toEqual([]);
+    expect(filters.ranges).toEqual({
+      height: { min: 30, max: 50 },
+      totalDiamonds: { max: 20000 },
+      dateCompleted: { from: '2025-01-01', to: '2025-12-31' },
+      datePurchased: { from: '2024-06-01' },
+    });
+  });
+
+  it('reports errors with the position of the bad term', () => {
+    const query = 'tag:dragons width>wide -status:stash "open';
+    const { errors } = parseSearchQuery(query, metadata);
+
+    expect(errors.map(error => error.message)).toEqual([
+      'No tag named "dragons"',
+      'width needs a number, e.g. width>40 or width:30..50',
+      'Only tags can be excluded with "-" (-status:stash)',
+      'Missing closing quote in "open',
+    ]);
+    expect(query.slice(errors[0].start, errors[0].end)).toBe('tag:dragons');
+  });
+
+  it('reports unknown filter keys', () => {
+    const { errors } = parseSearchQuery('colour:blue', metadata);
+    expect(errors[0].message).toBe('Unknown filter "colour"');
+  });
+});
+
+describe('filtersToSearchQuery', () => {
+  it('writes nothing for the default filters', () => {
+    expect(filtersToSearchQuery(defaults, metadata)).toBe('');
+  });
+
+  it('round-trips active filters', () => {
+    const filters = {
+      ...defaults,
+      activeStatus: 'progress' as const,
+      selectedTags: ['t2'],
+      excludedTags: ['t1'],
+      tagMatchMode: 'all' as const,
+      selectedArtist: 'Thomas Kinkade',
+      selectedYearFinished: '2024',
+      ranges: { width: { min: 40, max: 60 }, dateStarted: { to: '2025-03-01' } },
+      searchTerm: 'cottage',
+    };
+
+    const query = filtersToSearchQuery(filters, metadata);
+    expect(query).toBe(
+      'status:progress tag:"Sea Life" -tag:Animals match:all artist:"Thomas Kinkade" year:2024 width:40..60 started<=2025-03-01 cottage'
+    );
+
+    const parsed = parseSearchQuery(query, metadata);
+    expect(parsed.errors).toEqual([]);
+    expect(areSearchQueryFiltersEqual(parsed.filters, filters)).toBe(true);
+  });
+
+  it('quotes search text that looks like a filter', () => {
+    const filters = { ...defaults, searchTerm: 'tag:unicorn' };
+    const query = filtersToSearchQuery(filters, metadata);
+    expect(query).toBe('"tag:unicorn"');
+    expect(parseSearchQuery(query, metadata).filters.searchTerm).toBe('tag:unicorn');
+  });
+});
+
+describe('getSearchQuerySuggestions', () => {
+  it('suggests keys for a partial key', () => {
+    const suggestions = getSearchQuerySuggestions('sta', 3, metadata);
+    expect(suggestions?.items.map(item => item.label)).toEqual(['status:', 'started:']);
+  });
+
+  it('suggests quoted names for values', () => {
+    const query = 'tag:animals company:dia';
+    const suggestions = getSearchQuerySuggestions(query, query.length, metadata);
+    expect(suggestions).toEqual({
+      start: 12,
+      end: query.length,
+      items: [{ label: 'Diamond Art Club', replacement: 'company:"Diamond Art Club"' }],
+    });
+  });
+
+  it('returns nothing for plain words and complete values', () => {
+    expect(getSearchQuerySuggestions('sunset', 6, metadata)).toBeNull();
+    expect(getSearchQuerySuggestions('shape:round', 11, metadata)).toBeNull();
+  });
+});
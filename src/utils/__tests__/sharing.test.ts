@@ -0,0 +1,123 @@
+/**
+ * Tests for share field choices, tokens and public project snapshots
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SHARE_FIELDS,
+  SHARE_TOKEN_LENGTH,
+  buildShareSnapshot,
+  generateShareToken,
+  getProfileUrl,
+  normalizeShareFields,
+} from '../sharing';
+import type { ShareSource } from '@/types/sharing';
+
+const image = { id: 'p1', collectionId: 'c1', collectionName: 'projects', filename: 'a.jpg' };
+
+const source: ShareSource = {
+  title: 'Sunset',
+  status: 'completed',
+  image,
+  artist: 'Zoe',
+  company: 'Sparkle Co',
+  width: 40,
+  height: 50,
+  drillShape: 'round',
+  kitCategory: 'full',
+  totalDiamonds: 0,
+  dateStarted: '2025-01-02 00:00:00.000Z',
+  dateCompleted: '2025-03-01 00:00:00.000Z',
+  price: 30,
+  shippingCost: 5,
+  discount: 10,
+  currency: 'eur',
+  generalNotes: '<p>Gift for <b>Mum</b></p>',
+  progressNotes: [
+    { date: '2025-02-10', content: '<p>Sky done</p>', percentComplete: 60 },
+    { date: '2025-01-15', content: '<p>First row</p>', image },
+    { date: '2025-01-20', content: '<p>Nothing to show</p>' },
+  ],
+};
+
+describe('normalizeShareFields', () => {
+  it('keeps known fields in display order', () => {
+    expect(normalizeShareFields(['price', 'bogus', 'artist', 'artist'])).toEqual([
+      'artist',
+      'price',
+    ]);
+  });
+
+  it('drops progress note text without the progress timeline', () => {
+    expect(normalizeShareFields(['progressText', 'dates'])).toEqual(['dates']);
+    expect(normalizeShareFields(null)).toEqual([]);
+  });
+
+  it('leaves private fields out of the defaults', () => {
+    expect(DEFAULT_SHARE_FIELDS).not.toContain('price');
+    expect(DEFAULT_SHARE_FIELDS).not.toContain('notes');
+    expect(DEFAULT_SHARE_FIELDS).not.toContain('progressText');
+  });
+});
+
+describe('buildShareSnapshot', () => {
+  it('shares only the title, status and image when nothing is chosen', () => {
+    expect(buildShareSnapshot(source, [])).toEqual({
+      title: 'Sunset',
+      status: 'completed',
+      image,
+    });
+  });
+
+  it('includes the default fields without prices, notes or note text', () => {
+    const snapshot = buildShareSnapshot(source, DEFAULT_SHARE_FIELDS);
+
+    expect(snapshot).toMatchObject({
+      artist: 'Zoe',
+      company: 'Sparkle Co',
+      width: 40,
+      height: 50,
+      drillShape: 'round',
+      dateStarted: '2025-01-02',
+      dateCompleted: '2025-03-01',
+    });
+    expect(snapshot).not.toHaveProperty('totalDiamonds');
+    expect(snapshot).not.toHaveProperty('price');
+    expect(snapshot).not.toHaveProperty('notes');
+    expect(snapshot.progress).toEqual([
+      { date: '2025-01-15', image },
+      { date: '2025-02-10', percentComplete: 60 },
+    ]);
+  });
+
+  it('adds the total price, plain-text notes and note text when chosen', () => {
+    const snapshot = buildShareSnapshot(source, ['price', 'notes', 'progress', 'progressText']);
+
+    expect(snapshot.price).toBe(25);
+    expect(snapshot.currency).toBe('EUR');
+    expect(snapshot.notes).toBe('Gift for Mum');
+    expect(snapshot.progress?.map(entry => entry.text)).toEqual([
+      'First row',
+      'Nothing to show',
+      'Sky done',
+    ]);
+  });
+});
+
+describe('generateShareToken', () => {
+  it('creates distinct URL-safe tokens', () => {
+    const token = generateShareToken();
+    expect(token).toMatch(new RegExp(`^[A-Za-z0-9]{${SHARE_TOKEN_LENGTH}}$`));
+    expect(generateShareToken()).not.toBe(token);
+  });
+});
+
+describe('getProfileUrl', () => {
+  it('encodes the username', () => {
+    expect(getProfileUrl('https://example.com', 'glitter fan')).toBe(
+      'https://example.com/u/glitter%20fan'
+    );
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for work session time and drill-rate calculations
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatClock,
+  formatDuration,
+  getSessionElapsedSeconds,
+  summarizeWorkSessions,
+  summarizeWorkSessionsByProject,
+  toHours,
+} from '../workSessions';
+import type { WorkSession } from '@/types/workSession';
+
+const createSession = (overrides: Partial<WorkSession>): WorkSession => ({
+  id: overrides.id ?? 's1',
+  userId: 'u1',
+  projectId: 'p1',
+  startedAt: '2025-03-01T10:00:00.000Z',
+  endedAt: '2025-03-01T11:00:00.000Z',
+  durationSeconds: 3600,
+  createdAt: '2025-03-01T10:00:00.000Z',
+  updatedAt: '2025-03-01T11:00:00.000Z',
+  ...overrides,
+});
+
+describe('getSessionElapsedSeconds', () => {
+  it('uses the recorded duration once a session has ended', () => {
+    expect(getSessionElapsedSeconds(createSession({ durationSeconds: 1800 }))).toBe(1800);
+  });
+
+  it('counts from the start time while the session is running', () => {
+    const running = createSession({ endedAt: undefined, durationSeconds: 0 });
+    expect(getSessionElapsedSeconds(running, new Date('2025-03-01T10:05:30.000Z'))).toBe(330);
+  });
+});
+
+describe('summarizeWorkSessions', () => {
+  it('totals time and measures drills per hour over sessions with a drill count', () => {
+    const summary = summarizeWorkSessions([
+      createSession({ durationSeconds: 3600, drillsPlaced: 600 }),
+      createSession({ durationSeconds: 1800, drillsPlaced: 400 }),
+      createSession({ durationSeconds: 7200 }),
+    ]);
+
+    expect(summary).toEqual({
+      sessionCount: 3,
+      totalSeconds: 12600,
+      drillsPlaced: 1000,
+      drillsPerHour: 667,
+    });
+  });
+
+  it('returns a null rate when no session recorded drills', () => {
+    expect(summarizeWorkSessions([createSession({})]).drillsPerHour).toBeNull();
+  });
+});
+
+describe('summarizeWorkSessionsByProject', () => {
+  it('groups finished sessions by project and skips running ones', () => {
+    const summaries = summarizeWorkSessionsByProject([
+      createSession({ id: 's1', projectId: 'p1' }),
+      createSession({ id: 's2', projectId: 'p1', durationSeconds: 600 }),
+      createSession({ id: 's3', projectId: 'p2', endedAt: undefined, durationSeconds: 0 }),
+    ]);
+
+    expect(summaries.get('p1')?.totalSeconds).toBe(4200);
+    expect(summaries.has('p2')).toBe(false);
+  });
+});
+
+describe('formatting', () => {
+  it('formats durations compactly', () => {
+    expect(formatDuration(8100)).toBe('2h 15m');
+    expect(formatDuration(7200)).toBe('2h');
+    expect(formatDuration(2700)).toBe('45m');
+    expect(formatDuration(30)).toBe('30s');
+  });
+
+  it('formats a running clock', () => {
+    expect(formatClock(309)).toBe('05:09');
+    expect(formatClock(3909)).toBe('1:05:09');
+  });
+
+  it('converts seconds to hours with one decimal', () => {
+    expect(toHours(5400)).toBe(1.5);
+  });
+});
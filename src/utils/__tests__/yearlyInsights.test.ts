@@ -0,0 +1,217 @@
+/**
+ * Tests for yearly stats calculations
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeYearlyInsights,
+  computeYearlyStatsEntry,
+  getCumulativeStashGrowth,
+  getPercentChange,
+  getSpendingByCurrency,
+  getYearMonth,
+  type StatsProjectRow,
+} from '../yearlyInsights';
+
+const rows: StatsProjectRow[] = [
+  {
+    id: 'p1',
+    status: 'completed',
+    company: 'c1',
+    companyName: 'Diamond Dotz',
+    artist: 'a1',
+    artistName: 'Aimee Stewart',
+    total_diamonds: 10000,
+    date_purchased: '2024-11-20 00:00:00.000Z',
+    date_started: '2025-01-01 00:00:00.000Z',
+    date_completed: '2025-01-31 00:00:00.000Z',
+  },
+  {
+    id: 'p2',
+    status: 'completed',
+    company: 'c1',
+    companyName: 'Diamond Dotz',
+    total_diamonds: 5000,
+    date_purchased: '2025-02-10 00:00:00.000Z',
+    date_started: '2025-02-15 00:00:00.000Z',
+    date_completed: '2025-03-17 00:00:00.000Z',
+  },
+  {
+    id: 'p3',
+    status: 'completed',
+    company: 'c2',
+    companyName: 'Paint With Diamonds',
+    total_diamonds: 20000,
+    date_received: '2024-05-01 00:00:00.000Z',
+    date_completed: '2024-12-31 23:59:59.000Z',
+  },
+  {
+    id: 'p4',
+    status: 'stash',
+    date_purchased: '2025-12-01 00:00:00.000Z',
+  },
+  {
+    id: 'p5',
+    status: 'wishlist',
+    date_purchased: '2025-06-01 00:00:00.000Z',
+  },
+  {
+    id: 'p6',
+    status: 'progress',
+    date_started: '2025-07-04 00:00:00.000Z',
+  },
+];
+
+describe('getYearMonth', () => {
+  it('reads the calendar month without timezone conversion', () => {
+    expect(getYearMonth('2024-12-31 23:59:59.000Z')).toEqual({ year: 2024, month: 12 });
+  });
+
+  it('returns null for empty or malformed dates', () => {
+    expect(getYearMonth('')).toBeNull();
+    expect(getYearMonth(undefined)).toBeNull();
+    expect(getYearMonth('2025-13-01')).toBeNull();
+  });
+});
+
+describe('computeYearlyInsights', () => {
+  const insights = computeYearlyInsights(rows, 2025);
+
+  it('buckets completions and acquisitions by month', () => {
+    expect(insights.completions_by_month).toEqual([1, 0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+    expect(insights.acquisitions_by_month).toEqual([0, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1]);
+    expect(insights.acquired_count).toBe(2);
+  });
+
+  it('averages days from start to completion', () => {
+    expect(insights.average_days_to_complete).toBe(30);
+  });
+
+  it('ranks companies and artists by completed projects', () => {
+    expect(insights.top_companies).toEqual([{ id: 'c1', name: 'Diamond Dotz', count: 2 }]);
+    expect(insights.top_artists).toEqual([{ id: 'a1', name: 'Aimee Stewart', count: 1 }]);
+  });
+
+  it('totals every active year, newest first', () => {
+    expect(insights.yearly_totals).toEqual([
+      { year: 2025, completed: 2, diamonds: 15000, acquired: 2 },
+      { year: 2024, completed: 1, diamonds: 20000, acquired: 2 },
+    ]);
+    expect(insights.available_years).toEqual([2025, 2024]);
+  });
+
+  it('totals hours and drills per hour from sessions started in the year', () => {
+    const withSessions = computeYearlyInsights(rows, 2025, [
+      { startedAt: '2025-02-01T18:00:00.000Z', durationSeconds: 5400, drillsPlaced: 900 },
+      { startedAt: '2025-02-02T18:00:00.000Z', durationSeconds: 1800 },
+      { startedAt: '2024-12-31T18:00:00.000Z', durationSeconds: 3600, drillsPlaced: 100 },
+    ]);
+
+    expect(withSessions.hours_worked).toBe(2);
+    expect(withSessions.session_count).toBe(2);
+    expect(withSessions.drills_per_hour).toBe(600);
+    expect(insights.hours_worked).toBe(0);
+    expect(insights.drills_per_hour).toBeNull();
+  });
+
+  it('returns null average when no completion has a start date', () => {
+    expect(computeYearlyInsights(rows, 2024).average_days_to_complete).toBeNull();
+  });
+});
+
+describe('computeYearlyStatsEntry', () => {
+  it('counts completions, starts and diamonds for the year', () => {
+    const entry = computeYearlyStatsEntry(rows, 2025);
+
+    expect(entry.completed_count).toBe(2);
+    expect(entry.started_count).toBe(3);
+    expect(entry.total_diamonds).toBe(15000);
+    expect(entry.in_progress_count).toBe(1);
+    expect(entry.status_breakdown.completed).toBe(3);
+  });
+});
+
+describe('comparison helpers', () => {
+  it('calculates percentage change and skips a zero baseline', () => {
+    expect(getPercentChange(15, 10)).toBe(50);
+    expect(getPercentChange(5, 10)).toBe(-50);
+    expect(getPercentChange(5, 0)).toBeNull();
+  });
+
+  it('accumulates stash change month by month', () => {
+    const growth = getCumulativeStashGrowth(computeYearlyInsights(rows, 2025));
+    expect(growth.slice(0, 3)).toEqual([-1, 0, -1]);
+    expect(growth[11]).toBe(0);
+  });
+});
+
+describe('getSpendingByCurrency', () => {
+  const spendingRows: StatsProjectRow[] = [
+    {
+      id: 's1',
+      status: 'stash',
+      company: 'c1',
+      companyName: 'Diamond Art Club',
+      price: 60,
+      shipping_cost: 10,
+      discount: 15,
+      currency: 'usd',
+      date_purchased: '2025-03-02 00:00:00.000Z',
+    },
+    {
+      id: 's2',
+      status: 'completed',
+      company: 'c2',
+      companyName: 'Dreamer Designs',
+      price: 30,
+      currency: 'USD',
+      date_purchased: '2025-03-20 00:00:00.000Z',
+    },
+    {
+      id: 's3',
+      status: 'purchased',
+      price: 25,
+      date_purchased: '2024-08-01 00:00:00.000Z',
+    },
+    {
+      id: 's4',
+      status: 'progress',
+      price: 40,
+      currency: 'EUR',
+      date_received: '2025-05-05 00:00:00.000Z',
+    },
+    { id: 's5', status: 'wishlist', price: 99, date_purchased: '2025-01-01 00:00:00.000Z' },
+    { id: 's6', status: 'stash', price: 0, date_purchased: '2025-01-01 00:00:00.000Z' },
+  ];
+
+  it('totals spending per currency with shipping and discounts', () => {
+    const [usd, eur] = getSpendingByCurrency(spendingRows, 2025);
+
+    expect(usd.currency).toBe('USD');
+    expect(usd.total).toBe(85);
+    expect(usd.kit_count).toBe(2);
+    expect(usd.by_month[2]).toBe(85);
+    expect(eur).toMatchObject({ currency: 'EUR', total: 40, kit_count: 1 });
+    expect(eur.by_month[4]).toBe(40);
+  });
+
+  it('breaks spending down by company and status', () => {
+    const [usd] = getSpendingByCurrency(spendingRows, 2025);
+
+    expect(usd.by_company.map(entry => [entry.name, entry.amount])).toEqual([
+      ['Diamond Art Club', 55],
+      ['Dreamer Designs', 30],
+    ]);
+    expect(usd.by_status.map(entry => entry.key)).toEqual(['stash', 'completed']);
+  });
+
+  it('values the unstarted stash across all years', () => {
+    const [usd, eur] = getSpendingByCurrency(spendingRows, 2025);
+
+    expect(usd.stash_value).toBe(80);
+    expect(usd.stash_count).toBe(2);
+    expect(eur.stash_value).toBe(0);
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * Helpers for the versioned full-account backup format
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { z } from 'zod';
+import type {
+  AccountBackup,
+  AccountBackupData,
+  BackupCounts,
+  BackupCollectionKey,
+} from '@/types/backup';
+
+export const ACCOUNT_BACKUP_FORMAT = 'organized-glitter-backup' as const;
+
+/**
+ * Bump when the backup shape changes in a way older restore code cannot read
+ */
+export const ACCOUNT_BACKUP_VERSION = 1;
+
+export const BACKUP_COLLECTION_KEYS: BackupCollectionKey[] = [
+  'companies',
+  'artists',
+  'tags',
+  'orders',
+  'projects',
+  'projectTags',
+  'progressNotes',
+  'workSessions',
+  'projectDrills',
+  'leftoverDrills',
+  'claims',
+  'randomizerSpins',
+];
+
+/**
+ * Error thrown when a file cannot be read as an account backup
+ */
+export class BackupValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupValidationError';
+  }
+}
+
+const FileRefSchema = z.object({
+  filename: z.string().min(1),
+  dataUrl: z.string().optional(),
+});
+
+const optionalString = z
+  .string()
+  .nullish()
+  .transform(value => value || undefined);
+const optionalNumber = z
+  .number()
+  .nullish()
+  .transform(value => value ?? undefined);
+
+const AccountBackupSchema = z.object({
+  format: z.literal(ACCOUNT_BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  source: z.object({ url: z.string(), username: optionalString }),
+  includesImages: z.boolean(),
+  settings: z.object({ claim_reminder_days: optionalNumber }).optional(),
+  data: z.object({
+    companies: z.array(
+      z.object({
+        id: z.string(),
+        name: z.string().min(1),
+        website_url: optionalString,
+        quality_rating: optionalNumber,
+        quality_notes: optionalString,
+      })
+    ),
+    artists: z.array(
+      z.object({
+        id: z.string(),
+        name: z.string().min(1),
+        website_url: optionalString,
+        social_links: z
+          .array(z.string())
+          .nullish()
+          .transform(value => value ?? undefined),
+      })
+    ),
+    tags: z.array(
+      z.object({ id: z.string(), name: z.string().min(1), slug: z.string(), color: z.string() })
+    ),
+    // Collections added after the first backups default to empty so those files still restore
+    orders: z
+      .array(
+        z.object({
+          id: z.string(),
+          company: optionalString,
+          order_number: optionalString,
+          order_date: optionalString,
+          expected_delivery: optionalString,
+          tracking_note: optionalString,
+          date_received: optionalString,
+        })
+      )
+      .default([]),
+    projects: z.array(
+      z.object({
+        id: z.string(),
+        title: z.string(),
+        status: z.enum([
+          'wishlist',
+          'purchased',
+          'stash',
+          'progress',
+          'onhold',
+          'completed',
+          'archived',
+          'destashed',
+        ]),
+        company: optionalString,
+        artist: optionalString,
+        order: optionalString,
+        kit_category: z
+          .enum(['full', 'mini'])
+          .nullish()
+          .transform(value => value || undefined),
+        drillShape: optionalString,
+        drillType: optionalString,
+        canvasType: optionalString,
+        width: optionalNumber,
+        height: optionalNumber,
+        totalDiamonds: optionalNumber,
+        price: optionalNumber,
+        shippingCost: optionalNumber,
+        discount: optionalNumber,
+        currency: optionalString,
+        orderReference: optionalString,
+        datePurchased: optionalString,
+        dateReceived: optionalString,
+        dateStarted: optionalString,
+        dateCompleted: optionalString,
+        generalNotes: optionalString,
+        sourceUrl: optionalString,
+        image: FileRefSchema.optional(),
+        createdAt: z.string(),
+        updatedAt: z.string(),
+      })
+    ),
+    projectTags: z.array(z.object({ project: z.string(), tag: z.string() })),
+    progressNotes: z.array(
+      z.object({
+        id: z.string(),
+        project: z.string(),
+        content: z.string(),
+        date: z.string(),
+        image: FileRefSchema.optional(),
+        drillsPlaced: z.number().min(0).optional(),
+        percentComplete: z.number().min(0).max(100).optional(),
+        createdAt: z.string(),
+      })
+    ),
+    workSessions: z
+      .array(
+        z.object({
+          project: z.string(),
+          started_at: z.string(),
+          ended_at: z.string(),
+          duration_seconds: optionalNumber,
+          drills_placed: optionalNumber,
+        })
+      )
+      .default([]),
+    projectDrills: z
+      .array(
+        z.object({
+          project: z.string(),
+          dmc_code: z.string().min(1),
+          symbol: optionalString,
+          required_count: optionalNumber,
+          bags_received: optionalNumber,
+          added_to_inventory: z.boolean(),
+        })
+      )
+      .default([]),
+    leftoverDrills: z
+      .array(z.object({ dmc_code: z.string().min(1), bags: z.number().min(0) }))
+      .default([]),
+    claims: z
+      .array(
+        z.object({
+          project: z.string(),
+          issue_type: z.enum([
+            'missing_drills',
+            'wrong_colours',
+            'damaged_canvas',
+            'wrong_size',
+            'other',
+          ]),
+          colours: z.array(z.string()),
+          description: optionalString,
+          date_reported: z.string(),
+          status: z.enum(['open', 'replacement_shipped', 'resolved', 'refused']),
+          date_closed: optionalString,
+        })
+      )
+      .default([]),
+    randomizerSpins: z.array(
+      z.object({
+        project: optionalString,
+        project_title: z.string(),
+        project_company: optionalString,
+        project_artist: optionalString,
+        selected_projects: z.array(z.string()),
+        selected_count: optionalNumber,
+        metadata: z.record(z.unknown()).nullish(),
+        spun_at: z.string(),
+      })
+    ),
+  }),
+});
+
+/**
+ * Parse and validate the text content of a backup file
+ * @throws {BackupValidationError} When the content is not a supported backup
+ */
+export const parseAccountBackup = (text: string): AccountBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupValidationError('The selected file is not valid JSON.');
+  }
+
+  if (
+    !raw ||
+    typeof raw !== 'object' ||
+    (raw as { format?: unknown }).format !== ACCOUNT_BACKUP_FORMAT
+  ) {
+    throw new BackupValidationError('The selected file is not an Organized Glitter backup.');
+  }
+
+  const version = (raw as { version?: unknown }).version;
+  if (typeof version === 'number' && version > ACCOUNT_BACKUP_VERSION) {
+    throw new BackupValidationError(
+      `This backup was created by a newer version of Organized Glitter (format v${version}). Please update the app and try again.`
+    );
+  }
+
+  const result = AccountBackupSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new BackupValidationError(
+      `The backup file is damaged or incomplete (${issue.path.join('.')}: ${issue.message}).`
+    );
+  }
+
+  return result.data as AccountBackup;
+};
+
+/**
+ * Count the records of every collection in a backup
+ */
+export const countBackupRecords = (data: AccountBackupData): BackupCounts => {
+  const counts = createEmptyBackupCounts();
+  BACKUP_COLLECTION_KEYS.forEach(key => {
+    counts[key] = data[key].length;
+  });
+  return counts;
+};
+
+export const createEmptyBackupCounts = (): BackupCounts => ({
+  companies: 0,
+  artists: 0,
+  tags: 0,
+  orders: 0,
+  projects: 0,
+  projectTags: 0,
+  progressNotes: 0,
+  workSessions: 0,
+  projectDrills: 0,
+  leftoverDrills: 0,
+  claims: 0,
+  randomizerSpins: 0,
+});
+
+/**
+ * Map a list of source-account IDs to restored IDs, dropping any that were not restored
+ */
+export const remapIds = (ids: string[], idMap: Map<string, string>): string[] =>
+  ids.map(id => idMap.get(id)).filter((id): id is string => !!id);
+
+/**
+ * Strip thumbnail parameters from a PocketBase file URL so the original file is fetched
+ */
+export const getOriginalFileUrl = (fileUrl: string): string => {
+  try {
+    const url = new URL(fileUrl);
+    url.searchParams.delete('thumb');
+    return url.toString();
+  } catch {
+    return fileUrl;
+  }
+};
+
+/**
+ * Extract the stored filename from a PocketBase file URL
+ */
+export const getFilenameFromUrl = (fileUrl: string): string => {
+  try {
+    const { pathname } = new URL(fileUrl);
+    return decodeURIComponent(pathname.split('/').pop() || '');
+  } catch {
+    return fileUrl.split('?')[0].split('/').pop() || '';
+  }
+};
+
+/**
+ * Read a blob into a base64 data URL for embedding in the backup JSON
+ */
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Convert an embedded data URL back into a File ready for upload
+ */
+export const dataUrlToFile = (dataUrl: string, filename: string): File => {
+  const match = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match) {
+    throw new BackupValidationError(`Embedded image "${filename}" is not a valid data URL.`);
+  }
+
+  const [, mimeType = 'application/octet-stream', isBase64, payload] = match;
+  const binary = isBase64 ? atob(payload) : decodeURIComponent(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return new File([bytes], filename, { type: mimeType });
+};
+
+/**
+ * Filename for a downloaded backup, e.g. organized-glitter-backup-2025-01-31.json
+ */
+export const getBackupFilename = (date: string): string => `${ACCOUNT_BACKUP_FORMAT}-${date}.json`;
+
+/**
+ * Trigger a browser download of a backup document
+ */
+export const downloadAccountBackup = (backup: AccountBackup, filename: string): void => {
+  const blob = new Blob([JSON.stringify(backup)], { type: 'application/json;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,115 @@
+/**
+ * Artist detail helpers: status breakdown of the artist's projects and parsing of the
+ * artist's social links
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { ArtistProject, StatusBreakdownEntry } from '@/types/artist';
+import { getStatusLabel, statusOptions } from '@/utils/projectStatusUtils';
+
+export const SOCIAL_LINKS_MAX = 10;
+
+/** Dashboard URL parameter that opens the dashboard filtered by an artist's name */
+export const ARTIST_URL_PARAM = 'artist';
+
+/**
+ * Dashboard link showing only the projects by an artist
+ */
+export const getArtistDashboardPath = (artistName: string): string =>
+  `/dashboard?${ARTIST_URL_PARAM}=${encodeURIComponent(artistName)}`;
+
+/** Friendly names for the sites artists most often link to, keyed by domain */
+const SOCIAL_SITE_LABELS: Record<string, string> = {
+  'instagram.com': 'Instagram',
+  'facebook.com': 'Facebook',
+  'etsy.com': 'Etsy',
+  'pinterest.com': 'Pinterest',
+  'tiktok.com': 'TikTok',
+  'youtube.com': 'YouTube',
+  'x.com': 'X',
+  'twitter.com': 'X',
+  'deviantart.com': 'DeviantArt',
+  'artstation.com': 'ArtStation',
+  'patreon.com': 'Patreon',
+  'behance.net': 'Behance',
+};
+
+/**
+ * Count the artist's projects per status, in the usual status order, leaving out
+ * statuses with no projects
+ */
+export const getStatusBreakdown = (
+  projects: Pick<ArtistProject, 'status'>[]
+): StatusBreakdownEntry[] => {
+  const counts = new Map<string, number>();
+  for (const project of projects) {
+    counts.set(project.status, (counts.get(project.status) ?? 0) + 1);
+  }
+
+  return statusOptions
+    .filter(status => counts.has(status))
+    .map(status => ({ status, label: getStatusLabel(status), count: counts.get(status)! }));
+};
+
+/**
+ * Normalize a single URL, adding https:// when the scheme is left off.
+ * Returns null for anything that isn't an http(s) URL.
+ */
+export const normalizeUrl = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const withScheme = /^[a-z][a-z\d+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    const url = new URL(withScheme);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    if (!url.hostname.includes('.')) return null;
+    return url.toString();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parse social links typed one per line (or stored as an array) into a clean list.
+ * Invalid entries are returned separately so the form can point them out.
+ */
+export const parseSocialLinks = (
+  input: string | string[]
+): { links: string[]; invalid: string[] } => {
+  const entries = (Array.isArray(input) ? input : input.split('\n'))
+    .map(entry => entry.trim())
+    .filter(Boolean);
+
+  const links: string[] = [];
+  const invalid: string[] = [];
+  for (const entry of entries) {
+    const url = normalizeUrl(entry);
+    if (!url) {
+      invalid.push(entry);
+    } else if (!links.includes(url)) {
+      links.push(url);
+    }
+  }
+
+  return { links: links.slice(0, SOCIAL_LINKS_MAX), invalid };
+};
+
+/**
+ * Label for a social link: the site's name when it's a well-known one, otherwise the domain
+ */
+export const getSocialLinkLabel = (url: string): string => {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return url;
+  }
+
+  const domain = hostname.replace(/^(www|m)\./, '');
+  const known = Object.entries(SOCIAL_SITE_LABELS).find(
+    ([site]) => domain === site || domain.endsWith(`.${site}`)
+  );
+  return known ? known[1] : domain;
+};
@@ -0,0 +1,42 @@
+/**
+ * Helpers for PocketBase batch requests
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+/**
+ * Maximum number of requests PocketBase accepts in a single batch call (server default)
+ */
+export const BATCH_REQUEST_LIMIT = 50;
+
+/**
+ * Split a list into chunks that each fit in a single batch request
+ */
+export const chunkForBatch = <T>(items: T[], size: number = BATCH_REQUEST_LIMIT): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * Pack groups of items into as few batch requests as possible without splitting a group,
+ * so each group succeeds or fails together. A group must fit in a single batch.
+ */
+export const packForBatch = <T>(groups: T[][], size: number = BATCH_REQUEST_LIMIT): T[][] => {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  groups.forEach(group => {
+    if (group.length > size) {
+      throw new Error(`A batch group of ${group.length} exceeds the limit of ${size}`);
+    }
+    if (current.length + group.length > size) {
+      chunks.push(current);
+      current = [];
+    }
+    current.push(...group);
+  });
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+};
@@ -0,0 +1,262 @@
+/**
+ * Calendar helpers: turning project dates and progress notes into dated events, laying
+ * out month and week grids, and exporting the events as an iCalendar (.ics) file
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import type {
+  CalendarEvent,
+  CalendarEventKind,
+  CalendarProgressNote,
+  CalendarProject,
+  CalendarViewMode,
+} from '@/types/calendar';
+import { toDateOnly } from '@/utils/orders';
+import { stripHtml } from '@/utils/projectSearch';
+
+export const CALENDAR_EVENT_LABELS: Record<CalendarEventKind, string> = {
+  purchased: 'Purchased',
+  received: 'Received',
+  started: 'Started',
+  completed: 'Completed',
+  progress: 'Progress note',
+};
+
+/** Tailwind classes for each kind of event, matching the project status colors */
+export const CALENDAR_EVENT_COLORS: Record<CalendarEventKind, string> = {
+  purchased: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300',
+  received: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  started: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  progress: 'bg-sky-100 text-sky-800 dark:bg-sky-900/30 dark:text-sky-300',
+  completed: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300',
+};
+
+const KIND_ORDER: CalendarEventKind[] = [
+  'purchased',
+  'received',
+  'started',
+  'progress',
+  'completed',
+];
+const DETAIL_MAX_LENGTH = 200;
+
+const MILESTONES: Array<[CalendarEventKind, keyof CalendarProject]> = [
+  ['purchased', 'datePurchased'],
+  ['received', 'dateReceived'],
+  ['started', 'dateStarted'],
+  ['completed', 'dateCompleted'],
+];
+
+const getNoteDetail = (note: CalendarProgressNote): string | undefined => {
+  const text = stripHtml(note.content ?? '');
+  const excerpt =
+    text.length > DETAIL_MAX_LENGTH ? `${text.slice(0, DETAIL_MAX_LENGTH).trimEnd()}…` : text;
+  const percent = note.percentComplete ? `${note.percentComplete}% complete` : '';
+  return [percent, excerpt].filter(Boolean).join(' · ') || undefined;
+};
+
+/**
+ * Build calendar events from project milestone dates and progress notes, sorted by date.
+ * Notes for projects that aren't in the list are dropped.
+ */
+export const buildCalendarEvents = (
+  projects: CalendarProject[],
+  notes: CalendarProgressNote[]
+): CalendarEvent[] => {
+  const events: CalendarEvent[] = [];
+  const titles = new Map(projects.map(project => [project.id, project.title]));
+
+  for (const project of projects) {
+    for (const [kind, field] of MILESTONES) {
+      const date = toDateOnly(project[field]);
+      if (date) {
+        events.push({
+          id: `${project.id}-${kind}`,
+          kind,
+          date,
+          projectId: project.id,
+          projectTitle: project.title,
+        });
+      }
+    }
+  }
+
+  for (const note of notes) {
+    const date = toDateOnly(note.date);
+    const projectTitle = titles.get(note.projectId);
+    if (!date || projectTitle === undefined) continue;
+
+    events.push({
+      id: `note-${note.id}`,
+      kind: 'progress',
+      date,
+      projectId: note.projectId,
+      projectTitle,
+      detail: getNoteDetail(note),
+    });
+  }
+
+  return events.sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+      a.projectTitle.localeCompare(b.projectTitle)
+  );
+};
+
+/**
+ * Group events by their YYYY-MM-DD date, keeping their order
+ */
+export const groupEventsByDate = (events: CalendarEvent[]): Map<string, CalendarEvent[]> => {
+  const byDate = new Map<string, CalendarEvent[]>();
+  for (const event of events) {
+    const dayEvents = byDate.get(event.date);
+    if (dayEvents) {
+      dayEvents.push(event);
+    } else {
+      byDate.set(event.date, [event]);
+    }
+  }
+  return byDate;
+};
+
+/**
+ * Dates (YYYY-MM-DD) shown for the view containing the anchor date: whole weeks covering
+ * the month in month view, or the seven days of the week in week view
+ */
+export const getCalendarDays = (anchor: string, mode: CalendarViewMode): string[] => {
+  const anchorDate = parseISO(anchor);
+  const start = startOfWeek(mode === 'month' ? startOfMonth(anchorDate) : anchorDate);
+  const end = endOfWeek(mode === 'month' ? endOfMonth(anchorDate) : anchorDate);
+
+  const days: string[] = [];
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    days.push(format(day, 'yyyy-MM-dd'));
+  }
+  return days;
+};
+
+/**
+ * Move the anchor date one month or week forwards (1) or backwards (-1)
+ */
+export const shiftCalendarAnchor = (
+  anchor: string,
+  mode: CalendarViewMode,
+  direction: 1 | -1
+): string => {
+  const anchorDate = parseISO(anchor);
+  const shifted =
+    mode === 'month' ? addMonths(anchorDate, direction) : addWeeks(anchorDate, direction);
+  return format(shifted, 'yyyy-MM-dd');
+};
+
+/**
+ * Escape text for an iCalendar property value (RFC 5545 §3.3.11)
+ */
+export const escapeIcsText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Fold a content line so no line is longer than 75 octets (RFC 5545 §3.1)
+ */
+export const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const toIcsDate = (date: string): string => date.replace(/-/g, '');
+
+/**
+ * Build an iCalendar document with each event as an all-day entry
+ * @param generatedAt - Timestamp for DTSTAMP
+ * @param appUrl - Origin of the app, used to link each event back to its project
+ */
+export const buildIcsCalendar = (
+  events: CalendarEvent[],
+  generatedAt: Date,
+  appUrl?: string
+): string => {
+  const stamp = generatedAt
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Organized Glitter//Calendar//EN'];
+  lines.push('CALSCALE:GREGORIAN', 'X-WR-CALNAME:Organized Glitter');
+
+  for (const event of events) {
+    const nextDay = format(addDays(parseISO(event.date), 1), 'yyyy-MM-dd');
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.id}@organizedglitter`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(event.date)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(nextDay)}`,
+      `SUMMARY:${escapeIcsText(`${CALENDAR_EVENT_LABELS[event.kind]}: ${event.projectTitle}`)}`
+    );
+    if (event.detail) {
+      lines.push(`DESCRIPTION:${escapeIcsText(event.detail)}`);
+    }
+    if (appUrl) {
+      lines.push(`URL:${appUrl}/projects/${event.projectId}`);
+    }
+    lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Filename for a downloaded calendar, e.g. organized-glitter-calendar-2025-01-31.ics
+ */
+export const getIcsFilename = (date: string): string => `organized-glitter-calendar-${date}.ics`;
+
+/**
+ * Trigger a browser download of an iCalendar document
+ */
+export const downloadIcsCalendar = (content: string, filename: string): void => {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+};
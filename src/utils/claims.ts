@@ -0,0 +1,123 @@
+/**
+ * Claim helpers: labels, reading affected colours, when a claim is due a follow-up and
+ * how a company has handled its claims
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { normalizeDmcCode } from '@/utils/drills';
+import type { Claim, ClaimIssueType, ClaimStatus, CompanyClaimSummary } from '@/types/claim';
+
+export const CLAIM_DESCRIPTION_MAX_LENGTH = 1000;
+
+/** Days a claim can stay unresolved before it's flagged for a follow-up, unless the user picks another */
+export const DEFAULT_CLAIM_REMINDER_DAYS = 14;
+export const CLAIM_REMINDER_DAY_OPTIONS = [7, 14, 30, 60] as const;
+
+/**
+ * The user's follow-up reminder setting, falling back to the default when it isn't set
+ */
+export const getClaimReminderDays = (days: number | undefined): number =>
+  days && days > 0 ? days : DEFAULT_CLAIM_REMINDER_DAYS;
+
+export const CLAIM_ISSUE_TYPE_LABELS: Record<ClaimIssueType, string> = {
+  missing_drills: 'Missing drills',
+  wrong_colours: 'Wrong colours',
+  damaged_canvas: 'Damaged canvas',
+  wrong_size: 'Wrong size',
+  other: 'Other',
+};
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  open: 'Open',
+  replacement_shipped: 'Replacement shipped',
+  resolved: 'Resolved',
+  refused: 'Refused',
+};
+
+/**
+ * Resolved and refused claims are closed; open ones and those with a replacement on the
+ * way still need following up
+ */
+export const isClaimClosed = (status: ClaimStatus): boolean =>
+  status === 'resolved' || status === 'refused';
+
+/**
+ * Read the affected colours from a comma- or space-separated list of DMC codes
+ */
+export const parseClaimColours = (value: string): string[] => [
+  ...new Set(
+    value
+      .split(/[\s,;]+/)
+      .map(normalizeDmcCode)
+      .filter(Boolean)
+  ),
+];
+
+/**
+ * The claim's close date after a status change: set to today when it's closed, kept if
+ * it was already closed, and cleared when it's reopened
+ */
+export const getClaimDateClosed = (
+  status: ClaimStatus,
+  currentDateClosed: string | undefined,
+  today: string
+): string => (isClaimClosed(status) ? currentDateClosed || today : '');
+
+/**
+ * Days since the claim was reported
+ * @param today - Current date as YYYY-MM-DD in the user's timezone
+ */
+export const getClaimAgeDays = (claim: Pick<Claim, 'dateReported'>, today: string): number =>
+  Math.max(0, differenceInCalendarDays(parseISO(today), parseISO(claim.dateReported)));
+
+/**
+ * Unresolved claims reported at least `reminderDays` ago, oldest first
+ */
+export const getClaimsDueForFollowUp = <T extends Pick<Claim, 'status' | 'dateReported'>>(
+  claims: T[],
+  today: string,
+  reminderDays: number
+): T[] =>
+  claims
+    .filter(claim => !isClaimClosed(claim.status) && getClaimAgeDays(claim, today) >= reminderDays)
+    .sort((a, b) => a.dateReported.localeCompare(b.dateReported));
+
+const countBy = <K extends string>(keys: readonly K[], values: K[]): Record<K, number> => {
+  const counts = Object.fromEntries(keys.map(key => [key, 0])) as Record<K, number>;
+  values.forEach(value => counts[value]++);
+  return counts;
+};
+
+/**
+ * Totals for the claims filed with one company
+ */
+export const summarizeCompanyClaims = (
+  claims: Pick<Claim, 'status' | 'issueType' | 'dateReported' | 'dateClosed'>[]
+): CompanyClaimSummary => {
+  const closed = claims.filter(claim => isClaimClosed(claim.status) && claim.dateClosed);
+  const closeDays = closed.map(claim =>
+    Math.max(0, differenceInCalendarDays(parseISO(claim.dateClosed!), parseISO(claim.dateReported)))
+  );
+
+  return {
+    total: claims.length,
+    byStatus: countBy(
+      Object.keys(CLAIM_STATUS_LABELS) as ClaimStatus[],
+      claims.map(claim => claim.status)
+    ),
+    byIssueType: countBy(
+      Object.keys(CLAIM_ISSUE_TYPE_LABELS) as ClaimIssueType[],
+      claims.map(claim => claim.issueType)
+    ),
+    resolvedRate:
+      closed.length > 0
+        ? closed.filter(claim => claim.status === 'resolved').length / closed.length
+        : null,
+    averageDaysToClose:
+      closeDays.length > 0
+        ? Math.round((closeDays.reduce((sum, days) => sum + days, 0) / closeDays.length) * 10) / 10
+        : null,
+  };
+};
@@ -0,0 +1,68 @@
+/**
+ * Company scorecard calculations: delivery time, completion rate, overdue orders and
+ * kit size for one company, worked out from the user's projects and orders
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { CompanyDetail, CompanyScorecard } from '@/types/company';
+import { getOrderState, toDateOnly } from '@/utils/orders';
+
+export const QUALITY_RATING_MAX = 5;
+export const QUALITY_NOTES_MAX_LENGTH = 2000;
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const roundTo = (value: number | null, digits: number): number | null =>
+  value === null ? null : Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Days from purchase to receipt, or null when either date is missing or they're out of order
+ */
+export const getDeliveryDays = (
+  datePurchased: string | undefined,
+  dateReceived: string | undefined
+): number | null => {
+  const purchased = toDateOnly(datePurchased);
+  const received = toDateOnly(dateReceived);
+  if (!purchased || !received) return null;
+
+  const days = differenceInCalendarDays(parseISO(received), parseISO(purchased));
+  return Number.isFinite(days) && days >= 0 ? days : null;
+};
+
+/**
+ * Work out the scorecard for a company
+ * @param today - Current date as YYYY-MM-DD in the user's timezone, for overdue orders
+ */
+export const computeCompanyScorecard = (
+  company: Pick<CompanyDetail, 'projects' | 'orders'>,
+  today: string
+): CompanyScorecard => {
+  const bought = company.projects.filter(project => project.status !== 'wishlist');
+
+  const deliveryDays = bought
+    .map(project => getDeliveryDays(project.datePurchased, project.dateReceived))
+    .filter((days): days is number => days !== null);
+
+  const sized = bought.filter(project => project.width && project.height);
+  const withDiamonds = bought.filter(project => project.totalDiamonds);
+
+  const completedCount = bought.filter(project => project.status === 'completed').length;
+  const openOrders = company.orders.filter(order => getOrderState(order, today) !== 'received');
+
+  return {
+    kitsBought: bought.length,
+    averageDeliveryDays: roundTo(average(deliveryDays), 1),
+    deliverySampleSize: deliveryDays.length,
+    completedCount,
+    completionRate: bought.length > 0 ? completedCount / bought.length : null,
+    openOrderCount: openOrders.length,
+    overdueOrders: openOrders.filter(order => getOrderState(order, today) === 'overdue'),
+    averageWidth: roundTo(average(sized.map(project => project.width!)), 1),
+    averageHeight: roundTo(average(sized.map(project => project.height!)), 1),
+    averageDiamonds: roundTo(average(withDiamonds.map(project => project.totalDiamonds!)), 0),
+  };
+};
@@ -80,13 +80,13 @@ export const EXPECTED_COLUMNS = {
   canvasType: {
     aliases: ['canvas type', 'canvas', 'canvas_type'],
     required: false,
-    description: 'Canvas type',
+    description: 'Canvas type (canvas, linen or mixed)',
   },
 
   drillType: {
     aliases: ['drill type', 'drilltype', 'drill_type'],
     required: false,
-    description: 'Drill type',
+    description: 'Drill type (standard, AB, fairy dust, glow-in-the-dark, special shaped or mixed)',
   },
 
   // Dates
@@ -133,6 +133,44 @@ export const EXPECTED_COLUMNS = {
     description: 'Total number of diamonds',
   },
 
+  // Purchase cost
+  price: {
+    aliases: ['price', 'cost', 'purchase price', 'kit price'],
+    required: false,
+    description: 'Kit price before shipping and discounts',
+  },
+
+  shippingCost: {
+    aliases: ['shipping cost', 'shipping', 'postage', 'shipping_cost'],
+    required: false,
+    description: 'Shipping cost',
+  },
+
+  discount: {
+    aliases: ['discount', 'coupon', 'coupon discount'],
+    required: false,
+    description: 'Discount or coupon amount taken off',
+  },
+
+  currency: {
+    aliases: ['currency'],
+    required: false,
+    description: 'Three-letter currency code (e.g., USD, EUR)',
+  },
+
+  orderReference: {
+    aliases: [
+      'order reference',
+      'order number',
+      'order #',
+      'order id',
+      'invoice',
+      'order_reference',
+    ],
+    required: false,
+    description: 'Order or invoice number from the seller',
+  },
+
   tags: {
     aliases: ['tags', 'tag', 'labels'],
     required: false,
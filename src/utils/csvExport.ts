@@ -1,13 +1,19 @@
 import { format } from 'date-fns';
 import { Project, Tag } from '@/types/shared';
+import type { WorkSessionSummary } from '@/types/workSession';
 import { logger } from '@/utils/logger';
+import { toHours } from '@/utils/workSessions';
 
 /**
  * Converts an array of projects to CSV format
  * @param projects Array of projects to convert
+ * @param sessionSummaries Optional work session totals keyed by project ID
  * @returns CSV string with headers
  */
-export const projectsToCsv = (projects: Project[]): string => {
+export const projectsToCsv = (
+  projects: Project[],
+  sessionSummaries?: Map<string, WorkSessionSummary>
+): string => {
   if (!projects || projects.length === 0) {
     return '';
   }
@@ -21,6 +27,8 @@ export const projectsToCsv = (projects: Project[]): string => {
     'Width',
     'Height',
     'Drill Shape',
+    'Drill Type',
+    'Canvas Type',
     'Total Diamonds',
     'Type of Kit',
     'Project URL',
@@ -28,12 +36,20 @@ export const projectsToCsv = (projects: Project[]): string => {
     'Date Received',
     'Date Started',
     'Date Completed',
+    'Price',
+    'Shipping Cost',
+    'Discount',
+    'Currency',
+    'Order Reference',
     'Notes',
     'Tags',
+    'Hours Worked',
+    'Drills Per Hour',
   ];
 
   // Convert each project to a row in the CSV
   const rows = projects.map(project => {
+    const sessions = sessionSummaries?.get(project.id);
     return [
       escapeField(project.title), // Title
       escapeField(project.status), // Status
@@ -42,6 +58,8 @@ export const projectsToCsv = (projects: Project[]): string => {
       escapeField(project.width), // Width
       escapeField(project.height), // Height
       escapeField(project.drillShape), // Drill Shape
+      escapeField(project.drillType), // Drill Type
+      escapeField(project.canvasType), // Canvas Type
       escapeField(project.totalDiamonds), // Total Diamonds
       escapeField(project.kit_category), // Type of Kit
       escapeField(project.sourceUrl), // Project URL
@@ -49,8 +67,15 @@ export const projectsToCsv = (projects: Project[]): string => {
       formatDate(project.dateReceived), // Date Received
       formatDate(project.dateStarted), // Date Started
       formatDate(project.dateCompleted), // Date Completed
+      escapeField(project.price), // Price
+      escapeField(project.shippingCost), // Shipping Cost
+      escapeField(project.discount), // Discount
+      escapeField(project.currency), // Currency
+      escapeField(project.orderReference), // Order Reference
       escapeField(project.generalNotes), // Notes
       escapeField(formatTags(project.tags)), // Tags
+      escapeField(sessions ? toHours(sessions.totalSeconds) : ''), // Hours Worked
+      escapeField(sessions?.drillsPerHour), // Drills Per Hour
     ];
   });
 
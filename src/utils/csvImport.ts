@@ -2,6 +2,8 @@ import { ProjectType, ProjectStatus } from '@/types/project';
 import Papa from 'papaparse';
 import { logger } from '@/utils/logger';
 import { safeDateString } from '@/utils/dateHelpers';
+import { normalizeCurrency, parseMoney } from '@/utils/purchaseCost';
+import { EXPECTED_COLUMNS } from '@/utils/csvColumnAnalysis';
 
 export interface ParsedCsvData {
   projects: Partial<ProjectType>[];
@@ -142,6 +144,32 @@ const parseProjectFromRow = (row: Record<string, string>): Partial<ProjectType>
     }
   }
 
+  // Purchase cost headers come from the column analysis so the preview and import agree
+  const price = parseMoney(getFieldValue(row, EXPECTED_COLUMNS.price.aliases));
+  if (price !== undefined) {
+    project.price = price;
+  }
+
+  const shippingCost = parseMoney(getFieldValue(row, EXPECTED_COLUMNS.shippingCost.aliases));
+  if (shippingCost !== undefined) {
+    project.shippingCost = shippingCost;
+  }
+
+  const discount = parseMoney(getFieldValue(row, EXPECTED_COLUMNS.discount.aliases));
+  if (discount !== undefined) {
+    project.discount = discount;
+  }
+
+  const currency = getFieldValue(row, EXPECTED_COLUMNS.currency.aliases);
+  if (currency) {
+    project.currency = normalizeCurrency(currency);
+  }
+
+  const orderReference = getFieldValue(row, EXPECTED_COLUMNS.orderReference.aliases);
+  if (orderReference) {
+    project.orderReference = orderReference;
+  }
+
   const dateReceived = getFieldValue(row, ['date received']);
   if (dateReceived) {
     project.dateReceived = validateDate(dateReceived);
@@ -339,7 +367,7 @@ export const parseCSV = (csvContent: string): ParsedCsvData => {
  */
 const getFieldValue = (
   row: Record<string, string>,
-  possibleHeaders: string[]
+  possibleHeaders: readonly string[]
 ): string | undefined => {
   for (const header of possibleHeaders) {
     const value = row[header];
@@ -9,10 +9,13 @@
  */
 
 import {
+  ProjectsCanvasTypeOptions,
   ProjectsDrillShapeOptions,
+  ProjectsDrillTypeOptions,
   ProjectsStatusOptions,
   ProjectsKitCategoryOptions,
 } from '@/types/pocketbase.types';
+import { parseCanvasType, parseDrillType } from '@/utils/kitMaterials';
 import { createLogger } from '@/utils/logger';
 
 const logger = createLogger('CSVValidation');
@@ -23,6 +26,7 @@ export const FIELD_LIMITS = {
   PROJECT_TITLE_MAX_LENGTH: 200,
   GENERAL_NOTES_MAX_LENGTH: 1000,
   SOURCE_URL_MAX_LENGTH: 500,
+  ORDER_REFERENCE_MAX_LENGTH: 100,
 } as const;
 
 // Validation error types
@@ -37,6 +41,8 @@ export interface ValidationIssue {
 interface CorrectedProjectData {
   title: string;
   drillShape: ProjectsDrillShapeOptions | null;
+  drillType: ProjectsDrillTypeOptions | null;
+  canvasType: ProjectsCanvasTypeOptions | null;
   status: ProjectsStatusOptions;
   kit_category: ProjectsKitCategoryOptions;
   datePurchased: string | null;
@@ -45,6 +51,7 @@ interface CorrectedProjectData {
   dateCompleted: string | null;
   generalNotes: string | null;
   sourceUrl: string | null;
+  orderReference: string | null;
   [key: string]: unknown; // For other fields that pass through unchanged
 }
 
@@ -176,6 +183,82 @@ export function normalizeDrillShape(value: string | null | undefined): {
   };
 }
 
+/**
+ * Normalize a drill type such as "AB" or "Fairy dust"; unknown types are left empty
+ */
+export function normalizeDrillType(value: string | null | undefined): {
+  normalized: ProjectsDrillTypeOptions | null;
+  issue?: ValidationIssue;
+} {
+  if (!value || typeof value !== 'string' || !value.trim()) {
+    return { normalized: null };
+  }
+
+  const normalized = parseDrillType(value);
+  if (normalized) {
+    const issue =
+      value.trim() !== normalized
+        ? {
+            field: 'drill_type',
+            originalValue: value,
+            correctedValue: normalized,
+            severity: 'info' as const,
+            message: `Normalized "${value}" to "${normalized}"`,
+          }
+        : undefined;
+
+    return { normalized, issue };
+  }
+
+  return {
+    normalized: null,
+    issue: {
+      field: 'drill_type',
+      originalValue: value,
+      severity: 'warning' as const,
+      message: `Invalid drill type "${value}". Valid options: ${Object.values(ProjectsDrillTypeOptions).join(', ')}. Leaving empty.`,
+    },
+  };
+}
+
+/**
+ * Normalize a canvas type such as "Linen"; unknown types are left empty
+ */
+export function normalizeCanvasType(value: string | null | undefined): {
+  normalized: ProjectsCanvasTypeOptions | null;
+  issue?: ValidationIssue;
+} {
+  if (!value || typeof value !== 'string' || !value.trim()) {
+    return { normalized: null };
+  }
+
+  const normalized = parseCanvasType(value);
+  if (normalized) {
+    const issue =
+      value.trim() !== normalized
+        ? {
+            field: 'canvas_type',
+            originalValue: value,
+            correctedValue: normalized,
+            severity: 'info' as const,
+            message: `Normalized "${value}" to "${normalized}"`,
+          }
+        : undefined;
+
+    return { normalized, issue };
+  }
+
+  return {
+    normalized: null,
+    issue: {
+      field: 'canvas_type',
+      originalValue: value,
+      severity: 'warning' as const,
+      message: `Invalid canvas type "${value}". Valid options: ${Object.values(ProjectsCanvasTypeOptions).join(', ')}. Leaving empty.`,
+    },
+  };
+}
+
 /**
  * Normalize project status value with case-insensitive matching
  */
@@ -518,6 +601,15 @@ export function validateProjectData(data: Record<string, unknown>): ValidationRe
   correctedData.drillShape = drillShapeResult.normalized;
   if (drillShapeResult.issue) issues.push(drillShapeResult.issue);
 
+  // Validate drill and canvas types
+  const drillTypeResult = normalizeDrillType((data.drillType || data.drill_type) as string);
+  correctedData.drillType = drillTypeResult.normalized;
+  if (drillTypeResult.issue) issues.push(drillTypeResult.issue);
+
+  const canvasTypeResult = normalizeCanvasType((data.canvasType || data.canvas_type) as string);
+  correctedData.canvasType = canvasTypeResult.normalized;
+  if (canvasTypeResult.issue) issues.push(canvasTypeResult.issue);
+
   // Validate status
   const statusResult = normalizeStatus(data.status as string);
   correctedData.status = statusResult.normalized;
@@ -576,6 +668,26 @@ export function validateProjectData(data: Record<string, unknown>): ValidationRe
     correctedData.sourceUrl = null;
   }
 
+  // Validate order reference length
+  const orderReference = data.orderReference as string;
+  if (orderReference && typeof orderReference === 'string') {
+    if (orderReference.length > FIELD_LIMITS.ORDER_REFERENCE_MAX_LENGTH) {
+      const truncated = orderReference.substring(0, FIELD_LIMITS.ORDER_REFERENCE_MAX_LENGTH);
+      correctedData.orderReference = truncated;
+      issues.push({
+        field: 'orderReference',
+        originalValue: orderReference,
+        correctedValue: truncated,
+        severity: 'warning',
+        message: `Order reference too long. Truncated to ${FIELD_LIMITS.ORDER_REFERENCE_MAX_LENGTH} characters.`,
+      });
+    } else {
+      correctedData.orderReference = orderReference;
+    }
+  } else {
+    correctedData.orderReference = null;
+  }
+
   const hasErrors = issues.some(issue => issue.severity === 'error');
 
   logger.debug('Project validation completed', {
@@ -12,6 +12,7 @@ import { DbProject } from '@/types/db-project';
 import { Project, ProjectStatus, ProgressNote, ProjectFormValues } from '@/types/shared';
 import { Tag } from '@/types/tag';
 import { logger } from '@/utils/logger';
+import { parseMoney } from '@/utils/purchaseCost';
 import { getCurrentDateInUserTimezone } from '@/utils/timezoneUtils';
 
 /**
@@ -124,6 +125,8 @@ export function toDbProject(project: ProjectFormValues): Partial<DbProject> {
     company: projectData.company || null,
     artist: projectData.artist || null,
     drill_shape: projectData.drillShape || null,
+    drill_type: projectData.drillType || null,
+    canvas_type: projectData.canvasType || null,
     width: width,
     height: height,
     status: standardizedStatus,
@@ -135,6 +138,11 @@ export function toDbProject(project: ProjectFormValues): Partial<DbProject> {
     image_url: imageUrl,
     source_url: projectData.sourceUrl || null,
     total_diamonds: totalDiamonds,
+    price: parseMoney(projectData.price) ?? null,
+    shipping_cost: parseMoney(projectData.shippingCost) ?? null,
+    discount: parseMoney(projectData.discount) ?? null,
+    currency: projectData.currency || null,
+    order_reference: projectData.orderReference || null,
     kit_category: projectData.kit_category || 'full', // Added kit_category mapping with proper default
     // Removing imageFile and notes fields as they don't exist in DbProject type
   };
@@ -322,6 +330,8 @@ export function fromDbProject(
     company: projectData.company || undefined,
     artist: projectData.artist || undefined,
     drillShape: projectData.drill_shape || undefined,
+    drillType: projectData.drill_type || undefined,
+    canvasType: projectData.canvas_type || undefined,
     width: projectData.width || undefined,
     height: projectData.height || undefined,
     status,
@@ -333,6 +343,11 @@ export function fromDbProject(
     imageUrl: projectData.image_url || undefined,
     sourceUrl: projectData.source_url || undefined,
     totalDiamonds: projectData.total_diamonds || undefined,
+    price: projectData.price ?? undefined,
+    shippingCost: projectData.shipping_cost ?? undefined,
+    discount: projectData.discount ?? undefined,
+    currency: projectData.currency || undefined,
+    orderReference: projectData.order_reference || undefined,
     kit_category: projectData.kit_category || undefined, // Added kit_category mapping
     progressNotes,
     tags, // Add the transformed tags array
@@ -0,0 +1,128 @@
+/**
+ * Drill-placement progress derived from progress notes
+ *
+ * A note can record drills placed or a percent complete. Drills are converted to a
+ * percentage using the project's total diamond count at read time, so editing the
+ * total later keeps every note consistent.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { ProgressNote } from '@/types/project';
+
+export interface ProgressPoint {
+  /** Calendar date of the note (YYYY-MM-DD) */
+  date: string;
+  percent: number;
+  drillsPlaced?: number;
+}
+
+export interface CompletionEstimate {
+  /** Estimated calendar date of completion (YYYY-MM-DD) */
+  date: string;
+  percentPerDay: number;
+  daysRemaining: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const toDay = (value: string): string => value.slice(0, 10);
+
+const dayNumber = (day: string): number => Math.floor(Date.parse(`${day}T00:00:00Z`) / MS_PER_DAY);
+
+const clampPercent = (value: number): number => Math.min(100, Math.max(0, value));
+
+/**
+ * Percent complete recorded by a note, or null when the note has no progress data
+ */
+export const getNotePercent = (
+  note: Pick<ProgressNote, 'drillsPlaced' | 'percentComplete'>,
+  totalDiamonds?: number
+): number | null => {
+  if (note.drillsPlaced != null && totalDiamonds && totalDiamonds > 0) {
+    return clampPercent((note.drillsPlaced / totalDiamonds) * 100);
+  }
+  if (note.percentComplete != null) {
+    return clampPercent(note.percentComplete);
+  }
+  return null;
+};
+
+/**
+ * Progress over time, oldest first, keeping the last note recorded on each day
+ */
+export const getProgressPoints = (
+  notes: ProgressNote[],
+  totalDiamonds?: number
+): ProgressPoint[] => {
+  const byDay = new Map<string, ProgressNote>();
+
+  [...notes]
+    .filter(note => note.date && !isNaN(Date.parse(toDay(note.date))))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt))
+    .forEach(note => {
+      if (getNotePercent(note, totalDiamonds) !== null) {
+        byDay.set(toDay(note.date), note);
+      }
+    });
+
+  return [...byDay.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, note]) => ({
+      date,
+      percent: getNotePercent(note, totalDiamonds)!,
+      ...(note.drillsPlaced != null && { drillsPlaced: note.drillsPlaced }),
+    }));
+};
+
+/**
+ * Most recent recorded progress, or null when no note has progress data
+ */
+export const getLatestProgress = (
+  notes: ProgressNote[],
+  totalDiamonds?: number
+): ProgressPoint | null => {
+  const points = getProgressPoints(notes, totalDiamonds);
+  return points.length > 0 ? points[points.length - 1] : null;
+};
+
+/**
+ * Project the completion date from the pace observed so far
+ *
+ * Pace is measured from the start date (at 0%) when it comes before the first note,
+ * otherwise from the first note, up to the latest note. Returns null when the project
+ * is already complete or there is not enough forward progress to measure a pace.
+ */
+export const estimateCompletionDate = (
+  points: ProgressPoint[],
+  dateStarted?: string
+): CompletionEstimate | null => {
+  if (points.length === 0) return null;
+
+  const latest = points[points.length - 1];
+  if (latest.percent >= 100) return null;
+
+  const startDay = dateStarted ? toDay(dateStarted) : undefined;
+  const baseline =
+    startDay && !isNaN(dayNumber(startDay)) && startDay < points[0].date
+      ? { date: startDay, percent: 0 }
+      : points[0];
+
+  const elapsedDays = dayNumber(latest.date) - dayNumber(baseline.date);
+  const gained = latest.percent - baseline.percent;
+  if (elapsedDays <= 0 || gained <= 0) return null;
+
+  const percentPerDay = gained / elapsedDays;
+  const daysRemaining = Math.ceil((100 - latest.percent) / percentPerDay);
+  const date = new Date((dayNumber(latest.date) + daysRemaining) * MS_PER_DAY)
+    .toISOString()
+    .slice(0, 10);
+
+  return { date, percentPerDay: Math.round(percentPerDay * 100) / 100, daysRemaining };
+};
+
+/**
+ * Round a percentage for display, e.g. 42.345 -> 42.3
+ */
+export const formatPercent = (percent: number): string => `${Math.round(percent * 10) / 10}%`;
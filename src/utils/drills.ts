@@ -0,0 +1,175 @@
+/**
+ * Drill helpers: DMC code normalization and ordering, reading legend CSVs, and which
+ * records change when a legend is imported or leftovers are collected
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import Papa from 'papaparse';
+import type {
+  DrillLegendImport,
+  LeftoverDrill,
+  ProjectDrill,
+  ProjectDrillFormData,
+} from '@/types/drill';
+
+export const DMC_CODE_MAX_LENGTH = 20;
+export const DRILL_SYMBOL_MAX_LENGTH = 5;
+
+/**
+ * Normalize a DMC code as typed or printed on a legend: "dmc 310" → "310",
+ * "b5200" → "B5200", "Ecru" → "ECRU"
+ * @returns The code, or an empty string if nothing usable is left
+ */
+export const normalizeDmcCode = (value: string): string =>
+  value
+    .trim()
+    .toUpperCase()
+    .replace(/^DMC[\s#:-]*/, '')
+    .replace(/\s+/g, '')
+    .slice(0, DMC_CODE_MAX_LENGTH);
+
+/**
+ * Order DMC codes the way legends list them: numbered colours first, by number, then
+ * named colours such as BLANC, ECRU and B5200 alphabetically
+ */
+export const compareDmcCodes = (a: string, b: string): number => {
+  const aIsNumber = /^\d+$/.test(a);
+  const bIsNumber = /^\d+$/.test(b);
+  if (aIsNumber && bIsNumber) return Number(a) - Number(b);
+  if (aIsNumber !== bIsNumber) return aIsNumber ? -1 : 1;
+  return a.localeCompare(b);
+};
+
+const parseCount = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  const count = Number.parseInt(value.replace(/[,\s]/g, ''), 10);
+  return Number.isNaN(count) || count < 0 ? undefined : count;
+};
+
+const getFieldValue = (row: Record<string, string>, headers: string[]): string | undefined => {
+  for (const header of headers) {
+    const value = row[header]?.trim();
+    if (value) return value;
+  }
+  return undefined;
+};
+
+/**
+ * Read a legend CSV with a header row. Recognizes common header names for the DMC code,
+ * symbol, required drill count and bags received. A colour listed twice is merged.
+ */
+export const parseDrillLegendCsv = (content: string): DrillLegendImport => {
+  const { data } = Papa.parse<Record<string, string>>(content.trim(), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: header => header.toLowerCase().trim(),
+  });
+
+  const rows = new Map<string, ProjectDrillFormData>();
+  let skipped = 0;
+
+  data.forEach(row => {
+    const dmcCode = normalizeDmcCode(
+      getFieldValue(row, ['dmc', 'dmc code', 'dmc #', 'code', 'colour', 'color']) ?? ''
+    );
+    if (!dmcCode) {
+      skipped++;
+      return;
+    }
+
+    const requiredCount =
+      parseCount(getFieldValue(row, ['count', 'required', 'drills', 'quantity', 'qty'])) ?? 0;
+    const bagsReceived = parseCount(getFieldValue(row, ['bags', 'bags received']));
+    const existing = rows.get(dmcCode);
+
+    rows.set(dmcCode, {
+      dmcCode,
+      symbol:
+        existing?.symbol ||
+        (getFieldValue(row, ['symbol', 'sym']) ?? '').slice(0, DRILL_SYMBOL_MAX_LENGTH),
+      requiredCount: (existing?.requiredCount ?? 0) + requiredCount,
+      bagsReceived:
+        existing?.bagsReceived !== undefined || bagsReceived !== undefined
+          ? (existing?.bagsReceived ?? 0) + (bagsReceived ?? 0)
+          : undefined,
+    });
+  });
+
+  return {
+    rows: [...rows.values()].sort((a, b) => compareDmcCodes(a.dmcCode, b.dmcCode)),
+    skipped,
+  };
+};
+
+/**
+ * Split imported legend rows into colours that are new to the project and colours it
+ * already has, which are overwritten
+ */
+export const getLegendImportChanges = (
+  existing: Pick<ProjectDrill, 'id' | 'dmcCode'>[],
+  rows: ProjectDrillFormData[]
+): {
+  create: ProjectDrillFormData[];
+  update: { id: string; data: ProjectDrillFormData }[];
+} => {
+  const existingByCode = new Map(existing.map(drill => [drill.dmcCode, drill.id]));
+  const create: ProjectDrillFormData[] = [];
+  const update: { id: string; data: ProjectDrillFormData }[] = [];
+
+  rows.forEach(row => {
+    const id = existingByCode.get(row.dmcCode);
+    if (id) {
+      update.push({ id, data: row });
+    } else {
+      create.push(row);
+    }
+  });
+
+  return { create, update };
+};
+
+/**
+ * Add the bags received for a completed project's colours to the leftover drills,
+ * topping up colours already in the inventory and adding new ones
+ */
+export const getLeftoverChanges = (
+  inventory: Pick<LeftoverDrill, 'id' | 'dmcCode' | 'bags'>[],
+  drills: Pick<ProjectDrill, 'dmcCode' | 'bagsReceived'>[]
+): {
+  create: { dmcCode: string; bags: number }[];
+  update: { id: string; bags: number }[];
+} => {
+  const addedBags = new Map<string, number>();
+  drills.forEach(drill => {
+    if (drill.bagsReceived > 0) {
+      addedBags.set(drill.dmcCode, (addedBags.get(drill.dmcCode) ?? 0) + drill.bagsReceived);
+    }
+  });
+
+  const inventoryByCode = new Map(inventory.map(entry => [entry.dmcCode, entry]));
+  const create: { dmcCode: string; bags: number }[] = [];
+  const update: { id: string; bags: number }[] = [];
+
+  addedBags.forEach((bags, dmcCode) => {
+    const entry = inventoryByCode.get(dmcCode);
+    if (entry) {
+      update.push({ id: entry.id, bags: entry.bags + bags });
+    } else {
+      create.push({ dmcCode, bags });
+    }
+  });
+
+  return { create, update };
+};
+
+/**
+ * Totals shown above a project's legend
+ */
+export const summarizeDrillLegend = (
+  drills: Pick<ProjectDrill, 'requiredCount' | 'bagsReceived'>[]
+): { colourCount: number; requiredCount: number; bagsReceived: number } => ({
+  colourCount: drills.length,
+  requiredCount: drills.reduce((total, drill) => total + drill.requiredCount, 0),
+  bagsReceived: drills.reduce((total, drill) => total + drill.bagsReceived, 0),
+});
@@ -75,6 +75,14 @@ export function mapFormDataToPocketBase(
     width: safeParseNumber(formData.width),
     height: safeParseNumber(formData.height),
     total_diamonds: totalDiamondsResult,
+    price: safeParseNumber(formData.price),
+    shipping_cost: safeParseNumber(formData.shippingCost),
+    discount: safeParseNumber(formData.discount),
+    // Sent even when empty so a cleared value is saved
+    drill_type: formData.drillType ?? undefined,
+    canvas_type: formData.canvasType ?? undefined,
+    currency: formData.currency ?? undefined,
+    order_reference: formData.orderReference ?? undefined,
     general_notes: safeString(formData.generalNotes),
     source_url: safeString(formData.sourceUrl),
   };
@@ -118,9 +126,13 @@ export const FIELD_MAPPING = {
   dateStarted: 'date_started',
   dateCompleted: 'date_completed',
   drillShape: 'drill_shape',
+  drillType: 'drill_type',
+  canvasType: 'canvas_type',
   generalNotes: 'general_notes',
   sourceUrl: 'source_url',
   totalDiamonds: 'total_diamonds',
+  shippingCost: 'shipping_cost',
+  orderReference: 'order_reference',
   kitCategory: 'kit_category',
 } as const;
 
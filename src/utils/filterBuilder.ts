@@ -35,6 +35,14 @@
 
 import { pb } from '@/lib/pocketbase';
 import { createLogger } from '@/utils/logger';
+import type {
+  DateRange,
+  DateRangeField,
+  NumberRange,
+  NumberRangeField,
+  ProjectRangeFilters,
+  TagMatchMode,
+} from '@/types/projectFilters';
 
 const logger = createLogger('FilterBuilder');
 
@@ -69,6 +77,8 @@ const COLLECTION_FIELDS = {
     'status',
     'kit_category',
     'drill_shape',
+    'drill_type',
+    'canvas_type',
     'artist',
     'company',
     'date_purchased',
@@ -78,6 +88,11 @@ const COLLECTION_FIELDS = {
     'width',
     'height',
     'total_diamonds',
+    'price',
+    'shipping_cost',
+    'discount',
+    'currency',
+    'order_reference',
     'source_url',
     'general_notes',
     'image',
@@ -263,6 +278,22 @@ function validateFieldName(field: string, context?: string): boolean {
   return true;
 }
 
+/**
+ * Database columns for the project range filters
+ */
+const PROJECT_NUMBER_RANGE_COLUMNS: Record<NumberRangeField, string> = {
+  width: 'width',
+  height: 'height',
+  totalDiamonds: 'total_diamonds',
+};
+
+const PROJECT_DATE_RANGE_COLUMNS: Record<DateRangeField, string> = {
+  datePurchased: 'date_purchased',
+  dateReceived: 'date_received',
+  dateStarted: 'date_started',
+  dateCompleted: 'date_completed',
+};
+
 /**
  * Common filter parameters interface for type safety
  */
@@ -404,6 +435,26 @@ export class FilterBuilder {
     return this;
   }
 
+  /**
+   * Add drill type filter
+   */
+  drillType(type: string | undefined): FilterBuilder {
+    if (type && type !== 'all') {
+      this.filters.push(pb.filter('drill_type = {:drillType}', { drillType: type }));
+    }
+    return this;
+  }
+
+  /**
+   * Add canvas type filter
+   */
+  canvasType(type: string | undefined): FilterBuilder {
+    if (type && type !== 'all') {
+      this.filters.push(pb.filter('canvas_type = {:canvasType}', { canvasType: type }));
+    }
+    return this;
+  }
+
   /**
    * Add date range filter with flexible options and field validation
    *
@@ -439,6 +490,69 @@ export class FilterBuilder {
     return this;
   }
 
+  /**
+   * Add inclusive min/max filter for a numeric field with field validation
+   *
+   * Unset numbers are stored as 0, so a range with only a maximum also requires a value.
+   *
+   * SECURITY: Field name is validated against whitelist to prevent SQL injection
+   */
+  numberRange(field: string, range: NumberRange | undefined): FilterBuilder {
+    if (!range || (range.min === undefined && range.max === undefined)) {
+      return this;
+    }
+    if (!validateFieldName(field, 'numberRange')) {
+      logger.error('Rejected numberRange operation with invalid field name', { field, range });
+      return this; // Skip invalid field operations
+    }
+
+    if (range.min !== undefined && range.min > 0) {
+      this.filters.push(pb.filter(`${field} >= {:min}`, { min: range.min }));
+    } else {
+      this.filters.push(`${field} > 0`);
+    }
+    if (range.max !== undefined) {
+      this.filters.push(pb.filter(`${field} <= {:max}`, { max: range.max }));
+    }
+    return this;
+  }
+
+  /**
+   * Add inclusive from/to filter for a date field, excluding records without a date
+   *
+   * SECURITY: Field name is validated against whitelist to prevent SQL injection
+   */
+  dateWindow(field: string, range: DateRange | undefined): FilterBuilder {
+    if (!range || (!range.from && !range.to)) {
+      return this;
+    }
+    if (!validateFieldName(field, 'dateWindow')) {
+      logger.error('Rejected dateWindow operation with invalid field name', { field, range });
+      return this; // Skip invalid field operations
+    }
+
+    this.filters.push(`${field} != ''`);
+    return this.dateRange(field, {
+      startDate: range.from ? `${range.from} 00:00:00` : undefined,
+      endDate: range.to ? `${range.to} 23:59:59` : undefined,
+    });
+  }
+
+  /**
+   * Add every configured project range filter (size, diamond count and dates)
+   */
+  projectRanges(ranges: ProjectRangeFilters | undefined): FilterBuilder {
+    if (!ranges) return this;
+
+    (Object.keys(PROJECT_NUMBER_RANGE_COLUMNS) as NumberRangeField[]).forEach(key => {
+      this.numberRange(PROJECT_NUMBER_RANGE_COLUMNS[key], ranges[key]);
+    });
+    (Object.keys(PROJECT_DATE_RANGE_COLUMNS) as DateRangeField[]).forEach(key => {
+      this.dateWindow(PROJECT_DATE_RANGE_COLUMNS[key], ranges[key]);
+    });
+    return this;
+  }
+
   /**
    * Add search filter across multiple fields with field validation
    *
@@ -485,13 +599,45 @@ export class FilterBuilder {
 
   /**
    * Add tag filtering for projects with tags
+   *
+   * In 'any' mode a project needs at least one of the tags, in 'all' mode every tag.
+   * PocketBase shares one join between "?=" clauses on the same back-relation, so 'all'
+   * mode gives each tag its own aliased project_tags join; otherwise a single tag row
+   * would have to equal every tag at once.
    */
-  tags(tagIds: string[]): FilterBuilder {
+  tags(tagIds: string[], mode: TagMatchMode = 'any'): FilterBuilder {
+    if (tagIds && tagIds.length > 0) {
+      const tagFilters =
+        mode === 'all'
+          ? tagIds.map((tagId, index) =>
+              pb.filter(
+                `(@collection.project_tags:t${index}.project ?= id && @collection.project_tags:t${index}.tag ?= {:tagId${index}})`,
+                { [`tagId${index}`]: tagId }
+              )
+            )
+          : tagIds.map((tagId, index) =>
+              pb.filter(`project_tags_via_project.tag ?= {:tagId${index}}`, {
+                [`tagId${index}`]: tagId,
+              })
+            );
+      this.filters.push(`(${tagFilters.join(mode === 'all' ? ' && ' : ' || ')})`);
+    }
+    return this;
+  }
+
+  /**
+   * Exclude projects that have any of the given tags
+   *
+   * Uses the non-"?" operator so every linked tag must differ; untagged projects still match.
+   */
+  excludeTags(tagIds: string[]): FilterBuilder {
     if (tagIds && tagIds.length > 0) {
       const tagFilters = tagIds.map((tagId, index) =>
-        pb.filter(`project_tags_via_project.tag ?= {:tagId${index}}`, { [`tagId${index}`]: tagId })
+        pb.filter(`project_tags_via_project.tag != {:excludedTagId${index}}`, {
+          [`excludedTagId${index}`]: tagId,
+        })
       );
-      this.filters.push(`(${tagFilters.join(' || ')})`);
+      this.filters.push(`(${tagFilters.join(' && ')})`);
     }
     return this;
   }
@@ -714,10 +860,15 @@ export function createFilter(): FilterBuilder {
  * @param {string} [options.company] - Company ID filter
  * @param {string} [options.artist] - Artist ID filter
  * @param {string} [options.drillShape] - Drill shape filter ('round', 'square')
+ * @param {string} [options.drillType] - Drill type filter ('ab', 'fairy_dust', etc.)
+ * @param {string} [options.canvasType] - Canvas type filter ('canvas', 'linen', 'mixed')
  * @param {string} [options.yearFinished] - Year completed filter (YYYY format)
  * @param {boolean} [options.includeMiniKits] - Whether to include mini kit projects
  * @param {string} [options.searchTerm] - Text search across title and notes
  * @param {string[]} [options.selectedTags] - Array of tag IDs to filter by
+ * @param {TagMatchMode} [options.tagMatchMode='any'] - Whether projects need any or all selected tags
+ * @param {string[]} [options.excludedTags] - Array of tag IDs projects must not have
+ * @param {ProjectRangeFilters} [options.ranges] - Min/max size, diamond count and date ranges
  * @returns {string} Complete filter expression for PocketBase queries
  *
  * @example
@@ -748,10 +899,15 @@ export function buildUserProjectFilter(
     company?: string;
     artist?: string;
     drillShape?: string;
+    drillType?: string;
+    canvasType?: string;
     yearFinished?: string;
     includeMiniKits?: boolean;
     searchTerm?: string;
     selectedTags?: string[];
+    tagMatchMode?: TagMatchMode;
+    excludedTags?: string[];
+    ranges?: ProjectRangeFilters;
   } = {}
 ): string {
   const builder = createFilter().userScope(userId);
@@ -772,6 +928,14 @@ export function buildUserProjectFilter(
     builder.drillShape(options.drillShape);
   }
 
+  if (options.drillType) {
+    builder.drillType(options.drillType);
+  }
+
+  if (options.canvasType) {
+    builder.canvasType(options.canvasType);
+  }
+
   if (options.yearFinished) {
     const year = parseInt(options.yearFinished, 10);
     if (!isNaN(year)) {
@@ -791,9 +955,15 @@ export function buildUserProjectFilter(
   }
 
   if (options.selectedTags && options.selectedTags.length > 0) {
-    builder.tags(options.selectedTags);
+    builder.tags(options.selectedTags, options.tagMatchMode);
+  }
+
+  if (options.excludedTags && options.excludedTags.length > 0) {
+    builder.excludeTags(options.excludedTags);
   }
 
+  builder.projectRanges(options.ranges);
+
   return builder.build();
 }
 
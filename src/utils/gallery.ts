@@ -0,0 +1,100 @@
+/**
+ * Completed-projects gallery helpers: filter options, filtering, thumbnail sizing and
+ * lightbox navigation
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { IMAGE_SIZES, type ImageSizeKey } from '@/services/ImageService';
+import type {
+  GalleryFilterOptions,
+  GalleryFilters,
+  GalleryImage,
+  GalleryProject,
+} from '@/types/gallery';
+
+/** Year filter value for projects without a completion date */
+export const GALLERY_UNDATED = 'undated';
+
+export const EMPTY_GALLERY_FILTERS: GalleryFilters = { year: '', tagId: '', artistId: '' };
+
+// Only the sizes that keep the aspect ratio ("f" suffix) suit a masonry layout
+const THUMBNAIL_SIZES = (Object.keys(IMAGE_SIZES) as ImageSizeKey[])
+  .filter(size => IMAGE_SIZES[size].endsWith('f'))
+  .map(size => ({ size, width: parseInt(IMAGE_SIZES[size], 10) }))
+  .sort((a, b) => a.width - b.width);
+
+/**
+ * Years, tags and artists present in the gallery, for the filter dropdowns
+ */
+export const getGalleryFilterOptions = (projects: GalleryProject[]): GalleryFilterOptions => {
+  const years = new Set<string>();
+  const tags = new Map<string, string>();
+  const artists = new Map<string, string>();
+  let hasUndated = false;
+
+  for (const project of projects) {
+    if (project.dateCompleted) {
+      years.add(project.dateCompleted.slice(0, 4));
+    } else {
+      hasUndated = true;
+    }
+    for (const tag of project.tags) {
+      tags.set(tag.id, tag.name);
+    }
+    if (project.artistId && project.artistName) {
+      artists.set(project.artistId, project.artistName);
+    }
+  }
+
+  const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+  return {
+    years: [...years].sort((a, b) => b.localeCompare(a)),
+    tags: [...tags].map(([id, name]) => ({ id, name })).sort(byName),
+    artists: [...artists].map(([id, name]) => ({ id, name })).sort(byName),
+    hasUndated,
+  };
+};
+
+/**
+ * Projects matching every set filter
+ */
+export const filterGalleryProjects = (
+  projects: GalleryProject[],
+  filters: GalleryFilters
+): GalleryProject[] =>
+  projects.filter(project => {
+    if (filters.year) {
+      const year = project.dateCompleted?.slice(0, 4) ?? GALLERY_UNDATED;
+      if (year !== filters.year) return false;
+    }
+    if (filters.tagId && !project.tags.some(tag => tag.id === filters.tagId)) return false;
+    if (filters.artistId && project.artistId !== filters.artistId) return false;
+    return true;
+  });
+
+/**
+ * Flatten projects into the ordered list of images shown in the gallery and lightbox
+ */
+export const getGalleryImages = (projects: GalleryProject[]): GalleryImage[] =>
+  projects.flatMap(project => project.images);
+
+/**
+ * Smallest aspect-preserving thumbnail size at least as wide as the displayed column,
+ * in device pixels, falling back to the largest one
+ */
+export const getGalleryThumbnailSize = (
+  columnWidth: number,
+  devicePixelRatio = 1
+): ImageSizeKey => {
+  const needed = columnWidth * devicePixelRatio;
+  const match = THUMBNAIL_SIZES.find(({ width }) => width >= needed);
+  return (match ?? THUMBNAIL_SIZES[THUMBNAIL_SIZES.length - 1]).size;
+};
+
+/**
+ * Index of the next (1) or previous (-1) lightbox image, wrapping around at either end
+ */
+export const stepLightboxIndex = (index: number, direction: 1 | -1, count: number): number =>
+  count === 0 ? 0 : (index + direction + count) % count;
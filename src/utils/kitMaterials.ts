@@ -0,0 +1,94 @@
+/**
+ * Drill type and canvas type helpers: labels for display and reading the many ways
+ * shops and spreadsheets write them
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { ProjectsCanvasTypeOptions, ProjectsDrillTypeOptions } from '@/types/pocketbase.types';
+
+export const DRILL_TYPE_LABELS: Record<ProjectsDrillTypeOptions, string> = {
+  standard: 'Standard',
+  ab: 'AB',
+  fairy_dust: 'Fairy Dust',
+  glow_in_dark: 'Glow-in-the-Dark',
+  special_shaped: 'Special Shaped',
+  mixed: 'Mixed',
+};
+
+export const CANVAS_TYPE_LABELS: Record<ProjectsCanvasTypeOptions, string> = {
+  canvas: 'Canvas',
+  linen: 'Linen',
+  mixed: 'Mixed',
+};
+
+/**
+ * Written forms of each drill type, compared after lower-casing and dropping everything
+ * but letters and digits
+ */
+const DRILL_TYPE_ALIASES = new Map<string, ProjectsDrillTypeOptions>(
+  Object.entries({
+    standard: ProjectsDrillTypeOptions.standard,
+    regular: ProjectsDrillTypeOptions.standard,
+    normal: ProjectsDrillTypeOptions.standard,
+    resin: ProjectsDrillTypeOptions.standard,
+    ab: ProjectsDrillTypeOptions.ab,
+    abdrills: ProjectsDrillTypeOptions.ab,
+    aurora: ProjectsDrillTypeOptions.ab,
+    auroraborealis: ProjectsDrillTypeOptions.ab,
+    fairydust: ProjectsDrillTypeOptions.fairy_dust,
+    fd: ProjectsDrillTypeOptions.fairy_dust,
+    glowinthedark: ProjectsDrillTypeOptions.glow_in_dark,
+    glowindark: ProjectsDrillTypeOptions.glow_in_dark,
+    glow: ProjectsDrillTypeOptions.glow_in_dark,
+    gitd: ProjectsDrillTypeOptions.glow_in_dark,
+    luminous: ProjectsDrillTypeOptions.glow_in_dark,
+    specialshaped: ProjectsDrillTypeOptions.special_shaped,
+    specialshape: ProjectsDrillTypeOptions.special_shaped,
+    special: ProjectsDrillTypeOptions.special_shaped,
+    mixed: ProjectsDrillTypeOptions.mixed,
+    mix: ProjectsDrillTypeOptions.mixed,
+  })
+);
+
+const CANVAS_TYPE_ALIASES = new Map<string, ProjectsCanvasTypeOptions>(
+  Object.entries({
+    canvas: ProjectsCanvasTypeOptions.canvas,
+    standard: ProjectsCanvasTypeOptions.canvas,
+    linen: ProjectsCanvasTypeOptions.linen,
+    linencanvas: ProjectsCanvasTypeOptions.linen,
+    mixed: ProjectsCanvasTypeOptions.mixed,
+    mix: ProjectsCanvasTypeOptions.mixed,
+  })
+);
+
+const toAliasKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Read a drill type such as "AB", "Fairy dust" or "glow-in-the-dark"; null when it isn't
+ * one we know
+ */
+export const parseDrillType = (
+  value: string | null | undefined
+): ProjectsDrillTypeOptions | null =>
+  value ? (DRILL_TYPE_ALIASES.get(toAliasKey(value)) ?? null) : null;
+
+/**
+ * Read a canvas type such as "Linen" or "mixed"; null when it isn't one we know
+ */
+export const parseCanvasType = (
+  value: string | null | undefined
+): ProjectsCanvasTypeOptions | null =>
+  value ? (CANVAS_TYPE_ALIASES.get(toAliasKey(value)) ?? null) : null;
+
+/**
+ * Display label for a stored drill type, falling back to the raw value
+ */
+export const getDrillTypeLabel = (value: string): string =>
+  DRILL_TYPE_LABELS[value as ProjectsDrillTypeOptions] ?? value;
+
+/**
+ * Display label for a stored canvas type, falling back to the raw value
+ */
+export const getCanvasTypeLabel = (value: string): string =>
+  CANVAS_TYPE_LABELS[value as ProjectsCanvasTypeOptions] ?? value;
@@ -0,0 +1,96 @@
+/**
+ * Helpers for the offline write queue: spotting lost connections, ordering and
+ * conflict checks for queued writes, and labels for showing them
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { QueryClient } from '@tanstack/react-query';
+import { ClientResponseError } from 'pocketbase';
+import { queryKeys } from '@/hooks/queries/queryKeys';
+import { getStatusLabel } from '@/utils/projectStatusUtils';
+import type { QueuedWrite } from '@/types/offlineQueue';
+
+/**
+ * Whether a request failed because the server couldn't be reached, as opposed to
+ * being rejected or cancelled
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (error instanceof ClientResponseError) {
+    return error.status === 0 && !error.isAbort;
+  }
+  return (
+    error instanceof TypeError && /failed to fetch|networkerror|load failed/i.test(error.message)
+  );
+}
+
+/**
+ * Title and last-seen `updated` timestamp of a project, from its cached detail view
+ */
+export function getQueuedWriteContext(
+  queryClient: QueryClient,
+  projectId: string
+): { projectTitle?: string; baseUpdated?: string } {
+  const cached = queryClient.getQueryData(queryKeys.projects.detail(projectId));
+  if (!cached || typeof cached !== 'object') return {};
+
+  // The detail cache normally holds a mapped project, but some mutations write the raw record
+  const project = cached as { title?: unknown; updatedAt?: unknown; updated?: unknown };
+  const updated = project.updatedAt ?? project.updated;
+  return {
+    projectTitle: typeof project.title === 'string' ? project.title : undefined,
+    baseUpdated: typeof updated === 'string' && updated ? updated : undefined,
+  };
+}
+
+/**
+ * Projects with a write waiting on the user. Later writes to them hold back so they
+ * never land ahead of the one before.
+ */
+export function getBlockedProjectIds(writes: QueuedWrite[]): Set<string> {
+  return new Set(writes.filter(write => write.status !== 'pending').map(write => write.projectId));
+}
+
+/**
+ * Whether the server record changed after the user made a queued write
+ */
+export function hasServerConflict(write: QueuedWrite, serverUpdated: string): boolean {
+  return !write.overwrite && !!write.baseUpdated && write.baseUpdated !== serverUpdated;
+}
+
+/**
+ * After a queued write lands, point the project's later writes at the record it produced,
+ * so they aren't reported as conflicting with the user's own change
+ * @returns Only the writes that changed
+ */
+export function rebaseQueuedWrites(
+  writes: QueuedWrite[],
+  projectId: string,
+  fromUpdated: string,
+  toUpdated: string
+): QueuedWrite[] {
+  return writes
+    .filter(
+      write =>
+        write.status === 'pending' &&
+        write.projectId === projectId &&
+        write.baseUpdated === fromUpdated
+    )
+    .map(write => ({ ...write, baseUpdated: toUpdated }));
+}
+
+/**
+ * Short description of what a queued write does
+ */
+export function describeQueuedWrite(write: QueuedWrite): string {
+  switch (write.payload.kind) {
+    case 'project-status':
+      return `Status changed to ${getStatusLabel(write.payload.newStatus)}`;
+    case 'project-update':
+      return write.payload.imageFile
+        ? 'Project details and image edited'
+        : 'Project details edited';
+    case 'progress-note':
+      return write.payload.imageFile ? 'Progress note with picture added' : 'Progress note added';
+  }
+}
@@ -8,10 +8,12 @@
  * @created 2025-08-01
  */
 
-import { QueryClient } from '@tanstack/react-query';
+import { QueryClient, QueryKey } from '@tanstack/react-query';
 import { queryKeys } from '@/hooks/queries/queryKeys';
 import { createLogger } from '@/utils/logger';
 import { ProjectForStats } from '@/hooks/queries/useProjectsForStats';
+import { getStatusChangeDates } from '@/utils/projectBoard';
+import type { Project, ProjectStatus } from '@/types/project';
 
 const logger = createLogger('optimisticUpdatesOptimized');
 
@@ -20,6 +22,8 @@ const logger = createLogger('optimisticUpdatesOptimized');
  */
 export interface OptimisticProjectsContext {
   previousProjects?: ProjectForStats[];
+  /** Board view caches as they were before the move */
+  previousBoards?: Array<[QueryKey, Project[] | undefined]>;
 }
 
 /**
@@ -204,6 +208,59 @@ export const rollbackProjectsOptimistic = (
   logger.debug('✅ [OPTIMIZED] Projects cache rollback completed', { userId });
 };
 
+/**
+ * Optimistically move a project to a new status in every cached board view,
+ * filling in or clearing its start and completion dates the way the server will
+ *
+ * @returns Previous board caches for rollback purposes
+ */
+export const updateBoardProjectStatusOptimistic = (
+  queryClient: QueryClient,
+  userId: string,
+  projectId: string,
+  newStatus: string,
+  today: string
+): Array<[QueryKey, Project[] | undefined]> => {
+  const boardKey = queryKeys.projects.boards(userId);
+  const previousBoards = queryClient.getQueriesData<Project[]>({ queryKey: boardKey });
+
+  queryClient.setQueriesData<Project[]>({ queryKey: boardKey }, oldProjects =>
+    oldProjects?.map(project => {
+      if (project.id !== projectId) return project;
+
+      const dates = getStatusChangeDates(project, newStatus, today);
+      return {
+        ...project,
+        status: newStatus as ProjectStatus,
+        ...(dates.dateStarted && { dateStarted: dates.dateStarted }),
+        ...(dates.dateCompleted !== undefined && {
+          dateCompleted: dates.dateCompleted ?? undefined,
+        }),
+      };
+    })
+  );
+
+  logger.debug('✅ [OPTIMIZED] Optimistic board move completed', {
+    projectId,
+    newStatus,
+    boards: previousBoards.length,
+  });
+
+  return previousBoards;
+};
+
+/**
+ * Restore board view caches after a failed status move
+ */
+export const rollbackBoardsOptimistic = (
+  queryClient: QueryClient,
+  previousBoards?: Array<[QueryKey, Project[] | undefined]>
+): void => {
+  previousBoards?.forEach(([queryKey, projects]) => {
+    queryClient.setQueryData(queryKey, projects);
+  });
+};
+
 /**
  * Invalidate projects cache for eventual consistency
  * This is much simpler than the old approach - only one cache to invalidate
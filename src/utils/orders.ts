@@ -0,0 +1,90 @@
+/**
+ * Order helpers: open/received state, list ordering and which projects change when
+ * an order is edited or received
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { Order, OrderProject, OrderState } from '@/types/order';
+
+export const ORDER_NUMBER_MAX_LENGTH = 100;
+export const TRACKING_NOTE_MAX_LENGTH = 1000;
+
+/**
+ * Reduce a PocketBase date ("2025-03-01 00:00:00.000Z") to its YYYY-MM-DD part
+ */
+export const toDateOnly = (value: string | null | undefined): string | undefined =>
+  value ? value.slice(0, 10) : undefined;
+
+/**
+ * Received once a receipt date is set; overdue when the expected delivery date has passed
+ * @param today - Current date as YYYY-MM-DD in the user's timezone
+ */
+export const getOrderState = (
+  order: Pick<Order, 'dateReceived' | 'expectedDelivery'>,
+  today: string
+): OrderState => {
+  if (order.dateReceived) return 'received';
+  if (order.expectedDelivery && order.expectedDelivery < today) return 'overdue';
+  return 'open';
+};
+
+/**
+ * Display name for an order, built from whatever identifying details it has
+ */
+export const getOrderTitle = (order: Pick<Order, 'companyName' | 'orderNumber'>): string => {
+  if (order.companyName && order.orderNumber) {
+    return `${order.companyName} #${order.orderNumber}`;
+  }
+  if (order.orderNumber) return `Order #${order.orderNumber}`;
+  if (order.companyName) return `${order.companyName} order`;
+  return 'Untitled order';
+};
+
+const compareOptionalDates = (a: string | undefined, b: string | undefined): number => {
+  if (a === b) return 0;
+  if (!a) return 1;
+  if (!b) return -1;
+  return a < b ? -1 : 1;
+};
+
+/**
+ * Split orders into open and received lists. Open orders are sorted by expected
+ * delivery (soonest first, undated last), received orders by receipt date, newest first.
+ */
+export const splitOrders = (orders: Order[]): { open: Order[]; received: Order[] } => {
+  const open = orders
+    .filter(order => !order.dateReceived)
+    .sort(
+      (a, b) =>
+        compareOptionalDates(a.expectedDelivery, b.expectedDelivery) ||
+        compareOptionalDates(a.orderDate, b.orderDate)
+    );
+  const received = orders
+    .filter(order => !!order.dateReceived)
+    .sort((a, b) => compareOptionalDates(b.dateReceived, a.dateReceived));
+
+  return { open, received };
+};
+
+/**
+ * Projects that marking the order received moves from purchased to stash
+ */
+export const getProjectsToReceive = (order: Pick<Order, 'projects'>): OrderProject[] =>
+  order.projects.filter(project => project.status === 'purchased');
+
+/**
+ * Which projects need their order link set or cleared to go from one selection to another
+ */
+export const getOrderLinkChanges = (
+  currentIds: string[],
+  nextIds: string[]
+): { link: string[]; unlink: string[] } => {
+  const current = new Set(currentIds);
+  const next = new Set(nextIds);
+
+  return {
+    link: [...next].filter(id => !current.has(id)),
+    unlink: [...current].filter(id => !next.has(id)),
+  };
+};
@@ -0,0 +1,75 @@
+/**
+ * Batch deletions waiting out their undo window, kept in localStorage so a deletion the
+ * user was told about still happens if the tab is closed or reloaded before it is sent
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { createLogger } from '@/utils/logger';
+
+const logger = createLogger('PendingDeletes');
+
+const STORAGE_KEY = 'organized-glitter-pending-deletes';
+
+export interface PendingDelete {
+  key: string;
+  userId: string;
+  projectIds: string[];
+  /** Epoch milliseconds at which the undo window ends */
+  commitAt: number;
+}
+
+const isPendingDelete = (value: unknown): value is PendingDelete => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.key === 'string' &&
+    typeof entry.userId === 'string' &&
+    typeof entry.commitAt === 'number' &&
+    Array.isArray(entry.projectIds) &&
+    entry.projectIds.every(id => typeof id === 'string')
+  );
+};
+
+const readPendingDeletes = (): PendingDelete[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter(isPendingDelete) : [];
+  } catch (error) {
+    logger.error('Failed to read pending deletions', error);
+    return [];
+  }
+};
+
+const writePendingDeletes = (entries: PendingDelete[]) => {
+  try {
+    if (entries.length > 0) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    logger.error('Failed to save pending deletions', error);
+  }
+};
+
+/**
+ * Get the user's pending deletions
+ */
+export const getPendingDeletes = (userId: string): PendingDelete[] =>
+  readPendingDeletes().filter(entry => entry.userId === userId);
+
+/**
+ * Remember a deletion until it has been sent or undone
+ */
+export const savePendingDelete = (entry: PendingDelete): void => {
+  writePendingDeletes([...readPendingDeletes().filter(stored => stored.key !== entry.key), entry]);
+};
+
+/**
+ * Forget a deletion once it has been sent or undone
+ */
+export const removePendingDelete = (key: string): void => {
+  writePendingDeletes(readPendingDeletes().filter(entry => entry.key !== key));
+};
@@ -0,0 +1,81 @@
+/**
+ * Board view helpers: which status columns to show, grouping projects into them, and
+ * the dates a status move fills in or clears
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { FilterState } from '@/contexts/FilterContext';
+import type { ProjectStatus } from '@/types/project';
+import { statusOptions } from '@/utils/projectStatusUtils';
+
+type BoardColumnFilters = Pick<
+  FilterState,
+  'includeWishlist' | 'includeOnHold' | 'includeArchived' | 'includeDestashed'
+>;
+
+/** Statuses that only get a column when the matching "include" filter is on */
+const OPTIONAL_COLUMNS: Partial<Record<ProjectStatus, keyof BoardColumnFilters>> = {
+  wishlist: 'includeWishlist',
+  onhold: 'includeOnHold',
+  archived: 'includeArchived',
+  destashed: 'includeDestashed',
+};
+
+/**
+ * Board columns in the usual status order. The board ignores the status tab but still
+ * honors the include toggles, matching what the "everything" query returns.
+ */
+export const getBoardStatuses = (filters: BoardColumnFilters): ProjectStatus[] =>
+  statusOptions.filter(status => {
+    const toggle = OPTIONAL_COLUMNS[status];
+    return !toggle || filters[toggle];
+  });
+
+/**
+ * Split projects into board columns, keeping their order within each column.
+ * Projects whose status has no column are left out.
+ */
+export const groupProjectsByStatus = <T extends { status: ProjectStatus }>(
+  projects: T[],
+  statuses: ProjectStatus[]
+): Record<ProjectStatus, T[]> => {
+  const columns = Object.fromEntries(statusOptions.map(status => [status, [] as T[]])) as Record<
+    ProjectStatus,
+    T[]
+  >;
+  const visible = new Set(statuses);
+
+  for (const project of projects) {
+    if (visible.has(project.status)) {
+      columns[project.status].push(project);
+    }
+  }
+
+  return columns;
+};
+
+/**
+ * Dates to change alongside a status move: starting a project sets its start date if it
+ * has none, completing one sets the completion date, and moving away from completed
+ * clears it (null)
+ */
+export const getStatusChangeDates = (
+  project: { status?: string; dateStarted?: string },
+  newStatus: string,
+  today: string
+): { dateStarted?: string; dateCompleted?: string | null } => {
+  const changes: { dateStarted?: string; dateCompleted?: string | null } = {};
+
+  if (newStatus === 'progress' && !project.dateStarted) {
+    changes.dateStarted = today;
+  }
+
+  if (newStatus === 'completed') {
+    changes.dateCompleted = today;
+  } else if (project.status === 'completed') {
+    changes.dateCompleted = null;
+  }
+
+  return changes;
+};
@@ -1,6 +1,7 @@
 import { ProjectFormSchemaType } from '@/schemas/project.schema';
 import { ProjectFormValues } from '@/types/project';
 import { toUserDateString } from '@/utils/timezoneUtils';
+import { parseCanvasType, parseDrillType } from '@/utils/kitMaterials';
 
 /**
  * Converts ProjectFormSchemaType (Zod schema output) to ProjectFormValues (legacy form interface)
@@ -35,10 +36,17 @@ export function convertSchemaToFormValues(
     width: data.width?.toString() || undefined,
     height: data.height?.toString() || undefined,
     totalDiamonds: data.totalDiamonds || undefined,
+    price: data.price ?? undefined,
+    shippingCost: data.shippingCost ?? undefined,
+    discount: data.discount ?? undefined,
+    currency: data.currency || undefined,
+    orderReference: data.orderReference || undefined,
     // Handle nullable fields
     company: data.company || undefined,
     artist: data.artist || undefined,
     drillShape: data.drillShape || undefined,
+    drillType: data.drillType || undefined,
+    canvasType: data.canvasType || undefined,
     generalNotes: data.generalNotes || undefined,
     imageUrl: data.imageUrl || undefined,
     sourceUrl: data.sourceUrl || undefined,
@@ -80,8 +88,13 @@ export function convertFormValuesToSchema(
     height: data.height ? Number(data.height) : undefined,
     totalDiamonds:
       typeof data.totalDiamonds === 'string' ? Number(data.totalDiamonds) : data.totalDiamonds,
+    price: data.price ? Number(data.price) : undefined,
+    shippingCost: data.shippingCost ? Number(data.shippingCost) : undefined,
+    discount: data.discount ? Number(data.discount) : undefined,
     // Ensure drillShape is properly typed
     drillShape:
       data.drillShape === 'round' || data.drillShape === 'square' ? data.drillShape : null,
+    drillType: parseDrillType(data.drillType),
+    canvasType: parseCanvasType(data.canvasType),
   };
 }
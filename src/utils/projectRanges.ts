@@ -0,0 +1,152 @@
+/**
+ * Helpers for project range filters (size, diamond count and date windows)
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type {
+  DateRange,
+  DateRangeField,
+  NumberRange,
+  NumberRangeField,
+  ProjectRangeFilters,
+} from '@/types/projectFilters';
+
+interface RangeFieldConfig<K> {
+  key: K;
+  label: string;
+  /** Prefix of the URL search parameters, e.g. width -> width_min / width_max */
+  param: string;
+}
+
+export const NUMBER_RANGE_FIELDS: RangeFieldConfig<NumberRangeField>[] = [
+  { key: 'width', label: 'Width (cm)', param: 'width' },
+  { key: 'height', label: 'Height (cm)', param: 'height' },
+  { key: 'totalDiamonds', label: 'Diamonds', param: 'diamonds' },
+];
+
+export const DATE_RANGE_FIELDS: RangeFieldConfig<DateRangeField>[] = [
+  { key: 'datePurchased', label: 'Purchased', param: 'purchased' },
+  { key: 'dateReceived', label: 'Received', param: 'received' },
+  { key: 'dateStarted', label: 'Started', param: 'started' },
+  { key: 'dateCompleted', label: 'Completed', param: 'completed' },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toBound = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+const toDate = (value: unknown): string | undefined =>
+  typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value))
+    ? value
+    : undefined;
+
+const normalizeNumberRange = (raw: unknown): NumberRange | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const min = toBound((raw as NumberRange).min);
+  const max = toBound((raw as NumberRange).max);
+  if (min === undefined && max === undefined) return undefined;
+  return { ...(min !== undefined && { min }), ...(max !== undefined && { max }) };
+};
+
+const normalizeDateRange = (raw: unknown): DateRange | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const from = toDate((raw as DateRange).from);
+  const to = toDate((raw as DateRange).to);
+  if (!from && !to) return undefined;
+  return { ...(from && { from }), ...(to && { to }) };
+};
+
+/**
+ * Drop empty and invalid bounds so equal filters always have the same shape
+ */
+export const normalizeProjectRanges = (raw: unknown): ProjectRangeFilters => {
+  if (!raw || typeof raw !== 'object') return {};
+  const source = raw as Record<string, unknown>;
+  const ranges: ProjectRangeFilters = {};
+
+  NUMBER_RANGE_FIELDS.forEach(({ key }) => {
+    const range = normalizeNumberRange(source[key]);
+    if (range) ranges[key] = range;
+  });
+  DATE_RANGE_FIELDS.forEach(({ key }) => {
+    const range = normalizeDateRange(source[key]);
+    if (range) ranges[key] = range;
+  });
+
+  return ranges;
+};
+
+/**
+ * Number of fields with at least one active bound
+ */
+export const countActiveRanges = (ranges: ProjectRangeFilters): number =>
+  Object.keys(normalizeProjectRanges(ranges)).length;
+
+export const areRangesEqual = (a: ProjectRangeFilters, b: ProjectRangeFilters): boolean =>
+  serializeRanges(a) === serializeRanges(b);
+
+/**
+ * Stable string form of range filters, usable in memo dependencies and query keys
+ */
+export const serializeRanges = (ranges: ProjectRangeFilters): string => {
+  const normalized = normalizeProjectRanges(ranges);
+  return JSON.stringify(
+    [...NUMBER_RANGE_FIELDS, ...DATE_RANGE_FIELDS].map(({ key }) => normalized[key] ?? null)
+  );
+};
+
+/**
+ * Read range filters from URL search parameters, e.g. ?width_min=40&purchased_from=2025-03-01
+ */
+export const parseRangeSearchParams = (params: URLSearchParams): ProjectRangeFilters => {
+  const raw: Record<string, NumberRange | DateRange> = {};
+
+  NUMBER_RANGE_FIELDS.forEach(({ key, param }) => {
+    raw[key] = {
+      min: toBound(params.get(`${param}_min`)),
+      max: toBound(params.get(`${param}_max`)),
+    };
+  });
+  DATE_RANGE_FIELDS.forEach(({ key, param }) => {
+    raw[key] = {
+      from: params.get(`${param}_from`) ?? undefined,
+      to: params.get(`${param}_to`) ?? undefined,
+    };
+  });
+
+  return normalizeProjectRanges(raw);
+};
+
+/**
+ * Return a copy of the search parameters with the range parameters replaced by the given ranges
+ */
+export const applyRangeSearchParams = (
+  params: URLSearchParams,
+  ranges: ProjectRangeFilters
+): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  const normalized = normalizeProjectRanges(ranges);
+
+  const setParam = (name: string, value: string | number | undefined) => {
+    if (value === undefined) {
+      next.delete(name);
+    } else {
+      next.set(name, String(value));
+    }
+  };
+
+  NUMBER_RANGE_FIELDS.forEach(({ key, param }) => {
+    setParam(`${param}_min`, normalized[key]?.min);
+    setParam(`${param}_max`, normalized[key]?.max);
+  });
+  DATE_RANGE_FIELDS.forEach(({ key, param }) => {
+    setParam(`${param}_from`, normalized[key]?.from);
+    setParam(`${param}_to`, normalized[key]?.to);
+  });
+
+  return next;
+};
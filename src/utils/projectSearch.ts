@@ -0,0 +1,194 @@
+/**
+ * Full-text project search: ranking, snippets and highlight segments
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { Project } from '@/types/project';
+import type {
+  ProjectSearchField,
+  ProjectSearchMatch,
+  SearchableProgressNote,
+} from '@/types/projectSearch';
+
+/**
+ * Score for a match in each field. Titles rank first, then company and artist,
+ * then free-text notes.
+ */
+export const SEARCH_FIELD_WEIGHTS: Record<ProjectSearchField, number> = {
+  title: 10,
+  company: 5,
+  artist: 5,
+  generalNotes: 3,
+  progressNote: 2,
+};
+
+/** Extra score when the title starts with the search term */
+const TITLE_PREFIX_BONUS = 5;
+
+/** Matching progress notes that add to the score; more notes don't rank higher */
+const MAX_SCORED_PROGRESS_NOTES = 3;
+
+const SNIPPET_RADIUS = 40;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+};
+
+/**
+ * Convert stored HTML (progress notes) to plain text for matching and display
+ */
+export const stripHtml = (html: string): string =>
+  html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, entity => HTML_ENTITIES[entity] ?? entity)
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const includesTerm = (text: string | undefined, term: string): boolean =>
+  !!text && text.toLowerCase().includes(term.toLowerCase());
+
+/**
+ * Cut a snippet of text around the first match of the term, or null if it doesn't match
+ */
+export const buildSearchSnippet = (
+  text: string,
+  term: string,
+  radius = SNIPPET_RADIUS
+): string | null => {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return null;
+
+  const index = text.toLowerCase().indexOf(needle);
+  if (index === -1) return null;
+
+  const start = Math.max(0, index - radius);
+  const end = Math.min(text.length, index + needle.length + radius);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Split text into plain and matching segments for highlighting (case-insensitive)
+ */
+export const splitHighlightSegments = (text: string, term: string): HighlightSegment[] => {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return [{ text, match: false }];
+
+  const segments: HighlightSegment[] = [];
+  const haystack = text.toLowerCase();
+  let cursor = 0;
+  let index = haystack.indexOf(needle);
+
+  while (index !== -1) {
+    if (index > cursor) segments.push({ text: text.slice(cursor, index), match: false });
+    segments.push({ text: text.slice(index, index + needle.length), match: true });
+    cursor = index + needle.length;
+    index = haystack.indexOf(needle, cursor);
+  }
+
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+  return segments;
+};
+
+/**
+ * Work out which fields of a project match the term and how well
+ *
+ * Progress notes should already be narrowed to this project, newest first.
+ */
+export const matchProject = (
+  project: Project,
+  term: string,
+  progressNotes: SearchableProgressNote[] = []
+): ProjectSearchMatch | null => {
+  const needle = term.trim();
+  if (!needle) return null;
+
+  const fields: ProjectSearchField[] = [];
+  let score = 0;
+  let snippet: ProjectSearchMatch['snippet'];
+
+  if (includesTerm(project.title, needle)) {
+    fields.push('title');
+    score += SEARCH_FIELD_WEIGHTS.title;
+    if (project.title.toLowerCase().startsWith(needle.toLowerCase())) score += TITLE_PREFIX_BONUS;
+  }
+
+  for (const field of ['company', 'artist', 'generalNotes'] as const) {
+    const value = project[field];
+    if (!includesTerm(value, needle)) continue;
+
+    fields.push(field);
+    score += SEARCH_FIELD_WEIGHTS[field];
+    if (!snippet && value) {
+      snippet = { field, text: buildSearchSnippet(value, needle) ?? value };
+    }
+  }
+
+  const matchingNotes = progressNotes
+    .map(note => ({ note, text: stripHtml(note.content ?? '') }))
+    .filter(({ text }) => includesTerm(text, needle));
+
+  let progressNote: ProjectSearchMatch['progressNote'];
+  if (matchingNotes.length > 0) {
+    fields.push('progressNote');
+    score +=
+      SEARCH_FIELD_WEIGHTS.progressNote * Math.min(matchingNotes.length, MAX_SCORED_PROGRESS_NOTES);
+    const [first] = matchingNotes;
+    progressNote = {
+      noteId: first.note.id,
+      date: first.note.date,
+      snippet: buildSearchSnippet(first.text, needle) ?? first.text,
+    };
+  }
+
+  if (fields.length === 0) return null;
+
+  return {
+    score,
+    fields,
+    snippet,
+    progressNote,
+    progressNoteCount: matchingNotes.length,
+  };
+};
+
+/**
+ * Rank projects by search relevance. Ties keep their original (sorted) order.
+ *
+ * Projects that matched on the server but not in any loaded field (e.g. a note that only
+ * matched inside HTML markup) are kept at the end with a score of 0.
+ */
+export const rankProjectSearchResults = (
+  projects: Project[],
+  progressNotes: SearchableProgressNote[],
+  term: string
+): { projects: Project[]; matches: Record<string, ProjectSearchMatch> } => {
+  const notesByProject = new Map<string, SearchableProgressNote[]>();
+  for (const note of progressNotes) {
+    const list = notesByProject.get(note.project) ?? [];
+    list.push(note);
+    notesByProject.set(note.project, list);
+  }
+
+  const matches: Record<string, ProjectSearchMatch> = {};
+  const ranked = projects
+    .map((project, index) => {
+      const match = matchProject(project, term, notesByProject.get(project.id));
+      if (match) matches[project.id] = match;
+      return { project, index, score: match?.score ?? 0 };
+    })
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(entry => entry.project);
+
+  return { projects: ranked, matches };
+};
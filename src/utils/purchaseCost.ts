@@ -0,0 +1,108 @@
+/**
+ * Purchase cost helpers: what a kit actually cost once shipping and discounts are counted
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+/**
+ * Currency used when a project doesn't record one
+ */
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Currencies offered in the project form. Imported projects may use any ISO 4217 code.
+ */
+export const CURRENCY_OPTIONS = [
+  'USD',
+  'EUR',
+  'GBP',
+  'CAD',
+  'AUD',
+  'NZD',
+  'JPY',
+  'CHF',
+  'SEK',
+  'NOK',
+  'DKK',
+  'PLN',
+  'MXN',
+  'BRL',
+  'ZAR',
+] as const;
+
+export const ORDER_REFERENCE_MAX_LENGTH = 100;
+
+export interface PurchaseCostFields {
+  price?: number | null;
+  shippingCost?: number | null;
+  discount?: number | null;
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Price plus shipping minus discount, never below zero.
+ * Returns null when neither a price nor a shipping cost was recorded.
+ */
+export const getTotalCost = ({
+  price,
+  shippingCost,
+  discount,
+}: PurchaseCostFields): number | null => {
+  if (price == null && shippingCost == null) return null;
+  return Math.max(0, roundMoney((price ?? 0) + (shippingCost ?? 0) - (discount ?? 0)));
+};
+
+/**
+ * Uppercase three-letter currency code, or the default currency for anything else
+ */
+export const normalizeCurrency = (value: string | null | undefined): string => {
+  const code = value?.trim().toUpperCase();
+  return code && /^[A-Z]{3}$/.test(code) ? code : DEFAULT_CURRENCY;
+};
+
+/**
+ * Read a money amount typed by a person or exported by a shop: "$1,234.50", "1.234,50 €",
+ * "1.234 €", "12,5", "15". When both a dot and a comma appear the last one is the decimal
+ * point; a lone comma followed by one or two digits is a decimal comma, a lone dot followed
+ * by exactly three digits is a thousands dot, and repeated separators of one kind are
+ * thousands separators.
+ */
+export const parseMoney = (value: string | number | null | undefined): number | undefined => {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : undefined;
+
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(cleaned)) return undefined;
+
+  const lastDot = cleaned.lastIndexOf('.');
+  const lastComma = cleaned.lastIndexOf(',');
+  let decimalIndex = -1;
+  if (lastDot >= 0 && lastComma >= 0) {
+    decimalIndex = Math.max(lastDot, lastComma);
+  } else if (lastComma >= 0 && /^[^,]*,\d{1,2}$/.test(cleaned)) {
+    decimalIndex = lastComma;
+  } else if (
+    lastDot >= 0 &&
+    cleaned.indexOf('.') === lastDot &&
+    !/^\d{1,3}(\.\d{3})+$/.test(cleaned)
+  ) {
+    decimalIndex = lastDot;
+  }
+
+  const whole = decimalIndex >= 0 ? cleaned.slice(0, decimalIndex) : cleaned;
+  const fraction = decimalIndex >= 0 ? cleaned.slice(decimalIndex + 1) : '';
+  const amount = Number(`${whole.replace(/[.,]/g, '')}.${fraction || '0'}`);
+  return Number.isFinite(amount) && amount >= 0 ? roundMoney(amount) : undefined;
+};
+
+/**
+ * Format an amount in its currency, falling back to "12.50 XYZ" for codes Intl doesn't know
+ */
+export const formatCurrency = (amount: number, currency: string = DEFAULT_CURRENCY): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
@@ -0,0 +1,95 @@
+/**
+ * Rules for which cached queries are kept on the device for offline use, and for how long
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { DehydratedState, Query, QueryKey } from '@tanstack/react-query';
+import { queryKeys } from '@/hooks/queries/queryKeys';
+
+type PersistedQuery = DehydratedState['queries'][number];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Bump when the shape of persisted data changes, so older caches are thrown away
+ */
+export const QUERY_CACHE_VERSION = 1;
+
+/**
+ * Query key prefixes that are persisted, with how long their data stays usable offline
+ */
+export const QUERY_PERSISTENCE_RULES: ReadonlyArray<{ queryKey: QueryKey; maxAge: number }> = [
+  { queryKey: queryKeys.projects.lists(), maxAge: 7 * DAY },
+  { queryKey: queryKeys.projects.details(), maxAge: 7 * DAY },
+  { queryKey: [...queryKeys.projects.all, 'for-stats'], maxAge: 7 * DAY },
+  { queryKey: queryKeys.progressNotes.lists(), maxAge: 7 * DAY },
+  { queryKey: queryKeys.tags.lists(), maxAge: 30 * DAY },
+  { queryKey: queryKeys.companies.lists(), maxAge: 30 * DAY },
+  { queryKey: [...queryKeys.companies.all, 'all-for-user'], maxAge: 30 * DAY },
+  { queryKey: queryKeys.artists.lists(), maxAge: 30 * DAY },
+];
+
+const startsWith = (queryKey: QueryKey, prefix: QueryKey) =>
+  prefix.length <= queryKey.length && prefix.every((part, index) => queryKey[index] === part);
+
+/**
+ * How long a query's data may be kept on the device
+ * @returns The max age in milliseconds, or undefined if the query isn't persisted
+ */
+export function getQueryMaxAge(queryKey: QueryKey): number | undefined {
+  return QUERY_PERSISTENCE_RULES.find(rule => startsWith(queryKey, rule.queryKey))?.maxAge;
+}
+
+/**
+ * Whether a query in the cache has data worth saving to the device
+ */
+export function shouldPersistQuery(query: Query): boolean {
+  return query.state.data !== undefined && getQueryMaxAge(query.queryKey) !== undefined;
+}
+
+/**
+ * Whether persisted data is still within its max age
+ */
+export function isPersistedQueryFresh(query: PersistedQuery, now: number): boolean {
+  const maxAge = getQueryMaxAge(query.queryKey);
+  return maxAge !== undefined && now - query.state.dataUpdatedAt <= maxAge;
+}
+
+/**
+ * Strip the in-flight and error parts of a query's state, keeping the data and when it
+ * was fetched. Errors aren't worth restoring and may not survive being stored.
+ */
+export function toPersistedQuery(query: PersistedQuery): PersistedQuery {
+  const { queryHash, queryKey, state } = query;
+  return {
+    queryHash,
+    queryKey,
+    state: {
+      ...state,
+      status: 'success',
+      fetchStatus: 'idle',
+      error: null,
+      errorUpdateCount: 0,
+      errorUpdatedAt: 0,
+      fetchFailureCount: 0,
+      fetchFailureReason: null,
+      isInvalidated: false,
+    },
+  };
+}
+
+/**
+ * Combine what was saved before with the queries in memory now. Queries dropped from
+ * memory after going unused stay saved until they expire, so projects browsed earlier
+ * remain available offline.
+ */
+export function mergePersistedQueries(
+  saved: PersistedQuery[],
+  current: PersistedQuery[],
+  now: number
+): PersistedQuery[] {
+  const merged = new Map(saved.map(query => [query.queryHash, query]));
+  current.forEach(query => merged.set(query.queryHash, query));
+  return [...merged.values()].filter(query => isPersistedQueryFresh(query, now));
+}
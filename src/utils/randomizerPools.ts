@@ -0,0 +1,75 @@
+/**
+ * Helpers for filter-based randomizer pools
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { ServerFilters } from '@/hooks/queries/useProjects';
+import type { ProjectFilterStatus } from '@/types/projectFilters';
+import type { RandomizerPoolFilters } from '@/types/randomizerPool';
+
+/**
+ * Pool statuses offered on the randomizer page
+ */
+export const POOL_STATUSES: ProjectFilterStatus[] = [
+  'progress',
+  'onhold',
+  'stash',
+  'purchased',
+  'active',
+  'everything',
+];
+
+/**
+ * Default pool: every in-progress project, matching the randomizer's manual list
+ */
+export const DEFAULT_POOL_FILTERS: RandomizerPoolFilters = {
+  status: 'progress',
+  selectedTags: [],
+  tagMatchMode: 'any',
+  company: 'all',
+  drillShape: 'all',
+  kitCategory: 'all',
+};
+
+/**
+ * Fill in defaults for missing or mistyped values in stored pool filters
+ */
+export const normalizePoolFilters = (
+  raw: Partial<RandomizerPoolFilters> | null | undefined
+): RandomizerPoolFilters => {
+  if (!raw || typeof raw !== 'object') return { ...DEFAULT_POOL_FILTERS, selectedTags: [] };
+
+  return {
+    status:
+      raw.status && POOL_STATUSES.includes(raw.status) ? raw.status : DEFAULT_POOL_FILTERS.status,
+    selectedTags: Array.isArray(raw.selectedTags)
+      ? raw.selectedTags.filter((tag): tag is string => typeof tag === 'string')
+      : [],
+    tagMatchMode: raw.tagMatchMode === 'all' ? 'all' : 'any',
+    company: typeof raw.company === 'string' && raw.company ? raw.company : 'all',
+    drillShape: typeof raw.drillShape === 'string' && raw.drillShape ? raw.drillShape : 'all',
+    kitCategory: raw.kitCategory === 'full' || raw.kitCategory === 'mini' ? raw.kitCategory : 'all',
+  };
+};
+
+/**
+ * Convert pool filters into the project query filters used by useProjects
+ */
+export const toPoolServerFilters = (filters: RandomizerPoolFilters): ServerFilters => ({
+  status: filters.status,
+  ...(filters.company !== 'all' && { company: filters.company }),
+  ...(filters.drillShape !== 'all' && { drillShape: filters.drillShape }),
+  ...(filters.kitCategory !== 'all' && { kitCategory: filters.kitCategory }),
+  ...(filters.selectedTags.length > 0 && {
+    selectedTags: filters.selectedTags,
+    tagMatchMode: filters.tagMatchMode,
+  }),
+});
+
+/**
+ * Whether two pool filters select the same projects
+ */
+export const arePoolFiltersEqual = (a: RandomizerPoolFilters, b: RandomizerPoolFilters): boolean =>
+  JSON.stringify({ ...a, selectedTags: [...a.selectedTags].sort() }) ===
+  JSON.stringify({ ...b, selectedTags: [...b.selectedTags].sort() });
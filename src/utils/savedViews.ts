@@ -0,0 +1,168 @@
+/**
+ * Helpers for saved dashboard views
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { FilterState, getDefaultFilters } from '@/contexts/FilterContext/types';
+import type { ProjectFilters, StatusBreakdown } from '@/types/projectFilters';
+import type { SavedViewFilters } from '@/types/savedView';
+import { areRangesEqual, normalizeProjectRanges } from '@/utils/projectRanges';
+
+/**
+ * Dashboard URL search parameter that selects a saved view, e.g. /dashboard?view=abc123
+ */
+export const SAVED_VIEW_URL_PARAM = 'view';
+
+const TAG_LIST_KEYS = new Set<keyof SavedViewFilters>(['selectedTags', 'excludedTags']);
+
+const sameTags = (a: string[], b: string[]): boolean => {
+  const sortedA = [...a].sort();
+  const sortedB = [...b].sort();
+  return sortedA.length === sortedB.length && sortedA.every((tag, i) => tag === sortedB[i]);
+};
+
+export const SAVED_VIEW_FILTER_KEYS: (keyof SavedViewFilters)[] = [
+  'activeStatus',
+  'selectedCompany',
+  'selectedArtist',
+  'selectedDrillShape',
+  'selectedDrillType',
+  'selectedCanvasType',
+  'selectedYearFinished',
+  'includeMiniKits',
+  'includeDestashed',
+  'includeArchived',
+  'includeWishlist',
+  'includeOnHold',
+  'searchTerm',
+  'searchMode',
+  'selectedTags',
+  'tagMatchMode',
+  'excludedTags',
+  'ranges',
+  'sortField',
+  'sortDirection',
+];
+
+/**
+ * Pick the parts of the dashboard filter state that are stored in a saved view
+ */
+export const extractSavedViewFilters = (filters: FilterState): SavedViewFilters => {
+  const viewFilters = {} as Record<keyof SavedViewFilters, unknown>;
+  SAVED_VIEW_FILTER_KEYS.forEach(key => {
+    const value = filters[key];
+    viewFilters[key] = Array.isArray(value) ? [...value] : value;
+  });
+  return viewFilters as SavedViewFilters;
+};
+
+/**
+ * Fill in defaults for missing or mistyped values in stored view filters
+ */
+export const normalizeSavedViewFilters = (
+  raw: Partial<SavedViewFilters> | null | undefined
+): SavedViewFilters => {
+  const defaults = extractSavedViewFilters(getDefaultFilters());
+  if (!raw || typeof raw !== 'object') return defaults;
+
+  const normalized = { ...defaults } as Record<keyof SavedViewFilters, unknown>;
+  SAVED_VIEW_FILTER_KEYS.forEach(key => {
+    const value = raw[key];
+    if (TAG_LIST_KEYS.has(key)) {
+      if (Array.isArray(value)) {
+        normalized[key] = value.filter((tag): tag is string => typeof tag === 'string');
+      }
+    } else if (key === 'ranges') {
+      normalized.ranges = normalizeProjectRanges(value);
+    } else if (key === 'tagMatchMode') {
+      if (value === 'any' || value === 'all') {
+        normalized.tagMatchMode = value;
+      }
+    } else if (key === 'searchMode') {
+      if (value === 'title' || value === 'full') {
+        normalized.searchMode = value;
+      }
+    } else if (typeof value === typeof defaults[key]) {
+      normalized[key] = value;
+    }
+  });
+  return normalized as SavedViewFilters;
+};
+
+/**
+ * Whether the current dashboard filters match a saved view exactly
+ */
+export const isSavedViewActive = (filters: FilterState, viewFilters: SavedViewFilters): boolean =>
+  SAVED_VIEW_FILTER_KEYS.every(key => {
+    if (key === 'selectedTags' || key === 'excludedTags') {
+      return sameTags(filters[key], viewFilters[key]);
+    }
+    if (key === 'ranges') {
+      return areRangesEqual(filters.ranges, viewFilters.ranges);
+    }
+    return filters[key] === viewFilters[key];
+  });
+
+/**
+ * Convert saved view filters into service-layer project filters
+ */
+export const toProjectFilters = (userId: string, filters: SavedViewFilters): ProjectFilters => ({
+  userId,
+  status: filters.activeStatus,
+  company: filters.selectedCompany,
+  artist: filters.selectedArtist,
+  drillShape: filters.selectedDrillShape,
+  drillType: filters.selectedDrillType,
+  canvasType: filters.selectedCanvasType,
+  yearFinished: filters.selectedYearFinished,
+  includeMiniKits: filters.includeMiniKits,
+  includeDestashed: filters.includeDestashed,
+  includeArchived: filters.includeArchived,
+  includeWishlist: filters.includeWishlist,
+  includeOnHold: filters.includeOnHold,
+  searchTerm: filters.searchTerm,
+  searchMode: filters.searchMode,
+  selectedTags: filters.selectedTags,
+  tagMatchMode: filters.tagMatchMode,
+  excludedTags: filters.excludedTags,
+  ranges: filters.ranges,
+});
+
+/**
+ * Number of projects a view shows, derived from status counts of its non-status filters.
+ * Mirrors the status and include-flag rules of the dashboard project query.
+ */
+export const getSavedViewCount = (counts: StatusBreakdown, filters: SavedViewFilters): number => {
+  const { activeStatus } = filters;
+
+  if (activeStatus === 'active') {
+    return (
+      counts.purchased +
+      counts.stash +
+      counts.progress +
+      (filters.includeOnHold ? counts.onhold : 0)
+    );
+  }
+
+  if (activeStatus === 'everything') {
+    return (
+      counts.purchased +
+      counts.stash +
+      counts.progress +
+      counts.completed +
+      (filters.includeOnHold ? counts.onhold : 0) +
+      (filters.includeWishlist ? counts.wishlist : 0) +
+      (filters.includeArchived ? counts.archived : 0) +
+      (filters.includeDestashed ? counts.destashed : 0)
+    );
+  }
+
+  return counts[activeStatus] ?? 0;
+};
+
+/**
+ * Absolute dashboard link that opens a saved view
+ */
+export const buildSavedViewUrl = (origin: string, viewId: string): string =>
+  `${origin}/dashboard?${SAVED_VIEW_URL_PARAM}=${encodeURIComponent(viewId)}`;
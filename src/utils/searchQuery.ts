@@ -0,0 +1,576 @@
+/**
+ * Structured search query language for the dashboard search box
+ *
+ * Turns text like `status:stash tag:animals shape:square width>40 company:"Diamond Art Club"`
+ * into dashboard filter state, turns the active filters back into text, and suggests
+ * completions for the term under the cursor. Words that are not `key:value` terms become
+ * the free-text search term.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import { getDefaultFilters, type FilterState } from '@/contexts/FilterContext/types';
+import { ProjectsDrillShapeOptions } from '@/types/pocketbase.types';
+import type {
+  DateRange,
+  DateRangeField,
+  NumberRange,
+  NumberRangeField,
+  ProjectFilterStatus,
+  ProjectRangeFilters,
+} from '@/types/projectFilters';
+import {
+  areRangesEqual,
+  DATE_RANGE_FIELDS,
+  NUMBER_RANGE_FIELDS,
+  normalizeProjectRanges,
+} from '@/utils/projectRanges';
+
+/**
+ * Dashboard filters the query language reads and writes. Include toggles (mini kits,
+ * destashed, archived, ...) and sorting stay with their dropdowns.
+ */
+export type SearchQueryFilters = Pick<
+  FilterState,
+  | 'activeStatus'
+  | 'selectedCompany'
+  | 'selectedArtist'
+  | 'selectedDrillShape'
+  | 'selectedYearFinished'
+  | 'searchTerm'
+  | 'selectedTags'
+  | 'tagMatchMode'
+  | 'excludedTags'
+  | 'ranges'
+>;
+
+/**
+ * Names the query can refer to, usually from the metadata context
+ */
+export interface SearchQueryMetadata {
+  tags: Array<{ id: string; name: string }>;
+  companies: Array<{ name: string }>;
+  artists: Array<{ name: string }>;
+}
+
+/**
+ * Problem with one term, with its character range in the query text
+ */
+export interface SearchQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  filters: SearchQueryFilters;
+  errors: SearchQueryError[];
+}
+
+export interface SearchQuerySuggestion {
+  label: string;
+  /** Text that replaces the term under the cursor */
+  replacement: string;
+}
+
+export interface SearchQuerySuggestions {
+  /** Range of the term that a suggestion replaces */
+  start: number;
+  end: number;
+  items: SearchQuerySuggestion[];
+}
+
+type ComparisonOperator = ':' | '>' | '>=' | '<' | '<=';
+
+const STATUS_VALUES: ProjectFilterStatus[] = [
+  'active',
+  'everything',
+  'wishlist',
+  'purchased',
+  'stash',
+  'progress',
+  'onhold',
+  'completed',
+  'archived',
+  'destashed',
+];
+
+const STATUS_ALIASES: Record<string, ProjectFilterStatus> = {
+  all: 'everything',
+  inprogress: 'progress',
+  'in-progress': 'progress',
+  'on-hold': 'onhold',
+  done: 'completed',
+  finished: 'completed',
+};
+
+const NUMBER_KEYS = new Map<string, NumberRangeField>(
+  NUMBER_RANGE_FIELDS.map(({ key, param }) => [param, key])
+);
+const DATE_KEYS = new Map<string, DateRangeField>(
+  DATE_RANGE_FIELDS.map(({ key, param }) => [param, key])
+);
+
+const KEY_ALIASES: Record<string, string> = {
+  drill: 'shape',
+  tags: 'tag',
+  finished: 'year',
+};
+
+/** Keys offered by autocomplete, in the order they are listed */
+export const SEARCH_QUERY_KEYS = [
+  'status',
+  'tag',
+  'company',
+  'artist',
+  'shape',
+  'year',
+  'match',
+  ...NUMBER_KEYS.keys(),
+  ...DATE_KEYS.keys(),
+];
+
+const KNOWN_KEYS = new Set(SEARCH_QUERY_KEYS);
+
+const MAX_SUGGESTIONS = 8;
+const TERM_PATTERN = /^(-?)([a-z]+)(>=|<=|:|>|<)([\s\S]*)$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const YEAR_PATTERN = /^\d{4}$/;
+
+const getDrillShapes = (): string[] => Object.values(ProjectsDrillShapeOptions);
+
+/**
+ * Pick the parts of the dashboard filter state covered by the query language
+ */
+export const pickSearchQueryFilters = (filters: FilterState): SearchQueryFilters => ({
+  activeStatus: filters.activeStatus,
+  selectedCompany: filters.selectedCompany,
+  selectedArtist: filters.selectedArtist,
+  selectedDrillShape: filters.selectedDrillShape,
+  selectedYearFinished: filters.selectedYearFinished,
+  searchTerm: filters.searchTerm,
+  selectedTags: [...filters.selectedTags],
+  tagMatchMode: filters.tagMatchMode,
+  excludedTags: [...filters.excludedTags],
+  ranges: filters.ranges,
+});
+
+interface QueryToken {
+  text: string;
+  start: number;
+  end: number;
+  unterminated: boolean;
+}
+
+/**
+ * Split on whitespace outside double quotes, keeping character offsets
+ */
+const tokenize = (input: string): QueryToken[] => {
+  const tokens: QueryToken[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    while (index < input.length && /\s/.test(input[index])) index++;
+    if (index >= input.length) break;
+
+    const start = index;
+    let inQuotes = false;
+    while (index < input.length && (inQuotes || !/\s/.test(input[index]))) {
+      if (input[index] === '"') inQuotes = !inQuotes;
+      index++;
+    }
+    tokens.push({ text: input.slice(start, index), start, end: index, unterminated: inQuotes });
+  }
+
+  return tokens;
+};
+
+const unquote = (value: string): string => value.replace(/"/g, '');
+
+const quoteIfNeeded = (value: string): string =>
+  /[\s"]/.test(value) ? `"${unquote(value)}"` : value;
+
+const findByName = <T extends { name: string }>(items: T[], name: string): T | undefined => {
+  const needle = name.trim().toLowerCase();
+  return items.find(item => item.name.trim().toLowerCase() === needle);
+};
+
+const parseNumber = (value: string): number | undefined => {
+  const number = Number(value);
+  return value.trim() !== '' && Number.isFinite(number) && number >= 0 ? number : undefined;
+};
+
+const parseDate = (value: string): string | undefined =>
+  DATE_PATTERN.test(value) && !isNaN(Date.parse(value)) ? value : undefined;
+
+/**
+ * Read a number comparison (`>40`, `<=60`, `:30..50`, `:40`) into range bounds
+ */
+const parseNumberRange = (operator: ComparisonOperator, value: string): NumberRange | null => {
+  if (operator === ':') {
+    const [from, to, ...rest] = value.split('..');
+    if (rest.length > 0) return null;
+    if (to === undefined) {
+      const exact = parseNumber(from);
+      return exact === undefined ? null : { min: exact, max: exact };
+    }
+    const min = from === '' ? undefined : parseNumber(from);
+    const max = to === '' ? undefined : parseNumber(to);
+    if ((from !== '' && min === undefined) || (to !== '' && max === undefined)) return null;
+    if (min === undefined && max === undefined) return null;
+    return { ...(min !== undefined && { min }), ...(max !== undefined && { max }) };
+  }
+
+  const bound = parseNumber(value);
+  if (bound === undefined) return null;
+  return operator.startsWith('>') ? { min: bound } : { max: bound };
+};
+
+/**
+ * Read a date comparison (`>=2025-01-01`, `:2025`, `:2025-01-01..2025-03-31`) into a range
+ */
+const parseDateRange = (operator: ComparisonOperator, value: string): DateRange | null => {
+  if (operator === ':') {
+    if (YEAR_PATTERN.test(value)) return { from: `${value}-01-01`, to: `${value}-12-31` };
+
+    const [from, to, ...rest] = value.split('..');
+    if (rest.length > 0) return null;
+    if (to === undefined) {
+      const exact = parseDate(from);
+      return exact ? { from: exact, to: exact } : null;
+    }
+    const start = from === '' ? undefined : parseDate(from);
+    const end = to === '' ? undefined : parseDate(to);
+    if ((from !== '' && !start) || (to !== '' && !end)) return null;
+    if (!start && !end) return null;
+    return { ...(start && { from: start }), ...(end && { to: end }) };
+  }
+
+  const bound = parseDate(value);
+  if (!bound) return null;
+  return operator.startsWith('>') ? { from: bound } : { to: bound };
+};
+
+/**
+ * Parse query text into dashboard filters. Filters the query doesn't mention are reset to
+ * their defaults, so the text always describes the whole filter state it covers.
+ *
+ * `>` and `<` are inclusive, like the range filters they set.
+ */
+export const parseSearchQuery = (
+  input: string,
+  metadata: SearchQueryMetadata
+): ParsedSearchQuery => {
+  const defaults = pickSearchQueryFilters(getDefaultFilters());
+  const filters: SearchQueryFilters = { ...defaults, selectedTags: [], excludedTags: [] };
+  const ranges: ProjectRangeFilters = {};
+  const errors: SearchQueryError[] = [];
+  const words: string[] = [];
+
+  for (const token of tokenize(input)) {
+    const addError = (message: string) =>
+      errors.push({ message, start: token.start, end: token.end });
+
+    if (token.unterminated) {
+      addError(`Missing closing quote in ${token.text}`);
+      continue;
+    }
+
+    const match = TERM_PATTERN.exec(token.text);
+    const rawKey = match?.[2].toLowerCase();
+    const key = rawKey ? (KEY_ALIASES[rawKey] ?? rawKey) : undefined;
+
+    // Plain words, and things like "Cats:" with nothing after the colon, are search text
+    if (!match || !key || (!KNOWN_KEYS.has(key) && match[4] === '')) {
+      words.push(unquote(token.text));
+      continue;
+    }
+
+    const [, negation, , operatorText, rawValue] = match;
+    const operator = operatorText as ComparisonOperator;
+    const value = unquote(rawValue).trim();
+
+    if (!KNOWN_KEYS.has(key)) {
+      addError(`Unknown filter "${rawKey}"`);
+      continue;
+    }
+    if (negation && key !== 'tag') {
+      addError(`Only tags can be excluded with "-" (${token.text})`);
+      continue;
+    }
+    if (value === '') {
+      addError(`Missing value for ${key}`);
+      continue;
+    }
+    if (operator !== ':' && !NUMBER_KEYS.has(key) && !DATE_KEYS.has(key)) {
+      addError(`${key} only supports ${key}:value`);
+      continue;
+    }
+
+    const numberField = NUMBER_KEYS.get(key);
+    if (numberField) {
+      const range = parseNumberRange(operator, value);
+      if (!range) {
+        addError(`${key} needs a number, e.g. ${key}>40 or ${key}:30..50`);
+        continue;
+      }
+      ranges[numberField] = { ...ranges[numberField], ...range };
+      continue;
+    }
+
+    const dateField = DATE_KEYS.get(key);
+    if (dateField) {
+      const range = parseDateRange(operator, value);
+      if (!range) {
+        addError(`${key} needs a date (YYYY-MM-DD) or year, e.g. ${key}>=2025-01-01`);
+        continue;
+      }
+      ranges[dateField] = { ...ranges[dateField], ...range };
+      continue;
+    }
+
+    switch (key) {
+      case 'status': {
+        const status = value.toLowerCase();
+        const resolved =
+          STATUS_ALIASES[status] ?? STATUS_VALUES.find(candidate => candidate === status);
+        if (resolved) {
+          filters.activeStatus = resolved;
+        } else {
+          addError(`Unknown status "${value}"`);
+        }
+        break;
+      }
+      case 'tag': {
+        const tag = findByName(metadata.tags, value);
+        if (!tag) {
+          addError(`No tag named "${value}"`);
+        } else {
+          const list = negation ? filters.excludedTags : filters.selectedTags;
+          if (!list.includes(tag.id)) list.push(tag.id);
+        }
+        break;
+      }
+      case 'company':
+      case 'artist': {
+        const item = findByName(key === 'company' ? metadata.companies : metadata.artists, value);
+        if (!item) {
+          addError(`No ${key} named "${value}"`);
+        } else if (key === 'company') {
+          filters.selectedCompany = item.name;
+        } else {
+          filters.selectedArtist = item.name;
+        }
+        break;
+      }
+      case 'shape': {
+        const shape = getDrillShapes().find(option => option === value.toLowerCase());
+        if (shape) {
+          filters.selectedDrillShape = shape;
+        } else {
+          addError(`Drill shape must be one of: ${getDrillShapes().join(', ')}`);
+        }
+        break;
+      }
+      case 'year':
+        if (YEAR_PATTERN.test(value)) {
+          filters.selectedYearFinished = value;
+        } else {
+          addError(`year needs a four-digit year, e.g. year:2025`);
+        }
+        break;
+      case 'match':
+        if (value === 'any' || value === 'all') {
+          filters.tagMatchMode = value;
+        } else {
+          addError('match must be "any" or "all"');
+        }
+        break;
+    }
+  }
+
+  filters.ranges = normalizeProjectRanges(ranges);
+  filters.searchTerm = words.join(' ');
+  return { filters, errors };
+};
+
+const formatNumberRange = (key: string, range: NumberRange): string[] => {
+  const { min, max } = range;
+  if (min !== undefined && max !== undefined) {
+    return [min === max ? `${key}:${min}` : `${key}:${min}..${max}`];
+  }
+  if (min !== undefined) return [`${key}>=${min}`];
+  if (max !== undefined) return [`${key}<=${max}`];
+  return [];
+};
+
+const formatDateRange = (key: string, range: DateRange): string[] => {
+  const { from, to } = range;
+  if (from && to) {
+    const year = from.slice(0, 4);
+    if (from === `${year}-01-01` && to === `${year}-12-31`) return [`${key}:${year}`];
+    return [from === to ? `${key}:${from}` : `${key}:${from}..${to}`];
+  }
+  if (from) return [`${key}>=${from}`];
+  if (to) return [`${key}<=${to}`];
+  return [];
+};
+
+/**
+ * Write the active filters as query text. Tag IDs without a matching tag are left out.
+ */
+export const filtersToSearchQuery = (
+  filters: SearchQueryFilters,
+  metadata: SearchQueryMetadata
+): string => {
+  const defaults = getDefaultFilters();
+  const tagName = (id: string) => metadata.tags.find(tag => tag.id === id)?.name;
+  const terms: string[] = [];
+
+  if (filters.activeStatus !== defaults.activeStatus) terms.push(`status:${filters.activeStatus}`);
+  filters.selectedTags.forEach(id => {
+    const name = tagName(id);
+    if (name) terms.push(`tag:${quoteIfNeeded(name)}`);
+  });
+  filters.excludedTags.forEach(id => {
+    const name = tagName(id);
+    if (name) terms.push(`-tag:${quoteIfNeeded(name)}`);
+  });
+  if (filters.tagMatchMode === 'all') terms.push('match:all');
+  if (filters.selectedCompany && filters.selectedCompany !== 'all') {
+    terms.push(`company:${quoteIfNeeded(filters.selectedCompany)}`);
+  }
+  if (filters.selectedArtist && filters.selectedArtist !== 'all') {
+    terms.push(`artist:${quoteIfNeeded(filters.selectedArtist)}`);
+  }
+  if (filters.selectedDrillShape && filters.selectedDrillShape !== 'all') {
+    terms.push(`shape:${filters.selectedDrillShape}`);
+  }
+  if (filters.selectedYearFinished && filters.selectedYearFinished !== 'all') {
+    terms.push(`year:${filters.selectedYearFinished}`);
+  }
+
+  const ranges = normalizeProjectRanges(filters.ranges);
+  NUMBER_RANGE_FIELDS.forEach(({ key, param }) => {
+    const range = ranges[key];
+    if (range) terms.push(...formatNumberRange(param, range));
+  });
+  DATE_RANGE_FIELDS.forEach(({ key, param }) => {
+    const range = ranges[key];
+    if (range) terms.push(...formatDateRange(param, range));
+  });
+
+  const searchTerm = filters.searchTerm.trim();
+  if (searchTerm) {
+    // Quote search text that would otherwise read as a filter term
+    const needsQuotes = tokenize(searchTerm).some(token => TERM_PATTERN.test(token.text));
+    terms.push(needsQuotes ? `"${unquote(searchTerm)}"` : searchTerm);
+  }
+
+  return terms.join(' ');
+};
+
+const sameIds = (a: string[], b: string[]): boolean =>
+  [...a].sort().join(',') === [...b].sort().join(',');
+
+/**
+ * Whether two query filter states select the same projects
+ */
+export const areSearchQueryFiltersEqual = (a: SearchQueryFilters, b: SearchQueryFilters): boolean =>
+  a.activeStatus === b.activeStatus &&
+  a.selectedCompany === b.selectedCompany &&
+  a.selectedArtist === b.selectedArtist &&
+  a.selectedDrillShape === b.selectedDrillShape &&
+  a.selectedYearFinished === b.selectedYearFinished &&
+  a.searchTerm.trim() === b.searchTerm.trim() &&
+  a.tagMatchMode === b.tagMatchMode &&
+  sameIds(a.selectedTags, b.selectedTags) &&
+  sameIds(a.excludedTags, b.excludedTags) &&
+  areRangesEqual(a.ranges, b.ranges);
+
+const getValueOptions = (key: string, metadata: SearchQueryMetadata): string[] => {
+  switch (key) {
+    case 'status':
+      return STATUS_VALUES;
+    case 'tag':
+      return metadata.tags.map(tag => tag.name);
+    case 'company':
+      return metadata.companies.map(company => company.name);
+    case 'artist':
+      return metadata.artists.map(artist => artist.name);
+    case 'shape':
+      return getDrillShapes();
+    case 'match':
+      return ['any', 'all'];
+    default:
+      return [];
+  }
+};
+
+/**
+ * Suggest filter keys, or values for tag, company, artist, status, shape and match,
+ * for the term under the cursor
+ */
+export const getSearchQuerySuggestions = (
+  input: string,
+  cursor: number,
+  metadata: SearchQueryMetadata
+): SearchQuerySuggestions | null => {
+  const token = tokenize(input).find(({ start, end }) => start <= cursor && cursor <= end) ?? {
+    text: '',
+    start: cursor,
+    end: cursor,
+    unterminated: false,
+  };
+  const typed = token.text.slice(0, cursor - token.start);
+
+  const match = /^(-?)([a-z]*)(?::("?)([^"]*))?$/i.exec(typed);
+  if (!match) return null;
+
+  const [, negation, rawKey, quote, partialValue] = match;
+  const hasColon = typed.includes(':');
+
+  if (!hasColon) {
+    if (!rawKey) return null;
+    const prefix = rawKey.toLowerCase();
+    const keys = (negation ? ['tag'] : SEARCH_QUERY_KEYS).filter(
+      key => key.startsWith(prefix) && key !== prefix
+    );
+    if (keys.length === 0) return null;
+    return {
+      start: token.start,
+      end: token.end,
+      items: keys.slice(0, MAX_SUGGESTIONS).map(key => ({
+        label: `${negation}${key}:`,
+        replacement: `${negation}${key}:`,
+      })),
+    };
+  }
+
+  const key = KEY_ALIASES[rawKey.toLowerCase()] ?? rawKey.toLowerCase();
+  const needle = (partialValue ?? '').toLowerCase();
+  const values = getValueOptions(key, metadata)
+    .filter(value => value.toLowerCase().includes(needle))
+    .sort(
+      (a, b) =>
+        Number(!a.toLowerCase().startsWith(needle)) - Number(!b.toLowerCase().startsWith(needle))
+    );
+
+  // Nothing to add once the value is complete
+  if (
+    values.length === 0 ||
+    (values.length === 1 && values[0].toLowerCase() === needle && !quote)
+  ) {
+    return null;
+  }
+
+  return {
+    start: token.start,
+    end: token.end,
+    items: values.slice(0, MAX_SUGGESTIONS).map(value => ({
+      label: value,
+      replacement: `${negation}${rawKey}:${quoteIfNeeded(value)}`,
+    })),
+  };
+};
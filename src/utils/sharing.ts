@@ -0,0 +1,152 @@
+/**
+ * Public sharing helpers: field choices, share tokens and links, and building the public
+ * copy of a project with only the chosen fields
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type {
+  ShareField,
+  ShareSource,
+  SharedProgressEntry,
+  SharedProjectSnapshot,
+} from '@/types/sharing';
+import { toDateOnly } from '@/utils/orders';
+import { stripHtml } from '@/utils/projectSearch';
+import { getTotalCost, normalizeCurrency } from '@/utils/purchaseCost';
+
+export const SHARE_TOKEN_LENGTH = 24;
+export const PROFILE_DISPLAY_NAME_MAX_LENGTH = 50;
+export const PROFILE_BIO_MAX_LENGTH = 500;
+
+const TOKEN_ALPHABET = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+export interface ShareFieldOption {
+  field: ShareField;
+  label: string;
+  description: string;
+  /** Personal details, off unless the owner turns them on */
+  private?: boolean;
+}
+
+export const SHARE_FIELD_OPTIONS: ShareFieldOption[] = [
+  { field: 'artist', label: 'Artist', description: 'Who designed the canvas' },
+  { field: 'company', label: 'Company', description: 'Where the kit came from' },
+  {
+    field: 'details',
+    label: 'Kit details',
+    description: 'Size, drill shape, kit type and drill count',
+  },
+  { field: 'dates', label: 'Dates', description: 'When you started and finished' },
+  {
+    field: 'progress',
+    label: 'Progress timeline',
+    description: 'Progress picture dates, percentages and images',
+  },
+  {
+    field: 'progressText',
+    label: 'Progress note text',
+    description: 'What you wrote in each progress note',
+    private: true,
+  },
+  { field: 'price', label: 'Price', description: 'What you paid for the kit', private: true },
+  { field: 'notes', label: 'General notes', description: 'Your project notes', private: true },
+];
+
+const SHARE_FIELDS = new Set<ShareField>(SHARE_FIELD_OPTIONS.map(option => option.field));
+
+export const DEFAULT_SHARE_FIELDS: ShareField[] = SHARE_FIELD_OPTIONS.filter(
+  option => !option.private
+).map(option => option.field);
+
+/**
+ * Keep only known field names, in display order. Progress note text needs the progress
+ * timeline, so it's dropped without it.
+ */
+export const normalizeShareFields = (value: unknown): ShareField[] => {
+  const chosen = new Set(
+    Array.isArray(value)
+      ? value.filter((field): field is ShareField => SHARE_FIELDS.has(field as ShareField))
+      : []
+  );
+  if (!chosen.has('progress')) {
+    chosen.delete('progressText');
+  }
+  return SHARE_FIELD_OPTIONS.map(option => option.field).filter(field => chosen.has(field));
+};
+
+/**
+ * Random URL-safe token for a share link
+ */
+export const generateShareToken = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(SHARE_TOKEN_LENGTH));
+  // The modulo slightly favours the first 8 characters (256 = 4 × 62 + 8), which doesn't
+  // matter for links this long
+  return Array.from(bytes, byte => TOKEN_ALPHABET[byte % TOKEN_ALPHABET.length]).join('');
+};
+
+export const getShareUrl = (origin: string, token: string): string => `${origin}/share/${token}`;
+
+export const getProfileUrl = (origin: string, username: string): string =>
+  `${origin}/u/${encodeURIComponent(username)}`;
+
+/**
+ * Build the public copy of a project with only the chosen fields. Rich text is reduced to
+ * plain text, and empty values are left out.
+ */
+export const buildShareSnapshot = (
+  source: ShareSource,
+  fields: ShareField[]
+): SharedProjectSnapshot => {
+  const chosen = new Set(normalizeShareFields(fields));
+  const snapshot: SharedProjectSnapshot = {
+    title: source.title,
+    status: source.status,
+    image: source.image,
+  };
+
+  if (chosen.has('artist')) snapshot.artist = source.artist || undefined;
+  if (chosen.has('company')) snapshot.company = source.company || undefined;
+
+  if (chosen.has('details')) {
+    snapshot.width = source.width || undefined;
+    snapshot.height = source.height || undefined;
+    snapshot.drillShape = source.drillShape || undefined;
+    snapshot.kitCategory = source.kitCategory || undefined;
+    snapshot.totalDiamonds = source.totalDiamonds || undefined;
+  }
+
+  if (chosen.has('dates')) {
+    snapshot.dateStarted = toDateOnly(source.dateStarted);
+    snapshot.dateCompleted = toDateOnly(source.dateCompleted);
+  }
+
+  if (chosen.has('price')) {
+    const total = getTotalCost(source);
+    if (total !== null) {
+      snapshot.price = total;
+      snapshot.currency = normalizeCurrency(source.currency);
+    }
+  }
+
+  if (chosen.has('notes')) {
+    snapshot.notes = stripHtml(source.generalNotes ?? '') || undefined;
+  }
+
+  if (chosen.has('progress')) {
+    snapshot.progress = source.progressNotes
+      .map(
+        (note): SharedProgressEntry => ({
+          date: toDateOnly(note.date) ?? '',
+          percentComplete: note.percentComplete || undefined,
+          text: chosen.has('progressText') ? stripHtml(note.content ?? '') || undefined : undefined,
+          image: note.image,
+        })
+      )
+      .filter(entry => entry.date && (entry.image || entry.percentComplete || entry.text))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Drop keys left undefined so the stored JSON only holds what is shown
+  return JSON.parse(JSON.stringify(snapshot)) as SharedProjectSnapshot;
+};
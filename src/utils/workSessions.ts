@@ -0,0 +1,104 @@
+/**
+ * Work session time and drill-rate calculations
+ *
+ * Drills per hour only counts sessions that recorded a drill count, so a long session
+ * logged without drills does not drag the rate down.
+ *
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { WorkSession, WorkSessionSummary } from '@/types/workSession';
+
+type SessionTiming = Pick<WorkSession, 'startedAt' | 'endedAt' | 'durationSeconds'>;
+type SessionTotals = Pick<WorkSession, 'durationSeconds' | 'drillsPlaced'>;
+
+/**
+ * Seconds elapsed in a session: the recorded duration once stopped, otherwise the
+ * time since it started
+ */
+export const getSessionElapsedSeconds = (
+  session: SessionTiming,
+  now: Date = new Date()
+): number => {
+  if (session.endedAt) {
+    return Math.max(0, session.durationSeconds);
+  }
+  const started = Date.parse(session.startedAt);
+  if (isNaN(started)) return 0;
+  return Math.max(0, Math.floor((now.getTime() - started) / 1000));
+};
+
+/**
+ * Total time and drill rate across finished sessions
+ */
+export const summarizeWorkSessions = (sessions: SessionTotals[]): WorkSessionSummary => {
+  let totalSeconds = 0;
+  let drillsPlaced = 0;
+  let countedSeconds = 0;
+
+  sessions.forEach(session => {
+    totalSeconds += session.durationSeconds;
+    if (session.drillsPlaced != null && session.drillsPlaced > 0) {
+      drillsPlaced += session.drillsPlaced;
+      countedSeconds += session.durationSeconds;
+    }
+  });
+
+  return {
+    sessionCount: sessions.length,
+    totalSeconds,
+    drillsPlaced,
+    drillsPerHour: countedSeconds > 0 ? Math.round(drillsPlaced / (countedSeconds / 3600)) : null,
+  };
+};
+
+/**
+ * Per-project summaries of finished sessions, keyed by project ID
+ */
+export const summarizeWorkSessionsByProject = (
+  sessions: WorkSession[]
+): Map<string, WorkSessionSummary> => {
+  const byProject = new Map<string, WorkSession[]>();
+  sessions
+    .filter(session => session.endedAt)
+    .forEach(session => {
+      byProject.set(session.projectId, [...(byProject.get(session.projectId) ?? []), session]);
+    });
+
+  return new Map(
+    [...byProject.entries()].map(([projectId, projectSessions]) => [
+      projectId,
+      summarizeWorkSessions(projectSessions),
+    ])
+  );
+};
+
+/**
+ * Hours rounded to one decimal place, e.g. 5400 -> 1.5
+ */
+export const toHours = (seconds: number): number => Math.round((seconds / 3600) * 10) / 10;
+
+/**
+ * Compact duration for display, e.g. "2h 15m", "45m", "30s"
+ */
+export const formatDuration = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (hours > 0) return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${Math.max(0, Math.floor(seconds))}s`;
+};
+
+/**
+ * Running-clock format for a live timer, e.g. "1:05:09" or "05:09"
+ */
+export const formatClock = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${pad(minutes)}:${pad(secs)}`;
+};
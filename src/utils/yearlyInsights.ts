@@ -0,0 +1,360 @@
+/**
+ * Pure calculations for the yearly stats page
+ * @author @serabi
+ * @created 2026-10-18
+ */
+
+import type { ProjectStatus } from '@/types/project';
+import type {
+  CurrencySpending,
+  RankedEntity,
+  SpendingEntry,
+  StatusBreakdown,
+  YearTotals,
+  YearlyInsights,
+  YearlyStatsEntry,
+} from '@/types/dashboard-stats';
+import type { WorkSession } from '@/types/workSession';
+import { getStatusLabel } from '@/utils/projectStatusUtils';
+import { getTotalCost, normalizeCurrency } from '@/utils/purchaseCost';
+import { summarizeWorkSessions, toHours } from '@/utils/workSessions';
+
+/**
+ * Minimal project fields needed to calculate stats
+ */
+export interface StatsProjectRow {
+  id: string;
+  status: ProjectStatus;
+  company?: string;
+  companyName?: string;
+  artist?: string;
+  artistName?: string;
+  total_diamonds?: number;
+  price?: number;
+  shipping_cost?: number;
+  discount?: number;
+  currency?: string;
+  date_purchased?: string;
+  date_received?: string;
+  date_started?: string;
+  date_completed?: string;
+}
+
+/**
+ * Finished work session fields needed to calculate stats
+ */
+export type StatsSessionRow = Pick<WorkSession, 'startedAt' | 'durationSeconds' | 'drillsPlaced'>;
+
+export const TOP_ENTITY_LIMIT = 5;
+
+/**
+ * Statuses that count toward the stash value: owned kits that haven't been started
+ */
+export const STASH_VALUE_STATUSES: ProjectStatus[] = ['purchased', 'stash'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Read year and month (1-12) straight from a PocketBase date string.
+ * Avoids Date parsing so a date never shifts into another month through the local timezone.
+ */
+export const getYearMonth = (value: string | undefined): { year: number; month: number } | null => {
+  const match = value ? /^(\d{4})-(\d{2})/.exec(value) : null;
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  return month >= 1 && month <= 12 ? { year, month } : null;
+};
+
+/**
+ * Date a project joined the stash: purchase date, falling back to the received date
+ */
+const getAcquiredDate = (row: StatsProjectRow): string | undefined =>
+  row.status === 'wishlist' ? undefined : row.date_purchased || row.date_received;
+
+const isCompletedIn = (row: StatsProjectRow, year: number): boolean =>
+  row.status === 'completed' && getYearMonth(row.date_completed)?.year === year;
+
+const daysBetween = (start: string, end: string): number | null => {
+  const startTime = Date.parse(start.slice(0, 10));
+  const endTime = Date.parse(end.slice(0, 10));
+  if (isNaN(startTime) || isNaN(endTime) || endTime < startTime) return null;
+  return Math.round((endTime - startTime) / MS_PER_DAY);
+};
+
+const rankEntities = (
+  rows: StatsProjectRow[],
+  getEntity: (row: StatsProjectRow) => { id?: string; name?: string }
+): RankedEntity[] => {
+  const counts = new Map<string, RankedEntity>();
+  rows.forEach(row => {
+    const { id, name } = getEntity(row);
+    if (!id) return;
+    const entry = counts.get(id) ?? { id, name: name || 'Unknown', count: 0 };
+    entry.count += 1;
+    counts.set(id, entry);
+  });
+
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, TOP_ENTITY_LIMIT);
+};
+
+/**
+ * What a project cost, with PocketBase's 0 for empty number fields read as "not recorded"
+ */
+const getRowCost = (row: StatsProjectRow): number | null =>
+  getTotalCost({
+    price: row.price || null,
+    shippingCost: row.shipping_cost || null,
+    discount: row.discount || null,
+  });
+
+const addSpending = (
+  entries: Map<string, SpendingEntry>,
+  key: string,
+  name: string,
+  amount: number
+) => {
+  const entry = entries.get(key) ?? { key, name, amount: 0, count: 0 };
+  entry.amount = Math.round((entry.amount + amount) * 100) / 100;
+  entry.count += 1;
+  entries.set(key, entry);
+};
+
+const sortSpending = (entries: Map<string, SpendingEntry>): SpendingEntry[] =>
+  [...entries.values()].sort((a, b) => b.amount - a.amount || a.name.localeCompare(b.name));
+
+/**
+ * Spending per currency on kits acquired in the year, by month, company and current status,
+ * plus the user-wide value of the unstarted stash. Most used currency first.
+ */
+export const getSpendingByCurrency = (
+  rows: StatsProjectRow[],
+  year: number
+): CurrencySpending[] => {
+  const reports = new Map<
+    string,
+    {
+      report: CurrencySpending;
+      companies: Map<string, SpendingEntry>;
+      statuses: Map<string, SpendingEntry>;
+      projectCount: number;
+    }
+  >();
+
+  rows.forEach(row => {
+    const cost = getRowCost(row);
+    if (cost === null || row.status === 'wishlist') return;
+
+    const currency = normalizeCurrency(row.currency);
+    const entry = reports.get(currency) ?? {
+      report: {
+        currency,
+        total: 0,
+        kit_count: 0,
+        by_month: new Array<number>(12).fill(0),
+        by_company: [],
+        by_status: [],
+        stash_value: 0,
+        stash_count: 0,
+      },
+      companies: new Map<string, SpendingEntry>(),
+      statuses: new Map<string, SpendingEntry>(),
+      projectCount: 0,
+    };
+    reports.set(currency, entry);
+    entry.projectCount += 1;
+
+    const { report } = entry;
+    if (STASH_VALUE_STATUSES.includes(row.status)) {
+      report.stash_value = Math.round((report.stash_value + cost) * 100) / 100;
+      report.stash_count += 1;
+    }
+
+    const acquired = getYearMonth(getAcquiredDate(row));
+    if (acquired?.year !== year) return;
+
+    report.total = Math.round((report.total + cost) * 100) / 100;
+    report.kit_count += 1;
+    report.by_month[acquired.month - 1] =
+      Math.round((report.by_month[acquired.month - 1] + cost) * 100) / 100;
+    addSpending(
+      entry.companies,
+      row.company || 'none',
+      row.company ? row.companyName || 'Unknown' : 'No company',
+      cost
+    );
+    addSpending(entry.statuses, row.status, getStatusLabel(row.status), cost);
+  });
+
+  return [...reports.values()]
+    .sort(
+      (a, b) =>
+        b.projectCount - a.projectCount || a.report.currency.localeCompare(b.report.currency)
+    )
+    .map(({ report, companies, statuses }) => ({
+      ...report,
+      by_company: sortSpending(companies).slice(0, TOP_ENTITY_LIMIT),
+      by_status: sortSpending(statuses),
+    }));
+};
+
+export const createEmptyStatusBreakdown = (): StatusBreakdown => ({
+  wishlist: 0,
+  purchased: 0,
+  stash: 0,
+  progress: 0,
+  onhold: 0,
+  completed: 0,
+  archived: 0,
+  destashed: 0,
+});
+
+export const getStatusBreakdown = (rows: StatsProjectRow[]): StatusBreakdown => {
+  const breakdown = createEmptyStatusBreakdown();
+  rows.forEach(row => {
+    if (row.status in breakdown) {
+      breakdown[row.status as keyof StatusBreakdown] += 1;
+    }
+  });
+  return breakdown;
+};
+
+/**
+ * Completions, diamonds and acquisitions for every year that has any activity, newest first
+ */
+export const getYearlyTotals = (rows: StatsProjectRow[]): YearTotals[] => {
+  const totals = new Map<number, YearTotals>();
+  const getTotals = (year: number) => {
+    const entry = totals.get(year) ?? { year, completed: 0, diamonds: 0, acquired: 0 };
+    totals.set(year, entry);
+    return entry;
+  };
+
+  rows.forEach(row => {
+    const completed = row.status === 'completed' ? getYearMonth(row.date_completed) : null;
+    if (completed) {
+      const entry = getTotals(completed.year);
+      entry.completed += 1;
+      entry.diamonds += row.total_diamonds || 0;
+    }
+    const acquired = getYearMonth(getAcquiredDate(row));
+    if (acquired) {
+      getTotals(acquired.year).acquired += 1;
+    }
+  });
+
+  return [...totals.values()].sort((a, b) => b.year - a.year);
+};
+
+/**
+ * Years with any recorded purchase, start or completion date, newest first
+ */
+export const getAvailableStatsYears = (rows: StatsProjectRow[]): number[] => {
+  const years = new Set<number>();
+  rows.forEach(row => {
+    [row.date_purchased, row.date_received, row.date_started, row.date_completed].forEach(date => {
+      const parsed = getYearMonth(date);
+      if (parsed) years.add(parsed.year);
+    });
+  });
+  return [...years].sort((a, b) => b - a);
+};
+
+/**
+ * Calculate the stats page insights for one year
+ */
+export const computeYearlyInsights = (
+  rows: StatsProjectRow[],
+  year: number,
+  sessions: StatsSessionRow[] = []
+): YearlyInsights => {
+  const completionsByMonth = new Array<number>(12).fill(0);
+  const acquisitionsByMonth = new Array<number>(12).fill(0);
+  const completedRows: StatsProjectRow[] = [];
+  const durations: number[] = [];
+
+  rows.forEach(row => {
+    if (isCompletedIn(row, year)) {
+      completedRows.push(row);
+      completionsByMonth[getYearMonth(row.date_completed)!.month - 1] += 1;
+
+      if (row.date_started && row.date_completed) {
+        const days = daysBetween(row.date_started, row.date_completed);
+        if (days !== null) durations.push(days);
+      }
+    }
+
+    const acquired = getYearMonth(getAcquiredDate(row));
+    if (acquired?.year === year) {
+      acquisitionsByMonth[acquired.month - 1] += 1;
+    }
+  });
+
+  const averageDays =
+    durations.length > 0
+      ? Math.round((durations.reduce((sum, days) => sum + days, 0) / durations.length) * 10) / 10
+      : null;
+
+  const sessionSummary = summarizeWorkSessions(
+    sessions.filter(session => getYearMonth(session.startedAt)?.year === year)
+  );
+
+  return {
+    completions_by_month: completionsByMonth,
+    acquisitions_by_month: acquisitionsByMonth,
+    acquired_count: acquisitionsByMonth.reduce((sum, count) => sum + count, 0),
+    average_days_to_complete: averageDays,
+    hours_worked: toHours(sessionSummary.totalSeconds),
+    session_count: sessionSummary.sessionCount,
+    drills_per_hour: sessionSummary.drillsPerHour,
+    top_companies: rankEntities(completedRows, row => ({
+      id: row.company,
+      name: row.companyName,
+    })),
+    top_artists: rankEntities(completedRows, row => ({ id: row.artist, name: row.artistName })),
+    spending: getSpendingByCurrency(rows, year),
+    yearly_totals: getYearlyTotals(rows),
+    available_years: getAvailableStatsYears(rows),
+  };
+};
+
+/**
+ * Calculate the full stats entry for one year
+ */
+export const computeYearlyStatsEntry = (
+  rows: StatsProjectRow[],
+  year: number,
+  sessions: StatsSessionRow[] = []
+): YearlyStatsEntry => {
+  const statusBreakdown = getStatusBreakdown(rows);
+  const completedRows = rows.filter(row => isCompletedIn(row, year));
+
+  return {
+    year,
+    completed_count: completedRows.length,
+    started_count: rows.filter(row => getYearMonth(row.date_started)?.year === year).length,
+    in_progress_count: statusBreakdown.progress,
+    total_diamonds: completedRows.reduce((sum, row) => sum + (row.total_diamonds || 0), 0),
+    status_breakdown: statusBreakdown,
+    insights: computeYearlyInsights(rows, year, sessions),
+  };
+};
+
+/**
+ * Relative change from the previous value, null when there is nothing to compare against
+ */
+export const getPercentChange = (current: number, previous: number): number | null =>
+  previous === 0 ? null : Math.round(((current - previous) / previous) * 100);
+
+/**
+ * Running stash size change per month: acquisitions minus completions, accumulated
+ */
+export const getCumulativeStashGrowth = (insights: YearlyInsights): number[] => {
+  let running = 0;
+  return insights.acquisitions_by_month.map((acquired, index) => {
+    running += acquired - insights.completions_by_month[index];
+    return running;
+  });
+};
@@ -15,6 +15,26 @@ export default defineConfig(({ mode }) => {
         },
         workbox: {
           globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
+          runtimeCaching: [
+            {
+              // Project thumbnails from PocketBase, so the stash can be browsed offline.
+              // Cleared on sign-out; keep the name in sync with THUMBNAIL_CACHE_NAME.
+              urlPattern: ({ url }) =>
+                url.pathname.startsWith('/api/files/') && url.searchParams.has('thumb'),
+              handler: 'CacheFirst',
+              options: {
+                cacheName: 'pocketbase-thumbnails',
+                expiration: {
+                  maxEntries: 300,
+                  maxAgeSeconds: 30 * 24 * 60 * 60,
+                  purgeOnQuotaError: true,
+                },
+                cacheableResponse: {
+                  statuses: [0, 200],
+                },
+              },
+            },
+          ],
         },
         includeAssets: ['favicon.ico', 'apple-touch-icon.png'],
         manifest: {